@@ -17,6 +17,10 @@ interface PackageData {
   totalCredits: number;
   startsAt: Date;
   expiresAt: Date | null;
+  // Present on packages a household member shares with this customer
+  ownerName?: string;
+  creditLimit?: number | null;
+  creditsUsed?: number;
   items?: {
     serviceId: string;
     serviceName?: string;
@@ -179,6 +183,13 @@ export function EnhancedPackageDisplay({
                           <Badge className={`text-xs ${status.color}`}>
                             {status.label}
                           </Badge>
+                          {pkg.ownerName && (
+                            <Badge variant="outline" className="text-xs" data-testid={`package-shared-${pkg.id}`}>
+                              Shared by {pkg.ownerName}
+                              {pkg.creditLimit != null &&
+                                ` · ${Math.max(pkg.creditLimit - (pkg.creditsUsed ?? 0), 0)} of ${pkg.creditLimit} left`}
+                            </Badge>
+                          )}
                         </div>
                         
                         <div className="flex items-center gap-4">
@@ -24,6 +24,8 @@ describe.skip("PackageChatbot", () => {
       isDeliveryAdmin: false,
       isDispatcher: false,
       isDriver: false,
+      permissions: [],
+      hasPermission: () => false,
     };
 
     let requestBody: any = null;
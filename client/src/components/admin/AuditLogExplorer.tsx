@@ -0,0 +1,258 @@
+import { useMemo, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useAuthContext } from "@/context/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+
+type AuditEvent = {
+  id: string;
+  eventType: string;
+  severity: "info" | "warning" | "critical";
+  entityType: string;
+  entityId: string | null;
+  actorId: string | null;
+  actorType: string;
+  actorName: string | null;
+  branchId: string | null;
+  requestId: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+};
+
+type AuditPage = { events: AuditEvent[]; nextCursor: string | null };
+
+type Filters = {
+  entityType: string;
+  entityId: string;
+  actorId: string;
+  eventType: string;
+  severity: string;
+  branchId: string;
+  start: string;
+  end: string;
+};
+
+const EMPTY_FILTERS: Filters = {
+  entityType: "",
+  entityId: "",
+  actorId: "",
+  eventType: "",
+  severity: "all",
+  branchId: "",
+  start: "",
+  end: "",
+};
+
+const SEVERITY_VARIANT: Record<AuditEvent["severity"], "secondary" | "outline" | "destructive"> = {
+  info: "secondary",
+  warning: "outline",
+  critical: "destructive",
+};
+
+function buildParams(filters: Filters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (!value || (key === "severity" && value === "all")) continue;
+    // Date inputs are local days; the end of the range includes the whole day
+    if (key === "start") params.set(key, new Date(`${value}T00:00:00`).toISOString());
+    else if (key === "end") params.set(key, new Date(`${value}T23:59:59.999`).toISOString());
+    else params.set(key, value.trim());
+  }
+  return params;
+}
+
+const formatValue = (value: unknown) =>
+  value === undefined ? "—" : typeof value === "string" ? value : JSON.stringify(value);
+
+function DiffTable({ metadata }: { metadata: Record<string, unknown> }) {
+  const before = (metadata.before ?? null) as Record<string, unknown> | null;
+  const after = (metadata.after ?? null) as Record<string, unknown> | null;
+  const { before: _before, after: _after, ...rest } = metadata;
+  const fields = Array.from(new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])).sort();
+
+  return (
+    <div className="space-y-4">
+      {fields.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Before</TableHead>
+              <TableHead>After</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fields.map((field) => (
+              <TableRow key={field}>
+                <TableCell className="font-mono text-xs">{field}</TableCell>
+                <TableCell className="break-all text-xs text-red-700">{formatValue(before?.[field])}</TableCell>
+                <TableCell className="break-all text-xs text-green-700">{formatValue(after?.[field])}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <p className="text-sm text-muted-foreground">This event did not record a before/after snapshot.</p>
+      )}
+      {Object.keys(rest).length > 0 && (
+        <pre className="max-h-64 overflow-auto rounded bg-muted p-3 text-xs">{JSON.stringify(rest, null, 2)}</pre>
+      )}
+    </div>
+  );
+}
+
+export function AuditLogExplorer() {
+  const { isSuperAdmin } = useAuthContext();
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [selected, setSelected] = useState<AuditEvent | null>(null);
+
+  const query = useMemo(() => buildParams(filters).toString(), [filters]);
+
+  const { data, isLoading, isError, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/audit-events", query],
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(query);
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await apiRequest("GET", `/api/audit-events?${params.toString()}`);
+      return (await res.json()) as AuditPage;
+    },
+    getNextPageParam: (page) => page.nextCursor,
+  });
+
+  const events = data?.pages.flatMap((page) => page.events) ?? [];
+  const update = (key: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft((prev) => ({ ...prev, [key]: e.target.value }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription>
+          Who changed what and when. Open an event to compare the recorded values before and after the change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setFilters(draft);
+          }}
+        >
+          <Input value={draft.eventType} onChange={update("eventType")} placeholder="Event type, e.g. price.*" aria-label="Event type" />
+          <Input value={draft.entityType} onChange={update("entityType")} placeholder="Entity type, e.g. coupon" aria-label="Entity type" />
+          <Input value={draft.entityId} onChange={update("entityId")} placeholder="Entity ID" aria-label="Entity ID" />
+          <Input value={draft.actorId} onChange={update("actorId")} placeholder="Actor user ID" aria-label="Actor user ID" />
+          <Select value={draft.severity} onValueChange={(severity) => setDraft((prev) => ({ ...prev, severity }))}>
+            <SelectTrigger aria-label="Severity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All severities</SelectItem>
+              <SelectItem value="info">Info</SelectItem>
+              <SelectItem value="warning">Warning</SelectItem>
+              <SelectItem value="critical">Critical</SelectItem>
+            </SelectContent>
+          </Select>
+          {isSuperAdmin && (
+            <Input value={draft.branchId} onChange={update("branchId")} placeholder="Branch ID (all branches)" aria-label="Branch ID" />
+          )}
+          <Input type="date" value={draft.start} onChange={update("start")} aria-label="From date" />
+          <Input type="date" value={draft.end} onChange={update("end")} aria-label="To date" />
+          <div className="flex flex-wrap gap-2 sm:col-span-2 lg:col-span-4">
+            <Button type="submit">Apply filters</Button>
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => {
+                setDraft(EMPTY_FILTERS);
+                setFilters(EMPTY_FILTERS);
+              }}
+            >
+              Reset
+            </Button>
+            <Button type="button" variant="outline" asChild>
+              <a href={`/api/audit-events/export.csv?${query}`} download>
+                Export CSV
+              </a>
+            </Button>
+            <Button type="button" variant="outline" asChild>
+              <a href={`/api/audit-events/export.xlsx?${query}`} download>
+                Export XLSX
+              </a>
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading audit events…</p>
+        ) : isError ? (
+          <p className="text-sm text-destructive">{(error as Error).message}</p>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No events match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Severity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id} className="cursor-pointer" onClick={() => setSelected(event)}>
+                  <TableCell className="whitespace-nowrap text-xs">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="font-mono text-xs">{event.eventType}</TableCell>
+                  <TableCell className="text-xs">
+                    {event.entityType}
+                    {event.entityId && <span className="block text-muted-foreground">{event.entityId}</span>}
+                  </TableCell>
+                  <TableCell className="text-xs">{event.actorName ?? event.actorType}</TableCell>
+                  <TableCell>
+                    <Badge variant={SEVERITY_VARIANT[event.severity]}>{event.severity}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Loading…" : "Load more"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{selected?.eventType}</DialogTitle>
+            <DialogDescription>
+              {selected &&
+                `${selected.entityType}${selected.entityId ? ` ${selected.entityId}` : ""} · ${
+                  selected.actorName ?? selected.actorType
+                } · ${new Date(selected.createdAt).toLocaleString()}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && <DiffTable metadata={selected.metadata} />}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default AuditLogExplorer;
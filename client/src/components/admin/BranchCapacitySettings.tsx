@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuthContext } from "@/context/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import type { BranchCapacitySettings as CapacitySettingsRow, BranchServiceCapacity, LaundryService } from "@shared/schema";
+import type { OverbookPolicy } from "@shared/capacity";
+import { Gauge } from "lucide-react";
+
+type CapacityResponse = { settings: CapacitySettingsRow | null; services: BranchServiceCapacity[] };
+
+export function BranchCapacitySettings() {
+  const { branch } = useAuthContext();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/branches", branch?.id, "capacity"];
+
+  const { data, isLoading } = useQuery<CapacityResponse>({
+    queryKey,
+    queryFn: async () => (await apiRequest("GET", `/api/branches/${branch!.id}/capacity`)).json(),
+    enabled: !!branch?.id,
+  });
+  const { data: services = [] } = useQuery<LaundryService[]>({ queryKey: ["/api/laundry-services"] });
+
+  const [cutoffTime, setCutoffTime] = useState("18:00");
+  const [standardLeadDays, setStandardLeadDays] = useState("1");
+  const [expressEnabled, setExpressEnabled] = useState(true);
+  const [expressSurchargePercent, setExpressSurchargePercent] = useState("50");
+  const [overbookPolicy, setOverbookPolicy] = useState<OverbookPolicy>("warn");
+  const [closedDates, setClosedDates] = useState("");
+  const [dailyPieces, setDailyPieces] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!data) return;
+    if (data.settings) {
+      setCutoffTime(data.settings.cutoffTime);
+      setStandardLeadDays(String(data.settings.standardLeadDays));
+      setExpressEnabled(data.settings.expressEnabled);
+      setExpressSurchargePercent(String(Number(data.settings.expressSurchargePercent)));
+      setOverbookPolicy(data.settings.overbookPolicy);
+      setClosedDates((data.settings.closedDates ?? []).join("\n"));
+    }
+    setDailyPieces(Object.fromEntries(data.services.map((entry) => [entry.serviceId, String(entry.dailyPieces)])));
+  }, [data]);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (!branch) throw new Error("No branch available");
+      const res = await apiRequest("PUT", `/api/branches/${branch.id}/capacity`, {
+        cutoffTime,
+        standardLeadDays: Number(standardLeadDays),
+        expressEnabled,
+        expressSurchargePercent: Number(expressSurchargePercent),
+        overbookPolicy,
+        closedDates: closedDates
+          .split(/[\s,]+/)
+          .map((value) => value.trim())
+          .filter(Boolean),
+        // Blank means the service is not capacity-limited
+        services: Object.entries(dailyPieces)
+          .filter(([, value]) => value.trim() !== "")
+          .map(([serviceId, value]) => ({ serviceId, dailyPieces: Number(value) })),
+      });
+      return (await res.json()) as CapacityResponse;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Capacity settings saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error saving capacity", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!branch) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" aria-hidden="true" />
+          Capacity & ready dates
+        </CardTitle>
+        <CardDescription>
+          Daily piece limits per service decide the earliest ready date offered at the POS and online.
+          {!isLoading && !data?.settings && " Capacity planning is off until these settings are saved."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="capacity-cutoff">Intake cut-off</Label>
+            <Input id="capacity-cutoff" type="time" value={cutoffTime} onChange={(e) => setCutoffTime(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="capacity-lead">Standard lead time (days)</Label>
+            <Input
+              id="capacity-lead"
+              type="number"
+              min={0}
+              max={14}
+              value={standardLeadDays}
+              onChange={(e) => setStandardLeadDays(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="capacity-overbook">When a day is full</Label>
+            <Select value={overbookPolicy} onValueChange={(value) => setOverbookPolicy(value as OverbookPolicy)}>
+              <SelectTrigger id="capacity-overbook">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Warn the cashier</SelectItem>
+                <SelectItem value="block">Block the date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="capacity-express-percent">Express surcharge (%)</Label>
+            <div className="flex items-center gap-3">
+              <Switch id="capacity-express" checked={expressEnabled} onCheckedChange={setExpressEnabled} aria-label="Offer express" />
+              <Input
+                id="capacity-express-percent"
+                type="number"
+                min={0}
+                max={500}
+                disabled={!expressEnabled}
+                value={expressSurchargePercent}
+                onChange={(e) => setExpressSurchargePercent(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="capacity-closed">Closed dates (YYYY-MM-DD, one per line)</Label>
+          <Textarea id="capacity-closed" rows={3} value={closedDates} onChange={(e) => setClosedDates(e.target.value)} />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Pieces per day</p>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {services.map((service) => (
+              <div key={service.id} className="flex items-center justify-between gap-2">
+                <Label htmlFor={`capacity-service-${service.id}`} className="text-sm font-normal">
+                  {service.name}
+                </Label>
+                <Input
+                  id={`capacity-service-${service.id}`}
+                  type="number"
+                  min={0}
+                  className="w-28"
+                  placeholder="No limit"
+                  value={dailyPieces[service.id] ?? ""}
+                  onChange={(e) => setDailyPieces((prev) => ({ ...prev, [service.id]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Button onClick={() => mutation.mutate()} disabled={mutation.isPending}>
+          Save capacity
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default BranchCapacitySettings;
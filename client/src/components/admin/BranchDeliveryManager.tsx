@@ -28,9 +28,11 @@ import {
   Save,
   Eye,
   EyeOff,
-  Pencil
+  Pencil,
+  CalendarClock
 } from "lucide-react";
 import LoadingScreen from "@/components/common/LoadingScreen";
+import { DeliverySlotSettings } from "@/components/admin/DeliverySlotSettings";
 import type { 
   BranchDeliverySettings,
   InsertBranchDeliverySettings,
@@ -404,7 +406,7 @@ export function BranchDeliveryManager() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-1">
+        <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-1">
           <TabsTrigger value="settings" className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm" data-testid="tab-settings">
             <Settings className="w-3 h-3 sm:w-4 sm:h-4" />
             <span className="hidden sm:inline">Settings</span>
@@ -415,6 +417,11 @@ export function BranchDeliveryManager() {
             <span className="hidden sm:inline">Service Areas</span>
             <span className="sm:hidden">Areas</span>
           </TabsTrigger>
+          <TabsTrigger value="slots" className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm" data-testid="tab-slots">
+            <CalendarClock className="w-3 h-3 sm:w-4 sm:h-4" />
+            <span className="hidden sm:inline">Time Slots</span>
+            <span className="sm:hidden">Slots</span>
+          </TabsTrigger>
           <TabsTrigger value="items" className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm" data-testid="tab-items">
             <Package className="w-3 h-3 sm:w-4 sm:h-4" />
             <span className="hidden sm:inline">Items</span>
@@ -542,71 +549,10 @@ export function BranchDeliveryManager() {
                   Operating Hours
                 </CardTitle>
               </CardHeader>
-              <CardContent className="space-y-4">
-                {DAYS_OF_WEEK.map((day) => (
-                  <div key={day.key} className="flex items-center justify-between p-3 border rounded-lg">
-                    <div className="flex items-center space-x-4">
-                      <Checkbox
-                        checked={deliverySettings.operatingHours[day.key]?.isOpen || false}
-                        onCheckedChange={(checked) => {
-                          setDeliverySettings(prev => ({
-                            ...prev,
-                            operatingHours: {
-                              ...prev.operatingHours,
-                              [day.key]: {
-                                ...prev.operatingHours[day.key],
-                                isOpen: checked === true
-                              }
-                            }
-                          }));
-                        }}
-                        data-testid={`checkbox-${day.key}`}
-                      />
-                      <Label className="w-24 font-medium">{day.label}</Label>
-                    </div>
-                    {deliverySettings.operatingHours[day.key]?.isOpen && (
-                      <div className="flex items-center space-x-2">
-                        <Input
-                          type="time"
-                          value={deliverySettings.operatingHours[day.key]?.openTime || "08:00"}
-                          onChange={(e) => {
-                            setDeliverySettings(prev => ({
-                              ...prev,
-                              operatingHours: {
-                                ...prev.operatingHours,
-                                [day.key]: {
-                                  ...prev.operatingHours[day.key],
-                                  openTime: e.target.value
-                                }
-                              }
-                            }));
-                          }}
-                          className="w-20"
-                          data-testid={`time-open-${day.key}`}
-                        />
-                        <span>to</span>
-                        <Input
-                          type="time"
-                          value={deliverySettings.operatingHours[day.key]?.closeTime || "20:00"}
-                          onChange={(e) => {
-                            setDeliverySettings(prev => ({
-                              ...prev,
-                              operatingHours: {
-                                ...prev.operatingHours,
-                                [day.key]: {
-                                  ...prev.operatingHours[day.key],
-                                  closeTime: e.target.value
-                                }
-                              }
-                            }));
-                          }}
-                          className="w-20"
-                          data-testid={`time-close-${day.key}`}
-                        />
-                      </div>
-                    )}
-                  </div>
-                ))}
+              <CardContent>
+                <p className="text-sm text-muted-foreground" data-testid="text-operating-hours-moved">
+                  Delivery windows now follow the branch opening hours and holiday calendar in Branch Settings.
+                </p>
               </CardContent>
             </Card>
 
@@ -844,6 +790,11 @@ export function BranchDeliveryManager() {
           </Card>
         </TabsContent>
 
+        {/* Time Slots Tab */}
+        <TabsContent value="slots" className="space-y-6">
+          <DeliverySlotSettings zones={cities.filter((city) => serviceCities.includes(city.id))} />
+        </TabsContent>
+
         {/* Items Tab */}
         <TabsContent value="items" className="space-y-6">
           <Card>
@@ -0,0 +1,280 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuthContext } from "@/context/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  CLOSING_CALENDAR_KINDS,
+  WEEKDAY_LABELS,
+  type BranchCalendar,
+  type BranchCalendarKind,
+  type DailyHours,
+} from "@shared/branch-hours";
+import { CalendarDays, Clock, Trash2 } from "lucide-react";
+
+const KIND_LABELS: Record<BranchCalendarKind, string> = {
+  holiday: "Public holiday",
+  closure: "Closure",
+  ramadan: "Ramadan hours",
+  special_hours: "Special hours",
+};
+
+type WeekForm = Record<number, DailyHours & { open: boolean }>;
+
+const DEFAULT_DAY = { open: false, opensAt: "08:00", closesAt: "22:00" };
+
+const emptyEntry = {
+  kind: "holiday" as BranchCalendarKind,
+  label: "",
+  startDate: "",
+  endDate: "",
+  opensAt: "10:00",
+  closesAt: "16:00",
+};
+
+export function BranchHoursSettings() {
+  const { branch } = useAuthContext();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/branches", branch?.id, "hours"];
+
+  const { data, isLoading } = useQuery<BranchCalendar>({
+    queryKey,
+    queryFn: async () => (await apiRequest("GET", `/api/branches/${branch!.id}/hours`)).json(),
+    enabled: !!branch?.id,
+  });
+
+  const [week, setWeek] = useState<WeekForm>({});
+  const [entry, setEntry] = useState(emptyEntry);
+
+  useEffect(() => {
+    if (!data) return;
+    setWeek(
+      Object.fromEntries(
+        WEEKDAY_LABELS.map((_, weekday) => {
+          const day = data.weekly.find((row) => row.weekday === weekday);
+          return [weekday, day ? { open: true, opensAt: day.opensAt, closesAt: day.closesAt } : DEFAULT_DAY];
+        }),
+      ),
+    );
+  }, [data]);
+
+  const onError = (error: any) => {
+    toast({ title: "Error saving opening hours", description: error.message, variant: "destructive" });
+  };
+
+  const saveWeek = useMutation({
+    mutationFn: async () => {
+      const weekly = Object.entries(week)
+        .filter(([, day]) => day.open)
+        .map(([weekday, day]) => ({ weekday: Number(weekday), opensAt: day.opensAt, closesAt: day.closesAt }));
+      return (await apiRequest("PUT", `/api/branches/${branch!.id}/hours`, { weekly })).json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Opening hours saved" });
+    },
+    onError,
+  });
+
+  const addEntry = useMutation({
+    mutationFn: async () => {
+      const closing = CLOSING_CALENDAR_KINDS.includes(entry.kind);
+      const res = await apiRequest("POST", `/api/branches/${branch!.id}/calendar`, {
+        ...entry,
+        endDate: entry.endDate || entry.startDate,
+        opensAt: closing ? null : entry.opensAt,
+        closesAt: closing ? null : entry.closesAt,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setEntry(emptyEntry);
+      toast({ title: "Calendar entry added" });
+    },
+    onError,
+  });
+
+  const removeEntry = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/branches/${branch!.id}/calendar/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  if (!branch) return null;
+  const closingKind = CLOSING_CALENDAR_KINDS.includes(entry.kind);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" aria-hidden="true" />
+          Opening hours & holidays
+        </CardTitle>
+        <CardDescription>
+          Used for the "open now" badge, delivery windows and ready dates. Closed days are left out of SLA reports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          {WEEKDAY_LABELS.map((label, weekday) => {
+            const day = week[weekday] ?? DEFAULT_DAY;
+            const update = (changes: Partial<typeof day>) =>
+              setWeek((prev) => ({ ...prev, [weekday]: { ...day, ...changes } }));
+            return (
+              <div key={label} className="flex flex-wrap items-center gap-3 rounded border p-2">
+                <Checkbox
+                  id={`hours-open-${weekday}`}
+                  checked={day.open}
+                  onCheckedChange={(checked) => update({ open: checked === true })}
+                />
+                <Label htmlFor={`hours-open-${weekday}`} className="w-24">
+                  {label}
+                </Label>
+                {day.open ? (
+                  <>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      aria-label={`${label} opens`}
+                      value={day.opensAt}
+                      onChange={(e) => update({ opensAt: e.target.value })}
+                    />
+                    <span>to</span>
+                    <Input
+                      type="time"
+                      className="w-28"
+                      aria-label={`${label} closes`}
+                      value={day.closesAt}
+                      onChange={(e) => update({ closesAt: e.target.value })}
+                    />
+                  </>
+                ) : (
+                  <span className="text-sm text-muted-foreground">Closed</span>
+                )}
+              </div>
+            );
+          })}
+          <Button onClick={() => saveWeek.mutate()} disabled={saveWeek.isPending || isLoading}>
+            Save opening hours
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <p className="flex items-center gap-2 text-sm font-medium">
+            <CalendarDays className="h-4 w-4" aria-hidden="true" />
+            Holidays, closures and seasonal hours
+          </p>
+          {(data?.entries ?? []).length === 0 ? (
+            <p className="text-sm text-muted-foreground">No upcoming entries.</p>
+          ) : (
+            <ul className="space-y-2">
+              {data!.entries.map((row) => (
+                <li key={row.id} className="flex flex-wrap items-center gap-2 rounded border p-2 text-sm">
+                  <Badge variant={CLOSING_CALENDAR_KINDS.includes(row.kind) ? "destructive" : "secondary"}>
+                    {KIND_LABELS[row.kind]}
+                  </Badge>
+                  <span className="font-medium">{row.label}</span>
+                  <span className="text-muted-foreground">
+                    {row.startDate === row.endDate ? row.startDate : `${row.startDate} – ${row.endDate}`}
+                    {row.opensAt && row.closesAt ? ` · ${row.opensAt}–${row.closesAt}` : ""}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="ml-auto"
+                    aria-label={`Remove ${row.label}`}
+                    onClick={() => row.id && removeEntry.mutate(row.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="calendar-kind">Type</Label>
+              <Select value={entry.kind} onValueChange={(value) => setEntry({ ...entry, kind: value as BranchCalendarKind })}>
+                <SelectTrigger id="calendar-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(KIND_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 sm:col-span-2">
+              <Label htmlFor="calendar-label">Name</Label>
+              <Input
+                id="calendar-label"
+                placeholder="e.g. Eid al-Fitr"
+                value={entry.label}
+                onChange={(e) => setEntry({ ...entry, label: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="calendar-start">From</Label>
+              <Input
+                id="calendar-start"
+                type="date"
+                value={entry.startDate}
+                onChange={(e) => setEntry({ ...entry, startDate: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="calendar-end">To</Label>
+              <Input
+                id="calendar-end"
+                type="date"
+                value={entry.endDate}
+                onChange={(e) => setEntry({ ...entry, endDate: e.target.value })}
+              />
+            </div>
+            {!closingKind && (
+              <div className="space-y-1">
+                <Label htmlFor="calendar-opens">Hours</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="calendar-opens"
+                    type="time"
+                    value={entry.opensAt}
+                    onChange={(e) => setEntry({ ...entry, opensAt: e.target.value })}
+                  />
+                  <Input
+                    type="time"
+                    aria-label="Closes"
+                    value={entry.closesAt}
+                    onChange={(e) => setEntry({ ...entry, closesAt: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => addEntry.mutate()}
+            disabled={addEntry.isPending || !entry.label.trim() || !entry.startDate}
+          >
+            Add to calendar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default BranchHoursSettings;
@@ -40,6 +40,8 @@ describe("BranchManager", () => {
       isDeliveryAdmin: false,
       isDispatcher: false,
       isDriver: false,
+      permissions: [],
+      hasPermission: () => false,
     };
       render(
         <TranslationProvider>
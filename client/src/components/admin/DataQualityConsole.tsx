@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+type ExceptionStatus = "open" | "acknowledged" | "resolved" | "ignored";
+
+type DataQualityException = {
+  id: string;
+  runId: string;
+  checkName: string;
+  severity: string;
+  entityType: string;
+  entityId: string | null;
+  branchId: string | null;
+  detectedAt: string;
+  details: Record<string, unknown>;
+  status: ExceptionStatus;
+  resolutionNote: string | null;
+  resolvedAt: string | null;
+};
+
+type CheckSummary = { checkName: string } & Record<ExceptionStatus, number>;
+type RunsResponse = {
+  running: boolean;
+  runs: { id: string; startedAt: string; completedAt: string | null; status: string; exceptionCount: number }[];
+};
+
+const CHECK_LABELS: Record<string, string> = {
+  referential_integrity: "Broken references",
+  order_anomaly_detection: "Unusual order totals",
+  payment_overage: "Payments exceed order total",
+  customer_balance_mismatch: "Balance due disagrees with what the customer owes",
+  negative_package_balance: "Negative package balances",
+};
+
+const SEVERITY_VARIANT: Record<string, "destructive" | "outline" | "secondary"> = {
+  critical: "destructive",
+  high: "destructive",
+  medium: "outline",
+};
+
+type PendingChange = { exception: DataQualityException; status: ExceptionStatus };
+
+export function DataQualityConsole() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ExceptionStatus>("open");
+  const [pending, setPending] = useState<PendingChange | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: summary = [] } = useQuery<CheckSummary[]>({ queryKey: ["/api/data-quality/summary"] });
+  const { data: runs } = useQuery<RunsResponse>({ queryKey: ["/api/data-quality/runs"] });
+  const { data: exceptions = [], isLoading } = useQuery<DataQualityException[]>({
+    queryKey: ["/api/data-quality/exceptions", status],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/data-quality/exceptions?status=${status}`);
+      return res.json();
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/data-quality/summary"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/data-quality/runs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/data-quality/exceptions"] });
+  };
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/data-quality/runs");
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Data quality checks completed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Run failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, next, text }: { id: string; next: ExceptionStatus; text: string }) => {
+      await apiRequest("PATCH", `/api/data-quality/exceptions/${id}`, { status: next, note: text || undefined });
+    },
+    onSuccess: () => {
+      refresh();
+      setPending(null);
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to update exception", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const grouped = new Map<string, DataQualityException[]>();
+  for (const exception of exceptions) {
+    grouped.set(exception.checkName, [...(grouped.get(exception.checkName) ?? []), exception]);
+  }
+  const lastRun = runs?.runs[0];
+  const noteRequired = pending?.status === "resolved" || pending?.status === "ignored";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Data Quality</CardTitle>
+        <CardDescription>
+          Exceptions found by the scheduled checks. Acknowledge what you are looking into, then resolve or ignore it with a
+          note.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button onClick={() => runMutation.mutate()} disabled={runMutation.isPending || runs?.running}>
+            {runMutation.isPending || runs?.running ? "Running…" : "Run checks now"}
+          </Button>
+          <Select value={status} onValueChange={(value) => setStatus(value as ExceptionStatus)}>
+            <SelectTrigger className="w-44" aria-label="Exception status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="acknowledged">Acknowledged</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="ignored">Ignored</SelectItem>
+            </SelectContent>
+          </Select>
+          {lastRun && (
+            <span className="text-sm text-muted-foreground">
+              Last run {new Date(lastRun.startedAt).toLocaleString()} · {lastRun.status} · {lastRun.exceptionCount} new
+            </span>
+          )}
+        </div>
+
+        <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+          {summary.map((check) => (
+            <div key={check.checkName} className="rounded border p-3 text-sm">
+              <div className="font-medium">{CHECK_LABELS[check.checkName] ?? check.checkName}</div>
+              <div className="text-muted-foreground">
+                {check.open} open · {check.acknowledged} acknowledged · {check.resolved} resolved · {check.ignored} ignored
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading exceptions…</p>
+        ) : grouped.size === 0 ? (
+          <p className="text-sm text-muted-foreground">No {status} exceptions.</p>
+        ) : (
+          <Accordion type="multiple" defaultValue={Array.from(grouped.keys())}>
+            {Array.from(grouped.entries()).map(([checkName, items]) => (
+              <AccordionItem key={checkName} value={checkName}>
+                <AccordionTrigger>
+                  {CHECK_LABELS[checkName] ?? checkName} ({items.length})
+                </AccordionTrigger>
+                <AccordionContent className="space-y-2">
+                  {items.map((exception) => (
+                    <div key={exception.id} className="rounded border p-3 text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={SEVERITY_VARIANT[exception.severity] ?? "secondary"}>{exception.severity}</Badge>
+                        <span className="font-mono text-xs">
+                          {exception.entityType} {exception.entityId}
+                        </span>
+                        <span className="ml-auto text-xs text-muted-foreground">
+                          {new Date(exception.detectedAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <pre className="mt-2 overflow-auto rounded bg-muted p-2 text-xs">
+                        {JSON.stringify(exception.details, null, 2)}
+                      </pre>
+                      {exception.resolutionNote && (
+                        <p className="mt-2 text-xs text-muted-foreground">Note: {exception.resolutionNote}</p>
+                      )}
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {exception.status === "open" && (
+                          <Button size="sm" variant="outline" onClick={() => setPending({ exception, status: "acknowledged" })}>
+                            Acknowledge
+                          </Button>
+                        )}
+                        {(exception.status === "open" || exception.status === "acknowledged") && (
+                          <>
+                            <Button size="sm" onClick={() => setPending({ exception, status: "resolved" })}>
+                              Resolve
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setPending({ exception, status: "ignored" })}>
+                              Ignore
+                            </Button>
+                          </>
+                        )}
+                        {(exception.status === "resolved" || exception.status === "ignored") && (
+                          <Button size="sm" variant="outline" onClick={() => setPending({ exception, status: "open" })}>
+                            Reopen
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={pending !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPending(null);
+            setNote("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark exception {pending?.status}</DialogTitle>
+            <DialogDescription>
+              {noteRequired ? "Explain what was done or why this can be ignored." : "Add an optional note."}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea value={note} onChange={(e) => setNote(e.target.value)} aria-label="Resolution note" />
+          <DialogFooter>
+            <Button
+              onClick={() =>
+                pending && statusMutation.mutate({ id: pending.exception.id, next: pending.status, text: note.trim() })
+              }
+              disabled={statusMutation.isPending || (noteRequired && !note.trim())}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default DataQualityConsole;
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuthContext } from "@/context/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import type { City, DeliverySlot } from "@shared/schema";
+import { WEEKDAY_LABELS } from "@shared/branch-hours";
+import type { DeliverySlotKind } from "@shared/delivery-slots";
+import { CalendarClock } from "lucide-react";
+
+const KIND_LABELS: Record<DeliverySlotKind, string> = {
+  pickup: "Pickup",
+  delivery: "Drop-off",
+};
+
+const EVERY_DAY = "every";
+
+type SlotForm = {
+  kind: DeliverySlotKind;
+  weekday: string;
+  startTime: string;
+  endTime: string;
+  capacity: string;
+  isActive: boolean;
+  zoneCapacities: Record<string, string>;
+};
+
+const emptySlot: SlotForm = {
+  kind: "delivery",
+  weekday: EVERY_DAY,
+  startTime: "09:00",
+  endTime: "11:00",
+  capacity: "10",
+  isActive: true,
+  zoneCapacities: {},
+};
+
+function toForm(slot: DeliverySlot): SlotForm {
+  return {
+    kind: slot.kind,
+    weekday: slot.weekday === null ? EVERY_DAY : String(slot.weekday),
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    capacity: String(slot.capacity),
+    isActive: slot.isActive,
+    zoneCapacities: Object.fromEntries(Object.entries(slot.zoneCapacities ?? {}).map(([id, value]) => [id, String(value)])),
+  };
+}
+
+function toPayload(form: SlotForm) {
+  return {
+    weekday: form.weekday === EVERY_DAY ? null : Number(form.weekday),
+    startTime: form.startTime,
+    endTime: form.endTime,
+    capacity: Number(form.capacity),
+    isActive: form.isActive,
+    // Blank means the zone shares the slot's overall capacity
+    zoneCapacities: Object.fromEntries(
+      Object.entries(form.zoneCapacities)
+        .filter(([, value]) => value.trim() !== "")
+        .map(([id, value]) => [id, Number(value)]),
+    ),
+  };
+}
+
+interface DeliverySlotSettingsProps {
+  // The branch's service cities, offered as zones
+  zones: City[];
+}
+
+function SlotFields({
+  form,
+  zones,
+  onChange,
+  idPrefix,
+}: {
+  form: SlotForm;
+  zones: City[];
+  onChange: (form: SlotForm) => void;
+  idPrefix: string;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 sm:grid-cols-5">
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-weekday`}>Day</Label>
+          <Select value={form.weekday} onValueChange={(weekday) => onChange({ ...form, weekday })}>
+            <SelectTrigger id={`${idPrefix}-weekday`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={EVERY_DAY}>Every open day</SelectItem>
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <SelectItem key={label} value={String(weekday)}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-start`}>From</Label>
+          <Input
+            id={`${idPrefix}-start`}
+            type="time"
+            value={form.startTime}
+            onChange={(e) => onChange({ ...form, startTime: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-end`}>To</Label>
+          <Input
+            id={`${idPrefix}-end`}
+            type="time"
+            value={form.endTime}
+            onChange={(e) => onChange({ ...form, endTime: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-capacity`}>Bookings</Label>
+          <Input
+            id={`${idPrefix}-capacity`}
+            type="number"
+            min={0}
+            value={form.capacity}
+            onChange={(e) => onChange({ ...form, capacity: e.target.value })}
+          />
+        </div>
+        <div className="flex items-end gap-2 pb-2">
+          <Switch
+            id={`${idPrefix}-active`}
+            checked={form.isActive}
+            onCheckedChange={(isActive) => onChange({ ...form, isActive })}
+          />
+          <Label htmlFor={`${idPrefix}-active`}>Active</Label>
+        </div>
+      </div>
+      {zones.length > 0 && (
+        <div className="grid gap-2 sm:grid-cols-3">
+          {zones.map((zone) => (
+            <div key={zone.id} className="flex items-center justify-between gap-2">
+              <Label htmlFor={`${idPrefix}-zone-${zone.id}`} className="text-sm font-normal">
+                {zone.nameEn}
+              </Label>
+              <Input
+                id={`${idPrefix}-zone-${zone.id}`}
+                type="number"
+                min={0}
+                className="w-24"
+                placeholder="Any"
+                value={form.zoneCapacities[zone.id] ?? ""}
+                onChange={(e) =>
+                  onChange({ ...form, zoneCapacities: { ...form.zoneCapacities, [zone.id]: e.target.value } })
+                }
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DeliverySlotSettings({ zones }: DeliverySlotSettingsProps) {
+  const { branch } = useAuthContext();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/branches", branch?.id, "delivery-slots"];
+
+  const { data: slots = [], isLoading } = useQuery<DeliverySlot[]>({
+    queryKey,
+    queryFn: async () => (await apiRequest("GET", `/api/branches/${branch!.id}/delivery-slots`)).json(),
+    enabled: !!branch?.id,
+  });
+
+  const [draft, setDraft] = useState<SlotForm>(emptySlot);
+  const [edits, setEdits] = useState<Record<string, SlotForm>>({});
+
+  const onError = (error: any) => {
+    toast({ title: "Error saving delivery slot", description: error.message, variant: "destructive" });
+  };
+
+  const createSlot = useMutation({
+    mutationFn: async () =>
+      (
+        await apiRequest("POST", `/api/branches/${branch!.id}/delivery-slots`, { kind: draft.kind, ...toPayload(draft) })
+      ).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setDraft(emptySlot);
+      toast({ title: "Delivery slot added" });
+    },
+    onError,
+  });
+
+  const updateSlot = useMutation({
+    mutationFn: async (slotId: string) =>
+      (await apiRequest("PATCH", `/api/branches/${branch!.id}/delivery-slots/${slotId}`, toPayload(edits[slotId]))).json(),
+    onSuccess: (_data, slotId) => {
+      queryClient.invalidateQueries({ queryKey });
+      setEdits(({ [slotId]: _saved, ...rest }) => rest);
+      toast({ title: "Delivery slot saved" });
+    },
+    onError,
+  });
+
+  if (!branch) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Pickup & drop-off slots
+        </CardTitle>
+        <CardDescription>
+          Customers book one of these windows when ordering delivery. Zone limits cap bookings from a single service
+          area inside the slot. Without active slots, customers can pick any time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(["pickup", "delivery"] as const).map((kind) => {
+          const kindSlots = slots.filter((slot) => slot.kind === kind);
+          return (
+            <div key={kind} className="space-y-3">
+              <p className="text-sm font-medium">{KIND_LABELS[kind]} slots</p>
+              {kindSlots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {isLoading ? "Loading…" : "No slots yet."}
+                </p>
+              ) : (
+                kindSlots.map((slot) => {
+                  const form = edits[slot.id] ?? toForm(slot);
+                  return (
+                    <div key={slot.id} className="space-y-3 rounded border p-3" data-testid={`delivery-slot-${slot.id}`}>
+                      <SlotFields
+                        form={form}
+                        zones={zones}
+                        idPrefix={`slot-${slot.id}`}
+                        onChange={(next) => setEdits((prev) => ({ ...prev, [slot.id]: next }))}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!edits[slot.id] || updateSlot.isPending}
+                        onClick={() => updateSlot.mutate(slot.id)}
+                      >
+                        Save slot
+                      </Button>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          );
+        })}
+
+        <div className="space-y-3 rounded border border-dashed p-3">
+          <div className="flex items-center gap-3">
+            <Label htmlFor="new-slot-kind">New slot</Label>
+            <Select value={draft.kind} onValueChange={(kind) => setDraft({ ...draft, kind: kind as DeliverySlotKind })}>
+              <SelectTrigger id="new-slot-kind" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(KIND_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <SlotFields form={draft} zones={zones} idPrefix="new-slot" onChange={setDraft} />
+          <Button onClick={() => createSlot.mutate()} disabled={createSlot.isPending}>
+            Add slot
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default DeliverySlotSettings;
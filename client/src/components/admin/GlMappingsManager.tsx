@@ -4,9 +4,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 
 type Mapping = { id?: string; key: string; account: string; type?: string };
+type ChartAccount = { key: string; account: string; name: string; type: string };
+
+const ACCOUNT_TYPES = ['expense', 'asset', 'liability', 'revenue'];
 
 export default function GlMappingsManager() {
   const [rows, setRows] = useState<Mapping[]>([]);
+  const [chart, setChart] = useState<ChartAccount[]>([]);
   const [loading, setLoading] = useState(false);
 
   async function load() {
@@ -17,6 +21,11 @@ export default function GlMappingsManager() {
         const json = await res.json();
         setRows(Array.isArray(json) ? json : []);
       }
+      const accountsRes = await fetch('/api/accounting/accounts', { credentials: 'include' });
+      if (accountsRes.ok) {
+        const json = await accountsRes.json();
+        setChart(Array.isArray(json?.accounts) ? json.accounts : []);
+      }
     } finally { setLoading(false); }
   }
 
@@ -36,7 +45,7 @@ export default function GlMappingsManager() {
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
-          <CardTitle>GL Mappings (Expense Categories)</CardTitle>
+          <CardTitle>GL Mappings</CardTitle>
           <div className="flex gap-2">
             <Button variant="outline" onClick={addRow}>Add</Button>
             <Button onClick={save} disabled={loading}>Save</Button>
@@ -48,26 +57,62 @@ export default function GlMappingsManager() {
           <table className="min-w-full text-sm">
             <thead className="bg-[var(--surface-muted)]">
               <tr>
-                <th className="text-left p-2">Expense Category</th>
+                <th className="text-left p-2">Expense Category or Account Key</th>
                 <th className="text-left p-2">GL Account</th>
+                <th className="text-left p-2">Type</th>
               </tr>
             </thead>
             <tbody>
               {rows.length === 0 ? (
-                <tr><td className="p-2" colSpan={2}>No mappings. Add your first mapping.</td></tr>
+                <tr><td className="p-2" colSpan={3}>No mappings. Add your first mapping.</td></tr>
               ) : rows.map((r, idx) => (
                 <tr key={r.id || idx} className="border-t">
                   <td className="p-2"><Input value={r.key} onChange={(e) => {
                     const v = e.target.value; setRows((xs) => xs.map((x, i) => i === idx ? { ...x, key: v } : x));
-                  }} placeholder="e.g., Rent, Wages" /></td>
+                  }} placeholder="e.g., Rent, revenue, tax_payable" /></td>
                   <td className="p-2"><Input value={r.account} onChange={(e) => {
                     const v = e.target.value; setRows((xs) => xs.map((x, i) => i === idx ? { ...x, account: v } : x));
                   }} placeholder="e.g., 5100" /></td>
+                  <td className="p-2">
+                    <select
+                      className="h-9 rounded-md border bg-transparent px-2"
+                      value={r.type || 'expense'}
+                      onChange={(e) => {
+                        const v = e.target.value; setRows((xs) => xs.map((x, i) => i === idx ? { ...x, type: v } : x));
+                      }}
+                    >
+                      {ACCOUNT_TYPES.map((type) => <option key={type} value={type}>{type}</option>)}
+                    </select>
+                  </td>
                 </tr>
               ))}
             </tbody>
           </table>
         </div>
+        {chart.length > 0 && (
+          <div className="mt-4 overflow-x-auto border rounded">
+            <table className="min-w-full text-sm">
+              <thead className="bg-[var(--surface-muted)]">
+                <tr>
+                  <th className="text-left p-2">Chart of Accounts</th>
+                  <th className="text-left p-2">Key</th>
+                  <th className="text-left p-2">Account</th>
+                  <th className="text-left p-2">Type</th>
+                </tr>
+              </thead>
+              <tbody>
+                {chart.map((a) => (
+                  <tr key={a.key} className="border-t">
+                    <td className="p-2">{a.name}</td>
+                    <td className="p-2 font-mono">{a.key}</td>
+                    <td className="p-2">{a.account}</td>
+                    <td className="p-2">{a.type}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
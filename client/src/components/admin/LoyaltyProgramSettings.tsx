@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useAuthContext } from "@/context/AuthContext";
+import { apiRequest } from "@/lib/queryClient";
+import type { LaundryService } from "@shared/schema";
+import type { LoyaltyProgramConfig } from "@shared/loyalty";
+import { Award, Plus, Trash2 } from "lucide-react";
+
+type ProgramResponse = { configured: boolean; program: LoyaltyProgramConfig };
+
+type TierRow = { name: string; minPoints: string; earnMultiplier: string; freeDelivery: boolean };
+type CampaignRow = { name: string; startDate: string; endDate: string; multiplier: string };
+
+export function LoyaltyProgramSettings() {
+  const { branch } = useAuthContext();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/branches", branch?.id, "loyalty-program"];
+
+  const { data, isLoading } = useQuery<ProgramResponse>({
+    queryKey,
+    queryFn: async () => (await apiRequest("GET", `/api/branches/${branch!.id}/loyalty-program`)).json(),
+    enabled: !!branch?.id,
+  });
+  const { data: services = [] } = useQuery<LaundryService[]>({ queryKey: ["/api/laundry-services"] });
+
+  const [isEnabled, setIsEnabled] = useState(true);
+  const [pointsPerUnit, setPointsPerUnit] = useState("1");
+  const [pointValue, setPointValue] = useState("0.1");
+  const [minRedeemPoints, setMinRedeemPoints] = useState("0");
+  const [maxRedeemPercent, setMaxRedeemPercent] = useState("100");
+  const [expiryMonths, setExpiryMonths] = useState("");
+  const [tierWindowMonths, setTierWindowMonths] = useState("12");
+  const [serviceRates, setServiceRates] = useState<Record<string, string>>({});
+  const [tiers, setTiers] = useState<TierRow[]>([]);
+  const [campaigns, setCampaigns] = useState<CampaignRow[]>([]);
+
+  useEffect(() => {
+    if (!data) return;
+    const { program } = data;
+    setIsEnabled(program.isEnabled);
+    setPointsPerUnit(String(program.pointsPerUnit));
+    setPointValue(String(program.pointValue));
+    setMinRedeemPoints(String(program.minRedeemPoints));
+    setMaxRedeemPercent(String(program.maxRedeemPercent));
+    setExpiryMonths(program.expiryMonths ? String(program.expiryMonths) : "");
+    setTierWindowMonths(String(program.tierWindowMonths));
+    setServiceRates(Object.fromEntries(Object.entries(program.serviceRates).map(([id, rate]) => [id, String(rate)])));
+    setTiers(
+      program.tiers.map((tier) => ({
+        name: tier.name,
+        minPoints: String(tier.minPoints),
+        earnMultiplier: String(tier.earnMultiplier),
+        freeDelivery: tier.freeDelivery,
+      })),
+    );
+    setCampaigns(
+      program.campaigns.map((campaign) => ({
+        name: campaign.name,
+        startDate: campaign.startDate,
+        endDate: campaign.endDate,
+        multiplier: String(campaign.multiplier),
+      })),
+    );
+  }, [data]);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      if (!branch) throw new Error("No branch available");
+      const res = await apiRequest("PUT", `/api/branches/${branch.id}/loyalty-program`, {
+        isEnabled,
+        pointsPerUnit: Number(pointsPerUnit),
+        pointValue: Number(pointValue),
+        minRedeemPoints: Number(minRedeemPoints),
+        maxRedeemPercent: Number(maxRedeemPercent),
+        // Blank keeps points forever
+        expiryMonths: expiryMonths.trim() ? Number(expiryMonths) : null,
+        tierWindowMonths: Number(tierWindowMonths),
+        serviceRates: Object.fromEntries(
+          Object.entries(serviceRates)
+            .filter(([, value]) => value.trim() !== "")
+            .map(([serviceId, value]) => [serviceId, Number(value)]),
+        ),
+        tiers: tiers.map((tier) => ({
+          name: tier.name,
+          minPoints: Number(tier.minPoints),
+          earnMultiplier: Number(tier.earnMultiplier),
+          freeDelivery: tier.freeDelivery,
+        })),
+        campaigns: campaigns.map((campaign) => ({
+          name: campaign.name,
+          startDate: campaign.startDate,
+          endDate: campaign.endDate,
+          multiplier: Number(campaign.multiplier),
+          serviceIds: [],
+        })),
+      });
+      return (await res.json()) as ProgramResponse;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: "Loyalty program saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error saving loyalty program", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateTier = (index: number, changes: Partial<TierRow>) =>
+    setTiers((prev) => prev.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)));
+  const updateCampaign = (index: number, changes: Partial<CampaignRow>) =>
+    setCampaigns((prev) => prev.map((campaign, i) => (i === index ? { ...campaign, ...changes } : campaign)));
+
+  if (!branch) return null;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Award className="h-5 w-5" aria-hidden="true" />
+          Loyalty program
+        </CardTitle>
+        <CardDescription>
+          Points are earned and checked by the server on every order; cashiers and customers only choose how many to
+          redeem.
+          {!isLoading && !data?.configured && " The branch uses the default one point per unit until this is saved."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Switch id="loyalty-enabled" checked={isEnabled} onCheckedChange={setIsEnabled} />
+          <Label htmlFor="loyalty-enabled">Customers earn and redeem points</Label>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="loyalty-earn">Points per currency unit</Label>
+            <Input id="loyalty-earn" type="number" min={0} step="0.1" value={pointsPerUnit} onChange={(e) => setPointsPerUnit(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="loyalty-value">Value of one point</Label>
+            <Input id="loyalty-value" type="number" min={0} step="0.01" value={pointValue} onChange={(e) => setPointValue(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="loyalty-min">Minimum points per redemption</Label>
+            <Input id="loyalty-min" type="number" min={0} value={minRedeemPoints} onChange={(e) => setMinRedeemPoints(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="loyalty-max">Max share of an order (%)</Label>
+            <Input id="loyalty-max" type="number" min={0} max={100} value={maxRedeemPercent} onChange={(e) => setMaxRedeemPercent(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="loyalty-expiry">Points expire after (months)</Label>
+            <Input
+              id="loyalty-expiry"
+              type="number"
+              min={1}
+              placeholder="Never"
+              value={expiryMonths}
+              onChange={(e) => setExpiryMonths(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="loyalty-window">Tier window (months)</Label>
+            <Input id="loyalty-window" type="number" min={1} value={tierWindowMonths} onChange={(e) => setTierWindowMonths(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Tiers</p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setTiers((prev) => [...prev, { name: "", minPoints: "0", earnMultiplier: "1", freeDelivery: false }])}
+            >
+              <Plus className="mr-1 h-4 w-4" /> Add tier
+            </Button>
+          </div>
+          {tiers.map((tier, index) => (
+            <div key={index} className="grid grid-cols-[1fr_7rem_7rem_auto_auto] items-center gap-2">
+              <Input aria-label="Tier name" placeholder="Gold" value={tier.name} onChange={(e) => updateTier(index, { name: e.target.value })} />
+              <Input
+                aria-label="Points in window"
+                type="number"
+                min={0}
+                value={tier.minPoints}
+                onChange={(e) => updateTier(index, { minPoints: e.target.value })}
+              />
+              <Input
+                aria-label="Earn multiplier"
+                type="number"
+                min={1}
+                step="0.1"
+                value={tier.earnMultiplier}
+                onChange={(e) => updateTier(index, { earnMultiplier: e.target.value })}
+              />
+              <div className="flex items-center gap-1">
+                <Switch
+                  checked={tier.freeDelivery}
+                  onCheckedChange={(checked) => updateTier(index, { freeDelivery: checked })}
+                  aria-label="Free delivery"
+                />
+                <span className="text-xs text-muted-foreground">Free delivery</span>
+              </div>
+              <Button variant="ghost" size="icon" aria-label="Remove tier" onClick={() => setTiers((prev) => prev.filter((_, i) => i !== index))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Bonus campaigns</p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCampaigns((prev) => [...prev, { name: "", startDate: "", endDate: "", multiplier: "2" }])}
+            >
+              <Plus className="mr-1 h-4 w-4" /> Add campaign
+            </Button>
+          </div>
+          {campaigns.map((campaign, index) => (
+            <div key={index} className="grid grid-cols-[1fr_9rem_9rem_6rem_auto] items-center gap-2">
+              <Input
+                aria-label="Campaign name"
+                placeholder="Eid bonus"
+                value={campaign.name}
+                onChange={(e) => updateCampaign(index, { name: e.target.value })}
+              />
+              <Input aria-label="Starts" type="date" value={campaign.startDate} onChange={(e) => updateCampaign(index, { startDate: e.target.value })} />
+              <Input aria-label="Ends" type="date" value={campaign.endDate} onChange={(e) => updateCampaign(index, { endDate: e.target.value })} />
+              <Input
+                aria-label="Multiplier"
+                type="number"
+                min={1}
+                step="0.5"
+                value={campaign.multiplier}
+                onChange={(e) => updateCampaign(index, { multiplier: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label="Remove campaign"
+                onClick={() => setCampaigns((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Points per unit by service</p>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {services.map((service) => (
+              <div key={service.id} className="flex items-center justify-between gap-2">
+                <Label htmlFor={`loyalty-service-${service.id}`} className="text-sm font-normal">
+                  {service.name}
+                </Label>
+                <Input
+                  id={`loyalty-service-${service.id}`}
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  className="w-28"
+                  placeholder="Default"
+                  value={serviceRates[service.id] ?? ""}
+                  onChange={(e) => setServiceRates((prev) => ({ ...prev, [service.id]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Button onClick={() => mutation.mutate()} disabled={mutation.isPending}>
+          Save loyalty program
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default LoyaltyProgramSettings;
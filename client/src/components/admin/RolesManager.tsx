@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+type PermissionDefinition = { slug: string; resource: string; action: string; description: string };
+type RoleRecord = { role: string; builtIn: boolean; permissions: string[] };
+
+export function RolesManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState("user");
+  const [draft, setDraft] = useState<string[]>([]);
+  const [newRole, setNewRole] = useState("");
+
+  const { data: catalog = [] } = useQuery<PermissionDefinition[]>({ queryKey: ["/api/permissions"] });
+  const { data: roles = [], isLoading } = useQuery<RoleRecord[]>({ queryKey: ["/api/roles"] });
+
+  const current = roles.find((role) => role.role === selected);
+  const locked = selected === "super_admin";
+
+  useEffect(() => {
+    setDraft(current?.permissions ?? []);
+  }, [current]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ role, permissions }: { role: string; permissions: string[] }) => {
+      const res = await apiRequest("PUT", `/api/roles/${encodeURIComponent(role)}`, { permissions });
+      return (await res.json()) as RoleRecord;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      setSelected(saved.role);
+      setNewRole("");
+      toast({ title: "Role saved", description: `${saved.role} now has ${saved.permissions.length} permissions` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (role: string) => {
+      await apiRequest("DELETE", `/api/roles/${encodeURIComponent(role)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      setSelected("user");
+      toast({ title: "Role deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (slug: string, checked: boolean) => {
+    setDraft((prev) => (checked ? [...prev, slug] : prev.filter((value) => value !== slug)));
+  };
+
+  const createRole = () => {
+    const role = newRole.trim().toLowerCase();
+    if (!role) return;
+    saveMutation.mutate({ role, permissions: draft });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Roles &amp; Permissions</CardTitle>
+        <CardDescription>
+          Built-in roles can be narrowed or widened; custom roles are assigned to staff from the user list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {roles.map((role) => (
+            <Button
+              key={role.role}
+              size="sm"
+              variant={role.role === selected ? "default" : "outline"}
+              onClick={() => setSelected(role.role)}
+            >
+              {role.role}
+              {!role.builtIn && <Badge variant="secondary" className="ml-2">custom</Badge>}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value)}
+            placeholder="New role, e.g. cashier"
+            aria-label="New role name"
+          />
+          <Button variant="outline" onClick={createRole} disabled={!newRole.trim() || draft.length === 0}>
+            Create with selected
+          </Button>
+        </div>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading roles…</p>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {catalog.map((permission) => (
+              <label key={permission.slug} className="flex items-start gap-2 rounded border p-2 text-sm">
+                <Checkbox
+                  checked={draft.includes(permission.slug)}
+                  disabled={locked}
+                  onCheckedChange={(checked) => toggle(permission.slug, checked === true)}
+                />
+                <span>
+                  <span className="font-mono">{permission.slug}</span>
+                  <span className="block text-muted-foreground">{permission.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          {current && !current.builtIn && (
+            <Button
+              variant="destructive"
+              onClick={() => deleteMutation.mutate(current.role)}
+              disabled={deleteMutation.isPending}
+            >
+              Delete role
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate({ role: selected, permissions: draft })}
+            disabled={locked || saveMutation.isPending}
+          >
+            Save {selected}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default RolesManager;
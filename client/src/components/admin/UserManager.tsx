@@ -9,7 +9,7 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Plus, Edit, UserCheck, UserX } from "lucide-react";
+import { Plus, Edit, UserCheck, UserX, KeyRound } from "lucide-react";
 import type { User, InsertUser, Branch } from "@shared/schema";
 import { useTranslation } from "@/lib/i18n";
 import LoadingScreen from "@/components/common/LoadingScreen";
@@ -42,6 +42,12 @@ function UserManager() {
     queryKey: ["/api/branches"],
   });
 
+  // Custom roles defined under Roles & Permissions
+  const { data: roles = [] } = useQuery<{ role: string; builtIn: boolean }[]>({
+    queryKey: ["/api/roles"],
+  });
+  const customRoles = roles.filter((role) => !role.builtIn).map((role) => role.role);
+
   const createMutation = useMutation({
     mutationFn: async (data: InsertUser) => {
       const response = await apiRequest("POST", "/api/users", data);
@@ -99,6 +105,29 @@ function UserManager() {
     },
   });
 
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/users/${id}/2fa`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: t.twoFactorResetSuccess });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error resetting two-factor authentication",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleResetTwoFactor = (user: UserWithBranch) => {
+    if (confirm(`Reset two-factor authentication for ${user.username}? They will need to enroll again at their next sign in.`)) {
+      resetTwoFactorMutation.mutate(user.id);
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       username: "",
@@ -166,8 +195,10 @@ function UserManager() {
         return <Badge variant="secondary">Dispatcher</Badge>;
       case 'driver':
         return <Badge variant="secondary">Driver</Badge>;
-      default:
+      case 'user':
         return <Badge variant="secondary">User</Badge>;
+      default:
+        return <Badge variant="outline">{role}</Badge>;
     }
   };
 
@@ -275,6 +306,9 @@ function UserManager() {
                       <SelectItem value="delivery_admin">Delivery Admin</SelectItem>
                       <SelectItem value="dispatcher">Dispatcher</SelectItem>
                       <SelectItem value="driver">Driver</SelectItem>
+                      {customRoles.map((role) => (
+                        <SelectItem key={role} value={role}>{role}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -367,14 +401,25 @@ function UserManager() {
                     </div>
                   </div>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => handleEdit(user)}
-                  disabled={user.role === 'super_admin' && user.username === 'superadmin'}
-                >
-                  <Edit className="w-4 h-4" />
-                </Button>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={t.twoFactorReset}
+                    onClick={() => handleResetTwoFactor(user)}
+                    disabled={resetTwoFactorMutation.isPending || (user.role === 'super_admin' && user.username === 'superadmin')}
+                  >
+                    <KeyRound className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleEdit(user)}
+                    disabled={user.role === 'super_admin' && user.username === 'superadmin'}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                </div>
               </div>
             ))}
             {users.length === 0 && (
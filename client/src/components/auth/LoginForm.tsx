@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -25,6 +26,7 @@ import logoUrl from "@/assets/logo.png";
 import { useTranslation } from "@/lib/i18n";
 import { loginSchema, type LoginInput } from "@shared/schemas";
 import { Link, useLocation } from "wouter";
+import { TwoFactorChallenge } from "./TwoFactorChallenge";
 
 interface LoginFormProps {
   onLoginSuccess?: () => void;
@@ -35,36 +37,46 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps) {
   const queryClient = useQueryClient();
   const { t } = useTranslation();
   const [_, setLocation] = useLocation();
+  const [challenge, setChallenge] = useState<{ enrollmentRequired: boolean } | null>(null);
 
   const form = useForm<LoginInput>({
     resolver: zodResolver(loginSchema),
     defaultValues: { username: "", password: "" },
   });
 
+  const completeLogin = (data: any) => {
+    setChallenge(null);
+    toast({
+      title: t.loginSuccess,
+      description: t.welcome,
+    });
+    
+    // Wait a bit for session to be established, then invalidate and navigate
+    setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      
+      // Navigate based on user role
+      if (data.user?.role === "driver") {
+        setLocation("/driver");
+      } else {
+        setLocation("/");
+      }
+      
+      onLoginSuccess?.();
+    }, 300);
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginInput) => {
       const response = await apiRequest("POST", "/api/login", credentials);
       return await response.json();
     },
     onSuccess: (data) => {
-      toast({
-        title: t.loginSuccess,
-        description: t.welcome,
-      });
-      
-      // Wait a bit for session to be established, then invalidate and navigate
-      setTimeout(() => {
-        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-        
-        // Navigate based on user role
-        if (data.user?.role === "driver") {
-          setLocation("/driver");
-        } else {
-          setLocation("/");
-        }
-        
-        onLoginSuccess?.();
-      }, 300);
+      if (data.twoFactorRequired) {
+        setChallenge({ enrollmentRequired: !!data.enrollmentRequired });
+        return;
+      }
+      completeLogin(data);
     },
     onError: (error) => {
       toast({
@@ -89,50 +101,61 @@ export function LoginForm({ onLoginSuccess }: LoginFormProps) {
           <CardTitle className="text-2xl">{t.loginTitle}</CardTitle>
           <CardDescription>{t.loginDescription}</CardDescription>
         </CardHeader>
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)}>
-            <CardContent className="space-y-4">
-              <FormField
-                control={form.control}
-                name="username"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel htmlFor="username">{t.usernameLabel}</FormLabel>
-                    <FormControl>
-                      <Input id="username" type="text" placeholder={t.usernameLabel} {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <FormField
-                control={form.control}
-                name="password"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel htmlFor="password">{t.passwordLabel}</FormLabel>
-                    <FormControl>
-                      <Input id="password" type="password" placeholder={t.passwordLabel} {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </CardContent>
-            <CardFooter className="flex flex-col space-y-2">
-              <Button
-                type="submit"
-                className="w-full"
-                disabled={loginMutation.isPending}
-              >
-                {loginMutation.isPending ? t.signingIn : t.loginButton}
-              </Button>
-              <Link href="/forgot-password" className="text-sm text-center text-blue-500 hover:underline">
-                {t.forgotPassword}
-              </Link>
-            </CardFooter>
-          </form>
-        </Form>
+        {challenge ? (
+          <TwoFactorChallenge
+            enrollmentRequired={challenge.enrollmentRequired}
+            onVerified={completeLogin}
+            onCancel={() => {
+              setChallenge(null);
+              form.reset({ username: form.getValues("username"), password: "" });
+            }}
+          />
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="username">{t.usernameLabel}</FormLabel>
+                      <FormControl>
+                        <Input id="username" type="text" placeholder={t.usernameLabel} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel htmlFor="password">{t.passwordLabel}</FormLabel>
+                      <FormControl>
+                        <Input id="password" type="password" placeholder={t.passwordLabel} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+              <CardFooter className="flex flex-col space-y-2">
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={loginMutation.isPending}
+                >
+                  {loginMutation.isPending ? t.signingIn : t.loginButton}
+                </Button>
+                <Link href="/forgot-password" className="text-sm text-center text-blue-500 hover:underline">
+                  {t.forgotPassword}
+                </Link>
+              </CardFooter>
+            </form>
+          </Form>
+        )}
       </Card>
     </div>
   );
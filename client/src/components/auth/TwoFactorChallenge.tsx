@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "@/lib/i18n";
+
+interface TwoFactorChallengeProps {
+  enrollmentRequired: boolean;
+  onVerified: (data: any) => void;
+  onCancel: () => void;
+}
+
+export function TwoFactorChallenge({ enrollmentRequired, onVerified, onCancel }: TwoFactorChallengeProps) {
+  const { toast } = useToast();
+  const { t } = useTranslation();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [issuedCodes, setIssuedCodes] = useState<{ codes: string[]; data: any } | null>(null);
+
+  const { mutate: startEnrollment } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/login/2fa/enroll");
+      return (await response.json()) as { secret: string; otpauthUrl: string };
+    },
+    onSuccess: setEnrollment,
+    onError: (error) => {
+      toast({ title: t.loginFailed, description: error.message, variant: "destructive" });
+    },
+  });
+
+  // mutate keeps its identity across renders, so this runs once per enrollment requirement
+  useEffect(() => {
+    if (enrollmentRequired) {
+      startEnrollment();
+    }
+  }, [enrollmentRequired, startEnrollment]);
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const body = useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() };
+      const response = await apiRequest("POST", "/api/login/2fa", body);
+      return await response.json();
+    },
+    onSuccess: (data) => {
+      if (data.recoveryCodes?.length) {
+        setIssuedCodes({ codes: data.recoveryCodes, data });
+        return;
+      }
+      onVerified(data);
+    },
+    onError: (error) => {
+      setCode("");
+      toast({ title: t.twoFactorVerificationFailed, description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (issuedCodes) {
+    return (
+      <>
+        <CardHeader className="pt-0 text-center">
+          <CardTitle className="text-lg">{t.twoFactorRecoveryCodes}</CardTitle>
+          <CardDescription>{t.twoFactorRecoveryCodesHint}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ul className="grid grid-cols-2 gap-2 font-mono text-sm" data-testid="list-recovery-codes">
+            {issuedCodes.codes.map((recoveryCode) => (
+              <li key={recoveryCode} className="rounded bg-muted px-2 py-1 text-center">
+                {recoveryCode}
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+        <CardFooter>
+          <Button className="w-full" onClick={() => onVerified(issuedCodes.data)}>
+            {t.continue}
+          </Button>
+        </CardFooter>
+      </>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (code.trim()) verifyMutation.mutate();
+      }}
+    >
+      <CardHeader className="pt-0 text-center">
+        <CardTitle className="text-lg">{t.twoFactorTitle}</CardTitle>
+        <CardDescription>
+          {enrollmentRequired ? t.twoFactorEnrollDescription : t.twoFactorDescription}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {enrollmentRequired && enrollment && (
+          <div className="flex flex-col items-center space-y-2">
+            <QRCodeSVG value={enrollment.otpauthUrl} size={160} />
+            <p className="text-xs text-muted-foreground">{t.twoFactorManualEntry}</p>
+            <code className="break-all text-sm" data-testid="text-two-factor-secret">
+              {enrollment.secret}
+            </code>
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="two-factor-code">
+            {useRecoveryCode ? t.twoFactorRecoveryCodeLabel : t.twoFactorCodeLabel}
+          </Label>
+          <Input
+            id="two-factor-code"
+            autoComplete="one-time-code"
+            inputMode={useRecoveryCode ? "text" : "numeric"}
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            autoFocus
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="flex flex-col space-y-2">
+        <Button type="submit" className="w-full" disabled={verifyMutation.isPending || !code.trim()}>
+          {verifyMutation.isPending ? t.signingIn : t.twoFactorVerify}
+        </Button>
+        {!enrollmentRequired && (
+          <Button
+            type="button"
+            variant="link"
+            className="text-sm"
+            onClick={() => {
+              setUseRecoveryCode((prev) => !prev);
+              setCode("");
+            }}
+          >
+            {useRecoveryCode ? t.twoFactorUseAuthenticator : t.twoFactorUseRecoveryCode}
+          </Button>
+        )}
+        <Button type="button" variant="ghost" className="text-sm" onClick={onCancel}>
+          {t.cancel}
+        </Button>
+      </CardFooter>
+    </form>
+  );
+}
@@ -0,0 +1,93 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useTranslation } from "@/lib/i18n";
+import { apiRequest } from "@/lib/queryClient";
+import { useCurrency } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+
+interface DeliveryCompensation {
+  id: string;
+  deliveryId: string;
+  orderId: string;
+  amount: number;
+  reason: string | null;
+  method: "balance_credit" | "coupon";
+  requestedBy: string | null;
+  createdAt: string;
+}
+
+const queryKey = ["/api/delivery/compensations", "pending_approval"];
+
+export function DeliveryCompensationApprovals() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { formatCurrency } = useCurrency();
+  const queryClient = useQueryClient();
+
+  const pendingQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/delivery/compensations?status=pending_approval");
+      return (await res.json()) as { compensations: DeliveryCompensation[] };
+    },
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "approve" | "reject" }) => {
+      const res = await apiRequest("POST", `/api/delivery/compensations/${id}/${decision}`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: t.error, description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pending = pendingQuery.data?.compensations ?? [];
+  if (!pending.length) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{t.deliveryCompensationApprovals}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {pending.map((compensation) => (
+          <div key={compensation.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-2 text-sm">
+            <div>
+              <div className="font-medium">
+                {formatCurrency(compensation.amount)} ·{" "}
+                {compensation.method === "coupon" ? t.deliveryCompensationCoupon : t.deliveryCompensationBalanceCredit}
+              </div>
+              <div className="text-muted-foreground">
+                {compensation.reason || t.deliveryCompensationNoReason} · {new Date(compensation.createdAt).toLocaleString()}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={decideMutation.isPending}
+                onClick={() => decideMutation.mutate({ id: compensation.id, decision: "reject" })}
+              >
+                {t.deliveryCompensationReject}
+              </Button>
+              <Button
+                size="sm"
+                disabled={decideMutation.isPending}
+                onClick={() => decideMutation.mutate({ id: compensation.id, decision: "approve" })}
+              >
+                {t.deliveryCompensationApprove}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default DeliveryCompensationApprovals;
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { useTranslation } from "@/lib/i18n";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface DeliveryMessage {
+  id: string;
+  senderType: "customer" | "agent" | "system";
+  senderName?: string | null;
+  body: string;
+  createdAt: string;
+}
+
+interface DeliveryMessagePage {
+  messages: DeliveryMessage[];
+  hasMore: boolean;
+  nextBefore: string | null;
+}
+
+interface DeliveryMessageThreadProps {
+  deliveryId: string;
+}
+
+export function DeliveryMessageThread({ deliveryId }: DeliveryMessageThreadProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState("");
+  const queryKey = ["delivery-messages", deliveryId];
+
+  const messagesQuery = useInfiniteQuery({
+    queryKey,
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) => {
+      const params = pageParam ? `?before=${encodeURIComponent(pageParam)}` : "";
+      const res = await apiRequest("GET", `/api/portal/delivery/${deliveryId}/messages${params}`);
+      return (await res.json()) as DeliveryMessagePage;
+    },
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.nextBefore : undefined),
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (body: string) => {
+      const res = await apiRequest("POST", `/api/portal/delivery/${deliveryId}/messages`, { body });
+      return res.json();
+    },
+    onSuccess: () => {
+      setDraft("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: t.error, description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Pages arrive newest first; each page is already oldest-to-newest.
+  const messages = [...(messagesQuery.data?.pages ?? [])].reverse().flatMap((page) => page.messages);
+
+  const senderLabel = (message: DeliveryMessage) =>
+    message.senderType === "customer"
+      ? message.senderName || t.customer
+      : message.senderType === "agent"
+      ? message.senderName || t.deliveryMessagesStaff
+      : t.deliveryMessagesSystem;
+
+  return (
+    <div className="space-y-3">
+      <ScrollArea className="h-80 rounded-md border bg-muted/40 p-3">
+        {messagesQuery.hasNextPage ? (
+          <div className="mb-2 flex justify-center">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => messagesQuery.fetchNextPage()}
+              disabled={messagesQuery.isFetchingNextPage}
+            >
+              {t.deliveryMessagesLoadEarlier}
+            </Button>
+          </div>
+        ) : null}
+        {messagesQuery.isLoading ? (
+          <p className="text-center text-sm text-muted-foreground">{t.loading}</p>
+        ) : messages.length ? (
+          <div className="space-y-3">
+            {messages.map((message) => (
+              <div key={message.id} className={message.senderType === "agent" ? "text-right" : undefined}>
+                <div className="text-xs text-muted-foreground">
+                  {senderLabel(message)} · {new Date(message.createdAt).toLocaleString()}
+                </div>
+                <p className="mt-1 inline-block rounded-md bg-background p-2 text-left text-sm shadow-sm">{message.body}</p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center text-sm text-muted-foreground">{t.deliveryMessagesEmpty}</p>
+        )}
+      </ScrollArea>
+      <Textarea
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        placeholder={t.deliveryMessagesPlaceholder}
+        rows={3}
+      />
+      <div className="flex justify-end">
+        <Button
+          onClick={() => draft.trim() && sendMutation.mutate(draft.trim())}
+          disabled={!draft.trim() || sendMutation.isPending}
+        >
+          {t.deliveryMessagesSend}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default DeliveryMessageThread;
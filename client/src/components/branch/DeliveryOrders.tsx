@@ -8,6 +8,9 @@ import { useTranslation } from "@/lib/i18n";
 import { apiRequest } from "@/lib/queryClient";
 import { useCurrency } from "@/lib/currency";
 import { ReceiptModal } from "@/components/receipt-modal";
+import { DeliveryMessageThread } from "@/components/branch/DeliveryMessageThread";
+import { DeliveryCompensationApprovals } from "@/components/branch/DeliveryCompensationApprovals";
+import { useAuthContext } from "@/context/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -221,11 +224,14 @@ export function DeliveryOrders() {
   const { formatCurrency } = useCurrency();
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { hasPermission } = useAuthContext();
+  const canApproveCompensation = hasPermission("delivery.manage");
 
   const [statusFilter, setStatusFilter] = useState<DeliveryStatus | "all">("all");
   const [driverFilter, setDriverFilter] = useState("all");
   const [selectedOrder, setSelectedOrder] = useState<DeliveryOrder | null>(null);
   const [assignOrder, setAssignOrder] = useState<DeliveryOrder | null>(null);
+  const [messagesOrder, setMessagesOrder] = useState<DeliveryOrder | null>(null);
   const [selectedDriver, setSelectedDriver] = useState("");
   const [driverLocations, setDriverLocations] = useState<Record<string, DriverTelemetry>>({});
 
@@ -509,6 +515,8 @@ export function DeliveryOrders() {
         </Select>
       </div>
 
+      {canApproveCompensation ? <DeliveryCompensationApprovals /> : null}
+
       {errorText && (
         <div className="rounded-md border border-red-300 bg-red-50 text-red-800 p-2 text-sm">
           {errorText}
@@ -644,6 +652,15 @@ export function DeliveryOrders() {
                       )}
                     </>
                   )}
+                  {order.deliveryId ? (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setMessagesOrder(order)}
+                    >
+                      {t.deliveryMessages}
+                    </Button>
+                  ) : null}
                   <Button
                     size="sm"
                     variant="ghost"
@@ -665,6 +682,18 @@ export function DeliveryOrders() {
         onClose={() => setSelectedOrder(null)}
       />
 
+      <Dialog open={!!messagesOrder} onOpenChange={(open) => !open && setMessagesOrder(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {t.deliveryMessagesTitle}
+              {messagesOrder ? ` · ${messagesOrder.orderNumber}` : ""}
+            </DialogTitle>
+          </DialogHeader>
+          {messagesOrder?.deliveryId ? <DeliveryMessageThread deliveryId={messagesOrder.deliveryId} /> : null}
+        </DialogContent>
+      </Dialog>
+
       <Dialog open={!!assignOrder} onOpenChange={(open) => !open && setAssignOrder(null)}>
         <DialogContent>
           <DialogHeader>
@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import type { DeliverySlotAvailability } from "@shared/delivery-slots";
+
+interface SlotLoadResponse {
+  date: string;
+  branchId: string;
+  slots: DeliverySlotAvailability[];
+}
+
+interface DeliverySlotLoadProps {
+  title?: string;
+  className?: string;
+}
+
+// Today's pickup and drop-off slots with how full each one is
+export function DeliverySlotLoad({ title = "Today's slots", className }: DeliverySlotLoadProps) {
+  const { data } = useQuery<SlotLoadResponse>({
+    queryKey: ["/api/delivery-slots/load"],
+    queryFn: async () => (await apiRequest("GET", "/api/delivery-slots/load")).json(),
+    refetchInterval: 60_000,
+  });
+  const slots = data?.slots ?? [];
+  if (!slots.length) return null;
+
+  return (
+    <section className={cn("rounded-lg border bg-card p-4 shadow-sm", className)} data-testid="delivery-slot-load">
+      <h2 className="mb-3 text-sm font-semibold text-foreground">{title}</h2>
+      <ul className="space-y-2">
+        {slots.map((slot) => {
+          const ratio = slot.capacity > 0 ? Math.min(1, slot.booked / slot.capacity) : 1;
+          return (
+            <li key={`${slot.slotId}-${slot.date}`} className="space-y-1 text-sm">
+              <div className="flex items-center justify-between">
+                <span>
+                  <span className="capitalize">{slot.kind === "delivery" ? "Drop-off" : "Pickup"}</span> {slot.label}
+                </span>
+                <span className={cn("tabular-nums", ratio >= 1 ? "text-destructive" : "text-muted-foreground")}>
+                  {slot.booked}/{slot.capacity}
+                </span>
+              </div>
+              <div className="h-1.5 overflow-hidden rounded bg-muted">
+                <div
+                  className={cn("h-full", ratio >= 1 ? "bg-destructive" : ratio >= 0.75 ? "bg-orange-500" : "bg-primary")}
+                  style={{ width: `${ratio * 100}%` }}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
+
+export default DeliverySlotLoad;
@@ -181,6 +181,8 @@ const promisedReadyOffsets: Record<NonNullable<Order["promisedReadyOption"]>, nu
   today: 0,
   tomorrow: 1,
   day_after_tomorrow: 2,
+  // Only a fallback; "later" orders always carry their promisedReadyDate
+  later: 3,
 };
 
 function getPromisedReadyDate(order: OrderWithDelivery): Date | null {
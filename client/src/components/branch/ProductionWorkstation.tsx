@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { productionStationEnum, type ProductionStation, type PromiseRisk } from "@shared/production";
+import { AlertTriangle, ScanLine } from "lucide-react";
+
+type QueuedOrder = {
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  orderStatus: string;
+  promisedReadyDate: string;
+  risk: PromiseRisk | null;
+  pieces: { id: string; tagCode: string; description: string; status: string }[];
+};
+
+type StationQueue = {
+  id: ProductionStation;
+  label: string;
+  throughput: { today: number; lastHour: number };
+  pieceCount: number;
+  breachedOrders: number;
+  atRiskOrders: number;
+  orders: QueuedOrder[];
+};
+
+type QueueResponse = { today: string; stations: StationQueue[] };
+type ScanResponse = { moved: { tagCode: string }[]; skipped: number; orderNumber: string | null; orderStatus: string | null };
+
+const STORAGE_KEY = "production-station";
+
+const RISK_BADGE: Record<PromiseRisk, { label: string; variant: "destructive" | "outline" }> = {
+  breached: { label: "Past promise", variant: "destructive" },
+  at_risk: { label: "Due today", variant: "outline" },
+};
+
+function initialStation(): ProductionStation {
+  const saved = typeof window !== "undefined" ? window.localStorage.getItem(STORAGE_KEY) : null;
+  return productionStationEnum.find((station) => station === saved) ?? "washing";
+}
+
+export function ProductionWorkstation() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [station, setStation] = useState<ProductionStation>(initialStation);
+  const [code, setCode] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading } = useQuery<QueueResponse>({
+    queryKey: ["/api/production/queue"],
+    refetchInterval: 30_000,
+  });
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, station);
+    inputRef.current?.focus();
+  }, [station]);
+
+  const scanMutation = useMutation({
+    mutationFn: async (scanned: string) => {
+      const res = await apiRequest("POST", "/api/production/scan", { station, code: scanned });
+      return (await res.json()) as ScanResponse;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/production/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: `${result.moved.length} piece${result.moved.length === 1 ? "" : "s"} scanned`,
+        description: result.orderNumber ? `Order ${result.orderNumber} is ${result.orderStatus}` : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Scan rejected", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      setCode("");
+      inputRef.current?.focus();
+    },
+  });
+
+  const current = data?.stations.find((entry) => entry.id === station);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Production floor</CardTitle>
+        <CardDescription>
+          Pick your station, then scan a garment tag or an order number to move its pieces to this station.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 sm:grid-cols-3 lg:grid-cols-5" role="radiogroup" aria-label="Station">
+          {(data?.stations ?? []).map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              role="radio"
+              aria-checked={entry.id === station}
+              onClick={() => setStation(entry.id)}
+              className={`rounded border p-3 text-left text-sm ${entry.id === station ? "border-primary bg-primary/5" : ""}`}
+            >
+              <div className="font-medium">{entry.label}</div>
+              <div className="text-muted-foreground">
+                {entry.pieceCount} waiting · {entry.throughput.today} today · {entry.throughput.lastHour} last hour
+              </div>
+              {entry.breachedOrders + entry.atRiskOrders > 0 && (
+                <div className="mt-1 flex items-center gap-1 text-xs text-destructive">
+                  <AlertTriangle className="h-3 w-3" aria-hidden="true" />
+                  {entry.breachedOrders} late · {entry.atRiskOrders} due today
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (code.trim()) scanMutation.mutate(code.trim());
+          }}
+        >
+          <Input
+            ref={inputRef}
+            autoFocus
+            value={code}
+            onChange={(event) => setCode(event.target.value)}
+            placeholder="Scan tag or order number"
+            aria-label="Tag or order number"
+          />
+          <Button type="submit" disabled={scanMutation.isPending || !code.trim()}>
+            <ScanLine className="mr-2 h-4 w-4" aria-hidden="true" />
+            Scan
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading queue…</p>
+        ) : !current || current.orders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing is waiting at this station.</p>
+        ) : (
+          <div className="space-y-2">
+            {current.orders.map((order) => (
+              <div key={order.orderId} className="rounded border p-3 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono font-medium">{order.orderNumber}</span>
+                  <span>{order.customerName}</span>
+                  {order.risk && <Badge variant={RISK_BADGE[order.risk].variant}>{RISK_BADGE[order.risk].label}</Badge>}
+                  <span className="ml-auto text-xs text-muted-foreground">Promised {order.promisedReadyDate}</span>
+                </div>
+                <ul className="mt-2 grid gap-1 text-xs text-muted-foreground sm:grid-cols-2">
+                  {order.pieces.map((piece) => (
+                    <li key={piece.id}>
+                      <span className="font-mono">{piece.tagCode}</span> {piece.description} ({piece.status})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default ProductionWorkstation;
@@ -0,0 +1,132 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useCurrency } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+type SubscriptionStatus = "active" | "paused" | "cancelled";
+
+interface SubscriptionCycle {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  amount: string;
+  rolledOverCredits: number;
+}
+
+interface CustomerSubscription {
+  id: string;
+  status: SubscriptionStatus;
+  billingMethod: "pay_later" | "card_on_file";
+  currentPeriodEnd: string;
+  nextRenewalAt: string | null;
+  plan: { nameEn: string; nameAr: string | null; price: string };
+  cycles: SubscriptionCycle[];
+}
+
+function formatDate(value: string) {
+  return format(new Date(value), "dd MMM yyyy");
+}
+
+export function CustomerSubscriptions() {
+  const { formatCurrency } = useCurrency();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: subscriptions = [], isLoading } = useQuery<CustomerSubscription[]>({
+    queryKey: ["/customer/subscriptions"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/customer/subscriptions");
+      if (!res.ok) throw new Error("Failed to load subscriptions");
+      return await res.json();
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: SubscriptionStatus }) => {
+      const res = await apiRequest("PATCH", `/customer/subscriptions/${id}`, { status });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/customer/subscriptions"] });
+      queryClient.invalidateQueries({ queryKey: ["/customer/packages"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update subscription", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-[var(--text-sm)]">Loading subscriptions...</div>;
+  }
+
+  if (subscriptions.length === 0) {
+    return <p className="text-[var(--text-sm)] text-muted-foreground">You have no laundry subscriptions.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {subscriptions.map((subscription) => (
+        <li key={subscription.id} className="space-y-2 rounded border p-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="font-medium">{subscription.plan.nameEn}</div>
+              <div className="text-[var(--text-xs)] text-muted-foreground">
+                {formatCurrency(subscription.plan.price)} •{" "}
+                {subscription.billingMethod === "card_on_file" ? "Card on file" : "Added to your account"}
+              </div>
+            </div>
+            <Badge variant={subscription.status === "active" ? "default" : "secondary"} className="capitalize">
+              {subscription.status}
+            </Badge>
+          </div>
+          <div className="text-[var(--text-sm)]">
+            {subscription.nextRenewalAt
+              ? `Renews on ${formatDate(subscription.nextRenewalAt)}`
+              : `Current cycle ends ${formatDate(subscription.currentPeriodEnd)}`}
+          </div>
+          {subscription.status !== "cancelled" && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={statusMutation.isPending}
+                onClick={() =>
+                  statusMutation.mutate({
+                    id: subscription.id,
+                    status: subscription.status === "active" ? "paused" : "active",
+                  })
+                }
+              >
+                {subscription.status === "active" ? "Pause" : "Resume"}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={statusMutation.isPending}
+                onClick={() => statusMutation.mutate({ id: subscription.id, status: "cancelled" })}
+              >
+                Cancel
+              </Button>
+            </div>
+          )}
+          {subscription.cycles.length > 0 && (
+            <ul className="space-y-1 text-[var(--text-xs)] text-muted-foreground">
+              {subscription.cycles.map((cycle) => (
+                <li key={cycle.id} className="flex justify-between">
+                  <span>
+                    {formatDate(cycle.periodStart)} – {formatDate(cycle.periodEnd)}
+                    {cycle.rolledOverCredits > 0 ? ` • ${cycle.rolledOverCredits} credits rolled over` : ""}
+                  </span>
+                  <span>{formatCurrency(cycle.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -81,6 +81,10 @@ export function CommandCenterDossier({ customer, financial, insights }: CommandC
             <p className="text-sm text-slate-600">Balance due</p>
             <p className="text-xl font-semibold text-slate-900">{formatCurrency(financial.balanceDue)}</p>
           </div>
+          <div className="rounded-lg bg-slate-50 p-3">
+            <p className="text-sm text-slate-600">Wallet credit</p>
+            <p className="text-xl font-semibold text-slate-900">{formatCurrency(financial.walletBalance)}</p>
+          </div>
           <div className="rounded-lg bg-slate-50 p-3">
             <p className="text-sm text-slate-600">Lifetime spend</p>
             <p className="text-xl font-semibold text-slate-900">{formatCurrency(financial.totalSpend)}</p>
@@ -1,10 +1,12 @@
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { format } from "date-fns";
-import type { CommandCenterPackage } from "./types";
+import type { CommandCenterPackage, CommandCenterSubscription } from "./types";
 
 interface CommandCenterPackagesProps {
   packages: CommandCenterPackage[];
+  subscriptions: CommandCenterSubscription[];
 }
 
 function formatDate(value: string | null): string {
@@ -14,13 +16,53 @@ function formatDate(value: string | null): string {
   return format(date, "dd MMM yyyy");
 }
 
-export function CommandCenterPackages({ packages }: CommandCenterPackagesProps) {
+function SubscriptionSummary({ subscription }: { subscription: CommandCenterSubscription }) {
+  const billing = subscription.billingMethod === "card_on_file" ? "Card on file" : "Pay later";
+  return (
+    <div className="rounded-lg border border-slate-200 p-4 shadow-sm" data-cy="command-center-subscription">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-semibold text-slate-900">{subscription.planName}</p>
+          <p className="text-xs text-slate-500">
+            E£ {subscription.price.toFixed(2)} • {billing}
+          </p>
+        </div>
+        <Badge variant={subscription.status === "active" ? "default" : "secondary"} className="capitalize">
+          {subscription.status}
+        </Badge>
+      </div>
+      <p className="mt-2 text-sm text-slate-600">
+        {subscription.nextRenewalAt
+          ? `Next renewal ${formatDate(subscription.nextRenewalAt)}`
+          : `Current cycle ends ${formatDate(subscription.currentPeriodEnd)}`}
+      </p>
+      {subscription.cycles.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-slate-500">
+          {subscription.cycles.map((cycle) => (
+            <li key={cycle.id} className="flex justify-between">
+              <span>
+                {formatDate(cycle.periodStart)} – {formatDate(cycle.periodEnd)}
+                {cycle.rolledOverCredits > 0 ? ` • ${cycle.rolledOverCredits} rolled over` : ""}
+              </span>
+              <span>E£ {cycle.amount.toFixed(2)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function CommandCenterPackages({ packages, subscriptions }: CommandCenterPackagesProps) {
   return (
     <Card data-cy="command-center-packages">
       <CardHeader>
         <CardTitle className="text-lg font-semibold text-slate-900">Package usage</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {subscriptions.map((subscription) => (
+          <SubscriptionSummary key={subscription.id} subscription={subscription} />
+        ))}
         {packages.length === 0 ? (
           <p className="text-sm text-slate-500">No packages assigned.</p>
         ) : (
@@ -0,0 +1,54 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { CommandCenterWalletEntry } from "./types";
+
+interface CommandCenterWalletProps {
+  balance: number;
+  entries: CommandCenterWalletEntry[];
+}
+
+const entryLabels: Record<CommandCenterWalletEntry["type"], string> = {
+  top_up: "Top-up",
+  spend: "Payment",
+  refund: "Refund",
+};
+
+function formatCurrency(value: number): string {
+  return `E£ ${value.toFixed(2)}`;
+}
+
+export function CommandCenterWallet({ balance, entries }: CommandCenterWalletProps) {
+  return (
+    <Card data-cy="command-center-wallet">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg font-semibold text-slate-900">Wallet statement</CardTitle>
+        <span className="text-sm font-medium text-slate-700">{formatCurrency(balance)}</span>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-slate-500">No wallet activity yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {entries.map((entry) => (
+              <li key={entry.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="font-medium text-slate-900">{entryLabels[entry.type]}</p>
+                  <p className="text-xs text-slate-500">
+                    {entry.createdAt ? new Date(entry.createdAt).toLocaleString() : "—"}
+                    {entry.notes ? ` • ${entry.notes}` : ""}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className={entry.amount < 0 ? "text-rose-700" : "text-emerald-700"}>
+                    {entry.amount < 0 ? "−" : "+"}
+                    {formatCurrency(Math.abs(entry.amount))}
+                  </p>
+                  <p className="text-xs text-slate-500">Balance {formatCurrency(entry.balanceAfter)}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 export interface CommandCenterFinancials {
   balanceDue: number;
+  walletBalance: number;
   totalSpend: number;
   loyaltyPoints: number;
   packageCredits: number;
@@ -44,6 +45,38 @@ export interface CommandCenterPackage {
   totalCredits: number | null;
 }
 
+export interface CommandCenterSubscriptionCycle {
+  id: string;
+  periodStart: string | null;
+  periodEnd: string | null;
+  amount: number;
+  billingMethod: "pay_later" | "card_on_file";
+  rolledOverCredits: number;
+}
+
+export interface CommandCenterSubscription {
+  id: string;
+  planName: string;
+  status: "active" | "paused" | "cancelled";
+  billingMethod: "pay_later" | "card_on_file";
+  price: number;
+  currentPackageId: string | null;
+  currentPeriodStart: string | null;
+  currentPeriodEnd: string | null;
+  nextRenewalAt: string | null;
+  cycles: CommandCenterSubscriptionCycle[];
+}
+
+export interface CommandCenterWalletEntry {
+  id: string;
+  type: "top_up" | "spend" | "refund";
+  amount: number;
+  balanceAfter: number;
+  orderId: string | null;
+  notes: string | null;
+  createdAt: string | null;
+}
+
 export interface CommandCenterTimelineEvent {
   id: string;
   occurredAt: string;
@@ -86,6 +119,8 @@ export interface CommandCenterResponse {
   financial: CommandCenterFinancials;
   orders: CommandCenterOrder[];
   packages: CommandCenterPackage[];
+  subscriptions: CommandCenterSubscription[];
+  walletStatement: CommandCenterWalletEntry[];
   outreachTimeline: CommandCenterTimelineEvent[];
   auditTrail: CommandCenterAuditEvent[];
   actions: CommandCenterActionsDescriptor;
@@ -1,6 +1,6 @@
 import { useState, useEffect, useId } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Minus, Plus, Trash2, X, User, CreditCard, DollarSign } from "lucide-react";
+import { Minus, Plus, Trash2, X, User, CreditCard, DollarSign, Wallet } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -9,6 +9,9 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { LaundryCartSummary, Customer } from "@shared/schema";
+import { promisedReadyOptionFor, type ReadyDatePlan } from "@shared/capacity";
+import { DEFAULT_LOYALTY_PROGRAM, maxRedeemablePoints, redemptionValue } from "@shared/loyalty";
+import { apiRequest } from "@/lib/queryClient";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useCurrency } from "@/lib/currency";
 import { getTaxRate } from "@/lib/tax";
@@ -30,6 +33,41 @@ type AppliedCoupon = {
   applicableItems?: any[];
 };
 
+type ExpressChoice = { surchargePercent: number };
+
+type CustomerLoyalty = {
+  tier: { name: string } | null;
+  expiringSoon: { points: number; before: string };
+  redemption: { isEnabled: boolean; pointValue: number; minRedeemPoints: number; maxRedeemPercent: number };
+};
+
+type ReadyDateQuote = { configured: false } | ({ configured: true } & ReadyDatePlan);
+
+type PlannedReadyOption = { value: string; date: string; label: string; full: boolean };
+
+const EXPRESS_CHOICE = "express";
+
+function formatPlanDate(date: string) {
+  return format(new Date(`${date}T00:00:00`), "EEE d MMM");
+}
+
+// Days a cashier may promise: every open day from the lead date up to two free days past the suggestion
+function plannedReadyOptions(plan: ReadyDatePlan): PlannedReadyOption[] {
+  const options: PlannedReadyOption[] = [];
+  let freeAfterSuggestion = 0;
+  for (const day of plan.days) {
+    if (day.date < plan.leadDate || day.closed) continue;
+    if (plan.standardDate && day.date > plan.standardDate) {
+      if (!day.fits) continue;
+      if (freeAfterSuggestion === 2) break;
+      freeAfterSuggestion += 1;
+    }
+    options.push({ value: day.date, date: day.date, label: formatPlanDate(day.date), full: !day.fits });
+    if (options.length >= 6) break;
+  }
+  return options;
+}
+
 interface LaundryCartSidebarProps {
   cartSummary: LaundryCartSummary & {
     coupon?: AppliedCoupon;
@@ -40,20 +78,26 @@ interface LaundryCartSidebarProps {
   getCartSummary?: (
     usage?: {
       items: { serviceId: string; clothingItemId: string; quantity: number }[];
-    }
+    },
+    express?: ExpressChoice,
   ) =>
     LaundryCartSummary & {
       coupon?: AppliedCoupon;
       discountAmount?: number;
       totalBeforeDiscount?: number;
       creditedAmount?: number;
+      expressSurcharge?: number;
     };
-  paymentMethod: "cash" | "card" | "pay_later";
+  // Enables capacity-aware ready dates when the branch has them configured
+  branchCode?: string;
+  // Orders are queued on the device; anything the server must confirm up front is unavailable
+  isOffline?: boolean;
+  paymentMethod: "cash" | "card" | "pay_later" | "wallet";
   selectedCustomer: Customer | null;
   onUpdateQuantity: (id: string, quantity: number) => void;
   onRemoveItem: (id: string) => void;
   onClearCart: () => void;
-  onSelectPayment: (method: "cash" | "card" | "pay_later") => void;
+  onSelectPayment: (method: "cash" | "card" | "pay_later" | "wallet") => void;
   onSelectCustomer: (customer: Customer | null) => void;
   onCheckout: (
     redeemedPoints: number,
@@ -67,6 +111,7 @@ interface LaundryCartSidebarProps {
         quantity: number;
       }[];
     },
+    express?: ExpressChoice,
   ) => void;
   isVisible: boolean;
   onClose: () => void;
@@ -83,6 +128,8 @@ interface LaundryCartSidebarProps {
 export function LaundryCartSidebar({
   cartSummary,
   getCartSummary = () => cartSummary,
+  branchCode,
+  isOffline = false,
   paymentMethod,
   selectedCustomer,
   onUpdateQuantity,
@@ -125,16 +172,48 @@ export function LaundryCartSidebar({
 
   const getReadyByDate = () => computeReadyBy(readyBy);
 
+  const quoteLines = cartSummary.items.map((item) => ({ serviceId: item.service.id, quantity: item.quantity }));
+  const { data: quote } = useQuery<ReadyDateQuote>({
+    queryKey: ["/api/branches", branchCode, "ready-date-quote", quoteLines],
+    enabled: !!branchCode && quoteLines.length > 0,
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/branches/${branchCode}/ready-date-quote`, { items: quoteLines });
+      return res.json();
+    },
+  });
+  const plan = quote && "configured" in quote && quote.configured ? quote : null;
+  const plannedOptions = plan ? plannedReadyOptions(plan) : [];
+  const [plannedChoice, setPlannedChoice] = useState<string | null>(null);
+  const activeChoice =
+    (plannedChoice === EXPRESS_CHOICE && plan?.express) || plannedOptions.some((o) => o.value === plannedChoice)
+      ? plannedChoice
+      : plan?.standardDate ?? null;
+  const express: ExpressChoice | undefined =
+    plan?.express && activeChoice === EXPRESS_CHOICE ? { surchargePercent: plan.express.surchargePercent } : undefined;
+  const plannedDate = express ? plan?.express?.date : activeChoice;
+  const chosenOption = plannedOptions.find((option) => option.value === activeChoice);
+  const blockedByCapacity = !!plan && (!plannedDate || (chosenOption?.full && plan.overbookPolicy === "block"));
+
   useEffect(() => {
     setRedeemPoints(0);
     setPackageUsage(null);
   }, [selectedCustomer, cartSummary.total]);
-  const adjustedSummary = getCartSummary(packageUsage || undefined);
+  const adjustedSummary = getCartSummary(packageUsage || undefined, express);
 
-  const maxRedeemable = selectedCustomer
-    ? Math.min(selectedCustomer.loyaltyPoints, Math.floor(adjustedSummary.total * 10))
+  const { data: loyaltyData } = useQuery<CustomerLoyalty>({
+    queryKey: ["/api/customers", selectedCustomer?.id, "loyalty"],
+    enabled: !!selectedCustomer?.id,
+  });
+  const loyalty = loyaltyData && "redemption" in loyaltyData ? loyaltyData : null;
+  // The branch program sets what points are worth; the server re-checks the redemption on checkout
+  const redemptionRules = { ...DEFAULT_LOYALTY_PROGRAM, ...(loyalty?.redemption ?? {}) };
+  const maxRedeemable = selectedCustomer && !isOffline
+    ? maxRedeemablePoints(redemptionRules, selectedCustomer.loyaltyPoints, adjustedSummary.total)
     : 0;
-  const finalTotal = Math.max(adjustedSummary.total - redeemPoints * 0.1, 0);
+  const redeemDiscount = redemptionValue(redemptionRules, redeemPoints);
+  const redeemBelowMinimum = redeemPoints > 0 && redeemPoints < redemptionRules.minRedeemPoints;
+  const finalTotal = Math.max(adjustedSummary.total - redeemDiscount, 0);
+  const walletBalance = selectedCustomer ? parseFloat(selectedCustomer.walletBalance ?? "0") : 0;
   const { data: customerPackages = [] } = useQuery<any[]>({
     queryKey: ["/api/customers", selectedCustomer?.id, "packages"],
     enabled: !!selectedCustomer?.id,
@@ -301,7 +380,7 @@ export function LaundryCartSidebar({
             const safeApply = onApplyCoupon || (async () => ({ success: false }));
             const safeRemove = onRemoveCoupon || (() => {});
             const hasPackages = !!packageUsage?.items && packageUsage.items.length > 0;
-            const couponsDisabled = hasPackages || redeemPoints > 0;
+            const couponsDisabled = hasPackages || redeemPoints > 0 || (isOffline && !appliedCoupon);
             // If coupon is applied and user selects packages or redeem points, clear coupon
             if (couponsDisabled && appliedCoupon && onRemoveCoupon) {
               safeRemove();
@@ -320,7 +399,9 @@ export function LaundryCartSidebar({
                 disabledReason={
                   hasPackages
                     ? "Coupons cannot be used when package credits are applied."
-                    : redeemPoints > 0
+                    : isOffline
+                      ? "Coupons need a connection to the server."
+                      : redeemPoints > 0
                       ? "Coupons cannot be used with loyalty point redemption."
                       : undefined
                 }
@@ -344,6 +425,11 @@ export function LaundryCartSidebar({
               <div className="flex items-center justify-between">
                 <span className="text-gray-600">
                   Redeem Points (Avail: {selectedCustomer.loyaltyPoints})
+                  {loyalty?.tier && (
+                    <Badge variant="secondary" className="ml-2">
+                      {loyalty.tier.name}
+                    </Badge>
+                  )}
                 </span>
                 <Input
                   type="number"
@@ -362,10 +448,27 @@ export function LaundryCartSidebar({
                 />
               </div>
             )}
+            {redeemBelowMinimum && (
+              <p className="text-xs text-red-600">
+                Redeem at least {redemptionRules.minRedeemPoints} points at once
+              </p>
+            )}
+            {selectedCustomer && loyalty && loyalty.expiringSoon.points > 0 && (
+              <p className="text-xs text-amber-600">
+                {loyalty.expiringSoon.points} points expire before{" "}
+                {format(new Date(loyalty.expiringSoon.before), "d MMM")}
+              </p>
+            )}
+            {adjustedSummary.expressSurcharge && adjustedSummary.expressSurcharge > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Express:</span>
+                <span className="font-medium">{formatCurrency(adjustedSummary.expressSurcharge)}</span>
+              </div>
+            )}
             {redeemPoints > 0 && (
               <div className="flex justify-between text-green-600">
                 <span>Loyalty Discount:</span>
-                <span>-{formatCurrency(redeemPoints * 0.1)}</span>
+                <span>-{formatCurrency(redeemDiscount)}</span>
               </div>
             )}
             {adjustedSummary.creditedAmount && adjustedSummary.creditedAmount > 0 && (
@@ -394,28 +497,70 @@ export function LaundryCartSidebar({
             >
               Ready By:
             </p>
-            <RadioGroup
-              value={readyBy}
-              onValueChange={setReadyBy}
-              className="flex gap-4"
-              aria-labelledby={readyByLabelId}
-            >
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="today" id="ready-today" />
-                <Label htmlFor="ready-today">Today</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="tomorrow" id="ready-tomorrow" />
-                <Label htmlFor="ready-tomorrow">Tomorrow</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem
-                  value="day_after_tomorrow"
-                  id="ready-day-after"
-                />
-                <Label htmlFor="ready-day-after">Day After Tomorrow</Label>
-              </div>
-            </RadioGroup>
+            {plan ? (
+              <>
+                <RadioGroup
+                  value={activeChoice ?? ""}
+                  onValueChange={setPlannedChoice}
+                  className="grid grid-cols-2 gap-2"
+                  aria-labelledby={readyByLabelId}
+                >
+                  {plan.express && (
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value={EXPRESS_CHOICE} id="ready-express" />
+                      <Label htmlFor="ready-express">
+                        Express {formatPlanDate(plan.express.date)} (+{plan.express.surchargePercent}%)
+                      </Label>
+                    </div>
+                  )}
+                  {plannedOptions.map((option) => (
+                    <div key={option.value} className="flex items-center space-x-2">
+                      <RadioGroupItem
+                        value={option.value}
+                        id={`ready-${option.value}`}
+                        disabled={option.full && plan.overbookPolicy === "block"}
+                      />
+                      <Label htmlFor={`ready-${option.value}`}>
+                        {option.label}
+                        {option.value === plan.standardDate ? " (earliest)" : ""}
+                        {option.full ? " (full)" : ""}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                {chosenOption?.full && plan.overbookPolicy === "warn" && (
+                  <p className="text-xs text-amber-600">
+                    This day is fully booked; the order will be accepted over capacity.
+                  </p>
+                )}
+                {!plannedDate && (
+                  <p className="text-xs text-red-600">No open day has room for this order in the next three weeks.</p>
+                )}
+              </>
+            ) : (
+              <RadioGroup
+                value={readyBy}
+                onValueChange={setReadyBy}
+                className="flex gap-4"
+                aria-labelledby={readyByLabelId}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="today" id="ready-today" />
+                  <Label htmlFor="ready-today">Today</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="tomorrow" id="ready-tomorrow" />
+                  <Label htmlFor="ready-tomorrow">Tomorrow</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem
+                    value="day_after_tomorrow"
+                    id="ready-day-after"
+                  />
+                  <Label htmlFor="ready-day-after">Day After Tomorrow</Label>
+                </div>
+              </RadioGroup>
+            )}
           </div>
 
           {/* Payment Method Selection */}
@@ -427,7 +572,7 @@ export function LaundryCartSidebar({
               Payment Method:
             </p>
             <div
-              className="grid grid-cols-3 gap-2"
+              className="grid grid-cols-2 gap-2"
               role="group"
               aria-labelledby={paymentMethodLabelId}
             >
@@ -468,6 +613,19 @@ export function LaundryCartSidebar({
                 <User className="h-4 w-4" />
                 <span>Pay Later</span>
               </Button>
+              <Button
+                variant={paymentMethod === "wallet" ? "default" : "outline"}
+                className={`justify-center space-x-1 ${
+                  paymentMethod === "wallet" 
+                    ? "bg-pos-primary hover:bg-blue-700 text-white" 
+                    : ""
+                }`}
+                onClick={() => onSelectPayment("wallet")}
+                disabled={!selectedCustomer || isOffline || walletBalance < finalTotal}
+              >
+                <Wallet className="h-4 w-4" />
+                <span>Wallet</span>
+              </Button>
             </div>
             {paymentMethod === "pay_later" && !selectedCustomer && (
               <p className="text-xs text-amber-600">
@@ -476,20 +634,37 @@ export function LaundryCartSidebar({
             )}
           </div>
 
+          {isOffline && (
+            <p className="text-xs text-amber-600">
+              Offline: this order is saved on this device and sent to the server when the connection returns.
+            </p>
+          )}
+
           {/* Checkout Button */}
           <Button
             className="w-full bg-pos-secondary hover:bg-green-600 text-white font-medium py-4"
             onClick={() =>
-              onCheckout(
-                redeemPoints,
-                readyBy,
-                getReadyByDate(),
-                packageUsage || undefined,
-              )
+              plan && plannedDate
+                ? onCheckout(
+                    redeemPoints,
+                    promisedReadyOptionFor(plannedDate, plan.today),
+                    new Date(`${plannedDate}T00:00:00`),
+                    packageUsage || undefined,
+                    express,
+                  )
+                : onCheckout(
+                    redeemPoints,
+                    readyBy,
+                    getReadyByDate(),
+                    packageUsage || undefined,
+                  )
             }
             disabled={
               cartSummary.items.length === 0 ||
-              (paymentMethod === "pay_later" && !selectedCustomer)
+              blockedByCapacity ||
+              redeemBelowMinimum ||
+              (paymentMethod === "pay_later" && !selectedCustomer) ||
+              (paymentMethod === "wallet" && (!selectedCustomer || isOffline || walletBalance < finalTotal))
             }
           >
             <span className="mr-2">✓</span>
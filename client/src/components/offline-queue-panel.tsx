@@ -0,0 +1,65 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { interpolate, useTranslation } from "@/lib/i18n";
+import type { QueuedOfflineOrder } from "@/lib/offline-pos";
+
+interface OfflineQueuePanelProps {
+  isOnline: boolean;
+  queue: QueuedOfflineOrder[];
+  isSyncing: boolean;
+  onSync: () => void;
+  onDismiss: (id: string) => void;
+}
+
+// Orders waiting on this device, plus synced ones the server changed, for the cashier to review
+export function OfflineQueuePanel({ isOnline, queue, isSyncing, onSync, onDismiss }: OfflineQueuePanelProps) {
+  const { t } = useTranslation();
+  const waiting = queue.filter((entry) => entry.status !== "synced");
+  const review = queue.filter((entry) => entry.status === "failed" || (entry.conflicts?.length ?? 0) > 0);
+
+  if (isOnline && queue.length === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-amber-300 bg-amber-50 p-2 sm:p-3 text-xs text-amber-900">
+      <div className="flex items-center justify-between gap-2">
+        <span>
+          {isOnline ? "" : `${t.posOfflineBanner} `}
+          {waiting.length > 0 && interpolate(t.posOfflineWaiting, { count: String(waiting.length) })}
+        </span>
+        {isOnline && waiting.length > 0 && (
+          <Button size="sm" variant="outline" disabled={isSyncing} onClick={onSync}>
+            {t.posOfflineSyncNow}
+          </Button>
+        )}
+      </div>
+      {review.length > 0 && (
+        <ul className="space-y-1">
+          {review.map((entry) => (
+            <li key={entry.id} className="flex items-start justify-between gap-2 rounded border border-amber-200 bg-white p-2">
+              <div className="space-y-1">
+                <div className="font-medium">
+                  {entry.serverOrderNumber && entry.serverOrderNumber !== entry.orderNumber
+                    ? `${entry.orderNumber} → ${entry.serverOrderNumber}`
+                    : entry.orderNumber}
+                  {entry.status === "failed" && (
+                    <Badge variant="destructive" className="ml-2">
+                      {t.posOfflineFailed}
+                    </Badge>
+                  )}
+                </div>
+                {entry.status === "failed" ? (
+                  <div>{entry.error}</div>
+                ) : (
+                  entry.conflicts?.map((conflict, index) => <div key={index}>{conflict.message}</div>)
+                )}
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => onDismiss(entry.id)}>
+                {entry.status === "failed" ? t.posOfflineDiscard : t.posOfflineDismiss}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -41,12 +41,24 @@ function getEventLabel(event: OrderTimelineEvent): string {
   return ORDER_STATUS_LABELS[event.status] ?? humanizeStatus(event.status);
 }
 
+function openDays(count: number) {
+  return `${count} open day${count === 1 ? "" : "s"}`;
+}
+
 function computeSlaStatus(log: OrderLog, events: OrderTimelineEvent[]) {
   if (!log.promisedReadyDate) return null;
   const promisedDate = new Date(log.promisedReadyDate);
   if (!isValid(promisedDate)) return null;
 
-  const deadline = endOfDay(promisedDate);
+  // The server scores lateness in open days, so branch holidays are not held against the order
+  if (log.sla?.outcome === "late") {
+    return { text: `Ready ${openDays(log.sla.lateOpenDays)} past SLA`, variant: "destructive" as const };
+  }
+  if (log.sla?.outcome === "overdue") {
+    return { text: `Past SLA by ${openDays(log.sla.lateOpenDays)}`, variant: "destructive" as const };
+  }
+
+  const deadline = endOfDay(log.sla ? new Date(`${log.sla.dueDate}T00:00:00`) : promisedDate);
   const readyEvent = events.find(
     (event) =>
       event.context === "order" &&
@@ -56,7 +68,7 @@ function computeSlaStatus(log: OrderLog, events: OrderTimelineEvent[]) {
   if (readyEvent) {
     const readyTime = new Date(readyEvent.timestamp);
     if (!isValid(readyTime)) return null;
-    if (!isAfter(readyTime, deadline)) {
+    if (log.sla?.outcome === "met" || !isAfter(readyTime, deadline)) {
       return {
         text: `Ready within SLA (${format(readyTime, "PPp")})`,
         variant: "secondary" as const,
@@ -70,6 +82,10 @@ function computeSlaStatus(log: OrderLog, events: OrderTimelineEvent[]) {
 
   const now = new Date();
   if (isAfter(now, deadline)) {
+    // Only closed days have passed since the due date
+    if (log.sla?.outcome === "due") {
+      return { text: "Due on the next open day", variant: "outline" as const };
+    }
     return {
       text: `Past SLA by ${formatDistance(deadline, now)}`,
       variant: "destructive" as const,
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useCurrency } from "@/lib/currency";
+import { useToast } from "@/hooks/use-toast";
+
+export interface OrderRefundRecord {
+  id: string;
+  kind: "refund" | "void";
+  amount: number;
+  balanceCredit: number;
+  items: { lineIndex: number; quantity: number; creditsRestored: number; amount: number }[];
+  allocations: { paymentMethod: string; amount: number }[];
+  loyaltyPointsReversed: number;
+  reason: string;
+  status: "pending_approval" | "completed" | "rejected";
+  decisionNote: string | null;
+  createdAt: string;
+}
+
+interface OrderRefundsProps {
+  orderId: string;
+  items: any[];
+  canApprove: boolean;
+  onChanged: () => void;
+}
+
+type RefundScope = "full" | "items" | "amount";
+
+export function OrderRefunds({ orderId, items, canApprove, onChanged }: OrderRefundsProps) {
+  const { formatCurrency } = useCurrency();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<RefundScope>("full");
+  const [amount, setAmount] = useState("");
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [refundMethod, setRefundMethod] = useState("original");
+  const [reason, setReason] = useState("");
+  const queryKey = ["/api/orders", orderId, "refunds"];
+
+  const refundsQuery = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/orders/${orderId}/refunds`);
+      return (await res.json()) as { refunds: OrderRefundRecord[]; approvalThreshold: number };
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey });
+    onChanged();
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const body: Record<string, unknown> = { kind: "refund", reason: reason.trim() };
+      if (scope === "amount") body.amount = Number(amount);
+      if (scope === "items") {
+        body.items = Object.entries(quantities)
+          .map(([lineIndex, quantity]) => ({ lineIndex: Number(lineIndex), quantity: Number(quantity) }))
+          .filter((line) => line.quantity > 0);
+      }
+      if (refundMethod !== "original") body.refundMethod = refundMethod;
+      const res = await apiRequest("POST", `/api/orders/${orderId}/refunds`, body);
+      return (await res.json()) as { refund: OrderRefundRecord; requiresApproval: boolean };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.requiresApproval ? "Refund sent for manager approval" : "Refund completed",
+        description: formatCurrency(result.refund.amount),
+      });
+      setOpen(false);
+      setReason("");
+      setAmount("");
+      setQuantities({});
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Refund failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "approve" | "reject" }) => {
+      const res = await apiRequest("POST", `/api/order-refunds/${id}/${decision}`, {});
+      return res.json();
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => {
+      toast({ title: "Decision failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const refunds = refundsQuery.data?.refunds ?? [];
+  const canSubmit =
+    reason.trim().length > 0 &&
+    (scope !== "amount" || Number(amount) > 0) &&
+    (scope !== "items" || Object.values(quantities).some((quantity) => Number(quantity) > 0));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Refunds</CardTitle>
+        <Button variant="outline" onClick={() => setOpen(true)}>Refund</Button>
+      </CardHeader>
+      <CardContent>
+        {refunds.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No refunds</div>
+        ) : (
+          <div className="space-y-2">
+            {refunds.map((refund) => (
+              <div key={refund.id} className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                <div>
+                  <div className="font-medium">
+                    {refund.kind === "void" ? "Void" : "Refund"} · {formatCurrency(refund.amount)}{" "}
+                    <Badge variant={refund.status === "completed" ? "default" : refund.status === "rejected" ? "destructive" : "secondary"}>
+                      {refund.status.replace("_", " ")}
+                    </Badge>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {refund.reason} · {new Date(refund.createdAt).toLocaleString()}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {refund.allocations.map((allocation) => `${allocation.paymentMethod} ${formatCurrency(allocation.amount)}`).join(", ")}
+                    {refund.balanceCredit > 0 ? ` · balance ${formatCurrency(refund.balanceCredit)}` : ""}
+                    {refund.loyaltyPointsReversed > 0 ? ` · -${refund.loyaltyPointsReversed} pts` : ""}
+                  </div>
+                </div>
+                {canApprove && refund.status === "pending_approval" && (
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={decideMutation.isPending}
+                      onClick={() => decideMutation.mutate({ id: refund.id, decision: "reject" })}
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={decideMutation.isPending}
+                      onClick={() => decideMutation.mutate({ id: refund.id, decision: "approve" })}
+                    >
+                      Approve
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund Order</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-3">
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Refund</label>
+              <Select value={scope} onValueChange={(value) => setScope(value as RefundScope)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="full">Everything left on the order</SelectItem>
+                  <SelectItem value="items">Selected items</SelectItem>
+                  <SelectItem value="amount">An amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {scope === "amount" && (
+              <div>
+                <label className="block text-xs text-muted-foreground mb-1">Amount</label>
+                <Input type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+              </div>
+            )}
+            {scope === "items" && (
+              <div className="space-y-2">
+                {items.map((item, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                    <span>
+                      {item.clothingItem?.name ?? item.name ?? "-"} · {item.service?.name ?? item.service ?? "-"} (x{item.quantity ?? 1})
+                    </span>
+                    <Input
+                      className="w-20"
+                      type="number"
+                      min="0"
+                      max={item.quantity ?? 1}
+                      value={quantities[index] ?? ""}
+                      onChange={(e) => setQuantities((current) => ({ ...current, [index]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Pay back to</label>
+              <Select value={refundMethod} onValueChange={setRefundMethod}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="original">Original payment methods</SelectItem>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="card">Card</SelectItem>
+                  <SelectItem value="wallet">Customer wallet</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-xs text-muted-foreground mb-1">Reason</label>
+              <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Enter refund reason" />
+            </div>
+            {refundsQuery.data && (
+              <div className="text-xs text-muted-foreground">
+                Refunds above {formatCurrency(refundsQuery.data.approvalThreshold)} need manager approval.
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Close</Button>
+            <Button disabled={!canSubmit || refundMutation.isPending} onClick={() => refundMutation.mutate()}>
+              Confirm Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+export default OrderRefunds;
@@ -15,6 +15,10 @@ export interface RescheduleWindow {
   start: string;
   end: string;
   label?: string;
+  // Set when the branch books drop-offs into slots
+  slotId?: string;
+  slotDate?: string;
+  remaining?: number;
 }
 
 interface RescheduleDialogProps {
@@ -44,7 +48,12 @@ export function RescheduleDialog({
       setError("Please choose a time window");
       return;
     }
-    await Promise.resolve(onSubmit(window));
+    try {
+      await Promise.resolve(onSubmit(window));
+    } catch (submitError) {
+      // A slot can fill up between loading the list and confirming
+      setError(submitError instanceof Error ? submitError.message : "Could not reschedule, please pick another window");
+    }
   };
 
   return (
@@ -87,6 +96,11 @@ export function RescheduleDialog({
                     {" – "}
                     {new Date(window.end).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
                   </p>
+                  {window.remaining !== undefined ? (
+                    <p className="text-xs text-muted-foreground" data-testid={`slot-remaining-${window.start}`}>
+                      {window.remaining === 1 ? "1 spot left" : `${window.remaining} spots left`}
+                    </p>
+                  ) : null}
                 </div>
                 <RadioGroupItem value={window.start} id={`slot-${window.start}`} />
               </Label>
@@ -8,6 +8,7 @@ import SmartImage from "@/components/common/SmartImage";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useTranslation } from "@/lib/i18n";
 import { useAuthContext } from "@/context/AuthContext";
+import { offlineAwareFetch } from "@/lib/offline-pos";
 import { ClothingItem, Category } from "@shared/schema";
 import LoadingScreen from "@/components/common/LoadingScreen";
 import EmptyState from "@/components/common/EmptyState";
@@ -106,7 +107,7 @@ export function ProductGrid({ onAddToCart, cartItemCount, onToggleCart, branchCo
         await queryClient.prefetchQuery({
           queryKey: key,
           queryFn: async () => {
-            const res = await fetch(`${base}/${id}/services${queryString ? `?${queryString}` : ""}`, { credentials: "include" });
+            const res = await offlineAwareFetch(`${base}/${id}/services${queryString ? `?${queryString}` : ""}`, { credentials: "include" });
             if (!res.ok) return [];
             const raw = await res.json();
             return Array.isArray(raw) ? raw : [];
@@ -164,12 +165,12 @@ export function ProductGrid({ onAddToCart, cartItemCount, onToggleCart, branchCo
     queryFn: async () => {
       // Try legacy endpoint first for compatibility with tests
       try {
-        const res1 = await fetch(`/api/product-categories`, { credentials: "include" });
+        const res1 = await offlineAwareFetch(`/api/product-categories`, { credentials: "include" });
         if (res1.ok) return res1.json();
       } catch {
         // ignore and try next
       }
-      const response = await fetch(`/api/categories?type=clothing`, { credentials: "include" });
+      const response = await offlineAwareFetch(`/api/categories?type=clothing`, { credentials: "include" });
       if (!response.ok) throw new Error(`Failed to fetch categories: ${response.status} ${response.statusText}`);
       return response.json();
     },
@@ -204,7 +205,7 @@ export function ProductGrid({ onAddToCart, cartItemCount, onToggleCart, branchCo
       const query = params.toString();
       // Try clothing-items endpoint first
       try {
-        const response = await fetch(`/api/clothing-items${query ? `?${query}` : ""}`, {
+        const response = await offlineAwareFetch(`/api/clothing-items${query ? `?${query}` : ""}`, {
           credentials: "include",
         });
         if (response.ok) {
@@ -218,7 +219,7 @@ export function ProductGrid({ onAddToCart, cartItemCount, onToggleCart, branchCo
         // fall back below
       }
       // Fallback to products endpoint used in older tests
-      const prodRes = await fetch(`/api/products${query ? `?${query}` : ""}`, { credentials: "include" });
+      const prodRes = await offlineAwareFetch(`/api/products${query ? `?${query}` : ""}`, { credentials: "include" });
       if (!prodRes.ok) {
         const text = await prodRes.text();
         throw new Error(text || `Failed to fetch products`);
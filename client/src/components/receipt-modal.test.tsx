@@ -15,6 +15,8 @@ const authValue = {
   isDeliveryAdmin: false,
   isDispatcher: false,
   isDriver: false,
+  permissions: [],
+  hasPermission: () => false,
 };
 
   const transaction: any = {
@@ -1,4 +1,4 @@
-import { X, Printer, Mail, Truck, MapPin } from "lucide-react";
+import { X, Printer, Mail, Truck, MapPin, Tag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -16,11 +16,17 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useQuery } from "@tanstack/react-query";
 import { getTaxRate } from "@/lib/tax";
+import type { TaxBreakdown } from "@shared/tax";
 import { format } from "date-fns";
 import { useAuthContext } from "@/context/AuthContext";
+import { QRCodeSVG } from "qrcode.react";
+import type { OrderPiece } from "@shared/schema";
+
+// Receipts from buildReceiptData carry the server-computed tax breakdown
+type ReceiptTransaction = Transaction & { taxBreakdown?: TaxBreakdown | null };
 
 interface ReceiptModalProps {
-  transaction?: Transaction | null;
+  transaction?: ReceiptTransaction | null;
   order?: any | null;
   customer?: Customer | null;
   isOpen: boolean;
@@ -146,6 +152,36 @@ export function ReceiptModal({ transaction, order, customer, isOpen, onClose, pr
       .filter(Boolean);
   }, [receiptData]);
 
+  // Tag labels render off-screen, get copied into a print window, then clear
+  const [tagPieces, setTagPieces] = useState<OrderPiece[]>([]);
+  useEffect(() => {
+    if (!tagPieces.length) return;
+    const labels = document.getElementById('tagLabels');
+    const printWindow = labels ? window.open('', '_blank', 'width=400,height=600') : null;
+    if (labels && printWindow) {
+      printWindow.document.write(`
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <title>Tags</title>
+            <style>
+              body { font-family: monospace; font-size: 11px; margin: 0; }
+              .tag-label { display: flex; gap: 8px; align-items: center; padding: 6px; border-bottom: 1px dashed #999; page-break-inside: avoid; }
+              .tag-code { font-size: 14px; font-weight: bold; }
+            </style>
+          </head>
+          <body>${labels.innerHTML}</body>
+        </html>
+      `);
+      printWindow.document.close();
+      setTimeout(() => {
+        printWindow.print();
+        printWindow.close();
+      }, 500);
+    }
+    setTagPieces([]);
+  }, [tagPieces]);
+
   const renderBilingualRow = (
     enLabel: string,
     arLabel: string,
@@ -460,6 +496,21 @@ export function ReceiptModal({ transaction, order, customer, isOpen, onClose, pr
     }
   };
 
+  const handlePrintTags = async () => {
+    if (!order?.id) return;
+    try {
+      const res = await apiRequest("POST", `/api/orders/${order.id}/pieces`);
+      const body = (await res.json()) as { pieces: OrderPiece[] };
+      setTagPieces(body.pieces);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load garment tags",
+        variant: "destructive",
+      });
+    }
+  };
+
   const items = (Array.isArray((receiptData as any).items) ? (receiptData.items as any[]) : []) || [];
   const date = new Date(receiptData.createdAt);
   const isPayLater = receiptData.paymentMethod === 'pay_later';
@@ -489,10 +540,17 @@ export function ReceiptModal({ transaction, order, customer, isOpen, onClose, pr
       })
     : [];
 
+  const taxBreakdown: TaxBreakdown | null = receiptData.taxBreakdown ?? null;
   if (hasItems) {
     netSubtotal = subtotalBeforeCredits - totalCreditsValue;
-    taxAmount = taxRate > 0 ? netSubtotal * taxRate : 0;
-    finalTotalComputed = netSubtotal + taxAmount;
+    if (taxBreakdown) {
+      // Server-computed breakdown is authoritative for orders
+      taxAmount = taxBreakdown.tax;
+      finalTotalComputed = taxBreakdown.total;
+    } else {
+      taxAmount = taxRate > 0 ? netSubtotal * taxRate : 0;
+      finalTotalComputed = netSubtotal + taxAmount;
+    }
   }
 
   // Fallback to server-computed totals for historical orders without item breakdown
@@ -729,7 +787,13 @@ export function ReceiptModal({ transaction, order, customer, isOpen, onClose, pr
                 "أرصدة الباقة",
                 formatCurrency(-packageCreditsToDisplay)
               )}
-            {taxRate > 0 &&
+            {taxBreakdown && taxBreakdown.discount > 0 &&
+              renderBilingualRow(
+                "Discount",
+                "الخصم",
+                formatCurrency(-taxBreakdown.discount)
+              )}
+            {(taxBreakdown ? taxBreakdown.tax > 0 : taxRate > 0) &&
               renderBilingualRow(
                 tEn.tax,
                 tAr.tax,
@@ -956,7 +1020,30 @@ export function ReceiptModal({ transaction, order, customer, isOpen, onClose, pr
               {t.email}
             </Button>
           )}
+          {order?.id && !order.isDeliveryRequest && (
+            <Button onClick={handlePrintTags} variant="outline" className="flex-1">
+              <Tag className="w-4 h-4 mr-2" />
+              {t.printTags}
+            </Button>
+          )}
         </div>
+
+        {tagPieces.length > 0 && (
+          <div id="tagLabels" className="hidden" aria-hidden="true">
+            {tagPieces.map((piece) => (
+              <div key={piece.id} className="tag-label">
+                <QRCodeSVG value={piece.tagCode} size={64} />
+                <div>
+                  <div className="tag-code">{piece.tagCode}</div>
+                  <div>{piece.description}</div>
+                  <div>
+                    {displayCustomer} · {piece.sequence}/{tagPieces.length}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
@@ -7,7 +7,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/lib/i18n";
 import { useAuthContext } from "@/context/AuthContext";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, newIdempotencyKey } from "@/lib/queryClient";
+import { isNetworkError } from "@/lib/offline-pos";
 
 type Props = {
   open: boolean;
@@ -32,6 +33,8 @@ export function RecordPaymentDialog({ open, onOpenChange, customerId, customerNa
   const [channel, setChannel] = useState<string>("pos");
   const [submitting, setSubmitting] = useState(false);
   const [balance, setBalance] = useState<number | null>(null);
+  const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [purpose, setPurpose] = useState<"payment" | "top_up">("payment");
   const [orderRemaining, setOrderRemaining] = useState<number | null>(null);
   const [showOverrideConfirm, setShowOverrideConfirm] = useState(false);
   const [overrideReason, setOverrideReason] = useState("");
@@ -41,6 +44,7 @@ export function RecordPaymentDialog({ open, onOpenChange, customerId, customerNa
     if (open) {
       setAmount(defaultAmount ? String(defaultAmount) : "");
       setMethod("cash");
+      setPurpose("payment");
       setNotes(orderNumber ? `Payment for order ${orderNumber}` : "");
       // Fetch customer balance for preview
       (async () => {
@@ -49,7 +53,9 @@ export function RecordPaymentDialog({ open, onOpenChange, customerId, customerNa
           const c = await res.json();
           const b = parseFloat(c?.balanceDue ?? '0');
           setBalance(isNaN(b) ? 0 : b);
-        } catch { setBalance(null); }
+          const w = parseFloat(c?.walletBalance ?? '0');
+          setWalletBalance(isNaN(w) ? 0 : w);
+        } catch { setBalance(null); setWalletBalance(null); }
       })();
       // If linked to an order, compute remaining for that order
       if (orderId && orderTotal) {
@@ -78,23 +84,49 @@ export function RecordPaymentDialog({ open, onOpenChange, customerId, customerNa
     return Boolean(orderId && orderRemaining != null && amt > orderRemaining + 1e-6);
   })();
 
+  // Reused when a payment is retried after the connection dropped, so it is recorded once
+  const paymentKey = useRef<string | null>(null);
+
   async function handleSubmit() {
     const amt = parseFloat(amount);
     if (!(amt > 0)) {
       toast({ title: t.error, description: t.invalidPaymentAmount || "Invalid amount", variant: "destructive" });
       return;
     }
-    const allowed = new Set(["cash", "card", "bank_transfer"]);
+    const allowed = new Set(purpose === "top_up" ? ["cash", "card", "bank_transfer"] : ["cash", "card", "bank_transfer", "wallet"]);
     if (!allowed.has(method)) {
       toast({ title: t.error, description: t.invalidData || "Invalid payment method", variant: "destructive" });
       return;
     }
+    if (method === "wallet" && walletBalance != null && amt > walletBalance + 1e-6) {
+      toast({ title: t.error, description: t.walletInsufficient, variant: "destructive" });
+      return;
+    }
+    if (purpose === "top_up") {
+      setSubmitting(true);
+      try {
+        await apiRequest("POST", `/api/customers/${customerId}/wallet/top-ups`, {
+          amount: amt.toFixed(2),
+          fundingMethod: method,
+          ...(notes ? { notes } : {}),
+        });
+        toast({ title: t.success, description: t.walletTopUpRecorded });
+        onOpenChange(false);
+        onSuccess?.();
+      } catch (e) {
+        toast({ title: t.error, description: t.failedToRecordPayment || "Failed to record payment", variant: "destructive" });
+      } finally {
+        setSubmitting(false);
+      }
+      return;
+    }
     // Cap overpayment unless override
     if (orderId && orderRemaining != null && amt > orderRemaining + 1e-6 && !isOverpayOverride) {
       setShowOverrideConfirm(true);
       return;
     }
     setSubmitting(true);
+    paymentKey.current ??= newIdempotencyKey();
     try {
       await apiRequest("POST", `/api/customers/${customerId}/payments`, {
         amount: amt.toFixed(2),
@@ -104,11 +136,13 @@ export function RecordPaymentDialog({ open, onOpenChange, customerId, customerNa
         receivedBy: user?.username || "POS User",
         ...(orderId ? { orderId } : {}),
         ...(isOverpayOverride ? { isOverpayOverride: true, overrideReason } : {}),
-      });
+      }, { "Idempotency-Key": paymentKey.current });
+      paymentKey.current = null;
       toast({ title: t.success, description: t.paymentRecorded || "Payment recorded" });
       onOpenChange(false);
       onSuccess?.();
     } catch (e) {
+      if (!isNetworkError(e)) paymentKey.current = null;
       toast({ title: t.error, description: t.failedToRecordPayment || "Failed to record payment", variant: "destructive" });
     } finally {
       setSubmitting(false);
@@ -129,10 +163,35 @@ export function RecordPaymentDialog({ open, onOpenChange, customerId, customerNa
           {balance != null && (
             <div className="rounded border p-2 text-sm">
               <div>Current balance: <span className="font-medium">{balance.toFixed(2)}</span></div>
-              <div>New balance after payment: <span className="font-medium">{(balance - (parseFloat(amount || '0') || 0)).toFixed(2)}</span></div>
+              {purpose === "payment" && (
+                <div>New balance after payment: <span className="font-medium">{(balance - (parseFloat(amount || '0') || 0)).toFixed(2)}</span></div>
+              )}
               {orderId && orderRemaining != null && (
                 <div className="mt-1">Order remaining: <span className="font-medium">{orderRemaining.toFixed(2)}</span></div>
               )}
+              {walletBalance != null && (
+                <div className="mt-1">{t.walletBalance}: <span className="font-medium">{walletBalance.toFixed(2)}</span></div>
+              )}
+            </div>
+          )}
+          {!orderId && (
+            <div>
+              <Label htmlFor="purpose">{t.type}</Label>
+              <Select
+                value={purpose}
+                onValueChange={(value) => {
+                  setPurpose(value as "payment" | "top_up");
+                  if (method === "wallet") setMethod("cash");
+                }}
+              >
+                <SelectTrigger id="purpose" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="payment">{t.recordPayment}</SelectItem>
+                  <SelectItem value="top_up">{t.walletTopUp}</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           )}
           <div className="grid grid-cols-2 gap-4">
@@ -172,6 +231,7 @@ export function RecordPaymentDialog({ open, onOpenChange, customerId, customerNa
                   <SelectItem value="cash">{t.cash}</SelectItem>
                   <SelectItem value="card">{t.card}</SelectItem>
                   <SelectItem value="bank_transfer">{t.bankTransfer || "Bank Transfer"}</SelectItem>
+                  {purpose === "payment" && <SelectItem value="wallet">{t.wallet}</SelectItem>}
                 </SelectContent>
               </Select>
             </div>
@@ -233,7 +293,7 @@ export function RecordPaymentDialog({ open, onOpenChange, customerId, customerNa
             {t.cancel}
           </Button>
           <Button onClick={handleSubmit} disabled={submitting}>
-            {t.recordPayment}
+            {purpose === "top_up" ? t.walletTopUp : t.recordPayment}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -350,7 +350,7 @@ export function ReportsDashboard() {
 
   // Financial report (cash sales, outstanding, receipts)
   type FinancialsResponse = {
-    totals: { cashSales: number; cashOutstanding: number; cashReceived: number; cardReceived: number; expensesTotal?: number; netCash?: number };
+    totals: { cashSales: number; cashOutstanding: number; cashReceived: number; cardReceived: number; expensesTotal?: number; netCash?: number; netSales?: number; taxCollected?: number; grossSales?: number };
     cashSales: { orderId: string; orderNumber: string; customerName: string | null; date: string; total: number }[];
     cashReceipts: { paymentId: string; amount: number; date: string; source: 'regular_order' | 'pay_later_receipt' | 'package_or_other'; orderId: string | null; orderNumber: string | null; customerName: string | null; customerId?: string | null }[];
     cardReceipts: { paymentId: string; amount: number; date: string; source: 'regular_order' | 'pay_later_receipt' | 'package_or_other'; orderId: string | null; orderNumber: string | null; customerName: string | null; customerId?: string | null }[];
@@ -365,6 +365,7 @@ export function ReportsDashboard() {
     },
     keepPreviousData: true,
   });
+  const financialTotals = (financials as FinancialsResponse | undefined)?.totals;
 
   // Financials filters + CSV helpers
   const [filterMethod, setFilterMethod] = useState<'all' | 'cash' | 'card'>('all');
@@ -851,6 +852,15 @@ export function ReportsDashboard() {
                 <p className="text-xs text-muted-foreground">Payments table (card)</p>
               </CardContent>
             </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between pb-2">
+                <CardTitle className="text-sm font-medium">Tax Collected</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(financialTotals?.taxCollected ?? 0)}</div>
+                <p className="text-xs text-muted-foreground">Net sales {formatCurrency(financialTotals?.netSales ?? 0)}</p>
+              </CardContent>
+            </Card>
             <Card>
               <CardHeader className="flex flex-row items-center justify-between pb-2">
                 <CardTitle className="text-sm font-medium">Expenses</CardTitle>
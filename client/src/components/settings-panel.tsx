@@ -17,6 +17,7 @@ import { useTranslation } from "@/lib/i18n";
 import { useCurrency, type Currency } from "@/lib/currency";
 import { SecuritySettings } from "./security-settings";
 import { ProfileSettings } from "./profile-settings";
+import { TwoFactorSettings } from "./two-factor-settings";
 import { PackageList } from "./package-list";
 import PackageChatbot from "./PackageChatbot";
 // Removed branch update mutation in favor of centralized BranchSettings
@@ -221,6 +222,7 @@ export function SettingsPanel() {
 
           <TabsContent value="profile" className="space-y-6">
             <ProfileSettings />
+            <TwoFactorSettings />
           </TabsContent>
 
           {hasAdminAccess && (
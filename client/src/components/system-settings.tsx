@@ -1,13 +1,18 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { useCurrency, Currency } from "@/lib/currency";
 import { useTranslation, Language } from "@/lib/i18n";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuthContext } from "@/context/AuthContext";
+import { useBranchTaxProfile, branchTaxProfileQueryKey } from "@/hooks/use-branch-tax-profile";
 import { Settings, DollarSign, Globe, Store, Percent, Wrench, Sparkles } from "lucide-react";
 
 export function SystemSettings() {
@@ -15,8 +20,40 @@ export function SystemSettings() {
   const { t, language, setLanguage } = useTranslation();
   const { currency, setCurrency, getAllCurrencies, formatCurrency } = useCurrency();
   
-  const [taxRate, setTaxRate] = useState(() => {
-    return localStorage.getItem('taxRate') || '8.5';
+  const queryClient = useQueryClient();
+  const { branch } = useAuthContext();
+  const { data: taxProfile } = useBranchTaxProfile(branch?.id);
+  const [taxRate, setTaxRate] = useState("0");
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(false);
+
+  useEffect(() => {
+    setTaxRate(taxProfile ? String(parseFloat(taxProfile.rate)) : "0");
+    setPricesIncludeTax(!!taxProfile?.pricesIncludeTax);
+  }, [taxProfile]);
+
+  const saveTaxProfile = useMutation({
+    mutationFn: async () => {
+      if (!branch?.id) return null;
+      if (taxProfile) {
+        const res = await apiRequest("PUT", `/api/branches/${branch.id}/tax-profiles/${taxProfile.id}`, {
+          name: taxProfile.name,
+          rate: taxRate,
+          pricesIncludeTax,
+          effectiveFrom: taxProfile.effectiveFrom,
+          effectiveTo: taxProfile.effectiveTo,
+          isActive: taxProfile.isActive,
+        });
+        return res.json();
+      }
+      const res = await apiRequest("POST", `/api/branches/${branch.id}/tax-profiles`, {
+        rate: taxRate,
+        pricesIncludeTax,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: branchTaxProfileQueryKey(branch?.id) });
+    },
   });
   
   const [companyName, setCompanyName] = useState(() => {
@@ -27,11 +64,21 @@ export function SystemSettings() {
     return localStorage.getItem('companyPhone') || '+965-2XXX-XXXX';
   });
 
-  const handleSaveSettings = () => {
-    localStorage.setItem('taxRate', taxRate);
+  const handleSaveSettings = async () => {
     localStorage.setItem('companyName', companyName);
     localStorage.setItem('companyPhone', companyPhone);
-    
+
+    try {
+      await saveTaxProfile.mutateAsync();
+    } catch (error: any) {
+      toast({
+        title: t.taxProfileSaveFailed,
+        description: error?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     toast({
       title: t.settingsSaved,
       description: t.settingsUpdated,
@@ -113,10 +160,23 @@ export function SystemSettings() {
                 id="taxRate"
                 type="number"
                 step="0.1"
+                min="0"
+                max="100"
                 value={taxRate}
                 onChange={(e) => setTaxRate(e.target.value)}
                 placeholder="8.5"
+                disabled={!branch?.id}
               />
+              <div className="flex items-center justify-between">
+                <Label htmlFor="pricesIncludeTax">{t.pricesIncludeTax}</Label>
+                <Switch
+                  id="pricesIncludeTax"
+                  checked={pricesIncludeTax}
+                  onCheckedChange={setPricesIncludeTax}
+                  disabled={!branch?.id}
+                />
+              </div>
+              <p className="text-sm text-gray-500">{t.taxProfileHint}</p>
             </div>
           </CardContent>
         </Card>
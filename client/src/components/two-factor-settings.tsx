@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { interpolate, useTranslation } from "@/lib/i18n";
+import { KeyRound } from "lucide-react";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  pendingEnrollment: boolean;
+  recoveryCodesRemaining: number;
+}
+
+const STATUS_QUERY_KEY = ["/api/account/2fa"];
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const [code, setCode] = useState("");
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: STATUS_QUERY_KEY,
+    retry: false,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: t.error, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/account/2fa/setup");
+      return (await res.json()) as { secret: string; otpauthUrl: string };
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(null);
+      setEnrollment(data);
+    },
+    onError,
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/account/2fa/activate", { code: code.trim() });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+      toast({ title: t.twoFactorEnabled });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/account/2fa/recovery-codes", { code: code.trim() });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/account/2fa", { code: code.trim() });
+      return res.json();
+    },
+    onSuccess: () => {
+      setCode("");
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: STATUS_QUERY_KEY });
+      toast({ title: t.twoFactorDisabled });
+    },
+    onError,
+  });
+
+  if (!status) return null;
+
+  const hasCode = code.trim().length >= 6;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <KeyRound className="h-5 w-5" />
+          <span>{t.twoFactorTitle}</span>
+          <Badge variant={status.enabled ? "default" : "secondary"}>
+            {status.enabled ? t.twoFactorStatusOn : t.twoFactorStatusOff}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.required && !status.enabled && (
+          <p className="text-sm text-muted-foreground">{t.twoFactorRequiredNotice}</p>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-2">
+            <Label>{t.twoFactorRecoveryCodes}</Label>
+            <p className="text-sm text-muted-foreground">{t.twoFactorRecoveryCodesHint}</p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode} className="rounded bg-muted px-2 py-1 text-center">
+                  {recoveryCode}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!status.enabled && !enrollment && (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {t.twoFactorSetUp}
+          </Button>
+        )}
+
+        {enrollment && (
+          <div className="flex flex-col items-start space-y-2">
+            <p className="text-sm text-muted-foreground">{t.twoFactorEnrollDescription}</p>
+            <QRCodeSVG value={enrollment.otpauthUrl} size={160} />
+            <p className="text-xs text-muted-foreground">{t.twoFactorManualEntry}</p>
+            <code className="break-all text-sm">{enrollment.secret}</code>
+          </div>
+        )}
+
+        {(enrollment || status.enabled) && (
+          <div className="space-y-2">
+            <Label htmlFor="twoFactorSettingsCode">{t.twoFactorCodeLabel}</Label>
+            <Input
+              id="twoFactorSettingsCode"
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+          </div>
+        )}
+
+        {enrollment && (
+          <Button onClick={() => activateMutation.mutate()} disabled={!hasCode || activateMutation.isPending}>
+            {t.twoFactorVerify}
+          </Button>
+        )}
+
+        {status.enabled && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              onClick={() => regenerateMutation.mutate()}
+              disabled={!hasCode || regenerateMutation.isPending}
+            >
+              {t.twoFactorRegenerateCodes}
+            </Button>
+            {!status.required && (
+              <Button
+                variant="destructive"
+                onClick={() => disableMutation.mutate()}
+                disabled={!hasCode || disableMutation.isPending}
+              >
+                {t.twoFactorDisable}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {status.enabled && (
+          <p className="text-xs text-muted-foreground">
+            {interpolate(t.twoFactorRecoveryCodesRemaining, { count: status.recoveryCodesRemaining })}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TwoFactorSettings;
@@ -6,6 +6,8 @@ import type { User, Branch } from "@shared/schema";
 // Extended user type with optional branch information
 export type AuthUser =
   User & {
+    // Effective permission slugs: role permissions plus per-user grants, minus denies
+    permissions?: string[];
     branch?: (
       Branch & {
         logoUrl?: string | null;
@@ -27,6 +29,8 @@ interface AuthContextValue {
   isDeliveryAdmin: boolean;
   isDispatcher: boolean;
   isDriver: boolean;
+  permissions: string[];
+  hasPermission: (permission: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
@@ -42,6 +46,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // Normalize null (from 401) to undefined to keep consumer API consistent
   const normalizedUser: AuthUser | undefined = user ?? undefined;
+  const permissions = normalizedUser?.permissions ?? [];
 
   const value: AuthContextValue = {
     user: normalizedUser,
@@ -56,6 +61,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     isDeliveryAdmin: normalizedUser?.role === "delivery_admin",
     isDispatcher: normalizedUser?.role === "dispatcher",
     isDriver: normalizedUser?.role === "driver",
+    permissions,
+    hasPermission: (permission) => normalizedUser?.role === "super_admin" || permissions.includes(permission),
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
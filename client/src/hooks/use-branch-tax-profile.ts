@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import type { BranchTaxProfileWithOverrides } from "@shared/schema";
+import { setActiveTaxProfile } from "@/lib/tax";
+
+export const branchTaxProfileQueryKey = (branchId?: string | null) => [
+  "/api/branches",
+  branchId ?? "",
+  "tax-profile",
+];
+
+/**
+ * Loads the branch's active tax profile and publishes it to `@/lib/tax` so cart and receipt
+ * previews use the same configuration the server applies to orders.
+ */
+export function useBranchTaxProfile(branchId?: string | null) {
+  const query = useQuery<BranchTaxProfileWithOverrides | null>({
+    queryKey: branchTaxProfileQueryKey(branchId),
+    enabled: !!branchId,
+  });
+
+  // Published during render so cart totals computed in the same pass already use the profile
+  if (query.data !== undefined) {
+    setActiveTaxProfile(query.data);
+  }
+
+  return query;
+}
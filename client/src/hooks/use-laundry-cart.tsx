@@ -5,7 +5,9 @@ import type {
   ClothingItem,
   LaundryServiceWithItemPrice,
 } from "@shared/schema";
-import { getTaxRate } from "@/lib/tax";
+import { calculateTaxBreakdown, type TaxLineInput } from "@shared/tax";
+import { withExpressSurcharge } from "@shared/capacity";
+import { getActiveTaxProfile } from "@/lib/tax";
 import { apiRequest } from "@/lib/queryClient";
 
 type AppliedCoupon = {
@@ -21,7 +23,7 @@ type AppliedCoupon = {
 
 export function useLaundryCart() {
   const [cartItems, setCartItems] = useState<LaundryCartItem[]>([]);
-  const [paymentMethod, setPaymentMethod] = useState<"cash" | "card" | "pay_later">("cash");
+  const [paymentMethod, setPaymentMethod] = useState<"cash" | "card" | "pay_later" | "wallet">("cash");
   const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
   const [couponCode, setCouponCode] = useState("");
   const [isCouponLoading, setIsCouponLoading] = useState(false);
@@ -145,15 +147,17 @@ export function useLaundryCart() {
   const getCartSummary = useCallback((
     packageUsage?: {
       items: { serviceId: string; clothingItemId: string; quantity: number }[];
-    }
+    },
+    express?: { surchargePercent: number },
   ): LaundryCartSummary & {
     coupon?: AppliedCoupon;
     discountAmount?: number;
     totalBeforeDiscount?: number;
     creditedAmount?: number;
+    expressSurcharge?: number;
   } => {
     const subtotal = cartItems.reduce((sum, item) => sum + item.total, 0);
-    const taxRate = getTaxRate();
+    const taxProfile = getActiveTaxProfile();
 
     let discountAmount = 0;
     let applicableSubtotal = subtotal;
@@ -170,46 +174,49 @@ export function useLaundryCart() {
       discountAmount = Math.min(appliedCoupon.discount, applicableSubtotal);
     }
 
-    const discountedSubtotal = subtotal - discountAmount;
-
     // Calculate package credits if provided
     let creditedAmount = 0;
-    if (packageUsage?.items && packageUsage.items.length > 0) {
-      const usageMap = new Map<string, number>();
-      for (const u of packageUsage.items) {
-        const key = `${u.serviceId}:${u.clothingItemId}`;
-        usageMap.set(key, (usageMap.get(key) || 0) + u.quantity);
-      }
+    const usageMap = new Map<string, number>();
+    for (const u of packageUsage?.items ?? []) {
+      const key = `${u.serviceId}:${u.clothingItemId}`;
+      usageMap.set(key, (usageMap.get(key) || 0) + u.quantity);
+    }
 
-      for (const item of cartItems) {
-        const key = `${item.service.id}:${item.clothingItem.id}`;
-        const available = usageMap.get(key) || 0;
-        if (available > 0) {
-          const creditQty = Math.min(available, item.quantity);
-          const price = parseFloat(item.service.itemPrice ?? item.service.price);
-          creditedAmount += creditQty * price;
-          usageMap.set(key, available - creditQty);
-        }
+    const taxLines: TaxLineInput[] = cartItems.map((item) => {
+      const key = `${item.service.id}:${item.clothingItem.id}`;
+      const available = usageMap.get(key) || 0;
+      let lineCredit = 0;
+      if (available > 0) {
+        const creditQty = Math.min(available, item.quantity);
+        lineCredit = creditQty * parseFloat(item.service.itemPrice ?? item.service.price);
+        usageMap.set(key, available - creditQty);
       }
-    }
+      creditedAmount += lineCredit;
+      return {
+        amount: item.total - lineCredit,
+        serviceId: item.service.id,
+        categoryIds: [item.service.categoryId, item.clothingItem.categoryId],
+      };
+    });
 
-    const creditedSubtotal = Math.max(discountedSubtotal - creditedAmount, 0);
-    const tax = Math.max(creditedSubtotal * taxRate, 0);
-    const total = Math.max(creditedSubtotal + tax, 0);
+    // Same calculation the server runs on POST /api/orders
+    const priced = withExpressSurcharge(taxLines, express?.surchargePercent);
+    const breakdown = calculateTaxBreakdown(priced.lines, taxProfile, discountAmount);
     const itemCount = cartItems.reduce((sum, item) => sum + item.quantity, 0);
 
     return {
       items: cartItems,
       subtotal: Math.round(subtotal * 100) / 100,
-      tax: Math.round(tax * 100) / 100,
-      total: Math.round(total * 100) / 100,
+      tax: breakdown.tax,
+      total: breakdown.total,
       itemCount,
       coupon: appliedCoupon || undefined,
-      discountAmount: Math.round(discountAmount * 100) / 100,
+      discountAmount: breakdown.discount,
       totalBeforeDiscount: appliedCoupon
-        ? Math.round((subtotal + subtotal * taxRate) * 100) / 100
+        ? calculateTaxBreakdown(priced.lines, taxProfile).total
         : undefined,
       creditedAmount: Math.round(creditedAmount * 100) / 100,
+      expressSurcharge: priced.surcharge || undefined,
     };
   }, [cartItems, appliedCoupon]);
 
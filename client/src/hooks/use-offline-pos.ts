@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiRequest, postOrder } from "@/lib/queryClient";
+import {
+  getDeviceId,
+  getQueuedOrders,
+  queueOfflineOrder,
+  remainingReservedNumbers,
+  removeQueuedOrder,
+  saveReservation,
+  syncQueuedOrders,
+  type OfflineSyncResult,
+  type QueuedOfflineOrder,
+} from "@/lib/offline-pos";
+
+// Ask for a fresh block of order numbers once fewer than this are left on the device
+const RESERVATION_LOW_WATER = 10;
+
+/**
+ * Tracks connectivity for the POS, queues orders while offline and replays them to the server
+ * as soon as the browser reports the connection is back.
+ */
+export function useOfflinePos(branchCode?: string, onSynced?: (result: OfflineSyncResult) => void) {
+  const [isOnline, setIsOnline] = useState(() => (typeof navigator === "undefined" ? true : navigator.onLine));
+  const [queue, setQueue] = useState<QueuedOfflineOrder[]>(getQueuedOrders);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncing = useRef(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const sync = useCallback(async () => {
+    if (syncing.current || !getQueuedOrders().some((entry) => entry.status !== "synced")) return;
+    syncing.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await syncQueuedOrders(postOrder);
+      if (result.interrupted) setIsOnline(false);
+      onSyncedRef.current?.(result);
+    } finally {
+      syncing.current = false;
+      setIsSyncing(false);
+      setQueue(getQueuedOrders());
+    }
+  }, []);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      void sync();
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    if (navigator.onLine) void sync();
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+    };
+  }, [sync]);
+
+  // Keep a block of numbers on hand while connected so receipts printed offline carry real order numbers
+  useEffect(() => {
+    if (!isOnline || !branchCode || remainingReservedNumbers(branchCode) >= RESERVATION_LOW_WATER) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await apiRequest("POST", "/api/pos/offline/reservations", { deviceId: getDeviceId() });
+        const reservation = await res.json();
+        if (!cancelled && reservation.branchCode === branchCode) saveReservation(reservation);
+      } catch {
+        // Without a reservation offline orders get placeholder numbers until they sync
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOnline, branchCode, queue.length]);
+
+  const queueOrder = useCallback((input: Parameters<typeof queueOfflineOrder>[0]) => {
+    const queued = queueOfflineOrder(input);
+    setQueue(getQueuedOrders());
+    return queued;
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    removeQueuedOrder(id);
+    setQueue(getQueuedOrders());
+  }, []);
+
+  return {
+    isOnline,
+    setOffline: () => setIsOnline(false),
+    queue,
+    pendingCount: queue.filter((entry) => entry.status !== "synced").length,
+    isSyncing,
+    sync,
+    queueOrder,
+    dismiss,
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+
+import {
+  getQueuedOrders,
+  offlineAwareFetch,
+  queueOfflineOrder,
+  remainingReservedNumbers,
+  saveReservation,
+  syncQueuedOrders,
+} from "./offline-pos";
+
+const originalFetch = global.fetch;
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), { status: 200, headers: { "Content-Type": "application/json" } });
+
+describe("offline POS", () => {
+  it("serves the last catalog response when the network is down", async () => {
+    global.fetch = vi.fn(() => Promise.resolve(jsonResponse([{ id: "shirt" }]))) as any;
+    await offlineAwareFetch("/api/clothing-items?branchCode=SAL");
+
+    global.fetch = vi.fn(() => Promise.reject(new TypeError("Failed to fetch"))) as any;
+    const cached = await offlineAwareFetch("/api/clothing-items?branchCode=SAL");
+    expect(await cached.json()).toEqual([{ id: "shirt" }]);
+    await expect(offlineAwareFetch("/api/orders")).rejects.toThrow("Failed to fetch");
+  });
+
+  it("numbers queued orders from the reservation, then falls back to placeholders", () => {
+    saveReservation({ id: "res-1", branchCode: "SAL", startNumber: 41, endNumber: 42 });
+    const input = { branchCode: "SAL", order: { branchCode: "SAL", customerName: "Walk-in", cartItems: [] }, packageCredits: 0 };
+
+    expect(queueOfflineOrder(input).orderNumber).toBe("SAL-0041");
+    expect(queueOfflineOrder(input).orderNumber).toBe("SAL-0042");
+    const overflow = queueOfflineOrder(input);
+    expect(overflow.orderNumber).toMatch(/^OFF-/);
+    expect(overflow.reservationId).toBeUndefined();
+    expect(remainingReservedNumbers("SAL")).toBe(0);
+  });
+
+  it("keeps conflicted orders for review and stops when still offline", async () => {
+    const input = { branchCode: "SAL", order: { branchCode: "SAL", customerName: "Walk-in", cartItems: [] }, packageCredits: 2 };
+    const clean = queueOfflineOrder(input);
+    const conflicted = queueOfflineOrder(input);
+    const waiting = queueOfflineOrder(input);
+    const sent: any[] = [];
+    const keys: string[] = [];
+
+    const result = await syncQueuedOrders(async (body, { idempotencyKey }) => {
+      sent.push(body);
+      keys.push(idempotencyKey);
+      if (body.offline.id === waiting.id) throw new TypeError("Failed to fetch");
+      const offlineConflicts = body.offline.id === conflicted.id ? [{ type: "package_credits", message: "used" }] : [];
+      return jsonResponse({ id: `order-${sent.length}`, orderNumber: "SAL-0100", offlineConflicts });
+    });
+
+    expect(sent[0].offline).toMatchObject({ id: clean.id, packageCredits: 2 });
+    expect(keys).toEqual([clean.id, conflicted.id, waiting.id]);
+    expect(result.synced).toHaveLength(2);
+    expect(result.interrupted).toBe(true);
+    expect(getQueuedOrders().map((entry) => [entry.id, entry.status])).toEqual([
+      [conflicted.id, "synced"],
+      [waiting.id, "pending"],
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+import { formatOrderNumber, type OfflineConflict, type OfflineOrderInput } from "@shared/offline-pos";
+
+// Keeps the counter selling through a dropped connection: catalog reads fall back to the last
+// response seen, and orders wait in localStorage until POST /api/orders is reachable again.
+
+const CACHE_PREFIX = "offlinePos:cache:";
+const QUEUE_KEY = "offlinePos:queue";
+const RESERVATION_KEY = "offlinePos:reservation:";
+const DEVICE_KEY = "offlinePos:device";
+const MAX_CACHE_ENTRIES = 200;
+
+// GET endpoints the POS reads to ring up a sale; everything else still needs the server
+export const OFFLINE_CATALOG_PATHS = [
+  "/api/clothing-items",
+  "/api/laundry-services",
+  "/api/item-prices",
+  "/api/packages",
+  "/api/customers",
+  "/api/products",
+  "/api/categories",
+  "/api/product-categories",
+];
+
+interface CachedResponse {
+  body: string;
+  contentType: string | null;
+  totalCount: string | null;
+  savedAt: number;
+}
+
+function storage(): Storage | null {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+function readJson<T>(key: string): T | null {
+  try {
+    const raw = storage()?.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    storage()?.setItem(key, JSON.stringify(value));
+  } catch {
+    // Quota exceeded or storage disabled; offline support degrades but the POS keeps working
+  }
+}
+
+export function isOfflineCacheable(url: string): boolean {
+  const path = url.split("?")[0];
+  return OFFLINE_CATALOG_PATHS.some((prefix) => path === prefix || path.startsWith(`${prefix}/`));
+}
+
+function pruneCache(store: Storage) {
+  const entries: { key: string; savedAt: number }[] = [];
+  for (let index = 0; index < store.length; index += 1) {
+    const key = store.key(index);
+    if (!key?.startsWith(CACHE_PREFIX)) continue;
+    entries.push({ key, savedAt: readJson<CachedResponse>(key)?.savedAt ?? 0 });
+  }
+  if (entries.length <= MAX_CACHE_ENTRIES) return;
+  entries
+    .sort((a, b) => a.savedAt - b.savedAt)
+    .slice(0, entries.length - MAX_CACHE_ENTRIES)
+    .forEach((entry) => store.removeItem(entry.key));
+}
+
+async function rememberResponse(url: string, res: Response) {
+  const store = storage();
+  if (!store || typeof res.clone !== "function") return;
+  try {
+    const copy = res.clone();
+    const cached: CachedResponse = {
+      body: await copy.text(),
+      contentType: copy.headers.get("Content-Type"),
+      totalCount: copy.headers.get("X-Total-Count"),
+      savedAt: Date.now(),
+    };
+    writeJson(`${CACHE_PREFIX}${url}`, cached);
+    pruneCache(store);
+  } catch {
+    // A body that cannot be read twice is simply not cached
+  }
+}
+
+// fetch for catalog reads: network first, the last good response when the network is gone
+export async function offlineAwareFetch(url: string, init?: RequestInit): Promise<Response> {
+  const method = (init?.method ?? "GET").toUpperCase();
+  if (method !== "GET" || !isOfflineCacheable(url)) {
+    return fetch(url, init);
+  }
+  try {
+    const res = await fetch(url, init);
+    if (res.ok) await rememberResponse(url, res);
+    return res;
+  } catch (error) {
+    const cached = readJson<CachedResponse>(`${CACHE_PREFIX}${url}`);
+    if (!cached) throw error;
+    const headers: Record<string, string> = { "X-Offline-Cache": String(cached.savedAt) };
+    if (cached.contentType) headers["Content-Type"] = cached.contentType;
+    if (cached.totalCount) headers["X-Total-Count"] = cached.totalCount;
+    return new Response(cached.body, { status: 200, headers });
+  }
+}
+
+// fetch rejects with a TypeError when the request never reached a server
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+export function getDeviceId(): string {
+  const existing = storage()?.getItem(DEVICE_KEY);
+  if (existing) return existing;
+  const id = crypto.randomUUID();
+  storage()?.setItem(DEVICE_KEY, id);
+  return id;
+}
+
+export interface StoredReservation {
+  id: string;
+  branchCode: string;
+  startNumber: number;
+  endNumber: number;
+  next: number;
+}
+
+export function remainingReservedNumbers(branchCode: string): number {
+  const reservation = readJson<StoredReservation>(`${RESERVATION_KEY}${branchCode}`);
+  return reservation ? Math.max(reservation.endNumber - reservation.next + 1, 0) : 0;
+}
+
+export function saveReservation(reservation: Omit<StoredReservation, "next">) {
+  writeJson(`${RESERVATION_KEY}${reservation.branchCode}`, { ...reservation, next: reservation.startNumber });
+}
+
+// The next reserved number, or a placeholder the server replaces when the range has run out
+function allocateOrderNumber(branchCode: string): { orderNumber: string; reservationId?: string } {
+  const key = `${RESERVATION_KEY}${branchCode}`;
+  const reservation = readJson<StoredReservation>(key);
+  if (reservation && reservation.next <= reservation.endNumber) {
+    writeJson(key, { ...reservation, next: reservation.next + 1 });
+    return { orderNumber: formatOrderNumber(branchCode, reservation.next), reservationId: reservation.id };
+  }
+  return { orderNumber: `OFF-${Date.now().toString(36).toUpperCase()}` };
+}
+
+export type QueuedOrderStatus = "pending" | "failed" | "synced";
+
+// POST /api/orders body as the POS builds it; the server prices it again when it syncs
+export interface OfflineCheckoutOrder {
+  branchCode: string;
+  customerName: string;
+  cartItems: unknown[];
+  [field: string]: unknown;
+}
+
+// Receipt handed to the customer while offline; it stays on the device
+export interface OfflineCheckoutReceipt {
+  items: unknown[];
+  subtotal: string;
+  tax: string;
+  total: string;
+  paymentMethod: string;
+  sellerName?: string;
+  customerId?: string;
+}
+
+// createdAt travels as the ISO string stored with the queued order
+export type OfflineSyncBody = OfflineCheckoutOrder & {
+  offline: Omit<OfflineOrderInput, "createdAt"> & { createdAt: string };
+};
+
+export interface QueuedOfflineOrder {
+  id: string;
+  createdAt: string;
+  branchCode: string;
+  orderNumber: string;
+  reservationId?: string;
+  packageCredits: number;
+  order: OfflineCheckoutOrder;
+  transaction?: OfflineCheckoutReceipt;
+  status: QueuedOrderStatus;
+  error?: string;
+  serverOrderId?: string;
+  serverOrderNumber?: string;
+  conflicts?: OfflineConflict[];
+}
+
+export function getQueuedOrders(): QueuedOfflineOrder[] {
+  return readJson<QueuedOfflineOrder[]>(QUEUE_KEY) ?? [];
+}
+
+function saveQueue(queue: QueuedOfflineOrder[]) {
+  writeJson(QUEUE_KEY, queue);
+}
+
+export function queueOfflineOrder(input: {
+  branchCode: string;
+  order: OfflineCheckoutOrder;
+  transaction?: OfflineCheckoutReceipt;
+  packageCredits: number;
+}): QueuedOfflineOrder {
+  const queued: QueuedOfflineOrder = {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...allocateOrderNumber(input.branchCode),
+    ...input,
+    status: "pending",
+  };
+  saveQueue([...getQueuedOrders(), queued]);
+  return queued;
+}
+
+// Removes a synced order after review, or gives up on one the server keeps rejecting
+export function removeQueuedOrder(id: string) {
+  saveQueue(getQueuedOrders().filter((entry) => entry.id !== id));
+}
+
+export interface OfflineSyncResult {
+  synced: QueuedOfflineOrder[];
+  failed: QueuedOfflineOrder[];
+  // Still offline; the remaining orders wait for the next attempt
+  interrupted: boolean;
+}
+
+// Each order is sent with its offline id as the Idempotency-Key, so a sync cut off mid-request can be retried
+export async function syncQueuedOrders(
+  send: (body: OfflineSyncBody, options: { idempotencyKey: string }) => Promise<Response>,
+): Promise<OfflineSyncResult> {
+  const result: OfflineSyncResult = { synced: [], failed: [], interrupted: false };
+  const waiting = getQueuedOrders().filter((entry) => entry.status !== "synced");
+  for (const entry of waiting) {
+    let updated: QueuedOfflineOrder;
+    try {
+      const res = await send({
+        ...entry.order,
+        offline: {
+          id: entry.id,
+          createdAt: entry.createdAt,
+          reservationId: entry.reservationId,
+          orderNumber: entry.orderNumber,
+          packageCredits: entry.packageCredits,
+        },
+      }, { idempotencyKey: entry.id });
+      const order = await res.json();
+      updated = {
+        ...entry,
+        status: "synced",
+        error: undefined,
+        serverOrderId: order.id,
+        serverOrderNumber: order.orderNumber,
+        conflicts: order.offlineConflicts ?? [],
+      };
+      result.synced.push(updated);
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.interrupted = true;
+        break;
+      }
+      updated = { ...entry, status: "failed", error: (error as Error)?.message || String(error) };
+      result.failed.push(updated);
+    }
+    // Orders synced cleanly leave the queue; ones with conflicts stay until someone reviews them
+    const keep = updated.status !== "synced" || (updated.conflicts?.length ?? 0) > 0;
+    saveQueue(
+      getQueuedOrders().flatMap((item) => (item.id !== entry.id ? [item] : keep ? [updated] : [])),
+    );
+  }
+  return result;
+}
@@ -1,6 +1,7 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { z } from "zod";
 import { toast } from "@/hooks/use-toast";
+import { offlineAwareFetch } from "@/lib/offline-pos";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -13,12 +14,15 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  extraHeaders?: Record<string, string>,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await offlineAwareFetch(url, {
     method,
-    headers: data
-      ? { "Content-Type": "application/json", "Accept": "application/json" }
-      : { "Accept": "application/json" },
+    headers: {
+      ...(data ? { "Content-Type": "application/json" } : {}),
+      "Accept": "application/json",
+      ...extraHeaders,
+    },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -36,12 +40,22 @@ const orderPayloadSchema = z
   })
   .passthrough();
 
-export async function postOrder(data: any): Promise<Response> {
+// A new key per checkout; resending the same key after a timeout returns the order already created
+export function newIdempotencyKey(): string {
+  return crypto.randomUUID();
+}
+
+export async function postOrder(data: any, options: { idempotencyKey?: string } = {}): Promise<Response> {
   const parsed = orderPayloadSchema.safeParse(data);
   if (!parsed.success) {
     throw new Error(parsed.error.issues[0]?.message || "Invalid order data");
   }
-  return apiRequest("POST", "/api/orders", parsed.data);
+  return apiRequest(
+    "POST",
+    "/api/orders",
+    parsed.data,
+    options.idempotencyKey ? { "Idempotency-Key": options.idempotencyKey } : undefined,
+  );
 }
 
 type UnauthorizedBehavior = "returnNull" | "throw";
@@ -50,7 +64,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await offlineAwareFetch(queryKey.join("/") as string, {
       credentials: "include",
     });
 
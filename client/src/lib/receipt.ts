@@ -1,3 +1,5 @@
+import type { TaxBreakdown } from "@shared/tax";
+
 export interface BranchInfo {
   name?: string;
   nameAr?: string | null;
@@ -12,15 +14,28 @@ export interface UserInfo {
   username?: string;
 }
 
+// Orders carry the server-computed tax breakdown; prefer it over any client-side recalculation
 export const buildReceiptData = (
   order: any,
   branch?: BranchInfo | null,
   user?: UserInfo | null,
-) => ({
-  ...order,
-  branchName: branch?.name,
-  branchAddress: branch?.address,
-  branchPhone: branch?.phone,
-  branchTagline: branch?.tagline,
-  sellerName: user?.username,
-});
+) => {
+  const taxBreakdown: TaxBreakdown | null = order?.taxBreakdown ?? null;
+  return {
+    ...order,
+    ...(taxBreakdown
+      ? {
+          subtotal: taxBreakdown.subtotal,
+          tax: taxBreakdown.tax,
+          total: taxBreakdown.total,
+          discount: taxBreakdown.discount,
+        }
+      : {}),
+    taxBreakdown,
+    branchName: branch?.name,
+    branchAddress: branch?.address,
+    branchPhone: branch?.phone,
+    branchTagline: branch?.tagline,
+    sellerName: user?.username,
+  };
+};
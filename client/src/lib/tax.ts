@@ -1,9 +1,22 @@
+import type { TaxProfileConfig } from "@shared/tax";
+
+// The server owns tax configuration per branch; the POS keeps the active profile here so cart
+// previews match what POST /api/orders will compute.
+let activeTaxProfile: TaxProfileConfig | null = null;
+
+export function setActiveTaxProfile(profile: TaxProfileConfig | null): void {
+  activeTaxProfile = profile;
+}
+
+export function getActiveTaxProfile(): TaxProfileConfig | null {
+  return activeTaxProfile;
+}
+
 export function getTaxRate(): number {
-  // Default to 0% tax unless explicitly configured in settings
-  if (typeof window === "undefined") {
+  // Base rate of the branch profile; 0% until a profile has been loaded
+  if (!activeTaxProfile) {
     return 0;
   }
-  const stored = localStorage.getItem("taxRate");
-  const parsed = stored != null ? parseFloat(stored) : 0;
+  const parsed = parseFloat(String(activeTaxProfile.rate));
   return (isNaN(parsed) ? 0 : parsed) / 100;
 }
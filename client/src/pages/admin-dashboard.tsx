@@ -18,6 +18,9 @@ import {
   DollarSign,
   Store,
   TicketPercent,
+  ShieldCheck,
+  History,
+  ClipboardCheck,
 } from "lucide-react";
 import { Link } from "wouter";
 import logoUrl from "@/assets/logo.png";
@@ -36,6 +39,15 @@ const BranchManager = React.lazy(() =>
 const BranchSettings = React.lazy(() =>
   import(/* webpackPrefetch: true */ "@/components/admin/BranchSettings").then((m) => ({ default: m.BranchSettings }))
 );
+const BranchCapacitySettings = React.lazy(() =>
+  import(/* webpackPrefetch: true */ "@/components/admin/BranchCapacitySettings").then((m) => ({ default: m.BranchCapacitySettings }))
+);
+const LoyaltyProgramSettings = React.lazy(() =>
+  import(/* webpackPrefetch: true */ "@/components/admin/LoyaltyProgramSettings").then((m) => ({ default: m.LoyaltyProgramSettings }))
+);
+const BranchHoursSettings = React.lazy(() =>
+  import(/* webpackPrefetch: true */ "@/components/admin/BranchHoursSettings").then((m) => ({ default: m.BranchHoursSettings }))
+);
 const BulkUploadManager = React.lazy(() =>
   import(/* webpackPrefetch: true */ "@/components/admin/BulkUploadManager").then((m) => ({ default: m.BulkUploadManager }))
 );
@@ -60,6 +72,15 @@ const BranchDeliveryManager = React.lazy(() =>
 const CustomerDashboardManager = React.lazy(() =>
   import(/* webpackPrefetch: true */ "@/components/admin/CustomerDashboardManager").then((m) => ({ default: m.CustomerDashboardManager }))
 );
+const RolesManager = React.lazy(() =>
+  import(/* webpackPrefetch: true */ "@/components/admin/RolesManager").then((m) => ({ default: m.RolesManager }))
+);
+const AuditLogExplorer = React.lazy(() =>
+  import(/* webpackPrefetch: true */ "@/components/admin/AuditLogExplorer").then((m) => ({ default: m.AuditLogExplorer }))
+);
+const DataQualityConsole = React.lazy(() =>
+  import(/* webpackPrefetch: true */ "@/components/admin/DataQualityConsole").then((m) => ({ default: m.DataQualityConsole }))
+);
 const BranchQRCodeManager = React.lazy(() =>
   import(/* webpackPrefetch: true */ "@/components/admin/BranchQRCodeManager").then((m) => ({ default: m.BranchQRCodeManager }))
 );
@@ -378,6 +399,27 @@ const sectionMetadata: Record<
       "Invite staff, adjust permissions, and enforce security best practices like 2FA enrollment.",
     icon: <Users className="size-5" aria-hidden="true" />,
   },
+  roles: {
+    title: "Roles & Permissions",
+    description: "Define custom roles and what each one may do.",
+    overview:
+      "Pick permissions from the catalog for built-in or custom roles, such as a cashier who rings sales without price or report access.",
+    icon: <ShieldCheck className="size-5" aria-hidden="true" />,
+  },
+  "audit-log": {
+    title: "Audit Log",
+    description: "Trace price, coupon, user, and cash changes back to who made them.",
+    overview:
+      "Filter events by entity, actor, type, or date, compare before and after values, and export the results for reviews.",
+    icon: <History className="size-5" aria-hidden="true" />,
+  },
+  "data-quality": {
+    title: "Data Quality",
+    description: "Catch broken references, overpayments, and balance drift before they reach reports.",
+    overview:
+      "Review exceptions grouped by check, run the checks on demand, and close each one with a note explaining the fix.",
+    icon: <ClipboardCheck className="size-5" aria-hidden="true" />,
+  },
   "bulk-upload": {
     title: "Bulk Upload",
     description: "Streamline large imports with validation helpers.",
@@ -392,7 +434,14 @@ function renderSectionContent(sectionId: string) {
     case "categories":
       return <CategoryManager />;
     case "branch-settings":
-      return <BranchSettings />;
+      return (
+        <>
+          <BranchSettings />
+          <BranchHoursSettings />
+          <BranchCapacitySettings />
+          <LoyaltyProgramSettings />
+        </>
+      );
     case "qr-management":
       return <BranchQRCodeManager />;
     case "delivery-management":
@@ -416,6 +465,12 @@ function renderSectionContent(sectionId: string) {
           <UserManager />
         </>
       );
+    case "roles":
+      return <RolesManager />;
+    case "audit-log":
+      return <AuditLogExplorer />;
+    case "data-quality":
+      return <DataQualityConsole />;
     case "bulk-upload":
       return <BulkUploadManager />;
     default:
@@ -424,7 +479,10 @@ function renderSectionContent(sectionId: string) {
 }
 
 export default function AdminDashboard() {
-  const { user, branch, isSuperAdmin, isAdmin } = useAuthContext();
+  const { user, branch, isSuperAdmin, isAdmin, hasPermission } = useAuthContext();
+  const canManageRoles = hasPermission("roles.manage");
+  const canReadAudit = hasPermission("audit.read");
+  const canManageDataQuality = hasPermission("data_quality.manage");
   const isAdminLike = isAdmin || isSuperAdmin;
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -466,10 +524,19 @@ export default function AdminDashboard() {
       if (isSuperAdmin) {
         sections.push({ value: "branches", label: "Branches" }, { value: "users", label: "Users" });
       }
+      if (canManageRoles) {
+        sections.push({ value: "roles", label: "Roles" });
+      }
+      if (canReadAudit) {
+        sections.push({ value: "audit-log", label: "Audit Log" });
+      }
+      if (canManageDataQuality) {
+        sections.push({ value: "data-quality", label: "Data Quality" });
+      }
       sections.push({ value: "bulk-upload", label: "Bulk Upload" });
     }
     return sections;
-  }, [isAdminLike, isSuperAdmin]);
+  }, [isAdminLike, isSuperAdmin, canManageRoles, canReadAudit, canManageDataQuality]);
 
   useEffect(() => {
     registerGlossaryEntries([
@@ -26,7 +26,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 
 interface WorkflowNodeData {
   label: string;
-  kind: "trigger" | "action" | "condition";
+  kind: "trigger" | "action" | "condition" | "delay";
   type: string;
   config?: Record<string, unknown>;
 }
@@ -36,11 +36,26 @@ interface CatalogEntry {
   label: string;
   description: string | null;
   supportsSimulation?: boolean;
+  fields?: Array<{ name: string; type: string; optional: boolean }>;
 }
 
 interface WorkflowCatalogResponse {
   triggers: CatalogEntry[];
   actions: CatalogEntry[];
+  delays?: CatalogEntry[];
+  conditions?: CatalogEntry[];
+}
+
+interface EdgeCondition {
+  branch?: boolean;
+  expression?: string;
+}
+
+interface PausedExecution {
+  id: string;
+  triggerType: string;
+  startedAt: string;
+  resumeAt: string | null;
 }
 
 interface ValidationState {
@@ -52,6 +67,7 @@ interface SimulationResult {
   status: string;
   durationMs: number;
   context: Record<string, unknown>;
+  logs?: Array<{ eventType: string; message?: string | null }>;
 }
 
 function randomId(prefix: string) {
@@ -71,15 +87,23 @@ function serializeNodes(nodes: Node<WorkflowNodeData>[]) {
   }));
 }
 
-function serializeEdges(edges: Edge[]) {
+function serializeEdges(edges: Edge<EdgeCondition>[]) {
   return edges.map((edge) => ({
     sourceNodeId: edge.source,
     targetNodeId: edge.target,
     label: edge.label,
+    condition: edge.data ?? {},
   }));
 }
 
-function validateGraph(nodes: Node<WorkflowNodeData>[], edges: Edge[]): ValidationState {
+function describeEdgeCondition(condition: EdgeCondition): string | undefined {
+  const parts: string[] = [];
+  if (condition.branch !== undefined) parts.push(condition.branch ? "true" : "false");
+  if (condition.expression) parts.push(`if ${condition.expression}`);
+  return parts.length ? parts.join(" · ") : undefined;
+}
+
+function validateGraph(nodes: Node<WorkflowNodeData>[], edges: Edge<EdgeCondition>[]): ValidationState {
   if (!nodes.length) {
     return { status: "error", messages: ["Add at least one trigger node to begin"] };
   }
@@ -113,6 +137,8 @@ function WorkflowBuilderCanvas() {
   const [saving, setSaving] = useState(false);
   const [reactFlowInstance, setReactFlowInstance] = useState<ReactFlowInstance | null>(null);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  const [pausedExecutions, setPausedExecutions] = useState<PausedExecution[]>([]);
 
   const initialNodes: Node<WorkflowNodeData>[] = useMemo(
     () => [
@@ -132,7 +158,7 @@ function WorkflowBuilderCanvas() {
   );
 
   const [nodes, setNodes, onNodesChange] = useNodesState<WorkflowNodeData>(initialNodes);
-  const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  const [edges, setEdges, onEdgesChange] = useEdgesState<EdgeCondition>([]);
 
   useEffect(() => {
     let cancelled = false;
@@ -159,6 +185,44 @@ function WorkflowBuilderCanvas() {
     };
   }, []);
 
+  const loadPausedExecutions = useCallback(async () => {
+    if (!workflowId) {
+      setPausedExecutions([]);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/workflows/executions?status=paused&workflowId=${encodeURIComponent(workflowId)}`);
+      if (!res.ok) throw new Error(`Failed to load paused executions (${res.status})`);
+      const json = (await res.json()) as { executions: PausedExecution[] };
+      setPausedExecutions(json.executions);
+    } catch (error) {
+      setPausedExecutions([]);
+      setStatusMessage(error instanceof Error ? error.message : String(error));
+    }
+  }, [workflowId]);
+
+  useEffect(() => {
+    loadPausedExecutions();
+  }, [loadPausedExecutions]);
+
+  const cancelExecution = useCallback(
+    async (executionId: string) => {
+      try {
+        const response = await fetch(`/api/workflows/executions/${executionId}/cancel`, { method: "POST" });
+        if (!response.ok) {
+          const error = await response.json().catch(() => ({ message: response.statusText }));
+          throw new Error(error?.message ?? "Failed to cancel execution");
+        }
+        setStatusMessage("Execution cancelled");
+      } catch (error) {
+        setStatusMessage(error instanceof Error ? error.message : String(error));
+      } finally {
+        loadPausedExecutions();
+      }
+    },
+    [loadPausedExecutions],
+  );
+
   const onConnect = useCallback(
     (connection: Connection) =>
       setEdges((eds) =>
@@ -233,8 +297,30 @@ function WorkflowBuilderCanvas() {
 
   const handleSelectionChange = useCallback((params: OnSelectionChangeParams) => {
     setSelectedNodeId(params.nodes?.[0]?.id ?? null);
+    setSelectedEdgeId(params.edges?.[0]?.id ?? null);
   }, []);
 
+  const selectedEdge = useMemo(() => edges.find((edge) => edge.id === selectedEdgeId), [edges, selectedEdgeId]);
+  const selectedEdgeSource = useMemo(
+    () => (selectedEdge ? nodes.find((node) => node.id === selectedEdge.source) : undefined),
+    [nodes, selectedEdge],
+  );
+
+  const applyEdgeCondition = useCallback(
+    (edgeId: string, updates: EdgeCondition) => {
+      setEdges((existing) =>
+        existing.map((edge) => {
+          if (edge.id !== edgeId) return edge;
+          const condition: EdgeCondition = { ...edge.data, ...updates };
+          if (condition.branch === undefined) delete condition.branch;
+          if (!condition.expression) delete condition.expression;
+          return { ...edge, data: condition, label: describeEdgeCondition(condition) };
+        }),
+      );
+    },
+    [setEdges],
+  );
+
   const handleValidate = useCallback(() => {
     setValidation(validateGraph(nodes, edges));
   }, [nodes, edges]);
@@ -342,6 +428,11 @@ function WorkflowBuilderCanvas() {
                         {trigger.description ? (
                           <p className="text-xs text-muted-foreground">{trigger.description}</p>
                         ) : null}
+                        {trigger.fields?.length ? (
+                          <p className="mt-1 font-mono text-[11px] text-muted-foreground">
+                            {trigger.fields.map((field) => `${field.name}${field.optional ? "?" : ""}`).join(", ")}
+                          </p>
+                        ) : null}
                       </div>
                     ))}
 
@@ -370,6 +461,54 @@ function WorkflowBuilderCanvas() {
                         ) : null}
                       </div>
                     ))}
+                    {catalog?.conditions?.length ? (
+                      <h3 className="mt-4 mb-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                        Logic
+                      </h3>
+                    ) : null}
+                    {catalog?.conditions?.map((condition) => (
+                      <div
+                        key={condition.type}
+                        draggable
+                        onDragStart={(event) => {
+                          event.dataTransfer.setData(
+                            "application/workflow-node",
+                            JSON.stringify({ ...condition, kind: "condition" as const }),
+                          );
+                          event.dataTransfer.effectAllowed = "move";
+                        }}
+                        className="mb-2 cursor-grab rounded border bg-background p-2 text-sm shadow-sm transition hover:bg-primary/5"
+                      >
+                        <div className="font-medium">{condition.label}</div>
+                        {condition.description ? (
+                          <p className="text-xs text-muted-foreground">{condition.description}</p>
+                        ) : null}
+                      </div>
+                    ))}
+                    {catalog?.delays?.length ? (
+                      <h3 className="mt-4 mb-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                        Timing
+                      </h3>
+                    ) : null}
+                    {catalog?.delays?.map((delay) => (
+                      <div
+                        key={delay.type}
+                        draggable
+                        onDragStart={(event) => {
+                          event.dataTransfer.setData(
+                            "application/workflow-node",
+                            JSON.stringify({ ...delay, kind: "delay" as const }),
+                          );
+                          event.dataTransfer.effectAllowed = "move";
+                        }}
+                        className="mb-2 cursor-grab rounded border bg-background p-2 text-sm shadow-sm transition hover:bg-primary/5"
+                      >
+                        <div className="font-medium">{delay.label}</div>
+                        {delay.description ? (
+                          <p className="text-xs text-muted-foreground">{delay.description}</p>
+                        ) : null}
+                      </div>
+                    ))}
                     {loadError ? (
                       <p className="text-xs text-destructive">{loadError}</p>
                     ) : null}
@@ -480,6 +619,16 @@ function WorkflowBuilderCanvas() {
                   <pre className="mt-2 max-h-32 overflow-auto rounded bg-background p-2 text-xs">
                     {JSON.stringify(simulationResult.context, null, 2)}
                   </pre>
+                  {simulationResult.logs?.length ? (
+                    <ol className="mt-2 max-h-40 list-decimal space-y-1 overflow-auto pl-4 text-xs">
+                      {simulationResult.logs.map((log, index) => (
+                        <li key={`${log.eventType}-${index}`}>
+                          <span className="font-mono">{log.eventType}</span>
+                          {log.message ? ` — ${log.message}` : null}
+                        </li>
+                      ))}
+                    </ol>
+                  ) : null}
                 </div>
               ) : null}
             </div>
@@ -500,6 +649,75 @@ function WorkflowBuilderCanvas() {
         </Card>
       </div>
 
+      {pausedExecutions.length ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Paused executions</CardTitle>
+            <CardDescription>Runs waiting on a delay node. They resume automatically at the listed time.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {pausedExecutions.map((execution) => (
+              <div key={execution.id} className="flex items-center justify-between gap-4 rounded border p-3 text-sm">
+                <div>
+                  <div className="font-medium">{execution.triggerType}</div>
+                  <p className="text-xs text-muted-foreground">
+                    Started {new Date(execution.startedAt).toLocaleString()}
+                    {execution.resumeAt ? ` · resumes ${new Date(execution.resumeAt).toLocaleString()}` : null}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => cancelExecution(execution.id)}>
+                  Cancel
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {selectedEdge ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Selected connection</CardTitle>
+            <CardDescription>
+              Choose which branch of a condition this connection follows, or guard it with its own expression.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium" htmlFor={`selected-edge-${selectedEdge.id}-branch`}>
+                Branch
+              </label>
+              <select
+                id={`selected-edge-${selectedEdge.id}-branch`}
+                className="w-full rounded border bg-background p-2 text-sm"
+                disabled={selectedEdgeSource?.data.kind !== "condition"}
+                value={selectedEdge.data?.branch === undefined ? "always" : String(selectedEdge.data.branch)}
+                onChange={(event) =>
+                  applyEdgeCondition(selectedEdge.id, {
+                    branch: event.target.value === "always" ? undefined : event.target.value === "true",
+                  })
+                }
+              >
+                <option value="always">Always</option>
+                <option value="true">When condition is true</option>
+                <option value="false">When condition is false</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium" htmlFor={`selected-edge-${selectedEdge.id}-expression`}>
+                Only follow if
+              </label>
+              <Input
+                id={`selected-edge-${selectedEdge.id}-expression`}
+                value={selectedEdge.data?.expression ?? ""}
+                placeholder='e.g. total >= 20 && segment == "vip"'
+                onChange={(event) => applyEdgeCondition(selectedEdge.id, { expression: event.target.value })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+
       {selectedNode ? (
         <Card>
           <CardHeader>
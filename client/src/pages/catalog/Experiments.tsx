@@ -8,13 +8,16 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useAuthContext } from "@/context/AuthContext";
-import { AlertTriangle, FlaskConical, RefreshCw, Rocket } from "lucide-react";
+import { AlertTriangle, FlaskConical, RefreshCw, Rocket, Undo2 } from "lucide-react";
+import type { LaundryService } from "@shared/schema";
 
 interface CatalogExperimentChange {
   id: string;
   serviceId: string;
+  clothingItemId: string | null;
   serviceName: string;
   baselinePrice: number;
   proposedPrice: number;
@@ -31,18 +34,34 @@ interface CatalogExperimentForecast {
   assumptions: { demandShift: number; seasonality: number };
 }
 
+interface CatalogExperimentOutcome {
+  windowStart: string;
+  windowEnd: string;
+  elapsedDays: number;
+  orderCount: number;
+  realizedRevenue: number;
+  realizedVolume: number;
+  forecastRevenue: number;
+  forecastVolume: number;
+  revenueVariance: number;
+  volumeVariance: number;
+}
+
 interface CatalogExperiment {
   id: string;
   branchId: string;
   name: string;
   hypothesis: string;
-  status: "draft" | "forecasted" | "published" | "archived";
+  status: "draft" | "forecasted" | "published" | "rolled_back" | "archived";
+  testWindowDays: number;
   createdAt: string;
   updatedAt: string;
   changes: CatalogExperimentChange[];
   forecast?: CatalogExperimentForecast;
-  approvals: Array<{ actor: string; role: string; at: string }>;
+  outcome?: CatalogExperimentOutcome;
+  approvals: Array<{ actor: string; role: string; action: string; at: string; notes?: string }>;
   publishedAt?: string;
+  rolledBackAt?: string;
   notes?: string;
 }
 
@@ -54,6 +73,7 @@ interface CreateExperimentForm {
   baselinePrice: string;
   proposedPrice: string;
   expectedVolume: string;
+  testWindowDays: string;
 }
 
 export default function CatalogExperimentsPage() {
@@ -68,6 +88,11 @@ export default function CatalogExperimentsPage() {
     baselinePrice: "",
     proposedPrice: "",
     expectedVolume: "100",
+    testWindowDays: "14",
+  });
+
+  const { data: services = [] } = useQuery<LaundryService[]>({
+    queryKey: ["/api/laundry-services"],
   });
 
   const { data, isLoading, isError, refetch } = useQuery<CatalogExperiment[]>({
@@ -84,13 +109,14 @@ export default function CatalogExperimentsPage() {
   const createExperiment = useMutation({
     mutationFn: async () => {
       const payload = {
-        branchId: branchId || form.serviceId || "global",
+        branchId,
         name: form.name,
         hypothesis: form.hypothesis,
+        testWindowDays: Number.parseInt(form.testWindowDays || "14", 10),
         changes: [
           {
-            serviceId: form.serviceId || crypto.randomUUID(),
-            serviceName: form.serviceName || "Unnamed service",
+            serviceId: form.serviceId,
+            serviceName: form.serviceName,
             baselinePrice: Number.parseFloat(form.baselinePrice || "0"),
             proposedPrice: Number.parseFloat(form.proposedPrice || "0"),
             expectedVolume: Number.parseFloat(form.expectedVolume || "100"),
@@ -118,6 +144,7 @@ export default function CatalogExperimentsPage() {
         baselinePrice: "",
         proposedPrice: "",
         expectedVolume: "100",
+        testWindowDays: "14",
       });
     },
   });
@@ -165,6 +192,51 @@ export default function CatalogExperimentsPage() {
     },
   });
 
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/catalog/experiments/${id}/rollback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirm: true }),
+      });
+      if (!res.ok) {
+        const message = await res.json().catch(() => ({ message: "Rollback failed" }));
+        throw new Error(message.message || "Rollback failed");
+      }
+      return (await res.json()) as CatalogExperiment;
+    },
+    onSuccess: () => {
+      toast({ title: "Experiment rolled back", description: "Baseline prices have been restored." });
+      void refetch();
+    },
+    onError: (error) => {
+      toast({ title: "Rollback failed", description: (error as Error).message, variant: "destructive" });
+    },
+  });
+
+  const outcomeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/catalog/experiments/${id}/outcome`);
+      if (!res.ok) {
+        throw new Error("Failed to measure outcome");
+      }
+      return (await res.json()) as CatalogExperimentOutcome;
+    },
+    onSuccess: () => {
+      void refetch();
+    },
+  });
+
+  const handleServiceChange = (serviceId: string) => {
+    const service = services.find((candidate) => candidate.id === serviceId);
+    setForm((prev) => ({
+      ...prev,
+      serviceId,
+      serviceName: service?.name ?? "",
+      baselinePrice: service ? String(Number.parseFloat(service.price)) : prev.baselinePrice,
+    }));
+  };
+
   const handleInputChange = (key: keyof CreateExperimentForm, value: string) => {
     setForm((prev) => ({ ...prev, [key]: value }));
   };
@@ -195,12 +267,18 @@ export default function CatalogExperimentsPage() {
             </div>
             <div className="grid gap-2">
               <Label htmlFor="service-name">Service</Label>
-              <Input
-                id="service-name"
-                value={form.serviceName}
-                onChange={(event) => handleInputChange("serviceName", event.target.value)}
-                placeholder="Wash & Fold"
-              />
+              <Select value={form.serviceId} onValueChange={handleServiceChange}>
+                <SelectTrigger id="service-name">
+                  <SelectValue placeholder="Select a service" />
+                </SelectTrigger>
+                <SelectContent>
+                  {services.map((service) => (
+                    <SelectItem key={service.id} value={service.id}>
+                      {service.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
           <div className="grid gap-2">
@@ -212,7 +290,7 @@ export default function CatalogExperimentsPage() {
               placeholder="If we introduce an express tier, loyal customers will pay a 10% premium"
             />
           </div>
-          <div className="grid gap-4 sm:grid-cols-3">
+          <div className="grid gap-4 sm:grid-cols-4">
             <div className="grid gap-2">
               <Label htmlFor="baseline-price">Baseline price (E£)</Label>
               <Input
@@ -240,12 +318,23 @@ export default function CatalogExperimentsPage() {
                 onChange={(event) => handleInputChange("expectedVolume", event.target.value)}
               />
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="test-window">Test window (days)</Label>
+              <Input
+                id="test-window"
+                type="number"
+                min={1}
+                max={90}
+                value={form.testWindowDays}
+                onChange={(event) => handleInputChange("testWindowDays", event.target.value)}
+              />
+            </div>
           </div>
           <div className="flex justify-end">
             <Button
               type="button"
               onClick={() => createExperiment.mutateAsync()}
-              disabled={createExperiment.isPending || !form.name.trim()}
+              disabled={createExperiment.isPending || !form.name.trim() || !form.serviceId || !branchId}
             >
               Draft experiment
             </Button>
@@ -289,6 +378,7 @@ export default function CatalogExperimentsPage() {
                     <TableHead>Status</TableHead>
                     <TableHead>Forecast</TableHead>
                     <TableHead>Confidence</TableHead>
+                    <TableHead>Outcome</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -327,12 +417,29 @@ export default function CatalogExperimentsPage() {
                           "—"
                         )}
                       </TableCell>
+                      <TableCell>
+                        {experiment.outcome ? (
+                          <div className="text-xs text-muted-foreground">
+                            <div>
+                              Revenue {experiment.outcome.realizedRevenue.toFixed(2)} / {experiment.outcome.forecastRevenue.toFixed(2)} E£
+                            </div>
+                            <div>
+                              Volume {experiment.outcome.realizedVolume} / {experiment.outcome.forecastVolume} over {experiment.outcome.elapsedDays.toFixed(1)} days
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Not measured</span>
+                        )}
+                      </TableCell>
                       <TableCell className="flex justify-end gap-2">
                         <Button
                           size="sm"
                           variant="outline"
                           onClick={() => forecastMutation.mutateAsync(experiment.id)}
-                          disabled={forecastMutation.isPending}
+                          disabled={
+                            forecastMutation.isPending ||
+                            (experiment.status !== "draft" && experiment.status !== "forecasted")
+                          }
                         >
                           Forecast
                         </Button>
@@ -343,6 +450,26 @@ export default function CatalogExperimentsPage() {
                         >
                           Publish
                         </Button>
+                        {(experiment.status === "published" || experiment.status === "rolled_back") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => outcomeMutation.mutateAsync(experiment.id)}
+                            disabled={outcomeMutation.isPending}
+                          >
+                            Measure
+                          </Button>
+                        )}
+                        {experiment.status === "published" && (
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => rollbackMutation.mutateAsync(experiment.id)}
+                            disabled={rollbackMutation.isPending}
+                          >
+                            <Undo2 className="mr-1 h-4 w-4" /> Rollback
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -353,7 +480,7 @@ export default function CatalogExperimentsPage() {
         </CardContent>
       </Card>
 
-      {(forecastMutation.isError || publishMutation.isError) && (
+      {(forecastMutation.isError || publishMutation.isError || outcomeMutation.isError) && (
         <Alert variant="destructive">
           <AlertTriangle className="h-4 w-4" />
           <AlertTitle>Action failed</AlertTitle>
@@ -363,7 +490,8 @@ export default function CatalogExperimentsPage() {
 
       <Separator />
       <div className="text-xs text-muted-foreground">
-        Experiments update the catalog only after publishing. Use forecasts and approvals to validate pricing guardrails.
+        Publishing writes the proposed prices to the branch catalog; rolling back restores the baseline prices. Outcomes compare
+        realized order revenue and volume against the forecast over the test window.
       </div>
     </div>
   );
@@ -2,6 +2,7 @@ import { useEffect, useRef, useState } from "react";
 import { CustomerAuthProvider, useCustomerAuth } from "@/context/CustomerAuthContext";
 import { EnhancedPackageDisplay } from "@/components/EnhancedPackageDisplay";
 import { CustomerOrders } from "@/components/customer-orders";
+import { CustomerSubscriptions } from "@/components/customer-subscriptions";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { AuthProvider, useAuthContext } from "@/context/AuthContext";
@@ -355,6 +356,12 @@ function DashboardContent() {
             summary: "Campaigns currently targeted to this customer.",
             content: adsContent,
           },
+          {
+            id: "packages-subscriptions",
+            title: "Subscriptions",
+            summary: "Next renewal, past cycles, and pause or cancel controls.",
+            content: <CustomerSubscriptions />,
+          },
           {
             id: "packages-catalog",
             title: "Package catalog",
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useLocation, useSearch } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { CustomerAuthProvider, useCustomerAuth } from "@/context/CustomerAuthContext";
@@ -11,12 +11,16 @@ import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "@/lib/i18n";
 import { LanguageSelector } from "@/components/language-selector";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, newIdempotencyKey } from "@/lib/queryClient";
 import { useCurrency } from "@/lib/currency";
 import { getCities } from "@/lib/cities";
+import { withExpressSurcharge, type ReadyDatePlan } from "@shared/capacity";
+import type { BranchOpenStatus } from "@shared/branch-hours";
+import type { DeliverySlotAvailability, DeliverySlotKind } from "@shared/delivery-slots";
 import {
   Bot,
   User,
@@ -118,6 +122,14 @@ interface ChatOption {
   icon?: string;
 }
 
+// Opening-hours fields added to the public branch lookup; null when the branch has not published hours
+type BranchHoursInfo = {
+  openNow?: boolean | null;
+  hoursToday?: BranchOpenStatus["today"];
+  hoursNote?: string | null;
+  nextOpening?: BranchOpenStatus["nextOpening"];
+};
+
 function CustomerOrderingContent() {
   const [location, setLocation] = useLocation();
   const searchParams = new URLSearchParams(useSearch());
@@ -147,7 +159,7 @@ function CustomerOrderingContent() {
   });
 
   // Fetch branch data
-  const { data: branch, isLoading: branchLoading } = useQuery<Branch>({
+  const { data: branch, isLoading: branchLoading } = useQuery<Branch & BranchHoursInfo>({
     queryKey: ["/api/branches", branchCode],
     queryFn: async () => {
       const response = await apiRequest("GET", `/api/branches/${branchCode}`);
@@ -214,6 +226,47 @@ function CustomerOrderingContent() {
     enabled: !!branch?.id && orderState.step === "payment_selection",
   });
 
+  const [express, setExpress] = useState(false);
+  const quoteLines = orderState.cart.map((item) => ({ serviceId: item.serviceId, quantity: item.quantity }));
+  const { data: readyQuote } = useQuery<{ configured: false } | ({ configured: true } & ReadyDatePlan)>({
+    queryKey: ["/api/branches", branchCode, "ready-date-quote", quoteLines],
+    queryFn: async () => {
+      const res = await apiRequest("POST", `/api/branches/${branchCode}/ready-date-quote`, { items: quoteLines });
+      return res.json();
+    },
+    enabled: !!branchCode && orderState.step === "order_summary" && quoteLines.length > 0,
+  });
+  const readyPlan = readyQuote?.configured ? readyQuote : null;
+  const expressChosen = express && !!readyPlan?.express;
+  const itemsSubtotal = orderState.cart.reduce((sum, item) => sum + item.totalPrice, 0);
+  // Mirrors the server: the surcharge applies to the items, not the delivery fee
+  const expressSurcharge = expressChosen
+    ? withExpressSurcharge([{ amount: itemsSubtotal }], readyPlan!.express!.surchargePercent).surcharge
+    : 0;
+  const estimatedReadyDate = expressChosen ? readyPlan!.express!.date : readyPlan?.standardDate ?? null;
+
+  // Branches with slot templates ask for a pickup and drop-off window; the rest keep free scheduling
+  const slotCityId = orderState.selectedAddress?.cityId ?? null;
+  const { data: slotOffer } = useQuery<{ kinds: DeliverySlotKind[]; slots: DeliverySlotAvailability[] }>({
+    queryKey: ["/api/branches", branchCode, "delivery-slots", slotCityId],
+    queryFn: async () => {
+      const query = slotCityId ? `?cityId=${slotCityId}` : "";
+      const res = await apiRequest("GET", `/api/branches/${branchCode}/delivery-slots/availability${query}`);
+      return res.json();
+    },
+    enabled: !!branchCode && orderState.step === "order_summary" && !!orderState.selectedAddress,
+  });
+  const slotKinds = slotOffer?.kinds ?? [];
+  const [slotChoices, setSlotChoices] = useState<Partial<Record<DeliverySlotKind, DeliverySlotAvailability>>>({});
+  const slotsMissing = slotKinds.some((kind) => !slotChoices[kind]);
+
+  // Tiers with free delivery waive the fee; the server applies the same rule when the order is placed
+  const { data: loyalty } = useQuery<{ freeDelivery: boolean }>({
+    queryKey: ["/customer/loyalty"],
+    enabled: !!customerId,
+  });
+  const tierFreeDelivery = loyalty?.freeDelivery === true;
+
   // Calculate total when cart or delivery fee changes
   useEffect(() => {
     const subtotal = orderState.cart.reduce((sum, item) => sum + item.totalPrice, 0);
@@ -228,10 +281,10 @@ function CustomerOrderingContent() {
       const freeThreshold = parseFloat(deliverySettings.freeDeliveryThreshold || "0");
       const deliveryFee = parseFloat(deliverySettings.deliveryFee || "0");
       
-      const newDeliveryFee = subtotal >= freeThreshold ? 0 : deliveryFee;
+      const newDeliveryFee = tierFreeDelivery || subtotal >= freeThreshold ? 0 : deliveryFee;
       setOrderState(prev => ({ ...prev, deliveryFee: newDeliveryFee }));
     }
-  }, [orderState.cart, deliverySettings]);
+  }, [orderState.cart, deliverySettings, tierFreeDelivery]);
 
   // Initialize chat with welcome message
   useEffect(() => {
@@ -459,6 +512,9 @@ function CustomerOrderingContent() {
     }
   });
 
+  // Kept until the order goes through, so retrying after a dropped connection does not place it twice
+  const orderKey = useRef<string | null>(null);
+
   // Place order mutation
   const placeOrderMutation = useMutation({
     mutationFn: async () => {
@@ -473,15 +529,21 @@ function CustomerOrderingContent() {
         deliveryAddressId: orderState.selectedAddress?.id,
         paymentMethod: orderState.paymentMethod,
         deliveryFee: orderState.deliveryFee,
-        total: orderState.total,
-        promisedReadyDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0], // Tomorrow
-        promisedReadyOption: "tomorrow"
+        total: orderState.total + expressSurcharge,
+        // The branch picks the earliest date it can keep; express asks for the sooner slot
+        express: expressChosen,
+        pickupSlot: slotChoices.pickup ? { slotId: slotChoices.pickup.slotId, date: slotChoices.pickup.date } : undefined,
+        deliverySlot: slotChoices.delivery
+          ? { slotId: slotChoices.delivery.slotId, date: slotChoices.delivery.date }
+          : undefined,
       };
 
+      orderKey.current ??= newIdempotencyKey();
       const response = await fetch("/api/delivery-orders", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": orderKey.current,
         },
         body: JSON.stringify(orderData),
         credentials: "include", // Include session cookies
@@ -494,12 +556,14 @@ function CustomerOrderingContent() {
           throw new Error("Please log in to continue");
         }
         const error = await response.json();
+        if (error.code !== "IDEMPOTENCY_REQUEST_IN_PROGRESS") orderKey.current = null;
         throw new Error(error.message || "Failed to place order");
       }
       
       return await response.json();
     },
     onSuccess: (order) => {
+      orderKey.current = null;
       setOrderState(prev => ({ ...prev, step: 'confirmation' }));
       addBotMessage((t.customerOrdering?.orderPlacedBot || '🎉 Fantastic! Your order #{orderNumber} has been placed successfully! I\'ll send you updates as we process your laundry.').replace('{orderNumber}', order.orderNumber));
       
@@ -509,6 +573,8 @@ function CustomerOrderingContent() {
       });
     },
     onError: (error: any) => {
+      // The slot may have filled up meanwhile, so show fresh availability
+      queryClient.invalidateQueries({ queryKey: ["/api/branches", branchCode, "delivery-slots"] });
       toast({
         title: "Order failed",
         description: error.message || "Unable to place order. Please try again.",
@@ -562,6 +628,22 @@ function CustomerOrderingContent() {
               <div>
                 <h1 className="font-semibold text-sm">{branch.name}</h1>
                 <p className="text-xs text-muted-foreground">{t.customerOrdering?.assistantTitle || "Smart Laundry Assistant"}</p>
+                {typeof branch.openNow === "boolean" && (
+                  <Badge
+                    variant={branch.openNow ? "secondary" : "outline"}
+                    className="mt-1 text-[10px]"
+                    data-testid="badge-open-now"
+                  >
+                    {branch.openNow
+                      ? (t.customerOrdering?.openNowUntil || "Open now · until {time}").replace("{time}", branch.hoursToday?.closesAt ?? "")
+                      : branch.nextOpening
+                        ? (t.customerOrdering?.closedOpensAt || "Closed · opens {date} {time}")
+                            .replace("{date}", new Date(`${branch.nextOpening.date}T00:00:00`).toLocaleDateString())
+                            .replace("{time}", branch.nextOpening.opensAt)
+                        : t.customerOrdering?.closedNow || "Closed"}
+                    {branch.hoursNote ? ` · ${branch.hoursNote}` : ""}
+                  </Badge>
+                )}
               </div>
             </div>
             <div className="flex items-center space-x-1">
@@ -1170,13 +1252,90 @@ function CustomerOrderingContent() {
                     </h4>
                     <p className="text-sm capitalize">{orderState.paymentMethod?.replace('_', ' ')}</p>
                   </div>
+
+                  {readyPlan && (
+                    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 space-y-2">
+                      <h4 className="font-medium text-sm">{t.customerOrdering?.estimatedReady || 'Estimated ready date'}</h4>
+                      <p className="text-sm" data-testid="text-estimated-ready">
+                        {estimatedReadyDate
+                          ? new Date(`${estimatedReadyDate}T00:00:00`).toLocaleDateString()
+                          : t.customerOrdering?.noReadyDate || 'We will confirm the ready date after pickup'}
+                      </p>
+                      {readyPlan.express && (
+                        <div className="flex items-center justify-between gap-2">
+                          <label htmlFor="express-service" className="text-sm">
+                            {(t.customerOrdering?.expressOption || 'Express by {date} (+{percent}%)')
+                              .replace('{date}', new Date(`${readyPlan.express.date}T00:00:00`).toLocaleDateString())
+                              .replace('{percent}', String(readyPlan.express.surchargePercent))}
+                          </label>
+                          <Switch
+                            id="express-service"
+                            checked={express}
+                            onCheckedChange={setExpress}
+                            data-testid="switch-express"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
                   
+                  {slotKinds.length > 0 && (
+                    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 space-y-2">
+                      <h4 className="font-medium text-sm">{t.customerOrdering?.chooseSlots || 'Pickup & delivery times'}</h4>
+                      {slotKinds.map((kind) => {
+                        const options = (slotOffer?.slots ?? []).filter((slot) => slot.kind === kind && slot.remaining > 0);
+                        const chosen = slotChoices[kind];
+                        return (
+                          <div key={kind} className="space-y-1">
+                            <label className="text-sm text-muted-foreground">
+                              {kind === "pickup"
+                                ? t.customerOrdering?.pickupSlot || 'Pickup window'
+                                : t.customerOrdering?.deliverySlot || 'Delivery window'}
+                            </label>
+                            {options.length === 0 ? (
+                              <p className="text-sm text-destructive">
+                                {t.customerOrdering?.noSlotsAvailable || 'No windows left, please try again later'}
+                              </p>
+                            ) : (
+                              <Select
+                                value={chosen ? `${chosen.slotId}|${chosen.date}` : undefined}
+                                onValueChange={(value) =>
+                                  setSlotChoices((prev) => ({
+                                    ...prev,
+                                    [kind]: options.find((slot) => `${slot.slotId}|${slot.date}` === value),
+                                  }))
+                                }
+                              >
+                                <SelectTrigger data-testid={`select-${kind}-slot`}>
+                                  <SelectValue placeholder={t.customerOrdering?.selectSlot || 'Select a window'} />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {options.map((slot) => (
+                                    <SelectItem key={`${slot.slotId}|${slot.date}`} value={`${slot.slotId}|${slot.date}`}>
+                                      {new Date(`${slot.date}T00:00:00`).toLocaleDateString()} {slot.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
                   <div className="bg-blue-50 dark:bg-blue-950/20 rounded-lg p-3">
                     <div className="space-y-1">
                       <div className="flex justify-between text-sm">
                         <span>{t.customerOrdering?.subtotal || 'Subtotal:'}</span>
                         <span>{formatCurrency(orderState.cart.reduce((sum, item) => sum + item.totalPrice, 0))}</span>
                       </div>
+                      {expressSurcharge > 0 && (
+                        <div className="flex justify-between text-sm">
+                          <span>{t.customerOrdering?.expressSurcharge || 'Express:'}</span>
+                          <span>{formatCurrency(expressSurcharge)}</span>
+                        </div>
+                      )}
                       {orderState.deliveryFee > 0 && (
                         <div className="flex justify-between text-sm">
                           <span>{t.customerOrdering?.deliveryFee || 'Delivery fee:'}</span>
@@ -1186,7 +1345,7 @@ function CustomerOrderingContent() {
                       <Separator />
                       <div className="flex justify-between font-bold text-lg">
                         <span>{t.customerOrdering?.total || 'Total:'}</span>
-                        <span className="text-blue-600">{formatCurrency(orderState.total)}</span>
+                        <span className="text-blue-600">{formatCurrency(orderState.total + expressSurcharge)}</span>
                       </div>
                     </div>
                   </div>
@@ -1204,7 +1363,7 @@ function CustomerOrderingContent() {
                   </Button>
                   <Button 
                     onClick={() => placeOrderMutation.mutate()}
-                    disabled={placeOrderMutation.isPending}
+                    disabled={placeOrderMutation.isPending || slotsMissing}
                     className="flex-1"
                     data-testid="button-confirm-order"
                   >
@@ -22,6 +22,7 @@ const responseFixture: CommandCenterResponse = {
   },
   financial: {
     balanceDue: 120.5,
+    walletBalance: 30,
     totalSpend: 2500,
     loyaltyPoints: 42,
     packageCredits: 5,
@@ -49,6 +50,18 @@ const responseFixture: CommandCenterResponse = {
       totalCredits: 10,
     },
   ],
+  subscriptions: [],
+  walletStatement: [
+    {
+      id: "wallet-1",
+      type: "top_up",
+      amount: 30,
+      balanceAfter: 30,
+      orderId: null,
+      notes: null,
+      createdAt: "2024-03-04T09:00:00.000Z",
+    },
+  ],
   outreachTimeline: [
     {
       id: "evt-1",
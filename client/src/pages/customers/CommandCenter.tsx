@@ -7,6 +7,7 @@ import { CommandCenterDossier } from "@/components/customers/CommandCenterDossie
 import { CommandCenterActions } from "@/components/customers/CommandCenterActions";
 import { CommandCenterTimeline } from "@/components/customers/CommandCenterTimeline";
 import { CommandCenterPackages } from "@/components/customers/CommandCenterPackages";
+import { CommandCenterWallet } from "@/components/customers/CommandCenterWallet";
 import type { CommandCenterOrder, CommandCenterResponse } from "@/components/customers/types";
 
 interface CommandCenterPageProps {
@@ -95,9 +96,10 @@ export default function CommandCenterPage({ params }: CommandCenterPageProps) {
         />
       </div>
       <div className="grid gap-4 lg:grid-cols-2">
-        <CommandCenterPackages packages={data.packages} />
+        <CommandCenterPackages packages={data.packages} subscriptions={data.subscriptions} />
         <CommandCenterTimeline title="Audit trail" events={data.auditTrail} dataCy="audit-trail" />
       </div>
+      <CommandCenterWallet balance={data.financial.walletBalance} entries={data.walletStatement} />
     </div>
   );
 }
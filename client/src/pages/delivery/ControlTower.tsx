@@ -6,6 +6,7 @@ import 'leaflet/dist/leaflet.css';
 import { formatDistanceToNow } from 'date-fns';
 
 import { Button } from '@/components/ui/button';
+import { DeliverySlotLoad } from '@/components/branch/DeliverySlotLoad';
 import { cn } from '@/lib/utils';
 
 const DEFAULT_CENTER: [number, number] = [25.276987, 55.296249];
@@ -230,6 +231,8 @@ export default function ControlTowerPage() {
         </div>
       </section>
 
+      <DeliverySlotLoad title="Slot load today" />
+
       <div className="grid flex-1 grid-cols-1 gap-6 xl:grid-cols-3">
         <div className="xl:col-span-2">
           <div className="h-[520px] overflow-hidden rounded-lg border bg-card shadow-sm">
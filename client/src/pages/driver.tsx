@@ -4,6 +4,7 @@ import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@
 import { useAuthContext } from "@/context/AuthContext";
 import { apiRequest } from "@/lib/queryClient";
 import { useTranslation } from "@/lib/i18n";
+import { DeliverySlotLoad } from "@/components/branch/DeliverySlotLoad";
 
 interface DeliveryOrder {
   id: string;
@@ -75,6 +76,7 @@ export default function DriverDashboard() {
   return (
     <div className="p-4">
       <h1 className="text-xl mb-4">{t.driverDashboard}</h1>
+      <DeliverySlotLoad className="mb-4" title={t.driverSlotLoad} />
       <Table>
         <TableHeader>
           <TableRow>
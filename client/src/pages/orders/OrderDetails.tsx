@@ -2,7 +2,7 @@ import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useCurrency } from "@/lib/currency";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -17,13 +17,14 @@ export default function OrderDetailsPage({ params }: { params: { id: string } })
   const [, setLocation] = useLocation();
   const [prints, setPrints] = useState<any[]>([]);
   const [payments, setPayments] = useState<any[]>([]);
-  const { user } = useAuthContext();
+  const { hasPermission } = useAuthContext();
   const [payAmount, setPayAmount] = useState<string>("");
   const [payMethod, setPayMethod] = useState<string>("cash");
   const [payNotes, setPayNotes] = useState<string>("");
   const [isPaymentOpen, setPaymentOpen] = useState(false);
   const [cancelOpen, setCancelOpen] = useState(false);
   const [cancelReason, setCancelReason] = useState('');
+  const [cancelError, setCancelError] = useState<string | null>(null);
   const [createError, setCreateError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -64,6 +65,19 @@ export default function OrderDetailsPage({ params }: { params: { id: string } })
   const totalPaidForOrder = payments.filter((p: any) => p.orderId === orderId).reduce((acc: number, p: any) => acc + Number(p.amount || 0), 0);
   const remainingForOrder = order ? Math.max(0, Number(order.total) - totalPaidForOrder) : 0;
 
+  const reloadOrder = async () => {
+    try {
+      const res = await apiRequest("GET", `/api/orders/${orderId}`);
+      const json = await res.json();
+      setOrder(json);
+      if (json?.customerId) {
+        const pRes = await apiRequest("GET", `/api/customers/${json.customerId}/payments`);
+        const pJson = await pRes.json();
+        setPayments(Array.isArray(pJson) ? pJson : (Array.isArray(pJson?.data) ? pJson.data : []));
+      }
+    } catch {}
+  };
+
   const updateStatus = async (status: string) => {
     try {
       await apiRequest("PATCH", `/api/orders/${orderId}/status`, { status });
@@ -93,8 +107,8 @@ export default function OrderDetailsPage({ params }: { params: { id: string } })
           {order && order.status !== 'completed' && (
             <Button variant="outline" onClick={() => updateStatus('completed')}>Mark as completed</Button>
           )}
-          {order && order.status !== 'cancelled' && (
-            <Button variant="outline" onClick={() => setCancelOpen(true)}>Cancel Order</Button>
+          {order && order.status !== 'cancelled' && order.status !== 'handed_over' && order.status !== 'completed' && (
+            <Button variant="outline" onClick={() => setCancelOpen(true)}>Void Order</Button>
           )}
         </div>
       </div>
@@ -241,6 +255,12 @@ export default function OrderDetailsPage({ params }: { params: { id: string } })
             </CardContent>
           </Card>
         </div>
+        <OrderRefunds
+          orderId={orderId}
+          items={items}
+          canApprove={hasPermission('orders.refund.approve')}
+          onChanged={reloadOrder}
+        />
         </div>
       ) : null}
     </div>
@@ -267,23 +287,28 @@ export default function OrderDetailsPage({ params }: { params: { id: string } })
     {cancelOpen && (
       <div className="fixed inset-0 z-[120] bg-black/40 flex items-center justify-center">
         <div className="bg-white rounded shadow-lg w-[90%] max-w-md p-4">
-          <div className="font-semibold text-lg mb-2">Cancel Order</div>
+          <div className="font-semibold text-lg mb-2">Void Order</div>
           <div className="grid gap-3">
+            <div className="text-xs text-muted-foreground">
+              Voiding refunds payments, returns package credits and reverses loyalty points.
+            </div>
             <div>
               <label className="block text-xs text-muted-foreground mb-1">Reason</label>
-              <Input value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} placeholder="Enter cancellation reason" />
+              <Input value={cancelReason} onChange={(e) => setCancelReason(e.target.value)} placeholder="Enter void reason" />
             </div>
+            {cancelError && <div className="text-sm text-destructive">{cancelError}</div>}
             <div className="flex justify-end gap-2 mt-2">
-              <Button variant="outline" onClick={() => setCancelOpen(false)}>Close</Button>
-              <Button onClick={async () => {
+              <Button variant="outline" onClick={() => { setCancelOpen(false); setCancelError(null); }}>Close</Button>
+              <Button disabled={!cancelReason.trim()} onClick={async () => {
                 try {
-                  await apiRequest('PATCH', `/api/orders/${orderId}/status`, { status: 'cancelled', reason: cancelReason || undefined });
-                  const res = await apiRequest('GET', `/api/orders/${orderId}`);
-                  setOrder(await res.json());
-                } finally {
-                  setCancelOpen(false); setCancelReason('');
+                  await apiRequest('POST', `/api/orders/${orderId}/refunds`, { kind: 'void', reason: cancelReason.trim() });
+                  await queryClient.invalidateQueries({ queryKey: ["/api/orders", orderId, "refunds"] });
+                  await reloadOrder();
+                  setCancelOpen(false); setCancelReason(''); setCancelError(null);
+                } catch (e: any) {
+                  setCancelError(e?.message || 'Failed to void order');
                 }
-              }}>Confirm Cancel</Button>
+              }}>Confirm Void</Button>
             </div>
           </div>
         </div>
@@ -293,3 +318,4 @@ export default function OrderDetailsPage({ params }: { params: { id: string } })
   );
 }
 import { RecordPaymentDialog } from "@/components/record-payment-dialog";
+import { OrderRefunds } from "@/components/orders/OrderRefunds";
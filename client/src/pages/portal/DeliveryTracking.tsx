@@ -60,6 +60,7 @@ interface PortalDeliveryPayload {
     maxPercent: number;
     maxAmount: number | null;
     previouslyOffered: number;
+    approvalThreshold: number;
   };
 }
 
@@ -102,6 +103,7 @@ function DeliveryTrackingContent() {
   const [debugOtp, setDebugOtp] = useState<string | null>(null);
   const [rescheduleOpen, setRescheduleOpen] = useState(false);
   const [isCompensating, setIsCompensating] = useState(false);
+  const [compensationNotice, setCompensationNotice] = useState<string | null>(null);
   const messageInputRef = useRef<HTMLTextAreaElement | null>(null);
 
   useEffect(() => {
@@ -316,23 +318,37 @@ function DeliveryTrackingContent() {
     await apiRequest(`POST`, `/api/portal/delivery/${deliveryId}/reschedule`, {
       windowStart: window.start,
       windowEnd: window.end,
+      slotId: window.slotId,
+      slotDate: window.slotDate,
     });
     setRescheduleOpen(false);
     await queryClient.invalidateQueries({ queryKey: ["portal-delivery", deliveryId] });
     await queryClient.invalidateQueries({ queryKey: ["portal-delivery-reschedule", deliveryId] });
   };
 
+  const compensationRemaining = portalData?.compensationPolicy.maxAmount != null
+    ? Math.max(0, portalData.compensationPolicy.maxAmount - (portalData.compensationPolicy.previouslyOffered ?? 0))
+    : 0;
+
   const handleCompensation = async () => {
     if (!portalData) return;
-    if (portalData.compensationPolicy.maxAmount == null) return;
+    if (compensationRemaining <= 0) return;
     setIsCompensating(true);
     try {
-      await apiRequest(`POST`, `/api/portal/delivery/${deliveryId}/compensation`, {
-        amount: Math.min(5, portalData.compensationPolicy.maxAmount),
+      const res = await apiRequest(`POST`, `/api/portal/delivery/${deliveryId}/compensation`, {
+        amount: Math.min(5, compensationRemaining),
         currency: "USD",
         reason: "Delay beyond SLA",
       });
+      const result = (await res.json()) as { requiresApproval?: boolean };
+      setCompensationNotice(
+        result.requiresApproval
+          ? "Your compensation request was sent to the branch for approval."
+          : "Compensation has been credited to your account.",
+      );
       await queryClient.invalidateQueries({ queryKey: ["portal-delivery", deliveryId] });
+    } catch (error) {
+      setCompensationNotice(error instanceof Error ? error.message : "Compensation could not be requested.");
     } finally {
       setIsCompensating(false);
     }
@@ -474,12 +490,15 @@ function DeliveryTrackingContent() {
                     </Button>
                     <Button
                       variant="outline"
-                      disabled={isCompensating || !portalData?.compensationPolicy.maxAmount}
+                      disabled={isCompensating || compensationRemaining <= 0}
                       onClick={handleCompensation}
                     >
                       <ShieldCheck className="mr-2 h-4 w-4" /> Request compensation
                     </Button>
                   </div>
+                  {compensationNotice ? (
+                    <p className="text-sm text-muted-foreground">{compensationNotice}</p>
+                  ) : null}
                 </CardContent>
               </Card>
             </div>
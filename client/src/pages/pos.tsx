@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState, Suspense } from "react";
+import React, { useEffect, useMemo, useRef, useState, Suspense } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { POSHeader } from "@/components/pos-header";
 import { POSSidebar } from "@/components/pos-sidebar";
@@ -18,14 +18,23 @@ import PackageChatbot from "@/components/PackageChatbot";
 import { useLaundryCart } from "@/hooks/use-laundry-cart";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, postOrder } from "@/lib/queryClient";
-import { getTaxRate } from "@/lib/tax";
+import { apiRequest, newIdempotencyKey, postOrder } from "@/lib/queryClient";
+import { useBranchTaxProfile, branchTaxProfileQueryKey } from "@/hooks/use-branch-tax-profile";
+import { useOfflinePos } from "@/hooks/use-offline-pos";
+import {
+  isNetworkError,
+  type OfflineCheckoutOrder,
+  type OfflineCheckoutReceipt,
+  type OfflineSyncResult,
+} from "@/lib/offline-pos";
+import { OfflineQueuePanel } from "@/components/offline-queue-panel";
 import { interpolate } from "@/lib/i18n";
 import { LanguageSelector } from "@/components/language-selector";
 import BranchSelector from "@/components/BranchSelector";
 import { useCurrency } from "@/lib/currency";
 import { SystemSettings } from "@/components/system-settings";
 import { ClothingItem, LaundryService, Customer } from "@shared/schema";
+import { localDateString } from "@shared/capacity";
 import { ShoppingCart, Package, BarChart3, Settings, Users, Truck, TrendingUp, MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -42,6 +51,9 @@ const OrderManagementDashboard = React.lazy(() =>
     (m) => ({ default: m.OrderManagementDashboard })
   )
 );
+const ProductionWorkstation = React.lazy(() =>
+  import("@/components/branch/ProductionWorkstation").then((m) => ({ default: m.ProductionWorkstation }))
+);
 
 export default function POS() {
   const [activeView, setActiveView] = useState("sales");
@@ -66,6 +78,7 @@ export default function POS() {
       packageId: string;
       items: { serviceId: string; clothingItemId: string; quantity: number }[];
     };
+    express?: { surchargePercent: number };
   } | null>(null);
   
   const isMobile = useIsMobile();
@@ -95,8 +108,28 @@ export default function POS() {
     setCouponCode
   } = useLaundryCart();
 
+  useBranchTaxProfile(branch?.id);
   const cartSummary = getCartSummary();
 
+  const handleOfflineSync = (result: OfflineSyncResult) => {
+    if (result.synced.length > 0) {
+      toast({
+        title: t.posOfflineSyncedTitle,
+        description: interpolate(t.posOfflineSyncedDescription, { count: String(result.synced.length) }),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    }
+    const needsReview = result.synced.filter((entry) => (entry.conflicts?.length ?? 0) > 0).length + result.failed.length;
+    if (needsReview > 0) {
+      toast({
+        title: t.posOfflineReviewTitle,
+        description: interpolate(t.posOfflineReviewDescription, { count: String(needsReview) }),
+        variant: "destructive",
+      });
+    }
+  };
+  const offlinePos = useOfflinePos(branch?.code, handleOfflineSync);
+
   // Basic API connectivity indicator (avoids silent CORB misroutes)
   useEffect(() => {
     let aborted = false;
@@ -183,22 +216,79 @@ export default function POS() {
     t,
   ]);
 
+  // Saves the sale on this device and hands back receipt copies numbered from the offline reservation
+  const queueOfflineCheckout = (
+    order: OfflineCheckoutOrder,
+    transaction: OfflineCheckoutReceipt | undefined,
+    packageCredits: number,
+  ) => {
+    const queued = offlinePos.queueOrder({ branchCode: order.branchCode, order, transaction, packageCredits });
+    const receipt = { id: queued.id, orderNumber: queued.orderNumber, createdAt: queued.createdAt };
+    return {
+      order: { ...order, ...receipt, items: order.cartItems },
+      transaction: transaction ? { ...transaction, ...receipt, orderId: queued.id, customerName: order.customerName } : null,
+      offline: true,
+    };
+  };
+
+  // Shared by repeated taps on the same checkout so the server creates the order once
+  const checkoutKey = useRef<string | null>(null);
+
   const checkoutMutation = useMutation({
-    mutationFn: async ({ order, transaction }: { order: any; transaction?: any }) => {
-      const orderRes = await postOrder(order);
+    mutationFn: async ({
+      order,
+      transaction,
+      packageCredits = 0,
+    }: {
+      order: OfflineCheckoutOrder;
+      transaction?: OfflineCheckoutReceipt;
+      packageCredits?: number;
+    }) => {
+      if (!offlinePos.isOnline) {
+        return queueOfflineCheckout(order, transaction, packageCredits);
+      }
+      let orderRes: Response;
+      try {
+        checkoutKey.current ??= newIdempotencyKey();
+        orderRes = await postOrder(order, { idempotencyKey: checkoutKey.current });
+      } catch (error) {
+        // The browser still thinks it is online but the request never reached the server
+        if (!isNetworkError(error)) throw error;
+        offlinePos.setOffline();
+        return queueOfflineCheckout(order, transaction, packageCredits);
+      }
       const createdOrder = await orderRes.json();
       let recordedTransaction = null;
       if (transaction) {
+        // The server decides how many points were redeemed; only the remainder is charged
+        const redeemedValue = Number(createdOrder?.loyalty?.redeemedValue ?? 0);
         const txRes = await apiRequest("POST", "/api/transactions", {
           ...transaction,
+          total: Math.max(Number(transaction.total) - redeemedValue, 0).toFixed(2),
           orderId: createdOrder.id,
         });
         recordedTransaction = await txRes.json();
       }
-      return { order: createdOrder, transaction: recordedTransaction };
+      return { order: createdOrder, transaction: recordedTransaction, offline: false };
     },
-    onSuccess: async ({ order, transaction }) => {
-      setCurrentOrder(buildReceiptData(order, branch as any, user));
+    onSuccess: async ({ order, transaction, offline }) => {
+      checkoutKey.current = null;
+      setCurrentOrder(buildReceiptData(order, branch, user));
+      if (offline) {
+        setCurrentTransaction(transaction ? buildReceiptData(transaction, branch, user) : null);
+        setPrintInfo(null);
+        toast({
+          title: t.posOfflineQueuedTitle,
+          description: interpolate(t.posOfflineQueuedDescription, { orderNumber: order.orderNumber }),
+        });
+        setIsReceiptModalOpen(true);
+        clearCart();
+        setSelectedCustomer(null);
+        return;
+      }
+      if (order?.capacityWarning) {
+        toast({ title: t.posCapacityWarningTitle, description: order.capacityWarning });
+      }
       if (transaction) {
         // Ensure receipts for transactions display customer info (e.g., Walk-in)
         const txWithCustomer = {
@@ -206,7 +296,7 @@ export default function POS() {
           customerId: transaction?.customerId ?? order?.customerId,
           customerName: (transaction as any)?.customerName ?? order?.customerName,
         };
-        setCurrentTransaction(buildReceiptData(txWithCustomer, branch as any, user));
+        setCurrentTransaction(buildReceiptData(txWithCustomer, branch, user));
         toast({
           title: t.posOrderCompletedTitle,
           description: `${t.total}: ${formatCurrency(order.total)}`,
@@ -236,6 +326,19 @@ export default function POS() {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
     },
     onError: (error: any) => {
+      // A second tap while the first checkout is still running; its result arrives on its own
+      if (String(error?.message || "").includes("IDEMPOTENCY_REQUEST_IN_PROGRESS")) return;
+      checkoutKey.current = null;
+      if (String(error?.message || "").includes("ORDER_TOTALS_MISMATCH")) {
+        // Branch tax profile changed since it was loaded; refresh it so the cart reprices
+        queryClient.invalidateQueries({ queryKey: branchTaxProfileQueryKey(branch?.id) });
+        toast({
+          title: t.error,
+          description: t.posTaxConfigChanged,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: t.error,
         description: error?.message || t.posFailedToProcessOrder,
@@ -276,11 +379,12 @@ export default function POS() {
         quantity: number;
       }[];
     },
+    express?: { surchargePercent: number },
     timing?: 'now' | 'later',
   ) => {
     // If the user selected cash/card but didn't choose timing yet, prompt.
     if (!timing && (paymentMethod === 'cash' || paymentMethod === 'card')) {
-      setPendingCheckout({ redeemedPoints, readyByOption, readyByDate, packageUsage });
+      setPendingCheckout({ redeemedPoints, readyByOption, readyByDate, packageUsage, express });
       setIsPaymentTimingOpen(true);
       return;
     }
@@ -332,14 +436,11 @@ export default function POS() {
       packageUsage?.items && packageUsage.items.length > 0
         ? { items: packageUsage.items }
         : undefined,
+      express,
     );
-    const taxRate = getTaxRate();
-    const redeemedAmount = redeemedPoints * 0.1;
     const subtotalVal = adjusted.subtotal;
     const taxVal = adjusted.tax;
     const grossTotal = adjusted.total; // before loyalty redemption
-    const finalTotal = Math.max(grossTotal - redeemedAmount, 0);
-    const pointsEarned = Math.floor(finalTotal);
 
     // If user chose to pay later, override to pay_later but preserve intent in notes
     const effectiveMethod = timing === 'later' ? 'pay_later' : paymentMethod;
@@ -364,11 +465,14 @@ export default function POS() {
       ).toISOString(),
       readyBy: readyByDate.toISOString(),
       promisedReadyOption: readyByOption,
-      promisedReadyDate: readyByDate.toISOString(),
+      // Local calendar day, so the branch's capacity check sees the day the cashier picked
+      promisedReadyDate: localDateString(readyByDate),
+      express: Boolean(express),
       sellerName: username,
-      loyaltyPointsEarned: pointsEarned,
+      // Points earned are decided by the server from the branch loyalty program
       loyaltyPointsRedeemed: redeemedPoints,
       ...(intentNote ? { notes: intentNote } : {}),
+      ...(adjusted.coupon && adjusted.discountAmount ? { couponCode: adjusted.coupon.code } : {}),
       packageUsage,
     };
 
@@ -376,13 +480,17 @@ export default function POS() {
       items: orderItems,
       subtotal: subtotalVal.toFixed(2),
       tax: taxVal.toFixed(2),
-      total: finalTotal.toFixed(2), // loyalty redemption applied to payment amount
+      total: grossTotal.toFixed(2), // reduced by the server-confirmed redemption once the order exists
       paymentMethod,
       sellerName: username,
       customerId: customer?.id || undefined,
     };
 
-    checkoutMutation.mutate({ order: orderData, transaction });
+    checkoutMutation.mutate({
+      order: orderData,
+      transaction,
+      packageCredits: (packageUsage?.items ?? []).reduce((sum, item) => sum + item.quantity, 0),
+    });
   };
 
   const toggleCart = () => {
@@ -433,6 +541,8 @@ export default function POS() {
         return t.cash;
       case "card":
         return t.card;
+      case "wallet":
+        return t.wallet;
       case "pay_later":
       default:
         return t.payLater;
@@ -476,6 +586,11 @@ export default function POS() {
                           )}
                         </div>
                         <div className="flex items-center gap-2 text-xs">
+                          {!offlinePos.isOnline && (
+                            <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full border text-amber-700 border-amber-300 bg-amber-50">
+                              {t.posOfflineBadge}
+                            </span>
+                          )}
                           <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full border ${apiHealthy ? 'text-green-700 border-green-300 bg-green-50' : apiHealthy === false ? 'text-red-700 border-red-300 bg-red-50' : 'text-gray-600 border-gray-300 bg-gray-50'}`}>
                             <span className={`inline-block h-2 w-2 rounded-full ${apiHealthy ? 'bg-green-600' : apiHealthy === false ? 'bg-red-600' : 'bg-gray-400'}`}></span>
                             {apiHealthy === null ? (t.checkingApi || 'Checking API…') : apiHealthy ? (t.apiConnected || 'API Connected') : (t.apiError || 'API Error')}
@@ -483,6 +598,14 @@ export default function POS() {
                         </div>
                       </div>
 
+                      <OfflineQueuePanel
+                        isOnline={offlinePos.isOnline}
+                        queue={offlinePos.queue}
+                        isSyncing={offlinePos.isSyncing}
+                        onSync={() => void offlinePos.sync()}
+                        onDismiss={offlinePos.dismiss}
+                      />
+
                       {/* Catalog grid */}
                       <div className="flex-1 min-h-0">
                         <ProductGrid
@@ -501,6 +624,8 @@ export default function POS() {
                   <LaundryCartSidebar
                     cartSummary={cartSummary}
                     getCartSummary={getCartSummary}
+                    branchCode={branch?.code}
+                    isOffline={!offlinePos.isOnline}
                     paymentMethod={paymentMethod}
                     selectedCustomer={selectedCustomer}
                     onUpdateQuantity={updateQuantity}
@@ -694,6 +819,16 @@ export default function POS() {
                   </Suspense>
                 ),
               },
+              {
+                id: "order-management-production",
+                title: t.posProductionWorkstationTitle,
+                summary: t.posProductionWorkstationSummary,
+                content: (
+                  <Suspense fallback={<LoadingScreen message={t.posLoadingProduction} />}>
+                    <ProductionWorkstation />
+                  </Suspense>
+                ),
+              },
             ],
             checklist: [
               {
@@ -1042,12 +1177,12 @@ export default function POS() {
           <div className="flex gap-2 justify-end">
             <Button variant="outline" onClick={() => {
               const p = pendingCheckout; if (!p) return; setIsPaymentTimingOpen(false);
-              void handleCheckout(p.redeemedPoints, p.readyByOption, p.readyByDate, p.packageUsage, 'later');
+              void handleCheckout(p.redeemedPoints, p.readyByOption, p.readyByDate, p.packageUsage, p.express, 'later');
               setPendingCheckout(null);
             }}>{t.payLater || 'Pay later (at pickup)'}</Button>
             <Button onClick={() => {
               const p = pendingCheckout; if (!p) return; setIsPaymentTimingOpen(false);
-              void handleCheckout(p.redeemedPoints, p.readyByOption, p.readyByDate, p.packageUsage, 'now');
+              void handleCheckout(p.redeemedPoints, p.readyByOption, p.readyByDate, p.packageUsage, p.express, 'now');
               setPendingCheckout(null);
             }}>{t.pay || 'Pay now'}</Button>
           </div>
@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS branch_tax_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  name text NOT NULL DEFAULT 'Standard',
+  rate numeric(5, 2) NOT NULL DEFAULT 0,
+  prices_include_tax boolean NOT NULL DEFAULT false,
+  effective_from date NOT NULL DEFAULT CURRENT_DATE,
+  effective_to date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS branch_tax_profiles_branch_effective_idx
+  ON branch_tax_profiles (branch_id, effective_from);
+
+CREATE TABLE IF NOT EXISTS branch_tax_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES branch_tax_profiles(id) ON DELETE CASCADE,
+  service_id uuid REFERENCES laundry_services(id) ON DELETE CASCADE,
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE,
+  rate numeric(5, 2) NOT NULL,
+  CONSTRAINT branch_tax_overrides_target_chk CHECK ((service_id IS NULL) <> (category_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS branch_tax_overrides_profile_idx ON branch_tax_overrides (profile_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_breakdown jsonb;
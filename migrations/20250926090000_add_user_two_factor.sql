@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS user_two_factor (
+  user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  secret text,
+  pending_secret text,
+  recovery_codes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  last_used_step integer,
+  enabled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
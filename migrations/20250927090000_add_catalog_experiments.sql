@@ -0,0 +1,48 @@
+CREATE TABLE IF NOT EXISTS catalog_experiments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  hypothesis text NOT NULL,
+  status text NOT NULL DEFAULT 'draft',
+  test_window_days integer NOT NULL DEFAULT 14,
+  forecast jsonb,
+  outcome jsonb,
+  notes text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  published_at timestamptz,
+  rolled_back_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS catalog_experiments_branch_status_idx
+  ON catalog_experiments (branch_id, status);
+
+CREATE TABLE IF NOT EXISTS catalog_experiment_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id uuid NOT NULL REFERENCES catalog_experiments(id) ON DELETE CASCADE,
+  service_id uuid NOT NULL REFERENCES laundry_services(id) ON DELETE CASCADE,
+  clothing_item_id uuid REFERENCES clothing_items(id) ON DELETE CASCADE,
+  service_name text NOT NULL,
+  baseline_price numeric(10, 2) NOT NULL,
+  proposed_price numeric(10, 2) NOT NULL,
+  expected_volume integer NOT NULL DEFAULT 100,
+  price_snapshot jsonb
+);
+
+CREATE INDEX IF NOT EXISTS catalog_experiment_changes_experiment_idx
+  ON catalog_experiment_changes (experiment_id);
+
+CREATE TABLE IF NOT EXISTS catalog_experiment_approvals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id uuid NOT NULL REFERENCES catalog_experiments(id) ON DELETE CASCADE,
+  action text NOT NULL,
+  actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  actor_name text NOT NULL,
+  role text NOT NULL,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS catalog_experiment_approvals_experiment_idx
+  ON catalog_experiment_approvals (experiment_id);
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS workflow_notification_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  key text NOT NULL,
+  branch_id uuid REFERENCES branches(id) ON DELETE CASCADE,
+  channel text NOT NULL,
+  subject text,
+  body text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- NULL branch_id rows are global defaults; Postgres treats NULLs as distinct so guard them separately
+CREATE UNIQUE INDEX IF NOT EXISTS workflow_notification_templates_key_branch_unique
+  ON workflow_notification_templates (key, branch_id);
+CREATE UNIQUE INDEX IF NOT EXISTS workflow_notification_templates_key_global_unique
+  ON workflow_notification_templates (key) WHERE branch_id IS NULL;
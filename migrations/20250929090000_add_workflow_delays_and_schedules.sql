@@ -0,0 +1,18 @@
+ALTER TYPE "workflow_execution_status" ADD VALUE IF NOT EXISTS 'paused';
+ALTER TYPE "workflow_execution_status" ADD VALUE IF NOT EXISTS 'cancelled';
+
+ALTER TABLE "workflow_executions" ADD COLUMN IF NOT EXISTS "resume_at" timestamptz;
+ALTER TABLE "workflow_executions" ADD COLUMN IF NOT EXISTS "pending_steps" jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS "workflow_executions_resume_idx" ON "workflow_executions" ("status", "resume_at");
+
+CREATE TABLE IF NOT EXISTS "workflow_schedule_runs" (
+  "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  "workflow_id" uuid NOT NULL REFERENCES "workflow_definitions"("id") ON DELETE CASCADE,
+  "node_key" text NOT NULL,
+  "scheduled_for" timestamptz NOT NULL,
+  "created_at" timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "workflow_schedule_runs_slot_unique"
+  ON "workflow_schedule_runs" ("workflow_id", "node_key", "scheduled_for");
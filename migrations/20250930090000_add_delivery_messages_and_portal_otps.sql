@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS delivery_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id uuid NOT NULL REFERENCES delivery_orders(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id),
+  sender_type text NOT NULL,
+  sender_id text,
+  sender_name text,
+  body text NOT NULL,
+  attachments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  metadata jsonb,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS delivery_messages_delivery_created_idx
+  ON delivery_messages (delivery_id, created_at);
+
+CREATE TABLE IF NOT EXISTS delivery_portal_otps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id uuid NOT NULL REFERENCES delivery_orders(id) ON DELETE CASCADE,
+  contact text NOT NULL,
+  code_hash text NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS delivery_portal_otps_delivery_contact_unique
+  ON delivery_portal_otps (delivery_id, contact);
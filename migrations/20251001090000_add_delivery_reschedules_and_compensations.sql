@@ -0,0 +1,44 @@
+CREATE TABLE IF NOT EXISTS delivery_reschedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id uuid NOT NULL REFERENCES delivery_orders(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id),
+  previous_scheduled_time timestamptz,
+  scheduled_time timestamptz NOT NULL,
+  window_end timestamptz,
+  reason text,
+  actor text,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS delivery_reschedules_delivery_idx
+  ON delivery_reschedules (delivery_id);
+
+CREATE TABLE IF NOT EXISTS delivery_compensations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id uuid NOT NULL REFERENCES delivery_orders(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id),
+  customer_id uuid REFERENCES customers(id),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  amount numeric(10, 2) NOT NULL,
+  currency text NOT NULL,
+  reason text,
+  method text NOT NULL DEFAULT 'balance_credit',
+  status text NOT NULL DEFAULT 'pending_approval',
+  coupon_id uuid REFERENCES coupons(id),
+  requested_by uuid REFERENCES users(id),
+  requested_by_contact text,
+  decided_by uuid REFERENCES users(id),
+  decision_note text,
+  decided_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS delivery_compensations_delivery_idx
+  ON delivery_compensations (delivery_id);
+CREATE INDEX IF NOT EXISTS delivery_compensations_branch_status_idx
+  ON delivery_compensations (branch_id, status);
+CREATE INDEX IF NOT EXISTS delivery_compensations_customer_idx
+  ON delivery_compensations (customer_id);
+
+ALTER TABLE branch_delivery_settings
+  ADD COLUMN IF NOT EXISTS compensation_approval_threshold numeric(10, 2);
@@ -0,0 +1,22 @@
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS wallet_balance numeric(10, 2) NOT NULL DEFAULT 0.00;
+
+CREATE TABLE IF NOT EXISTS customer_wallet_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  type text NOT NULL,
+  amount numeric(10, 2) NOT NULL,
+  balance_after numeric(10, 2) NOT NULL,
+  funding_method text,
+  order_id uuid REFERENCES orders(id),
+  payment_id uuid REFERENCES payments(id),
+  notes text,
+  created_by uuid REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS customer_wallet_transactions_customer_created_idx
+  ON customer_wallet_transactions (customer_id, created_at);
+CREATE INDEX IF NOT EXISTS customer_wallet_transactions_branch_created_idx
+  ON customer_wallet_transactions (branch_id, created_at);
@@ -0,0 +1,27 @@
+CREATE TABLE IF NOT EXISTS order_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  customer_id uuid REFERENCES customers(id),
+  kind text NOT NULL DEFAULT 'refund',
+  amount numeric(10, 2) NOT NULL,
+  balance_credit numeric(10, 2) NOT NULL DEFAULT 0.00,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  allocations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  package_credits jsonb NOT NULL DEFAULT '[]'::jsonb,
+  loyalty_points_reversed integer NOT NULL DEFAULT 0,
+  loyalty_points_restored integer NOT NULL DEFAULT 0,
+  reason text NOT NULL,
+  status text NOT NULL DEFAULT 'pending_approval',
+  requested_by uuid NOT NULL REFERENCES users(id),
+  decided_by uuid REFERENCES users(id),
+  decision_note text,
+  decided_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS order_refunds_order_idx ON order_refunds (order_id);
+CREATE INDEX IF NOT EXISTS order_refunds_branch_status_idx ON order_refunds (branch_id, status);
+
+ALTER TABLE payments
+  ADD COLUMN IF NOT EXISTS refund_id uuid REFERENCES order_refunds(id);
@@ -0,0 +1,36 @@
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  source_type text NOT NULL,
+  source_id text NOT NULL,
+  memo text,
+  posted_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS journal_entries_source_unique ON journal_entries (source_type, source_id);
+CREATE INDEX IF NOT EXISTS journal_entries_branch_posted_idx ON journal_entries (branch_id, posted_at);
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id uuid NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+  account_key text NOT NULL,
+  account text NOT NULL,
+  debit numeric(12, 2) NOT NULL DEFAULT 0.00,
+  credit numeric(12, 2) NOT NULL DEFAULT 0.00,
+  memo text
+);
+
+CREATE INDEX IF NOT EXISTS journal_lines_entry_idx ON journal_lines (entry_id);
+
+CREATE TABLE IF NOT EXISTS accounting_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  trial_balance jsonb NOT NULL DEFAULT '[]'::jsonb,
+  closed_by uuid NOT NULL REFERENCES users(id),
+  closed_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS accounting_periods_branch_period_idx ON accounting_periods (branch_id, period_end);
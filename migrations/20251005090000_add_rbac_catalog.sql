@@ -0,0 +1,60 @@
+ALTER TABLE user_permissions ADD COLUMN IF NOT EXISTS effect text NOT NULL DEFAULT 'grant';
+
+INSERT INTO permissions (slug, resource, action, description)
+VALUES
+  ('analytics.datasets.read', 'analytics.datasets', 'read', 'View curated analytics datasets and dashboards'),
+  ('analytics.datasets.manage', 'analytics.datasets', 'manage', 'Create or modify analytics datasets and derived views'),
+  ('workflows.builder.edit', 'workflows.builder', 'edit', 'Design and edit workflow definitions'),
+  ('workflows.builder.publish', 'workflows.builder', 'publish', 'Publish workflow changes to production'),
+  ('orders.create', 'orders', 'create', 'Ring up sales and create orders'),
+  ('orders.edit', 'orders', 'edit', 'Edit orders and move them through statuses'),
+  ('orders.refund', 'orders', 'refund', 'Request refunds and voids'),
+  ('orders.refund.approve', 'orders.refund', 'approve', 'Approve or reject refunds and voids'),
+  ('payments.record', 'payments', 'record', 'Record customer payments'),
+  ('cash.open', 'cash', 'open', 'Open a cash drawer session'),
+  ('cash.close', 'cash', 'close', 'Count and close a cash drawer session'),
+  ('catalog.edit', 'catalog', 'edit', 'Manage categories, items, services, products and packages'),
+  ('catalog.price.edit', 'catalog.price', 'edit', 'Change prices and tax profiles'),
+  ('customers.read', 'customers', 'read', 'Look up customers and their history'),
+  ('customers.edit', 'customers', 'edit', 'Create and update customers'),
+  ('customers.export', 'customers', 'export', 'Export customer lists'),
+  ('customers.wallet.refund', 'customers.wallet', 'refund', 'Refund money into customer wallets'),
+  ('delivery.manage', 'delivery', 'manage', 'Dispatch deliveries and approve delivery compensation'),
+  ('expenses.manage', 'expenses', 'manage', 'Record and edit branch expenses'),
+  ('reports.read', 'reports', 'read', 'View operational reports'),
+  ('reports.financial.read', 'reports.financial', 'read', 'View revenue, payment and accounting reports'),
+  ('accounting.manage', 'accounting', 'manage', 'Maintain GL mappings and close accounting periods'),
+  ('settings.manage', 'settings', 'manage', 'Manage branch settings, ads, cities and security'),
+  ('roles.manage', 'roles', 'manage', 'Define roles and per-user permission overrides')
+ON CONFLICT (slug) DO UPDATE
+SET
+  resource = EXCLUDED.resource,
+  action = EXCLUDED.action,
+  description = EXCLUDED.description,
+  updated_at = CURRENT_TIMESTAMP;
+
+INSERT INTO role_permissions (role, permission_id, granted_at)
+SELECT 'super_admin', id, CURRENT_TIMESTAMP FROM permissions
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role, permission_id, granted_at)
+SELECT 'admin', id, CURRENT_TIMESTAMP
+FROM permissions
+WHERE slug NOT IN ('roles.manage', 'analytics.datasets.manage')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role, permission_id, granted_at)
+SELECT 'user', id, CURRENT_TIMESTAMP
+FROM permissions
+WHERE slug IN (
+  'analytics.datasets.read',
+  'orders.create',
+  'orders.edit',
+  'orders.refund',
+  'payments.record',
+  'cash.open',
+  'cash.close',
+  'customers.read',
+  'customers.edit'
+)
+ON CONFLICT DO NOTHING;
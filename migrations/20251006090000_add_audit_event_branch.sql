@@ -0,0 +1,25 @@
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS branch_id uuid;
+
+-- Earlier rows kept the branch in metadata.tenantId
+UPDATE audit_events
+SET branch_id = (metadata->>'tenantId')::uuid
+WHERE branch_id IS NULL
+  AND metadata->>'tenantId' ~ '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$';
+
+CREATE INDEX IF NOT EXISTS audit_events_created_at_idx ON audit_events (created_at, id);
+CREATE INDEX IF NOT EXISTS audit_events_branch_created_at_idx ON audit_events (branch_id, created_at);
+
+INSERT INTO permissions (slug, resource, action, description)
+VALUES ('audit.read', 'audit', 'read', 'Browse and export the audit log')
+ON CONFLICT (slug) DO UPDATE
+SET
+  resource = EXCLUDED.resource,
+  action = EXCLUDED.action,
+  description = EXCLUDED.description,
+  updated_at = CURRENT_TIMESTAMP;
+
+INSERT INTO role_permissions (role, permission_id, granted_at)
+SELECT role, id, CURRENT_TIMESTAMP
+FROM permissions, (VALUES ('super_admin'), ('admin')) AS roles(role)
+WHERE slug = 'audit.read'
+ON CONFLICT DO NOTHING;
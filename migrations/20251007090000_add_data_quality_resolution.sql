@@ -0,0 +1,30 @@
+ALTER TABLE data_quality_runs ADD COLUMN IF NOT EXISTS triggered_by uuid REFERENCES users(id);
+
+ALTER TABLE data_quality_exceptions ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES branches(id);
+ALTER TABLE data_quality_exceptions ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open';
+ALTER TABLE data_quality_exceptions ADD COLUMN IF NOT EXISTS resolution_note text;
+ALTER TABLE data_quality_exceptions ADD COLUMN IF NOT EXISTS resolved_by uuid REFERENCES users(id);
+ALTER TABLE data_quality_exceptions ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+
+-- Order anomalies already carried their branch in details
+UPDATE data_quality_exceptions
+SET branch_id = (details->>'branchId')::uuid
+WHERE branch_id IS NULL
+  AND details->>'branchId' ~ '^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$';
+
+CREATE INDEX IF NOT EXISTS data_quality_exceptions_status_idx ON data_quality_exceptions (status, check_name);
+
+INSERT INTO permissions (slug, resource, action, description)
+VALUES ('data_quality.manage', 'data_quality', 'manage', 'Review, run and resolve data quality checks')
+ON CONFLICT (slug) DO UPDATE
+SET
+  resource = EXCLUDED.resource,
+  action = EXCLUDED.action,
+  description = EXCLUDED.description,
+  updated_at = CURRENT_TIMESTAMP;
+
+INSERT INTO role_permissions (role, permission_id, granted_at)
+SELECT role, id, CURRENT_TIMESTAMP
+FROM permissions, (VALUES ('super_admin'), ('admin')) AS roles(role)
+WHERE slug = 'data_quality.manage'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS order_pieces (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  line_index integer NOT NULL,
+  piece_number integer NOT NULL,
+  sequence integer NOT NULL,
+  tag_code varchar(40) NOT NULL,
+  description text NOT NULL,
+  status text NOT NULL DEFAULT 'received',
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS order_pieces_order_line_piece_unique ON order_pieces (order_id, line_index, piece_number);
+CREATE UNIQUE INDEX IF NOT EXISTS order_pieces_branch_tag_unique ON order_pieces (branch_id, tag_code);
+CREATE INDEX IF NOT EXISTS order_pieces_status_idx ON order_pieces (branch_id, status);
+
+CREATE TABLE IF NOT EXISTS order_piece_scans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  piece_id uuid NOT NULL REFERENCES order_pieces(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  status text NOT NULL,
+  actor text,
+  occurred_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS order_piece_scans_piece_id_idx ON order_piece_scans (piece_id);
+CREATE INDEX IF NOT EXISTS order_piece_scans_order_id_idx ON order_piece_scans (order_id);
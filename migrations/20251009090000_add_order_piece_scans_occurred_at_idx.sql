@@ -0,0 +1,2 @@
+-- Station throughput counters read today's scans
+CREATE INDEX IF NOT EXISTS order_piece_scans_occurred_at_idx ON order_piece_scans (occurred_at);
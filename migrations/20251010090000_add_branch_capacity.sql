@@ -0,0 +1,28 @@
+DO $$ BEGIN
+  ALTER TYPE promised_ready_option ADD VALUE IF NOT EXISTS 'later';
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS express_surcharge numeric(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS branch_capacity_settings (
+  branch_id uuid PRIMARY KEY REFERENCES branches(id),
+  cutoff_time varchar(5) NOT NULL DEFAULT '18:00',
+  standard_lead_days integer NOT NULL DEFAULT 1,
+  express_enabled boolean NOT NULL DEFAULT true,
+  express_surcharge_percent numeric(5, 2) NOT NULL DEFAULT 50,
+  overbook_policy text NOT NULL DEFAULT 'warn',
+  closed_dates jsonb NOT NULL DEFAULT '[]'::jsonb,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS branch_service_capacities (
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  service_id uuid NOT NULL REFERENCES laundry_services(id),
+  daily_pieces integer NOT NULL,
+  PRIMARY KEY (branch_id, service_id)
+);
+
+-- Capacity checks sum the pieces promised per branch and day
+CREATE INDEX IF NOT EXISTS orders_branch_promised_ready_date_idx ON orders (branch_id, promised_ready_date);
@@ -0,0 +1,35 @@
+CREATE TABLE IF NOT EXISTS branch_opening_hours (
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  weekday integer NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  opens_at varchar(5) NOT NULL,
+  closes_at varchar(5) NOT NULL,
+  PRIMARY KEY (branch_id, weekday)
+);
+
+CREATE TABLE IF NOT EXISTS branch_calendar_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  kind text NOT NULL,
+  label text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  opens_at varchar(5),
+  closes_at varchar(5),
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS branch_calendar_entries_branch_end_date_idx ON branch_calendar_entries (branch_id, end_date);
+
+-- Seed the structured hours from the delivery settings blob ({ monday: { isOpen, openTime, closeTime }, ... })
+INSERT INTO branch_opening_hours (branch_id, weekday, opens_at, closes_at)
+SELECT s.branch_id, d.weekday, s.operating_hours -> d.name ->> 'openTime', s.operating_hours -> d.name ->> 'closeTime'
+FROM branch_delivery_settings s
+CROSS JOIN (
+  VALUES ('sunday', 0), ('monday', 1), ('tuesday', 2), ('wednesday', 3), ('thursday', 4), ('friday', 5), ('saturday', 6)
+) AS d(name, weekday)
+WHERE jsonb_typeof(s.operating_hours) = 'object'
+  AND (s.operating_hours -> d.name ->> 'isOpen') = 'true'
+  AND (s.operating_hours -> d.name ->> 'openTime') ~ '^\d{2}:\d{2}$'
+  AND (s.operating_hours -> d.name ->> 'closeTime') ~ '^\d{2}:\d{2}$'
+  AND (s.operating_hours -> d.name ->> 'openTime') < (s.operating_hours -> d.name ->> 'closeTime')
+ON CONFLICT DO NOTHING;
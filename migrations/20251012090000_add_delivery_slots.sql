@@ -0,0 +1,33 @@
+CREATE TABLE IF NOT EXISTS delivery_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  kind text NOT NULL CHECK (kind IN ('pickup', 'delivery')),
+  weekday integer CHECK (weekday BETWEEN 0 AND 6),
+  start_time varchar(5) NOT NULL,
+  end_time varchar(5) NOT NULL,
+  capacity integer NOT NULL CHECK (capacity >= 0),
+  zone_capacities jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS delivery_slots_branch_idx ON delivery_slots (branch_id);
+
+CREATE TABLE IF NOT EXISTS delivery_slot_bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id uuid NOT NULL REFERENCES delivery_slots(id),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  kind text NOT NULL,
+  slot_date date NOT NULL,
+  city_id uuid REFERENCES cities(id),
+  order_id uuid REFERENCES orders(id),
+  delivery_id uuid REFERENCES delivery_orders(id),
+  status text NOT NULL DEFAULT 'reserved',
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  released_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS delivery_slot_bookings_slot_date_idx ON delivery_slot_bookings (slot_id, slot_date);
+CREATE INDEX IF NOT EXISTS delivery_slot_bookings_delivery_idx ON delivery_slot_bookings (delivery_id);
+CREATE INDEX IF NOT EXISTS delivery_slot_bookings_order_idx ON delivery_slot_bookings (order_id);
@@ -0,0 +1,26 @@
+ALTER TABLE loyalty_history ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'adjustment';
+ALTER TABLE loyalty_history ADD COLUMN IF NOT EXISTS branch_id uuid REFERENCES branches(id);
+ALTER TABLE loyalty_history ADD COLUMN IF NOT EXISTS order_id uuid REFERENCES orders(id);
+ALTER TABLE loyalty_history ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+-- Earlier accruals and redemptions were only told apart by their sign
+UPDATE loyalty_history SET kind = CASE WHEN change > 0 THEN 'earn' ELSE 'redeem' END
+WHERE kind = 'adjustment' AND (description LIKE 'Earned from %' OR description LIKE 'Redeemed in %');
+
+CREATE INDEX IF NOT EXISTS loyalty_history_customer_idx ON loyalty_history (customer_id, created_at);
+CREATE INDEX IF NOT EXISTS loyalty_history_expires_idx ON loyalty_history (expires_at);
+
+CREATE TABLE IF NOT EXISTS loyalty_programs (
+  branch_id uuid PRIMARY KEY REFERENCES branches(id),
+  is_enabled boolean NOT NULL DEFAULT true,
+  points_per_unit numeric(10, 3) NOT NULL DEFAULT 1,
+  service_rates jsonb NOT NULL DEFAULT '{}'::jsonb,
+  campaigns jsonb NOT NULL DEFAULT '[]'::jsonb,
+  point_value numeric(10, 3) NOT NULL DEFAULT 0.1,
+  min_redeem_points integer NOT NULL DEFAULT 0,
+  max_redeem_percent numeric(5, 2) NOT NULL DEFAULT 100,
+  expiry_months integer,
+  tier_window_months integer NOT NULL DEFAULT 12,
+  tiers jsonb NOT NULL DEFAULT '[]'::jsonb,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
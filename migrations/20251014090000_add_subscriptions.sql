@@ -0,0 +1,53 @@
+CREATE TABLE IF NOT EXISTS subscription_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  package_id uuid NOT NULL REFERENCES packages(id),
+  name_en text NOT NULL,
+  name_ar text,
+  price numeric(10, 2) NOT NULL,
+  interval_months integer NOT NULL DEFAULT 1,
+  rollover_policy text NOT NULL DEFAULT 'none',
+  rollover_cap integer,
+  reminder_days integer NOT NULL DEFAULT 3,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS subscription_plans_branch_idx ON subscription_plans (branch_id);
+
+CREATE TABLE IF NOT EXISTS customer_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  plan_id uuid NOT NULL REFERENCES subscription_plans(id),
+  status text NOT NULL DEFAULT 'active',
+  billing_method text NOT NULL,
+  card_reference text,
+  current_package_id uuid REFERENCES customer_packages(id),
+  current_period_start timestamptz NOT NULL,
+  current_period_end timestamptz NOT NULL,
+  reminder_sent_for timestamptz,
+  paused_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS customer_subscriptions_customer_idx ON customer_subscriptions (customer_id);
+CREATE INDEX IF NOT EXISTS customer_subscriptions_renewal_idx ON customer_subscriptions (status, current_period_end);
+
+CREATE TABLE IF NOT EXISTS subscription_cycles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES customer_subscriptions(id),
+  customer_package_id uuid NOT NULL REFERENCES customer_packages(id),
+  payment_id uuid REFERENCES payments(id),
+  period_start timestamptz NOT NULL,
+  period_end timestamptz NOT NULL,
+  amount numeric(10, 2) NOT NULL,
+  billing_method text NOT NULL,
+  rolled_over_credits integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS subscription_cycles_subscription_idx ON subscription_cycles (subscription_id, period_start);
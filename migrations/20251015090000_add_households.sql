@@ -0,0 +1,64 @@
+CREATE TABLE IF NOT EXISTS households (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS households_branch_idx ON households (branch_id);
+
+CREATE TABLE IF NOT EXISTS household_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  household_id uuid NOT NULL REFERENCES households(id),
+  customer_id uuid NOT NULL REFERENCES customers(id),
+  role text NOT NULL DEFAULT 'member',
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS household_members_customer_unique ON household_members (customer_id);
+CREATE INDEX IF NOT EXISTS household_members_household_idx ON household_members (household_id);
+
+CREATE TABLE IF NOT EXISTS customer_package_shares (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_package_id uuid NOT NULL REFERENCES customer_packages(id),
+  customer_id uuid NOT NULL REFERENCES customers(id),
+  credit_limit integer,
+  credits_used integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS customer_package_shares_package_customer_unique
+  ON customer_package_shares (customer_package_id, customer_id);
+CREATE INDEX IF NOT EXISTS customer_package_shares_customer_idx ON customer_package_shares (customer_id);
+
+CREATE TABLE IF NOT EXISTS customer_package_usages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_package_id uuid NOT NULL REFERENCES customer_packages(id),
+  order_id uuid REFERENCES orders(id),
+  customer_id uuid NOT NULL REFERENCES customers(id),
+  service_id uuid NOT NULL REFERENCES laundry_services(id),
+  clothing_item_id uuid NOT NULL REFERENCES clothing_items(id),
+  quantity integer NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS customer_package_usages_package_idx ON customer_package_usages (customer_package_id);
+CREATE INDEX IF NOT EXISTS customer_package_usages_order_idx ON customer_package_usages (order_id);
+
+CREATE TABLE IF NOT EXISTS customer_package_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  from_customer_package_id uuid NOT NULL REFERENCES customer_packages(id),
+  to_customer_package_id uuid NOT NULL REFERENCES customer_packages(id),
+  from_customer_id uuid NOT NULL REFERENCES customers(id),
+  to_customer_id uuid NOT NULL REFERENCES customers(id),
+  credits integer NOT NULL,
+  reason text,
+  transferred_by uuid REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS customer_package_transfers_from_idx ON customer_package_transfers (from_customer_id);
+CREATE INDEX IF NOT EXISTS customer_package_transfers_to_idx ON customer_package_transfers (to_customer_id);
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS order_number_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  device_id text NOT NULL,
+  start_number integer NOT NULL,
+  end_number integer NOT NULL,
+  reserved_by uuid REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS order_number_reservations_branch_idx ON order_number_reservations (branch_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS offline_id uuid;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS offline_created_at timestamptz;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS offline_conflicts jsonb;
+CREATE UNIQUE INDEX IF NOT EXISTS orders_offline_id_unique ON orders (offline_id);
@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS reserved_order_numbers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id uuid NOT NULL REFERENCES order_number_reservations(id),
+  branch_id uuid NOT NULL REFERENCES branches(id),
+  sequence integer NOT NULL,
+  status text NOT NULL DEFAULT 'reserved',
+  order_id uuid,
+  used_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS reserved_order_numbers_reservation_sequence_unique
+  ON reserved_order_numbers (reservation_id, sequence);
+
+-- Existing reservations: numbers an order already carries start out used
+INSERT INTO reserved_order_numbers (reservation_id, branch_id, sequence, status, order_id, used_at)
+SELECT r.id, r.branch_id, n.sequence,
+  CASE WHEN o.id IS NULL THEN 'reserved' ELSE 'used' END,
+  o.id,
+  o.created_at
+FROM order_number_reservations r
+JOIN branches b ON b.id = r.branch_id
+CROSS JOIN LATERAL generate_series(r.start_number, r.end_number) AS n(sequence)
+LEFT JOIN orders o ON o.branch_id = r.branch_id
+  AND o.order_number = b.code || '-' || CASE WHEN n.sequence < 1000 THEN lpad(n.sequence::text, 4, '0') ELSE n.sequence::text END
+ON CONFLICT DO NOTHING;
@@ -0,0 +1 @@
+ALTER TABLE order_refunds ADD COLUMN IF NOT EXISTS loyalty_value_restored numeric(10, 2) NOT NULL DEFAULT 0.00;
@@ -3,7 +3,7 @@ import { Strategy as LocalStrategy } from "passport-local";
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import pgSession from "connect-pg-simple";
-import { storage, RBAC_PERMISSION_SLUGS } from "./storage";
+import { storage, RBAC_PERMISSION_SLUGS, DEFAULT_ROLE_PERMISSIONS } from "./storage";
 import { pool } from "./db";
 import bcrypt from "bcryptjs";
 import type { User, UserWithBranch } from "@shared/schema";
@@ -148,6 +148,11 @@ export async function setupAuth(app: Express, options: SetupAuthOptions = {}) {
       try {
         // Check hardcoded credentials first
         if (username === hardcodedAdmin.username && password === "laundry123") {
+          // The built-in account cannot enroll a second factor, so it is refused once 2FA is mandatory
+          const settings = await storage.getSecuritySettings().catch(() => undefined);
+          if (settings?.twoFactorRequired) {
+            return done(null, false, { message: "Two-factor authentication is required; sign in with a staff account" });
+          }
           return done(null, hardcodedAdmin);
         }
 
@@ -235,7 +240,9 @@ export const requireCustomerOrAdmin: RequestHandler = (req, res, next) => {
 function collectPermissions(user: UserWithBranch | undefined | null): Set<string> {
   const effective = new Set<string>();
   if (!user) return effective;
-  const base = Array.isArray(user.permissions) ? user.permissions : [];
+  // Sessions built outside storage (tests, service users) carry no permission list; fall back
+  // to the built-in role defaults
+  const base = Array.isArray(user.permissions) ? user.permissions : DEFAULT_ROLE_PERMISSIONS[user.role] ?? [];
   for (const slug of base) {
     if (typeof slug === 'string') {
       effective.add(slug);
@@ -249,7 +256,7 @@ function collectPermissions(user: UserWithBranch | undefined | null): Set<string
   return effective;
 }
 
-function userHasPermission(user: UserWithBranch | undefined | null, permission: string): boolean {
+export function userHasPermission(user: UserWithBranch | undefined | null, permission: string): boolean {
   return collectPermissions(user).has(permission);
 }
 
@@ -345,3 +345,46 @@ test("graphql endpoint mirrors core REST data", async (t) => {
   await new Promise((resolve) => httpServer.close(resolve));
 });
 
+
+test("graphql applies the same permission catalog as REST", async () => {
+  const app = express();
+  app.use(express.json());
+  app.use((req: any, _res, next) => {
+    req.isAuthenticated = () => true;
+    req.user = {
+      id: "cashier-1",
+      role: "cashier",
+      branchId: customer.branchId,
+      permissions: ["orders.create", "orders.edit", "customers.read"],
+    };
+    req.session = {};
+    (req as any).tenantId = customer.branchId;
+    next();
+  });
+
+  const httpServer = http.createServer(app);
+
+  await registerGraphql({
+    app,
+    httpServer,
+    storage: storageStub,
+    workflowEngine: workflowEngineStub as any,
+    requireAuth,
+    services: {
+      customerInsightsService: customerInsightsServiceStub as any,
+      optimizationService: optimizationServiceStub as any,
+    },
+  });
+
+  const agent = request(httpServer);
+
+  const allowed = await agent.post("/graphql").send({ query: "{ orders { id } }" });
+  assert.ok(!allowed.body.errors, JSON.stringify(allowed.body.errors));
+  assert.equal(allowed.body.data.orders[0].id, baseOrder.id);
+
+  const denied = await agent.post("/graphql").send({ query: "{ analyticsSummary { totalRevenue } }" });
+  assert.equal(denied.body.errors[0].extensions.code, "FORBIDDEN");
+  assert.equal(denied.body.data, null);
+
+  await new Promise((resolve) => httpServer.close(resolve));
+});
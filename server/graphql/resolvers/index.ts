@@ -1,5 +1,5 @@
 import DataLoader from "dataloader";
-import { GraphQLScalarType, Kind } from "graphql";
+import { GraphQLError, GraphQLScalarType, Kind } from "graphql";
 import type {
   Customer,
   CustomerAddress,
@@ -8,7 +8,8 @@ import type {
   Order,
   UserWithBranch,
 } from "@shared/schema";
-import type { IStorage } from "../../storage";
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../../storage";
+import { userHasPermission } from "../../auth";
 import type { CustomerInsightSummaryRecord, CustomerInsightsService } from "../../services/customer-insights";
 import type {
   AssignmentPlan,
@@ -284,6 +285,13 @@ const JSONObjectScalar = new GraphQLScalarType({
   },
 });
 
+// Same permission catalog as the REST guards; any one of the listed permissions is enough
+function assertPermission(ctx: GraphqlContext, ...permissionList: string[]): void {
+  if (!permissionList.some((permission) => userHasPermission(ctx.user, permission))) {
+    throw new GraphQLError("Permission denied", { extensions: { code: "FORBIDDEN" } });
+  }
+}
+
 export function createResolvers(options: CreateResolversOptions) {
   const { storage, workflowEngine, services } = options;
 
@@ -295,6 +303,7 @@ export function createResolvers(options: CreateResolversOptions) {
         return ctx.user ?? null;
       },
       customer: async (_root: unknown, args: { id: string }, ctx: GraphqlContext) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.customersRead);
         return await storage.getCustomer(args.id, ctx.tenantId ?? undefined);
       },
       customers: async (
@@ -302,6 +311,7 @@ export function createResolvers(options: CreateResolversOptions) {
         args: { search?: string | null; includeInactive?: boolean | null; limit?: number | null; offset?: number | null },
         ctx: GraphqlContext,
       ) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.customersRead);
         const result = await storage.getCustomers(
           args.search ?? undefined,
           Boolean(args.includeInactive),
@@ -315,6 +325,7 @@ export function createResolvers(options: CreateResolversOptions) {
         };
       },
       order: async (_root: unknown, args: { id: string }, ctx: GraphqlContext) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.ordersEdit, RBAC_PERMISSION_SLUGS.customersRead);
         const order = await ctx.loaders.orderById.load(args.id);
         return order ? normalizeOrder(order) : null;
       },
@@ -323,6 +334,7 @@ export function createResolvers(options: CreateResolversOptions) {
         args: { customerId?: string | null; status?: string | null; limit?: number | null },
         ctx: GraphqlContext,
       ) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.ordersEdit, RBAC_PERMISSION_SLUGS.customersRead);
         if (args.customerId) {
           const orders = await ctx.loaders.ordersByCustomer.load(args.customerId);
           const normalized = orders.map((order) => normalizeOrder(order));
@@ -335,7 +347,8 @@ export function createResolvers(options: CreateResolversOptions) {
         const normalized = filtered.map((order) => normalizeOrder(order));
         return typeof args.limit === "number" ? normalized.slice(0, args.limit) : normalized;
       },
-      delivery: async (_root: unknown, args: { id: string }) => {
+      delivery: async (_root: unknown, args: { id: string }, ctx: GraphqlContext) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.deliveryManage, RBAC_PERMISSION_SLUGS.ordersEdit);
         const record = await storage.getDeliveryOrderById(args.id);
         if (!record) return null;
         return record;
@@ -345,6 +358,7 @@ export function createResolvers(options: CreateResolversOptions) {
         args: { status?: string | null; branchId?: string | null },
         ctx: GraphqlContext,
       ) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.deliveryManage);
         const branch = args.branchId ?? ctx.tenantId ?? undefined;
         const deliveries = await storage.getDeliveryOrders(branch, args.status ?? undefined);
         return deliveries;
@@ -354,6 +368,7 @@ export function createResolvers(options: CreateResolversOptions) {
         args: { range?: { range?: string | null; start?: Date | string | null; end?: Date | string | null } | null; branchId?: string | null },
         ctx: GraphqlContext,
       ) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.reportsFinancialRead);
         const branch = args.branchId ?? ctx.tenantId ?? undefined;
         const filter = {
           branchId: branch,
@@ -399,14 +414,17 @@ export function createResolvers(options: CreateResolversOptions) {
           })),
         };
       },
-      workflows: async (_root: unknown, args: { status?: string | null }) => {
+      workflows: async (_root: unknown, args: { status?: string | null }, ctx: GraphqlContext) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.workflowEdit);
         const workflows = await workflowEngine.listWorkflows();
         return args.status ? workflows.filter((wf) => wf.status === args.status) : workflows;
       },
-      workflow: async (_root: unknown, args: { id: string }) => {
+      workflow: async (_root: unknown, args: { id: string }, ctx: GraphqlContext) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.workflowEdit);
         return await workflowEngine.getWorkflow(args.id);
       },
-      workflowCatalog: () => {
+      workflowCatalog: (_root: unknown, _args: unknown, ctx: GraphqlContext) => {
+        assertPermission(ctx, RBAC_PERMISSION_SLUGS.workflowEdit);
         const triggers = workflowEngine.listTriggers().map((trigger) => ({
           type: trigger.type,
           label: trigger.label,
@@ -12,6 +12,9 @@ import { createPostgresWarehouseWriterFromEnv, EventSink } from "./services/even
 import { assertDbConnection } from "./db";
 import { DataQualityService } from "./services/data-quality";
 import { ComplianceScheduler } from "./services/compliance";
+import { LoyaltyExpiryScheduler } from "./services/loyalty";
+import { SubscriptionRenewalScheduler } from "./services/subscriptions";
+import { storage } from "./storage";
 
 // Filter extremely noisy console output that impacts perf in hot paths
 // Only suppress known chatty development logs; route all others unchanged
@@ -60,7 +63,7 @@ app.use((req, res, next) => {
   }
   
   res.header('Access-Control-Allow-Methods', 'GET,PUT,POST,DELETE,OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Content-Length, X-Requested-With, Cookie, Set-Cookie');
+  res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Content-Length, X-Requested-With, Cookie, Set-Cookie, Idempotency-Key');
   
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
@@ -188,6 +191,8 @@ app.get("/health", (_req, res) =>
   let eventSink: EventSink | null = null;
   const dataQualityService = new DataQualityService();
   const complianceScheduler = new ComplianceScheduler();
+  const loyaltyExpiryScheduler = new LoyaltyExpiryScheduler({ storage });
+  const subscriptionScheduler = new SubscriptionRenewalScheduler({ storage, notificationService });
   if (writer) {
     eventSink = new EventSink({
       eventBus,
@@ -198,11 +203,13 @@ app.get("/health", (_req, res) =>
     });
     eventSink.start();
   }
-  const server = await registerRoutes(app, notificationService, { eventBus });
+  const server = await registerRoutes(app, notificationService, { eventBus, dataQuality: dataQualityService });
 
   if (process.env.NODE_ENV !== "test") {
     dataQualityService.start();
     complianceScheduler.start();
+    loyaltyExpiryScheduler.start();
+    subscriptionScheduler.start();
   }
 
   const gracefulShutdown = async () => {
@@ -211,6 +218,8 @@ app.get("/health", (_req, res) =>
         await eventSink.stop();
       }
       complianceScheduler.stop();
+      loyaltyExpiryScheduler.stop();
+      subscriptionScheduler.stop();
       dataQualityService.stop();
       await eventBus.shutdown();
     } finally {
@@ -12,6 +12,8 @@ export interface AuditEventInput {
   entityId?: string | null;
   metadata?: Record<string, unknown>;
   severity?: AuditSeverity;
+  // Defaults to the request's tenant; set it when acting on another branch
+  branchId?: string | null;
 }
 
 export interface AuditContext {
@@ -43,6 +45,7 @@ export class AuditLogger {
         entityId: event.entityId ?? null,
         severity: event.severity ?? "info",
         requestId: this.context.requestId ?? null,
+        branchId: event.branchId ?? this.context.tenantId ?? null,
         metadata,
       });
     } catch (error) {
@@ -51,6 +54,34 @@ export class AuditLogger {
   }
 }
 
+const UNAUDITED_FIELDS = new Set(["passwordHash", "createdAt", "updatedAt"]);
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Before/after snapshots limited to the fields that changed, for `metadata` on update events.
+ * Pass null for `before` on creates and for `after` on deletes.
+ */
+export function auditChanges(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): { before: Record<string, unknown> | null; after: Record<string, unknown> | null } {
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of Array.from(keys)) {
+    if (UNAUDITED_FIELDS.has(key)) continue;
+    const prev = comparable(before?.[key]);
+    const next = comparable(after?.[key]);
+    if (before && after && JSON.stringify(prev) === JSON.stringify(next)) continue;
+    if (before) changedBefore[key] = prev ?? null;
+    if (after) changedAfter[key] = next ?? null;
+  }
+  return { before: before ? changedBefore : null, after: after ? changedAfter : null };
+}
+
 export function createAuditLogger(context: AuditContext = {}): AuditLogger {
   return new AuditLogger(context);
 }
@@ -61,10 +92,11 @@ export async function recordAuditEvent(event: AuditEventInput, context: AuditCon
 }
 
 export const auditMiddleware: RequestHandler = (req, _res, next) => {
-  const user = (req.user as { id?: string; role?: string } | undefined) ?? undefined;
+  const user = (req.user as { id?: string; role?: string; branchId?: string | null } | undefined) ?? undefined;
   const requestId =
     (typeof req.headers["x-request-id"] === "string" ? req.headers["x-request-id"] : undefined) ?? randomUUID();
-  const tenantId = (req as any).tenantId as string | null | undefined;
+  // Runs before attachTenant, so fall back to the user's own branch
+  const tenantId = ((req as any).tenantId as string | null | undefined) ?? user?.branchId;
 
   (req as any).audit = new AuditLogger({
     actorId: user?.id ?? null,
@@ -0,0 +1,145 @@
+import { createHash } from "node:crypto";
+import type { RequestHandler } from "express";
+import type { Logger } from "pino";
+import type { IStorage } from "../storage";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+export const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+
+// Visible ASCII only, so keys survive proxies and logs unchanged
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+type IdempotencyStorage = Pick<
+  IStorage,
+  "claimIdempotencyKey" | "completeIdempotencyKey" | "releaseIdempotencyKey" | "purgeExpiredIdempotencyKeys"
+>;
+
+export interface IdempotencyOptions {
+  storage: IdempotencyStorage;
+  logger: Logger;
+  retentionHours?: number;
+  now?: () => Date;
+}
+
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, canonical((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+// Same body with keys in a different order hashes the same
+export function requestFingerprint(body: unknown): string {
+  return createHash("sha256")
+    .update(JSON.stringify(canonical(body ?? null)))
+    .digest("hex");
+}
+
+// Auth failures and server errors are not stored, so the client can fix the cause and retry with the same key
+function isReplayable(statusCode: number): boolean {
+  return statusCode < 500 && statusCode !== 401 && statusCode !== 403;
+}
+
+/**
+ * Lets a create endpoint be retried safely: the first request with a given `Idempotency-Key`
+ * runs and its response is kept for the retention window; repeats get that response back
+ * without running the handler again. Requests without the header are untouched.
+ */
+export function createIdempotencyMiddleware({
+  storage,
+  logger,
+  retentionHours = Number(process.env.IDEMPOTENCY_KEY_RETENTION_HOURS ?? 24),
+  now = () => new Date(),
+}: IdempotencyOptions): RequestHandler {
+  let lastPurge = 0;
+
+  return async (req, res, next) => {
+    const key = req.get(IDEMPOTENCY_HEADER);
+    if (key === undefined) return next();
+    if (!KEY_PATTERN.test(key)) {
+      return res.status(400).json({
+        message: "Idempotency-Key must be 1-255 visible ASCII characters",
+        code: "IDEMPOTENCY_KEY_INVALID",
+      });
+    }
+
+    const user = req.user as { id?: string } | undefined;
+    const customerId = (req.session as { customerId?: string } | undefined)?.customerId;
+    const caller = user?.id ? `user:${user.id}` : customerId ? `customer:${customerId}` : null;
+    // The route answers anonymous callers itself; there is nobody to scope the key to
+    if (!caller) return next();
+
+    const current = now();
+    const scope = `${req.method} ${req.baseUrl}${req.path} ${caller}`;
+    const requestHash = requestFingerprint(req.body);
+
+    let recordId: string;
+    try {
+      if (current.getTime() - lastPurge >= PURGE_INTERVAL_MS) {
+        lastPurge = current.getTime();
+        storage.purgeExpiredIdempotencyKeys(current).catch((err) => {
+          logger.error({ err }, "failed to purge expired idempotency keys");
+        });
+      }
+
+      const { claimed, record } = await storage.claimIdempotencyKey(
+        { scope, key, requestHash, expiresAt: new Date(current.getTime() + retentionHours * 60 * 60 * 1000) },
+        current,
+      );
+      if (!claimed || !record) {
+        if (record && record.requestHash !== requestHash) {
+          return res.status(422).json({
+            message: "Idempotency-Key was already used with a different request",
+            code: "IDEMPOTENCY_KEY_REUSED",
+          });
+        }
+        if (!record || record.statusCode === null) {
+          return res.status(409).json({
+            message: "A request with this Idempotency-Key is still being processed",
+            code: "IDEMPOTENCY_REQUEST_IN_PROGRESS",
+          });
+        }
+        res.setHeader(IDEMPOTENT_REPLAY_HEADER, "true");
+        return res.status(record.statusCode).json(record.responseBody);
+      }
+      recordId = record.id;
+    } catch (err) {
+      logger.error({ err }, "failed to claim idempotency key");
+      return res.status(500).json({ message: "Failed to process request" });
+    }
+
+    // Only JSON bodies are kept; anything sent another way cannot be replayed, so the key is released
+    let responseBody: unknown;
+    let recorded = false;
+    const json = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      responseBody = body;
+      recorded = true;
+      return json(body);
+    };
+
+    let settled = false;
+    const settle = (finished: boolean) => {
+      if (settled) return;
+      settled = true;
+      const work =
+        finished && recorded && isReplayable(res.statusCode)
+          ? storage.completeIdempotencyKey(recordId, { statusCode: res.statusCode, responseBody })
+          : storage.releaseIdempotencyKey(recordId);
+      work.catch((err) => {
+        logger.error({ err }, "failed to store idempotency key result");
+      });
+    };
+    res.on("finish", () => settle(true));
+    // Connection dropped before a response went out; let the retry run again
+    res.on("close", () => settle(res.writableFinished));
+
+    next();
+  };
+}
@@ -41,7 +41,8 @@ test('charges only non-credited quantities', async () => {
     usage!.usedCredits,
     storage,
     'mem-user',
-    'default'
+    'default',
+    { taxProfile: { rate: 8.5, pricesIncludeTax: false } }
   );
 
   assert.equal(totals.subtotal.toFixed(2), '3.00');
@@ -31,6 +31,7 @@ test("GET /api/customers/:id/command-center aggregates dossier", async () => {
             isActive: true,
             createdAt: new Date("2024-01-10T10:00:00Z"),
             balanceDue: "120.50",
+            walletBalance: "30.00",
             totalSpent: "2500.00",
           }
         : null,
@@ -60,6 +61,27 @@ test("GET /api/customers/:id/command-center aggregates dossier", async () => {
         totalCredits: 10,
       },
     ],
+    getCustomerSubscriptions: async () => [
+      {
+        id: "sub-1",
+        status: "active",
+        billingMethod: "pay_later",
+        currentPackageId: "pkg-1",
+        currentPeriodStart: new Date("2024-03-01T00:00:00Z"),
+        currentPeriodEnd: new Date("2024-04-01T00:00:00Z"),
+        plan: { nameEn: "Monthly 20", price: "25.00" },
+        cycles: [
+          {
+            id: "cycle-1",
+            periodStart: new Date("2024-03-01T00:00:00Z"),
+            periodEnd: new Date("2024-04-01T00:00:00Z"),
+            amount: "25.00",
+            billingMethod: "pay_later",
+            rolledOverCredits: 2,
+          },
+        ],
+      },
+    ],
     getPaymentsByCustomer: async () => [
       {
         id: "pay-1",
@@ -86,6 +108,35 @@ test("GET /api/customers/:id/command-center aggregates dossier", async () => {
       lastOutcome: "SMS follow-up",
       lastActionChannel: "sms",
     }),
+    getCustomerWalletTransactions: async () => [
+      {
+        id: "wtx-1",
+        customerId: "cust-1",
+        branchId: "b1",
+        type: "top_up",
+        amount: "30.00",
+        balanceAfter: "30.00",
+        fundingMethod: "cash",
+        orderId: null,
+        paymentId: null,
+        notes: null,
+        createdAt: new Date("2024-03-07T09:00:00Z"),
+      },
+    ],
+    getDeliveryCompensations: async () => [
+      {
+        id: "comp-1",
+        deliveryId: "d-1",
+        orderId: "o-1",
+        customerId: "cust-1",
+        amount: "7.50",
+        method: "balance_credit",
+        status: "applied",
+        reason: "Late delivery",
+        decidedAt: new Date("2024-03-09T12:00:00Z"),
+        createdAt: new Date("2024-03-09T11:00:00Z"),
+      },
+    ],
   };
 
   const insightsServiceStub = {
@@ -134,10 +185,19 @@ test("GET /api/customers/:id/command-center aggregates dossier", async () => {
   assert.equal(res.body.financial.balanceDue, 120.5);
   assert.equal(res.body.orders[0].orderNumber, "1001");
   assert.equal(res.body.packages[0].balance, 5);
+  assert.equal(res.body.subscriptions[0].nextRenewalAt, "2024-04-01T00:00:00.000Z");
+  assert.equal(res.body.subscriptions[0].cycles[0].amount, 25);
   assert.equal(res.body.insights.purchaseFrequency, "Weekly");
   assert.equal(res.body.actions.issueCredit.endpoint, "/api/customers/cust-1/payments");
   assert.ok(Array.isArray(res.body.auditTrail));
   assert.equal(res.body.auditTrail[0].category, "payment");
+  const compensation = res.body.outreachTimeline.find((event: any) => event.id === "compensation-comp-1");
+  assert.equal(compensation.title, "Delivery compensation of E£ 7.50 credited");
+  assert.equal(compensation.meta.deliveryId, "d-1");
+  assert.equal(res.body.financial.walletBalance, 30);
+  assert.equal(res.body.walletStatement[0].type, "top_up");
+  const topUp = res.body.outreachTimeline.find((event: any) => event.id === "wallet-wtx-1");
+  assert.equal(topUp.title, "Wallet top-up of E£ 30.00");
 });
 
 test("GET /api/customers/:id/command-center returns 404 for missing customer", async () => {
@@ -26,12 +26,17 @@ function createApp(options: { optimizationService?: Partial<DeliveryOptimization
   app.use((req, _res, next) => {
     (req.session as any) = { customerId: 'cust-1' };
     (req as any).user = { id: 'admin-1', role: 'admin', branchId: 'branch-1' };
+    (req as any).isAuthenticated = () => true;
     next();
   });
 
   const storage = {
     getBranchByCode: async (code: string) => (code === 'BR1' ? { id: 'branch-1' } : undefined),
     getItemServicePrice: async () => 10,
+    getBranchCapacity: async () => ({ settings: null, services: [] }),
+    getBranchCalendar: async () => ({ weekly: [], entries: [] }),
+    getDeliverySlots: async () => [],
+    getCustomer: async () => undefined,
     createOrder: async (input: any) => ({
       id: 'order-1',
       orderNumber: '1001',
@@ -53,7 +58,7 @@ function createApp(options: { optimizationService?: Partial<DeliveryOptimization
     storage,
     logger,
     requireAuth: noopAuth,
-    requireAdminOrSuperAdmin: noopAuth,
+    idempotent: noopAuth,
     broadcastDeliveryEvent,
     eventBus,
     optimizationService: options.optimizationService as DeliveryOptimizationService | undefined,
@@ -7,6 +7,7 @@ import {
   generateCustomerPasswordOtp,
   verifyCustomerPasswordOtp,
   DEFAULT_CUSTOMER_OUTREACH_RATE_LIMIT_HOURS,
+  RBAC_PERMISSION_SLUGS,
   type CustomerEngagementPlanUpdateInput,
 } from "./storage";
 import { db } from "./db";
@@ -38,26 +39,40 @@ import {
   insertSecuritySettingsSchema,
   insertItemServicePriceSchema,
   type InsertPayment,
+  type Payment,
   type User,
   type ItemType,
   type ClothingItem,
+  type Order,
   orders,
   branchAds,
   cities,
   type City,
 } from "@shared/schema";
 import { loginSchema } from "@shared/schemas";
+import {
+  calculateTaxBreakdown,
+  TAX_TOTALS_TOLERANCE,
+  type TaxBreakdown,
+  type TaxLineInput,
+  type TaxProfileConfig,
+} from "@shared/tax";
+import { withExpressSurcharge } from "@shared/capacity";
+import { shareAllowance } from "@shared/households";
+import { offlineOrderSchema, offlineSyncConflicts, type OfflineConflict, type OfflineOrder } from "@shared/offline-pos";
 import {
   setupAuth,
   requireAuth,
   requireSuperAdmin,
   requireAdminOrSuperAdmin,
   requireCustomerOrAdmin,
+  requirePermission,
   getSession,
   getAdminSession,
 } from "./auth";
 import { attachTenant } from "./middleware/tenant-context";
-import { auditMiddleware } from "./middleware/audit";
+import { auditMiddleware, auditChanges } from "./middleware/audit";
+import { createIdempotencyMiddleware } from "./middleware/idempotency";
 import { seedSuperAdmin } from "./seed-superadmin";
 import { seedPackages } from "./seed-packages";
 import { seedBranches } from "./seed-branches";
@@ -76,8 +91,36 @@ import { registerSmartOrderRoutes } from "./routes/orders.smart";
 import { registerDeliveryRoutes } from "./routes/delivery";
 import { registerDeliveryMessageRoutes } from "./routes/delivery-messages";
 import { registerDeliveryActionRoutes } from "./routes/delivery-actions";
+import { registerTaxProfileRoutes } from "./routes/tax-profiles";
+import { registerTwoFactorRoutes, beginTwoFactorLogin } from "./routes/two-factor";
+import { TwoFactorService } from "./services/two-factor";
 import type { DeliveryChannelEvent } from "./types/delivery-channel";
 import { registerCustomerCommandCenterRoutes } from "./routes/customers/command-center";
+import { registerCustomerWalletRoutes, serializeWalletTransaction } from "./routes/customers/wallet";
+import { registerCustomerHouseholdRoutes } from "./routes/customers/households";
+import { registerOrderRefundRoutes } from "./routes/order-refunds";
+import { registerAccountingRoutes } from "./routes/accounting";
+import { registerRoleRoutes } from "./routes/roles";
+import { registerAuditEventRoutes } from "./routes/audit-events";
+import { registerDataQualityRoutes } from "./routes/data-quality";
+import { registerGarmentTagRoutes } from "./routes/garment-tags";
+import { registerProductionRoutes } from "./routes/production";
+import { registerCapacityRoutes } from "./routes/capacity";
+import { registerBranchHoursRoutes } from "./routes/branch-hours";
+import { registerDeliverySlotRoutes } from "./routes/delivery-slots";
+import { registerLoyaltyRoutes } from "./routes/loyalty";
+import { registerSubscriptionRoutes } from "./routes/subscriptions";
+import { registerOfflinePosRoutes } from "./routes/offline-pos";
+import { loadBranchOpenStatus, withOrderSla } from "./services/branch-calendar";
+import { planBranchReadyDates, resolveReadyDate } from "./services/capacity";
+import {
+  postOrderLoyalty,
+  prepareOrderLoyalty,
+  type OrderLoyaltyOutcome,
+  type OrderLoyaltyPlan,
+} from "./services/loyalty";
+import { DataQualityService } from "./services/data-quality";
+import { ClosedPeriodError } from "./services/ledger";
 import bcrypt from "bcryptjs";
 import { randomUUID } from "crypto";
 import { passwordSchema } from "@shared/schemas";
@@ -168,9 +211,13 @@ const RATE_LIMIT_CONFIG = {
 } as const;
 
 const MAX_BULK_CUSTOMER_ACTIONS = 50;
+// Remaining package credits at or below which a "package_balance_low" event is published.
+const PACKAGE_LOW_BALANCE_CREDITS = 2;
 
 interface RegisterRoutesOptions {
   eventBus: EventBus;
+  // The scheduled instance, so on-demand runs share its in-progress guard
+  dataQuality?: DataQualityService;
 }
 
 /**
@@ -328,6 +375,8 @@ function parseReportFilters(req: Request, user: UserWithBranch): {
 /**
  * Compute packageUsages server-side based on customer's available packages and cart items.
  * Uses multiple packages to maximize credit utilization and prevent unnecessary cash charges.
+ * The customer's own packages are used before packages household members share with them,
+ * and a shared package never gives more than the member's remaining limit.
  * This prevents client-side tampering with financial credit data.
  */
 export async function computePackageUsage(
@@ -337,13 +386,26 @@ export async function computePackageUsage(
 ): Promise<{ packageUsages: any[]; usedCredits: { customerPackageId: string; serviceId: string; clothingItemId: string; quantity: number }[] } | null> {
   try {
     // Get customer's available packages with current usage/balance
-    const customerPackages = await storage.getCustomerPackagesWithUsage(customerId);
-    if (!customerPackages?.length) {
+    const ownPackages = (await storage.getCustomerPackagesWithUsage(customerId)) ?? [];
+    const sharedPackages = await storage.getSharedPackagesForCustomer(customerId);
+    const customerPackages = [
+      ...ownPackages.map((pkg: any) => ({ ...pkg, ownerCustomerId: undefined as string | undefined, allowance: Infinity })),
+      ...sharedPackages.map((pkg) => ({ ...pkg, allowance: shareAllowance(pkg) })),
+    ];
+    if (!customerPackages.length) {
       return null;
     }
 
     const usedCredits: { customerPackageId: string; serviceId: string; clothingItemId: string; quantity: number }[] = [];
-    const packageUsageMap = new Map<string, { packageId: string; items: { serviceId: string; clothingItemId: string; quantity: number }[] }>();
+    const packageUsageMap = new Map<
+      string,
+      {
+        packageId: string;
+        customerPackageId?: string;
+        ownerCustomerId?: string;
+        items: { serviceId: string; clothingItemId: string; quantity: number }[];
+      }
+    >();
 
     // Process each cart item to see if we can use package credits
     for (const cartItem of cartItems) {
@@ -356,7 +418,7 @@ export async function computePackageUsage(
       // Continue using credits from multiple packages until the item quantity is fully covered
       for (const customerPackage of customerPackages) {
         if (remainingQuantity <= 0) break; // No more quantity to cover
-        if (!customerPackage.items?.length) continue;
+        if (!customerPackage.items?.length || customerPackage.allowance <= 0) continue;
 
         const packageItem = customerPackage.items.find(
           (item: any) => 
@@ -366,7 +428,7 @@ export async function computePackageUsage(
         );
 
         if (packageItem) {
-          const creditsToUse = Math.min(remainingQuantity, packageItem.balance);
+          const creditsToUse = Math.min(remainingQuantity, packageItem.balance, customerPackage.allowance);
           if (creditsToUse > 0) {
             // Track used credits for database updates
             usedCredits.push({
@@ -376,16 +438,24 @@ export async function computePackageUsage(
               quantity: creditsToUse
             });
 
-            // Build package usage tracking for receipt display
+            // Build package usage tracking for receipt display; shared credits stay apart so the owner shows
             const packageId = customerPackage.packageId;
-            if (!packageUsageMap.has(packageId)) {
-              packageUsageMap.set(packageId, {
-                packageId,
-                items: []
-              });
+            const usageKey = customerPackage.ownerCustomerId ? `${packageId}:${customerPackage.id}` : packageId;
+            if (!packageUsageMap.has(usageKey)) {
+              packageUsageMap.set(
+                usageKey,
+                customerPackage.ownerCustomerId
+                  ? {
+                      packageId,
+                      customerPackageId: customerPackage.id,
+                      ownerCustomerId: customerPackage.ownerCustomerId,
+                      items: [],
+                    }
+                  : { packageId, items: [] },
+              );
             }
-            
-            const packageUsage = packageUsageMap.get(packageId)!;
+
+            const packageUsage = packageUsageMap.get(usageKey)!;
             const existingItem = packageUsage.items.find(
               item => item.serviceId === cartItem.serviceId && 
                      item.clothingItemId === cartItem.clothingItemId
@@ -403,6 +473,7 @@ export async function computePackageUsage(
 
             // Update the package item balance to reflect usage
             packageItem.balance -= creditsToUse;
+            customerPackage.allowance -= creditsToUse;
             remainingQuantity -= creditsToUse;
           }
         }
@@ -433,20 +504,52 @@ function getServerTaxRate(): number {
 }
 const SERVER_TAX_RATE = getServerTaxRate();
 
+// Cash that went through the drawer: cash payments (cash refunds are negative payments)
+// plus cash wallet top-ups, oldest first.
+async function fetchCashDrawerReceipts(branchId: string, startIso: string, endIso: string) {
+  const { rows } = await db.execute<any>(sql`
+    SELECT created_at, amount, payment_method, channel, notes, received_by, order_id, customer_id
+    FROM payments
+    WHERE branch_id = ${branchId}
+      AND payment_method = 'cash'
+      AND created_at >= ${startIso} AND created_at <= ${endIso}
+    UNION ALL
+    SELECT w.created_at, w.amount, 'cash', 'wallet_top_up', w.notes, COALESCE(u.username, ''), w.order_id, w.customer_id
+    FROM customer_wallet_transactions w
+    LEFT JOIN users u ON u.id = w.created_by
+    WHERE w.branch_id = ${branchId}
+      AND w.type = 'top_up' AND w.funding_method = 'cash'
+      AND w.created_at >= ${startIso} AND w.created_at <= ${endIso}
+    ORDER BY created_at ASC
+  `);
+  return rows;
+}
+
+// Used for branches that have not configured a tax profile yet
+export const DEFAULT_TAX_PROFILE: TaxProfileConfig = {
+  id: null,
+  rate: SERVER_TAX_RATE * 100,
+  pricesIncludeTax: false,
+  overrides: [],
+};
+
 export async function computeTotalsWithCredits(
   cartItems: any[],
   usedCredits: { serviceId: string; clothingItemId: string; quantity: number }[],
   storage: IStorage,
   userId: string,
-  branchId: string
-): Promise<{ subtotal: number; tax: number; total: number }> {
+  branchId: string,
+  options: { taxProfile?: TaxProfileConfig | null; discount?: number; expressSurchargePercent?: number } = {},
+): Promise<{ subtotal: number; tax: number; total: number; breakdown: TaxBreakdown; expressSurcharge: number }> {
+  const taxProfile = options.taxProfile ?? DEFAULT_TAX_PROFILE;
+  const needsCategories = (taxProfile.overrides ?? []).some((o) => o.categoryId);
   const creditMap = new Map<string, number>();
   for (const credit of usedCredits) {
     const key = `${credit.serviceId}:${credit.clothingItemId}`;
     creditMap.set(key, (creditMap.get(key) || 0) + credit.quantity);
   }
 
-  let subtotal = 0;
+  const lines: TaxLineInput[] = [];
   for (const item of cartItems) {
     if (!item.serviceId || !item.clothingItemId || typeof item.quantity !== "number") {
       continue;
@@ -461,15 +564,29 @@ export async function computeTotalsWithCredits(
     const key = `${item.serviceId}:${item.clothingItemId}`;
     const creditQty = Math.min(creditMap.get(key) || 0, item.quantity);
     const paidQty = item.quantity - creditQty;
-    subtotal += price * paidQty;
     item.price = price;
     item.total = price * paidQty;
+
+    let categoryIds: string[] = [];
+    if (needsCategories) {
+      const [service, clothingItem] = await Promise.all([
+        storage.getLaundryService(item.serviceId, userId),
+        storage.getClothingItem(item.clothingItemId, userId),
+      ]);
+      categoryIds = [service?.categoryId, clothingItem?.categoryId].filter(Boolean) as string[];
+    }
+    lines.push({ amount: price * paidQty, serviceId: item.serviceId, categoryIds });
   }
 
-  subtotal = Math.round(subtotal * 100) / 100;
-  const tax = Math.round(subtotal * SERVER_TAX_RATE * 100) / 100;
-  const total = Math.round((subtotal + tax) * 100) / 100;
-  return { subtotal, tax, total };
+  const priced = withExpressSurcharge(lines, options.expressSurchargePercent);
+  const breakdown = calculateTaxBreakdown(priced.lines, taxProfile, options.discount ?? 0);
+  return {
+    subtotal: breakdown.subtotal,
+    tax: breakdown.tax,
+    total: breakdown.total,
+    breakdown,
+    expressSurcharge: priced.surcharge,
+  };
 }
 
 export async function registerRoutes(
@@ -487,6 +604,14 @@ export async function registerRoutes(
   const passportInitialize = passport.initialize();
   const passportSession = passport.session();
 
+  const requireCatalogEdit = requirePermission(RBAC_PERMISSION_SLUGS.catalogEdit);
+  const requirePriceEdit = requirePermission(RBAC_PERMISSION_SLUGS.catalogPriceEdit);
+  const requireSettingsManage = requirePermission(RBAC_PERMISSION_SLUGS.settingsManage);
+  const requireReportsRead = requirePermission(RBAC_PERMISSION_SLUGS.reportsRead);
+  const requireFinancialReports = requirePermission(RBAC_PERMISSION_SLUGS.reportsFinancialRead);
+  const requireExpensesManage = requirePermission(RBAC_PERMISSION_SLUGS.expensesManage);
+  const idempotent = createIdempotencyMiddleware({ storage, logger });
+
   const orderSuggestionsService = new OrderSuggestionsService();
   const orderAnomaliesService = new OrderAnomaliesService();
   const forecastingService = new ForecastingService();
@@ -494,7 +619,7 @@ export async function registerRoutes(
     notificationService,
     forecastingService,
   });
-  const workflowEngine = new WorkflowEngine({ logger });
+  const workflowEngine = new WorkflowEngine({ logger, notificationService });
 
   if (process.env.NODE_ENV !== "test") {
     setInterval(() => {
@@ -502,8 +627,39 @@ export async function registerRoutes(
         logger.error({ err: error }, "scheduled alert evaluation failed");
       });
     }, 60_000);
+    setInterval(() => {
+      workflowEngine.runDueWork().catch((error) => {
+        logger.error({ err: error }, "workflow scheduler tick failed");
+      });
+    }, 60_000);
+    workflowEngine.subscribe(eventBus);
   }
 
+  const publishAnalyticsEvent = async (event: Parameters<typeof createAnalyticsEvent>[0]) => {
+    try {
+      await eventBus.publish(createAnalyticsEvent(event));
+    } catch (error) {
+      logger.warn({ err: error, category: event.category, name: event.name }, "Failed to publish analytics event");
+    }
+  };
+
+  const publishPaymentReceived = (payment: Payment, user: UserWithBranch, balanceDue?: number) =>
+    publishAnalyticsEvent({
+      source: "api.payments",
+      category: "customer.account",
+      name: "payment_received",
+      payload: {
+        customerId: payment.customerId,
+        branchId: payment.branchId ?? null,
+        orderId: payment.orderId ?? null,
+        paymentId: payment.id,
+        amount: Number.parseFloat(payment.amount),
+        paymentMethod: payment.paymentMethod,
+        balanceDue: balanceDue !== undefined && Number.isFinite(balanceDue) ? balanceDue : undefined,
+      },
+      actor: { actorId: user.id, actorType: "user", actorName: getActorName(user) },
+    });
+
   const runMiddleware = (req: any, middleware: RequestHandler) =>
     new Promise<void>((resolve, reject) => {
       middleware(req, {} as any, (err?: unknown) => {
@@ -930,13 +1086,23 @@ export async function registerRoutes(
 
   registerHealthRoutes(app);
 
+  const twoFactorService = new TwoFactorService({ storage, logger });
+  registerTwoFactorRoutes({
+    app,
+    storage,
+    logger,
+    requireAuth,
+    requireAdminOrSuperAdmin,
+    twoFactorService,
+  });
+
   // Authentication routes
   app.post("/api/login", (req, res, next) => {
     const parsed = loginSchema.safeParse(req.body);
     if (!parsed.success) {
       return res.status(400).json({ message: "Invalid login data" });
     }
-    passport.authenticate("local", (err: any, user: any, info: any) => {
+    passport.authenticate("local", async (err: any, user: any, info: any) => {
       if (err) {
         return next(err);
       }
@@ -944,6 +1110,16 @@ export async function registerRoutes(
         return res.status(401).json({ message: info?.message || "Login failed" });
       }
 
+      try {
+        const challenge = await beginTwoFactorLogin(req, user, twoFactorService);
+        if (challenge) {
+          return res.json({ ...challenge, message: "Verification code required" });
+        }
+      } catch (challengeErr) {
+        logger.error({ err: challengeErr }, "Failed to start two-factor challenge");
+        return res.status(500).json({ message: "Login failed. Please try again." });
+      }
+
       req.logIn(user, (err) => {
         if (err) {
           return next(err);
@@ -1032,9 +1208,15 @@ export async function registerRoutes(
 
   // JSON staff login/logout for mobile and external clients
   app.post("/auth/login", (req, res, next) => {
-    passport.authenticate("local", (err, user, info) => {
+    passport.authenticate("local", async (err: any, user: any, info: any) => {
       if (err) return res.status(500).json({ message: "Login failed" });
       if (!user) return res.status(401).json({ message: info?.message || "Invalid credentials" });
+      try {
+        const challenge = await beginTwoFactorLogin(req, user, twoFactorService);
+        if (challenge) return res.json(challenge);
+      } catch {
+        return res.status(500).json({ message: "Login failed" });
+      }
       req.logIn(user, (loginErr) => {
         if (loginErr) return res.status(500).json({ message: "Login failed" });
         const safe = { ...user } as any;
@@ -1212,7 +1394,14 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Customer not found" });
       }
       const { passwordHash, ...safe } = customer;
-      res.json(safe);
+      const walletTransactions = await storage.getCustomerWalletTransactions(customer.id, 20);
+      res.json({
+        ...safe,
+        wallet: {
+          balance: Number.parseFloat(customer.walletBalance),
+          transactions: walletTransactions.map(serializeWalletTransaction),
+        },
+      });
     } catch {
       res.status(500).json({ message: "Failed to fetch customer" });
     }
@@ -1328,8 +1517,11 @@ export async function registerRoutes(
     const customerId = req.session.customerId;
     if (!customerId) return res.status(401).json({ message: "Login required" });
     try {
-      const packages = await storage.getCustomerPackagesWithUsage(customerId);
-      res.json(packages);
+      const [packages, shared] = await Promise.all([
+        storage.getCustomerPackagesWithUsage(customerId),
+        storage.getSharedPackagesForCustomer(customerId),
+      ]);
+      res.json([...packages, ...shared]);
     } catch {
       res.status(500).json({ message: "Failed to fetch packages" });
     }
@@ -1508,7 +1700,7 @@ export async function registerRoutes(
     storage,
     logger,
     requireAuth,
-    requireAdminOrSuperAdmin,
+    idempotent,
     broadcastDeliveryEvent,
     eventBus,
     optimizationService,
@@ -1531,6 +1723,17 @@ export async function registerRoutes(
     broadcastDeliveryEvent,
   });
 
+  registerDeliverySlotRoutes({
+    app,
+    storage,
+    logger,
+    requireAuth,
+  });
+
+  registerLoyaltyRoutes({ app, storage, logger, requireAuth });
+  registerSubscriptionRoutes({ app, storage, logger, requireAuth });
+  registerOfflinePosRoutes({ app, storage, logger });
+
   const customerInsightsService = new CustomerInsightsService();
 
   await registerGraphql({
@@ -1553,6 +1756,66 @@ export async function registerRoutes(
     eventBus,
   });
 
+  registerCustomerWalletRoutes({
+    app,
+    storage,
+    requireAuth,
+    logger,
+  });
+
+  registerCustomerHouseholdRoutes({
+    app,
+    storage,
+    requireAuth,
+    logger,
+  });
+
+  registerOrderRefundRoutes({
+    app,
+    storage,
+    logger,
+    requireAuth,
+    resolveOrderId: (idParam) => resolveUuidByPublicId(orders, idParam),
+  });
+
+  registerGarmentTagRoutes({
+    app,
+    storage,
+    logger,
+    requireAuth,
+    eventBus,
+    resolveOrderId: (idParam) => resolveUuidByPublicId(orders, idParam),
+  });
+
+  registerProductionRoutes({
+    app,
+    storage,
+    logger,
+    eventBus,
+  });
+
+  registerCapacityRoutes({
+    app,
+    storage,
+    logger,
+  });
+
+  registerBranchHoursRoutes({
+    app,
+    storage,
+    logger,
+  });
+
+  registerAccountingRoutes({
+    app,
+    storage,
+    logger,
+  });
+
+  registerRoleRoutes({ app, storage, logger });
+  registerAuditEventRoutes({ app, storage, logger });
+  registerDataQualityRoutes({ app, logger, dataQuality: options.dataQuality ?? new DataQualityService({ logger }) });
+
   app.put("/api/users/:id", requireAuth, async (req, res, next) => {
     const { id } = req.params;
     const user = req.user as UserWithBranch;
@@ -1614,6 +1877,15 @@ export async function registerRoutes(
       const newUser = await storage.createUser(validatedData);
       // Don't send password hash
       const { passwordHash, ...safeUser } = newUser;
+      if (req.audit) {
+        await req.audit.log({
+          type: "user.created",
+          entityType: "user",
+          entityId: newUser.id,
+          branchId: newUser.branchId,
+          metadata: auditChanges(null, safeUser),
+        });
+      }
       res.json(safeUser);
     } catch (error) {
       logger.error("Error creating user:", error as any);
@@ -1628,12 +1900,25 @@ export async function registerRoutes(
       if (validatedData.passwordHash === "") {
         delete validatedData.passwordHash;
       }
+      const previous = await storage.getUser(id);
       const updatedUser = await storage.updateUser(id, validatedData);
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
       // Don't send password hash
       const { passwordHash, ...safeUser } = updatedUser;
+      if (req.audit && previous) {
+        const { passwordHash: _previousHash, branch: _branch, permissions: _permissions, ...before } = previous;
+        const roleChanged = previous.role !== updatedUser.role;
+        await req.audit.log({
+          type: roleChanged ? "user.role_changed" : "user.updated",
+          entityType: "user",
+          entityId: id,
+          branchId: updatedUser.branchId,
+          severity: roleChanged ? "warning" : "info",
+          metadata: { ...auditChanges(before, safeUser), passwordChanged: Boolean(validatedData.passwordHash) },
+        });
+      }
       res.json(safeUser);
     } catch (error) {
       logger.error("Error updating user:", error as any);
@@ -1645,11 +1930,21 @@ export async function registerRoutes(
     try {
       const { id } = req.params;
       const data = insertUserSchema.pick({ branchId: true }).parse(req.body);
+      const previous = await storage.getUser(id);
       const updatedUser = await storage.updateUserBranch(id, data.branchId ?? null);
       if (!updatedUser) {
         return res.status(404).json({ message: "User not found" });
       }
       const { passwordHash, ...safeUser } = updatedUser;
+      if (req.audit) {
+        await req.audit.log({
+          type: "user.branch_changed",
+          entityType: "user",
+          entityId: id,
+          branchId: updatedUser.branchId,
+          metadata: { before: { branchId: previous?.branchId ?? null }, after: { branchId: updatedUser.branchId } },
+        });
+      }
       res.json(safeUser);
     } catch (error) {
       logger.error("Error updating user branch:", error as any);
@@ -1658,7 +1953,7 @@ export async function registerRoutes(
   });
 
   // Category management routes (Admin or Super Admin)
-  app.get("/api/categories", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/categories", requireCatalogEdit, async (req, res) => {
     try {
       const type = req.query.type as string;
       const userId = (req.user as UserWithBranch).id;
@@ -1671,7 +1966,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/categories", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/categories", requireCatalogEdit, async (req, res) => {
     try {
       const validatedData = insertCategorySchema.parse(req.body);
       const currentUser = req.user as UserWithBranch;
@@ -1688,7 +1983,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/categories/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/categories/:id", requireCatalogEdit, async (req, res) => {
     try {
       const { id } = req.params;
       const validatedData = insertCategorySchema.parse(req.body);
@@ -1713,7 +2008,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/categories/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.delete("/api/categories/:id", requireCatalogEdit, async (req, res) => {
     try {
       const { id } = req.params;
       const userId = (req.user as UserWithBranch).id;
@@ -1762,7 +2057,22 @@ export async function registerRoutes(
       const branchData = branch as any;
       const { name, nameAr, tagline, taglineAr, logoUrl, whatsappQrUrl, serviceCityIds } = branchData;
       const deliveryEnabled = branchData.deliveryEnabled || false;
-      res.json({ name, nameAr, tagline, taglineAr, logoUrl, whatsappQrUrl, serviceCityIds, deliveryEnabled });
+      // Null when the branch has not published opening hours
+      const hours = await loadBranchOpenStatus(storage, branch.id, new Date());
+      res.json({
+        name,
+        nameAr,
+        tagline,
+        taglineAr,
+        logoUrl,
+        whatsappQrUrl,
+        serviceCityIds,
+        deliveryEnabled,
+        openNow: hours?.openNow ?? null,
+        hoursToday: hours?.today ?? null,
+        hoursNote: hours?.note ?? null,
+        nextOpening: hours?.nextOpening ?? null,
+      });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch branch" });
     }
@@ -1778,7 +2088,7 @@ export async function registerRoutes(
   });
 
   // Admin Cities Management
-  app.post("/api/admin/cities", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/admin/cities", requireSettingsManage, async (req, res) => {
     try {
       const cityPayload = z
         .object({
@@ -1823,7 +2133,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/admin/cities/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/admin/cities/:id", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const payload = z
@@ -1866,7 +2176,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/admin/cities/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.delete("/api/admin/cities/:id", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const [updated] = await db
@@ -1883,7 +2193,7 @@ export async function registerRoutes(
   });
 
   // Bulk cities template (CSV)
-  app.get("/api/admin/cities/template", requireAdminOrSuperAdmin, async (_req, res) => {
+  app.get("/api/admin/cities/template", requireSettingsManage, async (_req, res) => {
     const csv = [
       [
         "nameEn",
@@ -1901,7 +2211,7 @@ export async function registerRoutes(
   });
 
   // Bulk cities sample (CSV with example data)
-  app.get("/api/admin/cities/sample", requireAdminOrSuperAdmin, async (_req, res) => {
+  app.get("/api/admin/cities/sample", requireSettingsManage, async (_req, res) => {
     const header = [
       "nameEn",
       "nameAr",
@@ -1934,7 +2244,7 @@ export async function registerRoutes(
   // Bulk cities upload (CSV)
   app.post(
     "/api/admin/cities/bulk-upload",
-    requireAdminOrSuperAdmin,
+    requireSettingsManage,
     upload.single("file"),
     async (req, res) => {
       try {
@@ -2081,6 +2391,14 @@ export async function registerRoutes(
       }
 
       const coupon = await storage.createCoupon(couponData, branchId, createdBy, clothingItemIds, serviceIds);
+      if (req.audit) {
+        await req.audit.log({
+          type: "coupon.created",
+          entityType: "coupon",
+          entityId: coupon.id,
+          metadata: { ...auditChanges(null, coupon), clothingItemIds, serviceIds },
+        });
+      }
       res.status(201).json(coupon);
     } catch (error: any) {
       res.status(400).json({ message: error.message || "Failed to create coupon" });
@@ -2101,8 +2419,17 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Services must be specified for service-specific coupons" });
       }
 
+      const previous = await storage.getCoupon(id, branchId);
       const coupon = await storage.updateCoupon(id, couponData, branchId, clothingItemIds, serviceIds);
       if (!coupon) return res.status(404).json({ message: "Coupon not found" });
+      if (req.audit) {
+        await req.audit.log({
+          type: "coupon.updated",
+          entityType: "coupon",
+          entityId: id,
+          metadata: { ...auditChanges(previous ?? {}, coupon), clothingItemIds, serviceIds },
+        });
+      }
       res.json(coupon);
     } catch (error: any) {
       res.status(400).json({ message: error.message || "Failed to update coupon" });
@@ -2113,8 +2440,18 @@ export async function registerRoutes(
     try {
       const { id } = req.params;
       const branchId = (req.user as UserWithBranch)?.branchId || undefined;
+      const previous = await storage.getCoupon(id, branchId);
       const deleted = await storage.deleteCoupon(id, branchId);
       if (!deleted) return res.status(404).json({ message: "Coupon not found" });
+      if (req.audit) {
+        await req.audit.log({
+          type: "coupon.deleted",
+          entityType: "coupon",
+          entityId: id,
+          severity: "warning",
+          metadata: auditChanges(previous ?? {}, null),
+        });
+      }
       res.json({ message: "Coupon deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete coupon" });
@@ -2380,8 +2717,15 @@ export async function registerRoutes(
     }
   });
 
+  registerTaxProfileRoutes({
+    app,
+    storage,
+    logger,
+    requireAuth,
+  });
+
   // Order management routes for branches
-  app.put("/api/orders/:orderId/status", requireAuth, async (req, res) => {
+  app.put("/api/orders/:orderId/status", requirePermission(RBAC_PERMISSION_SLUGS.ordersEdit), async (req, res) => {
     try {
       const { orderId } = req.params;
       const { status, notes, updatedBy } = req.body;
@@ -2544,7 +2888,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/branches/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/branches/:id", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -2577,7 +2921,7 @@ export async function registerRoutes(
 
   app.post(
     "/api/branches/:id/logo",
-    requireAdminOrSuperAdmin,
+    requireSettingsManage,
     uploadLogo.single("logo"),
     async (req, res) => {
       try {
@@ -2605,7 +2949,7 @@ export async function registerRoutes(
   // Upload WhatsApp QR code image for branch
   app.post(
     "/api/branches/:id/whatsapp-qr",
-    requireAdminOrSuperAdmin,
+    requireSettingsManage,
     uploadLogo.single("whatsappQr"),
     async (req, res) => {
       try {
@@ -2644,7 +2988,7 @@ export async function registerRoutes(
   });
 
   // Branch QR Code Management Routes
-  app.get("/api/branches/:id/qr-codes", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/branches/:id/qr-codes", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -2664,7 +3008,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/branches/:id/qr-codes/active", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/branches/:id/qr-codes/active", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -2686,7 +3030,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/branches/:id/qr-codes", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/branches/:id/qr-codes", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -2714,7 +3058,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/branches/:id/qr-codes/:qrId/deactivate", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/branches/:id/qr-codes/:qrId/deactivate", requireSettingsManage, async (req, res) => {
     try {
       const { id, qrId } = req.params;
       const user = req.user as User;
@@ -2737,7 +3081,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/branches/:id/qr-codes/regenerate", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/branches/:id/qr-codes/regenerate", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -2791,7 +3135,7 @@ export async function registerRoutes(
 
   app.put(
     "/api/admin/branches/:id/service-cities",
-    requireAdminOrSuperAdmin,
+    requireSettingsManage,
     async (req, res) => {
       try {
         const { id } = req.params;
@@ -2809,7 +3153,7 @@ export async function registerRoutes(
   );
 
   // Security settings (Admin or Super Admin)
-  app.get("/api/security-settings", requireAdminOrSuperAdmin, async (_req, res) => {
+  app.get("/api/security-settings", requireSettingsManage, async (_req, res) => {
     try {
       const settings = await storage.getSecuritySettings();
       res.json(settings);
@@ -2818,7 +3162,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/security-settings", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/security-settings", requireSettingsManage, async (req, res) => {
     try {
       const validated = insertSecuritySettingsSchema.parse(req.body);
       const updated = await storage.updateSecuritySettings(validated);
@@ -2949,7 +3293,7 @@ export async function registerRoutes(
     },
   );
 
-  app.post("/api/products", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/products", requireCatalogEdit, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const branchId =
@@ -2966,7 +3310,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/products/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/products/:id", requireCatalogEdit, async (req, res) => {
     try {
       const id = await resolveUuidByPublicId(products, req.params.id);
       const user = req.user as UserWithBranch;
@@ -2976,10 +3320,23 @@ export async function registerRoutes(
         return res.status(400).json({ message: "branchId is required" });
       }
       const validatedData = insertProductSchema.partial().parse(req.body);
+      const previous = await storage.getProduct(id, branchId);
       const updatedProduct = await storage.updateProduct(id, validatedData, branchId);
       if (!updatedProduct) {
         return res.status(404).json({ message: "Product not found" });
       }
+      if (req.audit && previous) {
+        const changes = auditChanges(previous, updatedProduct);
+        if (changes.after && Object.keys(changes.after).length > 0) {
+          await req.audit.log({
+            type: changes.after.price !== undefined ? "price.updated" : "product.updated",
+            entityType: "product",
+            entityId: id,
+            branchId,
+            metadata: changes,
+          });
+        }
+      }
       res.json(updatedProduct);
     } catch (error) {
       logger.error("Error updating product:", error as any);
@@ -3151,7 +3508,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/clothing-items", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/clothing-items", requireCatalogEdit, async (req, res) => {
     try {
       const validatedData = insertClothingItemSchema.parse(req.body);
       const userId = (req.user as UserWithBranch).id;
@@ -3173,7 +3530,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/clothing-items/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/clothing-items/:id", requireCatalogEdit, async (req, res) => {
     try {
       const id = await resolveUuidByPublicId(clothingItems, req.params.id);
       const validatedData = insertClothingItemSchema.partial().parse(req.body);
@@ -3189,7 +3546,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/clothing-items/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.delete("/api/clothing-items/:id", requireCatalogEdit, async (req, res) => {
     try {
       const id = await resolveUuidByPublicId(clothingItems, req.params.id);
       const userId = (req.user as UserWithBranch).id;
@@ -3324,7 +3681,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/laundry-services", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/laundry-services", requireCatalogEdit, async (req, res) => {
     try {
       const validatedData = insertLaundryServiceSchema.parse(req.body);
       const userId = (req.user as UserWithBranch).id;
@@ -3343,7 +3700,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/laundry-services/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/laundry-services/:id", requireCatalogEdit, async (req, res) => {
     try {
       const id = await resolveUuidByPublicId(laundryServices, req.params.id);
       const validatedData = insertLaundryServiceSchema.partial().parse(req.body);
@@ -3359,7 +3716,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/laundry-services/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.delete("/api/laundry-services/:id", requireCatalogEdit, async (req, res) => {
     try {
       const id = await resolveUuidByPublicId(laundryServices, req.params.id);
       const userId = (req.user as UserWithBranch).id;
@@ -3375,12 +3732,21 @@ export async function registerRoutes(
   });
 
   // Item-service price management
-  app.post("/api/item-service-prices", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/item-service-prices", requirePriceEdit, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const body = { ...req.body, branchId: req.body.branchId ?? user.branchId };
       const data = insertItemServicePriceSchema.parse(body);
       const record = await storage.createItemServicePrice(data);
+      if (req.audit) {
+        await req.audit.log({
+          type: "price.created",
+          entityType: "item_service_price",
+          entityId: `${data.clothingItemId}:${data.serviceId}`,
+          branchId: data.branchId,
+          metadata: { before: null, after: { price: String(data.price) } },
+        });
+      }
       res.json(record);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -3394,11 +3760,12 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/item-service-prices", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/item-service-prices", requirePriceEdit, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const body = { ...req.body, branchId: req.body.branchId ?? user.branchId };
       const data = insertItemServicePriceSchema.parse(body);
+      const previousPrice = await storage.getItemServicePrice(data.clothingItemId, data.serviceId, user.id, data.branchId!);
         const updated = await storage.updateItemServicePrice(
           data.clothingItemId,
           data.serviceId,
@@ -3408,6 +3775,18 @@ export async function registerRoutes(
       if (!updated) {
         return res.status(404).json({ message: "Item service price not found" });
       }
+      if (req.audit) {
+        await req.audit.log({
+          type: "price.updated",
+          entityType: "item_service_price",
+          entityId: `${data.clothingItemId}:${data.serviceId}`,
+          branchId: data.branchId,
+          metadata: {
+            before: { price: previousPrice != null ? String(previousPrice) : null },
+            after: { price: data.price.toString() },
+          },
+        });
+      }
       res.json(updated);
     } catch (error) {
       logger.error("Error updating item service price:", error as any);
@@ -3415,7 +3794,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/item-service-prices", requireAdminOrSuperAdmin, async (req, res) => {
+  app.delete("/api/item-service-prices", requirePriceEdit, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { clothingItemId, serviceId, branchId } = req.body as {
@@ -3423,11 +3802,21 @@ export async function registerRoutes(
         serviceId: string;
         branchId?: string;
       };
+      const previousPrice = await storage.getItemServicePrice(clothingItemId, serviceId, user.id, branchId ?? user.branchId!);
       const deleted = await storage.deleteItemServicePrice(
         clothingItemId,
         serviceId,
         branchId ?? user.branchId!,
       );
+      if (deleted && req.audit) {
+        await req.audit.log({
+          type: "price.deleted",
+          entityType: "item_service_price",
+          entityId: `${clothingItemId}:${serviceId}`,
+          branchId: branchId ?? user.branchId,
+          metadata: { before: { price: previousPrice != null ? String(previousPrice) : null }, after: null },
+        });
+      }
       res.json({ success: deleted });
     } catch (error) {
       logger.error("Error deleting item service price:", error as any);
@@ -3528,7 +3917,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/packages", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/packages", requireCatalogEdit, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const data =
@@ -3550,7 +3939,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/packages/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/packages/:id", requireCatalogEdit, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const data =
@@ -3585,7 +3974,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/packages/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.delete("/api/packages/:id", requireCatalogEdit, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const branchId =
@@ -3680,7 +4069,8 @@ export async function registerRoutes(
             receivedBy: user.username || "System",
           });
           
-          await storage.createPayment(paymentData);
+          const payment = await storage.createPayment(paymentData, { purpose: "package" });
+          await publishPaymentReceived(payment, user);
         }
       } catch (error) {
         logger.error("Error in package assignment/payment:", error as any);
@@ -3720,12 +4110,13 @@ export async function registerRoutes(
         return res.status(400).json({ message: "User branch not set" });
       }
 
+      // Loyalty is settled when the order is created; client-sent point counts are ignored
       const {
         customerId,
         customerName,
         customerPhone,
-        loyaltyPointsEarned = 0,
-        loyaltyPointsRedeemed = 0,
+        loyaltyPointsEarned: _clientPointsEarned,
+        loyaltyPointsRedeemed: _clientPointsRedeemed,
         promisedReadyOption,
         promisedReadyDate,
         ...transactionData
@@ -3733,6 +4124,7 @@ export async function registerRoutes(
       const validatedData = insertTransactionSchema.parse(transactionData);
 
       let orderId = validatedData.orderId;
+      let createdOrder: Order | null = null;
       if (!orderId) {
         const orderData = insertOrderSchema.parse({
           customerId,
@@ -3748,8 +4140,8 @@ export async function registerRoutes(
           promisedReadyOption,
           promisedReadyDate,
         });
-        const order = await storage.createOrder({ ...orderData, branchId: user.branchId });
-        orderId = order.id;
+        createdOrder = await storage.createOrder({ ...orderData, branchId: user.branchId });
+        orderId = createdOrder.id;
       }
 
       const transaction = await storage.createTransaction({
@@ -3758,25 +4150,34 @@ export async function registerRoutes(
         orderId,
       });
 
-      if (customerId) {
-        const customer = await storage.getCustomer(customerId, user.branchId);
-        if (customer) {
-          const newPoints = customer.loyaltyPoints + (loyaltyPointsEarned - loyaltyPointsRedeemed);
-          await storage.updateCustomer(customerId, { loyaltyPoints: newPoints });
-          if (loyaltyPointsEarned > 0) {
-            await storage.createLoyaltyHistory({
-              customerId,
-              change: loyaltyPointsEarned,
-              description: `Earned from transaction ${transaction.id}`,
-            });
-          }
-          if (loyaltyPointsRedeemed > 0) {
-            await storage.createLoyaltyHistory({
-              customerId,
-              change: -loyaltyPointsRedeemed,
-              description: `Redeemed in transaction ${transaction.id}`,
+      // Sales recorded without an existing order earn like any other order
+      if (customerId && createdOrder) {
+        try {
+          const customer = await storage.getCustomer(customerId, user.branchId);
+          if (customer) {
+            const prepared = await prepareOrderLoyalty(storage, {
+              branchId: user.branchId,
+              customer,
+              orderTotal: Number.parseFloat(createdOrder.total),
+              redeemPoints: 0,
+              now: new Date(),
             });
+            if (prepared.ok) {
+              await postOrderLoyalty(storage, prepared.plan, {
+                customerId,
+                branchId: user.branchId,
+                orderId: createdOrder.id,
+                lines: (Array.isArray(validatedData.items) ? validatedData.items : []).map((item: any) => ({
+                  serviceId: item.serviceId ?? item.service?.id ?? null,
+                  amount: Number(item.total) || 0,
+                })),
+                orderTotal: Number.parseFloat(createdOrder.total),
+                now: new Date(),
+              });
+            }
           }
+        } catch (error) {
+          logger.error({ err: error, orderId: createdOrder.id }, "Failed to post loyalty points");
         }
       }
       let packages = [] as any[];
@@ -3888,6 +4289,58 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/customers/export", requirePermission(RBAC_PERMISSION_SLUGS.customersExport), async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const branchId = user.role === "super_admin" ? undefined : user.branchId || undefined;
+      const includeInactive = req.query.includeInactive === "true";
+      const header = [
+        "customer_id","name","nickname","phone_number","email","balance_due","wallet_balance","total_spent","loyalty_points","is_active","created_at"
+      ];
+      const escape = (v: any) => {
+        const s = v == null ? "" : String(v);
+        if (s.includes(",") || s.includes("\n") || s.includes('"')) {
+          return '"' + s.replace(/"/g, '""') + '"';
+        }
+        return s;
+      };
+      const lines = [header.join(",")];
+      const pageSize = 500;
+      for (let offset = 0; ; offset += pageSize) {
+        const { items } = await storage.getCustomers(undefined, includeInactive, branchId, pageSize, offset);
+        for (const c of items) {
+          lines.push([
+            c.id,
+            c.name,
+            c.nickname ?? "",
+            c.phoneNumber,
+            c.email ?? "",
+            c.balanceDue,
+            c.walletBalance,
+            c.totalSpent,
+            c.loyaltyPoints,
+            c.isActive,
+            c.createdAt instanceof Date ? c.createdAt.toISOString() : c.createdAt,
+          ].map(escape).join(","));
+        }
+        if (items.length < pageSize) break;
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "customers.exported",
+          entityType: "customer",
+          metadata: { branchId: branchId ?? null, rows: lines.length - 1 },
+        });
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="customers.csv"');
+      res.send(lines.join("\n"));
+    } catch (error) {
+      logger.error({ err: error }, "failed to export customers");
+      res.status(500).json({ message: "Failed to export customers" });
+    }
+  });
+
   app.get("/api/customers/:id", requireAuth, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
@@ -3912,10 +4365,12 @@ export async function registerRoutes(
       if (!customer) {
         return res.status(404).json({ message: "Customer not found" });
       }
-      const packages = await storage.getCustomerPackagesWithUsage(
-        req.params.customerId,
-      );
-      res.json(packages);
+      // Packages household members share with the customer follow their own, flagged with the owner
+      const [packages, shared] = await Promise.all([
+        storage.getCustomerPackagesWithUsage(customer.id),
+        storage.getSharedPackagesForCustomer(customer.id),
+      ]);
+      res.json([...packages, ...shared]);
     } catch (error) {
       logger.error(
         { err: error, customerId: req.params.customerId },
@@ -3953,7 +4408,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/customers", requireAuth, async (req, res) => {
+  app.post("/api/customers", requirePermission(RBAC_PERMISSION_SLUGS.customersEdit), async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       // Super admin may specify branchId in body; admins use their own branch
@@ -3986,7 +4441,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/customers/:id", requireAuth, async (req, res) => {
+  app.patch("/api/customers/:id", requirePermission(RBAC_PERMISSION_SLUGS.customersEdit), async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const branchId = user.role === "super_admin" ? undefined : user.branchId || undefined;
@@ -4068,7 +4523,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/customers/:id", requireAuth, async (req, res) => {
+  app.delete("/api/customers/:id", requirePermission(RBAC_PERMISSION_SLUGS.customersEdit), async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const branchId = user.role === "super_admin" ? undefined : user.branchId || undefined;
@@ -4304,15 +4759,19 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/orders", requireAuth, async (req, res) => {
+  app.post("/api/orders", requirePermission(RBAC_PERMISSION_SLUGS.ordersCreate), idempotent, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const {
-        loyaltyPointsEarned = 0,
+        // Earnings are decided here; a client-sent loyaltyPointsEarned is dropped
+        loyaltyPointsEarned: _clientPointsEarned,
         loyaltyPointsRedeemed = 0,
         cartItems,
         customerId,
         branchCode,
+        couponCode,
+        express,
+        offline: offlineInput,
         ...data
       } = req.body;
 
@@ -4333,6 +4792,25 @@ export async function registerRoutes(
       }
       const effectiveBranchId = user.branchId ?? branch.id;
 
+      // Orders rung up on an offline POS are created even when prices, credits or dates moved meanwhile
+      let offline: OfflineOrder | null = null;
+      const offlineConflicts: OfflineConflict[] = [];
+      if (offlineInput !== undefined) {
+        const parsedOffline = offlineOrderSchema.safeParse(offlineInput);
+        if (!parsedOffline.success) {
+          return res.status(400).json({ message: "Invalid offline order", errors: parsedOffline.error.flatten() });
+        }
+        offline = parsedOffline.data;
+        // A device retrying a sync gets the order it already created
+        const synced = await storage.getOrderByOfflineId(offline.id);
+        if (synced) {
+          if (synced.branchId !== effectiveBranchId) {
+            return res.status(409).json({ message: "Offline order belongs to another branch", code: "OFFLINE_ORDER_CONFLICT" });
+          }
+          return res.status(200).json({ ...synced, offlineReplay: true, offlineConflicts: synced.offlineConflicts ?? [] });
+        }
+      }
+
       // If no customer was selected, use/create a branch-scoped Walk-in Customer
       let effectiveCustomerId: string | undefined = customerId;
       if (!effectiveCustomerId) {
@@ -4360,39 +4838,149 @@ export async function registerRoutes(
       const packageComputeResult = effectiveCustomerId
         ? await computePackageUsage(effectiveCustomerId, cartItems, storage)
         : null;
-      let pkgUsages: any = null;
-
-      if (packageComputeResult) {
-        try {
-          pkgUsages = packageUsagesSchema.parse(packageComputeResult.packageUsages);
-
-          // Update customer package balances with used credits
-          for (const credit of packageComputeResult.usedCredits) {
-            await storage.updateCustomerPackageBalance(
-              credit.customerPackageId,
-              -credit.quantity, // Negative to deduct credits
-              credit.serviceId,
-              credit.clothingItemId
-            );
-          }
-          logger.info({ customerId, pkgUsages }, "Applied server-computed package usages");
-        } catch (schemaError) {
-          logger.error({ schemaError, packageUsages: packageComputeResult.packageUsages }, "Invalid computed packageUsages schema");
-          pkgUsages = null;
+      const usedCredits = packageComputeResult?.usedCredits || [];
+
+      // Coupons cannot be combined with package credits; validate the code server-side
+      let couponResult: Awaited<ReturnType<IStorage["validateCoupon"]>> | null = null;
+      if (couponCode && usedCredits.length === 0) {
+        const couponCart = await Promise.all(
+          cartItems.map(async (item: any) => {
+            const price =
+              (await storage.getItemServicePrice(item.clothingItemId, item.serviceId, user.id, effectiveBranchId)) ?? 0;
+            return {
+              clothingItem: { id: item.clothingItemId },
+              service: { id: item.serviceId },
+              quantity: item.quantity,
+              total: price * (Number(item.quantity) || 0),
+            };
+          }),
+        );
+        couponResult = await storage.validateCoupon(String(couponCode), effectiveBranchId, couponCart);
+        if (!couponResult.valid) {
+          return res.status(400).json({ message: couponResult.message || "Invalid coupon" });
         }
       }
 
+      // Branches with capacity planning decide the promised date; express is priced on top of the cart
+      const readyPlan = await planBranchReadyDates(storage, effectiveBranchId, cartItems);
+      const requestedReadyDate = typeof data.promisedReadyDate === "string" ? data.promisedReadyDate.slice(0, 10) : null;
+      let readyDecision = resolveReadyDate(readyPlan, { express: express === true, requestedDate: requestedReadyDate });
+      if (!readyDecision.ok && offline) {
+        // The promised day filled up or closed while the device was offline; take the earliest standard day instead
+        const fallback = resolveReadyDate(readyPlan, { express: false, requestedDate: null });
+        offlineConflicts.push({
+          type: "ready_date",
+          message: readyDecision.message,
+          expected: requestedReadyDate,
+          actual: fallback.ok ? fallback.promisedReadyDate ?? null : null,
+        });
+        readyDecision = fallback.ok ? fallback : { ok: true, expressSurchargePercent: 0 };
+      }
+      if (!readyDecision.ok) {
+        return res.status(409).json({ message: readyDecision.message, code: readyDecision.code });
+      }
+      if (readyDecision.promisedReadyDate) {
+        data.promisedReadyDate = readyDecision.promisedReadyDate;
+        data.promisedReadyOption = readyDecision.promisedReadyOption;
+      }
+
+      const taxProfile = await storage.getActiveBranchTaxProfile(effectiveBranchId);
       const totals = await computeTotalsWithCredits(
         cartItems,
-        packageComputeResult?.usedCredits || [],
+        usedCredits,
         storage,
         user.id,
         effectiveBranchId,
+        {
+          taxProfile,
+          discount: couponResult?.discount ?? 0,
+          expressSurchargePercent: readyDecision.expressSurchargePercent,
+        },
       );
+
+      // Reject orders priced with a stale or locally edited tax configuration
+      const mismatched = (["tax", "total"] as const).some((key) => {
+        if (data[key] === undefined || data[key] === null || data[key] === "") return false;
+        const claimed = Number(data[key]);
+        return !Number.isFinite(claimed) || Math.abs(claimed - totals[key]) > TAX_TOTALS_TOLERANCE;
+      });
+      // What the cashier collected offline; a higher server total is left owing on the order
+      const offlineClaimedTotal =
+        offline && data.total !== undefined && data.total !== null && data.total !== "" && Number.isFinite(Number(data.total))
+          ? Number(data.total)
+          : null;
+      if (offline) {
+        offlineConflicts.push(
+          ...offlineSyncConflicts({
+            claimedTotal: offlineClaimedTotal,
+            packageCredits: offline.packageCredits,
+            total: totals.total,
+            appliedPackageCredits: usedCredits.reduce((sum, credit) => sum + credit.quantity, 0),
+          }),
+        );
+      } else if (mismatched) {
+        return res.status(409).json({
+          message: "Order totals do not match the branch tax configuration",
+          code: "ORDER_TOTALS_MISMATCH",
+          expected: totals.breakdown,
+        });
+      }
+
       data.subtotal = totals.subtotal.toFixed(2);
       data.tax = totals.tax.toFixed(2);
       data.total = totals.total.toFixed(2);
 
+      // Only selected customers take part in loyalty; the shared walk-in record never earns
+      const redeemPoints = Number(loyaltyPointsRedeemed) || 0;
+      let loyaltyPlan: OrderLoyaltyPlan | null = null;
+      if (customerId) {
+        const loyaltyCustomer = await storage.getCustomer(customerId, effectiveBranchId);
+        if (loyaltyCustomer) {
+          const prepared = await prepareOrderLoyalty(storage, {
+            branchId: effectiveBranchId,
+            customer: loyaltyCustomer,
+            orderTotal: totals.total,
+            redeemPoints,
+            now: new Date(),
+          });
+          if (!prepared.ok) {
+            return res.status(400).json({ message: prepared.message, code: prepared.code });
+          }
+          loyaltyPlan = prepared.plan;
+        }
+      }
+      if (redeemPoints > 0 && !loyaltyPlan) {
+        return res.status(400).json({ message: "Redeeming points requires a customer", code: "LOYALTY_CUSTOMER_REQUIRED" });
+      }
+
+      // Wallet-funded orders need an identified customer with enough store credit
+      if (data.paymentMethod === 'wallet') {
+        const walletCustomer = customerId ? await storage.getCustomer(customerId, effectiveBranchId) : undefined;
+        if (!walletCustomer) {
+          return res.status(400).json({ message: "Wallet payments require a customer" });
+        }
+        if (Number.parseFloat(walletCustomer.walletBalance) + 1e-6 < totals.total - (loyaltyPlan?.redeemedValue ?? 0)) {
+          return res.status(400).json({
+            message: "Insufficient wallet balance",
+            code: "WALLET_INSUFFICIENT_FUNDS",
+            balance: walletCustomer.walletBalance,
+          });
+        }
+      }
+
+      let pkgUsages: any = null;
+
+      if (packageComputeResult) {
+        try {
+          // Credits are deducted once the order exists, so each use is recorded against it
+          pkgUsages = packageUsagesSchema.parse(packageComputeResult.packageUsages);
+          logger.info({ customerId, pkgUsages }, "Computed server-side package usages");
+        } catch (schemaError) {
+          logger.error({ schemaError, packageUsages: packageComputeResult.packageUsages }, "Invalid computed packageUsages schema");
+          pkgUsages = null;
+        }
+      }
+
       const {
         customerName,
         customerPhone,
@@ -4420,6 +5008,7 @@ export async function registerRoutes(
         status: status || 'start_processing',
         promisedReadyDate,
         promisedReadyOption,
+        expressSurcharge: totals.expressSurcharge.toFixed(2),
         notes,
         sellerName: sellerName || (user as any)?.username || "POS User",
         isDeliveryRequest: isDeliveryRequest ?? false,
@@ -4427,33 +5016,146 @@ export async function registerRoutes(
 
       const orderData = insertOrderSchema.parse({ ...safeData, items: cartItems, customerId: effectiveCustomerId });
 
-      const order = await storage.createOrder({ ...orderData, branchId: effectiveBranchId, packageUsages: pkgUsages });
+      let order: Order;
+      try {
+        order = await storage.createOrder(
+          {
+            ...orderData,
+            branchId: effectiveBranchId,
+            packageUsages: pkgUsages,
+            taxBreakdown: totals.breakdown,
+            ...(offline
+              ? { offlineId: offline.id, offlineCreatedAt: offline.createdAt, offlineConflicts }
+              : {}),
+          },
+          offline?.reservationId && offline.orderNumber
+            ? { reservedOrderNumber: { reservationId: offline.reservationId, orderNumber: offline.orderNumber } }
+            : undefined,
+        );
+      } catch (error) {
+        // Two syncs of the same offline order raced; the loser answers with the winner's order
+        const synced = offline ? await storage.getOrderByOfflineId(offline.id) : undefined;
+        if (!synced) throw error;
+        return res.status(200).json({ ...synced, offlineReplay: true, offlineConflicts: synced.offlineConflicts ?? [] });
+      }
+
+      if (offline?.orderNumber && order.orderNumber !== offline.orderNumber) {
+        offlineConflicts.push({
+          type: "order_number",
+          message: `${offline.orderNumber} could not be kept; the order was numbered ${order.orderNumber}`,
+          expected: offline.orderNumber,
+          actual: order.orderNumber,
+        });
+        order = (await storage.updateOrder(order.id, { offlineConflicts })) ?? order;
+      }
 
-      // Record immediate payment for non-pay-later orders so cash/card receipts are reflected in reports
-      if (order.paymentMethod !== 'pay_later' && order.customerId) {
+      if (couponResult?.coupon && totals.breakdown.discount > 0) {
         try {
-          const paymentData = insertPaymentSchema.parse({
+          await storage.applyCoupon(couponResult.coupon.id, totals.breakdown.discount, order.id, order.customerId ?? undefined);
+        } catch (error) {
+          logger.error({ err: error, orderId: order.id }, "Failed to record coupon usage");
+        }
+      }
+
+      let loyalty: OrderLoyaltyOutcome | null = null;
+      if (loyaltyPlan && order.customerId) {
+        try {
+          loyalty = await postOrderLoyalty(storage, loyaltyPlan, {
             customerId: order.customerId,
-            orderId: order.id,
             branchId: effectiveBranchId,
-            amount: order.total,
-            paymentMethod: order.paymentMethod,
-            channel: 'pos',
-            notes: `Order payment: ${order.orderNumber || order.id}`,
-            receivedBy: (user as any)?.username || 'POS User',
+            orderId: order.id,
+            lines: cartItems.map((item: any) => ({ serviceId: item.serviceId, amount: Number(item.total) || 0 })),
+            orderTotal: Number.parseFloat(order.total),
+            now: new Date(),
           });
-          await storage.createPayment(paymentData);
+        } catch (error) {
+          logger.error({ err: error, orderId: order.id }, "Failed to post loyalty points");
+        }
+      }
+      // The order keeps its full total; redeemed points pay for part of it
+      const amountDue = Math.max(Number.parseFloat(order.total) - (loyalty?.redeemedValue ?? 0), 0);
+
+      if (amountDue <= 0) {
+        // Fully paid with points
+      } else if (order.paymentMethod === 'wallet' && order.customerId) {
+        try {
+          const paid = await storage.payWithCustomerWallet(
+            {
+              customerId: order.customerId,
+              orderId: order.id,
+              branchId: effectiveBranchId,
+              amount: amountDue.toFixed(2),
+              paymentMethod: 'wallet',
+              channel: 'pos',
+              notes: `Order payment: ${order.orderNumber || order.id}`,
+              receivedBy: (user as any)?.username || 'POS User',
+            },
+            user.id,
+          );
+          if (paid) {
+            await publishPaymentReceived(paid.payment, user);
+          } else {
+            // The wallet was drained between the balance check and the charge; carry the order as owed
+            logger.error({ orderId: order.id, customerId: order.customerId }, 'Wallet balance no longer covers order');
+            await storage.updateCustomerBalance(order.customerId, amountDue, effectiveBranchId);
+          }
+        } catch (err) {
+          logger.error({ err, orderId: order.id }, 'Failed to charge customer wallet for order');
+        }
+      } else if (order.paymentMethod !== 'pay_later' && order.customerId) {
+        // Record immediate payment for non-pay-later orders so cash/card receipts are reflected in reports
+        try {
+          // Offline, the cashier collected what the device showed; anything the server adds is owed
+          const paid = offlineClaimedTotal === null ? amountDue : Math.min(amountDue, Math.max(offlineClaimedTotal, 0));
+          if (paid > 0) {
+            const paymentData = insertPaymentSchema.parse({
+              customerId: order.customerId,
+              orderId: order.id,
+              branchId: effectiveBranchId,
+              amount: paid.toFixed(2),
+              paymentMethod: order.paymentMethod,
+              channel: 'pos',
+              notes: `Order payment: ${order.orderNumber || order.id}`,
+              receivedBy: (user as any)?.username || 'POS User',
+            });
+            const payment = await storage.createPayment(paymentData);
+            await publishPaymentReceived(payment, user);
+          }
+          const shortfall = Math.round((amountDue - paid) * 100) / 100;
+          if (shortfall > 0) {
+            await storage.updateCustomerBalance(order.customerId, shortfall, effectiveBranchId);
+          }
         } catch (err) {
           logger.error({ err, orderId: order.id }, 'Failed to record immediate payment for order');
         }
       }
 
+      // Online the POS records the sale itself; offline orders get theirs from the server's pricing, once
+      if (offline && order.paymentMethod !== 'pay_later') {
+        try {
+          await storage.createTransaction({
+            ...insertTransactionSchema.parse({
+              items: cartItems,
+              subtotal: order.subtotal,
+              tax: order.tax,
+              total: amountDue.toFixed(2),
+              paymentMethod: order.paymentMethod,
+              sellerName: order.sellerName,
+            }),
+            branchId: effectiveBranchId,
+            orderId: order.id,
+          });
+        } catch (error) {
+          logger.error({ err: error, orderId: order.id }, "Failed to record offline sale transaction");
+        }
+      }
+
       // If payment method is pay_later, update customer balance
-      if (order.paymentMethod === 'pay_later' && order.customerId) {
+      if (order.paymentMethod === 'pay_later' && order.customerId && amountDue > 0) {
         try {
           const customer = await storage.getCustomer(order.customerId, effectiveBranchId);
           if (customer) {
-            const orderAmount = parseFloat(order.total);
+            const orderAmount = amountDue;
             const updatedBalance = parseFloat(customer.balanceDue) + orderAmount;
 
             await storage.updateCustomer(order.customerId, {
@@ -4466,85 +5168,51 @@ export async function registerRoutes(
         }
       }
 
-      if (order.customerId) {
+      if (order.customerId && packageComputeResult && Array.isArray(pkgUsages) && pkgUsages.length > 0) {
         try {
-          const customer = await storage.getCustomer(order.customerId, user.branchId ?? undefined);
-          if (customer) {
-            const newPoints = customer.loyaltyPoints + (loyaltyPointsEarned - loyaltyPointsRedeemed);
-            await storage.updateCustomer(order.customerId, { loyaltyPoints: newPoints });
-            if (loyaltyPointsEarned > 0) {
-              await storage.createLoyaltyHistory({
-                customerId: order.customerId,
-                change: loyaltyPointsEarned,
-                description: `Earned from order ${order.id}`,
-              });
-            }
-            if (loyaltyPointsRedeemed > 0) {
-              await storage.createLoyaltyHistory({
-                customerId: order.customerId,
-                change: -loyaltyPointsRedeemed,
-                description: `Redeemed in order ${order.id}`,
-              });
-            }
-          }
-        } catch (error) {
-          logger.error("Error updating loyalty points:", error as any);
-          // Continue with order creation even if loyalty points fail
-        }
-      }
+          await storage.consumePackageCredits({
+            orderId: order.id,
+            customerId: order.customerId,
+            credits: packageComputeResult.usedCredits,
+          });
 
-      if (order.customerId && Array.isArray(pkgUsages) && pkgUsages.length > 0) {
-        try {
-          let pkgs: any[] = [];
-          try {
-            pkgs = await storage.getCustomerPackagesWithUsage(order.customerId);
-          } catch (error) {
-            logger.error(
-              { err: error, customerId: order.customerId },
-              "Failed to fetch customer packages for usage validation",
-            );
-            // Continue without package usage but don't fail the order
-            pkgs = [];
+          const usedByPackage = new Map<string, number>();
+          for (const credit of packageComputeResult.usedCredits) {
+            usedByPackage.set(credit.customerPackageId, (usedByPackage.get(credit.customerPackageId) ?? 0) + credit.quantity);
           }
-
-          for (const usage of pkgUsages) {
-            const pkg = pkgs.find(
-              (p: any) => p.packageId === usage.packageId || p.id === usage.packageId,
-            );
-            if (!pkg) {
-              logger.warn({ packageId: usage.packageId }, "Package not found for usage");
-              continue;
-            }
-
-            let validPackageUsage = true;
-            for (const item of usage.items || []) {
-              const pkgItem = pkg.items?.find(
-                (i: any) =>
-                  i.serviceId === item.serviceId &&
-                  i.clothingItemId === item.clothingItemId,
-              );
-              if (!pkgItem || pkgItem.balance < item.quantity) {
-                logger.error("Insufficient package credits for item:", item as any);
-                validPackageUsage = false;
-                break;
-              }
-            }
-
-            if (!validPackageUsage) {
-              continue;
-            }
-
-            for (const item of usage.items || []) {
-              await storage.updateCustomerPackageBalance(
-                pkg.id,
-                -item.quantity,
-                item.serviceId,
-                item.clothingItemId,
-              );
+          const [ownPackages, sharedPackages] = await Promise.all([
+            storage.getCustomerPackagesWithUsage(order.customerId),
+            storage.getSharedPackagesForCustomer(order.customerId),
+          ]);
+          const touched = [
+            ...ownPackages.map((pkg) => ({ pkg, ownerCustomerId: order.customerId! })),
+            ...sharedPackages.map((pkg) => ({ pkg, ownerCustomerId: pkg.ownerCustomerId })),
+          ].filter(({ pkg }) => usedByPackage.has(pkg.id));
+
+          for (const { pkg, ownerCustomerId } of touched) {
+            const remaining = Number(pkg.balance);
+            const previous = remaining + (usedByPackage.get(pkg.id) ?? 0);
+            if (previous > PACKAGE_LOW_BALANCE_CREDITS && remaining <= PACKAGE_LOW_BALANCE_CREDITS) {
+              await publishAnalyticsEvent({
+                source: "api.orders",
+                category: "customer.account",
+                name: "package_balance_low",
+                payload: {
+                  customerId: ownerCustomerId,
+                  branchId: effectiveBranchId,
+                  orderId: order.id,
+                  customerPackageId: pkg.id,
+                  packageId: pkg.packageId ?? null,
+                  packageName: pkg.nameEn || null,
+                  remainingCredits: remaining,
+                  totalCredits: Number(pkg.totalCredits) || undefined,
+                },
+                actor: { actorId: user.id, actorType: "user", actorName: getActorName(user) },
+              });
             }
           }
         } catch (error) {
-          logger.error("Error processing package usage:", error as any);
+          logger.error({ err: error, orderId: order.id }, "Error processing package usage");
           // Continue with order creation even if package usage fails
         }
       }
@@ -4562,7 +5230,46 @@ export async function registerRoutes(
         }
       }
 
-      res.status(201).json({ ...order, packages });
+      const orderTotal = Number.parseFloat(String(order.total));
+      await publishAnalyticsEvent({
+        source: "api.orders",
+        category: "order.lifecycle",
+        name: "created",
+        payload: {
+          orderId: order.id,
+          branchId: order.branchId,
+          customerId: order.customerId ?? null,
+          status: order.status,
+          previousStatus: null,
+          total: Number.isFinite(orderTotal) && orderTotal >= 0 ? orderTotal : undefined,
+        },
+        actor: { actorId: user.id, actorType: "user", actorName: getActorName(user) },
+        context: { tenantId: order.branchId },
+      });
+
+      if (offline && req.audit) {
+        await req.audit.log({
+          type: "order.offline_synced",
+          entityType: "order",
+          entityId: order.id,
+          branchId: order.branchId,
+          ...(offlineConflicts.length > 0 ? { severity: "warning" as const } : {}),
+          metadata: {
+            offlineId: offline.id,
+            offlineCreatedAt: offline.createdAt.toISOString(),
+            orderNumber: order.orderNumber,
+            conflicts: offlineConflicts,
+          },
+        });
+      }
+
+      res.status(201).json({
+        ...order,
+        packages,
+        loyalty,
+        ...(readyDecision.warning ? { capacityWarning: readyDecision.warning } : {}),
+        ...(offline ? { offlineConflicts } : {}),
+      });
     } catch (error) {
       logger.error({ err: error }, "Error creating order");
       if (error instanceof ZodError) {
@@ -4572,7 +5279,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/orders/:id", requireAuth, async (req, res) => {
+  app.patch("/api/orders/:id", requirePermission(RBAC_PERMISSION_SLUGS.ordersEdit), async (req, res) => {
     try {
       const id = await resolveUuidByPublicId(orders, req.params.id);
       const order = await storage.updateOrder(id, req.body);
@@ -4585,11 +5292,20 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/orders/:id/status", requireAuth, async (req, res) => {
+  app.patch("/api/orders/:id/status", requirePermission(RBAC_PERMISSION_SLUGS.ordersEdit), async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
-      const { status, notify, reason } = req.body as { status: string; notify?: boolean; reason?: string };
+      const { status, notify } = req.body as { status: string; notify?: boolean };
+      if (status === 'cancelled') {
+        // Cancelling must go through a void so payments, credits and loyalty are reversed
+        return res.status(409).json({
+          message: "Void the order to cancel it",
+          code: "ORDER_VOID_REQUIRED",
+          endpoint: `/api/orders/${req.params.id}/refunds`,
+        });
+      }
       const id = await resolveUuidByPublicId(orders, req.params.id);
+      const previous = await storage.getOrder(id);
       const order = await storage.updateOrderStatus(id, status, {
         actor: getActorName(user),
       });
@@ -4597,11 +5313,23 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Order not found" });
       }
 
-      // If cancelled and reason provided, append to order notes
-      if (status === 'cancelled' && reason && reason.trim()) {
-        try {
-          await storage.updateOrder(id, { notes: `${order.notes ? order.notes + '\n' : ''}Cancelled: ${reason.trim()}` });
-        } catch {}
+      if (previous?.status !== order.status) {
+        const orderTotal = Number.parseFloat(String(order.total));
+        await publishAnalyticsEvent({
+          source: "api.orders.status",
+          category: "order.lifecycle",
+          name: "status_changed",
+          payload: {
+            orderId: order.id,
+            branchId: order.branchId,
+            customerId: order.customerId ?? null,
+            status: order.status,
+            previousStatus: previous?.status ?? null,
+            total: Number.isFinite(orderTotal) && orderTotal >= 0 ? orderTotal : undefined,
+          },
+          actor: { actorId: user.id, actorType: "user", actorName: getActorName(user) },
+          context: { tenantId: order.branchId },
+        });
       }
 
       if (notify) {
@@ -4763,15 +5491,34 @@ export async function registerRoutes(
       branchForBalance = customer?.branchId || undefined;
     }
 
-    const newPayment = await storage.createPayment(payment);
+    let newPayment: Payment;
+    if (payment.paymentMethod === 'wallet') {
+      const walletBranchId = payment.branchId ?? branchForBalance;
+      if (!walletBranchId) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const paid = await storage.payWithCustomerWallet({ ...payment, branchId: walletBranchId }, user.id);
+      if (!paid) {
+        return res.status(400).json({ message: "Insufficient wallet balance", code: "WALLET_INSUFFICIENT_FUNDS" });
+      }
+      newPayment = paid.payment;
+    } else {
+      newPayment = await storage.createPayment(payment);
+    }
 
     // Update customer balance when payment is received
-    await storage.updateCustomerBalance(
+    const updatedCustomer = await storage.updateCustomerBalance(
       payment.customerId,
       -parseFloat(newPayment.amount),
       branchForBalance,
     );
 
+    await publishPaymentReceived(
+      { ...newPayment, branchId: newPayment.branchId ?? branchForBalance ?? null },
+      user,
+      updatedCustomer ? Number.parseFloat(String(updatedCustomer.balanceDue)) : undefined,
+    );
+
     // If this payment is for a pay-later order, check if fully settled
     if (payment.orderId) {
       try {
@@ -4796,7 +5543,7 @@ export async function registerRoutes(
     res.status(201).json(newPayment);
   };
 
-  app.post("/api/customers/:customerId/payments", requireAuth, async (req, res) => {
+  app.post("/api/customers/:customerId/payments", requirePermission(RBAC_PERMISSION_SLUGS.paymentsRecord), idempotent, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const data = insertPaymentSchema
@@ -4808,7 +5555,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/payments", requireAuth, async (req, res) => {
+  app.post("/api/payments", requirePermission(RBAC_PERMISSION_SLUGS.paymentsRecord), idempotent, async (req, res) => {
     console.warn(
       "POST /api/payments is deprecated. Use POST /api/customers/:customerId/payments instead."
     );
@@ -4835,7 +5582,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/summary", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/summary", requireFinancialReports, async (req, res) => {
     const user = req.user as UserWithBranch;
     const { filter, error } = parseReportFilters(req, user);
     if (error) {
@@ -4851,7 +5598,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/service-breakdown", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/service-breakdown", requireReportsRead, async (req, res) => {
     const user = req.user as UserWithBranch;
     const { filter, error } = parseReportFilters(req, user);
     if (error) {
@@ -4867,7 +5614,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/clothing-breakdown", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/clothing-breakdown", requireReportsRead, async (req, res) => {
     const user = req.user as UserWithBranch;
     const { filter, error } = parseReportFilters(req, user);
     if (error) {
@@ -4883,7 +5630,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/payment-methods", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/payment-methods", requireFinancialReports, async (req, res) => {
     const user = req.user as UserWithBranch;
     const { filter, error } = parseReportFilters(req, user);
     if (error) {
@@ -4899,7 +5646,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/cashflow-summary", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/cashflow-summary", requireFinancialReports, async (req, res) => {
     const user = req.user as UserWithBranch;
     const { filter, error } = parseReportFilters(req, user);
     if (error) {
@@ -4916,7 +5663,7 @@ export async function registerRoutes(
   });
 
   // Exceptions summary (overpay overrides, stale pay-later, cancellation spike)
-  app.get("/api/reports/exceptions", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/exceptions", requireReportsRead, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { filter, error } = parseReportFilters(req, user);
@@ -5020,7 +5767,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/cash-sessions/open", requireAuth, async (req, res) => {
+  app.post("/api/cash-sessions/open", requirePermission(RBAC_PERMISSION_SLUGS.cashOpen), async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       if (!user.branchId) return res.status(400).json({ message: 'User has no branch' });
@@ -5040,7 +5787,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/cash-sessions/:id/close", requireAuth, async (req, res) => {
+  app.post("/api/cash-sessions/:id/close", requirePermission(RBAC_PERMISSION_SLUGS.cashClose), async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const id = req.params.id;
@@ -5048,17 +5795,11 @@ export async function registerRoutes(
       if (!session) return res.status(404).json({ message: 'Session not found' });
       if (session.closedAt) return res.status(400).json({ message: 'Session already closed' });
       const { countedCash, notes, counts } = req.body as { countedCash: number; notes?: string; counts?: any };
-      // Compute expected cash: opening float + sum of cash payments in branch during session window
+      // Compute expected cash: opening float + cash payments and cash wallet top-ups in branch during session window
       const startIso = new Date(session.openedAt).toISOString();
       const endIso = new Date().toISOString();
-      const { rows } = await db.execute<any>(sql.raw(`
-        SELECT COALESCE(SUM(amount)::numeric, 0) AS total
-        FROM payments
-        WHERE branch_id = '${(session.branchId as string).replace(/'/g, "''")}'
-          AND payment_method = 'cash'
-          AND created_at >= '${startIso}' AND created_at <= '${endIso}'
-      `));
-      const cashReceived = Number(rows[0]?.total ?? 0);
+      const receipts = await fetchCashDrawerReceipts(session.branchId, startIso, endIso);
+      const cashReceived = receipts.reduce((sum: number, r: any) => sum + Number(r.amount), 0);
       // Subtract cash expenses in the session window
       const { rows: expRows } = await db.execute<any>(sql.raw(`
         SELECT COALESCE(SUM(amount)::numeric, 0) AS total
@@ -5071,6 +5812,24 @@ export async function registerRoutes(
       const expectedCash = Number(session.openingFloat) + cashReceived - cashPaidOut;
       const variance = Number(countedCash) - expectedCash;
       const updated = await storage.closeCashSession(id, { countedCash, expectedCash, variance, notes, counts });
+      if (!updated) return res.status(400).json({ message: 'Session already closed' });
+      if (req.audit) {
+        await req.audit.log({
+          type: "cash_session.closed",
+          entityType: "cash_session",
+          entityId: id,
+          branchId: session.branchId,
+          severity: Math.abs(variance) > 0.001 ? "warning" : "info",
+          metadata: {
+            openingFloat: Number(session.openingFloat),
+            countedCash: Number(countedCash),
+            expectedCash,
+            variance,
+            cashReceived,
+            cashPaidOut,
+          },
+        });
+      }
       res.json({ ...updated, cashReceived, cashPaidOut });
     } catch (err) {
       res.status(400).json({ message: 'Failed to close cash session' });
@@ -5085,14 +5844,7 @@ export async function registerRoutes(
       if (!session) return res.status(404).json({ message: 'Session not found' });
       const startIso = new Date(session.openedAt).toISOString();
       const endIso = new Date(session.closedAt || new Date()).toISOString();
-      const { rows } = await db.execute<any>(sql.raw(`
-        SELECT created_at, amount, payment_method, channel, notes, received_by, order_id, customer_id
-        FROM payments
-        WHERE branch_id = '${(session.branchId as string).replace(/'/g, "''")}'
-          AND payment_method = 'cash'
-          AND created_at >= '${startIso}' AND created_at <= '${endIso}'
-        ORDER BY created_at ASC
-      `));
+      const rows = await fetchCashDrawerReceipts(session.branchId, startIso, endIso);
       const header = [
         'created_at','amount','payment_method','channel','notes','received_by','order_id','customer_id'
       ];
@@ -5131,14 +5883,7 @@ export async function registerRoutes(
       if (!session) return res.status(404).json({ message: 'Session not found' });
       const startIso = new Date(session.openedAt).toISOString();
       const endIso = new Date(session.closedAt || new Date()).toISOString();
-      const { rows } = await db.execute<any>(sql.raw(`
-        SELECT created_at, amount, payment_method, channel, notes, received_by, order_id, customer_id
-        FROM payments
-        WHERE branch_id = '${(session.branchId as string).replace(/'/g, "''")}'
-          AND payment_method = 'cash'
-          AND created_at >= '${startIso}' AND created_at <= '${endIso}'
-        ORDER BY created_at ASC
-      `));
+      const rows = await fetchCashDrawerReceipts(session.branchId, startIso, endIso);
       const wb = new ExcelJS.Workbook();
       const ws = wb.addWorksheet('Z-Report');
       ws.columns = [
@@ -5229,14 +5974,7 @@ export async function registerRoutes(
         { header: 'customer_id', key: 'customer_id', width: 36 },
         { header: 'received_by', key: 'received_by', width: 24 },
       ];
-      const { rows: receipts } = await db.execute<any>(sql.raw(`
-        SELECT created_at, amount, order_id, customer_id, received_by
-        FROM payments
-        WHERE branch_id = '${(branchId as string).replace(/'/g, "''")}'
-          AND payment_method = 'cash'
-          AND created_at >= '${dayStart.toISOString()}' AND created_at <= '${dayEnd.toISOString()}'
-        ORDER BY created_at ASC
-      `));
+      const receipts = await fetchCashDrawerReceipts(branchId as string, dayStart.toISOString(), dayEnd.toISOString());
       receipts.forEach((r) => wp.addRow({ created_at: r.created_at, amount: r.amount, order_id: r.order_id ?? '', customer_id: r.customer_id, received_by: r.received_by }));
 
       // Cash expenses sheet
@@ -5267,110 +6005,8 @@ export async function registerRoutes(
     }
   });
 
-  // Accounting journal (summary JSON) for a date
-  app.get("/api/accounting/journal", requireAdminOrSuperAdmin, async (req, res) => {
-    try {
-      const user = req.user as UserWithBranch;
-      const date = (req.query.date as string | undefined) || new Date().toISOString().slice(0,10);
-      const dayStart = new Date(date + 'T00:00:00.000Z');
-      const dayEnd = new Date(date + 'T23:59:59.999Z');
-      const branchId = user.branchId || undefined;
-      // Totals
-      const { rows: cashRows } = await db.execute<any>(sql.raw(`
-        SELECT COALESCE(SUM(amount)::numeric, 0) AS total FROM payments
-        WHERE branch_id = '${(branchId as string).replace(/'/g, "''")}' AND payment_method = 'cash'
-        AND created_at >= '${dayStart.toISOString()}' AND created_at <= '${dayEnd.toISOString()}'`));
-      const { rows: cardRows } = await db.execute<any>(sql.raw(`
-        SELECT COALESCE(SUM(amount)::numeric, 0) AS total FROM payments
-        WHERE branch_id = '${(branchId as string).replace(/'/g, "''")}' AND payment_method = 'card'
-        AND created_at >= '${dayStart.toISOString()}' AND created_at <= '${dayEnd.toISOString()}'`));
-      const { rows: expRows } = await db.execute<any>(sql.raw(`
-        SELECT category, COALESCE(SUM(amount)::numeric, 0) AS total
-        FROM expenses
-        WHERE branch_id = '${(branchId as string).replace(/'/g, "''")}'
-          AND incurred_at >= '${dayStart.toISOString()}' AND incurred_at <= '${dayEnd.toISOString()}'
-        GROUP BY category`));
-      const cash = Number(cashRows[0]?.total ?? 0);
-      const card = Number(cardRows[0]?.total ?? 0);
-      const expensesByCat = expRows.map((r) => ({ category: r.category, total: Number(r.total) }));
-      // Load GL mappings for expenses
-      const { rows: mapRows } = await db.execute<any>(sql.raw(`
-        SELECT key, account FROM gl_mappings WHERE branch_id = '${(branchId as string).replace(/'/g, "''")}'
-      `));
-      const map = new Map<string, string>(mapRows.map((r: any) => [r.key, r.account]));
-      // Naive mapping defaults
-      const GL = {
-        cash: '1000',
-        bankClearing: '1010',
-        revenue: '4000',
-        expenses: (cat: string) => ({ acct: map.get(cat) || `5${String(Math.abs(cat.hashCode?.() ?? 0) % 1000).padStart(3,'0')}`, name: cat }),
-      } as const;
-      const entries: any[] = [];
-      if (cash > 0) entries.push({ debit: GL.cash, credit: GL.revenue, amount: cash, memo: 'Cash receipts' });
-      if (card > 0) entries.push({ debit: GL.bankClearing, credit: GL.revenue, amount: card, memo: 'Card receipts' });
-      for (const e of expensesByCat) {
-        const acct = GL.expenses(e.category);
-        entries.push({ debit: acct.acct, credit: GL.cash, amount: e.total, memo: `Expense: ${e.category}` });
-      }
-      res.json({ date, branchId, entries });
-    } catch (err) {
-      res.status(500).json({ message: 'Failed to build journal' });
-    }
-  });
-
-  app.get("/api/accounting/journal.xlsx", requireAdminOrSuperAdmin, async (req, res) => {
-    try {
-      const user = req.user as UserWithBranch;
-      const date = (req.query.date as string | undefined) || new Date().toISOString().slice(0,10);
-      const dayStart = new Date(date + 'T00:00:00.000Z');
-      const dayEnd = new Date(date + 'T23:59:59.999Z');
-      const branchId = user.branchId || undefined;
-      const { rows: cashRows } = await db.execute<any>(sql.raw(`
-        SELECT COALESCE(SUM(amount)::numeric, 0) AS total FROM payments
-        WHERE branch_id = '${(branchId as string).replace(/'/g, "''")}' AND payment_method = 'cash'
-        AND created_at >= '${dayStart.toISOString()}' AND created_at <= '${dayEnd.toISOString()}'`));
-      const { rows: cardRows } = await db.execute<any>(sql.raw(`
-        SELECT COALESCE(SUM(amount)::numeric, 0) AS total FROM payments
-        WHERE branch_id = '${(branchId as string).replace(/'/g, "''")}' AND payment_method = 'card'
-        AND created_at >= '${dayStart.toISOString()}' AND created_at <= '${dayEnd.toISOString()}'`));
-      const { rows: expRows } = await db.execute<any>(sql.raw(`
-        SELECT category, COALESCE(SUM(amount)::numeric, 0) AS total
-        FROM expenses
-        WHERE branch_id = '${(branchId as string).replace(/'/g, "''")}'
-          AND incurred_at >= '${dayStart.toISOString()}' AND incurred_at <= '${dayEnd.toISOString()}'
-        GROUP BY category`));
-      const expensesByCat = expRows.map((r) => ({ category: r.category, total: Number(r.total) }));
-      const { rows: mapRows } = await db.execute<any>(sql.raw(`
-        SELECT key, account FROM gl_mappings WHERE branch_id = '${(branchId as string).replace(/'/g, "''")}'
-      `));
-      const map = new Map<string, string>(mapRows.map((r: any) => [r.key, r.account]));
-      const cash = Number(cashRows[0]?.total ?? 0);
-      const card = Number(cardRows[0]?.total ?? 0);
-      const GL = { cash: '1000', bankClearing: '1010', revenue: '4000', expenses: (cat: string) => map.get(cat) || `5${String(Math.abs(cat.hashCode?.() ?? 0) % 1000).padStart(3,'0')}` } as const;
-      const entries: any[] = [];
-      if (cash > 0) entries.push({ debit: GL.cash, credit: GL.revenue, amount: cash, memo: 'Cash receipts' });
-      if (card > 0) entries.push({ debit: GL.bankClearing, credit: GL.revenue, amount: card, memo: 'Card receipts' });
-      for (const e of expensesByCat) entries.push({ debit: GL.expenses(e.category), credit: GL.cash, amount: e.total, memo: `Expense: ${e.category}` });
-      const wb = new ExcelJS.Workbook();
-      const ws = wb.addWorksheet('Journal');
-      ws.columns = [
-        { header: 'debit', key: 'debit', width: 16 },
-        { header: 'credit', key: 'credit', width: 16 },
-        { header: 'amount', key: 'amount', width: 12 },
-        { header: 'memo', key: 'memo', width: 40 },
-      ];
-      ws.addRows(entries);
-      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
-      res.setHeader('Content-Disposition', `attachment; filename="journal-${date}.xlsx"`);
-      await wb.xlsx.write(res);
-      res.end();
-    } catch (err) {
-      res.status(500).json({ message: 'Failed to build journal' });
-    }
-  });
-
   // GL mappings endpoints
-  app.get("/api/accounting/gl-mappings", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/accounting/gl-mappings", requireFinancialReports, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const branchId = user.role === 'super_admin' ? (req.query.branchId as string || user.branchId) : user.branchId;
@@ -5382,7 +6018,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/accounting/gl-mappings", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/accounting/gl-mappings", requirePermission(RBAC_PERMISSION_SLUGS.accountingManage), async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const branchId = user.role === 'super_admin' ? (req.body.branchId as string || user.branchId) : user.branchId;
@@ -5404,7 +6040,7 @@ export async function registerRoutes(
   });
 
   // Orders export (CSV)
-  app.get("/api/reports/orders/export", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/orders/export", requireFinancialReports, async (req, res) => {
     const user = req.user as UserWithBranch;
     const { filter, error } = parseReportFilters(req, user);
     if (error) {
@@ -5479,7 +6115,7 @@ export async function registerRoutes(
   });
 
   // Orders export (XLSX)
-  app.get("/api/reports/orders/export.xlsx", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/orders/export.xlsx", requireFinancialReports, async (req, res) => {
     const user = req.user as UserWithBranch;
     const { filter, error } = parseReportFilters(req, user);
     if (error) return res.status(400).json({ message: error });
@@ -5543,7 +6179,7 @@ export async function registerRoutes(
   });
 
   // Payments export (CSV)
-  app.get("/api/reports/payments/export", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/payments/export", requireFinancialReports, async (req, res) => {
     const user = req.user as UserWithBranch;
     const { filter, error } = parseReportFilters(req, user);
     if (error) {
@@ -5626,7 +6262,7 @@ export async function registerRoutes(
   });
 
   // Payments export (XLSX)
-  app.get("/api/reports/payments/export.xlsx", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/payments/export.xlsx", requireFinancialReports, async (req, res) => {
     const user = req.user as UserWithBranch;
     const { filter, error } = parseReportFilters(req, user);
     if (error) return res.status(400).json({ message: error });
@@ -5686,7 +6322,7 @@ export async function registerRoutes(
   });
 
   // Pay-later receipts report (payments received by date)
-  app.get("/api/reports/pay-later-receipts", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/pay-later-receipts", requireFinancialReports, async (req, res) => {
     try {
       const filter: any = {};
       if (req.query.start) filter.start = new Date(req.query.start as string);
@@ -5700,7 +6336,7 @@ export async function registerRoutes(
   });
 
   // Pay-later orders summarized by order created date (revenue = sum of payments)
-  app.get("/api/reports/pay-later-orders-by-date", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/pay-later-orders-by-date", requireFinancialReports, async (req, res) => {
     try {
       const filter: any = {};
       if (req.query.start) filter.start = new Date(req.query.start as string);
@@ -5714,7 +6350,7 @@ export async function registerRoutes(
   });
 
   // Financial report endpoint (cash sales, outstanding, cash and card receipts)
-  app.get("/api/reports/financials", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/financials", requireFinancialReports, async (req, res) => {
     try {
       const filter: any = {};
       if (req.query.start) filter.start = new Date(req.query.start as string);
@@ -5728,7 +6364,7 @@ export async function registerRoutes(
   });
 
   // Pay-later aging by customer
-  app.get("/api/reports/pay-later-aging", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/pay-later-aging", requireFinancialReports, async (req, res) => {
     try {
       const filter: any = {};
       if (req.query.start) filter.start = new Date(req.query.start as string);
@@ -5742,7 +6378,7 @@ export async function registerRoutes(
   });
 
   // Pay-later outstanding orders (per order)
-  app.get("/api/reports/pay-later-outstanding-orders", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/pay-later-outstanding-orders", requireFinancialReports, async (req, res) => {
     try {
       const filter: any = {};
       if (req.query.start) filter.start = new Date(req.query.start as string);
@@ -5809,7 +6445,7 @@ export async function registerRoutes(
   });
 
   // Reports routes
-  app.get("/api/reports/orders", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/orders", requireReportsRead, async (req, res) => {
     try {
       const range = (req.query.range as string) || "daily";
       const user = req.user as UserWithBranch;
@@ -5820,7 +6456,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/top-services", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/top-services", requireReportsRead, async (req, res) => {
     try {
       const range = (req.query.range as string) || "daily";
       const user = req.user as UserWithBranch;
@@ -5831,7 +6467,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/top-products", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/top-products", requireReportsRead, async (req, res) => {
     try {
       const range = (req.query.range as string) || "daily";
       const user = req.user as UserWithBranch;
@@ -5842,7 +6478,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/top-packages", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/top-packages", requireReportsRead, async (req, res) => {
     try {
       const range = (req.query.range as string) || "daily";
       const user = req.user as UserWithBranch;
@@ -5853,7 +6489,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/package-usage", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/package-usage", requireReportsRead, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { filter, error } = parseReportFilters(req, user);
@@ -5867,7 +6503,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/package-assignments", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/package-assignments", requireReportsRead, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const status = (req.query.status as string) || "all";
@@ -5883,7 +6519,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/clothing-items", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/clothing-items", requireReportsRead, async (req, res) => {
     try {
       const range = (req.query.range as string) || "daily";
       const limit = req.query.limit ? Number(req.query.limit) : undefined;
@@ -5899,7 +6535,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/customer-insights", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/customer-insights", requireReportsRead, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { branchId: queryBranchId, limit } = req.query as Record<string, string>;
@@ -6218,7 +6854,7 @@ export async function registerRoutes(
   });
 
   // Expenses management (Admin/Super Admin)
-  app.get("/api/expenses", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/expenses", requireExpensesManage, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { start, end, branchId, q, limit, offset, page, pageSize } = req.query as any;
@@ -6243,7 +6879,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/expenses", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/expenses", requireExpensesManage, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const body = req.body as any;
@@ -6254,11 +6890,12 @@ export async function registerRoutes(
       const created = await storage.createExpense(body, user.id, effectiveBranchId);
       res.status(201).json(created);
     } catch (error) {
+      if (error instanceof ClosedPeriodError) return res.status(409).json({ message: error.message });
       res.status(500).json({ message: "Failed to create expense" });
     }
   });
 
-  app.put("/api/expenses/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/expenses/:id", requireExpensesManage, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { id } = req.params;
@@ -6270,11 +6907,12 @@ export async function registerRoutes(
       if (!updated) return res.status(404).json({ message: "Expense not found" });
       res.json(updated);
     } catch (error) {
+      if (error instanceof ClosedPeriodError) return res.status(409).json({ message: error.message });
       res.status(500).json({ message: "Failed to update expense" });
     }
   });
 
-  app.delete("/api/expenses/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.delete("/api/expenses/:id", requireExpensesManage, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { id } = req.params;
@@ -6286,12 +6924,13 @@ export async function registerRoutes(
       if (!ok) return res.status(404).json({ message: "Expense not found" });
       res.json({ message: "Expense deleted" });
     } catch (error) {
+      if (error instanceof ClosedPeriodError) return res.status(409).json({ message: error.message });
       res.status(500).json({ message: "Failed to delete expense" });
     }
   });
 
   // Bulk delete expenses
-  app.delete("/api/expenses", requireAdminOrSuperAdmin, async (req, res) => {
+  app.delete("/api/expenses", requireExpensesManage, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { ids } = req.body as { ids?: string[] };
@@ -6312,7 +6951,7 @@ export async function registerRoutes(
   });
 
   // Export expenses as CSV (server-side)
-  app.get("/api/expenses/export", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/expenses/export", requireExpensesManage, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { start, end, branchId, q } = req.query as any;
@@ -6345,7 +6984,7 @@ export async function registerRoutes(
   });
 
   // Export expenses as XLSX (server-side)
-  app.get("/api/expenses/export.xlsx", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/expenses/export.xlsx", requireExpensesManage, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { start, end, branchId, q } = req.query as any;
@@ -6390,7 +7029,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/expenses", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/reports/expenses", requireFinancialReports, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const range = (req.query.range as string) || "monthly";
@@ -6405,11 +7044,11 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/order-logs", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/order-logs", requireReportsRead, async (req, res) => {
     try {
       const status = req.query.status as string | undefined;
       const logs = await storage.getOrderLogs(status);
-      res.json(logs);
+      res.json(await withOrderSla(storage, logs, new Date()));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch order logs" });
     }
@@ -6419,7 +7058,7 @@ export async function registerRoutes(
 
   // Branch Delivery Settings Routes
   // Customer Dashboard Settings routes
-  app.get("/api/branches/:id/customer-dashboard-settings", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/branches/:id/customer-dashboard-settings", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -6434,7 +7073,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/branches/:id/customer-dashboard-settings", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/branches/:id/customer-dashboard-settings", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -6477,7 +7116,7 @@ export async function registerRoutes(
   });
 
   // Ads management (admin)
-  app.get("/api/branches/:id/ads", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/branches/:id/ads", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -6491,7 +7130,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/branches/:id/ads", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/branches/:id/ads", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as UserWithBranch;
@@ -6505,7 +7144,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/ads/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/ads/:id", requireSettingsManage, async (req, res) => {
     try {
       const ad = await storage.updateBranchAd(req.params.id, req.body || {});
       if (!ad) return res.status(404).json({ message: "Ad not found" });
@@ -6515,7 +7154,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/ads/:id", requireAdminOrSuperAdmin, async (req, res) => {
+  app.delete("/api/ads/:id", requireSettingsManage, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const ok = await storage.deleteBranchAd(req.params.id, user.role === "super_admin" ? undefined : user.branchId || undefined);
@@ -6529,7 +7168,7 @@ export async function registerRoutes(
   // Upload ad image for a branch
   app.post(
     "/api/branches/:id/ads/upload-image",
-    requireAdminOrSuperAdmin,
+    requireSettingsManage,
     uploadLogo.single("image"),
     async (req, res) => {
       try {
@@ -6614,7 +7253,7 @@ export async function registerRoutes(
   });
 
   // Service Cities Routes
-  app.get("/api/branches/:id/service-cities", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/branches/:id/service-cities", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -6633,7 +7272,7 @@ export async function registerRoutes(
   });
 
   // Allow updating service cities on the non-admin path used by client
-  app.put("/api/branches/:id/service-cities", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/branches/:id/service-cities", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -6652,7 +7291,7 @@ export async function registerRoutes(
   // Delivery Items Routes
   // Delivery Packages Routes
   // Payment Methods Routes
-  app.get("/api/branches/:id/payment-methods", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/branches/:id/payment-methods", requireSettingsManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -6669,7 +7308,7 @@ export async function registerRoutes(
     }
   });
 
-  app.put("/api/branches/:id/payment-methods/:paymentMethod", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/branches/:id/payment-methods/:paymentMethod", requireSettingsManage, async (req, res) => {
     try {
       const { id, paymentMethod } = req.params;
       const { isEnabled, processingFee, minAmount, maxAmount } = req.body;
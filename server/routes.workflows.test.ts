@@ -25,6 +25,27 @@ function createStubEngine() {
     edges: [],
   };
 
+  const pausedExecution = {
+    id: "exec-paused",
+    workflowId: "wf-1",
+    triggerType: "orders.created",
+    status: "paused" as const,
+    context: {},
+    triggerPayload: {},
+    metadata: {},
+    startedAt: new Date(),
+    completedAt: null,
+    errorMessage: null,
+    resumeAt: new Date(),
+    pendingSteps: [],
+  };
+
+  const templates = [
+    { id: "tpl-global", key: "ready", branchId: null, channel: "sms", subject: null, body: "Ready", createdAt: new Date(), updatedAt: new Date() },
+    { id: "tpl-b1", key: "ready", branchId: "branch-1", channel: "sms", subject: null, body: "Ready at B1", createdAt: new Date(), updatedAt: new Date() },
+    { id: "tpl-b2", key: "ready", branchId: "branch-2", channel: "sms", subject: null, body: "Ready at B2", createdAt: new Date(), updatedAt: new Date() },
+  ];
+
   const engine: Partial<WorkflowEngine> & {
     calls: Record<string, unknown>;
   } = {
@@ -46,6 +67,31 @@ function createStubEngine() {
         run: async () => ({ status: "success" }),
       },
     ],
+    listConditions: () => [
+      {
+        type: "expression",
+        label: "Condition",
+        description: "",
+        evaluate: () => true,
+      },
+    ],
+    listDelays: () => [
+      {
+        type: "delay",
+        label: "Delay",
+        description: "",
+        resolveResumeAt: ({ now }) => now,
+      },
+    ],
+    listExecutions: async (filter) => {
+      engine.calls.listExecutions = filter;
+      return [pausedExecution];
+    },
+    getExecution: async (id) => (id === pausedExecution.id ? pausedExecution : id === "exec-done" ? { ...pausedExecution, id, status: "completed" } : undefined),
+    cancelExecution: async (id, cancelledBy) => {
+      engine.calls.cancelExecution = { id, cancelledBy };
+      return id === pausedExecution.id ? { ...pausedExecution, status: "cancelled" } : null;
+    },
     listWorkflows: async () => [stubWorkflow],
     createWorkflow: async (input) => {
       engine.calls.createWorkflow = input;
@@ -85,17 +131,33 @@ function createStubEngine() {
       engine.calls.runTrigger = { type, payload };
       return [];
     },
+    listTemplates: async (branchId) => {
+      engine.calls.listTemplates = branchId;
+      return templates.filter((template) => !branchId || !template.branchId || template.branchId === branchId);
+    },
+    getTemplate: async (id) => templates.find((template) => template.id === id),
+    saveTemplate: async (input, id) => {
+      engine.calls.saveTemplate = { input, id };
+      return { ...templates[0], ...input, id: id ?? "tpl-new" } as any;
+    },
+    deleteTemplate: async (id) => {
+      engine.calls.deleteTemplate = id;
+      return true;
+    },
   };
 
   return engine as WorkflowEngine & { calls: Record<string, unknown> };
 }
 
-function createApp(engine: WorkflowEngine & { calls: Record<string, unknown> }) {
+function createApp(
+  engine: WorkflowEngine & { calls: Record<string, unknown> },
+  user: Record<string, unknown> = { role: "super_admin", username: "owner" },
+) {
   const app = express();
   app.use(express.json());
   app.use((req, _res, next) => {
     req.isAuthenticated = () => true;
-    req.user = { role: "super_admin" } as any;
+    req.user = user as any;
     next();
   });
   registerWorkflowRoutes(app, engine);
@@ -157,3 +219,70 @@ test("POST /api/workflows/trigger/:type executes trigger", async () => {
     payload: { orderId: "1" },
   });
 });
+
+test("GET /api/workflows/executions filters by status", async () => {
+  const engine = createStubEngine();
+  const app = createApp(engine);
+  const response = await request(app).get("/api/workflows/executions?status=paused,failed");
+  assert.equal(response.status, 200);
+  assert.equal(response.body.executions[0].id, "exec-paused");
+  assert.deepEqual(engine.calls.listExecutions, { status: ["paused", "failed"] });
+
+  const invalid = await request(app).get("/api/workflows/executions?status=sleeping");
+  assert.equal(invalid.status, 400);
+});
+
+test("POST /api/workflows/executions/:id/cancel only cancels paused executions", async () => {
+  const engine = createStubEngine();
+  const app = createApp(engine);
+
+  const cancelled = await request(app).post("/api/workflows/executions/exec-paused/cancel");
+  assert.equal(cancelled.status, 200);
+  assert.equal(cancelled.body.status, "cancelled");
+  assert.deepEqual(engine.calls.cancelExecution, { id: "exec-paused", cancelledBy: "owner" });
+
+  const finished = await request(app).post("/api/workflows/executions/exec-done/cancel");
+  assert.equal(finished.status, 409);
+
+  const missing = await request(app).post("/api/workflows/executions/nope/cancel");
+  assert.equal(missing.status, 404);
+});
+
+test("notification templates are limited to the user's branch", async () => {
+  const engine = createStubEngine();
+  const app = createApp(engine, { id: "admin-1", role: "admin", username: "huda", branchId: "branch-1" });
+
+  const listed = await request(app).get("/api/workflows/templates?branchId=branch-2");
+  assert.equal(listed.status, 200);
+  assert.deepEqual(listed.body.templates.map((template: any) => template.id), ["tpl-global", "tpl-b1"]);
+  assert.equal(engine.calls.listTemplates, "branch-1");
+
+  const created = await request(app)
+    .post("/api/workflows/templates")
+    .send({ key: "ready", branchId: "branch-2", channel: "sms", body: "Hi" });
+  assert.equal(created.status, 201);
+  assert.equal((engine.calls.saveTemplate as any).input.branchId, "branch-1");
+
+  const foreign = await request(app).put("/api/workflows/templates/tpl-b2").send({ key: "ready", channel: "sms", body: "Hi" });
+  assert.equal(foreign.status, 403);
+  const global = await request(app).delete("/api/workflows/templates/tpl-global");
+  assert.equal(global.status, 403);
+  assert.equal(engine.calls.deleteTemplate, undefined);
+
+  const own = await request(app).delete("/api/workflows/templates/tpl-b1");
+  assert.equal(own.status, 204);
+  assert.equal(engine.calls.deleteTemplate, "tpl-b1");
+});
+
+test("template route storage failures answer instead of hanging", async () => {
+  const engine = createStubEngine();
+  engine.listTemplates = async () => {
+    throw new Error("database unavailable");
+  };
+  engine.getTemplate = async () => {
+    throw new Error("database unavailable");
+  };
+  const app = createApp(engine);
+  assert.equal((await request(app).get("/api/workflows/templates")).status, 500);
+  assert.equal((await request(app).delete("/api/workflows/templates/tpl-b1")).status, 500);
+});
@@ -0,0 +1,227 @@
+import type { Express, Request, Response } from "express";
+import type { Logger } from "pino";
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import type { JournalEntryWithLines, UserWithBranch } from "@shared/schema";
+
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
+import { buildChartOfAccounts, buildTrialBalance } from "../services/ledger";
+
+const requireFinancialReports = requirePermission(RBAC_PERMISSION_SLUGS.reportsFinancialRead);
+
+interface AccountingRoutesDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const journalQuerySchema = z.object({
+  date: isoDate.optional(),
+  start: isoDate.optional(),
+  end: isoDate.optional(),
+});
+
+const rangeQuerySchema = z
+  .object({ start: isoDate, end: isoDate })
+  .refine((range) => range.start <= range.end, { message: "start must not be after end" });
+
+const closePeriodSchema = z
+  .object({ periodStart: isoDate, periodEnd: isoDate })
+  .refine((period) => period.periodStart <= period.periodEnd, { message: "periodStart must not be after periodEnd" });
+
+// Super admins may look at any branch; everyone else is pinned to their own.
+function resolveBranchId(req: Request, res: Response): string | undefined {
+  const user = req.user as UserWithBranch;
+  const requested = typeof req.query.branchId === "string" ? req.query.branchId : req.body?.branchId;
+  const branchId = user.role === "super_admin" ? requested || user.branchId : user.branchId;
+  if (!branchId) {
+    res.status(400).json({ message: "Branch is required" });
+    return undefined;
+  }
+  return branchId;
+}
+
+const dayStart = (date: string) => new Date(`${date}T00:00:00.000Z`);
+const dayAfter = (date: string) => new Date(dayStart(date).getTime() + 24 * 60 * 60 * 1000);
+const today = () => new Date().toISOString().slice(0, 10);
+
+function serializeJournalEntry(entry: JournalEntryWithLines) {
+  return {
+    id: entry.id,
+    sourceType: entry.sourceType,
+    sourceId: entry.sourceId,
+    memo: entry.memo,
+    postedAt: entry.postedAt.toISOString(),
+    lines: entry.lines.map((line) => ({
+      account: line.account,
+      accountKey: line.accountKey,
+      debit: Number.parseFloat(line.debit),
+      credit: Number.parseFloat(line.credit),
+      memo: line.memo,
+    })),
+  };
+}
+
+async function loadTrialBalance(storage: IStorage, branchId: string, start: string, end: string) {
+  const [mappings, opening, period] = await Promise.all([
+    storage.getGlMappings(branchId),
+    storage.getLedgerActivity(branchId, { end: dayStart(start) }),
+    storage.getLedgerActivity(branchId, { start: dayStart(start), end: dayAfter(end) }),
+  ]);
+  return buildTrialBalance(opening, period, buildChartOfAccounts(mappings));
+}
+
+export function registerAccountingRoutes({
+  app,
+  storage,
+  logger,
+}: AccountingRoutesDeps): void {
+  app.get("/api/accounting/accounts", requireFinancialReports, async (req, res) => {
+    const branchId = resolveBranchId(req, res);
+    if (!branchId) return;
+    try {
+      res.json({ branchId, accounts: buildChartOfAccounts(await storage.getGlMappings(branchId)) });
+    } catch (error) {
+      logger.error({ err: error, branchId }, "failed to load chart of accounts");
+      res.status(500).json({ message: "Failed to load chart of accounts" });
+    }
+  });
+
+  // Posted journal entries for a day (?date=) or a range (?start=&end=)
+  app.get("/api/accounting/journal", requireFinancialReports, async (req, res) => {
+    const parsed = journalQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+    }
+    const branchId = resolveBranchId(req, res);
+    if (!branchId) return;
+    const start = parsed.data.start ?? parsed.data.date ?? today();
+    const end = parsed.data.end ?? parsed.data.date ?? start;
+    try {
+      const entries = await storage.getJournalEntries({ branchId, start: dayStart(start), end: dayAfter(end) });
+      res.json({ branchId, start, end, entries: entries.map(serializeJournalEntry) });
+    } catch (error) {
+      logger.error({ err: error, branchId }, "failed to load journal");
+      res.status(500).json({ message: "Failed to build journal" });
+    }
+  });
+
+  app.get("/api/accounting/journal.xlsx", requireFinancialReports, async (req, res) => {
+    const parsed = journalQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+    }
+    const branchId = resolveBranchId(req, res);
+    if (!branchId) return;
+    const start = parsed.data.start ?? parsed.data.date ?? today();
+    const end = parsed.data.end ?? parsed.data.date ?? start;
+    try {
+      const entries = await storage.getJournalEntries({ branchId, start: dayStart(start), end: dayAfter(end) });
+      const wb = new ExcelJS.Workbook();
+      const ws = wb.addWorksheet("Journal");
+      ws.columns = [
+        { header: "posted_at", key: "postedAt", width: 22 },
+        { header: "source", key: "source", width: 20 },
+        { header: "source_id", key: "sourceId", width: 38 },
+        { header: "account", key: "account", width: 12 },
+        { header: "debit", key: "debit", width: 12 },
+        { header: "credit", key: "credit", width: 12 },
+        { header: "memo", key: "memo", width: 40 },
+      ];
+      for (const entry of entries) {
+        for (const line of entry.lines) {
+          ws.addRow({
+            postedAt: entry.postedAt.toISOString(),
+            source: entry.sourceType,
+            sourceId: entry.sourceId,
+            account: line.account,
+            debit: Number.parseFloat(line.debit),
+            credit: Number.parseFloat(line.credit),
+            memo: line.memo ?? entry.memo ?? "",
+          });
+        }
+      }
+      const filename = start === end ? `journal-${start}.xlsx` : `journal-${start}_${end}.xlsx`;
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      await wb.xlsx.write(res);
+      res.end();
+    } catch (error) {
+      logger.error({ err: error, branchId }, "failed to export journal");
+      res.status(500).json({ message: "Failed to build journal" });
+    }
+  });
+
+  app.get("/api/accounting/trial-balance", requireFinancialReports, async (req, res) => {
+    const parsed = rangeQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+    }
+    const branchId = resolveBranchId(req, res);
+    if (!branchId) return;
+    try {
+      const { rows, totals } = await loadTrialBalance(storage, branchId, parsed.data.start, parsed.data.end);
+      res.json({ branchId, start: parsed.data.start, end: parsed.data.end, accounts: rows, totals });
+    } catch (error) {
+      logger.error({ err: error, branchId }, "failed to build trial balance");
+      res.status(500).json({ message: "Failed to build trial balance" });
+    }
+  });
+
+  app.get("/api/accounting/periods", requireFinancialReports, async (req, res) => {
+    const branchId = resolveBranchId(req, res);
+    if (!branchId) return;
+    try {
+      res.json(await storage.getAccountingPeriods(branchId));
+    } catch (error) {
+      logger.error({ err: error, branchId }, "failed to load accounting periods");
+      res.status(500).json({ message: "Failed to load accounting periods" });
+    }
+  });
+
+  // Locks a finished period against further postings and keeps its trial balance
+  app.post("/api/accounting/periods/close", requirePermission(RBAC_PERMISSION_SLUGS.accountingManage), async (req, res) => {
+    const parsed = closePeriodSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid period", errors: parsed.error.flatten() });
+    }
+    const branchId = resolveBranchId(req, res);
+    if (!branchId) return;
+    const { periodStart, periodEnd } = parsed.data;
+    if (periodEnd >= today()) {
+      return res.status(400).json({ message: "Only periods that have ended can be closed" });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const { rows, totals } = await loadTrialBalance(storage, branchId, periodStart, periodEnd);
+      if (Math.abs(totals.debit - totals.credit) > 0.001) {
+        return res.status(409).json({ message: "Trial balance is out of balance", totals });
+      }
+      const period = await storage.closeAccountingPeriod({
+        branchId,
+        periodStart,
+        periodEnd,
+        trialBalance: rows,
+        closedBy: user.id,
+      });
+      if (!period) {
+        return res.status(409).json({ message: "Period overlaps a closed period" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "accounting.period_closed",
+          entityType: "accounting_period",
+          entityId: period.id,
+          metadata: { branchId, periodStart, periodEnd, debit: totals.debit, credit: totals.credit },
+        });
+      }
+      res.status(201).json({ period, totals });
+    } catch (error) {
+      logger.error({ err: error, branchId }, "failed to close accounting period");
+      res.status(500).json({ message: "Failed to close accounting period" });
+    }
+  });
+}
@@ -0,0 +1,207 @@
+import type { Express, Request, Response } from "express";
+import type { Logger } from "pino";
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import type { UserWithBranch } from "@shared/schema";
+
+import {
+  RBAC_PERMISSION_SLUGS,
+  type AuditEventFilter,
+  type AuditEventWithActor,
+  type IStorage,
+} from "../storage";
+import { requirePermission } from "../auth";
+
+const requireAuditRead = requirePermission(RBAC_PERMISSION_SLUGS.auditRead);
+
+const EXPORT_ROW_LIMIT = 5000;
+const EXPORT_PAGE_SIZE = 500;
+
+interface AuditEventRoutesDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+}
+
+const querySchema = z
+  .object({
+    entityType: z.string().trim().min(1).optional(),
+    entityId: z.string().trim().min(1).optional(),
+    actorId: z.string().uuid().optional(),
+    eventType: z.string().trim().min(1).optional(),
+    severity: z.enum(["info", "warning", "critical"]).optional(),
+    branchId: z.string().uuid().optional(),
+    start: z.coerce.date().optional(),
+    end: z.coerce.date().optional(),
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+  })
+  .refine((query) => !query.start || !query.end || query.start <= query.end, {
+    message: "start must not be after end",
+  });
+
+const cursorSchema = z.object({ t: z.string().datetime(), id: z.string().uuid() });
+
+function encodeCursor(event: AuditEventWithActor): string {
+  return Buffer.from(JSON.stringify({ t: event.createdAt.toISOString(), id: event.id })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): AuditEventFilter["before"] | null {
+  try {
+    const parsed = cursorSchema.safeParse(JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")));
+    return parsed.success ? { createdAt: new Date(parsed.data.t), id: parsed.data.id } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Super admins may read any branch (or all of them); everyone else only sees their own.
+function parseFilter(req: Request, res: Response): AuditEventFilter | undefined {
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+    return undefined;
+  }
+  const { cursor, branchId, ...rest } = parsed.data;
+  const user = req.user as UserWithBranch;
+  const scopedBranch = user.role === "super_admin" ? branchId : user.branchId ?? undefined;
+  if (user.role !== "super_admin" && !scopedBranch) {
+    res.status(400).json({ message: "Branch is required" });
+    return undefined;
+  }
+  let before: AuditEventFilter["before"];
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded) {
+      res.status(400).json({ message: "Invalid cursor" });
+      return undefined;
+    }
+    before = decoded;
+  }
+  return { ...rest, branchId: scopedBranch, before };
+}
+
+function serializeAuditEvent(event: AuditEventWithActor) {
+  return {
+    id: event.id,
+    eventType: event.eventType,
+    severity: event.severity,
+    entityType: event.entityType,
+    entityId: event.entityId,
+    actorId: event.actorId,
+    actorType: event.actorType,
+    actorName: event.actorName,
+    branchId: event.branchId,
+    requestId: event.requestId,
+    metadata: event.metadata as Record<string, unknown>,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+async function collectForExport(storage: IStorage, filter: AuditEventFilter): Promise<AuditEventWithActor[]> {
+  const rows: AuditEventWithActor[] = [];
+  let before = filter.before;
+  while (rows.length < EXPORT_ROW_LIMIT) {
+    const page = await storage.getAuditEvents({
+      ...filter,
+      before,
+      limit: Math.min(EXPORT_PAGE_SIZE, EXPORT_ROW_LIMIT - rows.length),
+    });
+    rows.push(...page);
+    if (page.length < EXPORT_PAGE_SIZE) break;
+    const last = page[page.length - 1];
+    before = { createdAt: last.createdAt, id: last.id };
+  }
+  return rows;
+}
+
+function exportRow(event: AuditEventWithActor) {
+  const metadata = (event.metadata ?? {}) as Record<string, unknown>;
+  const { before, after, ...rest } = metadata;
+  return {
+    createdAt: event.createdAt.toISOString(),
+    eventType: event.eventType,
+    severity: event.severity,
+    entityType: event.entityType,
+    entityId: event.entityId ?? "",
+    actor: event.actorName ?? event.actorId ?? event.actorType,
+    branchId: event.branchId ?? "",
+    requestId: event.requestId ?? "",
+    before: before === undefined ? "" : JSON.stringify(before),
+    after: after === undefined ? "" : JSON.stringify(after),
+    metadata: JSON.stringify(rest),
+  };
+}
+
+const EXPORT_COLUMNS: { header: string; key: keyof ReturnType<typeof exportRow>; width: number }[] = [
+  { header: "created_at", key: "createdAt", width: 24 },
+  { header: "event_type", key: "eventType", width: 28 },
+  { header: "severity", key: "severity", width: 10 },
+  { header: "entity_type", key: "entityType", width: 20 },
+  { header: "entity_id", key: "entityId", width: 38 },
+  { header: "actor", key: "actor", width: 20 },
+  { header: "branch_id", key: "branchId", width: 38 },
+  { header: "request_id", key: "requestId", width: 38 },
+  { header: "before", key: "before", width: 40 },
+  { header: "after", key: "after", width: 40 },
+  { header: "metadata", key: "metadata", width: 40 },
+];
+
+const escapeCsv = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function registerAuditEventRoutes({ app, storage, logger }: AuditEventRoutesDeps): void {
+  app.get("/api/audit-events", requireAuditRead, async (req, res) => {
+    const filter = parseFilter(req, res);
+    if (!filter) return;
+    try {
+      // One extra row tells us whether another page exists
+      const rows = await storage.getAuditEvents({ ...filter, limit: filter.limit + 1 });
+      const page = rows.slice(0, filter.limit);
+      const nextCursor = rows.length > filter.limit ? encodeCursor(page[page.length - 1]) : null;
+      res.json({ events: page.map(serializeAuditEvent), nextCursor });
+    } catch (error) {
+      logger.error({ err: error }, "failed to load audit events");
+      res.status(500).json({ message: "Failed to load audit events" });
+    }
+  });
+
+  app.get("/api/audit-events/export.csv", requireAuditRead, async (req, res) => {
+    const filter = parseFilter(req, res);
+    if (!filter) return;
+    try {
+      const rows = (await collectForExport(storage, filter)).map(exportRow);
+      const lines = [EXPORT_COLUMNS.map((column) => column.header).join(",")];
+      for (const row of rows) {
+        lines.push(EXPORT_COLUMNS.map((column) => escapeCsv(String(row[column.key]))).join(","));
+      }
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="audit-events.csv"');
+      res.send(lines.join("\n"));
+    } catch (error) {
+      logger.error({ err: error }, "failed to export audit events");
+      res.status(500).json({ message: "Failed to export audit events" });
+    }
+  });
+
+  app.get("/api/audit-events/export.xlsx", requireAuditRead, async (req, res) => {
+    const filter = parseFilter(req, res);
+    if (!filter) return;
+    try {
+      const rows = await collectForExport(storage, filter);
+      const wb = new ExcelJS.Workbook();
+      const ws = wb.addWorksheet("Audit log");
+      ws.columns = EXPORT_COLUMNS;
+      for (const row of rows) {
+        ws.addRow(exportRow(row));
+      }
+      res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+      res.setHeader("Content-Disposition", 'attachment; filename="audit-events.xlsx"');
+      await wb.xlsx.write(res);
+      res.end();
+    } catch (error) {
+      logger.error({ err: error }, "failed to export audit events");
+      res.status(500).json({ message: "Failed to export audit events" });
+    }
+  });
+}
@@ -0,0 +1,174 @@
+import type { Express } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import type { UserWithBranch } from "@shared/schema";
+import { localDateString } from "@shared/capacity";
+import {
+  branchCalendarKindEnum,
+  CLOSING_CALENDAR_KINDS,
+  WEEKDAY_LABELS,
+  type WeeklyHours,
+} from "@shared/branch-hours";
+
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
+import { auditChanges } from "../middleware/audit";
+
+const requireSettingsManage = requirePermission(RBAC_PERMISSION_SLUGS.settingsManage);
+
+interface BranchHoursRouteDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  now?: () => Date;
+}
+
+const time = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "Use HH:MM");
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const weeklySchema = z.object({
+  weekly: z
+    .array(
+      z
+        .object({ weekday: z.number().int().min(0).max(6), opensAt: time, closesAt: time })
+        .refine((day) => day.opensAt < day.closesAt, "Closing time must be after opening time"),
+    )
+    .max(7)
+    .refine((days) => new Set(days.map((day) => day.weekday)).size === days.length, "Each weekday may appear once"),
+});
+
+const calendarEntrySchema = z
+  .object({
+    kind: z.enum(branchCalendarKindEnum),
+    label: z.string().trim().min(1).max(120),
+    startDate: isoDate,
+    endDate: isoDate,
+    opensAt: time.nullish(),
+    closesAt: time.nullish(),
+  })
+  .refine((entry) => entry.startDate <= entry.endDate, "End date must not be before start date")
+  .refine((entry) => entry.endDate <= addYear(entry.startDate), "Entries may span at most a year")
+  .refine(
+    (entry) =>
+      CLOSING_CALENDAR_KINDS.includes(entry.kind) ||
+      (!!entry.opensAt && !!entry.closesAt && entry.opensAt < entry.closesAt),
+    "Ramadan and special hours need an opening and closing time",
+  );
+
+function addYear(date: string): string {
+  return `${Number(date.slice(0, 4)) + 1}${date.slice(4)}`;
+}
+
+function weeklySnapshot(weekly: WeeklyHours[]): Record<string, string | null> {
+  return Object.fromEntries(
+    WEEKDAY_LABELS.map((label, weekday) => {
+      const day = weekly.find((entry) => entry.weekday === weekday);
+      return [label, day ? `${day.opensAt}-${day.closesAt}` : null];
+    }),
+  );
+}
+
+export function registerBranchHoursRoutes({ app, storage, logger, now = () => new Date() }: BranchHoursRouteDeps): void {
+  app.get("/api/branches/:id/hours", requireSettingsManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot access other branch settings" });
+    }
+    try {
+      // Past holidays no longer affect anything, so only current and upcoming entries are listed
+      res.json(await storage.getBranchCalendar(req.params.id, localDateString(now())));
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to load branch hours");
+      res.status(500).json({ message: "Failed to load branch hours" });
+    }
+  });
+
+  app.put("/api/branches/:id/hours", requireSettingsManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot modify other branch settings" });
+    }
+    const parsed = weeklySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid opening hours", errors: parsed.error.flatten() });
+    }
+    try {
+      const before = await storage.getBranchCalendar(req.params.id);
+      const weekly = await storage.saveBranchOpeningHours(req.params.id, parsed.data.weekly);
+      if (req.audit) {
+        await req.audit.log({
+          type: "branch.hours_updated",
+          entityType: "branch",
+          entityId: req.params.id,
+          branchId: req.params.id,
+          metadata: auditChanges(weeklySnapshot(before.weekly), weeklySnapshot(weekly)),
+        });
+      }
+      res.json({ weekly });
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to save branch hours");
+      res.status(500).json({ message: "Failed to save branch hours" });
+    }
+  });
+
+  app.post("/api/branches/:id/calendar", requireSettingsManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot modify other branch settings" });
+    }
+    const parsed = calendarEntrySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid calendar entry", errors: parsed.error.flatten() });
+    }
+    try {
+      const closing = CLOSING_CALENDAR_KINDS.includes(parsed.data.kind);
+      const entry = await storage.createBranchCalendarEntry(req.params.id, {
+        ...parsed.data,
+        opensAt: closing ? null : parsed.data.opensAt ?? null,
+        closesAt: closing ? null : parsed.data.closesAt ?? null,
+      });
+      if (req.audit) {
+        await req.audit.log({
+          type: "branch.calendar_entry_created",
+          entityType: "branch",
+          entityId: req.params.id,
+          branchId: req.params.id,
+          metadata: auditChanges(null, { ...entry }),
+        });
+      }
+      res.status(201).json(entry);
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to create calendar entry");
+      res.status(500).json({ message: "Failed to create calendar entry" });
+    }
+  });
+
+  app.delete("/api/branches/:id/calendar/:entryId", requireSettingsManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot modify other branch settings" });
+    }
+    if (!z.string().uuid().safeParse(req.params.entryId).success) {
+      return res.status(404).json({ message: "Calendar entry not found" });
+    }
+    try {
+      const entry = await storage.deleteBranchCalendarEntry(req.params.id, req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Calendar entry not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "branch.calendar_entry_deleted",
+          entityType: "branch",
+          entityId: req.params.id,
+          branchId: req.params.id,
+          metadata: auditChanges({ ...entry }, null),
+        });
+      }
+      res.status(204).end();
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to delete calendar entry");
+      res.status(500).json({ message: "Failed to delete calendar entry" });
+    }
+  });
+}
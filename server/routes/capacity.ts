@@ -0,0 +1,127 @@
+import type { Express } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import type { UserWithBranch } from "@shared/schema";
+import { overbookPolicyEnum } from "@shared/capacity";
+
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
+import { auditChanges } from "../middleware/audit";
+import { planBranchReadyDates } from "../services/capacity";
+
+const requireSettingsManage = requirePermission(RBAC_PERMISSION_SLUGS.settingsManage);
+
+interface CapacityRouteDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  now?: () => Date;
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const capacitySchema = z.object({
+  cutoffTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"),
+  standardLeadDays: z.number().int().min(0).max(14),
+  expressEnabled: z.boolean(),
+  expressSurchargePercent: z.number().min(0).max(500),
+  overbookPolicy: z.enum(overbookPolicyEnum),
+  closedDates: z.array(isoDate).max(366).default([]),
+  services: z
+    .array(z.object({ serviceId: z.string().uuid(), dailyPieces: z.number().int().min(0).max(100000) }))
+    .max(500)
+    .default([]),
+});
+
+const quoteSchema = z.object({
+  items: z
+    .array(z.object({ serviceId: z.string().min(1), quantity: z.number().int().min(0).max(10000) }))
+    .min(1)
+    .max(200),
+});
+
+export function registerCapacityRoutes({ app, storage, logger, now = () => new Date() }: CapacityRouteDeps): void {
+  app.get("/api/branches/:id/capacity", requireSettingsManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot access other branch settings" });
+    }
+    try {
+      res.json(await storage.getBranchCapacity(req.params.id));
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to load branch capacity");
+      res.status(500).json({ message: "Failed to load branch capacity" });
+    }
+  });
+
+  app.put("/api/branches/:id/capacity", requireSettingsManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot modify other branch settings" });
+    }
+    const parsed = capacitySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid capacity settings", errors: parsed.error.flatten() });
+    }
+    try {
+      const { services, ...settings } = parsed.data;
+      const before = await storage.getBranchCapacity(req.params.id);
+      const saved = await storage.saveBranchCapacity(
+        req.params.id,
+        {
+          ...settings,
+          expressSurchargePercent: settings.expressSurchargePercent.toFixed(2),
+          closedDates: Array.from(new Set(settings.closedDates)).sort(),
+        },
+        services,
+      );
+      if (req.audit) {
+        const snapshot = (capacity: typeof saved) =>
+          capacity.settings
+            ? {
+                cutoffTime: capacity.settings.cutoffTime,
+                standardLeadDays: capacity.settings.standardLeadDays,
+                expressEnabled: capacity.settings.expressEnabled,
+                expressSurchargePercent: capacity.settings.expressSurchargePercent,
+                overbookPolicy: capacity.settings.overbookPolicy,
+                closedDates: capacity.settings.closedDates,
+                services: capacity.services,
+              }
+            : null;
+        await req.audit.log({
+          type: "branch.capacity_updated",
+          entityType: "branch",
+          entityId: req.params.id,
+          branchId: req.params.id,
+          metadata: auditChanges(snapshot(before), snapshot(saved)),
+        });
+      }
+      res.json(saved);
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to save branch capacity");
+      res.status(500).json({ message: "Failed to save branch capacity" });
+    }
+  });
+
+  // Public: the POS and the customer ordering page both ask before an order is placed
+  app.post("/api/branches/:code/ready-date-quote", async (req, res) => {
+    const parsed = quoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid quote request", errors: parsed.error.flatten() });
+    }
+    try {
+      const branch = await storage.getBranchByCode(req.params.code);
+      if (!branch) {
+        return res.status(404).json({ message: "Branch not found" });
+      }
+      const plan = await planBranchReadyDates(storage, branch.id, parsed.data.items, now());
+      if (!plan) {
+        return res.json({ configured: false });
+      }
+      res.json({ configured: true, ...plan });
+    } catch (error) {
+      logger.error({ err: error, branchCode: req.params.code }, "failed to quote ready date");
+      res.status(500).json({ message: "Failed to quote ready date" });
+    }
+  });
+}
@@ -11,7 +11,8 @@ import {
   type UserWithBranch,
 } from "@shared/schema";
 
-import type { IStorage, ParsedRow } from "../storage";
+import { RBAC_PERMISSION_SLUGS, type IStorage, type ParsedRow } from "../storage";
+import { requirePermission } from "../auth";
 import { db } from "../db";
 import {
   SERVICE_HEADERS,
@@ -208,7 +209,7 @@ export function registerCatalogRoutes({
 
   app.post(
     "/api/catalog/bulk-upload",
-    requireAuth,
+    requirePermission(RBAC_PERMISSION_SLUGS.catalogPriceEdit),
     upload.single("file"),
     async (req, res) => {
       try {
@@ -402,6 +403,22 @@ export function registerCatalogRoutes({
           userResults: [],
         };
 
+        if (req.audit) {
+          await req.audit.log({
+            type: "price.bulk_uploaded",
+            entityType: "branch",
+            entityId: targetBranchId,
+            branchId: targetBranchId,
+            metadata: {
+              fileName: req.file.originalname,
+              processed: result.processed || 0,
+              created: result.created || 0,
+              updated: result.updated || 0,
+              products: productsResult ? { created: productsResult.created, updated: productsResult.updated } : null,
+            },
+          });
+        }
+
         res.json({
           processed: result.processed || 0,
           created: result.created || 0,
@@ -422,7 +439,7 @@ export function registerCatalogRoutes({
 
   registerCatalogExperimentRoutes({
     app,
-    requireAdminOrSuperAdmin,
+    storage,
     logger,
   });
 }
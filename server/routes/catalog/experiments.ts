@@ -1,10 +1,19 @@
-import type { Express, RequestHandler } from "express";
+import type { Express, Request } from "express";
 import type { Logger } from "pino";
-import { randomUUID } from "node:crypto";
 import { z } from "zod";
-import type { UserWithBranch } from "@shared/schema";
+import type {
+  CatalogExperimentForecast,
+  CatalogExperimentOutcome,
+  CatalogExperimentWithDetails,
+  UserWithBranch,
+} from "@shared/schema";
 
-export type ExperimentStatus = "draft" | "forecasted" | "published" | "archived";
+import { RBAC_PERMISSION_SLUGS, type CatalogExperimentSalesLine, type IStorage } from "../../storage";
+import { requirePermission } from "../../auth";
+
+export type { CatalogExperimentForecast, CatalogExperimentOutcome } from "@shared/schema";
+
+export type ExperimentStatus = "draft" | "forecasted" | "published" | "rolled_back" | "archived";
 
 declare module "express-serve-static-core" {
   interface Request {
@@ -15,96 +24,37 @@ declare module "express-serve-static-core" {
 export interface CatalogExperimentChange {
   id: string;
   serviceId: string;
+  clothingItemId: string | null;
   serviceName: string;
   baselinePrice: number;
   proposedPrice: number;
   expectedVolume: number;
 }
 
-export interface CatalogExperimentForecast {
-  baselineRevenue: number;
-  projectedRevenue: number;
-  revenueLift: number;
-  demandMultiplier: number;
-  confidence: number;
-  riskLevel: "low" | "medium" | "high";
-  assumptions: {
-    demandShift: number;
-    seasonality: number;
-  };
-}
-
 export interface CatalogExperiment {
   id: string;
   branchId: string;
   name: string;
   hypothesis: string;
   status: ExperimentStatus;
+  testWindowDays: number;
   createdAt: string;
   updatedAt: string;
   changes: CatalogExperimentChange[];
   forecast?: CatalogExperimentForecast;
-  approvals: Array<{ actor: string; role: string; at: string }>;
+  outcome?: CatalogExperimentOutcome;
+  approvals: Array<{ actor: string; role: string; action: string; at: string; notes?: string }>;
   publishedAt?: string;
+  rolledBackAt?: string;
   notes?: string;
 }
 
-interface CatalogExperimentStore {
-  create(payload: Omit<CatalogExperiment, "id" | "createdAt" | "updatedAt">): CatalogExperiment;
-  update(id: string, patch: Partial<CatalogExperiment>): CatalogExperiment | null;
-  get(id: string): CatalogExperiment | undefined;
-  list(): CatalogExperiment[];
-  reset(): void;
-}
-
-function createCatalogExperimentStore(): CatalogExperimentStore {
-  const records = new Map<string, CatalogExperiment>();
-
-  return {
-    create(payload) {
-      const now = new Date().toISOString();
-      const record: CatalogExperiment = {
-        id: randomUUID(),
-        createdAt: now,
-        updatedAt: now,
-        ...payload,
-      };
-      records.set(record.id, record);
-      return record;
-    },
-    update(id, patch) {
-      const existing = records.get(id);
-      if (!existing) return null;
-      const updated: CatalogExperiment = {
-        ...existing,
-        ...patch,
-        updatedAt: new Date().toISOString(),
-      };
-      records.set(id, updated);
-      return updated;
-    },
-    get(id) {
-      return records.get(id);
-    },
-    list() {
-      return Array.from(records.values()).sort((a, b) =>
-        new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
-      );
-    },
-    reset() {
-      records.clear();
-    },
-  };
-}
-
-const store = createCatalogExperimentStore();
-
-export function getCatalogExperimentStore() {
-  return store;
-}
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 const changeSchema = z.object({
-  serviceId: z.string().min(1),
+  serviceId: z.string().uuid(),
+  clothingItemId: z.string().uuid().optional(),
   serviceName: z.string().min(1),
   baselinePrice: z.number().nonnegative(),
   proposedPrice: z.number().nonnegative(),
@@ -112,10 +62,11 @@ const changeSchema = z.object({
 });
 
 const createSchema = z.object({
-  branchId: z.string().min(1),
+  branchId: z.string().uuid(),
   name: z.string().min(1),
   hypothesis: z.string().min(1),
   changes: z.array(changeSchema).min(1),
+  testWindowDays: z.number().int().min(1).max(90).default(14),
   notes: z.string().optional(),
 });
 
@@ -137,6 +88,13 @@ const publishSchema = z.object({
   notes: z.string().optional(),
 });
 
+const rollbackSchema = z.object({
+  confirm: z.boolean().refine((value) => value === true, {
+    message: "Experiment rollback confirmation is required",
+  }),
+  notes: z.string().optional(),
+});
+
 function formatActorName(user?: UserWithBranch | null): string {
   if (!user) return "system";
   const parts = [user.firstName, user.lastName].filter(
@@ -148,8 +106,47 @@ function formatActorName(user?: UserWithBranch | null): string {
   return user.username ?? "system";
 }
 
+function toIso(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+export function serializeExperiment(record: CatalogExperimentWithDetails): CatalogExperiment {
+  return {
+    id: record.id,
+    branchId: record.branchId,
+    name: record.name,
+    hypothesis: record.hypothesis,
+    status: record.status as ExperimentStatus,
+    testWindowDays: record.testWindowDays,
+    createdAt: toIso(record.createdAt)!,
+    updatedAt: toIso(record.updatedAt)!,
+    changes: record.changes.map((change) => ({
+      id: change.id,
+      serviceId: change.serviceId,
+      clothingItemId: change.clothingItemId ?? null,
+      serviceName: change.serviceName,
+      baselinePrice: Number(change.baselinePrice),
+      proposedPrice: Number(change.proposedPrice),
+      expectedVolume: change.expectedVolume,
+    })),
+    forecast: record.forecast ?? undefined,
+    outcome: record.outcome ?? undefined,
+    approvals: record.approvals.map((approval) => ({
+      actor: approval.actorName,
+      role: approval.role,
+      action: approval.action,
+      at: toIso(approval.createdAt)!,
+      notes: approval.notes ?? undefined,
+    })),
+    publishedAt: toIso(record.publishedAt),
+    rolledBackAt: toIso(record.rolledBackAt),
+    notes: record.notes ?? undefined,
+  };
+}
+
 function computeForecast(
-  experiment: CatalogExperiment,
+  experiment: Pick<CatalogExperiment, "changes">,
   assumptions: { demandShift: number; seasonality: number },
 ): CatalogExperimentForecast {
   let baselineRevenue = 0;
@@ -197,105 +194,322 @@ function computeForecast(
   };
 }
 
+/** The test window runs from publish for `testWindowDays`, cut short by a rollback or the current time. */
+export function resolveExperimentWindow(
+  experiment: Pick<CatalogExperiment, "publishedAt" | "rolledBackAt" | "testWindowDays">,
+  now: Date = new Date(),
+): { start: Date; end: Date } | null {
+  if (!experiment.publishedAt) return null;
+  const start = new Date(experiment.publishedAt);
+  const candidates = [start.getTime() + experiment.testWindowDays * DAY_MS, now.getTime()];
+  if (experiment.rolledBackAt) candidates.push(new Date(experiment.rolledBackAt).getTime());
+  return { start, end: new Date(Math.max(start.getTime(), Math.min(...candidates))) };
+}
+
+/**
+ * Compares realized order lines against the forecast, pro-rated to the elapsed part of the window.
+ * Forecast volumes are weekly, matching `expectedVolume`.
+ */
+export function measureExperimentOutcome(
+  experiment: Pick<CatalogExperiment, "changes" | "forecast">,
+  window: { start: Date; end: Date },
+  sales: { orderCount: number; lines: CatalogExperimentSalesLine[] },
+  now: Date = new Date(),
+): CatalogExperimentOutcome {
+  const round = (value: number) => Number(value.toFixed(2));
+  const elapsedDays = Math.max(0, (window.end.getTime() - window.start.getTime()) / DAY_MS);
+  const weeks = elapsedDays / 7;
+  const forecast = experiment.forecast;
+  const volumeMultiplier = forecast ? forecast.demandMultiplier * forecast.assumptions.seasonality : 1;
+
+  const perChange = experiment.changes.map((change) => ({
+    changeId: change.id,
+    serviceId: change.serviceId,
+    realizedRevenue: 0,
+    realizedVolume: 0,
+    forecastVolume: round(change.expectedVolume * volumeMultiplier * weeks),
+  }));
+
+  for (const line of sales.lines) {
+    // Item-specific changes win over service-wide ones so a line is only counted once
+    let index = experiment.changes.findIndex(
+      (change) => change.serviceId === line.serviceId && change.clothingItemId === line.clothingItemId,
+    );
+    if (index < 0) {
+      index = experiment.changes.findIndex(
+        (change) => change.serviceId === line.serviceId && !change.clothingItemId,
+      );
+    }
+    const target = perChange[index];
+    if (!target) continue;
+    target.realizedRevenue += line.total;
+    target.realizedVolume += line.quantity;
+  }
+
+  const realizedRevenue = perChange.reduce((sum, change) => sum + change.realizedRevenue, 0);
+  const realizedVolume = perChange.reduce((sum, change) => sum + change.realizedVolume, 0);
+  const forecastRevenue = (forecast?.projectedRevenue ?? 0) * weeks;
+  const forecastVolume = perChange.reduce((sum, change) => sum + change.forecastVolume, 0);
+
+  return {
+    windowStart: window.start.toISOString(),
+    windowEnd: window.end.toISOString(),
+    elapsedDays: round(elapsedDays),
+    orderCount: sales.orderCount,
+    realizedRevenue: round(realizedRevenue),
+    realizedVolume,
+    forecastRevenue: round(forecastRevenue),
+    forecastVolume: round(forecastVolume),
+    revenueVariance: round(realizedRevenue - forecastRevenue),
+    volumeVariance: round(realizedVolume - forecastVolume),
+    changes: perChange.map((change) => ({ ...change, realizedRevenue: round(change.realizedRevenue) })),
+    measuredAt: now.toISOString(),
+  };
+}
+
 interface CatalogExperimentRoutesDeps {
   app: Express;
-  requireAdminOrSuperAdmin: RequestHandler;
+  storage: IStorage;
   logger: Logger;
 }
 
 export function registerCatalogExperimentRoutes({
   app,
-  requireAdminOrSuperAdmin,
+  storage,
   logger,
 }: CatalogExperimentRoutesDeps): void {
-  app.get("/api/catalog/experiments", requireAdminOrSuperAdmin, (_req, res) => {
-    res.json(store.list());
+  function canAccessBranch(req: Request, branchId: string): boolean {
+    const user = req.user as UserWithBranch | undefined;
+    return user?.role === "super_admin" || user?.branchId === branchId;
+  }
+
+  async function loadExperiment(req: Request) {
+    const record = await storage.getCatalogExperiment(req.params.id);
+    if (!record || !canAccessBranch(req, record.branchId)) return null;
+    return record;
+  }
+
+  function approvalFor(req: Request, notes?: string) {
+    const actorUser = req.user as UserWithBranch | undefined;
+    return {
+      actorId: actorUser && UUID_PATTERN.test(actorUser.id) ? actorUser.id : null,
+      actorName: formatActorName(actorUser),
+      role: actorUser?.role ?? "system",
+      notes: notes ?? null,
+    };
+  }
+
+  async function refreshOutcome(record: CatalogExperimentWithDetails): Promise<CatalogExperimentWithDetails> {
+    const experiment = serializeExperiment(record);
+    const window = resolveExperimentWindow(experiment);
+    if (!window) return record;
+    const sales = await storage.getCatalogExperimentSales(
+      experiment.branchId,
+      Array.from(new Set(experiment.changes.map((change) => change.serviceId))),
+      window.start,
+      window.end,
+    );
+    const outcome = measureExperimentOutcome(experiment, window, sales);
+    return (await storage.updateCatalogExperiment(record.id, { outcome })) ?? record;
+  }
+
+  app.get("/api/catalog/experiments", requirePermission(RBAC_PERMISSION_SLUGS.catalogEdit), async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch | undefined;
+      const branchId =
+        user?.role === "super_admin"
+          ? typeof req.query.branchId === "string" && req.query.branchId
+            ? req.query.branchId
+            : undefined
+          : user?.branchId ?? undefined;
+      if (user?.role !== "super_admin" && !branchId) {
+        return res.json([]);
+      }
+      const records = await storage.getCatalogExperiments(branchId);
+      res.json(records.map(serializeExperiment));
+    } catch (error) {
+      logger.error({ err: error }, "Failed to load catalog experiments");
+      res.status(500).json({ message: "Failed to load catalog experiments" });
+    }
   });
 
-  app.post("/api/catalog/experiments", requireAdminOrSuperAdmin, (req, res) => {
+  app.post("/api/catalog/experiments", requirePermission(RBAC_PERMISSION_SLUGS.catalogPriceEdit), async (req, res) => {
     const parsed = createSchema.safeParse(req.body);
     if (!parsed.success) {
       return res.status(400).json({ message: "Invalid experiment payload", issues: parsed.error.format() });
     }
 
     const payload = parsed.data;
-    const experiment: CatalogExperiment = store.create({
-      branchId: payload.branchId,
-      name: payload.name,
-      hypothesis: payload.hypothesis,
-      status: "draft",
-      changes: payload.changes.map((change) => ({
-        ...change,
-        id: randomUUID(),
-      })),
-      forecast: undefined,
-      approvals: [],
-      notes: payload.notes,
-      publishedAt: undefined,
-    });
-
-    res.status(201).json(experiment);
-  });
-
-  app.post("/api/catalog/experiments/:id/forecast", requireAdminOrSuperAdmin, (req, res) => {
-    const experiment = store.get(req.params.id);
-    if (!experiment) {
-      return res.status(404).json({ message: "Experiment not found" });
+    if (!canAccessBranch(req, payload.branchId)) {
+      return res.status(403).json({ message: "Access denied" });
     }
 
-    const assumptions = forecastSchema.parse(req.body ?? {});
-    const forecast = computeForecast(experiment, assumptions);
-    const updated = store.update(experiment.id, {
-      status: forecast.riskLevel === "high" ? "draft" : "forecasted",
-      forecast,
-    });
-
-    res.json(updated);
+    try {
+      const actorId = approvalFor(req).actorId;
+      const record = await storage.createCatalogExperiment(
+        {
+          branchId: payload.branchId,
+          name: payload.name,
+          hypothesis: payload.hypothesis,
+          status: "draft",
+          testWindowDays: payload.testWindowDays,
+          notes: payload.notes,
+          createdBy: actorId,
+        },
+        payload.changes.map((change) => ({
+          serviceId: change.serviceId,
+          clothingItemId: change.clothingItemId ?? null,
+          serviceName: change.serviceName,
+          baselinePrice: change.baselinePrice.toFixed(2),
+          proposedPrice: change.proposedPrice.toFixed(2),
+          expectedVolume: Math.round(change.expectedVolume),
+        })),
+      );
+      res.status(201).json(serializeExperiment(record));
+    } catch (error) {
+      logger.error({ err: error }, "Failed to create catalog experiment");
+      res.status(500).json({ message: "Failed to create catalog experiment" });
+    }
   });
 
-  app.post("/api/catalog/experiments/:id/publish", requireAdminOrSuperAdmin, (req, res) => {
-    const experiment = store.get(req.params.id);
-    if (!experiment) {
-      return res.status(404).json({ message: "Experiment not found" });
+  app.post("/api/catalog/experiments/:id/forecast", requirePermission(RBAC_PERMISSION_SLUGS.catalogPriceEdit), async (req, res) => {
+    try {
+      const record = await loadExperiment(req);
+      if (!record) {
+        return res.status(404).json({ message: "Experiment not found" });
+      }
+      if (record.status !== "draft" && record.status !== "forecasted") {
+        return res.status(409).json({ message: "Only draft experiments can be re-forecast" });
+      }
+
+      const assumptions = forecastSchema.parse(req.body ?? {});
+      const forecast = computeForecast(serializeExperiment(record), assumptions);
+      const updated = await storage.updateCatalogExperiment(record.id, {
+        status: forecast.riskLevel === "high" ? "draft" : "forecasted",
+        forecast,
+      });
+
+      res.json(serializeExperiment(updated ?? record));
+    } catch (error) {
+      logger.error({ err: error }, "Failed to forecast catalog experiment");
+      res.status(500).json({ message: "Failed to forecast catalog experiment" });
     }
+  });
 
+  app.post("/api/catalog/experiments/:id/publish", requirePermission(RBAC_PERMISSION_SLUGS.catalogPriceEdit), async (req, res) => {
     const parsed = publishSchema.safeParse(req.body ?? {});
     if (!parsed.success) {
       return res.status(400).json({ message: "Invalid publish payload", issues: parsed.error.format() });
     }
 
-    if (!experiment.forecast) {
-      return res.status(409).json({ message: "Run a forecast before publishing" });
+    try {
+      const record = await loadExperiment(req);
+      if (!record) {
+        return res.status(404).json({ message: "Experiment not found" });
+      }
+
+      if (!record.forecast) {
+        return res.status(409).json({ message: "Run a forecast before publishing" });
+      }
+
+      if (record.forecast.riskLevel === "high") {
+        return res
+          .status(409)
+          .json({ message: "High risk experiments require additional review before publishing" });
+      }
+
+      if (record.status !== "forecasted") {
+        return res.status(409).json({ message: `Experiment is already ${record.status}` });
+      }
+
+      const published = await storage.publishCatalogExperiment(
+        record.id,
+        approvalFor(req, parsed.data.notes ?? record.notes ?? undefined),
+      );
+      if (!published) {
+        return res.status(409).json({ message: "Experiment changed state, reload and try again" });
+      }
+
+      if (req.audit) {
+        await req.audit.log({
+          type: "catalog.experiment_published",
+          entityType: "catalog_experiment",
+          entityId: record.id,
+          metadata: {
+            branchId: record.branchId,
+            changes: published.changes.map((change) => ({
+              serviceId: change.serviceId,
+              clothingItemId: change.clothingItemId,
+              proposedPrice: change.proposedPrice,
+              pricesUpdated: change.priceSnapshot?.length ?? 0,
+            })),
+          },
+        });
+      }
+
+      logger.info({ experimentId: record.id }, "Catalog experiment published");
+      res.json(serializeExperiment(published));
+    } catch (error) {
+      logger.error({ err: error }, "Failed to publish catalog experiment");
+      res.status(500).json({ message: "Failed to publish catalog experiment" });
     }
+  });
 
-    if (experiment.forecast.riskLevel === "high") {
-      return res
-        .status(409)
-        .json({ message: "High risk experiments require additional review before publishing" });
+  app.post("/api/catalog/experiments/:id/rollback", requirePermission(RBAC_PERMISSION_SLUGS.catalogPriceEdit), async (req, res) => {
+    const parsed = rollbackSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid rollback payload", issues: parsed.error.format() });
     }
 
-    const actorUser = req.user as UserWithBranch | undefined;
-    const actorName = formatActorName(actorUser);
-
-    const updated = store.update(experiment.id, {
-      status: "published",
-      publishedAt: new Date().toISOString(),
-      notes: parsed.data.notes ?? experiment.notes,
-      approvals: [
-        ...experiment.approvals,
-        {
-          actor: actorName,
-          role: actorUser?.role ?? "system",
-          at: new Date().toISOString(),
-        },
-      ],
-    });
-
-    logger.info({ experimentId: experiment.id }, "Catalog experiment published");
-    res.json(updated);
+    try {
+      const record = await loadExperiment(req);
+      if (!record) {
+        return res.status(404).json({ message: "Experiment not found" });
+      }
+      if (record.status !== "published") {
+        return res.status(409).json({ message: "Only published experiments can be rolled back" });
+      }
+
+      const rolledBack = await storage.rollbackCatalogExperiment(record.id, approvalFor(req, parsed.data.notes));
+      if (!rolledBack) {
+        return res.status(409).json({ message: "Experiment changed state, reload and try again" });
+      }
+
+      if (req.audit) {
+        await req.audit.log({
+          type: "catalog.experiment_rolled_back",
+          entityType: "catalog_experiment",
+          entityId: record.id,
+          severity: "warning",
+          metadata: { branchId: record.branchId, notes: parsed.data.notes ?? null },
+        });
+      }
+
+      logger.info({ experimentId: record.id }, "Catalog experiment rolled back");
+      // Freeze the outcome for the window that actually ran
+      res.json(serializeExperiment(await refreshOutcome(rolledBack)));
+    } catch (error) {
+      logger.error({ err: error }, "Failed to roll back catalog experiment");
+      res.status(500).json({ message: "Failed to roll back catalog experiment" });
+    }
   });
-}
 
-export function resetCatalogExperimentStore() {
-  store.reset();
+  app.get("/api/catalog/experiments/:id/outcome", requirePermission(RBAC_PERMISSION_SLUGS.catalogEdit), async (req, res) => {
+    try {
+      const record = await loadExperiment(req);
+      if (!record) {
+        return res.status(404).json({ message: "Experiment not found" });
+      }
+      if (record.status !== "published" && record.status !== "rolled_back") {
+        return res.status(409).json({ message: "Outcomes are available once an experiment is published" });
+      }
+
+      // Rolled back experiments keep the outcome measured at rollback time
+      const measured = record.status === "published" || !record.outcome ? await refreshOutcome(record) : record;
+      res.json(measured.outcome);
+    } catch (error) {
+      logger.error({ err: error }, "Failed to measure catalog experiment outcome");
+      res.status(500).json({ message: "Failed to measure catalog experiment outcome" });
+    }
+  });
 }
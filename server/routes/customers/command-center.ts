@@ -122,13 +122,16 @@ export function registerCustomerCommandCenterRoutes({
           return res.status(404).json({ message: "Customer not found" });
         }
 
-        const [orders, packages, payments, loyaltyHistory, plan, outreachEvents] = await Promise.all([
+        const [orders, packages, subscriptions, payments, loyaltyHistory, plan, outreachEvents, compensations, walletTransactions] = await Promise.all([
           storage.getOrdersByCustomer(customer.id, branchScope),
           storage.getCustomerPackagesWithUsage(customer.id),
+          storage.getCustomerSubscriptions(customer.id),
           storage.getPaymentsByCustomer(customer.id, branchScope),
           storage.getLoyaltyHistory(customer.id),
           storage.getCustomerEngagementPlan(customer.id),
           fetchOutreachEvents(customer.id),
+          storage.getDeliveryCompensations({ customerId: customer.id, branchId: branchScope }),
+          storage.getCustomerWalletTransactions(customer.id, 100),
         ]);
 
         const sortedOrders = [...orders].sort(
@@ -176,6 +179,26 @@ export function registerCustomerCommandCenterRoutes({
           totalCredits: pkg.totalCredits ?? pkg.package?.maxItems ?? null,
         }));
 
+        const subscriptionUsage = subscriptions.map((subscription) => ({
+          id: subscription.id,
+          planName: subscription.plan.nameEn,
+          status: subscription.status,
+          billingMethod: subscription.billingMethod,
+          price: toNumber(subscription.plan.price),
+          currentPackageId: subscription.currentPackageId ?? null,
+          currentPeriodStart: toIso(subscription.currentPeriodStart),
+          currentPeriodEnd: toIso(subscription.currentPeriodEnd),
+          nextRenewalAt: subscription.status === "active" ? toIso(subscription.currentPeriodEnd) : null,
+          cycles: subscription.cycles.map((cycle) => ({
+            id: cycle.id,
+            periodStart: toIso(cycle.periodStart),
+            periodEnd: toIso(cycle.periodEnd),
+            amount: toNumber(cycle.amount),
+            billingMethod: cycle.billingMethod,
+            rolledOverCredits: cycle.rolledOverCredits,
+          })),
+        }));
+
         const timelineEvents: CommandCenterTimelineEvent[] = [];
         for (const order of orderHistory) {
           timelineEvents.push({
@@ -197,6 +220,34 @@ export function registerCustomerCommandCenterRoutes({
           });
         }
 
+        for (const compensation of compensations) {
+          const amount = toNumber(compensation.amount);
+          timelineEvents.push({
+            id: `compensation-${compensation.id}`,
+            occurredAt: toIso(compensation.decidedAt ?? compensation.createdAt) ?? new Date().toISOString(),
+            category: "payment",
+            title:
+              compensation.status === "applied"
+                ? `Delivery compensation of E£ ${amount.toFixed(2)} ${compensation.method === "coupon" ? "issued as coupon" : "credited"}`
+                : `Delivery compensation of E£ ${amount.toFixed(2)} ${compensation.status === "rejected" ? "rejected" : "awaiting approval"}`,
+            details: compensation.reason || undefined,
+            meta: { orderId: compensation.orderId, deliveryId: compensation.deliveryId, status: compensation.status },
+          });
+        }
+
+        for (const entry of walletTransactions) {
+          const amount = Math.abs(toNumber(entry.amount));
+          const label = entry.type === "top_up" ? "Wallet top-up" : entry.type === "refund" ? "Refund to wallet" : "Wallet payment";
+          timelineEvents.push({
+            id: `wallet-${entry.id}`,
+            occurredAt: toIso(entry.createdAt) ?? new Date().toISOString(),
+            category: "payment",
+            title: `${label} of E£ ${amount.toFixed(2)}`,
+            details: `Wallet balance E£ ${toNumber(entry.balanceAfter).toFixed(2)}${entry.notes ? ` | ${entry.notes}` : ""}`,
+            meta: entry.orderId ? { orderId: entry.orderId } : undefined,
+          });
+        }
+
         for (const entry of loyaltyHistory) {
           timelineEvents.push({
             id: `loyalty-${entry.id}`,
@@ -270,12 +321,23 @@ export function registerCustomerCommandCenterRoutes({
           },
           financial: {
             balanceDue: toNumber(customer.balanceDue),
+            walletBalance: toNumber(customer.walletBalance),
             totalSpend: toNumber(customer.totalSpent ?? customer.totalSpend),
             loyaltyPoints: customer.loyaltyPoints ?? 0,
             packageCredits: packageUsage.reduce((sum, pkg) => sum + (pkg.balance || 0), 0),
           },
           orders: orderHistory,
           packages: packageUsage,
+          subscriptions: subscriptionUsage,
+          walletStatement: walletTransactions.map((entry) => ({
+            id: entry.id,
+            type: entry.type,
+            amount: toNumber(entry.amount),
+            balanceAfter: toNumber(entry.balanceAfter),
+            orderId: entry.orderId ?? null,
+            notes: entry.notes ?? null,
+            createdAt: toIso(entry.createdAt),
+          })),
           outreachTimeline: sortedTimeline,
           auditTrail,
           actions: {
@@ -0,0 +1,322 @@
+import type { Express, Request, RequestHandler } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+
+import { RBAC_PERMISSION_SLUGS, type HouseholdWithMembers, type IStorage } from "../../storage";
+import { requirePermission } from "../../auth";
+import type { UserWithBranch } from "@shared/schema";
+
+const requireCustomerEdit = requirePermission(RBAC_PERMISSION_SLUGS.customersEdit);
+
+const createHouseholdSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  ownerCustomerId: z.string().uuid(),
+  memberCustomerIds: z.array(z.string().uuid()).max(20).default([]),
+});
+
+const addMemberSchema = z.object({
+  customerId: z.string().uuid(),
+});
+
+const sharesSchema = z.object({
+  shares: z
+    .array(
+      z.object({
+        customerId: z.string().uuid(),
+        creditLimit: z.number().int().min(0).nullable().default(null),
+      }),
+    )
+    .max(20)
+    .refine((shares) => new Set(shares.map((share) => share.customerId)).size === shares.length, {
+      message: "Each member can only be listed once",
+    }),
+});
+
+const transferSchema = z.object({
+  toCustomerId: z.string().uuid(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+interface RegisterCustomerHouseholdRoutesDeps {
+  app: Express;
+  storage: IStorage;
+  requireAuth: RequestHandler;
+  logger: Logger;
+}
+
+function branchScope(req: Request): string | undefined {
+  const user = req.user as UserWithBranch;
+  return user.role === "super_admin" ? undefined : user.branchId || undefined;
+}
+
+async function loadScopedHousehold(storage: IStorage, req: Request): Promise<HouseholdWithMembers | undefined> {
+  const household = await storage.getHousehold(req.params.id);
+  const scope = branchScope(req);
+  if (!household || (scope && household.branchId !== scope)) return undefined;
+  return household;
+}
+
+async function loadOwnedPackage(storage: IStorage, req: Request) {
+  const customer = await storage.getCustomer(req.params.customerId, branchScope(req));
+  if (!customer) return undefined;
+  const customerPackage = await storage.getCustomerPackage(req.params.customerPackageId);
+  if (!customerPackage || customerPackage.customerId !== customer.id) return undefined;
+  return { customer, customerPackage };
+}
+
+export function registerCustomerHouseholdRoutes({
+  app,
+  storage,
+  requireAuth,
+  logger,
+}: RegisterCustomerHouseholdRoutesDeps): void {
+  app.get("/api/customers/:customerId/household", requireAuth, async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.customerId, branchScope(req));
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const household = await storage.getCustomerHousehold(customer.id);
+      res.json({ household: household ?? null });
+    } catch (error) {
+      logger.error({ err: error, customerId: req.params.customerId }, "failed to load customer household");
+      res.status(500).json({ message: "Failed to load household" });
+    }
+  });
+
+  app.post("/api/households", requireCustomerEdit, async (req, res) => {
+    const parsed = createHouseholdSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid household", errors: parsed.error.flatten() });
+    }
+    try {
+      const { name, ownerCustomerId, memberCustomerIds } = parsed.data;
+      const owner = await storage.getCustomer(ownerCustomerId, branchScope(req));
+      if (!owner) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const customerIds = [ownerCustomerId, ...memberCustomerIds.filter((id) => id !== ownerCustomerId)];
+      for (const customerId of customerIds) {
+        const customer = customerId === owner.id ? owner : await storage.getCustomer(customerId, owner.branchId);
+        if (!customer) {
+          return res.status(404).json({ message: "Customer not found", customerId });
+        }
+        if (await storage.getCustomerHousehold(customerId)) {
+          return res.status(409).json({
+            message: "Customer already belongs to a household",
+            code: "HOUSEHOLD_MEMBER_EXISTS",
+            customerId,
+          });
+        }
+      }
+      const household = await storage.createHousehold(owner.branchId, name, owner.id, customerIds.slice(1));
+      if (req.audit) {
+        await req.audit.log({
+          type: "household.created",
+          entityType: "household",
+          entityId: household.id,
+          branchId: household.branchId,
+          metadata: { name, members: customerIds },
+        });
+      }
+      res.status(201).json(household);
+    } catch (error) {
+      logger.error({ err: error }, "failed to create household");
+      res.status(500).json({ message: "Failed to create household" });
+    }
+  });
+
+  app.post("/api/households/:id/members", requireCustomerEdit, async (req, res) => {
+    const parsed = addMemberSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid member", errors: parsed.error.flatten() });
+    }
+    try {
+      const household = await loadScopedHousehold(storage, req);
+      if (!household) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      const customer = await storage.getCustomer(parsed.data.customerId, household.branchId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (await storage.getCustomerHousehold(customer.id)) {
+        return res.status(409).json({
+          message: "Customer already belongs to a household",
+          code: "HOUSEHOLD_MEMBER_EXISTS",
+          customerId: customer.id,
+        });
+      }
+      const updated = await storage.addHouseholdMember(household.id, customer.id);
+      if (req.audit) {
+        await req.audit.log({
+          type: "household.member_added",
+          entityType: "household",
+          entityId: household.id,
+          branchId: household.branchId,
+          metadata: { customerId: customer.id },
+        });
+      }
+      res.status(201).json(updated);
+    } catch (error) {
+      logger.error({ err: error, householdId: req.params.id }, "failed to add household member");
+      res.status(500).json({ message: "Failed to add household member" });
+    }
+  });
+
+  app.delete("/api/households/:id/members/:customerId", requireCustomerEdit, async (req, res) => {
+    try {
+      const household = await loadScopedHousehold(storage, req);
+      if (!household) {
+        return res.status(404).json({ message: "Household not found" });
+      }
+      const member = household.members.find((entry) => entry.customerId === req.params.customerId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (member.role === "owner") {
+        return res.status(409).json({ message: "The household owner cannot be removed", code: "HOUSEHOLD_OWNER" });
+      }
+      await storage.removeHouseholdMember(household.id, member.customerId);
+      if (req.audit) {
+        await req.audit.log({
+          type: "household.member_removed",
+          entityType: "household",
+          entityId: household.id,
+          branchId: household.branchId,
+          metadata: { customerId: member.customerId },
+        });
+      }
+      res.json(await storage.getHousehold(household.id));
+    } catch (error) {
+      logger.error({ err: error, householdId: req.params.id }, "failed to remove household member");
+      res.status(500).json({ message: "Failed to remove household member" });
+    }
+  });
+
+  app.get("/api/customers/:customerId/packages/:customerPackageId/usage", requireAuth, async (req, res) => {
+    try {
+      const owned = await loadOwnedPackage(storage, req);
+      if (!owned) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+      const [shares, usages] = await Promise.all([
+        storage.getCustomerPackageShares(owned.customerPackage.id),
+        storage.getCustomerPackageUsages(owned.customerPackage.id),
+      ]);
+      res.json({ customerPackageId: owned.customerPackage.id, shares, usages });
+    } catch (error) {
+      logger.error({ err: error, customerPackageId: req.params.customerPackageId }, "failed to load package usage");
+      res.status(500).json({ message: "Failed to load package usage" });
+    }
+  });
+
+  app.put("/api/customers/:customerId/packages/:customerPackageId/shares", requireCustomerEdit, async (req, res) => {
+    const parsed = sharesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid shares", errors: parsed.error.flatten() });
+    }
+    try {
+      const owned = await loadOwnedPackage(storage, req);
+      if (!owned) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+      const household = await storage.getCustomerHousehold(owned.customer.id);
+      const memberIds = new Set(
+        (household?.members ?? [])
+          .map((member) => member.customerId)
+          .filter((customerId) => customerId !== owned.customer.id),
+      );
+      const outsider = parsed.data.shares.find((share) => !memberIds.has(share.customerId));
+      if (outsider) {
+        return res.status(400).json({
+          message: "Packages can only be shared with other members of the owner's household",
+          code: "HOUSEHOLD_MEMBER_REQUIRED",
+          customerId: outsider.customerId,
+        });
+      }
+      const before = await storage.getCustomerPackageShares(owned.customerPackage.id);
+      const shares = await storage.setCustomerPackageShares(owned.customerPackage.id, parsed.data.shares);
+      if (req.audit) {
+        await req.audit.log({
+          type: "customer_package.shares_updated",
+          entityType: "customer_package",
+          entityId: owned.customerPackage.id,
+          branchId: owned.customer.branchId,
+          metadata: {
+            before: before.map(({ customerId, creditLimit }) => ({ customerId, creditLimit })),
+            after: parsed.data.shares,
+          },
+        });
+      }
+      res.json(shares);
+    } catch (error) {
+      logger.error({ err: error, customerPackageId: req.params.customerPackageId }, "failed to update package shares");
+      res.status(500).json({ message: "Failed to update package shares" });
+    }
+  });
+
+  app.post("/api/customers/:customerId/packages/:customerPackageId/transfer", requireCustomerEdit, async (req, res) => {
+    const parsed = transferSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid transfer", errors: parsed.error.flatten() });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const owned = await loadOwnedPackage(storage, req);
+      if (!owned) {
+        return res.status(404).json({ message: "Package not found" });
+      }
+      if (parsed.data.toCustomerId === owned.customer.id) {
+        return res.status(400).json({ message: "Choose another customer to receive the credits" });
+      }
+      const recipient = await storage.getCustomer(parsed.data.toCustomerId, owned.customer.branchId);
+      if (!recipient) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const result = await storage.transferCustomerPackage({
+        customerPackageId: owned.customerPackage.id,
+        toCustomerId: recipient.id,
+        branchId: owned.customer.branchId,
+        reason: parsed.data.reason ?? null,
+        transferredBy: user.id,
+      });
+      if (!result) {
+        return res.status(409).json({ message: "The package has no credits left to transfer", code: "PACKAGE_NOTHING_TO_TRANSFER" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "customer_package.transferred",
+          entityType: "customer_package",
+          entityId: owned.customerPackage.id,
+          branchId: owned.customer.branchId,
+          severity: "warning",
+          metadata: {
+            fromCustomerId: owned.customer.id,
+            toCustomerId: recipient.id,
+            toCustomerPackageId: result.customerPackage.id,
+            credits: result.transfer.credits,
+            reason: result.transfer.reason,
+          },
+        });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      logger.error({ err: error, customerPackageId: req.params.customerPackageId }, "failed to transfer package credits");
+      res.status(500).json({ message: "Failed to transfer package credits" });
+    }
+  });
+
+  app.get("/api/customers/:customerId/package-transfers", requireAuth, async (req, res) => {
+    try {
+      const customer = await storage.getCustomer(req.params.customerId, branchScope(req));
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(await storage.getCustomerPackageTransfers(customer.id));
+    } catch (error) {
+      logger.error({ err: error, customerId: req.params.customerId }, "failed to load package transfers");
+      res.status(500).json({ message: "Failed to load package transfers" });
+    }
+  });
+}
@@ -0,0 +1,216 @@
+import type { Express, Request, RequestHandler } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+
+import { OrderRefundExceedsTotalError, RBAC_PERMISSION_SLUGS, type IStorage } from "../../storage";
+import { requirePermission } from "../../auth";
+import { loadRefundContext, planOrderRefund } from "../order-refunds";
+import type { CustomerWalletTransaction, UserWithBranch } from "@shared/schema";
+
+
+const MAX_WALLET_AMOUNT = 100000;
+
+const walletQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const topUpSchema = z.object({
+  amount: z.coerce.number().positive().max(MAX_WALLET_AMOUNT),
+  fundingMethod: z.enum(["cash", "card", "bank_transfer"]),
+  notes: z.string().max(500).optional(),
+});
+
+const refundSchema = z.object({
+  amount: z.coerce.number().positive().max(MAX_WALLET_AMOUNT),
+  orderId: z.string().uuid().optional(),
+  reason: z.string().min(1).max(500),
+});
+
+interface RegisterCustomerWalletRoutesDeps {
+  app: Express;
+  storage: IStorage;
+  requireAuth: RequestHandler;
+  logger: Logger;
+}
+
+export function serializeWalletTransaction(record: CustomerWalletTransaction) {
+  return {
+    id: record.id,
+    type: record.type,
+    amount: Number.parseFloat(record.amount),
+    balanceAfter: Number.parseFloat(record.balanceAfter),
+    fundingMethod: record.fundingMethod ?? null,
+    orderId: record.orderId ?? null,
+    paymentId: record.paymentId ?? null,
+    notes: record.notes ?? null,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+async function loadScopedCustomer(storage: IStorage, req: Request) {
+  const user = req.user as UserWithBranch;
+  const branchScope = user.role === "super_admin" ? undefined : user.branchId || undefined;
+  return await storage.getCustomer(req.params.customerId, branchScope);
+}
+
+export function registerCustomerWalletRoutes({
+  app,
+  storage,
+  requireAuth,
+  logger,
+}: RegisterCustomerWalletRoutesDeps): void {
+  app.get("/api/customers/:customerId/wallet", requireAuth, async (req, res) => {
+    const parsed = walletQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+    }
+    try {
+      const customer = await loadScopedCustomer(storage, req);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const transactions = await storage.getCustomerWalletTransactions(customer.id, parsed.data.limit);
+      res.json({
+        customerId: customer.id,
+        balance: Number.parseFloat(customer.walletBalance),
+        transactions: transactions.map(serializeWalletTransaction),
+      });
+    } catch (error) {
+      logger.error({ err: error }, "failed to load customer wallet");
+      res.status(500).json({ message: "Failed to load wallet" });
+    }
+  });
+
+  app.post("/api/customers/:customerId/wallet/top-ups", requireAuth, async (req, res) => {
+    const parsed = topUpSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid top-up", errors: parsed.error.flatten() });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const customer = await loadScopedCustomer(storage, req);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      // Attribute the top-up to the cashier's branch so it reconciles with their drawer
+      const transaction = await storage.creditCustomerWallet({
+        customerId: customer.id,
+        branchId: user.branchId ?? customer.branchId,
+        type: "top_up",
+        amount: parsed.data.amount,
+        fundingMethod: parsed.data.fundingMethod,
+        notes: parsed.data.notes ?? null,
+        createdBy: user.id,
+      });
+      if (!transaction) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "customer.wallet_top_up",
+          entityType: "customer",
+          entityId: customer.id,
+          metadata: { amount: transaction.amount, fundingMethod: transaction.fundingMethod },
+        });
+      }
+      res.status(201).json({
+        transaction: serializeWalletTransaction(transaction),
+        balance: Number.parseFloat(transaction.balanceAfter),
+      });
+    } catch (error) {
+      logger.error({ err: error }, "failed to top up customer wallet");
+      res.status(500).json({ message: "Failed to top up wallet" });
+    }
+  });
+
+  app.post("/api/customers/:customerId/wallet/refunds", requirePermission(RBAC_PERMISSION_SLUGS.customersWalletRefund), async (req, res) => {
+    const parsed = refundSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid refund", errors: parsed.error.flatten() });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const customer = await loadScopedCustomer(storage, req);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      let transaction: CustomerWalletTransaction | undefined;
+      if (parsed.data.orderId) {
+        const order = await storage.getOrder(parsed.data.orderId, user.role === "super_admin" ? undefined : user.branchId ?? undefined);
+        if (!order || order.customerId !== customer.id) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        // Order refunds share one ledger of what has been paid back, whatever the method
+        const result = planOrderRefund(await loadRefundContext(storage, order), {
+          kind: "refund",
+          amount: parsed.data.amount,
+          refundMethod: "wallet",
+          reason: parsed.data.reason,
+        });
+        if ("error" in result) {
+          return res.status(result.error.status).json({ message: result.error.message });
+        }
+        const { plan } = result;
+        const toWallet = plan.allocations.reduce((total, allocation) => total + allocation.amount, 0);
+        if (toWallet < parsed.data.amount - 0.005) {
+          return res.status(400).json({ message: "Refund exceeds the amount paid for the order" });
+        }
+        const created = await storage.createOrderRefund({
+          orderId: order.id,
+          branchId: order.branchId,
+          customerId: customer.id,
+          kind: "refund",
+          amount: plan.amount.toFixed(2),
+          balanceCredit: plan.balanceCredit.toFixed(2),
+          items: plan.items,
+          allocations: plan.allocations,
+          packageCredits: plan.packageCredits,
+          loyaltyPointsReversed: plan.loyaltyPointsReversed,
+          loyaltyPointsRestored: plan.loyaltyPointsRestored,
+          loyaltyValueRestored: plan.loyaltyValueRestored.toFixed(2),
+          reason: parsed.data.reason,
+          status: "pending_approval",
+          requestedBy: user.id,
+        });
+        try {
+          await storage.applyOrderRefund(created.id, user.id);
+        } catch (error) {
+          if (!(error instanceof OrderRefundExceedsTotalError)) throw error;
+          await storage.rejectOrderRefund(created.id, user.id, error.message);
+          return res.status(409).json({ message: error.message });
+        }
+        const recent = await storage.getCustomerWalletTransactions(customer.id, 20);
+        transaction = recent.find((entry) => entry.type === "refund" && entry.orderId === order.id);
+      } else {
+        transaction = await storage.creditCustomerWallet({
+          customerId: customer.id,
+          branchId: customer.branchId,
+          type: "refund",
+          amount: parsed.data.amount,
+          orderId: null,
+          notes: parsed.data.reason,
+          createdBy: user.id,
+        });
+      }
+      if (!transaction) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "customer.wallet_refund",
+          entityType: "customer",
+          entityId: customer.id,
+          severity: "warning",
+          metadata: { amount: transaction.amount, orderId: transaction.orderId, reason: parsed.data.reason },
+        });
+      }
+      res.status(201).json({
+        transaction: serializeWalletTransaction(transaction),
+        balance: Number.parseFloat(transaction.balanceAfter),
+      });
+    } catch (error) {
+      logger.error({ err: error }, "failed to refund into customer wallet");
+      res.status(500).json({ message: "Failed to refund into wallet" });
+    }
+  });
+}
@@ -0,0 +1,149 @@
+import type { Express, Request } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import { dataQualityExceptionStatusEnum, type UserWithBranch } from "@shared/schema";
+
+import { RBAC_PERMISSION_SLUGS } from "../storage";
+import { requirePermission } from "../auth";
+import { auditChanges } from "../middleware/audit";
+import { DataQualityRunInProgressError, type DataQualityService } from "../services/data-quality";
+
+const requireDataQuality = requirePermission(RBAC_PERMISSION_SLUGS.dataQualityManage);
+
+export type DataQualityConsole = Pick<
+  DataQualityService,
+  | "runAllChecks"
+  | "isRunning"
+  | "listRuns"
+  | "listExceptions"
+  | "summarizeExceptions"
+  | "getException"
+  | "updateExceptionStatus"
+>;
+
+interface DataQualityRoutesDeps {
+  app: Express;
+  logger: Logger;
+  dataQuality: DataQualityConsole;
+}
+
+const listQuerySchema = z.object({
+  status: z.enum(dataQualityExceptionStatusEnum).optional(),
+  checkName: z.string().trim().min(1).optional(),
+  branchId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+const statusChangeSchema = z
+  .object({
+    status: z.enum(dataQualityExceptionStatusEnum),
+    note: z.string().trim().max(1000).optional(),
+  })
+  .refine((body) => (body.status !== "resolved" && body.status !== "ignored") || Boolean(body.note), {
+    message: "A note is required to resolve or ignore an exception",
+    path: ["note"],
+  });
+
+// Super admins see every branch; everyone else only their own
+function scopedBranch(req: Request, requested?: string): string | undefined {
+  const user = req.user as UserWithBranch;
+  return user.role === "super_admin" ? requested : user.branchId ?? undefined;
+}
+
+export function registerDataQualityRoutes({ app, logger, dataQuality }: DataQualityRoutesDeps): void {
+  app.get("/api/data-quality/runs", requireDataQuality, async (req, res) => {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+    try {
+      const runs = await dataQuality.listRuns(limit);
+      res.json({ running: dataQuality.isRunning(), runs });
+    } catch (error) {
+      logger.error({ err: error }, "failed to load data quality runs");
+      res.status(500).json({ message: "Failed to load data quality runs" });
+    }
+  });
+
+  app.post("/api/data-quality/runs", requireDataQuality, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    try {
+      const runId = await dataQuality.runAllChecks({ triggeredBy: user.id });
+      if (req.audit) {
+        await req.audit.log({ type: "data_quality.run_triggered", entityType: "data_quality_run", entityId: runId });
+      }
+      res.status(201).json({ runId });
+    } catch (error) {
+      if (error instanceof DataQualityRunInProgressError) {
+        return res.status(409).json({ message: error.message });
+      }
+      logger.error({ err: error }, "data quality run failed");
+      res.status(500).json({ message: "Data quality run failed" });
+    }
+  });
+
+  app.get("/api/data-quality/summary", requireDataQuality, async (req, res) => {
+    const parsed = listQuerySchema.pick({ branchId: true }).safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+    }
+    try {
+      res.json(await dataQuality.summarizeExceptions(scopedBranch(req, parsed.data.branchId)));
+    } catch (error) {
+      logger.error({ err: error }, "failed to summarize data quality exceptions");
+      res.status(500).json({ message: "Failed to load data quality summary" });
+    }
+  });
+
+  app.get("/api/data-quality/exceptions", requireDataQuality, async (req, res) => {
+    const parsed = listQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+    }
+    const { branchId, ...filter } = parsed.data;
+    try {
+      res.json(await dataQuality.listExceptions({ ...filter, branchId: scopedBranch(req, branchId) }));
+    } catch (error) {
+      logger.error({ err: error }, "failed to load data quality exceptions");
+      res.status(500).json({ message: "Failed to load data quality exceptions" });
+    }
+  });
+
+  app.patch("/api/data-quality/exceptions/:id", requireDataQuality, async (req, res) => {
+    const parsed = statusChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid status change", errors: parsed.error.flatten() });
+    }
+    const user = req.user as UserWithBranch;
+    try {
+      const existing = await dataQuality.getException(req.params.id);
+      if (!existing || (user.role !== "super_admin" && existing.branchId !== user.branchId)) {
+        return res.status(404).json({ message: "Exception not found" });
+      }
+      const updated = await dataQuality.updateExceptionStatus(existing.id, {
+        status: parsed.data.status,
+        note: parsed.data.note ?? null,
+        actorId: user.id,
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Exception not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: `data_quality.exception_${parsed.data.status}`,
+          entityType: "data_quality_exception",
+          entityId: updated.id,
+          branchId: updated.branchId,
+          metadata: {
+            checkName: updated.checkName,
+            ...auditChanges(
+              { status: existing.status, resolutionNote: existing.resolutionNote },
+              { status: updated.status, resolutionNote: updated.resolutionNote },
+            ),
+          },
+        });
+      }
+      res.json(updated);
+    } catch (error) {
+      logger.error({ err: error, exceptionId: req.params.id }, "failed to update data quality exception");
+      res.status(500).json({ message: "Failed to update exception" });
+    }
+  });
+}
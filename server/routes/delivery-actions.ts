@@ -2,15 +2,25 @@ import type { Express, Request, Response, NextFunction, RequestHandler } from "e
 import { z } from "zod";
 import type { Logger } from "pino";
 
-import type { IStorage } from "../storage";
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
 import type { DeliveryChannelEvent } from "../types/delivery-channel";
+import type { DeliveryCompensation, UserWithBranch } from "@shared/schema";
+import { localDateString } from "@shared/capacity";
+import { branchDay, clockTime, hasOpeningHours, windowsWithinHours } from "@shared/branch-hours";
+import { loadBranchCalendar } from "../services/branch-calendar";
+import { holdDeliverySlots, listSlotAvailability } from "../services/delivery-slots";
+
+const requireDeliveryManage = requirePermission(RBAC_PERMISSION_SLUGS.deliveryManage);
 
 const MIN_NOTICE_MINUTES = 45;
 const MAX_RESCHEDULES = 3;
+const RESCHEDULE_WINDOW_COUNT = 4;
 const COMPENSATION_MAX_PERCENT = 0.25;
-
-const rescheduleCounts = new Map<string, number>();
-const compensationLedger = new Map<string, number>();
+// Used when a branch has no compensation_approval_threshold in its delivery settings.
+const DEFAULT_COMPENSATION_APPROVAL_THRESHOLD = Number.parseFloat(
+  process.env.DELIVERY_COMPENSATION_APPROVAL_THRESHOLD ?? "10",
+);
 
 function getPortalSession(req: Request) {
   return (req.session as any)?.deliveryPortal as
@@ -37,12 +47,25 @@ const rescheduleSchema = z.object({
   windowStart: z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid start time"),
   windowEnd: z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Invalid end time"),
   reason: z.string().optional(),
+  // Required when the branch books drop-offs into slots
+  slotId: z.string().uuid().optional(),
+  slotDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
 });
 
 const compensationSchema = z.object({
   amount: z.number().positive(),
   currency: z.string().default("USD"),
   reason: z.string().optional(),
+  method: z.enum(["balance_credit", "coupon"]).default("balance_credit"),
+});
+
+const compensationListSchema = z.object({
+  status: z.enum(["pending_approval", "applied", "rejected"]).optional(),
+  branchId: z.string().uuid().optional(),
+});
+
+const compensationDecisionSchema = z.object({
+  note: z.string().max(500).optional(),
 });
 
 interface DeliveryActionRouteDeps {
@@ -53,22 +76,78 @@ interface DeliveryActionRouteDeps {
   broadcastDeliveryEvent: (event: DeliveryChannelEvent) => Promise<void>;
 }
 
-async function buildRescheduleWindows(delivery: any) {
+async function resolveApprovalThreshold(storage: IStorage, branchId: string): Promise<number> {
+  const settings = await storage.getBranchDeliverySettings(branchId);
+  const configured = Number.parseFloat(String(settings?.compensationApprovalThreshold ?? ""));
+  return Number.isFinite(configured) ? configured : DEFAULT_COMPENSATION_APPROVAL_THRESHOLD;
+}
+
+function serializeCompensation(record: DeliveryCompensation) {
+  return {
+    id: record.id,
+    deliveryId: record.deliveryId,
+    orderId: record.orderId,
+    customerId: record.customerId ?? null,
+    branchId: record.branchId,
+    amount: Number.parseFloat(record.amount),
+    currency: record.currency,
+    reason: record.reason ?? null,
+    method: record.method,
+    status: record.status,
+    couponId: record.couponId ?? null,
+    requestedBy: record.requestedBy ?? record.requestedByContact ?? null,
+    decidedBy: record.decidedBy ?? null,
+    decisionNote: record.decisionNote ?? null,
+    decidedAt: record.decidedAt?.toISOString() ?? null,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+async function deliverySlotCity(storage: IStorage, deliveryId: string): Promise<string | null> {
+  const [booking] = (await storage.getDeliverySlotBookings([deliveryId])).filter((entry) => entry.kind === "delivery");
+  return booking?.cityId ?? null;
+}
+
+// Open drop-off slots when the branch books deliveries into slots; otherwise hourly 90-minute windows,
+// kept inside the branch's opening hours and off its closed days
+async function buildRescheduleWindows(storage: IStorage, delivery: any) {
   const base = delivery.scheduledDeliveryTime ? new Date(delivery.scheduledDeliveryTime) : new Date();
-  if (base.getTime() < Date.now()) {
+  if (base.getTime() < Date.now() + MIN_NOTICE_MINUTES * 60 * 1000) {
     base.setTime(Date.now() + MIN_NOTICE_MINUTES * 60 * 1000);
   }
-  const windows = [] as Array<{ start: string; end: string; label: string }>;
-  for (let i = 0; i < 4; i++) {
-    const start = new Date(base.getTime() + i * 60 * 60 * 1000);
-    const end = new Date(start.getTime() + 90 * 60 * 1000);
-    windows.push({
+  const { kinds, slots } = await listSlotAvailability(storage, delivery.order.branchId, {
+    from: base,
+    cityId: await deliverySlotCity(storage, delivery.id),
+  });
+  if (kinds.includes("delivery")) {
+    return slots
+      .filter((slot) => slot.kind === "delivery" && slot.remaining > 0)
+      .slice(0, RESCHEDULE_WINDOW_COUNT)
+      .map((slot) => ({
+        start: slot.start,
+        end: slot.end,
+        label: slot.label,
+        slotId: slot.slotId,
+        slotDate: slot.date,
+        remaining: slot.remaining,
+      }));
+  }
+  const calendar = await loadBranchCalendar(storage, delivery.order.branchId, localDateString(base));
+  return windowsWithinHours(calendar, base, { count: RESCHEDULE_WINDOW_COUNT, lengthMinutes: 90, stepMinutes: 60 }).map(
+    ({ start, end }) => ({
       start: start.toISOString(),
       end: end.toISOString(),
       label: `${start.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} – ${end.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`,
-    });
-  }
-  return windows;
+    }),
+  );
+}
+
+async function isWithinOpeningHours(storage: IStorage, branchId: string, start: Date, end: Date) {
+  const calendar = await loadBranchCalendar(storage, branchId, localDateString(start));
+  if (!hasOpeningHours(calendar)) return true;
+  const { hours } = branchDay(calendar, localDateString(start));
+  const endClock = localDateString(end) === localDateString(start) ? clockTime(end) : "24:00";
+  return !!hours && clockTime(start) >= hours.opensAt && endClock <= hours.closesAt;
 }
 
 async function getPortalDeliveryPayload(storage: IStorage, deliveryId: string) {
@@ -76,7 +155,11 @@ async function getPortalDeliveryPayload(storage: IStorage, deliveryId: string) {
   if (!delivery) return undefined;
   const tracking = await storage.getDeliveryTrackingSnapshot(delivery.orderId);
   const orderTotal = Number.parseFloat(String((delivery.order as any).total ?? 0));
-  const outstandingComp = compensationLedger.get(deliveryId) ?? 0;
+  const [rescheduleCount, compensationTotal, approvalThreshold] = await Promise.all([
+    storage.countDeliveryReschedules(deliveryId),
+    storage.getDeliveryCompensationTotal(deliveryId),
+    resolveApprovalThreshold(storage, delivery.order.branchId),
+  ]);
   return {
     delivery: {
       id: delivery.id,
@@ -110,13 +193,14 @@ async function getPortalDeliveryPayload(storage: IStorage, deliveryId: string) {
     reschedulePolicy: {
       minimumNoticeMinutes: MIN_NOTICE_MINUTES,
       maxReschedules: MAX_RESCHEDULES,
-      remainingReschedules: Math.max(0, MAX_RESCHEDULES - (rescheduleCounts.get(deliveryId) ?? 0)),
-      windows: await buildRescheduleWindows(delivery),
+      remainingReschedules: Math.max(0, MAX_RESCHEDULES - rescheduleCount),
+      windows: await buildRescheduleWindows(storage, delivery),
     },
     compensationPolicy: {
       maxPercent: COMPENSATION_MAX_PERCENT,
       maxAmount: Number.isFinite(orderTotal) ? orderTotal * COMPENSATION_MAX_PERCENT : null,
-      previouslyOffered: outstandingComp,
+      previouslyOffered: compensationTotal,
+      approvalThreshold,
     },
   };
 }
@@ -151,11 +235,12 @@ export function registerDeliveryActionRoutes({
       if (!delivery) {
         return res.status(404).json({ message: "Delivery not found" });
       }
+      const rescheduleCount = await storage.countDeliveryReschedules(req.params.deliveryId);
       res.json({
         deliveryId: req.params.deliveryId,
-        windows: await buildRescheduleWindows(delivery),
+        windows: await buildRescheduleWindows(storage, delivery),
         minimumNoticeMinutes: MIN_NOTICE_MINUTES,
-        remainingReschedules: Math.max(0, MAX_RESCHEDULES - (rescheduleCounts.get(req.params.deliveryId) ?? 0)),
+        remainingReschedules: Math.max(0, MAX_RESCHEDULES - rescheduleCount),
       });
     },
   );
@@ -168,14 +253,14 @@ export function registerDeliveryActionRoutes({
         return res.status(404).json({ message: "Delivery not found" });
       }
 
-      const count = rescheduleCounts.get(deliveryId) ?? 0;
+      const count = await storage.countDeliveryReschedules(deliveryId);
       if (count >= MAX_RESCHEDULES) {
         return res.status(409).json({ message: "Reschedule limit reached" });
       }
 
-      const { windowStart, windowEnd, reason } = rescheduleSchema.parse(req.body);
-      const startDate = new Date(windowStart);
-      const endDate = new Date(windowEnd);
+      const { windowStart, windowEnd, reason, slotId, slotDate } = rescheduleSchema.parse(req.body);
+      let startDate = new Date(windowStart);
+      let endDate = new Date(windowEnd);
 
       if (startDate.getTime() < Date.now() + MIN_NOTICE_MINUTES * 60 * 1000) {
         return res
@@ -187,12 +272,42 @@ export function registerDeliveryActionRoutes({
         return res.status(400).json({ message: "Invalid window" });
       }
 
+      if (!(await isWithinOpeningHours(storage, delivery.order.branchId, startDate, endDate))) {
+        return res.status(400).json({ message: "The branch is closed during that window" });
+      }
+
+      // Moves the drop-off booking in one step, so a full slot leaves the current booking in place
+      const hold = await holdDeliverySlots(storage, delivery.order.branchId, {
+        choices: { delivery: slotId && slotDate ? { slotId, date: slotDate } : undefined },
+        cityId: slotId ? await deliverySlotCity(storage, deliveryId) : null,
+        now: new Date(Date.now() + MIN_NOTICE_MINUTES * 60 * 1000),
+        orderId: delivery.orderId,
+        deliveryId,
+        kinds: ["delivery"],
+      });
+      if (!hold.ok) {
+        return res.status(hold.status).json({ message: hold.message, code: hold.code });
+      }
+      if (hold.scheduled.delivery) {
+        startDate = hold.scheduled.delivery.start;
+        endDate = hold.scheduled.delivery.end;
+      }
+
       const updated = await storage.updateDeliverySchedule(deliveryId, startDate, reason ?? null);
       if (!updated) {
         return res.status(500).json({ message: "Failed to update schedule" });
       }
 
-      rescheduleCounts.set(deliveryId, count + 1);
+      const actor = getPortalSession(req)?.contact ?? (req.user as any)?.id ?? null;
+      await storage.recordDeliveryReschedule({
+        deliveryId,
+        orderId: updated.orderId,
+        previousScheduledTime: delivery.scheduledDeliveryTime ?? null,
+        scheduledTime: updated.scheduledDeliveryTime ?? startDate,
+        windowEnd: endDate,
+        reason: reason ?? null,
+        actor,
+      });
       await storage.logOrderStatus(updated.orderId, "delivery:rescheduled", reason ?? undefined);
 
       res.json({
@@ -208,13 +323,17 @@ export function registerDeliveryActionRoutes({
           deliveryId,
           orderId: updated.orderId,
           scheduledDeliveryTime: updated.scheduledDeliveryTime?.toISOString() ?? startDate.toISOString(),
-          actor: getPortalSession(req)?.contact ?? (req.user as any)?.id ?? null,
+          actor,
           reason: reason ?? null,
         },
       });
     } catch (error) {
       logger.error({ err: error }, "failed to reschedule delivery");
-      res.status(400).json({ message: "Invalid reschedule payload" });
+      if (res.headersSent) return;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reschedule payload" });
+      }
+      res.status(500).json({ message: "Failed to reschedule delivery" });
     }
   });
 
@@ -229,30 +348,55 @@ export function registerDeliveryActionRoutes({
       const payload = compensationSchema.parse(req.body);
       const orderTotal = Number.parseFloat(String((delivery.order as any).total ?? 0));
       const maxComp = Number.isFinite(orderTotal) ? orderTotal * COMPENSATION_MAX_PERCENT : undefined;
+      const offered = await storage.getDeliveryCompensationTotal(deliveryId);
 
-      if (maxComp !== undefined && payload.amount > maxComp) {
+      if (maxComp !== undefined && offered + payload.amount > maxComp) {
         return res.status(422).json({ message: "Compensation exceeds policy limit" });
       }
 
-      const offered = compensationLedger.get(deliveryId) ?? 0;
-      compensationLedger.set(deliveryId, offered + payload.amount);
+      const customerId = delivery.order.customerId ?? null;
+      if (payload.method === "balance_credit" && !customerId) {
+        return res.status(422).json({ message: "Order has no customer account to credit" });
+      }
+      const staffUserId = (req.user as UserWithBranch | undefined)?.id ?? null;
+      if (payload.method === "coupon" && !staffUserId) {
+        return res.status(403).json({ message: "Only staff can issue compensation coupons" });
+      }
+
+      const branchId = delivery.order.branchId;
+      const approvalThreshold = await resolveApprovalThreshold(storage, branchId);
+      const requested = await storage.createDeliveryCompensation({
+        deliveryId,
+        orderId: delivery.orderId,
+        customerId,
+        branchId,
+        amount: payload.amount.toFixed(2),
+        currency: payload.currency,
+        reason: payload.reason ?? null,
+        method: payload.method,
+        requestedBy: staffUserId,
+        requestedByContact: getPortalSession(req)?.contact ?? null,
+      });
+      const compensation =
+        payload.amount <= approvalThreshold
+          ? (await storage.applyDeliveryCompensation(requested.id, null)) ?? requested
+          : requested;
 
       await storage.logOrderStatus(
         delivery.orderId,
-        "delivery:compensation_offered",
+        compensation.status === "applied" ? "delivery:compensation_applied" : "delivery:compensation_offered",
         payload.reason ?? undefined,
       );
       await storage.appendDeliveryNote(
         deliveryId,
-        `Compensation offered: ${payload.amount} ${payload.currency}${payload.reason ? ` (${payload.reason})` : ""}`,
+        `Compensation ${compensation.status === "applied" ? "applied" : "awaiting approval"}: ${payload.amount} ${payload.currency}${payload.reason ? ` (${payload.reason})` : ""}`,
       );
 
       res.json({
-        deliveryId,
-        amount: payload.amount,
-        currency: payload.currency,
-        reason: payload.reason ?? null,
-        totalCompensation: compensationLedger.get(deliveryId) ?? payload.amount,
+        ...serializeCompensation(compensation),
+        requiresApproval: compensation.status === "pending_approval",
+        approvalThreshold,
+        totalCompensation: offered + payload.amount,
       });
 
       await broadcastDeliveryEvent({
@@ -264,12 +408,109 @@ export function registerDeliveryActionRoutes({
           amount: payload.amount,
           currency: payload.currency,
           reason: payload.reason ?? null,
-          actor: getPortalSession(req)?.contact ?? (req.user as any)?.id ?? null,
+          actor: getPortalSession(req)?.contact ?? staffUserId,
         },
       });
     } catch (error) {
       logger.error({ err: error }, "failed to record compensation offer");
-      res.status(400).json({ message: "Invalid compensation payload" });
+      if (res.headersSent) return;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid compensation payload" });
+      }
+      res.status(500).json({ message: "Failed to record compensation" });
+    }
+  });
+  app.get("/api/delivery/compensations", requireDeliveryManage, async (req, res) => {
+    const parsed = compensationListSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid filters", errors: parsed.error.flatten() });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const branchId = user.role === "super_admin" ? parsed.data.branchId : user.branchId ?? undefined;
+      if (user.role !== "super_admin" && !branchId) {
+        return res.status(400).json({ message: "Branch is required" });
+      }
+      const records = await storage.getDeliveryCompensations({ branchId, status: parsed.data.status });
+      res.json({ compensations: records.map(serializeCompensation) });
+    } catch (error) {
+      logger.error({ err: error }, "failed to list delivery compensations");
+      res.status(500).json({ message: "Failed to load compensations" });
+    }
+  });
+
+  const loadCompensationForDecision = async (req: Request, res: Response) => {
+    const user = req.user as UserWithBranch;
+    const record = await storage.getDeliveryCompensation(req.params.id);
+    if (!record || (user.role !== "super_admin" && record.branchId !== user.branchId)) {
+      res.status(404).json({ message: "Compensation not found" });
+      return undefined;
+    }
+    if (record.status !== "pending_approval") {
+      res.status(409).json({ message: "Compensation has already been decided" });
+      return undefined;
+    }
+    return record;
+  };
+
+  app.post("/api/delivery/compensations/:id/approve", requireDeliveryManage, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const record = await loadCompensationForDecision(req, res);
+      if (!record) return;
+      const applied = await storage.applyDeliveryCompensation(record.id, user.id);
+      if (!applied) {
+        return res.status(409).json({ message: "Compensation has already been decided" });
+      }
+      await storage.logOrderStatus(applied.orderId, "delivery:compensation_applied", user.id);
+      await storage.appendDeliveryNote(
+        applied.deliveryId,
+        `Compensation approved by ${user.username}: ${applied.amount} ${applied.currency}`,
+      );
+      if (req.audit) {
+        await req.audit.log({
+          type: "delivery.compensation_approved",
+          entityType: "delivery_compensation",
+          entityId: applied.id,
+          metadata: { deliveryId: applied.deliveryId, amount: applied.amount, method: applied.method },
+        });
+      }
+      res.json({ compensation: serializeCompensation(applied) });
+    } catch (error) {
+      logger.error({ err: error }, "failed to approve delivery compensation");
+      res.status(500).json({ message: "Failed to approve compensation" });
+    }
+  });
+
+  app.post("/api/delivery/compensations/:id/reject", requireDeliveryManage, async (req, res) => {
+    const parsed = compensationDecisionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid decision", errors: parsed.error.flatten() });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const record = await loadCompensationForDecision(req, res);
+      if (!record) return;
+      const rejected = await storage.rejectDeliveryCompensation(record.id, user.id, parsed.data.note ?? null);
+      if (!rejected) {
+        return res.status(409).json({ message: "Compensation has already been decided" });
+      }
+      await storage.appendDeliveryNote(
+        rejected.deliveryId,
+        `Compensation rejected by ${user.username}: ${rejected.amount} ${rejected.currency}${parsed.data.note ? ` (${parsed.data.note})` : ""}`,
+      );
+      if (req.audit) {
+        await req.audit.log({
+          type: "delivery.compensation_rejected",
+          entityType: "delivery_compensation",
+          entityId: rejected.id,
+          metadata: { deliveryId: rejected.deliveryId, amount: rejected.amount, note: parsed.data.note ?? null },
+        });
+      }
+      res.json({ compensation: serializeCompensation(rejected) });
+    } catch (error) {
+      logger.error({ err: error }, "failed to reject delivery compensation");
+      res.status(500).json({ message: "Failed to reject compensation" });
     }
   });
 }
@@ -1,32 +1,69 @@
 import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
-import { randomUUID } from "crypto";
+import { createHmac, randomInt, randomUUID, timingSafeEqual } from "crypto";
 import { z } from "zod";
 import type { Logger } from "pino";
 
+import type { DeliveryMessage } from "@shared/schema";
 import type { IStorage } from "../storage";
 import type { DeliveryChannelEvent, DeliveryMessagePayload } from "../types/delivery-channel";
 import type { EventBus } from "../services/event-bus";
 import { createAnalyticsEvent } from "../services/event-bus";
 
-const deliveryOtpStore = new Map<string, { otp: string; expiresAt: Date }>();
-const deliveryMessages = new Map<string, DeliveryMessagePayload[]>();
+const OTP_TTL_MS = 10 * 60 * 1000;
+const OTP_MAX_ATTEMPTS = 5;
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+const MAX_MESSAGE_PAGE_SIZE = 100;
 
 function generateOtp(): string {
-  return Math.floor(100000 + Math.random() * 900000).toString();
+  return randomInt(100000, 1000000).toString();
 }
 
-function verifyOtp(key: string, otp: string): boolean {
-  const record = deliveryOtpStore.get(key);
-  if (!record) return false;
+// Codes are keyed to the delivery and contact so a leaked hash cannot be replayed elsewhere.
+export function hashDeliveryOtp(deliveryId: string, contact: string, otp: string): string {
+  const secret = process.env.SESSION_SECRET?.trim();
+  if (!secret) {
+    throw new Error("SESSION_SECRET is required to issue delivery codes");
+  }
+  return createHmac("sha256", secret)
+    .update(`${deliveryId}:${contact}:${otp}`)
+    .digest("hex");
+}
+
+type OtpVerification = "verified" | "invalid" | "expired" | "locked";
+
+async function verifyOtp(
+  storage: IStorage,
+  deliveryId: string,
+  contact: string,
+  otp: string,
+): Promise<OtpVerification> {
+  const record = await storage.recordDeliveryPortalOtpAttempt(deliveryId, contact, OTP_MAX_ATTEMPTS);
+  if (!record) return "locked";
   if (record.expiresAt.getTime() < Date.now()) {
-    deliveryOtpStore.delete(key);
-    return false;
+    await storage.deleteDeliveryPortalOtp(record.id);
+    return "expired";
   }
-  const matches = record.otp === otp;
-  if (matches) {
-    deliveryOtpStore.delete(key);
+  const expected = Buffer.from(record.codeHash, "hex");
+  const actual = Buffer.from(hashDeliveryOtp(deliveryId, contact, otp), "hex");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return "invalid";
   }
-  return matches;
+  // Deleting is the claim: a concurrent verify with the same code loses here.
+  return (await storage.deleteDeliveryPortalOtp(record.id)) ? "verified" : "invalid";
+}
+
+function toMessagePayload(record: DeliveryMessage): DeliveryMessagePayload {
+  return {
+    id: record.id,
+    deliveryId: record.deliveryId,
+    orderId: record.orderId,
+    senderType: record.senderType,
+    senderName: record.senderName ?? null,
+    body: record.body,
+    createdAt: record.createdAt.toISOString(),
+    attachments: record.attachments?.length ? record.attachments : undefined,
+    metadata: record.metadata ?? null,
+  };
 }
 
 function getPortalSession(req: Request) {
@@ -73,9 +110,14 @@ const messageSchema = z.object({
   metadata: z.record(z.any()).optional(),
 });
 
+const messageQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_MESSAGE_PAGE_SIZE).default(DEFAULT_MESSAGE_PAGE_SIZE),
+  before: z.string().uuid().optional(),
+});
+
 const authRequestSchema = z.object({
   deliveryId: z.string().min(1),
-  contact: z.string().min(3),
+  contact: z.string().trim().min(3),
   channel: z.enum(["email", "sms"]).default("sms"),
 });
 
@@ -111,11 +153,12 @@ export function registerDeliveryMessageRoutes({
       }
 
       const otp = generateOtp();
-      const key = `${deliveryId}:${contact}`;
-      deliveryOtpStore.set(key, {
-        otp,
-        expiresAt: new Date(Date.now() + 10 * 60 * 1000),
-      });
+      await storage.saveDeliveryPortalOtp(
+        deliveryId,
+        contact,
+        hashDeliveryOtp(deliveryId, contact, otp),
+        new Date(Date.now() + OTP_TTL_MS),
+      );
 
       logger.info({ deliveryId, contact, channel }, "delivery portal OTP generated");
 
@@ -129,7 +172,10 @@ export function registerDeliveryMessageRoutes({
       res.json(response);
     } catch (error) {
       logger.error({ err: error }, "failed to issue delivery portal OTP");
-      res.status(400).json({ message: "Invalid authentication request" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid authentication request" });
+      }
+      res.status(500).json({ message: "Failed to send verification code" });
     }
   });
 
@@ -141,8 +187,14 @@ export function registerDeliveryMessageRoutes({
         return res.status(404).json({ message: "Delivery not found" });
       }
 
-      const key = `${deliveryId}:${contact}`;
-      if (!verifyOtp(key, otp)) {
+      const verification = await verifyOtp(storage, deliveryId, contact, otp);
+      if (verification === "locked") {
+        return res.status(429).json({ message: "Verification code is no longer valid. Request a new code" });
+      }
+      if (verification === "expired") {
+        return res.status(401).json({ message: "Verification code expired" });
+      }
+      if (verification !== "verified") {
         return res.status(401).json({ message: "Invalid verification code" });
       }
 
@@ -166,23 +218,40 @@ export function registerDeliveryMessageRoutes({
       });
     } catch (error) {
       logger.error({ err: error }, "failed to verify delivery portal OTP");
-      res.status(400).json({ message: "Invalid verification payload" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid verification payload" });
+      }
+      res.status(500).json({ message: "Failed to verify code" });
     }
   });
 
   app.get("/api/portal/delivery/:deliveryId/messages", portalOrAuth, async (req, res) => {
     const deliveryId = req.params.deliveryId;
-    const delivery = await resolveDelivery(storage, deliveryId);
-    if (!delivery) {
-      return res.status(404).json({ message: "Delivery not found" });
+    const query = messageQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: "Invalid pagination parameters" });
     }
+    try {
+      const delivery = await resolveDelivery(storage, deliveryId);
+      if (!delivery) {
+        return res.status(404).json({ message: "Delivery not found" });
+      }
 
-    const items = deliveryMessages.get(deliveryId) ?? [];
-    res.json({
-      deliveryId,
-      orderId: delivery.orderId,
-      messages: items.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
-    });
+      const { limit, before } = query.data;
+      const rows = await storage.getDeliveryMessages(deliveryId, { limit: limit + 1, beforeId: before });
+      const page = rows.slice(0, limit);
+      const hasMore = rows.length > limit;
+      res.json({
+        deliveryId,
+        orderId: delivery.orderId,
+        messages: page.reverse().map(toMessagePayload),
+        hasMore,
+        nextBefore: hasMore ? page[0].id : null,
+      });
+    } catch (error) {
+      logger.error({ err: error, deliveryId }, "failed to load delivery messages");
+      res.status(500).json({ message: "Failed to load messages" });
+    }
   });
 
   app.post("/api/portal/delivery/:deliveryId/messages", portalOrAuth, async (req, res) => {
@@ -200,24 +269,24 @@ export function registerDeliveryMessageRoutes({
       }
 
       const parsed = messageSchema.parse(req.body);
-      const message: DeliveryMessagePayload = {
-        id: randomUUID(),
+      const record = await storage.createDeliveryMessage({
         deliveryId,
         orderId: delivery.orderId,
         senderType: portalSession ? "customer" : "agent",
+        senderId: portalSession ? portalSession.contact : user.id,
+        senderName: portalSession
+          ? portalSession.customerName ?? null
+          : `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim() || user.username || null,
         body: parsed.body,
-        createdAt: new Date().toISOString(),
-        attachments: parsed.attachments?.map((item) => ({
-          id: item.id ?? randomUUID(),
-          name: item.name,
-          url: item.url,
-        })),
+        attachments:
+          parsed.attachments?.map((item) => ({
+            id: item.id ?? randomUUID(),
+            name: item.name,
+            url: item.url,
+          })) ?? [],
         metadata: parsed.metadata ?? null,
-      };
-
-      const existing = deliveryMessages.get(deliveryId) ?? [];
-      existing.push(message);
-      deliveryMessages.set(deliveryId, existing);
+      });
+      const message = toMessagePayload(record);
 
       res.status(201).json({ message });
 
@@ -258,7 +327,11 @@ export function registerDeliveryMessageRoutes({
       );
     } catch (error) {
       logger.error({ err: error }, "failed to record delivery message");
-      res.status(400).json({ message: "Invalid message payload" });
+      if (res.headersSent) return;
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message payload" });
+      }
+      res.status(500).json({ message: "Failed to send message" });
     }
   });
 }
@@ -0,0 +1,211 @@
+import type { Express, RequestHandler } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import type { UserWithBranch } from "@shared/schema";
+import { localDateString } from "@shared/capacity";
+import { deliverySlotKindEnum } from "@shared/delivery-slots";
+
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
+import { auditChanges } from "../middleware/audit";
+import { listSlotAvailability, SLOT_HORIZON_DAYS } from "../services/delivery-slots";
+
+const requireDeliveryManage = requirePermission(RBAC_PERMISSION_SLUGS.deliveryManage);
+
+interface DeliverySlotRouteDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  requireAuth: RequestHandler;
+  now?: () => Date;
+}
+
+const time = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "Use HH:MM");
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const slotFields = z.object({
+  kind: z.enum(deliverySlotKindEnum),
+  weekday: z.number().int().min(0).max(6).nullable().default(null),
+  startTime: time,
+  endTime: time,
+  capacity: z.number().int().min(0).max(500),
+  zoneCapacities: z.record(z.string().uuid(), z.number().int().min(0).max(500)).default({}),
+  isActive: z.boolean().default(true),
+});
+
+const slotSchema = slotFields.refine((slot) => slot.startTime < slot.endTime, "End time must be after start time");
+
+const slotUpdateSchema = slotFields
+  .omit({ kind: true })
+  .partial()
+  .refine((slot) => !slot.startTime || !slot.endTime || slot.startTime < slot.endTime, "End time must be after start time");
+
+const availabilityQuerySchema = z.object({
+  kind: z.enum(deliverySlotKindEnum).optional(),
+  cityId: z.string().uuid().optional(),
+  days: z.coerce.number().int().min(1).max(SLOT_HORIZON_DAYS).optional(),
+});
+
+const loadQuerySchema = z.object({
+  date: isoDate.optional(),
+  branchId: z.string().uuid().optional(),
+});
+
+// Zone limits only make sense for cities the branch actually serves
+async function unknownZones(storage: IStorage, branchId: string, zoneCapacities: Record<string, number> | undefined) {
+  const zoneIds = Object.keys(zoneCapacities ?? {});
+  if (!zoneIds.length) return [];
+  const served = new Set((await storage.getBranch(branchId))?.serviceCityIds ?? []);
+  return zoneIds.filter((id) => !served.has(id));
+}
+
+export function registerDeliverySlotRoutes({
+  app,
+  storage,
+  logger,
+  requireAuth,
+  now = () => new Date(),
+}: DeliverySlotRouteDeps): void {
+  // Public so the ordering page can offer slots before checkout
+  app.get("/api/branches/:code/delivery-slots/availability", async (req, res) => {
+    const parsed = availabilityQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid availability query", errors: parsed.error.flatten() });
+    }
+    try {
+      const branch = await storage.getBranchByCode(req.params.code);
+      if (!branch) {
+        return res.status(404).json({ message: "Branch not found" });
+      }
+      const { kinds, slots } = await listSlotAvailability(storage, branch.id, {
+        from: now(),
+        days: parsed.data.days,
+        cityId: parsed.data.cityId ?? null,
+      });
+      res.json({
+        kinds,
+        slots: slots.filter((slot) => !parsed.data.kind || slot.kind === parsed.data.kind),
+      });
+    } catch (error) {
+      logger.error({ err: error, branchCode: req.params.code }, "failed to list delivery slot availability");
+      res.status(500).json({ message: "Failed to load delivery slots" });
+    }
+  });
+
+  app.get("/api/branches/:id/delivery-slots", requireDeliveryManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot access other branch settings" });
+    }
+    try {
+      res.json(await storage.getDeliverySlots(req.params.id));
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to load delivery slots");
+      res.status(500).json({ message: "Failed to load delivery slots" });
+    }
+  });
+
+  app.post("/api/branches/:id/delivery-slots", requireDeliveryManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot modify other branch settings" });
+    }
+    const parsed = slotSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid delivery slot", errors: parsed.error.flatten() });
+    }
+    try {
+      const unknown = await unknownZones(storage, req.params.id, parsed.data.zoneCapacities);
+      if (unknown.length) {
+        return res.status(400).json({ message: "Zone limits must use the branch's service cities", cityIds: unknown });
+      }
+      const slot = await storage.createDeliverySlot(req.params.id, parsed.data);
+      if (req.audit) {
+        await req.audit.log({
+          type: "delivery_slot.created",
+          entityType: "delivery_slot",
+          entityId: slot.id,
+          branchId: req.params.id,
+          metadata: auditChanges(null, { ...parsed.data }),
+        });
+      }
+      res.status(201).json(slot);
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to create delivery slot");
+      res.status(500).json({ message: "Failed to create delivery slot" });
+    }
+  });
+
+  app.patch("/api/branches/:id/delivery-slots/:slotId", requireDeliveryManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot modify other branch settings" });
+    }
+    const parsed = slotUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid delivery slot", errors: parsed.error.flatten() });
+    }
+    try {
+      const before = (await storage.getDeliverySlots(req.params.id)).find((slot) => slot.id === req.params.slotId);
+      if (!before) {
+        return res.status(404).json({ message: "Delivery slot not found" });
+      }
+      const times = { startTime: before.startTime, endTime: before.endTime, ...parsed.data };
+      if (times.startTime >= times.endTime) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+      const unknown = await unknownZones(storage, req.params.id, parsed.data.zoneCapacities);
+      if (unknown.length) {
+        return res.status(400).json({ message: "Zone limits must use the branch's service cities", cityIds: unknown });
+      }
+      // Lowering capacity never cancels existing bookings; it only stops new ones
+      const slot = await storage.updateDeliverySlot(req.params.id, req.params.slotId, parsed.data);
+      if (!slot) {
+        return res.status(404).json({ message: "Delivery slot not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "delivery_slot.updated",
+          entityType: "delivery_slot",
+          entityId: slot.id,
+          branchId: req.params.id,
+          metadata: auditChanges({ ...before }, { ...slot }),
+        });
+      }
+      res.json(slot);
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to update delivery slot");
+      res.status(500).json({ message: "Failed to update delivery slot" });
+    }
+  });
+
+  // Bookings per slot for one day, for drivers planning their runs and the control tower
+  app.get("/api/delivery-slots/load", requireAuth, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (!["admin", "super_admin", "driver"].includes(user.role)) {
+      return res.status(403).json({ message: "Access denied" });
+    }
+    const parsed = loadQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid load query", errors: parsed.error.flatten() });
+    }
+    const branchId = user.role === "super_admin" ? parsed.data.branchId ?? user.branchId : user.branchId;
+    if (!branchId) {
+      return res.status(400).json({ message: "Branch context required" });
+    }
+    if (user.role !== "super_admin" && parsed.data.branchId && parsed.data.branchId !== user.branchId) {
+      return res.status(403).json({ message: "Cannot access other branch delivery slots" });
+    }
+    try {
+      const date = parsed.data.date ?? localDateString(now());
+      const [year, month, day] = date.split("-").map(Number);
+      // Starting just before midnight keeps slots that already began today in the list
+      const from = new Date(new Date(year, month - 1, day).getTime() - 1);
+      const { slots } = await listSlotAvailability(storage, branchId, { from, days: 2 });
+      res.json({ date, branchId, slots: slots.filter((slot) => slot.date === date) });
+    } catch (error) {
+      logger.error({ err: error, branchId }, "failed to load delivery slot load");
+      res.status(500).json({ message: "Failed to load delivery slot load" });
+    }
+  });
+}
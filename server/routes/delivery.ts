@@ -12,13 +12,22 @@ import {
   type User,
   type UserWithBranch,
 } from "@shared/schema";
+import { addDays, localDateString, promisedReadyOptionFor, withExpressSurcharge } from "@shared/capacity";
+import { nextOpenDate } from "@shared/branch-hours";
 
-import type { IStorage } from "../storage";
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
 import type { DeliveryChannelEvent } from "../types/delivery-channel";
 import { db } from "../db";
 import { haversineDistance } from "../utils/geolocation";
 import { createAnalyticsEvent, type EventBus } from "../services/event-bus";
 import { DeliveryOptimizationService, type AssignmentRecommendation } from "../services/delivery-optimization";
+import { planBranchReadyDates, resolveReadyDate } from "../services/capacity";
+import { loadBranchCalendar } from "../services/branch-calendar";
+import { holdDeliverySlots } from "../services/delivery-slots";
+import { postOrderLoyalty, prepareOrderLoyalty } from "../services/loyalty";
+
+const requireDeliveryManage = requirePermission(RBAC_PERMISSION_SLUGS.deliveryManage);
 
 const deliveryStatusValues = [...deliveryStatusEnum] as [DeliveryStatus, ...DeliveryStatus[]];
 
@@ -28,6 +37,11 @@ const customerDeliveryItemSchema = z.object({
   quantity: z.coerce.number().int().positive(),
 });
 
+const slotChoiceSchema = z.object({
+  slotId: z.string().uuid(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
 const customerDeliveryOrderSchema = z.object({
   customerId: z.string().min(1),
   branchCode: z.string().min(1),
@@ -38,6 +52,9 @@ const customerDeliveryOrderSchema = z.object({
   deliveryAddressId: z.string().optional(),
   deliveryInstructions: z.string().optional(),
   paymentMethod: z.string().optional(),
+  express: z.boolean().optional(),
+  pickupSlot: slotChoiceSchema.optional(),
+  deliverySlot: slotChoiceSchema.optional(),
 });
 
 const deliveryOrderRequestQuerySchema = z.object({
@@ -77,7 +94,8 @@ interface DeliveryRoutesDeps {
   storage: IStorage;
   logger: Logger;
   requireAuth: RequestHandler;
-  requireAdminOrSuperAdmin: RequestHandler;
+  // Shared with the other create endpoints so keys are recorded in one place
+  idempotent: RequestHandler;
   broadcastDeliveryEvent: (event: DeliveryChannelEvent) => Promise<void>;
   eventBus: EventBus;
   optimizationService?: DeliveryOptimizationService;
@@ -102,18 +120,19 @@ export function registerDeliveryRoutes({
   storage,
   logger,
   requireAuth,
-  requireAdminOrSuperAdmin,
+  idempotent,
   broadcastDeliveryEvent,
   eventBus,
   optimizationService,
 }: DeliveryRoutesDeps): void {
-  app.post("/api/delivery-orders", async (req, res) => {
+  app.post("/api/delivery-orders", idempotent, async (req, res) => {
     const sessionCustomerId = (req.session as { customerId?: string } | undefined)?.customerId;
 
     if (!sessionCustomerId) {
       return res.status(401).json({ message: "Login required" });
     }
 
+    let heldSlotIds: string[] = [];
     try {
       const payload = customerDeliveryOrderSchema.parse(req.body);
 
@@ -133,18 +152,72 @@ export function registerDeliveryRoutes({
       }));
 
       let subtotal = 0;
+      const loyaltyLines: { serviceId: string; amount: number }[] = [];
       for (const item of payload.items) {
         const price =
           (await storage.getItemServicePrice(item.clothingItemId, item.serviceId, "", branch.id)) ?? 0;
         subtotal += price * item.quantity;
+        loyaltyLines.push({ serviceId: item.serviceId, amount: price * item.quantity });
       }
 
-      const deliveryFee = payload.deliveryFee ?? 0;
+      // Customers get the earliest date the branch can keep; express is charged on the items only
+      const readyDecision = resolveReadyDate(await planBranchReadyDates(storage, branch.id, orderItems), {
+        express: payload.express === true,
+      });
+      if (!readyDecision.ok) {
+        return res.status(409).json({ message: readyDecision.message, code: readyDecision.code });
+      }
+      const expressSurcharge = withExpressSurcharge([{ amount: subtotal }], readyDecision.expressSurchargePercent).surcharge;
+      subtotal += expressSurcharge;
+
+      // Members whose loyalty tier includes free delivery are not charged for it
+      const loyaltyCustomer = await storage.getCustomer(sessionCustomerId);
+      const loyaltyPrepared = loyaltyCustomer
+        ? await prepareOrderLoyalty(storage, {
+          branchId: branch.id,
+          customer: loyaltyCustomer,
+          orderTotal: subtotal,
+          redeemPoints: 0,
+          now: new Date(),
+        })
+        : null;
+      const loyaltyPlan = loyaltyPrepared?.ok ? loyaltyPrepared.plan : null;
+      const deliveryFee = loyaltyPlan?.tier?.freeDelivery ? 0 : payload.deliveryFee ?? 0;
       const total = subtotal + deliveryFee;
 
-      const promisedReadyDate = new Date(Date.now() + 24 * 60 * 60 * 1000)
-        .toISOString()
-        .split("T")[0];
+      let promisedReadyDate = readyDecision.promisedReadyDate;
+      let promisedReadyOption = readyDecision.promisedReadyOption;
+      if (!promisedReadyDate) {
+        // Without capacity planning the order is promised for the next open day after today
+        const today = localDateString(new Date());
+        const calendar = await loadBranchCalendar(storage, branch.id, today);
+        promisedReadyDate = nextOpenDate(calendar, addDays(today, 1)) ?? addDays(today, 1);
+        promisedReadyOption = promisedReadyOptionFor(promisedReadyDate, today);
+      }
+
+      // Branches with delivery slots need a pickup and drop-off slot, held before the order exists
+      let scheduledPickupTime: Date | null = null;
+      let scheduledDeliveryTime: Date | null = null;
+      if (payload.deliveryAddressId) {
+        // The address city only matters for zone limits, so skip the lookup when no slot was picked
+        const address =
+          payload.pickupSlot || payload.deliverySlot
+            ? (await storage.getCustomerAddresses(sessionCustomerId)).find(
+                (entry) => entry.id === payload.deliveryAddressId,
+              )
+            : undefined;
+        const hold = await holdDeliverySlots(storage, branch.id, {
+          choices: { pickup: payload.pickupSlot, delivery: payload.deliverySlot },
+          cityId: address?.cityId ?? null,
+          now: new Date(),
+        });
+        if (!hold.ok) {
+          return res.status(hold.status).json({ message: hold.message, code: hold.code });
+        }
+        heldSlotIds = hold.bookingIds;
+        scheduledPickupTime = hold.scheduled.pickup?.start ?? null;
+        scheduledDeliveryTime = hold.scheduled.delivery?.start ?? null;
+      }
 
       const newOrder = await storage.createOrder({
         customerId: sessionCustomerId,
@@ -159,7 +232,8 @@ export function registerDeliveryRoutes({
         status: "received",
         sellerName: "Online Order",
         promisedReadyDate,
-        promisedReadyOption: "tomorrow",
+        promisedReadyOption: promisedReadyOption ?? "tomorrow",
+        expressSurcharge: expressSurcharge.toFixed(2),
         isDeliveryRequest: true,
       });
 
@@ -171,8 +245,31 @@ export function registerDeliveryRoutes({
           deliveryInstructions: payload.deliveryInstructions || "",
           deliveryStatus: "pending",
           deliveryFee: deliveryFee.toFixed(2),
+          scheduledPickupTime,
+          scheduledDeliveryTime,
         })
         : null;
+      if (heldSlotIds.length) {
+        await storage.attachDeliverySlotBookings(heldSlotIds, { orderId: newOrder.id, deliveryId: deliveryRecord?.id ?? null });
+        heldSlotIds = [];
+      }
+
+      // Points are earned on the items; the delivery fee does not count
+      let loyalty = null;
+      if (loyaltyPlan) {
+        try {
+          loyalty = await postOrderLoyalty(storage, loyaltyPlan, {
+            customerId: sessionCustomerId,
+            branchId: branch.id,
+            orderId: newOrder.id,
+            lines: loyaltyLines,
+            orderTotal: subtotal,
+            now: new Date(),
+          });
+        } catch (loyaltyError) {
+          logger.warn({ err: loyaltyError, orderId: newOrder.id }, "Failed to post loyalty points");
+        }
+      }
 
       const totalValue = Number.parseFloat(String(newOrder.total ?? total));
       await eventBus.publish(
@@ -220,10 +317,17 @@ export function registerDeliveryRoutes({
         orderId: newOrder.id,
         orderNumber: newOrder.orderNumber,
         total: newOrder.total,
+        deliveryFee: deliveryFee.toFixed(2),
+        loyalty,
         autoAssignment,
       });
     } catch (error) {
       logger.error({ err: error }, "Error creating delivery order");
+      if (heldSlotIds.length) {
+        await storage.releaseDeliverySlotBookings(heldSlotIds).catch((releaseError) => {
+          logger.warn({ err: releaseError }, "Failed to release held delivery slots");
+        });
+      }
       res.status(500).json({ message: "Failed to create order" });
     }
   });
@@ -438,7 +542,7 @@ export function registerDeliveryRoutes({
     }
   });
 
-  app.get("/api/control-tower/overview", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/control-tower/overview", requireDeliveryManage, async (req, res) => {
     if (!optimizationService) {
       return res.status(501).json({ message: "Delivery optimization service unavailable" });
     }
@@ -462,7 +566,7 @@ export function registerDeliveryRoutes({
     }
   });
 
-  app.post("/api/control-tower/assignments/preview", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/control-tower/assignments/preview", requireDeliveryManage, async (req, res) => {
     if (!optimizationService) {
       return res.status(501).json({ message: "Delivery optimization service unavailable" });
     }
@@ -498,7 +602,7 @@ export function registerDeliveryRoutes({
     }
   });
 
-  app.post("/api/control-tower/assignments/override", requireAdminOrSuperAdmin, async (req, res) => {
+  app.post("/api/control-tower/assignments/override", requireDeliveryManage, async (req, res) => {
     try {
       const user = req.user as UserWithBranch;
       const { deliveryId, driverId } = req.body as { deliveryId?: string; driverId?: string };
@@ -609,7 +713,7 @@ export function registerDeliveryRoutes({
   });
 
   // Branch-level delivery settings and catalogue management
-  app.get("/api/branches/:id/delivery-settings", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/branches/:id/delivery-settings", requireDeliveryManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -626,7 +730,7 @@ export function registerDeliveryRoutes({
     }
   });
 
-  app.put("/api/branches/:id/delivery-settings", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/branches/:id/delivery-settings", requireDeliveryManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -643,7 +747,7 @@ export function registerDeliveryRoutes({
     }
   });
 
-  app.get("/api/branches/:id/delivery-items", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/branches/:id/delivery-items", requireDeliveryManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -660,7 +764,7 @@ export function registerDeliveryRoutes({
     }
   });
 
-  app.put("/api/branches/:id/delivery-items/:clothingItemId/:serviceId", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/branches/:id/delivery-items/:clothingItemId/:serviceId", requireDeliveryManage, async (req, res) => {
     try {
       const { id, clothingItemId, serviceId } = req.params;
       const { isAvailable, deliveryPrice, estimatedProcessingTime } = req.body as {
@@ -686,7 +790,7 @@ export function registerDeliveryRoutes({
     }
   });
 
-  app.get("/api/branches/:id/delivery-packages", requireAdminOrSuperAdmin, async (req, res) => {
+  app.get("/api/branches/:id/delivery-packages", requireDeliveryManage, async (req, res) => {
     try {
       const { id } = req.params;
       const user = req.user as User;
@@ -703,7 +807,7 @@ export function registerDeliveryRoutes({
     }
   });
 
-  app.put("/api/branches/:id/delivery-packages/:packageId", requireAdminOrSuperAdmin, async (req, res) => {
+  app.put("/api/branches/:id/delivery-packages/:packageId", requireDeliveryManage, async (req, res) => {
     try {
       const { id, packageId } = req.params;
       const { isAvailable, deliveryDiscount } = req.body as {
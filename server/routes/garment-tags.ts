@@ -0,0 +1,131 @@
+import type { Express, RequestHandler } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import type { UserWithBranch } from "@shared/schema";
+import { canMoveGarmentPiece, garmentPieceStatusEnum, nextGarmentPieceStatus } from "@shared/garment-tags";
+
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
+import type { EventBus } from "../services/event-bus";
+import { advanceOrderFromPieces, summarizePieces } from "../services/piece-tracking";
+
+const requireOrdersEdit = requirePermission(RBAC_PERMISSION_SLUGS.ordersEdit);
+const requireReportsRead = requirePermission(RBAC_PERMISSION_SLUGS.reportsRead);
+
+interface GarmentTagRouteDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  requireAuth: RequestHandler;
+  eventBus: EventBus;
+  resolveOrderId: (idParam: string) => Promise<string>;
+}
+
+const scanSchema = z.object({
+  tagCode: z.string().trim().min(1).max(40),
+  // Omit to move the piece to its next stage
+  status: z.enum(garmentPieceStatusEnum).optional(),
+});
+
+export function registerGarmentTagRoutes({
+  app,
+  storage,
+  logger,
+  requireAuth,
+  eventBus,
+  resolveOrderId,
+}: GarmentTagRouteDeps): void {
+  const branchScope = (user: UserWithBranch) => (user.role === "super_admin" ? undefined : user.branchId ?? undefined);
+
+  app.get("/api/orders/:id/pieces", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const order = await storage.getOrder(await resolveOrderId(req.params.id), branchScope(user));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const [pieces, scans] = await Promise.all([storage.getOrderPieces(order.id), storage.getOrderPieceScans(order.id)]);
+      res.json({ orderId: order.id, orderNumber: order.orderNumber, pieces, scans, summary: summarizePieces(pieces) });
+    } catch (error) {
+      logger.error({ err: error }, "failed to load order pieces");
+      res.status(500).json({ message: "Failed to load order pieces" });
+    }
+  });
+
+  // Creates any missing tags for the order; safe to call again before reprinting labels
+  app.post("/api/orders/:id/pieces", requireOrdersEdit, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const order = await storage.getOrder(await resolveOrderId(req.params.id), branchScope(user));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.isDeliveryRequest) {
+        return res.status(409).json({ message: "Accept the delivery request before tagging its pieces" });
+      }
+      const pieces = await storage.ensureOrderPieces(order.id);
+      res.status(201).json({ orderId: order.id, orderNumber: order.orderNumber, pieces, summary: summarizePieces(pieces) });
+    } catch (error) {
+      logger.error({ err: error }, "failed to create order pieces");
+      res.status(500).json({ message: "Failed to create order pieces" });
+    }
+  });
+
+  app.post("/api/pieces/scan", requireOrdersEdit, async (req, res) => {
+    const parsed = scanSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid scan", errors: parsed.error.flatten() });
+    }
+    const user = req.user as UserWithBranch;
+    try {
+      const piece = await storage.getOrderPieceByTag(parsed.data.tagCode, branchScope(user));
+      if (!piece) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+      const target = parsed.data.status ?? nextGarmentPieceStatus(piece.status);
+      if (!target || !canMoveGarmentPiece(piece.status, target)) {
+        return res.status(409).json({
+          message: `Piece ${piece.tagCode} is already ${piece.status}`,
+          piece,
+        });
+      }
+      const moved = await storage.recordOrderPieceScan(piece.id, piece.status, target, user.username);
+      if (!moved) {
+        return res.status(409).json({ message: "Piece was scanned by someone else; scan it again" });
+      }
+
+      const { order, summary } = await advanceOrderFromPieces({
+        storage,
+        eventBus,
+        logger,
+        orderId: piece.orderId,
+        user,
+        actor: user.username,
+        source: "api.pieces.scan",
+      });
+
+      res.json({ piece: moved, orderStatus: order?.status ?? null, summary });
+    } catch (error) {
+      logger.error({ err: error }, "failed to record piece scan");
+      res.status(500).json({ message: "Failed to record scan" });
+    }
+  });
+
+  app.get("/api/reports/missing-pieces", requireReportsRead, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const requested = z.string().uuid().optional().safeParse(req.query.branchId || undefined);
+      if (!requested.success) {
+        return res.status(400).json({ message: "Invalid branchId" });
+      }
+      const branchId = user.role === "super_admin" ? requested.data : user.branchId ?? undefined;
+      if (user.role !== "super_admin" && !branchId) {
+        return res.status(400).json({ message: "Branch is required" });
+      }
+      res.json(await storage.getMissingPieceOrders(branchId));
+    } catch (error) {
+      logger.error({ err: error }, "failed to load missing pieces report");
+      res.status(500).json({ message: "Failed to load missing pieces report" });
+    }
+  });
+}
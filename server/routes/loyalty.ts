@@ -0,0 +1,182 @@
+import type { Express, RequestHandler } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import type { Customer, UserWithBranch } from "@shared/schema";
+import { expiringPoints, type LoyaltyProgramConfig } from "@shared/loyalty";
+
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
+import { auditChanges } from "../middleware/audit";
+import { customerLoyaltyStatus, toLoyaltyConfig } from "../services/loyalty";
+
+const requireSettingsManage = requirePermission(RBAC_PERMISSION_SLUGS.settingsManage);
+
+// Points expiring within this many days are flagged to staff and customers
+const EXPIRY_WARNING_DAYS = 30;
+
+interface LoyaltyRouteDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  requireAuth: RequestHandler;
+  now?: () => Date;
+}
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const programSchema = z.object({
+  isEnabled: z.boolean(),
+  pointsPerUnit: z.number().min(0).max(1000),
+  serviceRates: z.record(z.string().uuid(), z.number().min(0).max(1000)).default({}),
+  campaigns: z
+    .array(
+      z
+        .object({
+          name: z.string().trim().min(1).max(100),
+          startDate: isoDate,
+          endDate: isoDate,
+          multiplier: z.number().min(1).max(10),
+          serviceIds: z.array(z.string().uuid()).max(500).default([]),
+        })
+        .refine((campaign) => campaign.startDate <= campaign.endDate, "Campaign ends before it starts"),
+    )
+    .max(50)
+    .default([]),
+  pointValue: z.number().min(0).max(1000),
+  minRedeemPoints: z.number().int().min(0).max(1_000_000),
+  maxRedeemPercent: z.number().min(0).max(100),
+  expiryMonths: z.number().int().min(1).max(120).nullable(),
+  tierWindowMonths: z.number().int().min(1).max(60),
+  tiers: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(50),
+        minPoints: z.number().int().min(0),
+        earnMultiplier: z.number().min(1).max(10),
+        freeDelivery: z.boolean(),
+      }),
+    )
+    .max(10)
+    .default([])
+    .refine((tiers) => new Set(tiers.map((tier) => tier.name.toLowerCase())).size === tiers.length, "Tier names must be unique"),
+});
+
+async function loyaltySummary(storage: IStorage, customer: Customer, now: Date) {
+  const [status, history] = await Promise.all([
+    customerLoyaltyStatus(storage, { branchId: customer.branchId, customerId: customer.id, now }),
+    storage.getLoyaltyHistory(customer.id),
+  ]);
+  const warnBefore = new Date(now.getTime() + EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+  const { program } = status;
+  return {
+    customerId: customer.id,
+    points: customer.loyaltyPoints,
+    tier: status.tier,
+    nextTier: status.nextTier,
+    earnedInWindow: status.earnedInWindow,
+    freeDelivery: status.tier?.freeDelivery ?? false,
+    expiringSoon: {
+      points: Math.min(expiringPoints(history, warnBefore), customer.loyaltyPoints),
+      before: warnBefore.toISOString(),
+    },
+    redemption: {
+      isEnabled: program.isEnabled,
+      pointValue: program.pointValue,
+      minRedeemPoints: program.minRedeemPoints,
+      maxRedeemPercent: program.maxRedeemPercent,
+    },
+  };
+}
+
+export function registerLoyaltyRoutes({
+  app,
+  storage,
+  logger,
+  requireAuth,
+  now = () => new Date(),
+}: LoyaltyRouteDeps): void {
+  app.get("/api/branches/:id/loyalty-program", requireSettingsManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot access other branch settings" });
+    }
+    try {
+      const row = await storage.getLoyaltyProgram(req.params.id);
+      res.json({ configured: !!row, program: toLoyaltyConfig(row) });
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to load loyalty program");
+      res.status(500).json({ message: "Failed to load loyalty program" });
+    }
+  });
+
+  app.put("/api/branches/:id/loyalty-program", requireSettingsManage, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    if (user.role !== "super_admin" && user.branchId !== req.params.id) {
+      return res.status(403).json({ message: "Cannot modify other branch settings" });
+    }
+    const parsed = programSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid loyalty program", errors: parsed.error.flatten() });
+    }
+    try {
+      const program = parsed.data;
+      const before = await storage.getLoyaltyProgram(req.params.id);
+      const saved = await storage.saveLoyaltyProgram(req.params.id, {
+        ...program,
+        pointsPerUnit: String(program.pointsPerUnit),
+        pointValue: String(program.pointValue),
+        maxRedeemPercent: program.maxRedeemPercent.toFixed(2),
+        tiers: [...program.tiers].sort((a, b) => a.minPoints - b.minPoints),
+      });
+      const config: LoyaltyProgramConfig = toLoyaltyConfig(saved);
+      if (req.audit) {
+        await req.audit.log({
+          type: "branch.loyalty_program_updated",
+          entityType: "branch",
+          entityId: req.params.id,
+          branchId: req.params.id,
+          metadata: auditChanges(before ? { ...toLoyaltyConfig(before) } : null, { ...config }),
+        });
+      }
+      res.json({ configured: true, program: config });
+    } catch (error) {
+      logger.error({ err: error, branchId: req.params.id }, "failed to save loyalty program");
+      res.status(500).json({ message: "Failed to save loyalty program" });
+    }
+  });
+
+  // Balance, tier and redemption rules the POS needs before offering points
+  app.get("/api/customers/:customerId/loyalty", requireAuth, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    try {
+      const customer = await storage.getCustomer(
+        req.params.customerId,
+        user.role === "super_admin" ? undefined : user.branchId ?? undefined,
+      );
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(await loyaltySummary(storage, customer, now()));
+    } catch (error) {
+      logger.error({ err: error, customerId: req.params.customerId }, "failed to load customer loyalty");
+      res.status(500).json({ message: "Failed to load loyalty" });
+    }
+  });
+
+  app.get("/customer/loyalty", async (req, res) => {
+    const customerId = req.session.customerId;
+    if (!customerId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    try {
+      const customer = await storage.getCustomer(customerId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(await loyaltySummary(storage, customer, now()));
+    } catch (error) {
+      logger.error({ err: error, customerId }, "failed to load customer loyalty");
+      res.status(500).json({ message: "Failed to load loyalty" });
+    }
+  });
+}
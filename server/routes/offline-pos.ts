@@ -0,0 +1,72 @@
+import type { Express } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
+import type { UserWithBranch } from "@shared/schema";
+import {
+  formatOrderNumber,
+  OFFLINE_RESERVATION_DEFAULT_SIZE,
+  OFFLINE_RESERVATION_MAX_SIZE,
+} from "@shared/offline-pos";
+
+const requireOrdersCreate = requirePermission(RBAC_PERMISSION_SLUGS.ordersCreate);
+
+const reservationSchema = z.object({
+  deviceId: z.string().trim().min(1).max(100),
+  size: z.number().int().min(1).max(OFFLINE_RESERVATION_MAX_SIZE).default(OFFLINE_RESERVATION_DEFAULT_SIZE),
+});
+
+interface RegisterOfflinePosRoutesDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+}
+
+export function registerOfflinePosRoutes({ app, storage, logger }: RegisterOfflinePosRoutesDeps): void {
+  // Hands the device a block of order numbers it can print on receipts while the connection is down
+  app.post("/api/pos/offline/reservations", requireOrdersCreate, async (req, res) => {
+    const parsed = reservationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid reservation", errors: parsed.error.flatten() });
+    }
+    const user = req.user as UserWithBranch;
+    if (!user.branchId) {
+      return res.status(400).json({ message: "User branch not set" });
+    }
+    try {
+      const reservation = await storage.reserveOrderNumbers(
+        user.branchId,
+        parsed.data.deviceId,
+        parsed.data.size,
+        user.id,
+      );
+      if (!reservation) {
+        return res.status(404).json({ message: "Branch not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "order_numbers.reserved",
+          entityType: "branch",
+          entityId: reservation.branchId,
+          branchId: reservation.branchId,
+          metadata: {
+            reservationId: reservation.id,
+            deviceId: reservation.deviceId,
+            startNumber: reservation.startNumber,
+            endNumber: reservation.endNumber,
+          },
+        });
+      }
+      res.status(201).json({
+        ...reservation,
+        firstOrderNumber: formatOrderNumber(reservation.branchCode, reservation.startNumber),
+        lastOrderNumber: formatOrderNumber(reservation.branchCode, reservation.endNumber),
+      });
+    } catch (error) {
+      logger.error({ err: error, branchId: user.branchId }, "failed to reserve order numbers");
+      res.status(500).json({ message: "Failed to reserve order numbers" });
+    }
+  });
+}
@@ -0,0 +1,522 @@
+import type { Express, Request, Response, RequestHandler } from "express";
+import { z } from "zod";
+import type { Logger } from "pino";
+
+import { OrderRefundExceedsTotalError, RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission, userHasPermission } from "../auth";
+import type {
+  Order,
+  OrderRefund,
+  OrderRefundAllocation,
+  OrderRefundItem,
+  OrderRefundKind,
+  OrderRefundPackageCredit,
+  Payment,
+  UserWithBranch,
+} from "@shared/schema";
+
+const requireRefundApproval = requirePermission(RBAC_PERMISSION_SLUGS.ordersRefundApprove);
+
+// Refunds and voids above this amount wait for a manager unless a manager requests them.
+const ORDER_REFUND_APPROVAL_THRESHOLD = Number.parseFloat(process.env.ORDER_REFUND_APPROVAL_THRESHOLD ?? "50");
+const REFUNDABLE_METHODS = ["cash", "card", "wallet"] as const;
+const HANDED_OVER_STATUSES = ["handed_over", "completed"];
+
+const refundRequestSchema = z
+  .object({
+    kind: z.enum(["refund", "void"]).default("refund"),
+    items: z
+      .array(z.object({ lineIndex: z.number().int().min(0), quantity: z.number().int().positive() }))
+      .min(1)
+      .optional(),
+    amount: z.coerce.number().positive().optional(),
+    refundMethod: z.enum(REFUNDABLE_METHODS).optional(),
+    reason: z.string().trim().min(1).max(500),
+  })
+  .refine((value) => !(value.items && value.amount !== undefined), {
+    message: "Refund either line items or an amount",
+  })
+  .refine((value) => value.kind === "refund" || (!value.items && value.amount === undefined), {
+    message: "A void reverses the whole order",
+  });
+
+const refundListSchema = z.object({
+  status: z.enum(["pending_approval", "completed", "rejected"]).optional(),
+});
+
+const refundDecisionSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+export type OrderRefundRequest = z.infer<typeof refundRequestSchema>;
+
+export interface OrderRefundContext {
+  order: Order;
+  /** Payments recorded against the order, including earlier negative refund payments. */
+  payments: Payment[];
+  /** Refunds on the order that were not rejected. */
+  refunds: OrderRefund[];
+  /** Points earned and redeemed on the order, and the money value the redeemed points covered. */
+  loyalty: { earned: number; redeemed: number; redeemedValue: number };
+}
+
+export interface OrderRefundPlan {
+  kind: OrderRefundKind;
+  amount: number;
+  balanceCredit: number;
+  items: OrderRefundItem[];
+  allocations: OrderRefundAllocation[];
+  packageCredits: OrderRefundPackageCredit[];
+  loyaltyPointsReversed: number;
+  loyaltyPointsRestored: number;
+  loyaltyValueRestored: number;
+}
+
+interface OrderRefundRouteDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  requireAuth: RequestHandler;
+  resolveOrderId: (idParam: string) => Promise<string>;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const toNumber = (value: unknown) => {
+  const parsed = Number.parseFloat(String(value ?? 0));
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Works out how a refund or void is paid back. Money first clears what a pay-later customer
+ * still owes, the rest goes back to the methods the order was paid with. Line items that were
+ * covered by package credits return the credits instead of money, and the part of the order
+ * paid with loyalty points goes back as points once the money actually paid is used up.
+ */
+export function planOrderRefund(
+  context: OrderRefundContext,
+  request: OrderRefundRequest,
+): { plan: OrderRefundPlan } | { error: { status: number; message: string } } {
+  const { order, payments, refunds, loyalty } = context;
+  if (order.status === "cancelled") {
+    return { error: { status: 409, message: "Order has already been voided" } };
+  }
+  if (request.kind === "void" && HANDED_OVER_STATUSES.includes(order.status)) {
+    return { error: { status: 409, message: "Orders that were handed over must be refunded, not voided" } };
+  }
+
+  const total = toNumber(order.total);
+  const subtotal = toNumber(order.subtotal);
+  const committed = round2(sum(refunds.map((refund) => toNumber(refund.amount))));
+  const refundable = round2(total - committed);
+  const full = request.kind === "void" || (!request.items && request.amount === undefined);
+
+  // Quantities and credits already returned per order line and per package item
+  const lines: any[] = Array.isArray(order.items) ? (order.items as any[]) : [];
+  const usages: any[] = Array.isArray(order.packageUsages) ? (order.packageUsages as any[]) : [];
+  const returnedQty = new Map<number, number>();
+  const returnedCredits = new Map<number, number>();
+  const restoredPackageCredits = new Map<string, number>();
+  const creditKey = (packageId: string, serviceId: string, clothingItemId: string) =>
+    `${packageId}:${serviceId}:${clothingItemId}`;
+  for (const refund of refunds) {
+    for (const item of refund.items ?? []) {
+      returnedQty.set(item.lineIndex, (returnedQty.get(item.lineIndex) ?? 0) + item.quantity);
+      returnedCredits.set(item.lineIndex, (returnedCredits.get(item.lineIndex) ?? 0) + item.creditsRestored);
+    }
+    for (const credit of refund.packageCredits ?? []) {
+      const key = creditKey(credit.packageId, credit.serviceId, credit.clothingItemId);
+      restoredPackageCredits.set(key, (restoredPackageCredits.get(key) ?? 0) + credit.quantity);
+    }
+  }
+
+  const requestedLines = full
+    ? lines
+        .map((line, lineIndex) => ({ lineIndex, quantity: Number(line.quantity ?? 0) - (returnedQty.get(lineIndex) ?? 0) }))
+        .filter((line) => line.quantity > 0)
+    : request.items ?? [];
+
+  const items: OrderRefundItem[] = [];
+  const packageCredits: OrderRefundPackageCredit[] = [];
+  // Line prices are before tax and order discounts; scale them to what was actually charged
+  const chargeRatio = subtotal > 0 ? total / subtotal : 0;
+  for (const requested of requestedLines) {
+    const line = lines[requested.lineIndex];
+    if (!line) {
+      return { error: { status: 400, message: `Order has no line ${requested.lineIndex}` } };
+    }
+    const quantity = Number(line.quantity ?? 0);
+    const remaining = quantity - (returnedQty.get(requested.lineIndex) ?? 0);
+    if (requested.quantity > remaining) {
+      return { error: { status: 400, message: `Only ${remaining} left to refund on line ${requested.lineIndex}` } };
+    }
+    const price = toNumber(line.price);
+    const paidQty = price > 0 ? Math.round(toNumber(line.total) / price) : quantity;
+    const creditedQty = Math.max(quantity - paidQty, 0);
+    const creditsRestored = Math.min(requested.quantity, creditedQty - (returnedCredits.get(requested.lineIndex) ?? 0));
+
+    let creditsLeft = creditsRestored;
+    for (const usage of usages) {
+      for (const used of usage.items ?? []) {
+        if (creditsLeft <= 0) break;
+        if (used.serviceId !== line.serviceId || used.clothingItemId !== line.clothingItemId) continue;
+        const key = creditKey(usage.packageId, used.serviceId, used.clothingItemId);
+        const available = Number(used.quantity ?? 0) - (restoredPackageCredits.get(key) ?? 0);
+        const take = Math.min(available, creditsLeft);
+        if (take <= 0) continue;
+        packageCredits.push({ packageId: usage.packageId, serviceId: used.serviceId, clothingItemId: used.clothingItemId, quantity: take });
+        restoredPackageCredits.set(key, (restoredPackageCredits.get(key) ?? 0) + take);
+        creditsLeft -= take;
+      }
+    }
+
+    items.push({
+      lineIndex: requested.lineIndex,
+      quantity: requested.quantity,
+      creditsRestored,
+      amount: round2((requested.quantity - creditsRestored) * price * chargeRatio),
+    });
+  }
+
+  let amount: number;
+  if (full) {
+    amount = refundable;
+  } else if (request.amount !== undefined) {
+    if (request.amount > refundable + 0.005) {
+      return { error: { status: 400, message: `Only ${refundable.toFixed(2)} is left to refund on this order` } };
+    }
+    amount = round2(request.amount);
+  } else {
+    amount = Math.min(round2(sum(items.map((item) => item.amount))), refundable);
+  }
+  if (amount <= 0 && packageCredits.length === 0 && request.kind === "refund") {
+    return { error: { status: 400, message: "Nothing left to refund on this order" } };
+  }
+
+  const restoredValueBefore = sum(refunds.map((refund) => toNumber(refund.loyaltyValueRestored)));
+  const redemptionLeft = Math.max(round2(loyalty.redeemedValue - restoredValueBefore), 0);
+
+  // Money still owed on a pay-later order is written off before anything is paid back
+  const pending = refunds.filter((refund) => refund.status === "pending_approval");
+  const pendingByMethod = new Map<string, number>();
+  for (const refund of pending) {
+    for (const allocation of refund.allocations ?? []) {
+      pendingByMethod.set(allocation.paymentMethod, (pendingByMethod.get(allocation.paymentMethod) ?? 0) + allocation.amount);
+    }
+  }
+  const netPaid = sum(payments.map((payment) => toNumber(payment.amount))) - sum([...pendingByMethod.values()]);
+  const outstanding =
+    order.paymentMethod === "pay_later" ? Math.max(round2(total - committed - netPaid - redemptionLeft), 0) : 0;
+  const balanceCredit = round2(Math.min(amount, outstanding));
+  const owed = round2(amount - balanceCredit);
+
+  const availableByMethod = new Map<string, number>();
+  for (const payment of payments) {
+    availableByMethod.set(payment.paymentMethod, (availableByMethod.get(payment.paymentMethod) ?? 0) + toNumber(payment.amount));
+  }
+  for (const [method, pendingAmount] of pendingByMethod) {
+    availableByMethod.set(method, (availableByMethod.get(method) ?? 0) - pendingAmount);
+  }
+  const available = round2(sum([...availableByMethod.values()].filter((value) => value > 0)));
+  const money = round2(Math.min(owed, available));
+  const loyaltyValueRestored = round2(owed - money);
+  if (loyaltyValueRestored > redemptionLeft + 0.005) {
+    return { error: { status: 400, message: "Refund exceeds the amount paid for the order" } };
+  }
+
+  const allocations: OrderRefundAllocation[] = [];
+  if (money > 0 && request.refundMethod) {
+    if (request.refundMethod === "wallet" && !order.customerId) {
+      return { error: { status: 400, message: "Wallet refunds require a customer" } };
+    }
+    allocations.push({ paymentMethod: request.refundMethod, amount: money });
+  } else if (money > 0) {
+    const methods = [...availableByMethod.entries()]
+      .filter(([, value]) => value > 0)
+      .sort(([methodA, valueA], [methodB, valueB]) =>
+        methodA === order.paymentMethod ? -1 : methodB === order.paymentMethod ? 1 : valueB - valueA,
+      );
+    let left = money;
+    for (const [paymentMethod, value] of methods) {
+      if (left <= 0) break;
+      const take = round2(Math.min(value, left));
+      allocations.push({ paymentMethod, amount: take });
+      left = round2(left - take);
+    }
+  }
+
+  const reversedBefore = sum(refunds.map((refund) => refund.loyaltyPointsReversed ?? 0));
+  const restoredBefore = sum(refunds.map((refund) => refund.loyaltyPointsRestored ?? 0));
+  const earnedLeft = Math.max(loyalty.earned - reversedBefore, 0);
+  const loyaltyPointsReversed = full
+    ? earnedLeft
+    : Math.min(earnedLeft, total > 0 ? Math.round((loyalty.earned * amount) / total) : 0);
+  const pointsLeft = Math.max(loyalty.redeemed - restoredBefore, 0);
+  let loyaltyPointsRestored = 0;
+  if (loyalty.redeemedValue <= 0) {
+    // Orders from before redemptions were valued return their points on a full refund
+    loyaltyPointsRestored = full ? pointsLeft : 0;
+  } else if (loyaltyValueRestored > 0) {
+    loyaltyPointsRestored =
+      loyaltyValueRestored >= redemptionLeft - 0.005
+        ? pointsLeft
+        : Math.min(pointsLeft, Math.round((loyalty.redeemed * loyaltyValueRestored) / loyalty.redeemedValue));
+  }
+
+  return {
+    plan: {
+      kind: request.kind,
+      amount,
+      balanceCredit,
+      items,
+      allocations,
+      packageCredits,
+      loyaltyPointsReversed,
+      loyaltyPointsRestored,
+      loyaltyValueRestored,
+    },
+  };
+}
+
+export function serializeOrderRefund(record: OrderRefund) {
+  return {
+    id: record.id,
+    orderId: record.orderId,
+    branchId: record.branchId,
+    customerId: record.customerId ?? null,
+    kind: record.kind,
+    amount: Number.parseFloat(record.amount),
+    balanceCredit: Number.parseFloat(record.balanceCredit),
+    items: record.items ?? [],
+    allocations: record.allocations ?? [],
+    packageCredits: record.packageCredits ?? [],
+    loyaltyPointsReversed: record.loyaltyPointsReversed,
+    loyaltyPointsRestored: record.loyaltyPointsRestored,
+    loyaltyValueRestored: Number.parseFloat(record.loyaltyValueRestored ?? "0"),
+    reason: record.reason,
+    status: record.status,
+    requestedBy: record.requestedBy,
+    decidedBy: record.decidedBy ?? null,
+    decisionNote: record.decisionNote ?? null,
+    decidedAt: record.decidedAt?.toISOString() ?? null,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+export async function loadRefundContext(storage: IStorage, order: Order): Promise<OrderRefundContext> {
+  const [refunds, payments, loyaltyHistory, redeemedValue] = await Promise.all([
+    storage.getOrderRefunds({ orderId: order.id }),
+    order.customerId ? storage.getPaymentsByCustomer(order.customerId) : Promise.resolve([]),
+    order.customerId ? storage.getLoyaltyHistory(order.customerId) : Promise.resolve([]),
+    storage.getOrderLoyaltyRedemptionValue(order.id),
+  ]);
+  const earnedDescription = `Earned from order ${order.id}`;
+  const redeemedDescription = `Redeemed in order ${order.id}`;
+  return {
+    order,
+    payments: payments.filter((payment) => payment.orderId === order.id),
+    refunds: refunds.filter((refund) => refund.status !== "rejected"),
+    loyalty: {
+      earned: sum(loyaltyHistory.filter((entry) => entry.description === earnedDescription).map((entry) => entry.change)),
+      redeemed: Math.abs(
+        sum(loyaltyHistory.filter((entry) => entry.description === redeemedDescription).map((entry) => entry.change)),
+      ),
+      redeemedValue,
+    },
+  };
+}
+
+export function registerOrderRefundRoutes({
+  app,
+  storage,
+  logger,
+  requireAuth,
+  resolveOrderId,
+}: OrderRefundRouteDeps) {
+  const branchScope = (user: UserWithBranch) => (user.role === "super_admin" ? undefined : user.branchId ?? undefined);
+
+  // A completed void takes the order out of production and reporting
+  const finalizeRefund = async (refund: OrderRefund, user: UserWithBranch) => {
+    if (refund.kind !== "void") return;
+    const order = await storage.updateOrderStatus(refund.orderId, "cancelled", { actor: user.username });
+    if (order) {
+      await storage.updateOrder(order.id, {
+        notes: `${order.notes ? `${order.notes}\n` : ""}Voided: ${refund.reason}`,
+      });
+    }
+  };
+
+  app.get("/api/orders/:id/refunds", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const order = await storage.getOrder(await resolveOrderId(req.params.id), branchScope(user));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const refunds = await storage.getOrderRefunds({ orderId: order.id });
+      res.json({ refunds: refunds.map(serializeOrderRefund), approvalThreshold: ORDER_REFUND_APPROVAL_THRESHOLD });
+    } catch (error) {
+      logger.error({ err: error }, "failed to load order refunds");
+      res.status(500).json({ message: "Failed to load refunds" });
+    }
+  });
+
+  app.post("/api/orders/:id/refunds", requirePermission(RBAC_PERMISSION_SLUGS.ordersRefund), async (req, res) => {
+    const parsed = refundRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid refund", errors: parsed.error.flatten() });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const order = await storage.getOrder(await resolveOrderId(req.params.id), branchScope(user));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const result = planOrderRefund(await loadRefundContext(storage, order), parsed.data);
+      if ("error" in result) {
+        return res.status(result.error.status).json({ message: result.error.message });
+      }
+      const { plan } = result;
+      const requiresApproval =
+        plan.amount > ORDER_REFUND_APPROVAL_THRESHOLD &&
+        !userHasPermission(user, RBAC_PERMISSION_SLUGS.ordersRefundApprove);
+
+      const created = await storage.createOrderRefund({
+        orderId: order.id,
+        branchId: order.branchId,
+        customerId: order.customerId ?? null,
+        kind: plan.kind,
+        amount: plan.amount.toFixed(2),
+        balanceCredit: plan.balanceCredit.toFixed(2),
+        items: plan.items,
+        allocations: plan.allocations,
+        packageCredits: plan.packageCredits,
+        loyaltyPointsReversed: plan.loyaltyPointsReversed,
+        loyaltyPointsRestored: plan.loyaltyPointsRestored,
+        loyaltyValueRestored: plan.loyaltyValueRestored.toFixed(2),
+        reason: parsed.data.reason,
+        status: "pending_approval",
+        requestedBy: user.id,
+      });
+
+      let refund = created;
+      if (!requiresApproval) {
+        try {
+          refund = (await storage.applyOrderRefund(created.id, user.id)) ?? created;
+        } catch (error) {
+          if (!(error instanceof OrderRefundExceedsTotalError)) throw error;
+          // Another refund on the order completed since this one was planned
+          await storage.rejectOrderRefund(created.id, user.id, error.message);
+          return res.status(409).json({ message: error.message });
+        }
+        await finalizeRefund(refund, user);
+      }
+
+      if (req.audit) {
+        await req.audit.log({
+          type: requiresApproval ? `order.${plan.kind}_requested` : `order.${plan.kind}_completed`,
+          entityType: "order",
+          entityId: order.id,
+          severity: "warning",
+          metadata: {
+            refundId: refund.id,
+            amount: refund.amount,
+            allocations: plan.allocations,
+            balanceCredit: plan.balanceCredit,
+            reason: parsed.data.reason,
+          },
+        });
+      }
+      res.status(201).json({ refund: serializeOrderRefund(refund), requiresApproval });
+    } catch (error) {
+      logger.error({ err: error }, "failed to refund order");
+      res.status(500).json({ message: "Failed to refund order" });
+    }
+  });
+
+  app.get("/api/order-refunds", requireRefundApproval, async (req, res) => {
+    const parsed = refundListSchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid query", errors: parsed.error.flatten() });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const refunds = await storage.getOrderRefunds({ branchId: branchScope(user), status: parsed.data.status });
+      res.json({ refunds: refunds.map(serializeOrderRefund) });
+    } catch (error) {
+      logger.error({ err: error }, "failed to list order refunds");
+      res.status(500).json({ message: "Failed to load refunds" });
+    }
+  });
+
+  const loadRefundForDecision = async (req: Request, res: Response) => {
+    const user = req.user as UserWithBranch;
+    const record = await storage.getOrderRefund(req.params.id);
+    if (!record || (user.role !== "super_admin" && record.branchId !== user.branchId)) {
+      res.status(404).json({ message: "Refund not found" });
+      return undefined;
+    }
+    if (record.status !== "pending_approval") {
+      res.status(409).json({ message: "Refund has already been decided" });
+      return undefined;
+    }
+    return record;
+  };
+
+  app.post("/api/order-refunds/:id/approve", requireRefundApproval, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const record = await loadRefundForDecision(req, res);
+      if (!record) return;
+      const applied = await storage.applyOrderRefund(record.id, user.id);
+      if (!applied) {
+        return res.status(409).json({ message: "Refund has already been decided" });
+      }
+      await finalizeRefund(applied, user);
+      if (req.audit) {
+        await req.audit.log({
+          type: `order.${applied.kind}_approved`,
+          entityType: "order",
+          entityId: applied.orderId,
+          severity: "warning",
+          metadata: { refundId: applied.id, amount: applied.amount, requestedBy: applied.requestedBy },
+        });
+      }
+      res.json({ refund: serializeOrderRefund(applied) });
+    } catch (error) {
+      if (error instanceof OrderRefundExceedsTotalError) {
+        return res.status(409).json({ message: error.message });
+      }
+      logger.error({ err: error }, "failed to approve order refund");
+      res.status(500).json({ message: "Failed to approve refund" });
+    }
+  });
+
+  app.post("/api/order-refunds/:id/reject", requireRefundApproval, async (req, res) => {
+    const parsed = refundDecisionSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid decision", errors: parsed.error.flatten() });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const record = await loadRefundForDecision(req, res);
+      if (!record) return;
+      const rejected = await storage.rejectOrderRefund(record.id, user.id, parsed.data.note ?? null);
+      if (!rejected) {
+        return res.status(409).json({ message: "Refund has already been decided" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: `order.${rejected.kind}_rejected`,
+          entityType: "order",
+          entityId: rejected.orderId,
+          metadata: { refundId: rejected.id, amount: rejected.amount, note: parsed.data.note ?? null },
+        });
+      }
+      res.json({ refund: serializeOrderRefund(rejected) });
+    } catch (error) {
+      logger.error({ err: error }, "failed to reject order refund");
+      res.status(500).json({ message: "Failed to reject refund" });
+    }
+  });
+}
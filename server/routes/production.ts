@@ -0,0 +1,206 @@
+import type { Express } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import type { OrderPiece, UserWithBranch } from "@shared/schema";
+import { canMoveGarmentPiece } from "@shared/garment-tags";
+import {
+  PRODUCTION_STATIONS,
+  productionStationEnum,
+  promiseRisk,
+  stationForPiece,
+  type ProductionStation,
+  type PromiseRisk,
+} from "@shared/production";
+import { localDateString } from "@shared/capacity";
+
+import { RBAC_PERMISSION_SLUGS, type IStorage, type ProductionPiece } from "../storage";
+import { requirePermission } from "../auth";
+import type { EventBus } from "../services/event-bus";
+import { advanceOrderFromPieces } from "../services/piece-tracking";
+
+const requireOrdersEdit = requirePermission(RBAC_PERMISSION_SLUGS.ordersEdit);
+
+interface ProductionRouteDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  eventBus: EventBus;
+  now?: () => Date;
+}
+
+const scanSchema = z.object({
+  station: z.enum(productionStationEnum),
+  // A piece tag ("MAIN-0042-03") or an order number ("MAIN-0042") to move every waiting piece at once
+  code: z.string().trim().min(1).max(40),
+});
+
+// Orders that already left the floor cannot be scanned back onto it
+const CLOSED_ORDER_STATUSES = ["ready", "handed_over", "completed", "cancelled"];
+
+interface QueuedOrder {
+  orderId: string;
+  orderNumber: string;
+  customerName: string;
+  orderStatus: string;
+  promisedReadyDate: string;
+  risk: PromiseRisk | null;
+  pieces: Pick<OrderPiece, "id" | "tagCode" | "description" | "status">[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function buildStationQueues(pieces: ProductionPiece[], today: string) {
+  const queues = new Map<ProductionStation, Map<string, QueuedOrder>>(
+    productionStationEnum.map((station) => [station, new Map()]),
+  );
+  for (const piece of pieces) {
+    const station = stationForPiece(piece);
+    if (!station) continue;
+    const orders = queues.get(station)!;
+    let entry = orders.get(piece.orderId);
+    if (!entry) {
+      entry = {
+        orderId: piece.orderId,
+        orderNumber: piece.orderNumber,
+        customerName: piece.customerName,
+        orderStatus: piece.orderStatus,
+        promisedReadyDate: piece.promisedReadyDate,
+        risk: promiseRisk(piece.promisedReadyDate, today),
+        pieces: [],
+      };
+      orders.set(piece.orderId, entry);
+    }
+    entry.pieces.push({ id: piece.id, tagCode: piece.tagCode, description: piece.description, status: piece.status });
+  }
+  return queues;
+}
+
+export function registerProductionRoutes({
+  app,
+  storage,
+  logger,
+  eventBus,
+  now = () => new Date(),
+}: ProductionRouteDeps): void {
+  const branchScope = (user: UserWithBranch) => (user.role === "super_admin" ? undefined : user.branchId ?? undefined);
+
+  // Every station's queue, soonest promise first, with today's and the last hour's scan counts
+  app.get("/api/production/queue", requireOrdersEdit, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const requested = z.string().uuid().optional().safeParse(req.query.branchId || undefined);
+      if (!requested.success) {
+        return res.status(400).json({ message: "Invalid branchId" });
+      }
+      const branchId = user.role === "super_admin" ? requested.data : user.branchId ?? undefined;
+      if (user.role !== "super_admin" && !branchId) {
+        return res.status(400).json({ message: "Branch is required" });
+      }
+
+      const current = now();
+      const startOfDay = new Date(current);
+      startOfDay.setHours(0, 0, 0, 0);
+      const [pieces, scannedToday, scannedLastHour] = await Promise.all([
+        storage.getProductionPieces(branchId),
+        storage.countOrderPieceScans(startOfDay, branchId),
+        storage.countOrderPieceScans(new Date(current.getTime() - HOUR_MS), branchId),
+      ]);
+
+      const today = localDateString(current);
+      const queues = buildStationQueues(pieces, today);
+      const stations = productionStationEnum.map((id) => {
+        const station = PRODUCTION_STATIONS[id];
+        const orders = Array.from(queues.get(id)!.values());
+        return {
+          ...station,
+          throughput: {
+            today: scannedToday[station.pieceStatus] ?? 0,
+            lastHour: scannedLastHour[station.pieceStatus] ?? 0,
+          },
+          pieceCount: orders.reduce((sum, order) => sum + order.pieces.length, 0),
+          breachedOrders: orders.filter((order) => order.risk === "breached").length,
+          atRiskOrders: orders.filter((order) => order.risk === "at_risk").length,
+          orders,
+        };
+      });
+      res.json({ today, stations });
+    } catch (error) {
+      logger.error({ err: error }, "failed to load production queue");
+      res.status(500).json({ message: "Failed to load production queue" });
+    }
+  });
+
+  app.post("/api/production/scan", requireOrdersEdit, async (req, res) => {
+    const parsed = scanSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid scan", errors: parsed.error.flatten() });
+    }
+    const user = req.user as UserWithBranch;
+    const station = PRODUCTION_STATIONS[parsed.data.station];
+    const actor = `${user.username} @ ${station.label}`;
+    try {
+      const scope = branchScope(user);
+      let orderId: string;
+      let waiting: OrderPiece[];
+
+      const tagged = await storage.getOrderPieceByTag(parsed.data.code, scope);
+      if (tagged) {
+        if (!canMoveGarmentPiece(tagged.status, station.pieceStatus)) {
+          return res.status(409).json({ message: `Piece ${tagged.tagCode} is already ${tagged.status}`, piece: tagged });
+        }
+        orderId = tagged.orderId;
+        waiting = [tagged];
+      } else {
+        const order = await storage.getOrderByNumber(parsed.data.code, scope);
+        if (!order) {
+          return res.status(404).json({ message: `No tag or order matches ${parsed.data.code}` });
+        }
+        if (order.isDeliveryRequest || CLOSED_ORDER_STATUSES.includes(order.status)) {
+          return res.status(409).json({ message: `Order ${order.orderNumber} is ${order.status}` });
+        }
+        orderId = order.id;
+        // Orders taken before tagging get their pieces on first scan
+        const pieces = await storage.ensureOrderPieces(order.id);
+        waiting = pieces.filter((piece) => stationForPiece(piece) === station.id);
+        if (!waiting.length) {
+          return res
+            .status(409)
+            .json({ message: `Nothing on order ${order.orderNumber} is waiting for ${station.label.toLowerCase()}` });
+        }
+      }
+
+      const moved: OrderPiece[] = [];
+      for (const piece of waiting) {
+        const result = await storage.recordOrderPieceScan(piece.id, piece.status, station.pieceStatus, actor);
+        if (result) moved.push(result);
+      }
+      if (!moved.length) {
+        return res.status(409).json({ message: "Pieces were scanned by someone else; scan again" });
+      }
+
+      const { order, summary } = await advanceOrderFromPieces({
+        storage,
+        eventBus,
+        logger,
+        orderId,
+        user,
+        actor,
+        source: "api.production.scan",
+      });
+
+      res.json({
+        station: station.id,
+        code: parsed.data.code,
+        orderId,
+        orderNumber: order?.orderNumber ?? null,
+        orderStatus: order?.status ?? null,
+        moved,
+        skipped: waiting.length - moved.length,
+        summary,
+      });
+    } catch (error) {
+      logger.error({ err: error }, "failed to record station scan");
+      res.status(500).json({ message: "Failed to record scan" });
+    }
+  });
+}
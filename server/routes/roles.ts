@@ -0,0 +1,191 @@
+import type { Express, Request } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import type { UserWithBranch } from "@shared/schema";
+
+import {
+  BUILT_IN_ROLES,
+  PERMISSION_DEFINITIONS,
+  RBAC_PERMISSION_SLUGS,
+  type IStorage,
+} from "../storage";
+import { requirePermission, userHasPermission } from "../auth";
+
+const requireRolesManage = requirePermission(RBAC_PERMISSION_SLUGS.rolesManage);
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_]{1,48}$/;
+const KNOWN_SLUGS = new Set<string>(PERMISSION_DEFINITIONS.map((def) => def.slug));
+
+const slugListSchema = z
+  .array(z.string())
+  .max(PERMISSION_DEFINITIONS.length)
+  .refine((slugs) => slugs.every((slug) => KNOWN_SLUGS.has(slug)), { message: "Unknown permission" })
+  .transform((slugs) => Array.from(new Set(slugs)).sort());
+
+const rolePermissionsSchema = z.object({ permissions: slugListSchema });
+
+const overridesSchema = z
+  .object({ grants: slugListSchema.default([]), denies: slugListSchema.default([]) })
+  .refine((body) => !body.grants.some((slug) => body.denies.includes(slug)), {
+    message: "A permission cannot be both granted and denied",
+  });
+
+interface RoleRoutesDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+}
+
+const isBuiltInRole = (role: string) => (BUILT_IN_ROLES as readonly string[]).includes(role);
+
+// Nobody can hand out a permission they do not hold themselves
+function ungrantable(req: Request, slugs: string[]): string[] {
+  const actor = req.user as UserWithBranch;
+  return slugs.filter((slug) => !userHasPermission(actor, slug));
+}
+
+export function registerRoleRoutes({ app, storage, logger }: RoleRoutesDeps): void {
+  app.get("/api/permissions", requireRolesManage, (_req, res) => {
+    res.json(PERMISSION_DEFINITIONS);
+  });
+
+  app.get("/api/roles", requireRolesManage, async (_req, res) => {
+    try {
+      const map = await storage.getRolePermissionMap();
+      const custom = Object.keys(map).filter((role) => !isBuiltInRole(role)).sort();
+      const roles = [...BUILT_IN_ROLES, ...custom].map((role) => ({
+        role,
+        builtIn: isBuiltInRole(role),
+        permissions: role === "super_admin" ? PERMISSION_DEFINITIONS.map((def) => def.slug) : map[role] ?? [],
+      }));
+      res.json(roles);
+    } catch (error) {
+      logger.error({ err: error }, "failed to load roles");
+      res.status(500).json({ message: "Failed to load roles" });
+    }
+  });
+
+  // Creates a custom role or replaces the permission set of an existing one
+  app.put("/api/roles/:role", requireRolesManage, async (req, res) => {
+    const { role } = req.params;
+    if (!ROLE_NAME_PATTERN.test(role)) {
+      return res.status(400).json({ message: "Role names use lowercase letters, digits and underscores" });
+    }
+    if (role === "super_admin") {
+      return res.status(400).json({ message: "super_admin always holds every permission" });
+    }
+    const parsed = rolePermissionsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid permissions", errors: parsed.error.flatten() });
+    }
+    const { permissions } = parsed.data;
+    if (!isBuiltInRole(role) && permissions.length === 0) {
+      return res.status(400).json({ message: "Custom roles need at least one permission" });
+    }
+    const blocked = ungrantable(req, permissions);
+    if (blocked.length) {
+      return res.status(403).json({ message: "Cannot grant permissions you do not hold", permissions: blocked });
+    }
+    try {
+      const previous = (await storage.getRolePermissionMap())[role];
+      const saved = await storage.setRolePermissions(role, permissions);
+      if (req.audit) {
+        await req.audit.log({
+          type: "rbac.role_updated",
+          entityType: "role",
+          entityId: role,
+          metadata: {
+            permissions: saved,
+            before: previous ? { permissions: previous } : null,
+            after: { permissions: saved },
+          },
+        });
+      }
+      res.json({ role, builtIn: isBuiltInRole(role), permissions: saved });
+    } catch (error) {
+      logger.error({ err: error, role }, "failed to save role");
+      res.status(500).json({ message: "Failed to save role" });
+    }
+  });
+
+  app.delete("/api/roles/:role", requireRolesManage, async (req, res) => {
+    const { role } = req.params;
+    if (isBuiltInRole(role)) {
+      return res.status(400).json({ message: "Built-in roles cannot be deleted" });
+    }
+    try {
+      const assigned = await storage.countUsersWithRole(role);
+      if (assigned > 0) {
+        return res.status(409).json({ message: "Role is still assigned to users", users: assigned });
+      }
+      const deleted = await storage.deleteRole(role);
+      if (!deleted) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({ type: "rbac.role_deleted", entityType: "role", entityId: role });
+      }
+      res.status(204).end();
+    } catch (error) {
+      logger.error({ err: error, role }, "failed to delete role");
+      res.status(500).json({ message: "Failed to delete role" });
+    }
+  });
+
+  app.get("/api/users/:id/permissions", requireRolesManage, async (req, res) => {
+    try {
+      const actor = req.user as UserWithBranch;
+      const user = await storage.getUser(req.params.id);
+      if (!user || (actor.role !== "super_admin" && user.branchId !== actor.branchId)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const overrides = await storage.getUserPermissionOverrides(user.id);
+      res.json({ userId: user.id, role: user.role, ...overrides, effective: user.permissions });
+    } catch (error) {
+      logger.error({ err: error, userId: req.params.id }, "failed to load user permissions");
+      res.status(500).json({ message: "Failed to load user permissions" });
+    }
+  });
+
+  // Per-user grants and denies layered over the role
+  app.put("/api/users/:id/permissions", requireRolesManage, async (req, res) => {
+    const parsed = overridesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid permissions", errors: parsed.error.flatten() });
+    }
+    try {
+      const actor = req.user as UserWithBranch;
+      const user = await storage.getUser(req.params.id);
+      if (!user || (actor.role !== "super_admin" && user.branchId !== actor.branchId)) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.role === "super_admin") {
+        return res.status(400).json({ message: "super_admin permissions cannot be overridden" });
+      }
+      const blocked = ungrantable(req, [...parsed.data.grants, ...parsed.data.denies]);
+      if (blocked.length) {
+        return res.status(403).json({ message: "Cannot change permissions you do not hold", permissions: blocked });
+      }
+      const previous = await storage.getUserPermissionOverrides(user.id);
+      await storage.setUserPermissionOverrides(user.id, parsed.data);
+      const updated = await storage.getUser(user.id);
+      if (req.audit) {
+        await req.audit.log({
+          type: "rbac.user_permissions_updated",
+          entityType: "user",
+          entityId: user.id,
+          metadata: {
+            grants: parsed.data.grants,
+            denies: parsed.data.denies,
+            before: previous,
+            after: { grants: parsed.data.grants, denies: parsed.data.denies },
+          },
+        });
+      }
+      res.json({ userId: user.id, role: user.role, ...parsed.data, effective: updated?.permissions ?? [] });
+    } catch (error) {
+      logger.error({ err: error, userId: req.params.id }, "failed to save user permissions");
+      res.status(500).json({ message: "Failed to save user permissions" });
+    }
+  });
+}
@@ -0,0 +1,329 @@
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import type { CustomerSubscription, UserWithBranch } from "@shared/schema";
+import {
+  canChangeSubscriptionStatus,
+  renewalDue,
+  subscriptionBillingMethodEnum,
+  subscriptionRolloverEnum,
+  subscriptionStatusEnum,
+  type SubscriptionStatus,
+} from "@shared/subscriptions";
+
+import { RBAC_PERMISSION_SLUGS, type CustomerSubscriptionWithPlan, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
+import { auditChanges } from "../middleware/audit";
+
+const requireCatalogEdit = requirePermission(RBAC_PERMISSION_SLUGS.catalogEdit);
+const requireCustomersEdit = requirePermission(RBAC_PERMISSION_SLUGS.customersEdit);
+
+interface SubscriptionRouteDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  requireAuth: RequestHandler;
+  now?: () => Date;
+}
+
+const planFields = {
+  nameEn: z.string().trim().min(1).max(200),
+  nameAr: z.string().trim().max(200).nullable().optional(),
+  packageId: z.string().uuid(),
+  price: z.number().min(0).max(1_000_000),
+  intervalMonths: z.number().int().min(1).max(12),
+  rolloverPolicy: z.enum(subscriptionRolloverEnum),
+  rolloverCap: z.number().int().min(0).nullable().optional(),
+  reminderDays: z.number().int().min(0).max(30),
+  isActive: z.boolean(),
+};
+
+const createPlanSchema = z
+  .object({
+    ...planFields,
+    intervalMonths: planFields.intervalMonths.default(1),
+    reminderDays: planFields.reminderDays.default(3),
+    isActive: planFields.isActive.default(true),
+  })
+  .refine((plan) => plan.rolloverPolicy !== "capped" || plan.rolloverCap != null, {
+    message: "A capped rollover needs a cap",
+    path: ["rolloverCap"],
+  });
+
+const updatePlanSchema = z.object(planFields).partial();
+
+const subscribeSchema = z.object({
+  planId: z.string().uuid(),
+  billingMethod: z.enum(subscriptionBillingMethodEnum),
+  cardReference: z.string().trim().min(4).max(100).nullable().optional(),
+});
+
+const statusSchema = z.object({ status: z.enum(subscriptionStatusEnum) });
+
+function withRenewal<T extends CustomerSubscription>(subscription: T) {
+  return {
+    ...subscription,
+    nextRenewalAt: subscription.status === "active" ? subscription.currentPeriodEnd : null,
+  };
+}
+
+function branchScope(user: UserWithBranch, requested?: unknown): string | undefined {
+  if (user.role === "super_admin") return typeof requested === "string" && requested ? requested : undefined;
+  return user.branchId ?? undefined;
+}
+
+export function registerSubscriptionRoutes({
+  app,
+  storage,
+  logger,
+  requireAuth,
+  now = () => new Date(),
+}: SubscriptionRouteDeps): void {
+  // Applies a pause, resume or cancel; a resumed subscription whose cycle already ended renews straight away
+  async function changeStatus(
+    req: Request,
+    res: Response,
+    subscription: CustomerSubscription,
+    status: SubscriptionStatus,
+    actor: string,
+  ) {
+    if (!canChangeSubscriptionStatus(subscription.status, status)) {
+      return res.status(409).json({
+        message: subscription.status === "cancelled" ? "Subscription is cancelled" : `Subscription is already ${status}`,
+        code: subscription.status === "cancelled" ? "SUBSCRIPTION_CANCELLED" : "SUBSCRIPTION_STATUS_UNCHANGED",
+      });
+    }
+    const at = now();
+    let updated = await storage.setCustomerSubscriptionStatus(subscription.id, status, at);
+    if (!updated) {
+      return res.status(409).json({ message: "Subscription is cancelled", code: "SUBSCRIPTION_CANCELLED" });
+    }
+    if (renewalDue(updated, at)) {
+      const renewal = await storage.renewCustomerSubscription(updated.id, { receivedBy: actor, now: at });
+      if (renewal) updated = renewal.subscription;
+    }
+    if (req.audit) {
+      await req.audit.log({
+        type: "subscription.status_changed",
+        entityType: "customer_subscription",
+        entityId: subscription.id,
+        branchId: subscription.branchId,
+        metadata: auditChanges({ status: subscription.status }, { status: updated.status }),
+      });
+    }
+    return res.json(withRenewal(updated));
+  }
+
+  app.get("/api/subscription-plans", requireAuth, async (req, res) => {
+    const branchId = branchScope(req.user as UserWithBranch, req.query.branchId);
+    if (!branchId) {
+      return res.status(400).json({ message: "branchId required" });
+    }
+    try {
+      res.json(await storage.getSubscriptionPlans(branchId));
+    } catch (error) {
+      logger.error({ err: error, branchId }, "failed to load subscription plans");
+      res.status(500).json({ message: "Failed to load subscription plans" });
+    }
+  });
+
+  app.post("/api/subscription-plans", requireCatalogEdit, async (req, res) => {
+    const branchId = branchScope(req.user as UserWithBranch, req.query.branchId);
+    if (!branchId) {
+      return res.status(400).json({ message: "branchId required" });
+    }
+    const parsed = createPlanSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid subscription plan", errors: parsed.error.flatten() });
+    }
+    try {
+      const pkg = await storage.getPackage(parsed.data.packageId, branchId);
+      if (!pkg) {
+        return res.status(400).json({ message: "Package not found in this branch" });
+      }
+      const { price, rolloverCap, nameAr, ...plan } = parsed.data;
+      const created = await storage.createSubscriptionPlan(branchId, {
+        ...plan,
+        nameAr: nameAr ?? null,
+        price: price.toFixed(2),
+        rolloverCap: plan.rolloverPolicy === "capped" ? rolloverCap ?? 0 : null,
+      });
+      if (req.audit) {
+        await req.audit.log({
+          type: "subscription_plan.created",
+          entityType: "subscription_plan",
+          entityId: created.id,
+          branchId,
+          metadata: auditChanges(null, { ...created }),
+        });
+      }
+      res.status(201).json(created);
+    } catch (error) {
+      logger.error({ err: error, branchId }, "failed to create subscription plan");
+      res.status(500).json({ message: "Failed to create subscription plan" });
+    }
+  });
+
+  app.patch("/api/subscription-plans/:id", requireCatalogEdit, async (req, res) => {
+    const branchId = branchScope(req.user as UserWithBranch, req.query.branchId);
+    if (!branchId) {
+      return res.status(400).json({ message: "branchId required" });
+    }
+    const parsed = updatePlanSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid subscription plan", errors: parsed.error.flatten() });
+    }
+    try {
+      const before = await storage.getSubscriptionPlan(req.params.id, branchId);
+      if (!before) {
+        return res.status(404).json({ message: "Subscription plan not found" });
+      }
+      const { price, ...changes } = parsed.data;
+      if (changes.packageId && !(await storage.getPackage(changes.packageId, branchId))) {
+        return res.status(400).json({ message: "Package not found in this branch" });
+      }
+      const rolloverPolicy = changes.rolloverPolicy ?? before.rolloverPolicy;
+      const rolloverCap = changes.rolloverCap !== undefined ? changes.rolloverCap : before.rolloverCap;
+      if (rolloverPolicy === "capped" && rolloverCap == null) {
+        return res.status(400).json({ message: "A capped rollover needs a cap" });
+      }
+      const updated = await storage.updateSubscriptionPlan(req.params.id, branchId, {
+        ...changes,
+        ...(price !== undefined ? { price: price.toFixed(2) } : {}),
+        rolloverCap: rolloverPolicy === "capped" ? rolloverCap : null,
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Subscription plan not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "subscription_plan.updated",
+          entityType: "subscription_plan",
+          entityId: updated.id,
+          branchId,
+          metadata: auditChanges({ ...before }, { ...updated }),
+        });
+      }
+      res.json(updated);
+    } catch (error) {
+      logger.error({ err: error, planId: req.params.id }, "failed to update subscription plan");
+      res.status(500).json({ message: "Failed to update subscription plan" });
+    }
+  });
+
+  app.get("/api/customers/:customerId/subscriptions", requireAuth, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    try {
+      const customer = await storage.getCustomer(req.params.customerId, branchScope(user));
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const subscriptions: CustomerSubscriptionWithPlan[] = await storage.getCustomerSubscriptions(customer.id);
+      res.json(subscriptions.map(withRenewal));
+    } catch (error) {
+      logger.error({ err: error, customerId: req.params.customerId }, "failed to load subscriptions");
+      res.status(500).json({ message: "Failed to load subscriptions" });
+    }
+  });
+
+  app.post("/api/customers/:customerId/subscriptions", requireCustomersEdit, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    const parsed = subscribeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid subscription", errors: parsed.error.flatten() });
+    }
+    const { planId, billingMethod, cardReference } = parsed.data;
+    if (billingMethod === "card_on_file" && !cardReference) {
+      return res.status(400).json({ message: "A card on file is required", code: "SUBSCRIPTION_CARD_REQUIRED" });
+    }
+    try {
+      const customer = await storage.getCustomer(req.params.customerId, branchScope(user));
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const plan = await storage.getSubscriptionPlan(planId, customer.branchId);
+      if (!plan || !plan.isActive) {
+        return res.status(404).json({ message: "Subscription plan not found" });
+      }
+      const existing = await storage.getCustomerSubscriptions(customer.id);
+      if (existing.some((subscription) => subscription.planId === plan.id && subscription.status !== "cancelled")) {
+        return res.status(409).json({ message: "Customer already subscribes to this plan", code: "SUBSCRIPTION_EXISTS" });
+      }
+      const result = await storage.startCustomerSubscription({
+        customerId: customer.id,
+        branchId: customer.branchId,
+        plan,
+        billingMethod,
+        cardReference: billingMethod === "card_on_file" ? cardReference ?? null : null,
+        receivedBy: user.username,
+        now: now(),
+      });
+      if (req.audit) {
+        await req.audit.log({
+          type: "subscription.started",
+          entityType: "customer_subscription",
+          entityId: result.subscription.id,
+          branchId: customer.branchId,
+          metadata: { planId: plan.id, billingMethod, amount: result.cycle.amount },
+        });
+      }
+      res.status(201).json({ subscription: withRenewal(result.subscription), cycle: result.cycle });
+    } catch (error) {
+      logger.error({ err: error, customerId: req.params.customerId }, "failed to start subscription");
+      res.status(500).json({ message: "Failed to start subscription" });
+    }
+  });
+
+  app.patch("/api/customer-subscriptions/:id", requireCustomersEdit, async (req, res) => {
+    const user = req.user as UserWithBranch;
+    const parsed = statusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid status", errors: parsed.error.flatten() });
+    }
+    try {
+      const subscription = await storage.getCustomerSubscription(req.params.id);
+      if (!subscription || (user.role !== "super_admin" && subscription.branchId !== user.branchId)) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      return await changeStatus(req, res, subscription, parsed.data.status, user.username);
+    } catch (error) {
+      logger.error({ err: error, subscriptionId: req.params.id }, "failed to update subscription");
+      res.status(500).json({ message: "Failed to update subscription" });
+    }
+  });
+
+  app.get("/customer/subscriptions", async (req, res) => {
+    const customerId = req.session.customerId;
+    if (!customerId) {
+      return res.status(401).json({ message: "Login required" });
+    }
+    try {
+      const subscriptions = await storage.getCustomerSubscriptions(customerId);
+      res.json(subscriptions.map(withRenewal));
+    } catch (error) {
+      logger.error({ err: error, customerId }, "failed to load subscriptions");
+      res.status(500).json({ message: "Failed to load subscriptions" });
+    }
+  });
+
+  app.patch("/customer/subscriptions/:id", async (req, res) => {
+    const customerId = req.session.customerId;
+    if (!customerId) {
+      return res.status(401).json({ message: "Login required" });
+    }
+    const parsed = statusSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid status", errors: parsed.error.flatten() });
+    }
+    try {
+      const subscription = await storage.getCustomerSubscription(req.params.id);
+      if (!subscription || subscription.customerId !== customerId) {
+        return res.status(404).json({ message: "Subscription not found" });
+      }
+      return await changeStatus(req, res, subscription, parsed.data.status, "Customer portal");
+    } catch (error) {
+      logger.error({ err: error, subscriptionId: req.params.id }, "failed to update subscription");
+      res.status(500).json({ message: "Failed to update subscription" });
+    }
+  });
+}
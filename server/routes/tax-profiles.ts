@@ -0,0 +1,135 @@
+import type { Express, Request, Response, RequestHandler } from "express";
+import type { Logger } from "pino";
+import { ZodError } from "zod";
+import { insertBranchTaxProfileSchema, type UserWithBranch } from "@shared/schema";
+
+import { RBAC_PERMISSION_SLUGS, type IStorage } from "../storage";
+import { requirePermission } from "../auth";
+
+const requirePriceEdit = requirePermission(RBAC_PERMISSION_SLUGS.catalogPriceEdit);
+
+interface TaxProfileRoutesDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  requireAuth: RequestHandler;
+}
+
+function canAccessBranch(req: Request, res: Response, branchId: string): boolean {
+  const user = req.user as UserWithBranch;
+  if (user.role !== "super_admin" && user.branchId !== branchId) {
+    res.status(403).json({ message: "Access denied" });
+    return false;
+  }
+  return true;
+}
+
+export function registerTaxProfileRoutes({
+  app,
+  storage,
+  logger,
+  requireAuth,
+}: TaxProfileRoutesDeps): void {
+  // Active profile used by the POS to preview totals; null when the branch has none configured
+  app.get("/api/branches/:branchId/tax-profile", requireAuth, async (req, res) => {
+    const { branchId } = req.params;
+    if (!canAccessBranch(req, res, branchId)) return;
+    try {
+      const at = typeof req.query.at === "string" ? new Date(req.query.at) : new Date();
+      if (Number.isNaN(at.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+      const profile = await storage.getActiveBranchTaxProfile(branchId, at);
+      res.json(profile);
+    } catch (error) {
+      logger.error({ err: error, branchId }, "Failed to fetch branch tax profile");
+      res.status(500).json({ message: "Failed to fetch branch tax profile" });
+    }
+  });
+
+  app.get("/api/branches/:branchId/tax-profiles", requirePriceEdit, async (req, res) => {
+    const { branchId } = req.params;
+    if (!canAccessBranch(req, res, branchId)) return;
+    try {
+      res.json(await storage.getBranchTaxProfiles(branchId));
+    } catch (error) {
+      logger.error({ err: error, branchId }, "Failed to fetch branch tax profiles");
+      res.status(500).json({ message: "Failed to fetch branch tax profiles" });
+    }
+  });
+
+  app.post("/api/branches/:branchId/tax-profiles", requirePriceEdit, async (req, res) => {
+    const { branchId } = req.params;
+    if (!canAccessBranch(req, res, branchId)) return;
+    try {
+      const data = insertBranchTaxProfileSchema.parse(req.body);
+      const profile = await storage.createBranchTaxProfile(branchId, data);
+      if (req.audit) {
+        await req.audit.log({
+          type: "tax_profile.created",
+          entityType: "branch_tax_profile",
+          entityId: profile.id,
+          metadata: { branchId, rate: profile.rate, pricesIncludeTax: profile.pricesIncludeTax },
+        });
+      }
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid tax profile", errors: error.errors });
+      }
+      logger.error({ err: error, branchId }, "Failed to create branch tax profile");
+      res.status(500).json({ message: "Failed to create branch tax profile" });
+    }
+  });
+
+  app.put("/api/branches/:branchId/tax-profiles/:id", requirePriceEdit, async (req, res) => {
+    const { branchId, id } = req.params;
+    if (!canAccessBranch(req, res, branchId)) return;
+    try {
+      const data = insertBranchTaxProfileSchema.parse(req.body);
+      const profile = await storage.updateBranchTaxProfile(id, branchId, data);
+      if (!profile) {
+        return res.status(404).json({ message: "Tax profile not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "tax_profile.updated",
+          entityType: "branch_tax_profile",
+          entityId: profile.id,
+          metadata: { branchId, rate: profile.rate, pricesIncludeTax: profile.pricesIncludeTax },
+        });
+      }
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: "Invalid tax profile", errors: error.errors });
+      }
+      logger.error({ err: error, branchId, id }, "Failed to update branch tax profile");
+      res.status(500).json({ message: "Failed to update branch tax profile" });
+    }
+  });
+
+  app.delete("/api/branches/:branchId/tax-profiles/:id", requirePriceEdit, async (req, res) => {
+    const { branchId, id } = req.params;
+    if (!canAccessBranch(req, res, branchId)) return;
+    try {
+      const deleted = await storage.deleteBranchTaxProfile(id, branchId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Tax profile not found" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "tax_profile.deleted",
+          entityType: "branch_tax_profile",
+          entityId: id,
+          severity: "warning",
+          metadata: { branchId },
+        });
+      }
+      res.status(204).end();
+    } catch (error) {
+      logger.error({ err: error, branchId, id }, "Failed to delete branch tax profile");
+      res.status(500).json({ message: "Failed to delete branch tax profile" });
+    }
+  });
+}
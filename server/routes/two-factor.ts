@@ -0,0 +1,298 @@
+import type { Express, Request, RequestHandler, Response } from "express";
+import type { Logger } from "pino";
+import { z } from "zod";
+import type { User, UserWithBranch } from "@shared/schema";
+
+import type { IStorage } from "../storage";
+import type { TwoFactorService } from "../services/two-factor";
+
+const PENDING_TTL_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const verifySchema = z
+  .object({
+    code: z.string().trim().min(6).max(10).optional(),
+    recoveryCode: z.string().trim().min(6).max(32).optional(),
+  })
+  .refine((body) => body.code || body.recoveryCode, { message: "code or recoveryCode is required" });
+
+const codeSchema = z.object({ code: z.string().trim().min(6).max(10) });
+
+interface TwoFactorRoutesDeps {
+  app: Express;
+  storage: IStorage;
+  logger: Logger;
+  requireAuth: RequestHandler;
+  requireAdminOrSuperAdmin: RequestHandler;
+  twoFactorService: TwoFactorService;
+}
+
+function saveSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.save((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+function sanitizeUser(user: User) {
+  const { passwordHash, ...safeUser } = user;
+  return safeUser;
+}
+
+/**
+ * Called after the password check. When the user has a second factor (or policy requires one) the
+ * session only records a pending challenge and the caller must not log the user in yet.
+ */
+export async function beginTwoFactorLogin(
+  req: Request,
+  user: Pick<User, "id">,
+  twoFactorService: TwoFactorService,
+): Promise<{ twoFactorRequired: true; enrollmentRequired: boolean } | null> {
+  // Built-in accounts without a users row cannot enroll
+  if (!UUID_PATTERN.test(user.id)) return null;
+  const { required, enrolled } = await twoFactorService.getLoginRequirement(user.id);
+  if (!required) return null;
+  req.session.pendingTwoFactor = {
+    userId: user.id,
+    expiresAt: Date.now() + PENDING_TTL_MS,
+    attempts: 0,
+    enrolled,
+  };
+  await saveSession(req);
+  return { twoFactorRequired: true, enrollmentRequired: !enrolled };
+}
+
+export function registerTwoFactorRoutes({
+  app,
+  storage,
+  logger,
+  requireAuth,
+  requireAdminOrSuperAdmin,
+  twoFactorService,
+}: TwoFactorRoutesDeps): void {
+  async function loadPendingUser(req: Request, res: Response): Promise<User | null> {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      res.status(401).json({ message: "Verification expired, please sign in again" });
+      return null;
+    }
+    const user = await storage.getUser(pending.userId);
+    if (!user || !user.isActive) {
+      delete req.session.pendingTwoFactor;
+      res.status(401).json({ message: "Verification expired, please sign in again" });
+      return null;
+    }
+    return user;
+  }
+
+  app.post("/api/login/2fa/enroll", async (req, res) => {
+    try {
+      const user = await loadPendingUser(req, res);
+      if (!user) return;
+      if (req.session.pendingTwoFactor?.enrolled) {
+        return res.status(409).json({ message: "Two-factor authentication is already set up" });
+      }
+      res.json(await twoFactorService.startEnrollment(user));
+    } catch (error) {
+      logger.error({ err: error }, "Failed to start two-factor enrollment during login");
+      res.status(500).json({ message: "Failed to start two-factor enrollment" });
+    }
+  });
+
+  const completeLogin = (format: "session" | "json"): RequestHandler => async (req, res, next) => {
+    const parsed = verifySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Verification code required" });
+    }
+    try {
+      const user = await loadPendingUser(req, res);
+      if (!user) return;
+      const pending = req.session.pendingTwoFactor!;
+      if (pending.attempts >= MAX_ATTEMPTS) {
+        delete req.session.pendingTwoFactor;
+        await saveSession(req);
+        return res.status(429).json({ message: "Too many attempts, please sign in again" });
+      }
+
+      let recoveryCodes: string[] | undefined;
+      let verified = false;
+      if (!pending.enrolled) {
+        const issued = parsed.data.code ? await twoFactorService.activate(user.id, parsed.data.code) : null;
+        verified = !!issued;
+        recoveryCodes = issued ?? undefined;
+      } else {
+        verified = await twoFactorService.verify(user.id, parsed.data);
+      }
+
+      if (!verified) {
+        pending.attempts += 1;
+        await saveSession(req);
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      req.logIn(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        req.session.passport = { user: user.id };
+        req.session.save((saveErr) => {
+          if (saveErr) {
+            logger.error({ err: saveErr }, "Session save error");
+            return next(saveErr);
+          }
+          const safeUser = sanitizeUser(user);
+          if (format === "json") {
+            return res.json({ ...safeUser, ...(recoveryCodes ? { recoveryCodes } : {}) });
+          }
+          return res.json({
+            user: safeUser,
+            message: "Login successful",
+            ...(recoveryCodes ? { recoveryCodes } : {}),
+          });
+        });
+      });
+    } catch (error) {
+      logger.error({ err: error }, "Two-factor verification failed");
+      res.status(500).json({ message: "Login failed. Please try again." });
+    }
+  };
+
+  app.post("/api/login/2fa", completeLogin("session"));
+  app.post("/auth/login/2fa", completeLogin("json"));
+
+  // Self-service management for the signed-in staff user
+  const requireEnrollableUser: RequestHandler = (req, res, next) => {
+    const user = req.user as UserWithBranch | undefined;
+    if (!user || !UUID_PATTERN.test(user.id)) {
+      return res.status(400).json({ message: "Two-factor authentication is not available for this account" });
+    }
+    next();
+  };
+
+  app.get("/api/account/2fa", requireAuth, requireEnrollableUser, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      res.json(await twoFactorService.getStatus(user.id));
+    } catch (error) {
+      logger.error({ err: error }, "Failed to load two-factor status");
+      res.status(500).json({ message: "Failed to load two-factor status" });
+    }
+  });
+
+  app.post("/api/account/2fa/setup", requireAuth, requireEnrollableUser, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const status = await twoFactorService.getStatus(user.id);
+      if (status.enabled) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+      res.json(await twoFactorService.startEnrollment(user));
+    } catch (error) {
+      logger.error({ err: error }, "Failed to start two-factor enrollment");
+      res.status(500).json({ message: "Failed to start two-factor enrollment" });
+    }
+  });
+
+  app.post("/api/account/2fa/activate", requireAuth, requireEnrollableUser, async (req, res) => {
+    const parsed = codeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Verification code required" });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      const recoveryCodes = await twoFactorService.activate(user.id, parsed.data.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "user.two_factor_enabled",
+          entityType: "user",
+          entityId: user.id,
+        });
+      }
+      res.json({ recoveryCodes });
+    } catch (error) {
+      logger.error({ err: error }, "Failed to activate two-factor authentication");
+      res.status(500).json({ message: "Failed to activate two-factor authentication" });
+    }
+  });
+
+  app.post("/api/account/2fa/recovery-codes", requireAuth, requireEnrollableUser, async (req, res) => {
+    const parsed = codeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Verification code required" });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      if (!(await twoFactorService.verify(user.id, { code: parsed.data.code }))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+      res.json({ recoveryCodes: await twoFactorService.regenerateRecoveryCodes(user.id) });
+    } catch (error) {
+      logger.error({ err: error }, "Failed to regenerate recovery codes");
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  app.delete("/api/account/2fa", requireAuth, requireEnrollableUser, async (req, res) => {
+    const parsed = codeSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Verification code required" });
+    }
+    try {
+      const user = req.user as UserWithBranch;
+      if (await twoFactorService.isRequiredByPolicy()) {
+        return res.status(409).json({ message: "Two-factor authentication is required for staff accounts" });
+      }
+      if (!(await twoFactorService.verify(user.id, { code: parsed.data.code }))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+      await twoFactorService.reset(user.id);
+      if (req.audit) {
+        await req.audit.log({
+          type: "user.two_factor_disabled",
+          entityType: "user",
+          entityId: user.id,
+          severity: "warning",
+        });
+      }
+      res.json({ message: "Two-factor authentication disabled" });
+    } catch (error) {
+      logger.error({ err: error }, "Failed to disable two-factor authentication");
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Admin reset for users who lost their authenticator and recovery codes
+  app.delete("/api/users/:id/2fa", requireAdminOrSuperAdmin, async (req, res) => {
+    const { id } = req.params;
+    if (!UUID_PATTERN.test(id)) {
+      return res.status(400).json({ message: "Invalid user id" });
+    }
+    try {
+      const actor = req.user as UserWithBranch;
+      const target = await storage.getUser(id);
+      if (!target) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (actor.role !== "super_admin" && (target.role === "super_admin" || target.branchId !== actor.branchId)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const reset = await twoFactorService.reset(id);
+      if (req.audit) {
+        await req.audit.log({
+          type: "user.two_factor_reset",
+          entityType: "user",
+          entityId: id,
+          severity: "warning",
+          metadata: { resetBy: actor.id, hadSecondFactor: reset },
+        });
+      }
+      res.json({ message: "Two-factor authentication reset", reset });
+    } catch (error) {
+      logger.error({ err: error, userId: id }, "Failed to reset two-factor authentication");
+      res.status(500).json({ message: "Failed to reset two-factor authentication" });
+    }
+  });
+}
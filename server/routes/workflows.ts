@@ -2,7 +2,8 @@ import type { Express } from "express";
 import { Router } from "express";
 import { z } from "zod";
 import { requireAuth, requireWorkflowBuilderEdit, requireWorkflowBuilderPublish } from "../auth";
-import type { WorkflowEngine } from "../services/workflows/engine";
+import { workflowExecutionStatusEnum, type UserWithBranch } from "@shared/schema";
+import { describePayloadFields, type WorkflowEngine } from "../services/workflows/engine";
 
 const workflowPayloadSchema = z.object({
   definition: z.record(z.any()),
@@ -10,11 +11,32 @@ const workflowPayloadSchema = z.object({
   edges: z.array(z.record(z.any())),
 });
 
+const executionQuerySchema = z.object({
+  workflowId: z.string().uuid().optional(),
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(",").map((status) => status.trim()) : undefined))
+    .pipe(z.array(z.enum(workflowExecutionStatusEnum)).optional()),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
 const triggerSimulationSchema = z.object({
   triggerType: z.string(),
   payload: z.record(z.any()).optional().default({}),
 });
 
+// Super admins manage every template; other users only their own branch's, and read the global ones
+function canManageTemplate(user: UserWithBranch, branchId: string | null | undefined): boolean {
+  return user.role === "super_admin" || (Boolean(user.branchId) && branchId === user.branchId);
+}
+
+function templateInput(user: UserWithBranch, body: unknown): Record<string, unknown> {
+  const input = body && typeof body === "object" ? { ...(body as Record<string, unknown>) } : {};
+  if (user.role !== "super_admin") input.branchId = user.branchId;
+  return input;
+}
+
 export function registerWorkflowRoutes(app: Express, engine: WorkflowEngine): void {
   const router = Router();
 
@@ -24,6 +46,7 @@ export function registerWorkflowRoutes(app: Express, engine: WorkflowEngine): vo
         type: trigger.type,
         label: trigger.label,
         description: trigger.description ?? null,
+        fields: describePayloadFields(trigger.schema),
       })),
       actions: engine.listActions().map((action) => ({
         type: action.type,
@@ -31,6 +54,16 @@ export function registerWorkflowRoutes(app: Express, engine: WorkflowEngine): vo
         description: action.description ?? null,
         supportsSimulation: action.supportsSimulation ?? false,
       })),
+      conditions: engine.listConditions().map((condition) => ({
+        type: condition.type,
+        label: condition.label,
+        description: condition.description ?? null,
+      })),
+      delays: engine.listDelays().map((delay) => ({
+        type: delay.type,
+        label: delay.label,
+        description: delay.description ?? null,
+      })),
     });
   });
 
@@ -63,6 +96,155 @@ export function registerWorkflowRoutes(app: Express, engine: WorkflowEngine): vo
     }
   });
 
+  router.get("/executions", requireAuth, requireWorkflowBuilderEdit, async (req, res) => {
+    const parsed = executionQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ message: "Invalid execution filter", errors: parsed.error.flatten() });
+      return;
+    }
+    const executions = await engine.listExecutions(parsed.data);
+    res.json({ executions });
+  });
+
+  router.post("/executions/:executionId/cancel", requireWorkflowBuilderEdit, async (req, res) => {
+    const execution = await engine.getExecution(req.params.executionId);
+    if (!execution) {
+      res.status(404).json({ message: "Execution not found" });
+      return;
+    }
+    const user = req.user as { username?: string } | undefined;
+    const cancelled = await engine.cancelExecution(execution.id, user?.username ?? null);
+    if (!cancelled) {
+      res.status(409).json({ message: `Only paused executions can be cancelled (status: ${execution.status})` });
+      return;
+    }
+    if (req.audit) {
+      await req.audit.log({
+        type: "workflow.execution.cancelled",
+        entityType: "workflow_execution",
+        entityId: execution.id,
+        severity: "warning",
+        metadata: { workflowId: execution.workflowId },
+      });
+    }
+    res.json(cancelled);
+  });
+
+  router.get("/templates", requireAuth, requireWorkflowBuilderEdit, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const requested = typeof req.query.branchId === "string" ? req.query.branchId : undefined;
+      if (user.role !== "super_admin" && !user.branchId) {
+        res.status(403).json({ message: "Branch context is required" });
+        return;
+      }
+      const templates = await engine.listTemplates(user.role === "super_admin" ? requested : user.branchId);
+      res.json({ templates });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to load templates",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.post("/templates", requireWorkflowBuilderEdit, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      if (user.role !== "super_admin" && !user.branchId) {
+        res.status(403).json({ message: "Branch context is required" });
+        return;
+      }
+      const template = await engine.saveTemplate(templateInput(user, req.body));
+      if (!template) {
+        res.status(400).json({ message: "Failed to save template" });
+        return;
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "workflow.template.created",
+          entityType: "workflow_notification_template",
+          entityId: template.id,
+          metadata: { key: template.key, channel: template.channel, branchId: template.branchId },
+        });
+      }
+      res.status(201).json(template);
+    } catch (error) {
+      res.status(400).json({
+        message: "Failed to save template",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.put("/templates/:templateId", requireWorkflowBuilderEdit, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const existing = await engine.getTemplate(req.params.templateId);
+      if (!existing) {
+        res.status(404).json({ message: "Template not found" });
+        return;
+      }
+      if (!canManageTemplate(user, existing.branchId)) {
+        res.status(403).json({ message: "Template belongs to another branch" });
+        return;
+      }
+      const template = await engine.saveTemplate(templateInput(user, req.body), existing.id);
+      if (!template) {
+        res.status(404).json({ message: "Template not found" });
+        return;
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "workflow.template.updated",
+          entityType: "workflow_notification_template",
+          entityId: template.id,
+          metadata: { key: template.key, channel: template.channel },
+        });
+      }
+      res.json(template);
+    } catch (error) {
+      res.status(400).json({
+        message: "Failed to save template",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  router.delete("/templates/:templateId", requireWorkflowBuilderEdit, async (req, res) => {
+    try {
+      const user = req.user as UserWithBranch;
+      const existing = await engine.getTemplate(req.params.templateId);
+      if (!existing) {
+        res.status(404).json({ message: "Template not found" });
+        return;
+      }
+      if (!canManageTemplate(user, existing.branchId)) {
+        res.status(403).json({ message: "Template belongs to another branch" });
+        return;
+      }
+      const deleted = await engine.deleteTemplate(existing.id);
+      if (!deleted) {
+        res.status(404).json({ message: "Template not found" });
+        return;
+      }
+      if (req.audit) {
+        await req.audit.log({
+          type: "workflow.template.deleted",
+          entityType: "workflow_notification_template",
+          entityId: existing.id,
+          severity: "warning",
+        });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to delete template",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
   router.get("/:id", requireAuth, requireWorkflowBuilderEdit, async (req, res) => {
     const workflow = await engine.getWorkflow(req.params.id);
     if (!workflow) {
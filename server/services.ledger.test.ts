@@ -0,0 +1,214 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  UnbalancedPostingError,
+  buildChartOfAccounts,
+  buildTrialBalance,
+  cashSessionPosting,
+  createAccountResolver,
+  expensePosting,
+  finalizePosting,
+  loyaltyRedemptionPosting,
+  loyaltyRedemptionReversalPosting,
+  orderPosting,
+  orderRefundPosting,
+  paymentPosting,
+  subscriptionChargePosting,
+  walletPosting,
+  type LedgerPosting,
+} from "./services/ledger";
+
+function totals(posting: LedgerPosting) {
+  return posting.lines.reduce(
+    (sum, line) => ({ debit: sum.debit + line.debit, credit: sum.credit + line.credit }),
+    { debit: 0, credit: 0 },
+  );
+}
+
+test("orders book a receivable with tax payable and release package deposits", () => {
+  const posting = orderPosting({ orderId: "o-1", orderNumber: "MAIN-0001", total: 115, tax: 15, packageCreditValue: 20 });
+  assert.deepEqual(
+    posting.lines.map((line) => [line.accountKey, line.debit, line.credit]),
+    [
+      ["accounts_receivable", 115, 0],
+      ["revenue", 0, 100],
+      ["tax_payable", 0, 15],
+      ["customer_deposits", 20, 0],
+      ["revenue", 0, 20],
+    ],
+  );
+  assert.equal(posting.memo, "Order MAIN-0001");
+});
+
+test("payments settle by method, including knet, credit cards and package sales", () => {
+  assert.deepEqual(
+    paymentPosting({ paymentId: "p-1", amount: 50, paymentMethod: "knet" }).lines.map((line) => line.accountKey),
+    ["bank_clearing", "accounts_receivable"],
+  );
+  assert.deepEqual(
+    paymentPosting({ paymentId: "p-2", amount: 50, paymentMethod: "credit_card" }).lines.map((line) => line.accountKey),
+    ["bank_clearing", "accounts_receivable"],
+  );
+  const packageSale = paymentPosting({ paymentId: "p-3", amount: 200, paymentMethod: "cash", purpose: "package" });
+  assert.deepEqual(
+    packageSale.lines.map((line) => [line.accountKey, line.debit, line.credit]),
+    [
+      ["cash", 200, 0],
+      ["customer_deposits", 0, 200],
+    ],
+  );
+  const reversal = paymentPosting({ paymentId: "p-4", amount: -10, paymentMethod: "cash" });
+  assert.deepEqual(
+    reversal.lines.map((line) => [line.accountKey, line.debit, line.credit]),
+    [
+      ["cash", 0, 10],
+      ["accounts_receivable", 10, 0],
+    ],
+  );
+});
+
+test("refunds reverse revenue and tax and clear pay-later balances", () => {
+  const posting = orderRefundPosting({
+    refundId: "r-1",
+    kind: "refund",
+    amount: 57.5,
+    balanceCredit: 30,
+    allocations: [{ paymentMethod: "cash", amount: 27.5 }],
+    orderTotal: 115,
+    orderTax: 15,
+    packageCreditValue: 10,
+  });
+  assert.deepEqual(
+    posting.lines.map((line) => [line.accountKey, line.debit, line.credit]),
+    [
+      ["sales_returns", 50, 0],
+      ["tax_payable", 7.5, 0],
+      ["cash", 0, 27.5],
+      ["accounts_receivable", 0, 30],
+      ["sales_returns", 10, 0],
+      ["customer_deposits", 0, 10],
+    ],
+  );
+  const { debit, credit } = totals(posting);
+  assert.equal(debit, credit);
+});
+
+test("redeemed loyalty points settle part of the order receivable", () => {
+  const posting = loyaltyRedemptionPosting({ orderId: "o-1", orderNumber: "MAIN-0001", value: 10 });
+  assert.deepEqual(
+    posting.lines.map((line) => [line.accountKey, line.debit, line.credit]),
+    [
+      ["loyalty_redemptions", 10, 0],
+      ["accounts_receivable", 0, 10],
+    ],
+  );
+  assert.equal(posting.sourceId, "o-1");
+  assert.deepEqual(loyaltyRedemptionPosting({ orderId: "o-2", value: 0 }).lines, []);
+});
+
+test("points returned on a refund reverse the redemption", () => {
+  const refund = orderRefundPosting({
+    refundId: "r-2",
+    kind: "void",
+    amount: 110,
+    balanceCredit: 0,
+    allocations: [{ paymentMethod: "cash", amount: 90 }],
+    orderTotal: 110,
+    orderTax: 10,
+    loyaltyValue: 20,
+  });
+  const { debit, credit } = totals(refund);
+  assert.equal(debit, credit);
+  const reversal = loyaltyRedemptionReversalPosting({ refundId: "r-2", value: 20 });
+  assert.deepEqual(
+    reversal.lines.map((line) => [line.accountKey, line.debit, line.credit]),
+    [
+      ["accounts_receivable", 20, 0],
+      ["loyalty_redemptions", 0, 20],
+    ],
+  );
+});
+
+test("pay-later subscription renewals are owed, not received", () => {
+  const posting = subscriptionChargePosting({ cycleId: "c-1", planName: "Monthly", amount: 25 });
+  assert.deepEqual(
+    posting.lines.map((line) => [line.accountKey, line.debit, line.credit]),
+    [
+      ["accounts_receivable", 25, 0],
+      ["customer_deposits", 0, 25],
+    ],
+  );
+  assert.equal(posting.sourceType, "subscription_cycle");
+  assert.equal(posting.sourceId, "c-1");
+});
+
+test("wallet, expense and cash drawer postings balance", () => {
+  for (const posting of [
+    walletPosting({ transactionId: "w-1", type: "top_up", amount: 40, fundingMethod: "card" }),
+    walletPosting({ transactionId: "w-2", type: "spend", amount: -25 }),
+    walletPosting({ transactionId: "w-3", type: "refund", amount: 5 }),
+    expensePosting({ expenseId: "e-1", category: "Rent", amount: 300, paymentMethod: "bank_transfer" }),
+    cashSessionPosting({ sessionId: "s-1", variance: -3.5 }),
+  ]) {
+    const { debit, credit } = totals(posting);
+    assert.ok(debit > 0);
+    assert.equal(debit, credit);
+  }
+  assert.deepEqual(cashSessionPosting({ sessionId: "s-2", variance: 0 }).lines, []);
+  assert.throws(
+    () =>
+      finalizePosting({
+        sourceType: "manual",
+        sourceId: "m-1",
+        memo: "Broken",
+        lines: [{ accountKey: "cash", debit: 10, credit: 0 }],
+      }),
+    UnbalancedPostingError,
+  );
+});
+
+test("gl mappings re-point chart accounts and expense categories without hashing", () => {
+  const mappings = [
+    { key: "revenue", account: "4100", type: "revenue" },
+    { key: "Rent", account: "6100", type: "expense" },
+  ];
+  const resolve = createAccountResolver(mappings);
+  assert.equal(resolve("revenue").account, "4100");
+  assert.equal(resolve("tax_payable").account, "2400");
+  assert.equal(resolve("expense:Rent").account, "6100");
+  assert.equal(resolve("expense:Snacks").account, "5000");
+
+  const chart = buildChartOfAccounts(mappings);
+  assert.ok(chart.some((account) => account.key === "expense:Rent" && account.account === "6100"));
+  assert.ok(chart.some((account) => account.key === "customer_deposits" && account.type === "liability"));
+});
+
+test("trial balance carries opening balances into the period and ties out", () => {
+  const chart = buildChartOfAccounts([]);
+  const { rows, totals: sums } = buildTrialBalance(
+    [
+      { account: "1100", debit: 115, credit: 0 },
+      { account: "4000", debit: 0, credit: 100 },
+      { account: "2400", debit: 0, credit: 15 },
+    ],
+    [
+      { account: "1000", debit: 115, credit: 0 },
+      { account: "1100", debit: 0, credit: 115 },
+    ],
+    chart,
+  );
+  const receivable = rows.find((row) => row.account === "1100");
+  assert.deepEqual(receivable, {
+    account: "1100",
+    name: "Accounts receivable",
+    type: "asset",
+    openingBalance: 115,
+    debit: 0,
+    credit: 115,
+    closingBalance: 0,
+  });
+  assert.equal(sums.debit, sums.credit);
+  assert.equal(sums.openingBalance, 0);
+  assert.equal(sums.closingBalance, 0);
+});
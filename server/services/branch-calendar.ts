@@ -0,0 +1,49 @@
+import type { OrderLog } from "@shared/schema";
+import { localDateString } from "@shared/capacity";
+import {
+  branchOpenStatus,
+  hasOpeningHours,
+  orderSla,
+  type BranchCalendar,
+  type BranchOpenStatus,
+} from "@shared/branch-hours";
+
+import type { IStorage } from "../storage";
+
+type CalendarStorage = Pick<IStorage, "getBranchCalendar">;
+
+// Null when the branch has neither opening hours nor calendar entries, so callers keep treating every day as open
+export async function loadBranchCalendar(
+  storage: CalendarStorage,
+  branchId: string,
+  from?: string,
+): Promise<BranchCalendar | null> {
+  const calendar = await storage.getBranchCalendar(branchId, from);
+  return calendar.entries.length > 0 || hasOpeningHours(calendar) ? calendar : null;
+}
+
+export async function loadBranchOpenStatus(
+  storage: CalendarStorage,
+  branchId: string,
+  now: Date,
+): Promise<BranchOpenStatus | null> {
+  const calendar = await loadBranchCalendar(storage, branchId, localDateString(now));
+  return hasOpeningHours(calendar) ? branchOpenStatus(calendar, now) : null;
+}
+
+const READY_STATUSES = new Set(["ready", "handed_over", "completed"]);
+
+// Scores each order against its promised date, skipping the days its branch was closed
+export async function withOrderSla(storage: CalendarStorage, logs: OrderLog[], now: Date): Promise<OrderLog[]> {
+  const branchIds = Array.from(new Set(logs.map((log) => log.branchId).filter((id): id is string => !!id)));
+  const calendars = new Map(
+    await Promise.all(branchIds.map(async (id) => [id, await loadBranchCalendar(storage, id)] as const)),
+  );
+  return logs.map((log) => {
+    const promised = log.promisedReadyDate?.slice(0, 10);
+    if (!promised || log.status === "cancelled") return { ...log, sla: null };
+    const readyEvent = log.events.find((event) => event.context === "order" && READY_STATUSES.has(event.status));
+    const readyAt = readyEvent ? new Date(readyEvent.timestamp) : null;
+    return { ...log, sla: orderSla(log.branchId ? calendars.get(log.branchId) : null, promised, readyAt, now) };
+  });
+}
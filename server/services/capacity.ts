@@ -0,0 +1,119 @@
+import type { BranchCapacitySettings } from "@shared/schema";
+import {
+  addDays,
+  checkReadyDate,
+  localDateString,
+  planReadyDates,
+  promisedReadyOptionFor,
+  READY_DATE_HORIZON_DAYS,
+  type BranchCapacityConfig,
+  type CapacityRequestLine,
+  type ReadyDatePlan,
+} from "@shared/capacity";
+import { closedDatesBetween } from "@shared/branch-hours";
+
+import type { IStorage } from "../storage";
+import { loadBranchCalendar } from "./branch-calendar";
+
+type CapacityStorage = Pick<IStorage, "getBranchCapacity" | "getCapacityLoad" | "getBranchCalendar">;
+
+export function toCapacityConfig(settings: BranchCapacitySettings): BranchCapacityConfig {
+  return {
+    cutoffTime: settings.cutoffTime,
+    standardLeadDays: settings.standardLeadDays,
+    expressEnabled: settings.expressEnabled,
+    expressSurchargePercent: Number(settings.expressSurchargePercent) || 0,
+    overbookPolicy: settings.overbookPolicy,
+    closedDates: Array.isArray(settings.closedDates) ? settings.closedDates : [],
+  };
+}
+
+// Null when the branch has not set up capacity planning
+export async function planBranchReadyDates(
+  storage: CapacityStorage,
+  branchId: string,
+  lines: CapacityRequestLine[],
+  now: Date = new Date(),
+): Promise<ReadyDatePlan | null> {
+  const { settings, services } = await storage.getBranchCapacity(branchId);
+  if (!settings) return null;
+  // Load is read one day either side so a late cut-off cannot push the plan past the window
+  const from = addDays(localDateString(now), -1);
+  const to = addDays(from, READY_DATE_HORIZON_DAYS + 3);
+  const [load, calendar] = await Promise.all([
+    storage.getCapacityLoad(branchId, from, to),
+    loadBranchCalendar(storage, branchId, from),
+  ]);
+  const config = toCapacityConfig(settings);
+  // Holidays and non-working weekdays from the branch calendar are never offered as ready dates
+  if (calendar) {
+    config.closedDates = Array.from(new Set([...config.closedDates, ...closedDatesBetween(calendar, from, to)]));
+  }
+  return planReadyDates({ config, capacities: services, load, lines, now });
+}
+
+export type ReadyDateDecision =
+  | {
+      ok: true;
+      promisedReadyDate?: string;
+      promisedReadyOption?: ReturnType<typeof promisedReadyOptionFor>;
+      expressSurchargePercent: number;
+      warning?: string;
+    }
+  | { ok: false; code: string; message: string };
+
+// Turns the cashier's or customer's choice into the date we promise, or explains why we cannot
+export function resolveReadyDate(
+  plan: ReadyDatePlan | null,
+  request: { express?: boolean; requestedDate?: string | null },
+): ReadyDateDecision {
+  if (!plan) {
+    if (request.express) {
+      return { ok: false, code: "EXPRESS_UNAVAILABLE", message: "Express service is not offered at this branch" };
+    }
+    return { ok: true, expressSurchargePercent: 0 };
+  }
+
+  if (request.express) {
+    if (!plan.express) {
+      return { ok: false, code: "EXPRESS_UNAVAILABLE", message: "No express slot is available for this order" };
+    }
+    return {
+      ok: true,
+      promisedReadyDate: plan.express.date,
+      promisedReadyOption: promisedReadyOptionFor(plan.express.date, plan.today),
+      expressSurchargePercent: plan.express.surchargePercent,
+    };
+  }
+
+  const date = request.requestedDate ?? plan.standardDate;
+  if (!date) {
+    return { ok: false, code: "CAPACITY_FULL", message: "No open day has room for this order" };
+  }
+  const verdict = checkReadyDate(plan, date);
+  if (verdict === "too_early") {
+    return {
+      ok: false,
+      code: "READY_DATE_TOO_EARLY",
+      message: `The earliest standard ready date is ${plan.standardDate ?? plan.leadDate}; choose express for sooner`,
+    };
+  }
+  if (verdict === "closed") {
+    return { ok: false, code: "BRANCH_CLOSED", message: `The branch is closed on ${date}` };
+  }
+  let warning: string | undefined;
+  if (verdict === "overbooked") {
+    const message = `${date} is fully booked${plan.standardDate ? `; the next free day is ${plan.standardDate}` : ""}`;
+    if (plan.overbookPolicy === "block") {
+      return { ok: false, code: "CAPACITY_FULL", message };
+    }
+    warning = message;
+  }
+  return {
+    ok: true,
+    promisedReadyDate: date,
+    promisedReadyOption: promisedReadyOptionFor(date, plan.today),
+    expressSurchargePercent: 0,
+    warning,
+  };
+}
@@ -6,14 +6,20 @@ import {
   dataQualityRuns,
   orders,
   payments,
+  type DataQualityException,
+  type DataQualityExceptionStatus,
+  type DataQualityRun,
 } from "@shared/schema";
 import { db } from "../db";
-import { sql, and, eq, isNull, isNotNull } from "drizzle-orm";
+import { sql, and, eq, desc, inArray, isNull, isNotNull } from "drizzle-orm";
 import logger from "../logger";
 
 export type DataQualityCheckName =
   | "referential_integrity"
-  | "order_anomaly_detection";
+  | "order_anomaly_detection"
+  | "payment_overage"
+  | "customer_balance_mismatch"
+  | "negative_package_balance";
 
 export interface DataQualityServiceOptions {
   intervalMinutes?: number;
@@ -27,6 +33,45 @@ interface ReferentialException {
   missingId: string;
 }
 
+interface DetectedException {
+  entityType: string;
+  entityId: string;
+  branchId: string | null;
+  details: object;
+}
+
+export interface DataQualityRunSummary extends DataQualityRun {
+  exceptionCount: number;
+}
+
+export interface DataQualityExceptionFilter {
+  branchId?: string;
+  checkName?: string;
+  status?: DataQualityExceptionStatus;
+  limit: number;
+}
+
+export interface DataQualityCheckSummary {
+  checkName: string;
+  open: number;
+  acknowledged: number;
+  resolved: number;
+  ignored: number;
+}
+
+export interface DataQualityStatusChange {
+  status: DataQualityExceptionStatus;
+  note?: string | null;
+  actorId: string;
+}
+
+export class DataQualityRunInProgressError extends Error {
+  constructor() {
+    super("A data quality run is already in progress");
+    this.name = "DataQualityRunInProgressError";
+  }
+}
+
 interface OrderAnomalyException {
   orderId: string;
   branchId: string;
@@ -38,12 +83,19 @@ interface OrderAnomalyException {
 const DEFAULT_CHECKS: DataQualityCheckName[] = [
   "referential_integrity",
   "order_anomaly_detection",
+  "payment_overage",
+  "customer_balance_mismatch",
+  "negative_package_balance",
 ];
 
+// Statuses that keep a later run from raising the same issue again
+const SUPPRESSING_STATUSES: DataQualityExceptionStatus[] = ["open", "acknowledged", "ignored"];
+
 export class DataQualityService {
   private readonly intervalMs: number;
   private readonly logger: Pick<Logger, "info" | "warn" | "error">;
   private timer: NodeJS.Timeout | null = null;
+  private running = false;
 
   constructor(options: DataQualityServiceOptions = {}) {
     const intervalMinutes = options.intervalMinutes ?? Number(process.env.DATA_QUALITY_INTERVAL_MINUTES ?? 360);
@@ -72,12 +124,29 @@ export class DataQualityService {
     }
   }
 
-  async runAllChecks(): Promise<void> {
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async runAllChecks(options: { triggeredBy?: string } = {}): Promise<string> {
+    if (this.running) {
+      throw new DataQualityRunInProgressError();
+    }
+    this.running = true;
+    try {
+      return await this.executeRun(options.triggeredBy ?? null);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async executeRun(triggeredBy: string | null): Promise<string> {
     const [run] = await db
       .insert(dataQualityRuns)
       .values({
         status: "running",
         checkTypes: JSON.stringify(DEFAULT_CHECKS),
+        triggeredBy,
       })
       .returning({ id: dataQualityRuns.id });
 
@@ -86,6 +155,9 @@ export class DataQualityService {
     try {
       await this.runReferentialIntegrityCheck(runId);
       await this.runOrderAnomalyCheck(runId);
+      await this.runPaymentOverageCheck(runId);
+      await this.runCustomerBalanceCheck(runId);
+      await this.runNegativePackageBalanceCheck(runId);
       await db
         .update(dataQualityRuns)
         .set({
@@ -94,6 +166,7 @@ export class DataQualityService {
         })
         .where(eq(dataQualityRuns.id, runId));
       this.logger.info({ runId }, "Completed data quality checks");
+      return runId;
     } catch (error) {
       await db
         .update(dataQualityRuns)
@@ -109,26 +182,27 @@ export class DataQualityService {
 
   private async runReferentialIntegrityCheck(runId: string): Promise<void> {
     const orphanOrders = await db
-      .select({ orderId: orders.id, customerId: orders.customerId })
+      .select({ orderId: orders.id, customerId: orders.customerId, branchId: orders.branchId })
       .from(orders)
       .leftJoin(customers, eq(orders.customerId, customers.id))
       .where(and(isNotNull(orders.customerId), isNull(customers.id)))
       .limit(200);
 
     const orphanPayments = await db
-      .select({ paymentId: payments.id, orderId: payments.orderId })
+      .select({ paymentId: payments.id, orderId: payments.orderId, branchId: payments.branchId })
       .from(payments)
       .leftJoin(orders, eq(payments.orderId, orders.id))
       .where(and(isNotNull(payments.orderId), isNull(orders.id)))
       .limit(200);
 
-    const exceptions: ReferentialException[] = [];
+    const exceptions: (ReferentialException & { branchId: string | null })[] = [];
 
     for (const orphan of orphanOrders) {
       if (!orphan.orderId || !orphan.customerId) continue;
       exceptions.push({
         entityType: "order",
         entityId: orphan.orderId,
+        branchId: orphan.branchId,
         referenceField: "customer_id",
         missingId: orphan.customerId,
       });
@@ -139,27 +213,26 @@ export class DataQualityService {
       exceptions.push({
         entityType: "payment",
         entityId: orphan.paymentId,
+        branchId: orphan.branchId,
         referenceField: "order_id",
         missingId: orphan.orderId,
       });
     }
 
-    for (const exception of exceptions) {
-      await db.insert(dataQualityExceptions).values({
-        runId,
-        checkName: "referential_integrity",
-        severity: "critical",
-        entityType: exception.entityType,
-        entityId: exception.entityId,
-        details: {
-          referenceField: exception.referenceField,
-          missingId: exception.missingId,
-        },
-      });
-    }
+    const recorded = await this.recordExceptions(
+      runId,
+      "referential_integrity",
+      "critical",
+      exceptions.map(({ entityType, entityId, branchId, referenceField, missingId }) => ({
+        entityType,
+        entityId,
+        branchId,
+        details: { referenceField, missingId },
+      })),
+    );
 
-    if (exceptions.length) {
-      this.logger.warn({ runId, count: exceptions.length }, "Referential integrity issues detected");
+    if (recorded) {
+      this.logger.warn({ runId, count: recorded }, "Referential integrity issues detected");
     }
   }
 
@@ -205,25 +278,318 @@ export class DataQualityService {
       return;
     }
 
-    for (const row of rows) {
-      const details: OrderAnomalyException = {
-        orderId: String(row.order_id),
-        branchId: String(row.branch_id ?? ""),
-        observedTotal: Number(row.total ?? 0),
-        expectedAverage: Number(row.avg_total ?? 0),
-        stddev: Number(row.std_total ?? 0),
-      };
+    const recorded = await this.recordExceptions(
+      runId,
+      "order_anomaly_detection",
+      "medium",
+      rows.map((row) => {
+        const details: OrderAnomalyException = {
+          orderId: String(row.order_id),
+          branchId: String(row.branch_id ?? ""),
+          observedTotal: Number(row.total ?? 0),
+          expectedAverage: Number(row.avg_total ?? 0),
+          stddev: Number(row.std_total ?? 0),
+        };
+        return { entityType: "order", entityId: details.orderId, branchId: details.branchId || null, details };
+      }),
+    );
 
-      await db.insert(dataQualityExceptions).values({
-        runId,
-        checkName: "order_anomaly_detection",
-        severity: "medium",
+    if (recorded) {
+      this.logger.warn({ runId, count: recorded }, "Order anomalies detected");
+    }
+  }
+
+  // Net payments (refunds are negative rows) should never exceed what the order charged
+  private async runPaymentOverageCheck(runId: string): Promise<void> {
+    const { rows } = await db.execute(sql`
+      SELECT o.id AS order_id, o.branch_id, o.total, SUM(p.amount) AS paid
+      FROM orders o
+      JOIN payments p ON p.order_id = o.id
+      GROUP BY o.id, o.branch_id, o.total
+      HAVING SUM(p.amount) > o.total + 0.009
+      ORDER BY o.created_at DESC
+      LIMIT 200
+    `);
+
+    const recorded = await this.recordExceptions(
+      runId,
+      "payment_overage",
+      "high",
+      rows.map((row) => ({
         entityType: "order",
-        entityId: details.orderId,
-        details,
-      });
+        entityId: String(row.order_id),
+        branchId: row.branch_id ? String(row.branch_id) : null,
+        details: {
+          total: Number(row.total ?? 0),
+          paid: Number(row.paid ?? 0),
+          overpaid: Math.round((Number(row.paid ?? 0) - Number(row.total ?? 0)) * 100) / 100,
+        },
+      })),
+    );
+
+    if (recorded) {
+      this.logger.warn({ runId, count: recorded }, "Orders paid beyond their total detected");
+    }
+  }
+
+  // balance_due is maintained incrementally; it should match what the customer still owes:
+  // open pay-later, wallet and offline orders, pay-later subscription renewals, less paydowns
+  // made without an order and delivery compensation credited to the balance.
+  private async runCustomerBalanceCheck(runId: string): Promise<void> {
+    const { rows } = await db.execute(sql`
+      WITH paid AS (
+        SELECT order_id, SUM(amount) AS amount
+        FROM payments
+        WHERE order_id IS NOT NULL AND refund_id IS NULL
+        GROUP BY order_id
+      ), redeemed AS (
+        SELECT je.source_id AS order_id, SUM(jl.credit) AS amount
+        FROM journal_entries je
+        JOIN journal_lines jl ON jl.entry_id = je.id
+        WHERE je.source_type = 'loyalty_redemption' AND jl.account_key = 'accounts_receivable'
+        GROUP BY je.source_id
+      ), credited AS (
+        SELECT order_id, SUM(balance_credit) AS amount
+        FROM order_refunds
+        WHERE status = 'completed'
+        GROUP BY order_id
+      ), open_orders AS (
+        SELECT o.customer_id,
+          SUM(GREATEST(
+            o.total - COALESCE(paid.amount, 0) - COALESCE(redeemed.amount, 0) - COALESCE(credited.amount, 0),
+            0
+          )) AS amount
+        FROM orders o
+        LEFT JOIN paid ON paid.order_id = o.id
+        LEFT JOIN redeemed ON redeemed.order_id = o.id::text
+        LEFT JOIN credited ON credited.order_id = o.id
+        WHERE (o.payment_method IN ('pay_later', 'wallet') OR o.offline_id IS NOT NULL)
+          AND o.customer_id IS NOT NULL
+        GROUP BY o.customer_id
+      ), subscription_charges AS (
+        SELECT cs.customer_id, SUM(sc.amount) AS amount
+        FROM subscription_cycles sc
+        JOIN customer_subscriptions cs ON cs.id = sc.subscription_id
+        WHERE sc.billing_method = 'pay_later'
+        GROUP BY cs.customer_id
+      ), paydowns AS (
+        -- Package and card-subscription sales settle customer deposits, not the balance
+        SELECT p.customer_id, SUM(p.amount) AS amount
+        FROM payments p
+        WHERE p.order_id IS NULL
+          AND p.refund_id IS NULL
+          AND COALESCE(p.notes, '') NOT LIKE 'Package purchase:%'
+          AND NOT EXISTS (
+            SELECT 1
+            FROM journal_entries je
+            JOIN journal_lines jl ON jl.entry_id = je.id
+            WHERE je.source_type = 'payment'
+              AND je.source_id = p.id::text
+              AND jl.account_key = 'customer_deposits'
+          )
+        GROUP BY p.customer_id
+      ), compensations AS (
+        SELECT customer_id, SUM(amount) AS amount
+        FROM delivery_compensations
+        WHERE method = 'balance_credit' AND status = 'applied' AND customer_id IS NOT NULL
+        GROUP BY customer_id
+      ), expected AS (
+        SELECT c.id AS customer_id,
+          COALESCE(oo.amount, 0) AS open_orders,
+          COALESCE(sub.amount, 0) AS subscriptions,
+          COALESCE(pd.amount, 0) AS paydowns,
+          COALESCE(comp.amount, 0) AS compensations,
+          COALESCE(oo.amount, 0) + COALESCE(sub.amount, 0) - COALESCE(pd.amount, 0) - COALESCE(comp.amount, 0) AS outstanding
+        FROM customers c
+        LEFT JOIN open_orders oo ON oo.customer_id = c.id
+        LEFT JOIN subscription_charges sub ON sub.customer_id = c.id
+        LEFT JOIN paydowns pd ON pd.customer_id = c.id
+        LEFT JOIN compensations comp ON comp.customer_id = c.id
+      )
+      SELECT c.id AS customer_id, c.branch_id, c.balance_due, e.open_orders, e.subscriptions,
+        e.paydowns, e.compensations, e.outstanding
+      FROM customers c
+      JOIN expected e ON e.customer_id = c.id
+      WHERE ABS(c.balance_due - e.outstanding) > 0.009
+      LIMIT 200
+    `);
+
+    const recorded = await this.recordExceptions(
+      runId,
+      "customer_balance_mismatch",
+      "medium",
+      rows.map((row) => ({
+        entityType: "customer",
+        entityId: String(row.customer_id),
+        branchId: row.branch_id ? String(row.branch_id) : null,
+        details: {
+          balanceDue: Number(row.balance_due ?? 0),
+          expected: Number(row.outstanding ?? 0),
+          openOrders: Number(row.open_orders ?? 0),
+          subscriptionCharges: Number(row.subscriptions ?? 0),
+          paydowns: Number(row.paydowns ?? 0),
+          compensationCredits: Number(row.compensations ?? 0),
+          difference: Math.round((Number(row.balance_due ?? 0) - Number(row.outstanding ?? 0)) * 100) / 100,
+        },
+      })),
+    );
+
+    if (recorded) {
+      this.logger.warn({ runId, count: recorded }, "Customer balance mismatches detected");
     }
+  }
+
+  private async runNegativePackageBalanceCheck(runId: string): Promise<void> {
+    const { rows } = await db.execute(sql`
+      SELECT 'customer_package' AS entity_type, cp.id AS entity_id, cp.customer_id, c.branch_id,
+        cp.balance, NULL::uuid AS service_id, NULL::uuid AS clothing_item_id
+      FROM customer_packages cp
+      JOIN customers c ON c.id = cp.customer_id
+      WHERE cp.balance < 0
+      UNION ALL
+      SELECT 'customer_package_item', cpi.id, cp.customer_id, c.branch_id,
+        cpi.balance, cpi.service_id, cpi.clothing_item_id
+      FROM customer_package_items cpi
+      JOIN customer_packages cp ON cp.id = cpi.customer_package_id
+      JOIN customers c ON c.id = cp.customer_id
+      WHERE cpi.balance < 0
+      LIMIT 200
+    `);
+
+    const recorded = await this.recordExceptions(
+      runId,
+      "negative_package_balance",
+      "high",
+      rows.map((row) => ({
+        entityType: String(row.entity_type),
+        entityId: String(row.entity_id),
+        branchId: row.branch_id ? String(row.branch_id) : null,
+        details: {
+          customerId: String(row.customer_id),
+          balance: Number(row.balance ?? 0),
+          serviceId: row.service_id ? String(row.service_id) : null,
+          clothingItemId: row.clothing_item_id ? String(row.clothing_item_id) : null,
+        },
+      })),
+    );
+
+    if (recorded) {
+      this.logger.warn({ runId, count: recorded }, "Negative package balances detected");
+    }
+  }
 
-    this.logger.warn({ runId, count: rows.length }, "Order anomalies detected");
+  // Skips entities that already have an unresolved (or ignored) exception for the same check
+  private async recordExceptions(
+    runId: string,
+    checkName: DataQualityCheckName,
+    severity: string,
+    detected: DetectedException[],
+  ): Promise<number> {
+    if (!detected.length) return 0;
+    const existing = await db
+      .select({ entityType: dataQualityExceptions.entityType, entityId: dataQualityExceptions.entityId })
+      .from(dataQualityExceptions)
+      .where(
+        and(
+          eq(dataQualityExceptions.checkName, checkName),
+          inArray(dataQualityExceptions.status, SUPPRESSING_STATUSES),
+          inArray(
+            dataQualityExceptions.entityId,
+            detected.map((exception) => exception.entityId),
+          ),
+        ),
+      );
+    const known = new Set(existing.map((row) => `${row.entityType}:${row.entityId}`));
+    const fresh = detected.filter((exception) => !known.has(`${exception.entityType}:${exception.entityId}`));
+    if (!fresh.length) return 0;
+    await db.insert(dataQualityExceptions).values(
+      fresh.map((exception) => ({
+        runId,
+        checkName,
+        severity,
+        entityType: exception.entityType,
+        entityId: exception.entityId,
+        branchId: exception.branchId,
+        details: exception.details,
+      })),
+    );
+    return fresh.length;
+  }
+
+  async listRuns(limit: number): Promise<DataQualityRunSummary[]> {
+    const rows = await db
+      .select({
+        run: dataQualityRuns,
+        exceptionCount: sql<number>`(
+          SELECT COUNT(*)::int FROM ${dataQualityExceptions}
+          WHERE ${dataQualityExceptions.runId} = ${dataQualityRuns.id}
+        )`,
+      })
+      .from(dataQualityRuns)
+      .orderBy(desc(dataQualityRuns.startedAt))
+      .limit(limit);
+    return rows.map(({ run, exceptionCount }) => ({ ...run, exceptionCount: Number(exceptionCount ?? 0) }));
+  }
+
+  async listExceptions(filter: DataQualityExceptionFilter): Promise<DataQualityException[]> {
+    const conditions = [
+      filter.branchId ? eq(dataQualityExceptions.branchId, filter.branchId) : undefined,
+      filter.checkName ? eq(dataQualityExceptions.checkName, filter.checkName) : undefined,
+      filter.status ? eq(dataQualityExceptions.status, filter.status) : undefined,
+    ].filter((condition): condition is NonNullable<typeof condition> => Boolean(condition));
+    return db
+      .select()
+      .from(dataQualityExceptions)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(dataQualityExceptions.detectedAt), desc(dataQualityExceptions.id))
+      .limit(filter.limit);
+  }
+
+  async summarizeExceptions(branchId?: string): Promise<DataQualityCheckSummary[]> {
+    const rows = await db
+      .select({
+        checkName: dataQualityExceptions.checkName,
+        status: dataQualityExceptions.status,
+        count: sql<number>`COUNT(*)::int`,
+      })
+      .from(dataQualityExceptions)
+      .where(branchId ? eq(dataQualityExceptions.branchId, branchId) : undefined)
+      .groupBy(dataQualityExceptions.checkName, dataQualityExceptions.status);
+
+    const byCheck = new Map<string, DataQualityCheckSummary>(
+      DEFAULT_CHECKS.map((checkName) => [checkName, { checkName, open: 0, acknowledged: 0, resolved: 0, ignored: 0 }]),
+    );
+    for (const row of rows) {
+      const summary = byCheck.get(row.checkName) ?? {
+        checkName: row.checkName,
+        open: 0,
+        acknowledged: 0,
+        resolved: 0,
+        ignored: 0,
+      };
+      summary[row.status] += Number(row.count ?? 0);
+      byCheck.set(row.checkName, summary);
+    }
+    return Array.from(byCheck.values());
+  }
+
+  async getException(id: string): Promise<DataQualityException | undefined> {
+    const [row] = await db.select().from(dataQualityExceptions).where(eq(dataQualityExceptions.id, id));
+    return row;
+  }
+
+  async updateExceptionStatus(id: string, change: DataQualityStatusChange): Promise<DataQualityException | undefined> {
+    const closing = change.status === "resolved" || change.status === "ignored";
+    const [row] = await db
+      .update(dataQualityExceptions)
+      .set({
+        status: change.status,
+        resolutionNote: change.note ?? null,
+        resolvedBy: closing ? change.actorId : null,
+        resolvedAt: closing ? new Date() : null,
+      })
+      .where(eq(dataQualityExceptions.id, id))
+      .returning();
+    return row;
   }
 }
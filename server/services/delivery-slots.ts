@@ -0,0 +1,110 @@
+import { addDays, localDateString } from "@shared/capacity";
+import {
+  deliverySlotKindEnum,
+  slotAvailability,
+  slotOccurrences,
+  type DeliverySlotAvailability,
+  type DeliverySlotChoice,
+  type DeliverySlotKind,
+} from "@shared/delivery-slots";
+
+import type { IStorage } from "../storage";
+import { loadBranchCalendar } from "./branch-calendar";
+
+type SlotStorage = Pick<
+  IStorage,
+  "getDeliverySlots" | "getDeliverySlotLoad" | "getBranchCalendar" | "reserveDeliverySlot" | "releaseDeliverySlotBookings"
+>;
+
+export const SLOT_HORIZON_DAYS = 14;
+
+export interface SlotAvailabilityResult {
+  // Kinds the branch has active slots for; the others stay free-form
+  kinds: DeliverySlotKind[];
+  slots: DeliverySlotAvailability[];
+}
+
+export async function listSlotAvailability(
+  storage: Pick<SlotStorage, "getDeliverySlots" | "getDeliverySlotLoad" | "getBranchCalendar">,
+  branchId: string,
+  { from, days = SLOT_HORIZON_DAYS, cityId = null }: { from: Date; days?: number; cityId?: string | null },
+): Promise<SlotAvailabilityResult> {
+  const templates = (await storage.getDeliverySlots(branchId)).filter((slot) => slot.isActive);
+  const kinds = deliverySlotKindEnum.filter((kind) => templates.some((slot) => slot.kind === kind));
+  if (!kinds.length) return { kinds, slots: [] };
+  const firstDate = localDateString(from);
+  const [calendar, load] = await Promise.all([
+    loadBranchCalendar(storage, branchId, firstDate),
+    storage.getDeliverySlotLoad(branchId, firstDate, addDays(firstDate, days)),
+  ]);
+  return {
+    kinds,
+    slots: slotOccurrences(templates, calendar, from, days).map((occurrence) => slotAvailability(occurrence, load, cityId)),
+  };
+}
+
+export type SlotHold =
+  | {
+      ok: true;
+      bookingIds: string[];
+      scheduled: Partial<Record<DeliverySlotKind, { start: Date; end: Date }>>;
+    }
+  | { ok: false; status: 400 | 409; code: string; message: string };
+
+// Reserves one slot per kind the branch offers; nothing stays held when any of them fails
+export async function holdDeliverySlots(
+  storage: SlotStorage,
+  branchId: string,
+  {
+    choices,
+    cityId,
+    now,
+    orderId = null,
+    deliveryId = null,
+    kinds: onlyKinds,
+  }: {
+    choices: Partial<Record<DeliverySlotKind, DeliverySlotChoice | undefined>>;
+    cityId: string | null;
+    now: Date;
+    // Set when rebooking an existing delivery; new orders attach their bookings once created
+    orderId?: string | null;
+    deliveryId?: string | null;
+    kinds?: DeliverySlotKind[];
+  },
+): Promise<SlotHold> {
+  const { kinds, slots } = await listSlotAvailability(storage, branchId, { from: now, cityId });
+  const bookingIds: string[] = [];
+  const scheduled: Partial<Record<DeliverySlotKind, { start: Date; end: Date }>> = {};
+  const fail = async (status: 400 | 409, code: string, message: string): Promise<SlotHold> => {
+    await storage.releaseDeliverySlotBookings(bookingIds);
+    return { ok: false, status, code, message };
+  };
+
+  for (const kind of kinds.filter((kind) => !onlyKinds || onlyKinds.includes(kind))) {
+    const choice = choices[kind];
+    if (!choice) {
+      return fail(400, "SLOT_REQUIRED", `Choose a ${kind} slot`);
+    }
+    const offered = slots.find(
+      (slot) => slot.kind === kind && slot.slotId === choice.slotId && slot.date === choice.date,
+    );
+    if (!offered) {
+      return fail(400, "SLOT_UNAVAILABLE", `That ${kind} slot is not offered`);
+    }
+    const reservation = await storage.reserveDeliverySlot({
+      slotId: choice.slotId,
+      slotDate: choice.date,
+      cityId,
+      orderId,
+      deliveryId,
+    });
+    if (!reservation.ok) {
+      return reservation.reason === "unavailable"
+        ? fail(400, "SLOT_UNAVAILABLE", `That ${kind} slot is not offered`)
+        : fail(409, "SLOT_FULL", `The ${offered.label} ${kind} slot is fully booked`);
+    }
+    bookingIds.push(reservation.booking.id);
+    scheduled[kind] = { start: new Date(offered.start), end: new Date(offered.end) };
+  }
+  return { ok: true, bookingIds, scheduled };
+}
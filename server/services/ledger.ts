@@ -0,0 +1,410 @@
+import type { TrialBalanceRow } from "@shared/schema";
+
+export type LedgerAccountType = "asset" | "liability" | "revenue" | "expense";
+
+export interface LedgerAccount {
+  account: string;
+  name: string;
+  type: LedgerAccountType;
+}
+
+// Default chart of accounts. Each key can be re-pointed per branch through gl_mappings
+// (key = chart key); expense categories map the same way with key = category name.
+export const CHART_OF_ACCOUNTS = {
+  cash: { account: "1000", name: "Cash on hand", type: "asset" },
+  bank_clearing: { account: "1010", name: "Card and bank clearing", type: "asset" },
+  accounts_receivable: { account: "1100", name: "Accounts receivable", type: "asset" },
+  wallet_liability: { account: "2100", name: "Customer wallet balances", type: "liability" },
+  coupon_liability: { account: "2200", name: "Coupons issued", type: "liability" },
+  customer_deposits: { account: "2300", name: "Customer package deposits", type: "liability" },
+  tax_payable: { account: "2400", name: "Tax payable", type: "liability" },
+  revenue: { account: "4000", name: "Laundry revenue", type: "revenue" },
+  sales_returns: { account: "4010", name: "Sales returns", type: "revenue" },
+  expenses_default: { account: "5000", name: "Operating expenses", type: "expense" },
+  loyalty_redemptions: { account: "5800", name: "Loyalty redemptions", type: "expense" },
+  delivery_compensation: { account: "5900", name: "Delivery compensation", type: "expense" },
+  cash_over_short: { account: "5950", name: "Cash over and short", type: "expense" },
+} satisfies Record<string, LedgerAccount>;
+
+export type ChartAccountKey = keyof typeof CHART_OF_ACCOUNTS;
+export type LedgerAccountKey = ChartAccountKey | `expense:${string}`;
+
+export interface LedgerLine {
+  accountKey: LedgerAccountKey;
+  debit: number;
+  credit: number;
+  memo?: string;
+}
+
+export interface LedgerPosting {
+  sourceType: string;
+  sourceId: string;
+  memo: string;
+  lines: LedgerLine[];
+}
+
+export interface GlMappingLike {
+  key: string;
+  account: string;
+  type?: string | null;
+}
+
+export class UnbalancedPostingError extends Error {
+  constructor(public readonly posting: LedgerPosting) {
+    super(`Journal entry for ${posting.sourceType} ${posting.sourceId} does not balance`);
+    this.name = "UnbalancedPostingError";
+  }
+}
+
+export class ClosedPeriodError extends Error {
+  constructor(public readonly postedAt: Date) {
+    super(`Accounting period covering ${postedAt.toISOString().slice(0, 10)} is closed`);
+    this.name = "ClosedPeriodError";
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function isChartKey(key: string): key is ChartAccountKey {
+  return Object.prototype.hasOwnProperty.call(CHART_OF_ACCOUNTS, key);
+}
+
+export function paymentAccountKey(method: string | null | undefined): LedgerAccountKey {
+  switch (method) {
+    case "cash":
+      return "cash";
+    case "wallet":
+      return "wallet_liability";
+    case "pay_later":
+      return "accounts_receivable";
+    default:
+      // card, knet, credit_card and bank transfers all settle through the bank
+      return "bank_clearing";
+  }
+}
+
+export function expenseAccountKey(category: string): LedgerAccountKey {
+  return `expense:${category}`;
+}
+
+export function createAccountResolver(mappings: GlMappingLike[]) {
+  const byKey = new Map(mappings.map((mapping) => [mapping.key, mapping]));
+  return (key: LedgerAccountKey): LedgerAccount => {
+    if (key.startsWith("expense:")) {
+      const category = key.slice("expense:".length);
+      const mapping = byKey.get(category);
+      if (mapping && (mapping.type ?? "expense") === "expense" && !isChartKey(category)) {
+        return { account: mapping.account, name: category, type: "expense" };
+      }
+      const fallback = byKey.get("expenses_default")?.account ?? CHART_OF_ACCOUNTS.expenses_default.account;
+      return { account: fallback, name: CHART_OF_ACCOUNTS.expenses_default.name, type: "expense" };
+    }
+    const base = CHART_OF_ACCOUNTS[key as ChartAccountKey];
+    return { ...base, account: byKey.get(key)?.account ?? base.account };
+  };
+}
+
+// Chart of accounts for a branch with its gl_mappings applied; mapped expense categories
+// are listed as their own accounts.
+export function buildChartOfAccounts(mappings: GlMappingLike[]) {
+  const resolve = createAccountResolver(mappings);
+  const chart: Array<LedgerAccount & { key: string }> = (Object.keys(CHART_OF_ACCOUNTS) as ChartAccountKey[]).map(
+    (key) => ({ key, ...resolve(key) }),
+  );
+  for (const mapping of mappings) {
+    if (isChartKey(mapping.key) || (mapping.type ?? "expense") !== "expense") continue;
+    const key = expenseAccountKey(mapping.key);
+    chart.push({ key, ...resolve(key) });
+  }
+  return chart;
+}
+
+function line(accountKey: LedgerAccountKey, debit: number, credit: number, memo?: string): LedgerLine {
+  return { accountKey, debit: round2(debit), credit: round2(credit), memo };
+}
+
+// Drops zero lines and rejects postings whose debits and credits do not match to the cent.
+export function finalizePosting(posting: LedgerPosting): LedgerPosting {
+  const lines = posting.lines.filter((entry) => entry.debit > 0 || entry.credit > 0);
+  const debits = round2(lines.reduce((sum, entry) => sum + entry.debit, 0));
+  const credits = round2(lines.reduce((sum, entry) => sum + entry.credit, 0));
+  if (Math.abs(debits - credits) > 0.001) {
+    throw new UnbalancedPostingError(posting);
+  }
+  return { ...posting, lines };
+}
+
+export interface OrderPostingInput {
+  orderId: string;
+  orderNumber?: string | null;
+  total: number;
+  tax: number;
+  packageCreditValue?: number;
+}
+
+// The sale is receivable until paid: revenue net of tax, tax as a liability. Package
+// credits used on the order release the deposit taken when the package was sold.
+export function orderPosting(input: OrderPostingInput): LedgerPosting {
+  const label = input.orderNumber || input.orderId;
+  const tax = Math.min(Math.max(input.tax, 0), input.total);
+  const deposit = input.packageCreditValue ?? 0;
+  return finalizePosting({
+    sourceType: "order",
+    sourceId: input.orderId,
+    memo: `Order ${label}`,
+    lines: [
+      line("accounts_receivable", input.total, 0),
+      line("revenue", 0, input.total - tax),
+      line("tax_payable", 0, tax),
+      line("customer_deposits", deposit, 0, "Package credits used"),
+      line("revenue", 0, deposit, "Package credits used"),
+    ],
+  });
+}
+
+export type PaymentPurpose = "order" | "package";
+
+export interface PaymentPostingInput {
+  paymentId: string;
+  amount: number;
+  paymentMethod: string;
+  purpose?: PaymentPurpose;
+}
+
+// Money received settles the receivable (or, for package sales, becomes a deposit until the
+// credits are used). Negative payments reverse the same lines.
+export function paymentPosting(input: PaymentPostingInput): LedgerPosting {
+  const settles: LedgerAccountKey = input.purpose === "package" ? "customer_deposits" : "accounts_receivable";
+  const received = Math.max(input.amount, 0);
+  const returned = Math.max(-input.amount, 0);
+  return finalizePosting({
+    sourceType: "payment",
+    sourceId: input.paymentId,
+    memo: input.purpose === "package" ? "Package sale" : `Payment (${input.paymentMethod})`,
+    lines: [
+      line(paymentAccountKey(input.paymentMethod), received, returned),
+      line(settles, returned, received),
+    ],
+  });
+}
+
+export interface WalletPostingInput {
+  transactionId: string;
+  type: "top_up" | "spend" | "refund";
+  amount: number;
+  fundingMethod?: string | null;
+}
+
+export function walletPosting(input: WalletPostingInput): LedgerPosting {
+  const amount = Math.abs(input.amount);
+  const lines =
+    input.type === "top_up"
+      ? [line(paymentAccountKey(input.fundingMethod ?? "cash"), amount, 0), line("wallet_liability", 0, amount)]
+      : input.type === "spend"
+        ? [line("wallet_liability", amount, 0), line("accounts_receivable", 0, amount)]
+        : [line("sales_returns", amount, 0), line("wallet_liability", 0, amount)];
+  return finalizePosting({
+    sourceType: "wallet_transaction",
+    sourceId: input.transactionId,
+    memo: `Wallet ${input.type.replace("_", " ")}`,
+    lines,
+  });
+}
+
+export interface RefundPostingInput {
+  refundId: string;
+  kind: "refund" | "void";
+  amount: number;
+  balanceCredit: number;
+  allocations: { paymentMethod: string; amount: number }[];
+  orderTotal: number;
+  orderTax: number;
+  packageCreditValue?: number;
+  // Redeemed points handed back; see loyaltyRedemptionReversalPosting
+  loyaltyValue?: number;
+}
+
+// Reverses the sale proportionally (revenue and tax), paying back through each allocation
+// and writing off the pay-later balance that was cleared.
+export function orderRefundPosting(input: RefundPostingInput): LedgerPosting {
+  const taxShare = input.orderTotal > 0 ? Math.min(Math.max(input.orderTax, 0), input.orderTotal) / input.orderTotal : 0;
+  const tax = round2(input.amount * taxShare);
+  const deposit = input.packageCreditValue ?? 0;
+  return finalizePosting({
+    sourceType: "order_refund",
+    sourceId: input.refundId,
+    memo: input.kind === "void" ? "Order void" : "Order refund",
+    lines: [
+      line("sales_returns", input.amount - tax, 0),
+      line("tax_payable", tax, 0),
+      ...input.allocations.map((allocation) =>
+        line(paymentAccountKey(allocation.paymentMethod), 0, allocation.amount, `Paid back (${allocation.paymentMethod})`),
+      ),
+      line("accounts_receivable", 0, input.balanceCredit, "Pay-later balance cleared"),
+      line("accounts_receivable", 0, input.loyaltyValue ?? 0, "Redeemed points returned"),
+      line("sales_returns", deposit, 0, "Package credits restored"),
+      line("customer_deposits", 0, deposit, "Package credits restored"),
+    ],
+  });
+}
+
+export interface ExpensePostingInput {
+  expenseId: string;
+  category: string;
+  amount: number;
+  paymentMethod?: string | null;
+}
+
+export function expensePosting(input: ExpensePostingInput): LedgerPosting {
+  return finalizePosting({
+    sourceType: "expense",
+    sourceId: input.expenseId,
+    memo: `Expense: ${input.category}`,
+    lines: [
+      line(expenseAccountKey(input.category), input.amount, 0),
+      line(paymentAccountKey(input.paymentMethod ?? "cash"), 0, input.amount),
+    ],
+  });
+}
+
+// Counted cash above expectation is a gain, below it a loss; both land in cash over/short.
+export function cashSessionPosting(input: { sessionId: string; variance: number }): LedgerPosting {
+  const over = Math.max(input.variance, 0);
+  const short = Math.max(-input.variance, 0);
+  return finalizePosting({
+    sourceType: "cash_session",
+    sourceId: input.sessionId,
+    memo: "Cash drawer close",
+    lines: [
+      line("cash", over, short),
+      line("cash_over_short", short, over),
+    ],
+  });
+}
+
+export function deliveryCompensationPosting(input: {
+  compensationId: string;
+  amount: number;
+  method: string;
+}): LedgerPosting {
+  const credit: LedgerAccountKey = input.method === "coupon" ? "coupon_liability" : "accounts_receivable";
+  return finalizePosting({
+    sourceType: "delivery_compensation",
+    sourceId: input.compensationId,
+    memo: input.method === "coupon" ? "Delivery compensation: coupon issued" : "Delivery compensation: balance credit",
+    lines: [line("delivery_compensation", input.amount, 0), line(credit, 0, input.amount)],
+  });
+}
+
+// Points redeemed on an order pay part of its receivable; the business carries the cost.
+export function loyaltyRedemptionPosting(input: {
+  orderId: string;
+  orderNumber?: string | null;
+  value: number;
+}): LedgerPosting {
+  return finalizePosting({
+    sourceType: "loyalty_redemption",
+    sourceId: input.orderId,
+    memo: `Loyalty points redeemed on order ${input.orderNumber || input.orderId}`,
+    lines: [line("loyalty_redemptions", input.value, 0), line("accounts_receivable", 0, input.value)],
+  });
+}
+
+// A pay-later subscription renewal is owed by the customer until they pay it down.
+export function subscriptionChargePosting(input: { cycleId: string; planName: string; amount: number }): LedgerPosting {
+  return finalizePosting({
+    sourceType: "subscription_cycle",
+    sourceId: input.cycleId,
+    memo: `Subscription ${input.planName} charged to account`,
+    lines: [line("accounts_receivable", input.amount, 0), line("customer_deposits", 0, input.amount)],
+  });
+}
+
+// Undoes a redemption when a refund gives the points back instead of money.
+export function loyaltyRedemptionReversalPosting(input: {
+  refundId: string;
+  orderNumber?: string | null;
+  value: number;
+}): LedgerPosting {
+  return finalizePosting({
+    sourceType: "loyalty_redemption_reversal",
+    sourceId: input.refundId,
+    memo: `Loyalty points returned on refund of order ${input.orderNumber || input.refundId}`,
+    lines: [line("accounts_receivable", input.value, 0), line("loyalty_redemptions", 0, input.value)],
+  });
+}
+
+export interface LedgerActivity {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  rows: TrialBalanceRow[];
+  totals: { debit: number; credit: number; openingBalance: number; closingBalance: number };
+}
+
+function accountType(code: string, chart: { account: string; type: LedgerAccountType }[]): LedgerAccountType {
+  const known = chart.find((entry) => entry.account === code);
+  if (known) return known.type;
+  switch (code[0]) {
+    case "1":
+      return "asset";
+    case "2":
+      return "liability";
+    case "4":
+      return "revenue";
+    default:
+      return "expense";
+  }
+}
+
+// Balances are signed debit-positive, so assets and expenses show positive and liabilities
+// and revenue negative; every column sums to zero when the books balance.
+export function buildTrialBalance(
+  opening: LedgerActivity[],
+  period: LedgerActivity[],
+  chart: { account: string; name: string; type: LedgerAccountType }[],
+): TrialBalance {
+  const rows = new Map<string, TrialBalanceRow>();
+  const rowFor = (code: string) => {
+    let row = rows.get(code);
+    if (!row) {
+      const known = chart.find((entry) => entry.account === code);
+      row = {
+        account: code,
+        name: known?.name ?? code,
+        type: accountType(code, chart),
+        openingBalance: 0,
+        debit: 0,
+        credit: 0,
+        closingBalance: 0,
+      };
+      rows.set(code, row);
+    }
+    return row;
+  };
+  for (const activity of opening) {
+    const row = rowFor(activity.account);
+    row.openingBalance = round2(row.openingBalance + activity.debit - activity.credit);
+  }
+  for (const activity of period) {
+    const row = rowFor(activity.account);
+    row.debit = round2(row.debit + activity.debit);
+    row.credit = round2(row.credit + activity.credit);
+  }
+  const sorted = Array.from(rows.values())
+    .map((row) => ({ ...row, closingBalance: round2(row.openingBalance + row.debit - row.credit) }))
+    .sort((a, b) => a.account.localeCompare(b.account));
+  const totals = sorted.reduce(
+    (sum, row) => ({
+      debit: round2(sum.debit + row.debit),
+      credit: round2(sum.credit + row.credit),
+      openingBalance: round2(sum.openingBalance + row.openingBalance),
+      closingBalance: round2(sum.closingBalance + row.closingBalance),
+    }),
+    { debit: 0, credit: 0, openingBalance: 0, closingBalance: 0 },
+  );
+  return { rows: sorted, totals };
+}
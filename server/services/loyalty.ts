@@ -0,0 +1,211 @@
+import type { Logger } from "pino";
+import type { LoyaltyProgram } from "@shared/schema";
+import { localDateString } from "@shared/capacity";
+import {
+  addMonths,
+  checkRedemption,
+  DEFAULT_LOYALTY_PROGRAM,
+  loyaltyExpiresAt,
+  loyaltyPointsEarned,
+  loyaltyTier,
+  nextLoyaltyTier,
+  pointsEarnedSince,
+  type LoyaltyEarnLine,
+  type LoyaltyProgramConfig,
+  type LoyaltyTier,
+} from "@shared/loyalty";
+
+import type { IStorage } from "../storage";
+import logger from "../logger";
+
+type LoyaltyStorage = Pick<IStorage, "getLoyaltyProgram" | "getLoyaltyHistory">;
+
+export function toLoyaltyConfig(row: LoyaltyProgram | undefined | null): LoyaltyProgramConfig {
+  if (!row) return DEFAULT_LOYALTY_PROGRAM;
+  return {
+    isEnabled: row.isEnabled,
+    pointsPerUnit: Number(row.pointsPerUnit),
+    serviceRates: row.serviceRates ?? {},
+    campaigns: row.campaigns ?? [],
+    pointValue: Number(row.pointValue),
+    minRedeemPoints: row.minRedeemPoints,
+    maxRedeemPercent: Number(row.maxRedeemPercent),
+    expiryMonths: row.expiryMonths,
+    tierWindowMonths: row.tierWindowMonths,
+    tiers: row.tiers ?? [],
+  };
+}
+
+export async function loadLoyaltyProgram(storage: LoyaltyStorage, branchId: string): Promise<LoyaltyProgramConfig> {
+  return toLoyaltyConfig(await storage.getLoyaltyProgram(branchId));
+}
+
+export interface CustomerLoyaltyStatus {
+  program: LoyaltyProgramConfig;
+  earnedInWindow: number;
+  tier: LoyaltyTier | null;
+  nextTier: { tier: LoyaltyTier; pointsNeeded: number } | null;
+}
+
+export async function customerLoyaltyStatus(
+  storage: LoyaltyStorage,
+  { branchId, customerId, now }: { branchId: string; customerId: string; now: Date },
+): Promise<CustomerLoyaltyStatus> {
+  const [program, history] = await Promise.all([
+    loadLoyaltyProgram(storage, branchId),
+    storage.getLoyaltyHistory(customerId),
+  ]);
+  const earnedInWindow = pointsEarnedSince(history, addMonths(now, -program.tierWindowMonths));
+  return {
+    program,
+    earnedInWindow,
+    tier: program.isEnabled ? loyaltyTier(program, earnedInWindow) : null,
+    nextTier: program.isEnabled ? nextLoyaltyTier(program, earnedInWindow) : null,
+  };
+}
+
+export interface OrderLoyaltyPlan {
+  program: LoyaltyProgramConfig;
+  tier: LoyaltyTier | null;
+  redeemed: number;
+  redeemedValue: number;
+}
+
+export interface OrderLoyaltyOutcome {
+  earned: number;
+  redeemed: number;
+  redeemedValue: number;
+  balance: number | null;
+  tier: string | null;
+}
+
+// Checks a redemption request before the order is created, so a bad request never leaves an order behind
+export async function prepareOrderLoyalty(
+  storage: LoyaltyStorage,
+  {
+    branchId,
+    customer,
+    orderTotal,
+    redeemPoints,
+    now,
+  }: {
+    branchId: string;
+    customer: { id: string; loyaltyPoints: number };
+    orderTotal: number;
+    redeemPoints: number;
+    now: Date;
+  },
+): Promise<{ ok: true; plan: OrderLoyaltyPlan } | { ok: false; code: string; message: string }> {
+  const { program, tier } = await customerLoyaltyStatus(storage, { branchId, customerId: customer.id, now });
+  const check = checkRedemption(program, { points: redeemPoints, balance: customer.loyaltyPoints, orderTotal });
+  if (!check.ok) return check;
+  return { ok: true, plan: { program, tier, redeemed: check.points, redeemedValue: check.value } };
+}
+
+// Earns on what the customer pays after redemption; if the balance was spent elsewhere meanwhile, the order
+// keeps its full price and only earns
+export async function postOrderLoyalty(
+  storage: Pick<IStorage, "postOrderLoyalty">,
+  plan: OrderLoyaltyPlan,
+  {
+    customerId,
+    branchId,
+    orderId,
+    lines,
+    orderTotal,
+    now,
+  }: { customerId: string; branchId: string; orderId: string; lines: LoyaltyEarnLine[]; orderTotal: number; now: Date },
+): Promise<OrderLoyaltyOutcome> {
+  const post = async (redeemed: number, redeemedValue: number) => {
+    const earned = loyaltyPointsEarned(plan.program, {
+      lines,
+      spend: Math.max(orderTotal - redeemedValue, 0),
+      date: localDateString(now),
+      tier: plan.tier,
+    });
+    const result = await storage.postOrderLoyalty({
+      customerId,
+      branchId,
+      orderId,
+      earned,
+      redeemed,
+      redeemedValue,
+      expiresAt: loyaltyExpiresAt(plan.program, now),
+    });
+    return { result, earned, redeemed, redeemedValue };
+  };
+
+  let attempt = await post(plan.redeemed, plan.redeemedValue);
+  if (!attempt.result.ok && attempt.result.reason === "insufficient_points") {
+    attempt = await post(0, 0);
+  }
+  return {
+    earned: attempt.result.ok ? attempt.earned : 0,
+    redeemed: attempt.result.ok ? attempt.redeemed : 0,
+    redeemedValue: attempt.result.ok ? attempt.redeemedValue : 0,
+    balance: attempt.result.ok ? attempt.result.balance : null,
+    tier: plan.tier?.name ?? null,
+  };
+}
+
+interface LoyaltyExpirySchedulerOptions {
+  storage: Pick<IStorage, "getCustomersWithExpiredLoyalty" | "expireLoyaltyPoints">;
+  intervalHours?: number;
+  logger?: Pick<Logger, "info" | "warn" | "error">;
+}
+
+export class LoyaltyExpiryScheduler {
+  private readonly storage: LoyaltyExpirySchedulerOptions["storage"];
+  private readonly intervalMs: number;
+  private readonly logger: Pick<Logger, "info" | "warn" | "error">;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: LoyaltyExpirySchedulerOptions) {
+    const intervalHours = options.intervalHours ?? Number(process.env.LOYALTY_EXPIRY_INTERVAL_HOURS ?? 24);
+    this.storage = options.storage;
+    this.intervalMs = Math.max(intervalHours, 1) * 60 * 60 * 1000;
+    this.logger = options.logger ?? logger;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.logger.info({ intervalMs: this.intervalMs }, "Starting loyalty expiry scheduler");
+    this.runOnce().catch((error) => {
+      this.logger.error({ err: error }, "Initial loyalty expiry run failed");
+    });
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => {
+        this.logger.error({ err: error }, "Scheduled loyalty expiry run failed");
+      });
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.info("Stopped loyalty expiry scheduler");
+    }
+  }
+
+  async runOnce(now = new Date()): Promise<{ customers: number; points: number }> {
+    const customerIds = await this.storage.getCustomersWithExpiredLoyalty(now);
+    let customers = 0;
+    let points = 0;
+    for (const customerId of customerIds) {
+      try {
+        const expired = await this.storage.expireLoyaltyPoints(customerId, now);
+        if (expired > 0) {
+          customers += 1;
+          points += expired;
+        }
+      } catch (error) {
+        this.logger.error({ err: error, customerId }, "Failed to expire loyalty points");
+      }
+    }
+    if (points > 0) {
+      this.logger.info({ customers, points }, "Expired loyalty points");
+    }
+    return { customers, points };
+  }
+}
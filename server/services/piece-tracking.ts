@@ -0,0 +1,80 @@
+import type { Logger } from "pino";
+import { orderStatusEnum, type Order, type OrderPiece, type UserWithBranch } from "@shared/schema";
+import { deriveOrderStatusFromPieces, garmentPieceStatusEnum } from "@shared/garment-tags";
+
+import type { IStorage } from "../storage";
+import { createAnalyticsEvent, type EventBus } from "./event-bus";
+
+// Pieces never pull an order backwards, and finished or voided orders stay as they are
+const FROZEN_ORDER_STATUSES: Order["status"][] = ["completed", "cancelled"];
+const orderStatusRank = (status: string) => orderStatusEnum.indexOf(status as Order["status"]);
+
+export interface PieceSummary {
+  total: number;
+  byStatus: Record<string, number>;
+  derivedStatus: ReturnType<typeof deriveOrderStatusFromPieces>;
+}
+
+export function summarizePieces(pieces: OrderPiece[]): PieceSummary {
+  const counts = Object.fromEntries(garmentPieceStatusEnum.map((status) => [status, 0])) as Record<string, number>;
+  for (const piece of pieces) counts[piece.status] += 1;
+  return { total: pieces.length, byStatus: counts, derivedStatus: deriveOrderStatusFromPieces(pieces.map((p) => p.status)) };
+}
+
+interface AdvanceOrderOptions {
+  storage: Pick<IStorage, "getOrder" | "getOrderPieces" | "updateOrderStatus">;
+  eventBus: EventBus;
+  logger: Logger;
+  orderId: string;
+  user: UserWithBranch;
+  // Recorded in the order's status history, e.g. "sara" or "sara @ Pressing"
+  actor: string;
+  source: string;
+}
+
+// Moves the order forward to whatever its pieces now imply and publishes the status change
+export async function advanceOrderFromPieces({
+  storage,
+  eventBus,
+  logger,
+  orderId,
+  user,
+  actor,
+  source,
+}: AdvanceOrderOptions): Promise<{ order: Order | undefined; summary: PieceSummary }> {
+  const summary = summarizePieces(await storage.getOrderPieces(orderId));
+  let order = await storage.getOrder(orderId);
+  const derived = summary.derivedStatus;
+  if (
+    !order ||
+    !derived ||
+    FROZEN_ORDER_STATUSES.includes(order.status) ||
+    orderStatusRank(derived) <= orderStatusRank(order.status)
+  ) {
+    return { order, summary };
+  }
+
+  const previousStatus = order.status;
+  order = (await storage.updateOrderStatus(order.id, derived, { actor })) ?? order;
+  try {
+    await eventBus.publish(
+      createAnalyticsEvent({
+        source,
+        category: "order.lifecycle",
+        name: "status_changed",
+        payload: {
+          orderId: order.id,
+          branchId: order.branchId,
+          customerId: order.customerId ?? null,
+          status: order.status,
+          previousStatus,
+        },
+        actor: { actorId: user.id, actorType: "user", actorName: user.username },
+        context: { tenantId: order.branchId },
+      }),
+    );
+  } catch (error) {
+    logger.warn({ err: error, orderId: order.id }, "Failed to publish order status event");
+  }
+  return { order, summary };
+}
@@ -0,0 +1,107 @@
+import type { Logger } from "pino";
+import { renewalReminderDue } from "@shared/subscriptions";
+
+import type { IStorage, SubscriptionReminderCandidate } from "../storage";
+import { NotificationService } from "./notification";
+import logger from "../logger";
+
+type SubscriptionSchedulerStorage = Pick<
+  IStorage,
+  | "getSubscriptionsDueForRenewal"
+  | "renewCustomerSubscription"
+  | "getSubscriptionReminderCandidates"
+  | "markSubscriptionReminderSent"
+>;
+
+type Notifier = Pick<NotificationService, "sendSMS" | "sendEmail">;
+
+interface SubscriptionSchedulerOptions {
+  storage: SubscriptionSchedulerStorage;
+  notificationService?: Notifier;
+  intervalHours?: number;
+  logger?: Pick<Logger, "info" | "warn" | "error">;
+}
+
+// Renewals are billed by the system, not a cashier
+const RENEWAL_ACTOR = "Subscription renewal";
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" };
+
+export function renewalReminderMessage({ subscription, plan, customer }: SubscriptionReminderCandidate): string {
+  const renewsOn = new Date(subscription.currentPeriodEnd).toISOString().slice(0, 10);
+  const billing = subscription.billingMethod === "card_on_file" ? "charged to your card on file" : "added to your account";
+  return `Hi ${customer.name}, your ${plan.nameEn} plan renews on ${renewsOn}. ${Number(plan.price).toFixed(2)} will be ${billing}.`;
+}
+
+export class SubscriptionRenewalScheduler {
+  private readonly storage: SubscriptionSchedulerStorage;
+  private readonly notifications: Notifier;
+  private readonly intervalMs: number;
+  private readonly logger: Pick<Logger, "info" | "warn" | "error">;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: SubscriptionSchedulerOptions) {
+    const intervalHours = options.intervalHours ?? Number(process.env.SUBSCRIPTION_RENEWAL_INTERVAL_HOURS ?? 1);
+    this.storage = options.storage;
+    this.notifications = options.notificationService ?? new NotificationService();
+    this.intervalMs = Math.max(intervalHours, 0.25) * 60 * 60 * 1000;
+    this.logger = options.logger ?? logger;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.logger.info({ intervalMs: this.intervalMs }, "Starting subscription renewal scheduler");
+    this.runOnce().catch((error) => {
+      this.logger.error({ err: error }, "Initial subscription renewal run failed");
+    });
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => {
+        this.logger.error({ err: error }, "Scheduled subscription renewal run failed");
+      });
+    }, this.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.info("Stopped subscription renewal scheduler");
+    }
+  }
+
+  async runOnce(now = new Date()): Promise<{ renewed: number; reminded: number }> {
+    let renewed = 0;
+    for (const id of await this.storage.getSubscriptionsDueForRenewal(now)) {
+      try {
+        const result = await this.storage.renewCustomerSubscription(id, { receivedBy: RENEWAL_ACTOR, now });
+        if (result) renewed += 1;
+      } catch (error) {
+        this.logger.error({ err: error, subscriptionId: id }, "Failed to renew subscription");
+      }
+    }
+
+    let reminded = 0;
+    for (const candidate of await this.storage.getSubscriptionReminderCandidates(now)) {
+      const { subscription, plan, customer } = candidate;
+      if (!renewalReminderDue(subscription, plan.reminderDays, now)) continue;
+      try {
+        const message = renewalReminderMessage(candidate);
+        await this.notifications.sendSMS(customer.phoneNumber, message);
+        if (customer.email) {
+          const html = `<p>${message.replace(/[&<>"]/g, (ch) => HTML_ESCAPES[ch])}</p>`;
+          await this.notifications.sendEmail(customer.email, `${plan.nameEn} renews soon`, html);
+        }
+        // Marked even when channels are switched off, so a cycle never gets more than one reminder
+        await this.storage.markSubscriptionReminderSent(subscription.id, new Date(subscription.currentPeriodEnd));
+        reminded += 1;
+      } catch (error) {
+        this.logger.error({ err: error, subscriptionId: subscription.id }, "Failed to send subscription reminder");
+      }
+    }
+
+    if (renewed > 0 || reminded > 0) {
+      this.logger.info({ renewed, reminded }, "Processed subscription renewals");
+    }
+    return { renewed, reminded };
+  }
+}
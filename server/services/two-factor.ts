@@ -0,0 +1,245 @@
+import crypto from "node:crypto";
+import type { Logger } from "pino";
+import type { User } from "@shared/schema";
+import type { IStorage } from "../storage";
+import logger from "../logger";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const RECOVERY_CODE_COUNT = 8;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, "").replace(/\s+/g, "").toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function currentTotpStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Returns the matched time step, or null. Allows one step of clock drift either way and refuses
+ * steps at or before `lastUsedStep` so a code cannot be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: number; window?: number; lastUsedStep?: number | null } = {},
+): number | null {
+  const normalized = code.replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const current = currentTotpStep(options.now);
+  const window = options.window ?? 1;
+  for (let step = current - window; step <= current + window; step++) {
+    if (options.lastUsedStep != null && step <= options.lastUsedStep) continue;
+    const expected = generateTotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(code.replace(/[\s-]+/g, "").toLowerCase())
+    .digest("hex");
+}
+
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+function resolveEncryptionKey(): Buffer {
+  const source = process.env.TWO_FACTOR_ENCRYPTION_KEY?.trim() || process.env.SESSION_SECRET?.trim();
+  if (!source) {
+    throw new Error("TWO_FACTOR_ENCRYPTION_KEY or SESSION_SECRET is required to store two-factor secrets");
+  }
+  return crypto.createHash("sha256").update(source).digest();
+}
+
+export function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", resolveEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", resolveEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  pendingEnrollment: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorServiceOptions {
+  storage: IStorage;
+  issuer?: string;
+  logger?: Pick<Logger, "info" | "warn" | "error">;
+}
+
+type StaffUser = Pick<User, "id" | "username">;
+
+export class TwoFactorService {
+  private readonly storage: IStorage;
+  private readonly issuer: string;
+  private readonly logger: Pick<Logger, "info" | "warn" | "error">;
+
+  constructor(options: TwoFactorServiceOptions) {
+    this.storage = options.storage;
+    this.issuer = options.issuer ?? process.env.TWO_FACTOR_ISSUER ?? "Laundry POS";
+    this.logger = options.logger ?? logger;
+  }
+
+  async isRequiredByPolicy(): Promise<boolean> {
+    const settings = await this.storage.getSecuritySettings();
+    return !!settings?.twoFactorRequired;
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const [record, required] = await Promise.all([
+      this.storage.getUserTwoFactor(userId),
+      this.isRequiredByPolicy(),
+    ]);
+    return {
+      enabled: !!record?.enabledAt,
+      required,
+      pendingEnrollment: !!record?.pendingSecret,
+      recoveryCodesRemaining: record?.recoveryCodes?.length ?? 0,
+    };
+  }
+
+  /** Whether a password login must be followed by a second step, and whether enrollment is still needed. */
+  async getLoginRequirement(userId: string): Promise<{ required: boolean; enrolled: boolean }> {
+    const status = await this.getStatus(userId);
+    return { required: status.enabled || status.required, enrolled: status.enabled };
+  }
+
+  async startEnrollment(user: StaffUser): Promise<{ secret: string; otpauthUrl: string }> {
+    const secret = generateTotpSecret();
+    await this.storage.saveUserTwoFactor(user.id, { pendingSecret: encryptSecret(secret) });
+    const label = encodeURIComponent(`${this.issuer}:${user.username}`);
+    const otpauthUrl =
+      `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(this.issuer)}` +
+      `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+    return { secret, otpauthUrl };
+  }
+
+  /** Confirms the pending secret with a code from the authenticator app and issues recovery codes. */
+  async activate(userId: string, code: string): Promise<string[] | null> {
+    const record = await this.storage.getUserTwoFactor(userId);
+    if (!record?.pendingSecret) return null;
+    const step = verifyTotp(decryptSecret(record.pendingSecret), code);
+    if (step === null) return null;
+    const recoveryCodes = generateRecoveryCodes();
+    await this.storage.saveUserTwoFactor(userId, {
+      secret: record.pendingSecret,
+      pendingSecret: null,
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      lastUsedStep: step,
+      enabledAt: new Date(),
+    });
+    this.logger.info({ userId }, "Two-factor authentication enabled");
+    return recoveryCodes;
+  }
+
+  /** Verifies a TOTP code or consumes a recovery code for an enrolled user. */
+  async verify(userId: string, input: { code?: string; recoveryCode?: string }): Promise<boolean> {
+    const record = await this.storage.getUserTwoFactor(userId);
+    if (!record?.secret || !record.enabledAt) return false;
+
+    if (input.code) {
+      const step = verifyTotp(decryptSecret(record.secret), input.code, { lastUsedStep: record.lastUsedStep });
+      if (step === null) return false;
+      await this.storage.saveUserTwoFactor(userId, { lastUsedStep: step });
+      return true;
+    }
+
+    if (input.recoveryCode) {
+      const hashed = hashRecoveryCode(input.recoveryCode);
+      const remaining = record.recoveryCodes ?? [];
+      if (!remaining.includes(hashed)) return false;
+      await this.storage.saveUserTwoFactor(userId, {
+        recoveryCodes: remaining.filter((candidate) => candidate !== hashed),
+      });
+      this.logger.warn({ userId, remaining: remaining.length - 1 }, "Two-factor recovery code used");
+      return true;
+    }
+
+    return false;
+  }
+
+  async regenerateRecoveryCodes(userId: string): Promise<string[]> {
+    const recoveryCodes = generateRecoveryCodes();
+    await this.storage.saveUserTwoFactor(userId, { recoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+    return recoveryCodes;
+  }
+
+  async reset(userId: string): Promise<boolean> {
+    const removed = await this.storage.deleteUserTwoFactor(userId);
+    if (removed) {
+      this.logger.warn({ userId }, "Two-factor authentication reset");
+    }
+    return removed;
+  }
+}
@@ -5,19 +5,41 @@ import {
   workflowDefinitions,
   workflowNodes,
   workflowEdges,
-  workflowExecutions,
-  workflowExecutionEvents,
   workflowStatusEnum,
   workflowExecutionStatusEnum,
   workflowNodeKindEnum,
   type WorkflowDefinition,
   type WorkflowNode,
   type WorkflowEdge,
+  type WorkflowExecution,
+  type WorkflowPendingStep,
   insertWorkflowDefinitionSchema,
   insertWorkflowNodeSchema,
   insertWorkflowEdgeSchema,
+  insertWorkflowNotificationTemplateSchema,
+  type WorkflowNotificationTemplate,
 } from "@shared/schema";
+import type { AnalyticsEvent } from "@shared/events";
 import { db } from "../../db";
+import type { EventBus } from "../event-bus";
+import { NotificationService } from "../notification";
+import {
+  DrizzleWorkflowExecutionStore,
+  type WorkflowExecutionFilter,
+  type WorkflowExecutionStore,
+} from "./executions";
+import { workflowTriggerForEvent } from "./events";
+import { evaluateExpression, validateExpression } from "./expressions";
+import {
+  DrizzleWorkflowNotificationRepository,
+  lookupPath,
+  renderTemplate,
+  type WorkflowCustomerContact,
+  type WorkflowNotificationRepository,
+} from "./notifications";
+import { DrizzlePayLaterOrderSource, type PayLaterOrderSource } from "./pay-later";
+import { isValidTimeZone, latestCronOccurrence, parseCron } from "./schedule";
+import { deliverWebhook, type WebhookFetch, type WebhookHostLookup } from "./webhooks";
 
 export type WorkflowStatus = (typeof workflowStatusEnum)[number];
 export type WorkflowExecutionStatus =
@@ -43,6 +65,8 @@ export interface WorkflowExecutionResult {
   logs: WorkflowExecutionLog[];
   context: Record<string, unknown>;
   durationMs: number;
+  /** Set while the execution is paused on a delay node. */
+  resumeAt?: Date | null;
 }
 
 export interface TriggerContext {
@@ -57,6 +81,37 @@ export interface TriggerDefinition<TPayload extends z.ZodTypeAny = z.ZodTypeAny>
   description?: string;
   schema: TPayload;
   resolveContext: (input: z.infer<TPayload>) => Promise<Record<string, unknown>>;
+  /** Lets a trigger node opt out of a payload based on its config, e.g. only orders moving to "ready". */
+  matches?: (node: WorkflowNode, payload: Record<string, unknown>) => boolean;
+  validate?: (node: WorkflowNode) => string[];
+}
+
+export interface TriggerPayloadField {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+export interface DelayDefinition {
+  type: string;
+  label: string;
+  description?: string;
+  /** Returns when downstream nodes may run, or an error when the node cannot be resolved against the context. */
+  resolveResumeAt: (params: {
+    node: WorkflowNode;
+    context: Record<string, unknown>;
+    now: Date;
+  }) => Date | { error: string };
+  validate?: (node: WorkflowNode) => string[];
+}
+
+export interface ConditionDefinition {
+  type: string;
+  label: string;
+  description?: string;
+  /** Decides which outgoing branch runs; edges marked `true`/`false` are followed accordingly. */
+  evaluate: (params: { node: WorkflowNode; context: Record<string, unknown> }) => boolean;
+  validate?: (node: WorkflowNode) => string[];
 }
 
 export interface ActionExecutor {
@@ -69,6 +124,9 @@ export interface ActionExecutor {
     payload: Record<string, unknown>;
     trigger: TriggerContext;
     simulation: boolean;
+    executionId?: string | null;
+    /** Persists an execution event against the running node (no-op while simulating). */
+    recordEvent?: (eventType: string, message: string, payload?: Record<string, unknown>) => Promise<void>;
   }) => Promise<ActionResult>;
   validate?: (node: WorkflowNode) => string[];
   supportsSimulation?: boolean;
@@ -95,19 +153,161 @@ export interface ValidateWorkflowResult {
 
 export interface WorkflowEngineOptions {
   logger?: Pick<Console, "info" | "warn" | "error">;
+  notificationService?: Pick<NotificationService, "sendSMS" | "sendEmail">;
+  notificationRepository?: WorkflowNotificationRepository;
+  fetch?: WebhookFetch;
+  lookupHost?: WebhookHostLookup;
+  sleep?: (ms: number) => Promise<void>;
+  executionStore?: WorkflowExecutionStore;
+  payLaterSource?: PayLaterOrderSource;
+  now?: () => Date;
+}
+
+interface ExecutionRun {
+  workflow: WorkflowDefinitionWithGraph;
+  trigger: TriggerContext;
+  executionId: string | null;
+  simulation: boolean;
+  context: Record<string, unknown>;
+  logs: WorkflowExecutionLog[];
+  startedAt: Date;
+  /** Loaded on the first condition that reads `customer.*`; null when there is no such customer. */
+  customer?: WorkflowCustomerContact | null;
 }
 
 function asRecord(value: unknown): Record<string, unknown> {
   return value && typeof value === "object" ? (value as Record<string, unknown>) : {};
 }
 
+/** Branch an edge belongs to when leaving a condition node: `condition.branch`, else a "true"/"false" label. */
+function edgeBranch(edge: Pick<WorkflowEdge, "condition" | "label">): boolean | null {
+  const raw = asRecord(edge.condition).branch ?? edge.label;
+  const value = typeof raw === "string" ? raw.trim().toLowerCase() : raw;
+  if (value === true || value === "true" || value === "yes") return true;
+  if (value === false || value === "false" || value === "no") return false;
+  return null;
+}
+
+function earliestResume(steps: WorkflowPendingStep[]): Date | null {
+  if (!steps.length) return null;
+  return new Date(Math.min(...steps.map((step) => new Date(step.resumeAt).getTime())));
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** Statuses a trigger node is limited to via `config.status` (string, comma list or array); empty means any. */
+function configuredStatuses(node: Pick<WorkflowNode, "config">): string[] {
+  const raw = asRecord(node.config).status;
+  const values = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : [];
+  return values.map((value) => String(value).trim()).filter(Boolean);
+}
+
+function matchesConfiguredStatus(node: WorkflowNode, payload: Record<string, unknown>): boolean {
+  const statuses = configuredStatuses(node);
+  return statuses.length === 0 || statuses.includes(String(payload.status ?? ""));
+}
+
+function unwrapSchema(schema: z.ZodTypeAny): { inner: z.ZodTypeAny; optional: boolean } {
+  let inner = schema;
+  let optional = false;
+  while (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable || inner instanceof z.ZodDefault) {
+    optional = true;
+    inner = inner instanceof z.ZodDefault ? inner._def.innerType : inner.unwrap();
+  }
+  return { inner, optional };
+}
+
+/** Flattens a trigger's payload schema into the field list shown in the builder catalog. */
+export function describePayloadFields(schema: z.ZodTypeAny | undefined): TriggerPayloadField[] {
+  if (!(schema instanceof z.ZodObject)) return [];
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, field]) => {
+    const { inner, optional } = unwrapSchema(field);
+    const type =
+      inner instanceof z.ZodNumber
+        ? "number"
+        : inner instanceof z.ZodBoolean
+        ? "boolean"
+        : inner instanceof z.ZodString
+        ? "string"
+        : inner instanceof z.ZodArray
+        ? "array"
+        : "object";
+    return { name, type, optional };
+  });
+}
+
+const NOTIFICATION_CHANNELS = ["email", "sms"] as const;
+
+const DELAY_UNITS_MS: Record<string, number> = {
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+};
+
+// Schedules missed while the server was down fire once (the latest slot) if within this window.
+const SCHEDULE_LOOKBACK_MS = 24 * 3_600_000;
+const RESUME_BATCH_SIZE = 50;
+const DEFAULT_PAY_LATER_OVERDUE_DAYS = 30;
+const PAY_LATER_BATCH_SIZE = 200;
+
+function resolveDelayDuration(node: Pick<WorkflowNode, "config">): number | { error: string } {
+  const cfg = asRecord(node.config);
+  const amount = Number(cfg.amount);
+  const unit = typeof cfg.unit === "string" ? cfg.unit : "minutes";
+  if (!DELAY_UNITS_MS[unit]) {
+    return { error: `Unsupported delay unit: ${unit}` };
+  }
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { error: "Delay nodes require a positive amount" };
+  }
+  return amount * DELAY_UNITS_MS[unit];
+}
+
+function resolveWaitUntil(
+  node: Pick<WorkflowNode, "config">,
+  context: Record<string, unknown>,
+): Date | { error: string } {
+  const cfg = asRecord(node.config);
+  const field = asString(cfg.field);
+  const raw = asString(cfg.at) ?? (field ? lookupPath(context, field) : undefined);
+  const base = raw instanceof Date ? raw : typeof raw === "string" || typeof raw === "number" ? new Date(raw) : null;
+  if (!base || Number.isNaN(base.getTime())) {
+    return { error: field ? `Context field "${field}" is not a valid date` : "Wait-until nodes require a valid date" };
+  }
+  const offsetMinutes = cfg.offsetMinutes === undefined ? 0 : Number(cfg.offsetMinutes);
+  if (!Number.isFinite(offsetMinutes)) {
+    return { error: "offsetMinutes must be a number" };
+  }
+  return new Date(base.getTime() + offsetMinutes * 60_000);
+}
+
 export class WorkflowEngine {
   private readonly triggers = new Map<string, TriggerDefinition>();
   private readonly actions = new Map<string, ActionExecutor>();
+  private readonly delays = new Map<string, DelayDefinition>();
+  private readonly conditions = new Map<string, ConditionDefinition>();
   private readonly logger: Pick<Console, "info" | "warn" | "error">;
+  private readonly notificationService: Pick<NotificationService, "sendSMS" | "sendEmail">;
+  private readonly notificationRepository: WorkflowNotificationRepository;
+  private readonly fetchImpl?: WebhookFetch;
+  private readonly lookupHost?: WebhookHostLookup;
+  private readonly sleep?: (ms: number) => Promise<void>;
+  private readonly executionStore: WorkflowExecutionStore;
+  private readonly payLaterSource: PayLaterOrderSource;
+  private readonly now: () => Date;
 
   constructor(options: WorkflowEngineOptions = {}) {
     this.logger = options.logger ?? console;
+    this.notificationService = options.notificationService ?? new NotificationService();
+    this.notificationRepository = options.notificationRepository ?? new DrizzleWorkflowNotificationRepository();
+    this.fetchImpl = options.fetch;
+    this.lookupHost = options.lookupHost;
+    this.sleep = options.sleep;
+    this.executionStore = options.executionStore ?? new DrizzleWorkflowExecutionStore();
+    this.payLaterSource = options.payLaterSource ?? new DrizzlePayLaterOrderSource();
+    this.now = options.now ?? (() => new Date());
     this.bootstrapDefaults();
   }
 
@@ -130,6 +330,135 @@ export class WorkflowEngine {
       }),
     });
 
+    this.registerTrigger({
+      type: "orders.status_changed",
+      label: "Order Status Changed",
+      description: "Fires when an order moves to a new status. Set config.status to limit it to specific statuses.",
+      schema: z.object({
+        orderId: z.string(),
+        status: z.string(),
+        previousStatus: z.string().optional(),
+        branchId: z.string().optional(),
+        customerId: z.string().optional(),
+        total: z.number().nonnegative().optional(),
+      }),
+      resolveContext: async (payload) => ({
+        orderId: payload.orderId,
+        status: payload.status,
+        previousStatus: payload.previousStatus ?? null,
+        branchId: payload.branchId ?? null,
+        customerId: payload.customerId ?? null,
+        total: payload.total ?? 0,
+      }),
+      matches: matchesConfiguredStatus,
+    });
+
+    this.registerTrigger({
+      type: "deliveries.status_changed",
+      label: "Delivery Status Changed",
+      description: "Fires when a delivery changes status. Set config.status to limit it to specific statuses.",
+      schema: z.object({
+        orderId: z.string(),
+        status: z.string(),
+        previousStatus: z.string().optional(),
+        deliveryId: z.string().optional(),
+        branchId: z.string().optional(),
+        customerId: z.string().optional(),
+        total: z.number().nonnegative().optional(),
+      }),
+      resolveContext: async (payload) => ({
+        orderId: payload.orderId,
+        deliveryId: payload.deliveryId ?? null,
+        status: payload.status,
+        previousStatus: payload.previousStatus ?? null,
+        branchId: payload.branchId ?? null,
+        customerId: payload.customerId ?? null,
+        total: payload.total ?? 0,
+      }),
+      matches: matchesConfiguredStatus,
+    });
+
+    this.registerTrigger({
+      type: "payments.received",
+      label: "Payment Received",
+      description: "Fires when a customer payment is recorded.",
+      schema: z.object({
+        paymentId: z.string(),
+        customerId: z.string(),
+        amount: z.number(),
+        paymentMethod: z.string().optional(),
+        orderId: z.string().optional(),
+        branchId: z.string().optional(),
+        balanceDue: z.number().optional(),
+      }),
+      resolveContext: async (payload) => ({
+        paymentId: payload.paymentId,
+        customerId: payload.customerId,
+        amount: payload.amount,
+        paymentMethod: payload.paymentMethod ?? null,
+        orderId: payload.orderId ?? null,
+        branchId: payload.branchId ?? null,
+        balanceDue: payload.balanceDue ?? null,
+      }),
+    });
+
+    this.registerTrigger({
+      type: "packages.balance_low",
+      label: "Package Balance Low",
+      description: "Fires when an order leaves a customer's prepaid package with few credits.",
+      schema: z.object({
+        customerId: z.string(),
+        customerPackageId: z.string(),
+        remainingCredits: z.number(),
+        totalCredits: z.number().optional(),
+        packageId: z.string().optional(),
+        packageName: z.string().optional(),
+        branchId: z.string().optional(),
+      }),
+      resolveContext: async (payload) => ({
+        customerId: payload.customerId,
+        customerPackageId: payload.customerPackageId,
+        packageId: payload.packageId ?? null,
+        packageName: payload.packageName ?? null,
+        remainingCredits: payload.remainingCredits,
+        totalCredits: payload.totalCredits ?? null,
+        branchId: payload.branchId ?? null,
+      }),
+    });
+
+    this.registerTrigger({
+      type: "pay_later.overdue",
+      label: "Pay-later Overdue",
+      description: "Fires once per order when a pay-later order is still unpaid config.days (default 30) after it was placed.",
+      schema: z.object({
+        orderId: z.string(),
+        customerId: z.string(),
+        outstanding: z.number(),
+        daysOverdue: z.number().int().nonnegative(),
+        orderNumber: z.string().optional(),
+        total: z.number().optional(),
+        branchId: z.string().optional(),
+        createdAt: z.string().optional(),
+      }),
+      resolveContext: async (payload) => ({
+        orderId: payload.orderId,
+        orderNumber: payload.orderNumber ?? null,
+        customerId: payload.customerId,
+        outstanding: payload.outstanding,
+        total: payload.total ?? null,
+        daysOverdue: payload.daysOverdue,
+        branchId: payload.branchId ?? null,
+        createdAt: payload.createdAt ?? null,
+      }),
+      validate(node) {
+        const days = asRecord(node.config).days;
+        if (days === undefined) return [];
+        return Number.isInteger(Number(days)) && Number(days) > 0
+          ? []
+          : [`Pay-later overdue trigger "${node.label ?? node.key}": days must be a positive whole number`];
+      },
+    });
+
     this.registerTrigger({
       type: "customers.segmented",
       label: "Customer Segmented",
@@ -146,23 +475,176 @@ export class WorkflowEngine {
       }),
     });
 
+    this.registerTrigger({
+      type: "schedule",
+      label: "Schedule",
+      description: "Runs on a cron schedule, e.g. \"0 9 * * *\" for every day at 09:00.",
+      schema: z.object({
+        scheduledFor: z.string().optional(),
+        branchId: z.string().nullable().optional(),
+      }),
+      resolveContext: async (payload) => ({
+        scheduledFor: payload.scheduledFor ?? new Date().toISOString(),
+        branchId: payload.branchId ?? null,
+      }),
+      validate(node) {
+        const cfg = asRecord(node.config);
+        const errors: string[] = [];
+        if (typeof cfg.cron !== "string" || !cfg.cron.trim()) {
+          errors.push("Schedule triggers require a cron expression");
+        } else {
+          try {
+            parseCron(cfg.cron);
+          } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
+          }
+        }
+        if (cfg.timezone !== undefined && !isValidTimeZone(String(cfg.timezone))) {
+          errors.push(`Unknown time zone: ${cfg.timezone}`);
+        }
+        return errors;
+      },
+    });
+
+    this.registerCondition({
+      type: "expression",
+      label: "Condition",
+      description: "Branches on an expression such as total >= 20 && customer.tier in [\"vip\", \"loyal\"].",
+      evaluate({ node, context }) {
+        return evaluateExpression(String(asRecord(node.config).expression ?? ""), context);
+      },
+      validate(node) {
+        const error = validateExpression(asRecord(node.config).expression);
+        return error ? [`Condition "${node.label ?? node.key}": ${error}`] : [];
+      },
+    });
+
+    this.registerDelay({
+      type: "delay",
+      label: "Delay",
+      description: "Waits a fixed time (amount + unit: minutes, hours or days) before continuing.",
+      resolveResumeAt({ node, now }) {
+        const duration = resolveDelayDuration(node);
+        return typeof duration === "number" ? new Date(now.getTime() + duration) : duration;
+      },
+      validate(node) {
+        const duration = resolveDelayDuration(node);
+        return typeof duration === "number" ? [] : [duration.error];
+      },
+    });
+
+    this.registerDelay({
+      type: "wait_until",
+      label: "Wait Until",
+      description: "Waits until a fixed time (at) or a date in the context (field), plus optional offsetMinutes.",
+      resolveResumeAt({ node, context }) {
+        return resolveWaitUntil(node, context);
+      },
+      validate(node) {
+        const cfg = asRecord(node.config);
+        if (!asString(cfg.at) && !asString(cfg.field)) {
+          return ["Wait-until nodes require either an \"at\" time or a context \"field\""];
+        }
+        if (cfg.at !== undefined) {
+          const resolved = resolveWaitUntil(node, {});
+          if (!(resolved instanceof Date)) return [resolved.error];
+        }
+        return [];
+      },
+    });
+
+    const notifications = this.notificationService;
+    const templates = this.notificationRepository;
+    const logger = this.logger;
+    const fetchImpl = this.fetchImpl;
+    const lookupHost = this.lookupHost;
+    const sleep = this.sleep;
+
     this.registerAction({
       type: "notifications.dispatch",
       label: "Send Notification",
-      description: "Queues an email, SMS, or in-app notification.",
-      async run({ node, context }) {
+      description: "Renders a stored template and sends it by email or SMS.",
+      async run({ node, context, payload, simulation }) {
         const cfg = asRecord(node.config);
-        const channel = typeof cfg.channel === "string" ? cfg.channel : "email";
-        const template = typeof cfg.template === "string" ? cfg.template : "generic";
-        const audience = typeof cfg.audience === "string" ? cfg.audience : "customer";
-        const message = `Notification (${channel}) using template ${template} targeted at ${audience}`;
-        return { status: "success", message, contextPatch: { lastNotificationAt: new Date().toISOString(), lastNotificationMessage: message, lastNotificationChannel: channel } };
+        const channel = cfg.channel === "sms" ? "sms" : "email";
+        const templateKey = asString(cfg.template);
+        if (!templateKey) {
+          return { status: "failure", error: "Notification template is required" };
+        }
+
+        const branchId = asString(context.branchId);
+        const template = await templates.getTemplate(templateKey, branchId);
+        if (!template) {
+          return { status: "failure", error: `Notification template "${templateKey}" not found` };
+        }
+        if (template.channel !== channel) {
+          return {
+            status: "failure",
+            error: `Template "${templateKey}" is for ${template.channel}, not ${channel}`,
+          };
+        }
+
+        const customerId = asString(context.customerId);
+        const customer = customerId ? await templates.getCustomerContact(customerId) : undefined;
+        const renderContext: Record<string, unknown> = { ...payload, ...context, customer: customer ?? {} };
+
+        const override = asString(cfg.to);
+        const recipient = override
+          ? renderTemplate(override, renderContext).trim()
+          : channel === "sms"
+          ? asString(context.customerPhone) ?? customer?.phoneNumber ?? null
+          : asString(context.customerEmail) ?? customer?.email ?? null;
+        if (!recipient) {
+          return { status: "failure", error: `No ${channel === "sms" ? "phone number" : "email address"} for notification` };
+        }
+
+        const subject = template.subject ? renderTemplate(template.subject, renderContext) : "";
+        const body = renderTemplate(template.body, renderContext, channel === "email" ? { escape: "html" } : {});
+        const contextPatch = {
+          lastNotificationAt: new Date().toISOString(),
+          lastNotificationChannel: channel,
+          lastNotificationTemplate: template.key,
+          lastNotificationRecipient: recipient,
+        };
+
+        if (simulation) {
+          return {
+            status: "success",
+            message: `Would send ${channel} "${template.key}" to ${recipient}: ${(subject || body).slice(0, 160)}`,
+            contextPatch: { ...contextPatch, lastNotificationPreview: { subject, body } },
+          };
+        }
+
+        try {
+          const sent =
+            channel === "sms"
+              ? await notifications.sendSMS(recipient, body)
+              : await notifications.sendEmail(recipient, subject, body);
+          if (!sent) {
+            return {
+              status: "success",
+              message: `Skipped ${channel} "${template.key}" to ${recipient}: channel disabled`,
+              contextPatch: { ...contextPatch, lastNotificationSent: false },
+            };
+          }
+          return {
+            status: "success",
+            message: `Sent ${channel} "${template.key}" to ${recipient}`,
+            contextPatch: { ...contextPatch, lastNotificationSent: true },
+          };
+        } catch (error) {
+          logger.error({ err: error, template: template.key, channel }, "Workflow notification failed");
+          return {
+            status: "failure",
+            error: `Failed to send ${channel}: ${error instanceof Error ? error.message : String(error)}`,
+          };
+        }
       },
       validate(node) {
         const cfg = asRecord(node.config);
         const errors: string[] = [];
         if (!cfg.template) errors.push("Notification node is missing a template selection");
-        if (cfg.channel && !["email", "sms", "slack", "push"].includes(String(cfg.channel))) {
+        if (cfg.channel && !NOTIFICATION_CHANNELS.includes(String(cfg.channel) as any)) {
           errors.push(`Unsupported notification channel: ${cfg.channel}`);
         }
         return errors;
@@ -173,25 +655,70 @@ export class WorkflowEngine {
     this.registerAction({
       type: "integrations.webhook",
       label: "Invoke Webhook",
-      description: "Posts workflow payload to an external system.",
-      async run({ node, context, payload, simulation }) {
+      description: "Posts a signed workflow payload to an external system.",
+      async run({ node, context, payload, trigger, simulation, executionId, recordEvent }) {
         const cfg = asRecord(node.config);
         const endpoint = typeof cfg.url === "string" ? cfg.url : "";
         if (!endpoint) {
           return { status: "failure", error: "Webhook URL is required" };
         }
-        const merged = { ...context, ...payload };
-        const preview = JSON.stringify(merged).slice(0, 200);
-        const message = simulation
-          ? `Simulated webhook to ${endpoint} with payload preview ${preview}`
-          : `Webhook request enqueued for ${endpoint}`;
+        const body = {
+          workflowId: trigger.workflow.id,
+          executionId: executionId ?? null,
+          triggerType: trigger.triggerType,
+          nodeId: node.id,
+          context,
+          payload,
+          sentAt: new Date().toISOString(),
+        };
+        const preview = JSON.stringify({ ...context, ...payload }).slice(0, 200);
+        if (simulation) {
+          return {
+            status: "success",
+            message: `Simulated webhook to ${endpoint} with payload preview ${preview}`,
+            contextPatch: { lastWebhookUrl: endpoint, lastWebhookPreview: preview },
+          };
+        }
+
+        const maxAttempts = Number(cfg.maxAttempts);
+        const result = await deliverWebhook({
+          url: endpoint,
+          body,
+          secret: asString(cfg.secret) ?? process.env.WORKFLOW_WEBHOOK_SECRET ?? null,
+          maxAttempts: Number.isInteger(maxAttempts) && maxAttempts > 0 ? Math.min(maxAttempts, 5) : 3,
+          fetchImpl,
+          lookupHost,
+          sleep,
+          onAttempt: async (attempt) => {
+            await recordEvent?.(
+              "webhook_attempt",
+              attempt.status === null
+                ? `Webhook attempt ${attempt.attempt} failed: ${attempt.error}`
+                : `Webhook attempt ${attempt.attempt} returned ${attempt.status}`,
+              { url: endpoint, ...attempt },
+            );
+          },
+        });
+
+        const last = result.attempts[result.attempts.length - 1];
+        const contextPatch = {
+          lastWebhookUrl: endpoint,
+          lastWebhookStatus: last?.status ?? null,
+          lastWebhookAttempts: result.attempts.length,
+        };
+        if (!result.delivered) {
+          return {
+            status: "failure",
+            contextPatch,
+            error: `Webhook to ${endpoint} failed after ${result.attempts.length} attempt(s)${
+              last?.status ? ` with status ${last.status}` : last?.error ? `: ${last.error}` : ""
+            }`,
+          };
+        }
         return {
           status: "success",
-          message,
-          contextPatch: {
-            lastWebhookUrl: endpoint,
-            lastWebhookPreview: preview,
-          },
+          message: `Webhook delivered to ${endpoint} (${last.status})`,
+          contextPatch,
         };
       },
       validate(node) {
@@ -199,6 +726,14 @@ export class WorkflowEngine {
         if (!cfg.url) {
           return ["Webhook nodes require a URL"];
         }
+        try {
+          const url = new URL(String(cfg.url));
+          if (url.protocol !== "https:" && url.protocol !== "http:") {
+            return ["Webhook URL must use http or https"];
+          }
+        } catch {
+          return [`Invalid webhook URL: ${cfg.url}`];
+        }
         return [];
       },
       supportsSimulation: true,
@@ -232,6 +767,14 @@ export class WorkflowEngine {
     this.actions.set(executor.type, executor);
   }
 
+  registerCondition(definition: ConditionDefinition): void {
+    this.conditions.set(definition.type, definition);
+  }
+
+  registerDelay(definition: DelayDefinition): void {
+    this.delays.set(definition.type, definition);
+  }
+
   listTriggers(): TriggerDefinition[] {
     return Array.from(this.triggers.values());
   }
@@ -240,6 +783,14 @@ export class WorkflowEngine {
     return Array.from(this.actions.values());
   }
 
+  listDelays(): DelayDefinition[] {
+    return Array.from(this.delays.values());
+  }
+
+  listConditions(): ConditionDefinition[] {
+    return Array.from(this.conditions.values());
+  }
+
   async listWorkflows(): Promise<WorkflowDefinitionWithGraph[]> {
     const definitions = await db.select().from(workflowDefinitions).orderBy(workflowDefinitions.createdAt);
     return Promise.all(definitions.map((row) => this.hydrateWorkflow(row)));
@@ -384,7 +935,14 @@ export class WorkflowEngine {
   async validateWorkflow(id: string): Promise<ValidateWorkflowResult | null> {
     const workflow = await this.getWorkflow(id);
     if (!workflow) return null;
-    return this.validateGraph(workflow.nodes, workflow.edges);
+    // Persisted edges point at node ids while validateGraph works on node keys, as in create/update input.
+    const keysById = new Map(workflow.nodes.map((node) => [node.id, node.key]));
+    const edges = workflow.edges.map((edge) => ({
+      ...edge,
+      sourceNodeId: keysById.get(edge.sourceNodeId) ?? edge.sourceNodeId,
+      targetNodeId: keysById.get(edge.targetNodeId) ?? edge.targetNodeId,
+    }));
+    return this.validateGraph(workflow.nodes, edges);
   }
 
   async simulateWorkflow(
@@ -408,6 +966,186 @@ export class WorkflowEngine {
     const parsed = trigger.schema.parse(payload);
     const context = await trigger.resolveContext(parsed);
 
+    const runPayload = { ...parsed, ...context };
+
+    const workflows = await this.findActiveWorkflows(triggerType);
+    const results: WorkflowExecutionResult[] = [];
+    for (const workflow of workflows) {
+      // Branch-scoped workflows only react to their own branch's events.
+      if (workflow.branchId && runPayload.branchId && workflow.branchId !== runPayload.branchId) {
+        continue;
+      }
+      const triggerNodes = workflow.nodes.filter(
+        (node) =>
+          node.kind === "trigger" &&
+          node.type === triggerType &&
+          (!trigger.matches || trigger.matches(node, runPayload)),
+      );
+      if (triggerNodes.length === 0) continue;
+      const result = await this.runWorkflow(workflow, triggerType, runPayload, {
+        triggerNodeIds: triggerNodes.map((node) => node.id),
+      });
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Starts workflows from event-bus events (order, delivery, payment and package changes).
+   * Runs are detached from the publisher so slow actions never hold up the request that
+   * emitted the event. Returns the unsubscribe function.
+   */
+  subscribe(eventBus: Pick<EventBus, "on">): () => void {
+    return eventBus.on((event) => {
+      void this.handleEvent(event).catch((error) => {
+        this.logger.error(
+          { err: error, eventId: event.eventId, category: event.category, name: event.name },
+          "Workflow event trigger failed",
+        );
+      });
+    });
+  }
+
+  async handleEvent(event: AnalyticsEvent): Promise<WorkflowExecutionResult[]> {
+    const invocation = workflowTriggerForEvent(event);
+    if (!invocation || !this.triggers.has(invocation.triggerType)) return [];
+    return this.runTrigger(invocation.triggerType, invocation.payload);
+  }
+
+  async listExecutions(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    return this.executionStore.listExecutions(filter);
+  }
+
+  async getExecution(id: string): Promise<WorkflowExecution | undefined> {
+    return this.executionStore.getExecution(id);
+  }
+
+  async cancelExecution(id: string, cancelledBy?: string | null): Promise<WorkflowExecution | null> {
+    const cancelled = await this.executionStore.cancelExecution(id);
+    if (!cancelled) return null;
+    await this.executionStore.appendEvent(id, {
+      eventType: "cancelled",
+      message: cancelledBy ? `Cancelled by ${cancelledBy}` : "Cancelled",
+    });
+    return cancelled;
+  }
+
+  /**
+   * Resumes paused executions whose delay has elapsed and fires due schedule and pay-later
+   * overdue triggers (both counted as `scheduled`).
+   * Called periodically by the server; safe to run on several instances at once.
+   */
+  async runDueWork(now: Date = this.now()): Promise<{ resumed: number; scheduled: number }> {
+    const claimed = await this.executionStore.claimDueExecutions(now, RESUME_BATCH_SIZE);
+    let resumed = 0;
+    for (const execution of claimed) {
+      try {
+        await this.resumeExecution(execution, now);
+        resumed++;
+      } catch (error) {
+        this.logger.error({ err: error, executionId: execution.id }, "Failed to resume workflow execution");
+      }
+    }
+    const scheduled = (await this.runDueSchedules(now)) + (await this.runOverduePayLater(now));
+    return { resumed, scheduled };
+  }
+
+  private async runDueSchedules(now: Date): Promise<number> {
+    const workflows = await this.findActiveWorkflows("schedule");
+    let fired = 0;
+    for (const workflow of workflows) {
+      const scheduleNodes = workflow.nodes.filter(
+        (node) => node.kind === "trigger" && node.type === "schedule",
+      );
+      for (const node of scheduleNodes) {
+        const cfg = asRecord(node.config);
+        let occurrence: Date | null;
+        try {
+          const since = new Date(Math.max(new Date(node.createdAt).getTime(), now.getTime() - SCHEDULE_LOOKBACK_MS));
+          occurrence = latestCronOccurrence(parseCron(String(cfg.cron ?? "")), now, since, asString(cfg.timezone) ?? "UTC");
+        } catch (error) {
+          this.logger.warn({ err: error, workflowId: workflow.id, nodeKey: node.key }, "Skipping invalid workflow schedule");
+          continue;
+        }
+        if (!occurrence) continue;
+        const claimed = await this.executionStore.claimScheduleSlot(workflow.id, node.key, occurrence);
+        if (!claimed) continue;
+        try {
+          await this.runWorkflow(
+            workflow,
+            "schedule",
+            { scheduledFor: occurrence.toISOString(), branchId: workflow.branchId ?? null },
+            { triggerNodeIds: [node.id] },
+          );
+          fired++;
+        } catch (error) {
+          this.logger.error({ err: error, workflowId: workflow.id }, "Scheduled workflow run failed");
+        }
+      }
+    }
+    return fired;
+  }
+
+  /**
+   * Fires pay-later overdue triggers for orders whose due date (created + config.days) passed
+   * since the trigger node was created, within the schedule lookback window. Each order is
+   * claimed as a schedule slot so it fires once per workflow.
+   */
+  private async runOverduePayLater(now: Date): Promise<number> {
+    const workflows = await this.findActiveWorkflows("pay_later.overdue");
+    let fired = 0;
+    for (const workflow of workflows) {
+      const nodes = workflow.nodes.filter(
+        (node) => node.kind === "trigger" && node.type === "pay_later.overdue",
+      );
+      for (const node of nodes) {
+        const configured = Number(asRecord(node.config).days ?? DEFAULT_PAY_LATER_OVERDUE_DAYS);
+        const days = Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_PAY_LATER_OVERDUE_DAYS;
+        const termMs = days * DELAY_UNITS_MS.days;
+        const since = Math.max(new Date(node.createdAt).getTime(), now.getTime() - SCHEDULE_LOOKBACK_MS);
+        let orders;
+        try {
+          orders = await this.payLaterSource.findUnsettledOrders({
+            createdFrom: new Date(since - termMs),
+            createdTo: new Date(now.getTime() - termMs),
+            branchId: workflow.branchId,
+            limit: PAY_LATER_BATCH_SIZE,
+          });
+        } catch (error) {
+          this.logger.error({ err: error, workflowId: workflow.id }, "Failed to load overdue pay-later orders");
+          continue;
+        }
+        for (const order of orders) {
+          const dueAt = new Date(order.createdAt.getTime() + termMs);
+          const claimed = await this.executionStore.claimScheduleSlot(workflow.id, `${node.key}:${order.orderId}`, dueAt);
+          if (!claimed) continue;
+          try {
+            await this.runWorkflow(
+              workflow,
+              "pay_later.overdue",
+              {
+                orderId: order.orderId,
+                orderNumber: order.orderNumber,
+                customerId: order.customerId,
+                branchId: order.branchId,
+                total: order.total,
+                outstanding: order.outstanding,
+                daysOverdue: Math.floor((now.getTime() - order.createdAt.getTime()) / DELAY_UNITS_MS.days),
+                createdAt: order.createdAt.toISOString(),
+              },
+              { triggerNodeIds: [node.id] },
+            );
+            fired++;
+          } catch (error) {
+            this.logger.error({ err: error, workflowId: workflow.id, orderId: order.orderId }, "Pay-later overdue workflow run failed");
+          }
+        }
+      }
+    }
+    return fired;
+  }
+
+  private async findActiveWorkflows(triggerType: string): Promise<WorkflowDefinitionWithGraph[]> {
     const rows = await db
       .select({ id: workflowDefinitions.id })
       .from(workflowDefinitions)
@@ -422,191 +1160,326 @@ export class WorkflowEngine {
       .where(eq(workflowDefinitions.status, "active"));
 
     const workflowIds = Array.from(new Set(rows.map((row) => row.id)));
-    if (workflowIds.length === 0) return [];
-
     const workflows = await Promise.all(
       workflowIds.map((workflowId) => this.getWorkflow(workflowId)),
     );
-
-    const results: WorkflowExecutionResult[] = [];
-    for (const workflow of workflows) {
-      if (!workflow) continue;
-      const result = await this.runWorkflow(workflow, triggerType, {
-        ...parsed,
-        ...context,
-      });
-      results.push(result);
-    }
-    return results;
+    return workflows.filter((workflow): workflow is WorkflowDefinitionWithGraph => Boolean(workflow));
   }
 
   private async runWorkflow(
     workflow: WorkflowDefinitionWithGraph,
     triggerType: string,
     payload: Record<string, unknown>,
-    options: { simulation?: boolean } = {},
+    options: { simulation?: boolean; triggerNodeIds?: string[] } = {},
   ): Promise<WorkflowExecutionResult> {
     const simulation = Boolean(options.simulation);
-    const trigger: TriggerContext = {
-      triggerType,
-      payload,
+    const run: ExecutionRun = {
       workflow,
+      trigger: { triggerType, payload, workflow },
+      executionId: null,
+      simulation,
+      context: { ...payload },
+      logs: [],
+      startedAt: new Date(),
     };
 
-    return db.transaction(async (tx) => {
-      const start = new Date();
-      const logs: WorkflowExecutionLog[] = [];
-      let executionId: string | null = null;
-      let status: WorkflowExecutionStatus = "pending";
-      let context: Record<string, unknown> = { ...payload };
-
-      const recordLog = async (
-        eventType: string,
-        message?: string,
-        nodeId?: string,
-        extra?: Record<string, unknown>,
-      ) => {
-        const entry: WorkflowExecutionLog = {
-          eventType,
-          message,
-          nodeId,
-          payload: extra,
-          createdAt: new Date(),
-        };
-        logs.push(entry);
-        if (!simulation && executionId) {
-          await tx.insert(workflowExecutionEvents).values({
-            executionId,
-            nodeId: nodeId ?? null,
-            eventType,
-            message: message ?? null,
-            payload: extra ?? {},
+    if (!simulation) {
+      run.executionId = await this.executionStore.createExecution({
+        workflowId: workflow.id,
+        triggerType,
+        context: run.context,
+        triggerPayload: payload,
+        metadata: { simulation: false },
+      });
+    }
+
+    const triggers = workflow.nodes.filter(
+      (node) =>
+        node.kind === "trigger" &&
+        node.type === triggerType &&
+        (!options.triggerNodeIds || options.triggerNodeIds.includes(node.id)),
+    );
+    if (triggers.length === 0) {
+      await this.recordLog(run, "no_trigger", `No trigger nodes for ${triggerType}`);
+    }
+    const queue: string[] = [];
+    for (const triggerNode of triggers) {
+      queue.push(...(await this.followEdges(run, triggerNode)));
+    }
+    return this.advance(run, queue, [], triggers.length === 0 ? "failed" : "running");
+  }
+
+  private async resumeExecution(
+    execution: WorkflowExecution,
+    now: Date,
+  ): Promise<WorkflowExecutionResult | null> {
+    const workflow = await this.getWorkflow(execution.workflowId);
+    if (!workflow || workflow.status === "archived") {
+      await this.executionStore.updateExecution(execution.id, {
+        status: "cancelled",
+        resumeAt: null,
+        pendingSteps: [],
+        completedAt: now,
+        errorMessage: "Workflow was archived while the execution was paused",
+      });
+      return null;
+    }
+
+    const triggerPayload = asRecord(execution.triggerPayload);
+    const run: ExecutionRun = {
+      workflow,
+      trigger: { triggerType: execution.triggerType, payload: triggerPayload, workflow },
+      executionId: execution.id,
+      simulation: false,
+      context: { ...asRecord(execution.context) },
+      logs: [],
+      startedAt: new Date(),
+    };
+
+    const steps = Array.isArray(execution.pendingSteps) ? execution.pendingSteps : [];
+    const due = steps.filter((step) => new Date(step.resumeAt).getTime() <= now.getTime());
+    const later = steps.filter((step) => !due.includes(step));
+    const nodesByKey = new Map(workflow.nodes.map((node) => [node.key, node]));
+
+    await this.recordLog(run, "resumed", `Resuming ${due.length} paused step(s)`);
+    const queue: string[] = [];
+    for (const step of due) {
+      const node = nodesByKey.get(step.nodeKey);
+      if (!node) {
+        await this.recordLog(run, "missing_node", `Node ${step.nodeKey} was removed while the execution was paused`);
+        continue;
+      }
+      queue.push(node.id);
+    }
+    return this.advance(run, queue, later, "running");
+  }
+
+  /**
+   * Returns the targets of `node`'s outgoing edges that should run. After a condition node only the
+   * matching branch is followed; an edge with its own `condition.expression` is followed when it holds.
+   */
+  private async followEdges(run: ExecutionRun, node: WorkflowNode, outcome?: boolean): Promise<string[]> {
+    const targets: string[] = [];
+    for (const edge of run.workflow.edges) {
+      if (edge.sourceNodeId !== node.id) continue;
+      const details = { edgeId: edge.id, targetNodeId: edge.targetNodeId };
+      if (outcome !== undefined) {
+        const branch = edgeBranch(edge);
+        if (branch !== null && branch !== outcome) {
+          await this.recordLog(run, "edge_skipped", `Skipped ${branch} branch`, node.id, details);
+          continue;
+        }
+      }
+      const expression = asString(asRecord(edge.condition).expression);
+      if (expression) {
+        let passed: boolean;
+        try {
+          passed = evaluateExpression(expression, await this.conditionScope(run, expression));
+        } catch (error) {
+          await this.recordLog(run, "condition_failed", error instanceof Error ? error.message : String(error), node.id, {
+            ...details,
+            expression,
           });
+          continue;
         }
-      };
+        await this.recordLog(
+          run,
+          passed ? "edge_matched" : "edge_skipped",
+          `Edge condition "${expression}" evaluated to ${passed}`,
+          node.id,
+          { ...details, expression, result: passed },
+        );
+        if (!passed) continue;
+      }
+      targets.push(edge.targetNodeId);
+    }
+    return targets;
+  }
 
-      try {
-        if (!simulation) {
-          const [created] = await tx
-            .insert(workflowExecutions)
-            .values({
-              workflowId: workflow.id,
-              triggerType,
-              status: "running",
-              context,
-              triggerPayload: payload,
-              metadata: { simulation: false },
-            })
-            .returning();
-          executionId = created.id;
-        }
+  private async conditionScope(run: ExecutionRun, expression: string): Promise<Record<string, unknown>> {
+    const customerId = asString(run.context.customerId);
+    if (run.customer === undefined && customerId && /\bcustomer\./.test(expression)) {
+      run.customer = (await this.notificationRepository.getCustomerContact(customerId)) ?? null;
+    }
+    return run.customer ? { ...run.context, customer: run.customer } : run.context;
+  }
 
-        const nodesById = new Map(workflow.nodes.map((node) => [node.id, node]));
-        const triggers = workflow.nodes.filter(
-          (node) => node.kind === "trigger" && node.type === triggerType,
-        );
-        if (triggers.length === 0) {
-          await recordLog("no_trigger", `No trigger nodes for ${triggerType}`);
-          status = "failed";
-          return {
-            executionId,
-            status,
-            logs,
-            context,
-            durationMs: differenceInMilliseconds(new Date(), start),
-          };
-        }
+  private async recordLog(
+    run: ExecutionRun,
+    eventType: string,
+    message?: string,
+    nodeId?: string,
+    extra?: Record<string, unknown>,
+  ): Promise<void> {
+    run.logs.push({ eventType, message, nodeId, payload: extra, createdAt: new Date() });
+    if (!run.simulation && run.executionId) {
+      await this.executionStore.appendEvent(run.executionId, { nodeId, eventType, message, payload: extra });
+    }
+  }
 
-        const edgesBySource = new Map<string, WorkflowEdge[]>(
-          workflow.edges.reduce((acc, edge) => {
-            const existing = acc.get(edge.sourceNodeId) ?? [];
-            existing.push(edge);
-            acc.set(edge.sourceNodeId, existing);
-            return acc;
-          }, new Map<string, WorkflowEdge[]>()),
-        );
+  /**
+   * Walks the graph breadth-first from `queue`. Delay nodes whose resume time is in the future park
+   * their downstream nodes in `parked`; the execution is then persisted as paused until the earliest one.
+   */
+  private async advance(
+    run: ExecutionRun,
+    queue: string[],
+    parked: WorkflowPendingStep[],
+    initialStatus: WorkflowExecutionStatus,
+  ): Promise<WorkflowExecutionResult> {
+    const { workflow, simulation } = run;
+    const nodesById = new Map(workflow.nodes.map((node) => [node.id, node]));
+    let status: WorkflowExecutionStatus = initialStatus;
+
+    try {
+      while (status !== "failed" && queue.length) {
+        const nodeId = queue.shift();
+        if (!nodeId) break;
+        const node = nodesById.get(nodeId);
+        if (!node) {
+          await this.recordLog(run, "missing_node", "Edge target missing", undefined, { targetNodeId: nodeId });
+          continue;
+        }
 
-        const actionQueue = triggers.flatMap((triggerNode) =>
-          edgesBySource.get(triggerNode.id) ?? [],
-        );
+        await this.recordLog(run, "node_started", `Executing node ${node.label}`, node.id, {
+          nodeType: node.type,
+          nodeKind: node.kind,
+        });
 
-        status = "running";
-
-        while (actionQueue.length) {
-          const edge = actionQueue.shift();
-          if (!edge) break;
-          const node = nodesById.get(edge.targetNodeId);
-          if (!node) {
-            await recordLog("missing_node", "Edge target missing", edge.sourceNodeId, {
-              edgeId: edge.id,
-              targetNodeId: edge.targetNodeId,
-            });
+        if (node.kind === "action") {
+          const executor = this.actions.get(node.type);
+          if (!executor) {
+            await this.recordLog(run, "unknown_action", `No executor for ${node.type}`, node.id);
             continue;
           }
+          const result = await executor.run({
+            node,
+            context: run.context,
+            payload: run.trigger.payload,
+            trigger: run.trigger,
+            simulation,
+            executionId: run.executionId,
+            recordEvent: (eventType, message, extra) => this.recordLog(run, eventType, message, node.id, extra),
+          });
 
-          await recordLog("node_started", `Executing node ${node.label}`, node.id, {
-            nodeType: node.type,
-            nodeKind: node.kind,
+          if (result.contextPatch) {
+            run.context = { ...run.context, ...result.contextPatch };
+          }
+          if (result.status === "failure") {
+            status = "failed";
+            await this.recordLog(run, "action_failed", result.error ?? "Action failed", node.id);
+            break;
+          }
+          await this.recordLog(run, "action_completed", result.message ?? "Action complete", node.id);
+        }
+
+        if (node.kind === "condition") {
+          const definition = this.conditions.get(node.type);
+          if (!definition) {
+            await this.recordLog(run, "unknown_condition", `No condition handler for ${node.type}`, node.id);
+            continue;
+          }
+          const expression = String(asRecord(node.config).expression ?? "");
+          let outcome: boolean;
+          try {
+            outcome = definition.evaluate({ node, context: await this.conditionScope(run, expression) });
+          } catch (error) {
+            status = "failed";
+            await this.recordLog(run, "condition_failed", error instanceof Error ? error.message : String(error), node.id);
+            break;
+          }
+          await this.recordLog(run, "condition_evaluated", `Condition evaluated to ${outcome}`, node.id, {
+            expression: expression || null,
+            result: outcome,
           });
+          queue.push(...(await this.followEdges(run, node, outcome)));
+          continue;
+        }
 
-          if (node.kind === "action") {
-            const executor = this.actions.get(node.type);
-            if (!executor) {
-              await recordLog("unknown_action", `No executor for ${node.type}`, node.id);
+        if (node.kind === "delay") {
+          const definition = this.delays.get(node.type);
+          if (!definition) {
+            await this.recordLog(run, "unknown_delay", `No delay handler for ${node.type}`, node.id);
+            continue;
+          }
+          const now = this.now();
+          const resumeAt = definition.resolveResumeAt({ node, context: run.context, now });
+          if (!(resumeAt instanceof Date)) {
+            status = "failed";
+            await this.recordLog(run, "delay_failed", resumeAt.error, node.id);
+            break;
+          }
+          const next = await this.followEdges(run, node);
+          if (resumeAt.getTime() > now.getTime()) {
+            if (simulation) {
+              await this.recordLog(run, "delay_simulated", `Would wait until ${resumeAt.toISOString()}`, node.id, {
+                resumeAt: resumeAt.toISOString(),
+              });
+            } else {
+              for (const targetId of next) {
+                const target = nodesById.get(targetId);
+                if (target) parked.push({ nodeKey: target.key, resumeAt: resumeAt.toISOString() });
+              }
+              await this.recordLog(run, "delay_scheduled", `Waiting until ${resumeAt.toISOString()}`, node.id, {
+                resumeAt: resumeAt.toISOString(),
+              });
               continue;
             }
-            const result = await executor.run({
-              node,
-              context,
-              payload,
-              trigger,
-              simulation,
-            });
-
-            if (result.contextPatch) {
-              context = { ...context, ...result.contextPatch };
-            }
-            if (result.status === "failure") {
-              status = "failed";
-              await recordLog("action_failed", result.error ?? "Action failed", node.id);
-              break;
-            }
-            await recordLog("action_completed", result.message ?? "Action complete", node.id);
           }
-
-          const nextEdges = edgesBySource.get(node.id) ?? [];
-          actionQueue.push(...nextEdges);
+          queue.push(...next);
+          continue;
         }
 
-        if (status !== "failed") {
-          status = "completed";
-        }
+        queue.push(...(await this.followEdges(run, node)));
+      }
 
-        return {
-          executionId,
+      if (status !== "failed") {
+        status = parked.length ? "paused" : "completed";
+      }
+      return {
+        executionId: run.executionId,
+        status,
+        logs: run.logs,
+        context: run.context,
+        durationMs: differenceInMilliseconds(new Date(), run.startedAt),
+        resumeAt: status === "paused" ? earliestResume(parked) : null,
+      };
+    } catch (error) {
+      status = "failed";
+      await this.recordLog(run, "error", error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      if (!simulation && run.executionId) {
+        const paused = status === "paused";
+        await this.executionStore.updateExecution(run.executionId, {
           status,
-          logs,
-          context,
-          durationMs: differenceInMilliseconds(new Date(), start),
-        };
-      } catch (error) {
-        status = "failed";
-        await recordLog("error", error instanceof Error ? error.message : String(error));
-        throw error;
-      } finally {
-        if (!simulation && executionId) {
-          await tx
-            .update(workflowExecutions)
-            .set({
-              status,
-              context,
-              completedAt: new Date(),
-              metadata: { simulation: false },
-            })
-            .where(eq(workflowExecutions.id, executionId));
-        }
+          context: run.context,
+          resumeAt: paused ? earliestResume(parked) : null,
+          pendingSteps: paused ? parked : [],
+          completedAt: paused ? null : new Date(),
+        });
       }
-    });
+    }
+  }
+
+  async listTemplates(branchId?: string | null): Promise<WorkflowNotificationTemplate[]> {
+    return this.notificationRepository.listTemplates(branchId);
+  }
+
+  async getTemplate(id: string): Promise<WorkflowNotificationTemplate | undefined> {
+    return this.notificationRepository.getTemplateById(id);
+  }
+
+  async saveTemplate(
+    input: Record<string, unknown>,
+    id?: string,
+  ): Promise<WorkflowNotificationTemplate | undefined> {
+    const template = insertWorkflowNotificationTemplateSchema.parse(input);
+    return this.notificationRepository.saveTemplate(template, id);
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    return this.notificationRepository.deleteTemplate(id);
   }
 
   private async hydrateWorkflow(
@@ -644,6 +1517,12 @@ export class WorkflowEngine {
       if (node.kind === "action" && !this.actions.has(node.type)) {
         errors.push(`Unknown action type: ${node.type}`);
       }
+      if (node.kind === "delay" && !this.delays.has(node.type)) {
+        errors.push(`Unknown delay type: ${node.type}`);
+      }
+      if (node.kind === "condition" && !this.conditions.has(node.type)) {
+        errors.push(`Unknown condition type: ${node.type}`);
+      }
     }
 
     const nodeKeys = new Set(nodes.map((node) => node.key));
@@ -661,13 +1540,50 @@ export class WorkflowEngine {
     }
 
     for (const node of nodes) {
-      const executor = node.kind === "action" ? this.actions.get(node.type) : undefined;
-      if (executor?.validate) {
-        const validationErrors = executor.validate(node as WorkflowNode);
+      const definition =
+        node.kind === "action"
+          ? this.actions.get(node.type)
+          : node.kind === "trigger"
+          ? this.triggers.get(node.type)
+          : node.kind === "delay"
+          ? this.delays.get(node.type)
+          : node.kind === "condition"
+          ? this.conditions.get(node.type)
+          : undefined;
+      if (definition?.validate) {
+        const validationErrors = definition.validate(node as WorkflowNode);
         errors.push(...validationErrors);
       }
     }
 
+    const nodesByKey = new Map(nodes.map((node) => [node.key, node]));
+    for (const edge of edges) {
+      const label = `${edge.sourceNodeId} → ${edge.targetNodeId}`;
+      const condition = asRecord(edge.condition);
+      if (condition.expression !== undefined) {
+        const error = validateExpression(condition.expression);
+        if (error) errors.push(`Edge ${label}: ${error}`);
+      }
+      const source = nodesByKey.get(String(edge.sourceNodeId));
+      const branch = edgeBranch({ condition, label: (edge.label as string | null) ?? null });
+      if (condition.branch !== undefined && branch === null) {
+        errors.push(`Edge ${label}: branch must be true or false`);
+      } else if (branch !== null && source && source.kind !== "condition" && condition.branch !== undefined) {
+        warnings.push(`Edge ${label}: branch is ignored because the source is not a condition node`);
+      }
+    }
+    for (const node of nodes) {
+      if (node.kind !== "condition") continue;
+      const branches = edges
+        .filter((edge) => String(edge.sourceNodeId) === node.key)
+        .map((edge) => edgeBranch({ condition: asRecord(edge.condition), label: (edge.label as string | null) ?? null }));
+      if (!branches.length) {
+        warnings.push(`Condition ${node.key} has no outgoing edges`);
+      } else if (!branches.includes(true) && !branches.includes(null)) {
+        warnings.push(`Condition ${node.key} has no true branch`);
+      }
+    }
+
     return { valid: errors.length === 0, errors, warnings };
   }
 }
@@ -0,0 +1,85 @@
+import type { AnalyticsEvent } from "@shared/events";
+
+export interface WorkflowTriggerInvocation {
+  triggerType: string;
+  payload: Record<string, unknown>;
+}
+
+function withoutEmpty(payload: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(payload).filter(([, value]) => value !== undefined && value !== null),
+  );
+}
+
+/**
+ * Maps an event-bus event onto the workflow trigger it should start, or null when no
+ * trigger listens for it. Trigger payload schemas still validate the mapped payload.
+ */
+export function workflowTriggerForEvent(event: AnalyticsEvent): WorkflowTriggerInvocation | null {
+  if (event.category === "order.lifecycle") {
+    const payload = event.payload;
+    const order = {
+      orderId: payload.orderId,
+      branchId: payload.branchId,
+      customerId: payload.customerId,
+      total: payload.total,
+    };
+    switch (event.name) {
+      case "created":
+        return { triggerType: "orders.created", payload: withoutEmpty(order) };
+      case "status_changed":
+        return {
+          triggerType: "orders.status_changed",
+          payload: withoutEmpty({ ...order, status: payload.status, previousStatus: payload.previousStatus }),
+        };
+      case "delivery_status_changed":
+        return {
+          triggerType: "deliveries.status_changed",
+          payload: withoutEmpty({
+            ...order,
+            deliveryId: payload.deliveryId,
+            status: payload.deliveryStatus ?? payload.status,
+            previousStatus: payload.previousStatus,
+          }),
+        };
+      default:
+        return null;
+    }
+  }
+
+  if (event.category === "customer.account") {
+    const payload = event.payload;
+    switch (event.name) {
+      case "payment_received":
+        return {
+          triggerType: "payments.received",
+          payload: withoutEmpty({
+            paymentId: payload.paymentId,
+            customerId: payload.customerId,
+            branchId: payload.branchId,
+            orderId: payload.orderId,
+            amount: payload.amount,
+            paymentMethod: payload.paymentMethod,
+            balanceDue: payload.balanceDue,
+          }),
+        };
+      case "package_balance_low":
+        return {
+          triggerType: "packages.balance_low",
+          payload: withoutEmpty({
+            customerId: payload.customerId,
+            branchId: payload.branchId,
+            customerPackageId: payload.customerPackageId,
+            packageId: payload.packageId,
+            packageName: payload.packageName,
+            remainingCredits: payload.remainingCredits,
+            totalCredits: payload.totalCredits,
+          }),
+        };
+      default:
+        return null;
+    }
+  }
+
+  return null;
+}
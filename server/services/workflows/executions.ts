@@ -0,0 +1,146 @@
+import { and, asc, desc, eq, inArray, lte } from "drizzle-orm";
+import {
+  workflowExecutionEvents,
+  workflowExecutions,
+  workflowScheduleRuns,
+  type WorkflowExecution,
+  type WorkflowPendingStep,
+} from "@shared/schema";
+import { db } from "../../db";
+
+type ExecutionStatus = WorkflowExecution["status"];
+
+export interface WorkflowExecutionEventInput {
+  nodeId?: string | null;
+  eventType: string;
+  message?: string | null;
+  payload?: Record<string, unknown>;
+}
+
+export interface WorkflowExecutionPatch {
+  status?: ExecutionStatus;
+  context?: Record<string, unknown>;
+  metadata?: Record<string, unknown>;
+  resumeAt?: Date | null;
+  pendingSteps?: WorkflowPendingStep[];
+  completedAt?: Date | null;
+  errorMessage?: string | null;
+}
+
+export interface WorkflowExecutionFilter {
+  workflowId?: string;
+  status?: ExecutionStatus[];
+  limit?: number;
+}
+
+export interface WorkflowExecutionStore {
+  createExecution(input: {
+    workflowId: string;
+    triggerType: string;
+    context: Record<string, unknown>;
+    triggerPayload: Record<string, unknown>;
+    metadata?: Record<string, unknown>;
+  }): Promise<string>;
+  appendEvent(executionId: string, event: WorkflowExecutionEventInput): Promise<void>;
+  updateExecution(id: string, patch: WorkflowExecutionPatch): Promise<void>;
+  getExecution(id: string): Promise<WorkflowExecution | undefined>;
+  listExecutions(filter?: WorkflowExecutionFilter): Promise<WorkflowExecution[]>;
+  /** Moves due paused executions to `running`; rows claimed by another worker are skipped. */
+  claimDueExecutions(now: Date, limit: number): Promise<WorkflowExecution[]>;
+  /** Cancels a paused execution. Returns undefined when it is missing or no longer paused. */
+  cancelExecution(id: string): Promise<WorkflowExecution | undefined>;
+  /** Records a schedule slot; false means the slot already ran (here or on another instance). */
+  claimScheduleSlot(workflowId: string, nodeKey: string, scheduledFor: Date): Promise<boolean>;
+}
+
+export class DrizzleWorkflowExecutionStore implements WorkflowExecutionStore {
+  async createExecution(input: {
+    workflowId: string;
+    triggerType: string;
+    context: Record<string, unknown>;
+    triggerPayload: Record<string, unknown>;
+    metadata?: Record<string, unknown>;
+  }): Promise<string> {
+    const [created] = await db
+      .insert(workflowExecutions)
+      .values({
+        workflowId: input.workflowId,
+        triggerType: input.triggerType,
+        status: "running",
+        context: input.context,
+        triggerPayload: input.triggerPayload,
+        metadata: input.metadata ?? {},
+      })
+      .returning({ id: workflowExecutions.id });
+    return created.id;
+  }
+
+  async appendEvent(executionId: string, event: WorkflowExecutionEventInput): Promise<void> {
+    await db.insert(workflowExecutionEvents).values({
+      executionId,
+      nodeId: event.nodeId ?? null,
+      eventType: event.eventType,
+      message: event.message ?? null,
+      payload: event.payload ?? {},
+    });
+  }
+
+  async updateExecution(id: string, patch: WorkflowExecutionPatch): Promise<void> {
+    await db.update(workflowExecutions).set(patch).where(eq(workflowExecutions.id, id));
+  }
+
+  async getExecution(id: string): Promise<WorkflowExecution | undefined> {
+    const [execution] = await db.select().from(workflowExecutions).where(eq(workflowExecutions.id, id));
+    return execution;
+  }
+
+  async listExecutions(filter: WorkflowExecutionFilter = {}): Promise<WorkflowExecution[]> {
+    const conditions = [];
+    if (filter.workflowId) conditions.push(eq(workflowExecutions.workflowId, filter.workflowId));
+    if (filter.status?.length) conditions.push(inArray(workflowExecutions.status, filter.status));
+    return db
+      .select()
+      .from(workflowExecutions)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(workflowExecutions.startedAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async claimDueExecutions(now: Date, limit: number): Promise<WorkflowExecution[]> {
+    const due = await db
+      .select({ id: workflowExecutions.id })
+      .from(workflowExecutions)
+      .where(and(eq(workflowExecutions.status, "paused"), lte(workflowExecutions.resumeAt, now)))
+      .orderBy(asc(workflowExecutions.resumeAt))
+      .limit(limit);
+
+    const claimed: WorkflowExecution[] = [];
+    for (const { id } of due) {
+      const [row] = await db
+        .update(workflowExecutions)
+        .set({ status: "running" })
+        .where(and(eq(workflowExecutions.id, id), eq(workflowExecutions.status, "paused")))
+        .returning();
+      if (row) claimed.push(row);
+    }
+    return claimed;
+  }
+
+  async cancelExecution(id: string): Promise<WorkflowExecution | undefined> {
+    const [row] = await db
+      .update(workflowExecutions)
+      .set({ status: "cancelled", resumeAt: null, pendingSteps: [], completedAt: new Date() })
+      .where(and(eq(workflowExecutions.id, id), eq(workflowExecutions.status, "paused")))
+      .returning();
+    return row;
+  }
+
+  async claimScheduleSlot(workflowId: string, nodeKey: string, scheduledFor: Date): Promise<boolean> {
+    const inserted = await db
+      .insert(workflowScheduleRuns)
+      .values({ workflowId, nodeKey, scheduledFor })
+      .onConflictDoNothing()
+      .returning({ id: workflowScheduleRuns.id });
+    return inserted.length > 0;
+  }
+}
@@ -0,0 +1,292 @@
+import { lookupPath } from "./notifications";
+
+/**
+ * Small boolean expression language for workflow conditions, e.g.
+ *   total >= 20 && customer.tier in ["vip", "loyal"]
+ *   not (segment == "dormant") or branchId == "6f0c..."
+ * Supports numbers, strings, true/false/null, lists, dotted context paths, parentheses,
+ * `== != > >= < <= in contains`, and `&& || !` (or `and or not`).
+ */
+export type ExpressionNode =
+  | { kind: "literal"; value: unknown }
+  | { kind: "path"; path: string }
+  | { kind: "list"; items: ExpressionNode[] }
+  | { kind: "not"; operand: ExpressionNode }
+  | { kind: "logical"; operator: "&&" | "||"; left: ExpressionNode; right: ExpressionNode }
+  | { kind: "compare"; operator: CompareOperator; left: ExpressionNode; right: ExpressionNode };
+
+type CompareOperator = "==" | "!=" | ">" | ">=" | "<" | "<=" | "in" | "contains";
+
+type Token =
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "identifier"; value: string; position: number }
+  | { type: "operator"; value: string; position: number }
+  | { type: "punctuation"; value: string; position: number };
+
+const OPERATORS = ["&&", "||", "==", "!=", ">=", "<=", ">", "<", "!"];
+const KEYWORD_OPERATORS: Record<string, string> = { and: "&&", or: "||", not: "!" };
+const COMPARE_OPERATORS = new Set<string>(["==", "!=", ">", ">=", "<", "<=", "in", "contains"]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (/[0-9]/.test(char) || (char === "-" && /[0-9]/.test(source[index + 1] ?? ""))) {
+      const match = /^-?\d+(\.\d+)?/.exec(source.slice(index))!;
+      tokens.push({ type: "number", value: Number(match[0]), position: index });
+      index += match[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let end = index + 1;
+      let value = "";
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === "\\" && end + 1 < source.length) end++;
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        throw new Error(`Unterminated string starting at position ${index + 1}`);
+      }
+      tokens.push({ type: "string", value, position: index });
+      index = end + 1;
+      continue;
+    }
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][\w.]*/.exec(source.slice(index))!;
+      const word = match[0];
+      const keyword = KEYWORD_OPERATORS[word.toLowerCase()];
+      if (keyword) {
+        tokens.push({ type: "operator", value: keyword, position: index });
+      } else if (word === "in" || word === "contains") {
+        tokens.push({ type: "operator", value: word, position: index });
+      } else {
+        tokens.push({ type: "identifier", value: word, position: index });
+      }
+      index += word.length;
+      continue;
+    }
+    const operator = OPERATORS.find((op) => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+    if ("()[],".includes(char)) {
+      tokens.push({ type: "punctuation", value: char, position: index });
+      index++;
+      continue;
+    }
+    throw new Error(`Unexpected character "${char}" at position ${index + 1}`);
+  }
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly source: string,
+  ) {}
+
+  parse(): ExpressionNode {
+    if (!this.tokens.length) {
+      throw new Error("Expression is empty");
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new Error(`Unexpected "${extra.value}" at position ${extra.position + 1}`);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new Error(`Unexpected end of expression "${this.source}"`);
+    }
+    return token;
+  }
+
+  private matches(type: Token["type"], value: string): boolean {
+    const token = this.peek();
+    if (token && token.type === type && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(type: Token["type"], value: string): void {
+    const token = this.next();
+    if (token.type !== type || token.value !== value) {
+      throw new Error(`Expected "${value}" at position ${token.position + 1}`);
+    }
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matches("operator", "||")) {
+      left = { kind: "logical", operator: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matches("operator", "&&")) {
+      left = { kind: "logical", operator: "&&", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matches("operator", "!")) {
+      return { kind: "not", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parseValue();
+    const token = this.peek();
+    if (token?.type === "operator" && COMPARE_OPERATORS.has(token.value)) {
+      this.index++;
+      return { kind: "compare", operator: token.value as CompareOperator, left, right: this.parseValue() };
+    }
+    return left;
+  }
+
+  private parseValue(): ExpressionNode {
+    const token = this.next();
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "identifier":
+        if (token.value === "true") return { kind: "literal", value: true };
+        if (token.value === "false") return { kind: "literal", value: false };
+        if (token.value === "null") return { kind: "literal", value: null };
+        return { kind: "path", path: token.value };
+      case "punctuation":
+        if (token.value === "(") {
+          const inner = this.parseOr();
+          this.expect("punctuation", ")");
+          return inner;
+        }
+        if (token.value === "[") {
+          const items: ExpressionNode[] = [];
+          if (!this.matches("punctuation", "]")) {
+            do {
+              items.push(this.parseValue());
+            } while (this.matches("punctuation", ","));
+            this.expect("punctuation", "]");
+          }
+          return { kind: "list", items };
+        }
+        break;
+      default:
+        break;
+    }
+    throw new Error(`Unexpected "${token.value}" at position ${token.position + 1}`);
+  }
+}
+
+export function parseExpression(source: string): ExpressionNode {
+  return new Parser(tokenize(source), source).parse();
+}
+
+/** Returns the parse error message for an invalid expression, or null when it is valid. */
+export function validateExpression(source: unknown): string | null {
+  if (typeof source !== "string" || !source.trim()) {
+    return "Expression is empty";
+  }
+  try {
+    parseExpression(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() && !Number.isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+// Numeric columns arrive as strings ("12.50"), so numeric-looking values compare as numbers.
+function looselyEqual(left: unknown, right: unknown): boolean {
+  if (left === undefined) left = null;
+  if (right === undefined) right = null;
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (leftNumber !== null && rightNumber !== null) return leftNumber === rightNumber;
+  return left === right;
+}
+
+function compare(operator: CompareOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case "==":
+      return looselyEqual(left, right);
+    case "!=":
+      return !looselyEqual(left, right);
+    case "in":
+      return Array.isArray(right) && right.some((item) => looselyEqual(left, item));
+    case "contains":
+      if (Array.isArray(left)) return left.some((item) => looselyEqual(item, right));
+      return typeof left === "string" && right !== null && right !== undefined && left.includes(String(right));
+    default: {
+      const leftNumber = toNumber(left);
+      const rightNumber = toNumber(right);
+      const [a, b] =
+        leftNumber !== null && rightNumber !== null
+          ? [leftNumber, rightNumber]
+          : typeof left === "string" && typeof right === "string"
+          ? [left, right]
+          : [null, null];
+      if (a === null || b === null) return false;
+      if (operator === ">") return a > b;
+      if (operator === ">=") return a >= b;
+      if (operator === "<") return a < b;
+      return a <= b;
+    }
+  }
+}
+
+function evaluateNode(node: ExpressionNode, context: Record<string, unknown>): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "path":
+      return lookupPath(context, node.path);
+    case "list":
+      return node.items.map((item) => evaluateNode(item, context));
+    case "not":
+      return !evaluateNode(node.operand, context);
+    case "logical": {
+      const left = Boolean(evaluateNode(node.left, context));
+      if (node.operator === "&&") return left && Boolean(evaluateNode(node.right, context));
+      return left || Boolean(evaluateNode(node.right, context));
+    }
+    case "compare":
+      return compare(node.operator, evaluateNode(node.left, context), evaluateNode(node.right, context));
+  }
+}
+
+export function evaluateExpression(source: string | ExpressionNode, context: Record<string, unknown>): boolean {
+  const node = typeof source === "string" ? parseExpression(source) : source;
+  return Boolean(evaluateNode(node, context));
+}
@@ -0,0 +1,151 @@
+import { and, asc, eq, isNull, or } from "drizzle-orm";
+import {
+  customerEngagementPlans,
+  customers,
+  workflowNotificationTemplates,
+  type InsertWorkflowNotificationTemplate,
+  type WorkflowNotificationTemplate,
+} from "@shared/schema";
+import { db } from "../../db";
+
+/** Customer fields exposed to templates and conditions as `customer.*`. */
+export interface WorkflowCustomerContact {
+  name: string;
+  phoneNumber: string | null;
+  email: string | null;
+  loyaltyPoints: number;
+  totalSpent: number;
+  /** Engagement tier (`customer_engagement_plans.churn_tier`), null until a plan exists. */
+  tier: string | null;
+}
+
+export interface WorkflowNotificationRepository {
+  /** Returns the branch-specific template when one exists, otherwise the global one. */
+  getTemplate(key: string, branchId?: string | null): Promise<WorkflowNotificationTemplate | undefined>;
+  listTemplates(branchId?: string | null): Promise<WorkflowNotificationTemplate[]>;
+  getTemplateById(id: string): Promise<WorkflowNotificationTemplate | undefined>;
+  saveTemplate(template: InsertWorkflowNotificationTemplate, id?: string): Promise<WorkflowNotificationTemplate | undefined>;
+  deleteTemplate(id: string): Promise<boolean>;
+  getCustomerContact(customerId: string): Promise<WorkflowCustomerContact | undefined>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/** Resolves a dotted path such as `customer.name` against the workflow context. */
+export function lookupPath(context: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, segment) => {
+    if (value && typeof value === "object") {
+      return (value as Record<string, unknown>)[segment];
+    }
+    return undefined;
+  }, context);
+}
+
+/**
+ * Replaces `{{field}}` / `{{customer.name}}` placeholders with values from the workflow context.
+ * Missing values render as empty strings; `escape: "html"` is used for email bodies.
+ */
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>,
+  options: { escape?: "html" } = {},
+): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, path: string) => {
+    const value = lookupPath(context, path);
+    if (value === undefined || value === null) return "";
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return options.escape === "html" ? text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]) : text;
+  });
+}
+
+export class DrizzleWorkflowNotificationRepository implements WorkflowNotificationRepository {
+  async getTemplate(key: string, branchId?: string | null): Promise<WorkflowNotificationTemplate | undefined> {
+    const scope =
+      branchId && UUID_PATTERN.test(branchId)
+        ? or(eq(workflowNotificationTemplates.branchId, branchId), isNull(workflowNotificationTemplates.branchId))
+        : isNull(workflowNotificationTemplates.branchId);
+    const rows = await db
+      .select()
+      .from(workflowNotificationTemplates)
+      .where(and(eq(workflowNotificationTemplates.key, key), scope));
+    return rows.find((row) => row.branchId) ?? rows[0];
+  }
+
+  async listTemplates(branchId?: string | null): Promise<WorkflowNotificationTemplate[]> {
+    return db
+      .select()
+      .from(workflowNotificationTemplates)
+      .where(
+        branchId
+          ? or(eq(workflowNotificationTemplates.branchId, branchId), isNull(workflowNotificationTemplates.branchId))
+          : undefined,
+      )
+      .orderBy(asc(workflowNotificationTemplates.key));
+  }
+
+  async getTemplateById(id: string): Promise<WorkflowNotificationTemplate | undefined> {
+    if (!UUID_PATTERN.test(id)) return undefined;
+    const [template] = await db
+      .select()
+      .from(workflowNotificationTemplates)
+      .where(eq(workflowNotificationTemplates.id, id));
+    return template;
+  }
+
+  async saveTemplate(
+    template: InsertWorkflowNotificationTemplate,
+    id?: string,
+  ): Promise<WorkflowNotificationTemplate | undefined> {
+    const values = {
+      key: template.key,
+      branchId: template.branchId ?? null,
+      channel: template.channel,
+      subject: template.subject ?? null,
+      body: template.body,
+    };
+    if (id) {
+      const [updated] = await db
+        .update(workflowNotificationTemplates)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(workflowNotificationTemplates.id, id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db.insert(workflowNotificationTemplates).values(values).returning();
+    return created;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(workflowNotificationTemplates)
+      .where(eq(workflowNotificationTemplates.id, id))
+      .returning({ id: workflowNotificationTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async getCustomerContact(customerId: string): Promise<WorkflowCustomerContact | undefined> {
+    if (!UUID_PATTERN.test(customerId)) return undefined;
+    const [customer] = await db
+      .select({
+        name: customers.name,
+        phoneNumber: customers.phoneNumber,
+        email: customers.email,
+        loyaltyPoints: customers.loyaltyPoints,
+        totalSpent: customers.totalSpent,
+        tier: customerEngagementPlans.churnTier,
+      })
+      .from(customers)
+      .leftJoin(customerEngagementPlans, eq(customerEngagementPlans.customerId, customers.id))
+      .where(eq(customers.id, customerId));
+    return customer ? { ...customer, totalSpent: Number(customer.totalSpent) } : undefined;
+  }
+}
@@ -0,0 +1,57 @@
+import { sql } from "drizzle-orm";
+import { db } from "../../db";
+
+export interface OverduePayLaterOrder {
+  orderId: string;
+  orderNumber: string | null;
+  customerId: string;
+  branchId: string | null;
+  total: number;
+  outstanding: number;
+  createdAt: Date;
+}
+
+export interface PayLaterOrderSource {
+  /** Unsettled pay-later orders created within [createdFrom, createdTo], oldest first. */
+  findUnsettledOrders(params: {
+    createdFrom: Date;
+    createdTo: Date;
+    branchId?: string | null;
+    limit: number;
+  }): Promise<OverduePayLaterOrder[]>;
+}
+
+export class DrizzlePayLaterOrderSource implements PayLaterOrderSource {
+  async findUnsettledOrders(params: {
+    createdFrom: Date;
+    createdTo: Date;
+    branchId?: string | null;
+    limit: number;
+  }): Promise<OverduePayLaterOrder[]> {
+    const branchFilter = params.branchId ? sql`AND o.branch_id = ${params.branchId}` : sql``;
+    const { rows }: any = await db.execute(sql`
+      SELECT o.id, o.order_number, o.customer_id, o.branch_id, o.total::numeric AS total,
+             o.total::numeric - COALESCE(SUM(p.amount), 0) AS outstanding, o.created_at
+      FROM orders o
+      LEFT JOIN payments p ON p.order_id = o.id
+      WHERE o.payment_method = 'pay_later'
+        AND o.customer_id IS NOT NULL
+        AND o.created_at >= ${params.createdFrom.toISOString()}
+        AND o.created_at <= ${params.createdTo.toISOString()}
+        ${branchFilter}
+      GROUP BY o.id
+      HAVING o.total::numeric - COALESCE(SUM(p.amount), 0) > 0
+      ORDER BY o.created_at
+      LIMIT ${params.limit}
+    `);
+    return rows.map((row: any) => ({
+      orderId: row.id,
+      orderNumber: row.order_number ?? null,
+      customerId: row.customer_id,
+      branchId: row.branch_id ?? null,
+      total: Number(row.total),
+      outstanding: Number(row.outstanding),
+      createdAt: new Date(row.created_at),
+    }));
+  }
+}
@@ -0,0 +1,153 @@
+const MINUTE_MS = 60_000;
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }, // day of week (0 and 7 are Sunday)
+];
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Cron treats day-of-month and day-of-week as OR when both are restricted. */
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+function parseField(part: string, field: CronField, label: string): Set<number> {
+  const values = new Set<number>();
+  for (const item of part.split(",")) {
+    const [range, stepText] = item.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in cron ${label}`);
+    }
+    let start = field.min;
+    let end = field.max;
+    if (range !== "*") {
+      const [fromText, toText] = range.split("-");
+      start = Number(fromText);
+      end = toText === undefined ? (stepText === undefined ? start : field.max) : Number(toText);
+    }
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < field.min ||
+      end > field.max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron ${label} "${item}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/** Parses a standard five-field cron expression (minute hour day-of-month month day-of-week). */
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error("Cron expressions need five fields: minute hour day-of-month month day-of-week");
+  }
+  const labels = ["minute", "hour", "day of month", "month", "day of week"];
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], labels[index]),
+  );
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    source: expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: parts[2] !== "*",
+    dowRestricted: parts[4] !== "*",
+  };
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      minute: "numeric",
+      hour: "numeric",
+      day: "numeric",
+      month: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+  const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  return {
+    minute: Number(parts.minute),
+    hour: Number(parts.hour),
+    day: Number(parts.day),
+    month: Number(parts.month),
+    weekday: weekdays.indexOf(parts.weekday),
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function cronMatches(cron: CronExpression, date: Date, timeZone = "UTC"): boolean {
+  const parts = zonedParts(date, timeZone);
+  if (!cron.minutes.has(parts.minute) || !cron.hours.has(parts.hour) || !cron.months.has(parts.month)) {
+    return false;
+  }
+  const domMatch = cron.daysOfMonth.has(parts.day);
+  const dowMatch = cron.daysOfWeek.has(parts.weekday);
+  if (cron.domRestricted && cron.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Returns the most recent minute in `(since, now]` matching the expression, or null.
+ * The scheduler only fires the latest missed occurrence, so downtime never causes a burst of runs.
+ */
+export function latestCronOccurrence(
+  cron: CronExpression,
+  now: Date,
+  since: Date,
+  timeZone = "UTC",
+): Date | null {
+  let cursor = Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS;
+  const floor = since.getTime();
+  while (cursor > floor) {
+    const candidate = new Date(cursor);
+    if (cronMatches(cron, candidate, timeZone)) {
+      return candidate;
+    }
+    cursor -= MINUTE_MS;
+  }
+  return null;
+}
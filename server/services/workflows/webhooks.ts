@@ -0,0 +1,210 @@
+import { createHmac } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Workflow-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Workflow-Timestamp";
+
+export type WebhookFetch = (url: string, init: RequestInit) => Promise<Pick<Response, "status" | "ok">>;
+/** Resolves a hostname to every address it points at. */
+export type WebhookHostLookup = (hostname: string) => Promise<string[]>;
+
+export interface WebhookAttempt {
+  attempt: number;
+  status: number | null;
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface WebhookDeliveryOptions {
+  url: string;
+  body: Record<string, unknown>;
+  secret?: string | null;
+  maxAttempts?: number;
+  timeoutMs?: number;
+  backoffMs?: number;
+  fetchImpl?: WebhookFetch;
+  lookupHost?: WebhookHostLookup;
+  /** Hosts that may resolve to private addresses, e.g. an on-premises integration. */
+  allowedHosts?: string[];
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => Date;
+  onAttempt?: (attempt: WebhookAttempt) => Promise<void> | void;
+}
+
+export interface WebhookDeliveryResult {
+  delivered: boolean;
+  attempts: WebhookAttempt[];
+}
+
+/** Receivers recompute `sha256=HMAC(secret, "<timestamp>.<body>")` to verify the payload. */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges.
+// BlockList checks IPv4-mapped IPv6 addresses against the IPv4 ranges.
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+const defaultLookupHost: WebhookHostLookup = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+function configuredAllowedHosts(): string[] {
+  return (process.env.WORKFLOW_WEBHOOK_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Rejects URLs that are not http(s) or whose host resolves to an internal address, so workflow
+ * authors cannot reach services behind the firewall. Returns the reason, or null when allowed.
+ */
+export async function checkWebhookTarget(
+  url: string,
+  options: { lookupHost?: WebhookHostLookup; allowedHosts?: string[] } = {},
+): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return `Invalid webhook URL: ${url}`;
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return "Webhook URL must use http or https";
+  }
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if ((options.allowedHosts ?? configuredAllowedHosts()).includes(hostname)) {
+    return null;
+  }
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : await (options.lookupHost ?? defaultLookupHost)(hostname);
+  } catch (error) {
+    return `Could not resolve ${hostname}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return `Webhook host ${hostname} resolves to a private or reserved address`;
+  }
+  return null;
+}
+
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * POSTs a JSON payload, retrying network errors, timeouts, 408/429 and 5xx responses with
+ * exponential backoff. Other 4xx responses are treated as permanent failures. Internal targets
+ * are refused before any request is made, and redirects are not followed.
+ */
+export async function deliverWebhook(options: WebhookDeliveryOptions): Promise<WebhookDeliveryResult> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const timeoutMs = options.timeoutMs ?? 10_000;
+  const backoffMs = options.backoffMs ?? 500;
+  const fetchImpl: WebhookFetch = options.fetchImpl ?? ((url, init) => fetch(url, init));
+  const sleep = options.sleep ?? defaultSleep;
+  const now = options.now ?? (() => new Date());
+
+  const blocked = await checkWebhookTarget(options.url, {
+    lookupHost: options.lookupHost,
+    allowedHosts: options.allowedHosts,
+  });
+  if (blocked) {
+    return { delivered: false, attempts: [{ attempt: 1, status: null, ok: false, durationMs: 0, error: blocked }] };
+  }
+
+  const body = JSON.stringify(options.body);
+  const attempts: WebhookAttempt[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const timestamp = String(Math.floor(now().getTime() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+    };
+    if (options.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(options.secret, timestamp, body);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const startedAt = Date.now();
+    let result: WebhookAttempt;
+    try {
+      const response = await fetchImpl(options.url, {
+        method: "POST",
+        headers,
+        body,
+        redirect: "manual",
+        signal: controller.signal,
+      });
+      result = {
+        attempt,
+        status: response.status,
+        ok: response.ok,
+        durationMs: Date.now() - startedAt,
+      };
+    } catch (error) {
+      result = {
+        attempt,
+        status: null,
+        ok: false,
+        durationMs: Date.now() - startedAt,
+        error: controller.signal.aborted
+          ? `Timed out after ${timeoutMs}ms`
+          : error instanceof Error
+          ? error.message
+          : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+
+    attempts.push(result);
+    await options.onAttempt?.(result);
+    if (result.ok) {
+      return { delivered: true, attempts };
+    }
+    if (!isRetryable(result.status) || attempt === maxAttempts) {
+      break;
+    }
+    await sleep(backoffMs * 2 ** (attempt - 1));
+  }
+
+  return { delivered: false, attempts };
+}
@@ -51,6 +51,9 @@ import {
     loyaltyHistory,
     notifications,
     securitySettings,
+    userTwoFactor,
+    type UserTwoFactor,
+    type InsertUserTwoFactor,
     cities,
     branchServiceCities,
   type City, type InsertCity,
@@ -71,6 +74,18 @@ import {
   type BranchCustomization,
   type BranchCustomizationInsert,
   branchCustomizationTable,
+  branchTaxProfiles,
+  branchTaxOverrides,
+  type BranchTaxProfileWithOverrides,
+  type InsertBranchTaxProfile,
+  catalogExperiments,
+  catalogExperimentChanges,
+  catalogExperimentApprovals,
+  type CatalogExperimentRecord,
+  type InsertCatalogExperimentRecord,
+  type InsertCatalogExperimentChangeRecord,
+  type CatalogExperimentWithDetails,
+  type CatalogExperimentPriceSnapshot,
   // Customer dashboard + ads
   customerDashboardSettings,
   branchAds,
@@ -93,11 +108,98 @@ import {
   driverLocations,
   driverLocationTelemetry,
   type DriverLocation,
+  deliveryMessages,
+  deliveryPortalOtps,
+  type DeliveryMessage,
+  type InsertDeliveryMessage,
+  type DeliveryPortalOtp,
+  deliveryReschedules,
+  deliveryCompensations,
+  customerWalletTransactions,
+  type CustomerWalletTransaction,
+  type CustomerWalletTransactionType,
+  orderRefunds,
+  type OrderRefund,
+  type InsertOrderRefund,
+  type OrderRefundStatus,
+  type OrderRefundAllocation,
+  type DeliveryReschedule,
+  type InsertDeliveryReschedule,
+  type DeliveryCompensation,
+  type InsertDeliveryCompensation,
+  type DeliveryCompensationStatus,
   expenses, type Expense, type InsertExpense,
-  cashSessions, type InsertCashSession,
+  cashSessions, type CashSession, type InsertCashSession,
+  glMappings, type GlMapping,
+  journalEntries,
+  journalLines,
+  type JournalEntryWithLines,
+  accountingPeriods,
+  type AccountingPeriod,
+  auditEvents,
+  type AuditEvent,
+  type TrialBalanceRow,
+  orderPieces,
+  orderPieceScans,
+  branchCapacitySettings,
+  branchServiceCapacities,
+  type BranchCapacitySettings,
+  branchOpeningHours,
+  branchCalendarEntries,
+  type BranchCalendarEntryRow,
+  deliverySlots,
+  deliverySlotBookings,
+  type DeliverySlot,
+  type DeliverySlotBooking,
+  loyaltyPrograms,
+  type LoyaltyProgram,
+  subscriptionPlans,
+  customerSubscriptions,
+  subscriptionCycles,
+  type SubscriptionPlan,
+  type CustomerSubscription,
+  type SubscriptionCycle,
+  households,
+  householdMembers,
+  customerPackageShares,
+  customerPackageUsages,
+  customerPackageTransfers,
+  type Household,
+  type HouseholdMember,
+  type CustomerPackageShare,
+  type CustomerPackageUsage,
+  type CustomerPackageTransfer,
+  orderNumberReservations,
+  reservedOrderNumbers,
+  type OrderNumberReservation,
+  idempotencyKeys,
+  type IdempotencyKey,
+  type OrderPiece,
+  type OrderPieceScan,
   orderStatusEnum,
   deliveryStatusEnum,
 } from "@shared/schema";
+import {
+  expandOrderPieces,
+  formatTagCode,
+  GARMENT_PIECE_DONE_STATUSES,
+  type GarmentPieceStatus,
+} from "@shared/garment-tags";
+import type { CapacityLoad, ServiceDailyCapacity } from "@shared/capacity";
+import type { BranchCalendar, BranchCalendarEntry, WeeklyHours } from "@shared/branch-hours";
+import { slotKey, type DeliverySlotLoad, type DeliverySlotTemplate } from "@shared/delivery-slots";
+import { expiringPoints } from "@shared/loyalty";
+import {
+  nextSubscriptionPeriod,
+  rolloverCredits,
+  subscriptionPeriodEnd,
+  type SubscriptionBillingMethod,
+  type SubscriptionCredit,
+  type SubscriptionPeriod,
+  type SubscriptionStatus,
+} from "@shared/subscriptions";
+import { transferableCredits } from "@shared/households";
+import { formatOrderNumber, orderNumberSequence } from "@shared/offline-pos";
 import { randomUUID } from "crypto";
 import { db } from "./db";
 import {
@@ -115,6 +217,7 @@ import {
   lte,
   lt,
   isNull,
+  notInArray,
 } from "drizzle-orm";
 import bcrypt from "bcryptjs";
 import {
@@ -124,6 +227,23 @@ import {
 } from "./seed-data";
 import { PRICE_MATRIX } from "./seed-prices";
 import { calculateBearing, estimateSpeedKph, haversineDistance } from "./utils/geolocation";
+import {
+  ClosedPeriodError,
+  cashSessionPosting,
+  createAccountResolver,
+  deliveryCompensationPosting,
+  loyaltyRedemptionPosting,
+  loyaltyRedemptionReversalPosting,
+  subscriptionChargePosting,
+  expensePosting,
+  orderPosting,
+  orderRefundPosting,
+  paymentPosting,
+  walletPosting,
+  type LedgerActivity,
+  type LedgerPosting,
+  type PaymentPurpose,
+} from "./services/ledger";
 
 // Simple UUID v4-ish validator to guard raw SQL string interpolation
 function assertUuid(id: string) {
@@ -149,8 +269,106 @@ export const RBAC_PERMISSION_SLUGS = {
   analyticsManage: "analytics.datasets.manage",
   workflowEdit: "workflows.builder.edit",
   workflowPublish: "workflows.builder.publish",
+  ordersCreate: "orders.create",
+  ordersEdit: "orders.edit",
+  ordersRefund: "orders.refund",
+  ordersRefundApprove: "orders.refund.approve",
+  paymentsRecord: "payments.record",
+  cashOpen: "cash.open",
+  cashClose: "cash.close",
+  catalogEdit: "catalog.edit",
+  catalogPriceEdit: "catalog.price.edit",
+  customersRead: "customers.read",
+  customersEdit: "customers.edit",
+  customersExport: "customers.export",
+  customersWalletRefund: "customers.wallet.refund",
+  deliveryManage: "delivery.manage",
+  expensesManage: "expenses.manage",
+  reportsRead: "reports.read",
+  reportsFinancialRead: "reports.financial.read",
+  accountingManage: "accounting.manage",
+  settingsManage: "settings.manage",
+  rolesManage: "roles.manage",
+  auditRead: "audit.read",
+  dataQualityManage: "data_quality.manage",
 } as const;
 
+export type PermissionSlug = (typeof RBAC_PERMISSION_SLUGS)[keyof typeof RBAC_PERMISSION_SLUGS];
+
+export interface PermissionDefinition {
+  slug: PermissionSlug;
+  resource: string;
+  action: string;
+  description: string;
+}
+
+const P = RBAC_PERMISSION_SLUGS;
+
+export const PERMISSION_DEFINITIONS: PermissionDefinition[] = [
+  { slug: P.analyticsRead, resource: "analytics.datasets", action: "read", description: "View curated analytics datasets and dashboards" },
+  { slug: P.analyticsManage, resource: "analytics.datasets", action: "manage", description: "Create or modify analytics datasets and derived views" },
+  { slug: P.workflowEdit, resource: "workflows.builder", action: "edit", description: "Design and edit workflow definitions" },
+  { slug: P.workflowPublish, resource: "workflows.builder", action: "publish", description: "Publish workflow changes to production" },
+  { slug: P.ordersCreate, resource: "orders", action: "create", description: "Ring up sales and create orders" },
+  { slug: P.ordersEdit, resource: "orders", action: "edit", description: "Edit orders and move them through statuses" },
+  { slug: P.ordersRefund, resource: "orders", action: "refund", description: "Request refunds and voids" },
+  { slug: P.ordersRefundApprove, resource: "orders.refund", action: "approve", description: "Approve or reject refunds and voids" },
+  { slug: P.paymentsRecord, resource: "payments", action: "record", description: "Record customer payments" },
+  { slug: P.cashOpen, resource: "cash", action: "open", description: "Open a cash drawer session" },
+  { slug: P.cashClose, resource: "cash", action: "close", description: "Count and close a cash drawer session" },
+  { slug: P.catalogEdit, resource: "catalog", action: "edit", description: "Manage categories, items, services, products and packages" },
+  { slug: P.catalogPriceEdit, resource: "catalog.price", action: "edit", description: "Change prices and tax profiles" },
+  { slug: P.customersRead, resource: "customers", action: "read", description: "Look up customers and their history" },
+  { slug: P.customersEdit, resource: "customers", action: "edit", description: "Create and update customers" },
+  { slug: P.customersExport, resource: "customers", action: "export", description: "Export customer lists" },
+  { slug: P.customersWalletRefund, resource: "customers.wallet", action: "refund", description: "Refund money into customer wallets" },
+  { slug: P.deliveryManage, resource: "delivery", action: "manage", description: "Dispatch deliveries and approve delivery compensation" },
+  { slug: P.expensesManage, resource: "expenses", action: "manage", description: "Record and edit branch expenses" },
+  { slug: P.reportsRead, resource: "reports", action: "read", description: "View operational reports" },
+  { slug: P.reportsFinancialRead, resource: "reports.financial", action: "read", description: "View revenue, payment and accounting reports" },
+  { slug: P.accountingManage, resource: "accounting", action: "manage", description: "Maintain GL mappings and close accounting periods" },
+  { slug: P.settingsManage, resource: "settings", action: "manage", description: "Manage branch settings, ads, cities and security" },
+  { slug: P.rolesManage, resource: "roles", action: "manage", description: "Define roles and per-user permission overrides" },
+  { slug: P.auditRead, resource: "audit", action: "read", description: "Browse and export the audit log" },
+  { slug: P.dataQualityManage, resource: "data_quality", action: "manage", description: "Review, run and resolve data quality checks" },
+];
+
+export const BUILT_IN_ROLES = ["super_admin", "admin", "user", "driver"] as const;
+
+// Defaults for the built-in roles. super_admin always holds every permission; the rest are
+// seeded into role_permissions and can be edited like custom roles.
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, PermissionSlug[]> = {
+  super_admin: PERMISSION_DEFINITIONS.map((def) => def.slug),
+  admin: PERMISSION_DEFINITIONS.map((def) => def.slug).filter(
+    (slug) => slug !== P.rolesManage && slug !== P.analyticsManage,
+  ),
+  user: [
+    P.analyticsRead,
+    P.ordersCreate,
+    P.ordersEdit,
+    P.ordersRefund,
+    P.paymentsRecord,
+    P.cashOpen,
+    P.cashClose,
+    P.customersRead,
+    P.customersEdit,
+  ],
+  driver: [],
+};
+
+// Role permissions plus the user's grants, minus their denies. super_admin cannot be narrowed.
+export function mergePermissions(
+  role: string,
+  rolePerms: Iterable<string>,
+  overrides: { grants: Iterable<string>; denies: Iterable<string> },
+): string[] {
+  if (role === "super_admin") return [...DEFAULT_ROLE_PERMISSIONS.super_admin].sort();
+  const combined = new Set<string>(rolePerms);
+  for (const slug of overrides.grants) combined.add(slug);
+  for (const slug of overrides.denies) combined.delete(slug);
+  return Array.from(combined).sort();
+}
+
 const PAY_LATER_AGGREGATE = `
   SELECT order_id, SUM(amount) AS amount
   FROM payments
@@ -167,6 +385,183 @@ export type ReportDateRangeFilter = {
   end?: Date;
 };
 
+export type AuditEventFilter = {
+  branchId?: string;
+  entityType?: string;
+  entityId?: string;
+  actorId?: string;
+  // Exact type, or a prefix ending in `*` such as `order.*`
+  eventType?: string;
+  severity?: string;
+  start?: Date;
+  end?: Date;
+  // Keyset position: events strictly older than this one
+  before?: { createdAt: Date; id: string };
+  limit: number;
+};
+
+export type AuditEventWithActor = AuditEvent & { actorName: string | null };
+
+export interface MissingPiecesOrder {
+  orderId: string;
+  orderNumber: string;
+  branchId: string;
+  customerName: string;
+  status: string;
+  promisedReadyDate: string;
+  totalPieces: number;
+  missingPieces: { tagCode: string; description: string; status: GarmentPieceStatus }[];
+}
+
+export interface BranchCapacity {
+  settings: BranchCapacitySettings | null;
+  services: ServiceDailyCapacity[];
+}
+
+export type DeliverySlotInput = Omit<DeliverySlotTemplate, "id">;
+
+export interface DeliverySlotReservationRequest {
+  slotId: string;
+  slotDate: string;
+  cityId: string | null;
+  orderId?: string | null;
+  // Rebooking an existing delivery releases its current slot of the same kind in the same transaction
+  deliveryId?: string | null;
+}
+
+export type DeliverySlotReservation =
+  | { ok: true; booking: DeliverySlotBooking }
+  | { ok: false; reason: "unavailable" | "full" | "zone_full" };
+
+export type LoyaltyProgramInput = Omit<LoyaltyProgram, "branchId" | "updatedAt">;
+
+export interface OrderLoyaltyPosting {
+  customerId: string;
+  branchId: string;
+  orderId: string;
+  earned: number;
+  redeemed: number;
+  /** Money value of the redeemed points, booked against the order's receivable. */
+  redeemedValue: number;
+  expiresAt: Date | null;
+}
+
+export type OrderLoyaltyResult =
+  | { ok: true; balance: number }
+  | { ok: false; reason: "customer_not_found" | "insufficient_points" };
+
+// Applying the refund would take the order's completed refunds past its total
+export class OrderRefundExceedsTotalError extends Error {
+  constructor(public readonly refundable: number) {
+    super(`Only ${refundable.toFixed(2)} is left to refund on this order`);
+    this.name = "OrderRefundExceedsTotalError";
+  }
+}
+
+export type SubscriptionPlanInput = Omit<SubscriptionPlan, "id" | "branchId" | "createdAt" | "updatedAt">;
+
+export type CustomerSubscriptionWithPlan = CustomerSubscription & {
+  plan: SubscriptionPlan;
+  cycles: SubscriptionCycle[];
+};
+
+export interface SubscriptionStartRequest {
+  customerId: string;
+  branchId: string;
+  plan: SubscriptionPlan;
+  billingMethod: SubscriptionBillingMethod;
+  cardReference: string | null;
+  receivedBy: string;
+  now: Date;
+}
+
+export interface SubscriptionCycleResult {
+  subscription: CustomerSubscription;
+  cycle: SubscriptionCycle;
+}
+
+export interface SubscriptionReminderCandidate {
+  subscription: CustomerSubscription;
+  plan: SubscriptionPlan;
+  customer: { name: string; phoneNumber: string; email: string | null };
+}
+
+export type HouseholdWithMembers = Household & {
+  members: (HouseholdMember & { name: string; phoneNumber: string })[];
+};
+
+// A package owned by another household member that the customer may draw from
+export type SharedCustomerPackage = CustomerPackageWithUsage & {
+  ownerCustomerId: string;
+  ownerName: string;
+  shareId: string;
+  creditLimit: number | null;
+  creditsUsed: number;
+};
+
+export type CustomerPackageShareWithCustomer = CustomerPackageShare & { customerName: string };
+
+export interface PackageCreditConsumption {
+  customerPackageId: string;
+  serviceId: string;
+  clothingItemId: string;
+  quantity: number;
+}
+
+export type CustomerPackageUsageEntry = CustomerPackageUsage & {
+  customerName: string;
+  orderNumber: string | null;
+};
+
+export interface PackageTransferRequest {
+  customerPackageId: string;
+  toCustomerId: string;
+  branchId: string;
+  reason: string | null;
+  transferredBy: string | null;
+}
+
+export interface PackageTransferResult {
+  transfer: CustomerPackageTransfer;
+  customerPackage: CustomerPackage;
+}
+
+export interface ReservedOrderNumber {
+  reservationId: string;
+  orderNumber: string;
+}
+
+export interface CreateOrderOptions {
+  // Offline orders keep the number the device printed when it came from the device's reservation and is still free
+  reservedOrderNumber?: ReservedOrderNumber;
+}
+
+// Set only when an offline POS order syncs
+export type OfflineOrderFields = Partial<Pick<Order, "offlineId" | "offlineCreatedAt" | "offlineConflicts">>;
+
+export type OrderNumberReservationWithCode = OrderNumberReservation & { branchCode: string };
+
+export interface IdempotencyKeyClaim {
+  scope: string;
+  key: string;
+  requestHash: string;
+  expiresAt: Date;
+}
+
+// `claimed` is false when another request already holds the key; `record` is that request's row,
+// missing only if it was released between the two statements
+export interface IdempotencyKeyClaimResult {
+  claimed: boolean;
+  record?: IdempotencyKey;
+}
+
+export type ProductionPiece = OrderPiece & {
+  orderNumber: string;
+  customerName: string;
+  orderStatus: Order["status"];
+  promisedReadyDate: string;
+};
+
 function buildOrderDateFilter(alias: string, filter: ReportDateRangeFilter): string {
   const clauses = [`${alias}.is_delivery_request = false`];
   if (filter.branchId) {
@@ -314,6 +709,18 @@ function arraysEqual(a: string[], b: string[]): boolean {
   return a.every((value, index) => value === b[index]);
 }
 
+function toCalendarEntry(row: BranchCalendarEntryRow): BranchCalendarEntry {
+  return {
+    id: row.id,
+    kind: row.kind,
+    label: row.label,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    opensAt: row.opensAt ?? null,
+    closesAt: row.closesAt ?? null,
+  };
+}
+
 const customerPasswordOtps = new Map<string, { otp: string; expires: Date }>();
 
 export function generateCustomerPasswordOtp(phoneNumber: string) {
@@ -410,6 +817,21 @@ export type CustomerEngagementPlanUpdateInput = Partial<{
   rateLimitedUntil: Date | null;
 }>;
 
+export interface CatalogExperimentApprovalInput {
+  actorId: string | null;
+  actorName: string;
+  role: string;
+  notes?: string | null;
+}
+
+export interface CatalogExperimentSalesLine {
+  orderId: string;
+  serviceId: string;
+  clothingItemId: string | null;
+  quantity: number;
+  total: number;
+}
+
 export interface CustomerInsightOptions {
   branchId?: string;
   limit?: number;
@@ -431,6 +853,12 @@ export interface IStorage {
   getUsers(): Promise<UserWithBranch[]>;
   getRolePermissions(role: string): Promise<string[]>;
   getUserPermissions(userId: string): Promise<string[]>;
+  getRolePermissionMap(): Promise<Record<string, string[]>>;
+  setRolePermissions(role: string, slugs: string[]): Promise<string[]>;
+  deleteRole(role: string): Promise<boolean>;
+  countUsersWithRole(role: string): Promise<number>;
+  getUserPermissionOverrides(userId: string): Promise<{ grants: string[]; denies: string[] }>;
+  setUserPermissionOverrides(userId: string, overrides: { grants: string[]; denies: string[] }): Promise<void>;
   
   // Category operations
   getCategories(userId: string): Promise<Category[]>;
@@ -606,6 +1034,33 @@ export interface IStorage {
   updateBranchCustomization(branchId: string, customization: Partial<BranchCustomizationInsert>): Promise<BranchCustomization>;
   createBranchCustomization(customization: BranchCustomizationInsert): Promise<BranchCustomization>;
 
+  // Branch tax profiles
+  getBranchTaxProfiles(branchId: string): Promise<BranchTaxProfileWithOverrides[]>;
+  getActiveBranchTaxProfile(branchId: string, at?: Date): Promise<BranchTaxProfileWithOverrides | null>;
+  createBranchTaxProfile(branchId: string, profile: InsertBranchTaxProfile): Promise<BranchTaxProfileWithOverrides>;
+  updateBranchTaxProfile(id: string, branchId: string, profile: InsertBranchTaxProfile): Promise<BranchTaxProfileWithOverrides | undefined>;
+  deleteBranchTaxProfile(id: string, branchId: string): Promise<boolean>;
+
+  // Catalog pricing experiments
+  getCatalogExperiments(branchId?: string): Promise<CatalogExperimentWithDetails[]>;
+  getCatalogExperiment(id: string): Promise<CatalogExperimentWithDetails | undefined>;
+  createCatalogExperiment(
+    experiment: InsertCatalogExperimentRecord,
+    changes: Omit<InsertCatalogExperimentChangeRecord, "experimentId">[],
+  ): Promise<CatalogExperimentWithDetails>;
+  updateCatalogExperiment(
+    id: string,
+    patch: Partial<Omit<InsertCatalogExperimentRecord, "id" | "branchId" | "createdAt">>,
+  ): Promise<CatalogExperimentWithDetails | undefined>;
+  publishCatalogExperiment(id: string, approval: CatalogExperimentApprovalInput): Promise<CatalogExperimentWithDetails | undefined>;
+  rollbackCatalogExperiment(id: string, approval: CatalogExperimentApprovalInput): Promise<CatalogExperimentWithDetails | undefined>;
+  getCatalogExperimentSales(
+    branchId: string,
+    serviceIds: string[],
+    from: Date,
+    to: Date,
+  ): Promise<{ orderCount: number; lines: CatalogExperimentSalesLine[] }>;
+
   // Order status management
   updateOrderStatus(
     orderId: string,
@@ -648,7 +1103,14 @@ export interface IStorage {
     sortBy?: "createdAt" | "balanceDue",
     sortOrder?: "asc" | "desc",
   ): Promise<(Order & { customerNickname: string | null; balanceDue: string | null })[]>;
-  createOrder(order: InsertOrder & { branchId: string }): Promise<Order>;
+  createOrder(order: InsertOrder & OfflineOrderFields & { branchId: string }, options?: CreateOrderOptions): Promise<Order>;
+  getOrderByOfflineId(offlineId: string): Promise<Order | undefined>;
+  reserveOrderNumbers(
+    branchId: string,
+    deviceId: string,
+    size: number,
+    reservedBy: string | null,
+  ): Promise<OrderNumberReservationWithCode | undefined>;
   updateOrder(id: string, order: Partial<Omit<Order, 'id' | 'orderNumber' | 'createdAt'>>): Promise<Order | undefined>;
   getDeliveryOrderRequests(branchId?: string): Promise<(Order & { delivery: DeliveryOrder })[]>;
   acceptDeliveryOrderRequest(id: string, actor?: string): Promise<Order | undefined>;
@@ -670,6 +1132,45 @@ export interface IStorage {
     actor?: string | null,
   ): Promise<(DeliveryOrder & { order: Order }) | undefined>;
 
+  // Delivery portal messages (newest first; `beforeId` pages to older messages) and OTPs
+  getDeliveryMessages(
+    deliveryId: string,
+    options: { limit: number; beforeId?: string },
+  ): Promise<DeliveryMessage[]>;
+  createDeliveryMessage(message: InsertDeliveryMessage): Promise<DeliveryMessage>;
+  saveDeliveryPortalOtp(deliveryId: string, contact: string, codeHash: string, expiresAt: Date): Promise<void>;
+  /** Counts a verification attempt; undefined when no code exists or its attempts are used up. */
+  recordDeliveryPortalOtpAttempt(
+    deliveryId: string,
+    contact: string,
+    maxAttempts: number,
+  ): Promise<DeliveryPortalOtp | undefined>;
+  /** Deletes a code; false when another request already consumed it. */
+  deleteDeliveryPortalOtp(id: string): Promise<boolean>;
+
+  // Delivery portal reschedule history and compensation ledger
+  countDeliveryReschedules(deliveryId: string): Promise<number>;
+  recordDeliveryReschedule(reschedule: InsertDeliveryReschedule): Promise<DeliveryReschedule>;
+  /** Total compensation on a delivery that has not been rejected. */
+  getDeliveryCompensationTotal(deliveryId: string): Promise<number>;
+  createDeliveryCompensation(compensation: InsertDeliveryCompensation): Promise<DeliveryCompensation>;
+  getDeliveryCompensation(id: string): Promise<DeliveryCompensation | undefined>;
+  getDeliveryCompensations(filter: {
+    branchId?: string;
+    customerId?: string;
+    status?: DeliveryCompensationStatus;
+  }): Promise<DeliveryCompensation[]>;
+  /**
+   * Applies a pending compensation, crediting the customer's balance or issuing a single-use
+   * coupon. Undefined when the compensation was already decided.
+   */
+  applyDeliveryCompensation(id: string, decidedBy: string | null): Promise<DeliveryCompensation | undefined>;
+  rejectDeliveryCompensation(
+    id: string,
+    decidedBy: string,
+    note?: string | null,
+  ): Promise<DeliveryCompensation | undefined>;
+
   updateDriverLocation(update: DriverLocationUpdateInput): Promise<DriverLocationSnapshot>;
   getLatestDriverLocations(driverIds?: string[]): Promise<DriverLocationSnapshot[]>;
   getLatestDriverLocation(driverId: string): Promise<DriverLocationSnapshot | undefined>;
@@ -685,12 +1186,31 @@ export interface IStorage {
     recordOrderPrint(orderId: string, printedBy: string): Promise<OrderPrint>;
   getOrderPrintHistory(orderId: string): Promise<OrderPrint[]>;
 
+  // Garment tags: one piece per unit of quantity, advanced by scans
+  ensureOrderPieces(orderId: string): Promise<OrderPiece[]>;
+  getOrderPieces(orderId: string): Promise<OrderPiece[]>;
+  getOrderPieceByTag(tagCode: string, branchId?: string): Promise<OrderPiece | undefined>;
+  // Returns undefined when the piece is no longer at `from` (another scan won the race)
+  recordOrderPieceScan(
+    pieceId: string,
+    from: GarmentPieceStatus,
+    to: GarmentPieceStatus,
+    actor?: string | null,
+  ): Promise<OrderPiece | undefined>;
+  getOrderPieceScans(orderId: string): Promise<OrderPieceScan[]>;
+  getMissingPieceOrders(branchId?: string): Promise<MissingPiecesOrder[]>;
+  getOrderByNumber(orderNumber: string, branchId?: string): Promise<Order | undefined>;
+  // Pieces still on the floor for orders that are in progress, soonest promise first
+  getProductionPieces(branchId?: string): Promise<ProductionPiece[]>;
+  // Scan counts keyed by the stage the pieces were moved to
+  countOrderPieceScans(since: Date, branchId?: string): Promise<Record<string, number>>;
+
   // Payments
   getPayments(branchId?: string): Promise<Payment[]>;
   getPayment(id: string): Promise<Payment | undefined>;
   getPaymentsByCustomer(customerId: string, branchId?: string): Promise<Payment[]>;
   getOrderPaymentsTotal(orderId: string): Promise<number>;
-  createPayment(payment: InsertPayment): Promise<Payment>;
+  createPayment(payment: InsertPayment, options?: { purpose?: PaymentPurpose }): Promise<Payment>;
 
   // Order logs
   getOrderLogs(status?: string): Promise<OrderLog[]>;
@@ -702,9 +1222,118 @@ export interface IStorage {
   getSecuritySettings(): Promise<SecuritySettings | undefined>;
   updateSecuritySettings(settings: InsertSecuritySettings): Promise<SecuritySettings>;
 
+  // Staff two-factor authentication
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  saveUserTwoFactor(userId: string, data: Partial<Omit<InsertUserTwoFactor, "userId">>): Promise<UserTwoFactor>;
+  deleteUserTwoFactor(userId: string): Promise<boolean>;
+
   // Loyalty history
   getLoyaltyHistory(customerId: string): Promise<LoyaltyHistory[]>;
   createLoyaltyHistory(entry: InsertLoyaltyHistory): Promise<LoyaltyHistory>;
+  getLoyaltyProgram(branchId: string): Promise<LoyaltyProgram | undefined>;
+  saveLoyaltyProgram(branchId: string, program: LoyaltyProgramInput): Promise<LoyaltyProgram>;
+  /** Credits earned points and debits redeemed ones against the locked balance; nothing changes when it falls short. */
+  postOrderLoyalty(posting: OrderLoyaltyPosting): Promise<OrderLoyaltyResult>;
+  /** Money value of the points redeemed on an order, as booked against its receivable. */
+  getOrderLoyaltyRedemptionValue(orderId: string): Promise<number>;
+  getCustomersWithExpiredLoyalty(now: Date): Promise<string[]>;
+  /** Writes an expiry entry for points past their expiry date; returns the points removed. */
+  expireLoyaltyPoints(customerId: string, now: Date): Promise<number>;
+
+  // Recurring package subscriptions
+  getSubscriptionPlans(branchId: string): Promise<SubscriptionPlan[]>;
+  getSubscriptionPlan(id: string, branchId: string): Promise<SubscriptionPlan | undefined>;
+  createSubscriptionPlan(branchId: string, plan: SubscriptionPlanInput): Promise<SubscriptionPlan>;
+  updateSubscriptionPlan(
+    id: string,
+    branchId: string,
+    updates: Partial<SubscriptionPlanInput>,
+  ): Promise<SubscriptionPlan | undefined>;
+  getCustomerSubscriptions(customerId: string): Promise<CustomerSubscriptionWithPlan[]>;
+  getCustomerSubscription(id: string): Promise<CustomerSubscription | undefined>;
+  /** Creates the subscription with its first cycle: the issued package and the billing record. */
+  startCustomerSubscription(request: SubscriptionStartRequest): Promise<SubscriptionCycleResult>;
+  /** Bills and issues the next cycle when the locked subscription is still active and due; undefined otherwise. */
+  renewCustomerSubscription(
+    id: string,
+    request: { receivedBy: string; now: Date },
+  ): Promise<SubscriptionCycleResult | undefined>;
+  setCustomerSubscriptionStatus(
+    id: string,
+    status: SubscriptionStatus,
+    now: Date,
+  ): Promise<CustomerSubscription | undefined>;
+  getSubscriptionsDueForRenewal(now: Date): Promise<string[]>;
+  getSubscriptionReminderCandidates(now: Date): Promise<SubscriptionReminderCandidate[]>;
+  markSubscriptionReminderSent(id: string, periodEnd: Date): Promise<void>;
+
+  // Households and package sharing
+  getHousehold(id: string): Promise<HouseholdWithMembers | undefined>;
+  getCustomerHousehold(customerId: string): Promise<HouseholdWithMembers | undefined>;
+  /** Creates the household with the owner and any members; every customer must not belong to another household. */
+  createHousehold(
+    branchId: string,
+    name: string,
+    ownerCustomerId: string,
+    memberCustomerIds: string[],
+  ): Promise<HouseholdWithMembers>;
+  addHouseholdMember(householdId: string, customerId: string): Promise<HouseholdWithMembers>;
+  /** Removes the member and every package share between them and the rest of the household. */
+  removeHouseholdMember(householdId: string, customerId: string): Promise<boolean>;
+  getCustomerPackage(id: string): Promise<CustomerPackage | undefined>;
+  getCustomerPackageShares(customerPackageId: string): Promise<CustomerPackageShareWithCustomer[]>;
+  /** Replaces the package's share list; members kept on the list keep the credits they already used. */
+  setCustomerPackageShares(
+    customerPackageId: string,
+    shares: { customerId: string; creditLimit: number | null }[],
+  ): Promise<CustomerPackageShareWithCustomer[]>;
+  getSharedPackagesForCustomer(customerId: string): Promise<SharedCustomerPackage[]>;
+  /** Deducts the credits and records who consumed them, charging shared packages against the member's limit. */
+  consumePackageCredits(entry: {
+    orderId: string | null;
+    customerId: string;
+    credits: PackageCreditConsumption[];
+  }): Promise<void>;
+  getCustomerPackageUsages(customerPackageId: string): Promise<CustomerPackageUsageEntry[]>;
+  getCustomerPackageTransfers(customerId: string): Promise<CustomerPackageTransfer[]>;
+  /** Moves every remaining credit into a new package for the recipient; undefined when nothing is left to move. */
+  transferCustomerPackage(request: PackageTransferRequest): Promise<PackageTransferResult | undefined>;
+
+  // Customer store credit wallet (ledger newest first)
+  getCustomerWalletTransactions(customerId: string, limit?: number): Promise<CustomerWalletTransaction[]>;
+  /** Adds a positive top-up or refund to the wallet and records it in the ledger. */
+  creditCustomerWallet(entry: {
+    customerId: string;
+    branchId: string;
+    type: Exclude<CustomerWalletTransactionType, "spend">;
+    amount: number;
+    fundingMethod?: string | null;
+    orderId?: string | null;
+    notes?: string | null;
+    createdBy?: string | null;
+  }): Promise<CustomerWalletTransaction | undefined>;
+  /**
+   * Records a payment funded from the customer's wallet. Undefined when the wallet balance
+   * does not cover the amount; nothing is written in that case.
+   */
+  payWithCustomerWallet(
+    payment: InsertPayment & { branchId: string },
+    createdBy?: string | null,
+  ): Promise<{ payment: Payment; transaction: CustomerWalletTransaction } | undefined>;
+
+  // Order refunds and voids
+  createOrderRefund(refund: InsertOrderRefund): Promise<OrderRefund>;
+  getOrderRefund(id: string): Promise<OrderRefund | undefined>;
+  getOrderRefunds(filter: { orderId?: string; branchId?: string; status?: OrderRefundStatus }): Promise<OrderRefund[]>;
+  /**
+   * Applies a pending refund's reversal plan: negative payments per method (wallet refunds are
+   * credited back to the wallet), pay-later balance, package credits and loyalty, including the
+   * redeemed value returned as points. Undefined when
+   * the refund was already decided; throws OrderRefundExceedsTotalError when the order's completed
+   * refunds would pass its total.
+   */
+  applyOrderRefund(id: string, decidedBy: string): Promise<OrderRefund | undefined>;
+  rejectOrderRefund(id: string, decidedBy: string, note?: string | null): Promise<OrderRefund | undefined>;
 
   // Reports
   getOrderStats(range: string, branchId?: string): Promise<{ period: string; count: number; revenue: number }[]>;
@@ -785,6 +1414,32 @@ export interface IStorage {
   getBranchDeliverySettings(branchId: string): Promise<BranchDeliverySettings | undefined>;
   createBranchDeliverySettings(settings: InsertBranchDeliverySettings): Promise<BranchDeliverySettings>;
   updateBranchDeliverySettings(branchId: string, settings: Partial<InsertBranchDeliverySettings>): Promise<BranchDeliverySettings | undefined>;
+  // Capacity planning; branches without settings keep the manual ready-by choice
+  getBranchCapacity(branchId: string): Promise<BranchCapacity>;
+  saveBranchCapacity(
+    branchId: string,
+    settings: Omit<BranchCapacitySettings, "branchId" | "updatedAt">,
+    services: ServiceDailyCapacity[],
+  ): Promise<BranchCapacity>;
+  getCapacityLoad(branchId: string, from: string, to: string): Promise<CapacityLoad>;
+  // Opening hours and holiday calendar; entries that ended before `from` are left out
+  getBranchCalendar(branchId: string, from?: string): Promise<BranchCalendar>;
+  saveBranchOpeningHours(branchId: string, weekly: WeeklyHours[]): Promise<WeeklyHours[]>;
+  createBranchCalendarEntry(branchId: string, entry: Omit<BranchCalendarEntry, "id">): Promise<BranchCalendarEntry>;
+  deleteBranchCalendarEntry(branchId: string, entryId: string): Promise<BranchCalendarEntry | undefined>;
+  // Delivery time slots; branches without active slots keep free-form scheduling
+  getDeliverySlots(branchId: string): Promise<DeliverySlot[]>;
+  createDeliverySlot(branchId: string, slot: DeliverySlotInput): Promise<DeliverySlot>;
+  updateDeliverySlot(
+    branchId: string,
+    slotId: string,
+    updates: Partial<DeliverySlotInput>,
+  ): Promise<DeliverySlot | undefined>;
+  getDeliverySlotLoad(branchId: string, from: string, to: string): Promise<DeliverySlotLoad>;
+  reserveDeliverySlot(request: DeliverySlotReservationRequest): Promise<DeliverySlotReservation>;
+  attachDeliverySlotBookings(bookingIds: string[], link: { orderId: string; deliveryId: string | null }): Promise<void>;
+  releaseDeliverySlotBookings(bookingIds: string[]): Promise<number>;
+  getDeliverySlotBookings(deliveryIds: string[]): Promise<DeliverySlotBooking[]>;
   deleteBranchDeliverySettings(branchId: string): Promise<boolean>;
 
   // Branch Delivery Items
@@ -846,6 +1501,38 @@ export interface IStorage {
   getExpenseSummary(range?: string, branchId?: string): Promise<{ byMonth: { month: string; total: number }[]; byCategory: { category: string; total: number }[] }>;
   updateExpense(id: string, updates: Partial<InsertExpense>, branchId?: string): Promise<Expense | undefined>;
   deleteExpense(id: string, branchId?: string): Promise<boolean>;
+
+  // Cash drawer sessions
+  getOpenCashSessionByUser(branchId: string | null, cashierId: string): Promise<CashSession | undefined>;
+  createCashSession(data: InsertCashSession): Promise<CashSession>;
+  closeCashSession(
+    id: string,
+    updates: { countedCash?: number; expectedCash?: number; variance?: number; notes?: string; counts?: any },
+  ): Promise<CashSession | undefined>;
+  getCashSessions(branchId?: string, limit?: number): Promise<CashSession[]>;
+  getCashSession(id: string, branchId?: string): Promise<CashSession | undefined>;
+
+  // General ledger
+  getGlMappings(branchId: string): Promise<GlMapping[]>;
+  getJournalEntries(filter: { branchId: string; start: Date; end: Date }): Promise<JournalEntryWithLines[]>;
+  getLedgerActivity(branchId: string, range: { start?: Date; end: Date }): Promise<LedgerActivity[]>;
+  getAccountingPeriods(branchId: string): Promise<AccountingPeriod[]>;
+  closeAccountingPeriod(period: {
+    branchId: string;
+    periodStart: string;
+    periodEnd: string;
+    trialBalance: TrialBalanceRow[];
+    closedBy: string;
+  }): Promise<AccountingPeriod | undefined>;
+
+  // Audit log
+  getAuditEvents(filter: AuditEventFilter): Promise<AuditEventWithActor[]>;
+
+  // Idempotency keys for create endpoints
+  claimIdempotencyKey(claim: IdempotencyKeyClaim, now?: Date): Promise<IdempotencyKeyClaimResult>;
+  completeIdempotencyKey(id: string, response: { statusCode: number; responseBody: unknown }): Promise<void>;
+  releaseIdempotencyKey(id: string): Promise<void>;
+  purgeExpiredIdempotencyKeys(now?: Date): Promise<number>;
 }
 
 export class MemStorage {
@@ -881,6 +1568,7 @@ export class MemStorage {
   >;
   private rolePermissionMap: Map<string, Set<string>>;
   private userPermissionMap: Map<string, Set<string>>;
+  private userPermissionDenyMap: Map<string, Set<string>>;
 
   constructor() {
     this.products = new Map();
@@ -910,43 +1598,12 @@ export class MemStorage {
     this.permissionCatalog = new Map();
     this.rolePermissionMap = new Map();
     this.userPermissionMap = new Map();
+    this.userPermissionDenyMap = new Map();
     this.initializeData();
   }
 
   private initializePermissions() {
-    const definitions: Array<{
-      slug: string;
-      resource: string;
-      action: string;
-      description: string;
-    }> = [
-      {
-        slug: RBAC_PERMISSION_SLUGS.analyticsRead,
-        resource: "analytics.datasets",
-        action: "read",
-        description: "View curated analytics datasets and dashboards",
-      },
-      {
-        slug: RBAC_PERMISSION_SLUGS.analyticsManage,
-        resource: "analytics.datasets",
-        action: "manage",
-        description: "Create or modify analytics datasets and derived views",
-      },
-      {
-        slug: RBAC_PERMISSION_SLUGS.workflowEdit,
-        resource: "workflows.builder",
-        action: "edit",
-        description: "Design and edit workflow definitions",
-      },
-      {
-        slug: RBAC_PERMISSION_SLUGS.workflowPublish,
-        resource: "workflows.builder",
-        action: "publish",
-        description: "Publish workflow changes to production",
-      },
-    ];
-
-    for (const def of definitions) {
+    for (const def of PERMISSION_DEFINITIONS) {
       this.permissionCatalog.set(def.slug, {
         resource: def.resource,
         action: def.action,
@@ -954,17 +1611,7 @@ export class MemStorage {
       });
     }
 
-    const defaultRoleMap: Record<string, string[]> = {
-      super_admin: definitions.map((def) => def.slug),
-      admin: [
-        RBAC_PERMISSION_SLUGS.analyticsRead,
-        RBAC_PERMISSION_SLUGS.workflowEdit,
-        RBAC_PERMISSION_SLUGS.workflowPublish,
-      ],
-      user: [RBAC_PERMISSION_SLUGS.analyticsRead],
-    };
-
-    for (const [role, slugs] of Object.entries(defaultRoleMap)) {
+    for (const [role, slugs] of Object.entries(DEFAULT_ROLE_PERMISSIONS)) {
       this.rolePermissionMap.set(role, new Set(slugs));
     }
   }
@@ -1657,6 +2304,11 @@ export class MemStorage {
     return cp;
   }
 
+  // Households only exist in the database
+  async getSharedPackagesForCustomer(_customerId: string): Promise<SharedCustomerPackage[]> {
+    return [];
+  }
+
   async getCustomerPackagesWithUsage(customerId: string): Promise<CustomerPackageWithUsage[]> {
     const result: {
       id: string;
@@ -1731,46 +2383,6 @@ export class MemStorage {
     return this.orderPrints.filter(p => p.orderId === orderId);
   }
 
-  // Cash sessions
-  async getOpenCashSessionByUser(branchId: string | null, cashierId: string): Promise<any | undefined> {
-    const conditions: any[] = [eq(cashSessions.cashierId, cashierId), isNull(cashSessions.closedAt)];
-    if (branchId) conditions.push(eq(cashSessions.branchId, branchId));
-    const rows = await db.select().from(cashSessions).where(and(...conditions)).orderBy(desc(cashSessions.openedAt)).limit(1);
-    return rows[0] || undefined;
-  }
-
-  async createCashSession(data: Omit<InsertCashSession, 'id' | 'openedAt' | 'closedAt' | 'expectedCash' | 'variance'>): Promise<any> {
-    const [row] = await db.insert(cashSessions).values(data as any).returning();
-    return row;
-  }
-
-  async closeCashSession(id: string, updates: { countedCash?: number; expectedCash?: number; variance?: number; notes?: string; counts?: any }): Promise<any | undefined> {
-    const [row] = await db.update(cashSessions).set({
-      countedCash: (updates.countedCash as any) ?? undefined,
-      expectedCash: (updates.expectedCash as any) ?? undefined,
-      variance: (updates.variance as any) ?? undefined,
-      notes: (updates.notes as any) ?? undefined,
-      counts: updates.counts ? (updates.counts as any) : undefined,
-      closedAt: new Date(),
-    }).where(eq(cashSessions.id, id)).returning();
-    return row || undefined;
-  }
-
-  async getCashSessions(branchId?: string, limit = 20): Promise<any[]> {
-    const conditions: any[] = [];
-    if (branchId) conditions.push(eq(cashSessions.branchId, branchId));
-    const q = conditions.length ? and(...conditions) : undefined as any;
-    const rows = await db.select().from(cashSessions).where(q).orderBy(desc(cashSessions.openedAt)).limit(limit);
-    return rows;
-  }
-
-  async getCashSession(id: string, branchId?: string): Promise<any | undefined> {
-    const conditions: any[] = [eq(cashSessions.id, id)];
-    if (branchId) conditions.push(eq(cashSessions.branchId, branchId));
-    const rows = await db.select().from(cashSessions).where(and(...conditions)).limit(1);
-    return rows[0] || undefined;
-  }
-
   async getLoyaltyHistory(customerId: string): Promise<LoyaltyHistory[]> {
     return this.loyaltyHistory.filter(h => h.customerId === customerId);
   }
@@ -1780,6 +2392,10 @@ export class MemStorage {
       ...entry,
       id: randomUUID(),
       description: entry.description ?? null,
+      kind: entry.kind ?? "adjustment",
+      branchId: entry.branchId ?? null,
+      orderId: entry.orderId ?? null,
+      expiresAt: entry.expiresAt ?? null,
       createdAt: new Date(),
     };
     this.loyaltyHistory.push(record);
@@ -1812,12 +2428,10 @@ export class MemStorage {
 
   private computePermissions(user: User | undefined): string[] {
     if (!user) return [];
-    const roleSet = this.rolePermissionMap.get(user.role) ?? new Set<string>();
-    const userSet = this.userPermissionMap.get(user.id) ?? new Set<string>();
-    const combined = new Set<string>();
-    for (const slug of roleSet) combined.add(slug);
-    for (const slug of userSet) combined.add(slug);
-    return Array.from(combined).sort();
+    return mergePermissions(user.role, this.rolePermissionMap.get(user.role) ?? [], {
+      grants: this.userPermissionMap.get(user.id) ?? [],
+      denies: this.userPermissionDenyMap.get(user.id) ?? [],
+    });
   }
 
   private buildUserWithBranch(user: User | undefined): UserWithBranch | undefined {
@@ -1961,6 +2575,40 @@ export class MemStorage {
     return Array.from(this.userPermissionMap.get(userId) ?? []).sort();
   }
 
+  async getUserPermissionOverrides(userId: string): Promise<{ grants: string[]; denies: string[] }> {
+    return {
+      grants: Array.from(this.userPermissionMap.get(userId) ?? []).sort(),
+      denies: Array.from(this.userPermissionDenyMap.get(userId) ?? []).sort(),
+    };
+  }
+
+  async setUserPermissionOverrides(userId: string, overrides: { grants: string[]; denies: string[] }): Promise<void> {
+    this.userPermissionMap.set(userId, new Set(overrides.grants.filter((slug) => this.permissionCatalog.has(slug))));
+    this.userPermissionDenyMap.set(userId, new Set(overrides.denies.filter((slug) => this.permissionCatalog.has(slug))));
+  }
+
+  async getRolePermissionMap(): Promise<Record<string, string[]>> {
+    return Object.fromEntries(
+      Array.from(this.rolePermissionMap.entries())
+        .filter(([, slugs]) => slugs.size > 0)
+        .map(([role, slugs]) => [role, Array.from(slugs).sort()]),
+    );
+  }
+
+  async setRolePermissions(role: string, slugs: string[]): Promise<string[]> {
+    const known = slugs.filter((slug) => this.permissionCatalog.has(slug));
+    this.rolePermissionMap.set(role, new Set(known));
+    return known.sort();
+  }
+
+  async deleteRole(role: string): Promise<boolean> {
+    return this.rolePermissionMap.delete(role);
+  }
+
+  async countUsersWithRole(role: string): Promise<number> {
+    return Array.from(this.users.values()).filter((user) => user.role === role).length;
+  }
+
   // Category methods (stub for MemStorage - not used in production)
   async getCategories(userId: string): Promise<Category[]> {
     return Array.from(this.categories.values()).filter(c => c.userId === userId);
@@ -2183,23 +2831,88 @@ export class DatabaseStorage {
   }
 
   async getUserPermissions(userId: string): Promise<string[]> {
+    const { grants } = await this.getUserPermissionOverrides(userId);
+    return grants;
+  }
+
+  async getUserPermissionOverrides(userId: string): Promise<{ grants: string[]; denies: string[] }> {
     const rows = await db
-      .select({ slug: permissions.slug })
+      .select({ slug: permissions.slug, effect: userPermissions.effect })
       .from(userPermissions)
       .innerJoin(permissions, eq(userPermissions.permissionId, permissions.id))
       .where(eq(userPermissions.userId, userId));
-    return rows.map((row) => row.slug).sort();
+    return {
+      grants: rows.filter((row) => row.effect !== "deny").map((row) => row.slug).sort(),
+      denies: rows.filter((row) => row.effect === "deny").map((row) => row.slug).sort(),
+    };
+  }
+
+  async setUserPermissionOverrides(userId: string, overrides: { grants: string[]; denies: string[] }): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(userPermissions).where(eq(userPermissions.userId, userId));
+      const slugs = [...overrides.grants, ...overrides.denies];
+      if (slugs.length === 0) return;
+      const rows = await tx
+        .select({ id: permissions.id, slug: permissions.slug })
+        .from(permissions)
+        .where(inArray(permissions.slug, slugs));
+      const denies = new Set(overrides.denies);
+      if (rows.length === 0) return;
+      await tx.insert(userPermissions).values(
+        rows.map((row) => ({
+          userId,
+          permissionId: row.id,
+          effect: denies.has(row.slug) ? ("deny" as const) : ("grant" as const),
+        })),
+      );
+    });
+  }
+
+  async getRolePermissionMap(): Promise<Record<string, string[]>> {
+    const rows = await db
+      .select({ role: rolePermissions.role, slug: permissions.slug })
+      .from(rolePermissions)
+      .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id));
+    const map: Record<string, string[]> = {};
+    for (const row of rows) {
+      (map[row.role] ??= []).push(row.slug);
+    }
+    for (const slugs of Object.values(map)) slugs.sort();
+    return map;
+  }
+
+  async setRolePermissions(role: string, slugs: string[]): Promise<string[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(rolePermissions).where(eq(rolePermissions.role, role));
+      if (slugs.length === 0) return [];
+      const rows = await tx
+        .select({ id: permissions.id, slug: permissions.slug })
+        .from(permissions)
+        .where(inArray(permissions.slug, slugs));
+      if (rows.length) {
+        await tx.insert(rolePermissions).values(rows.map((row) => ({ role, permissionId: row.id })));
+      }
+      return rows.map((row) => row.slug).sort();
+    });
+  }
+
+  async deleteRole(role: string): Promise<boolean> {
+    const deleted = await db.delete(rolePermissions).where(eq(rolePermissions.role, role)).returning();
+    return deleted.length > 0;
+  }
+
+  async countUsersWithRole(role: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(users).where(eq(users.role, role));
+    return Number(row?.count ?? 0);
   }
 
   private async computePermissions(role: string, userId: string): Promise<string[]> {
     try {
-      const [rolePerms, userPerms] = await Promise.all([
+      const [rolePerms, overrides] = await Promise.all([
         this.getRolePermissions(role),
-        this.getUserPermissions(userId),
+        this.getUserPermissionOverrides(userId),
       ]);
-      const combined = new Set<string>(rolePerms);
-      for (const slug of userPerms) combined.add(slug);
-      return Array.from(combined).sort();
+      return mergePermissions(role, rolePerms, overrides);
     } catch (err) {
       // If permission tables are missing or not yet migrated, don't block login.
       console.warn("Permissions lookup failed; defaulting to empty permissions:", (err as any)?.message || err);
@@ -2218,6 +2931,108 @@ export class DatabaseStorage {
     });
   }
 
+  // Posts a balanced journal entry inside the caller's transaction. Account codes are resolved
+  // from the branch's gl_mappings now; posting the same source twice is a no-op.
+  private async postJournalEntry(
+    tx: any,
+    branchId: string,
+    posting: LedgerPosting,
+    postedAt: Date = new Date(),
+  ): Promise<void> {
+    if (posting.lines.length === 0) return;
+    await this.assertPeriodOpen(tx, branchId, postedAt);
+    const mappings = await tx
+      .select({ key: glMappings.key, account: glMappings.account, type: glMappings.type })
+      .from(glMappings)
+      .where(eq(glMappings.branchId, branchId));
+    const resolve = createAccountResolver(mappings);
+    const [entry] = await tx
+      .insert(journalEntries)
+      .values({ branchId, sourceType: posting.sourceType, sourceId: posting.sourceId, memo: posting.memo, postedAt })
+      .onConflictDoNothing()
+      .returning();
+    if (!entry) return;
+    await tx.insert(journalLines).values(
+      posting.lines.map((line) => ({
+        entryId: entry.id,
+        accountKey: line.accountKey,
+        account: resolve(line.accountKey).account,
+        debit: line.debit.toFixed(2),
+        credit: line.credit.toFixed(2),
+        memo: line.memo ?? null,
+      })),
+    );
+  }
+
+  // Drops the entry for a source that is being edited or deleted, as long as its period is open.
+  private async removeJournalEntry(tx: any, sourceType: string, sourceId: string): Promise<void> {
+    const [entry] = await tx
+      .select()
+      .from(journalEntries)
+      .where(and(eq(journalEntries.sourceType, sourceType), eq(journalEntries.sourceId, sourceId)));
+    if (!entry) return;
+    await this.assertPeriodOpen(tx, entry.branchId, entry.postedAt);
+    await tx.delete(journalEntries).where(eq(journalEntries.id, entry.id));
+  }
+
+  private async assertPeriodOpen(tx: any, branchId: string, postedAt: Date): Promise<void> {
+    const day = postedAt.toISOString().slice(0, 10);
+    const [closed] = await tx
+      .select({ id: accountingPeriods.id })
+      .from(accountingPeriods)
+      .where(
+        and(
+          eq(accountingPeriods.branchId, branchId),
+          lte(accountingPeriods.periodStart, day),
+          gte(accountingPeriods.periodEnd, day),
+        ),
+      )
+      .limit(1);
+    if (closed) throw new ClosedPeriodError(postedAt);
+  }
+
+  // Value of package credits at the price the customer paid: package price over its credits.
+  private async packageCreditValue(tx: any, usages: { packageId: string; quantity: number }[]): Promise<number> {
+    let value = 0;
+    for (const usage of usages) {
+      if (!(usage.quantity > 0)) continue;
+      const [pkg] = await tx
+        .select({
+          price: packages.price,
+          credits: sql<number>`COALESCE((SELECT SUM(${packageItems.credits}) FROM ${packageItems} WHERE ${packageItems.packageId} = ${packages.id}), 0)`,
+        })
+        .from(packages)
+        .where(eq(packages.id, usage.packageId));
+      const credits = Number(pkg?.credits ?? 0);
+      if (!pkg || credits <= 0) continue;
+      value += (Number.parseFloat(pkg.price) / credits) * usage.quantity;
+    }
+    return Math.round(value * 100) / 100;
+  }
+
+  private async postOrderSale(tx: any, order: Order): Promise<void> {
+    const usages = Array.isArray(order.packageUsages) ? (order.packageUsages as any[]) : [];
+    const packageCreditValue = await this.packageCreditValue(
+      tx,
+      usages.map((usage) => ({
+        packageId: String(usage.packageId),
+        quantity: (usage.items ?? []).reduce((sum: number, item: any) => sum + Number(item.quantity || 0), 0),
+      })),
+    );
+    await this.postJournalEntry(
+      tx,
+      order.branchId,
+      orderPosting({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        total: Number.parseFloat(String(order.total)),
+        tax: Number.parseFloat(String(order.tax)),
+        packageCreditValue,
+      }),
+      order.createdAt ?? new Date(),
+    );
+  }
+
   private async recordStatusEvent(
     tx: any,
     orderId: string,
@@ -2433,7 +3248,7 @@ export class DatabaseStorage {
         .innerJoin(permissions, eq(rolePermissions.permissionId, permissions.id))
         .where(inArray(rolePermissions.role, roles)),
       db
-        .select({ userId: userPermissions.userId, slug: permissions.slug })
+        .select({ userId: userPermissions.userId, slug: permissions.slug, effect: userPermissions.effect })
         .from(userPermissions)
         .innerJoin(permissions, eq(userPermissions.permissionId, permissions.id))
         .where(inArray(userPermissions.userId, userIds)),
@@ -2447,26 +3262,24 @@ export class DatabaseStorage {
       roleMap.get(row.role)!.add(row.slug);
     }
 
-    const userMap = new Map<string, Set<string>>();
+    const userMap = new Map<string, { grants: string[]; denies: string[] }>();
     for (const row of userPermRows) {
       if (!userMap.has(row.userId)) {
-        userMap.set(row.userId, new Set());
+        userMap.set(row.userId, { grants: [], denies: [] });
       }
-      userMap.get(row.userId)!.add(row.slug);
+      const overrides = userMap.get(row.userId)!;
+      (row.effect === "deny" ? overrides.denies : overrides.grants).push(row.slug);
     }
 
-    return results.map((r) => {
-      const combined = new Set<string>(roleMap.get(r.user.role) ?? []);
-      const userSet = userMap.get(r.user.id);
-      if (userSet) {
-        for (const slug of userSet) combined.add(slug);
-      }
-      return {
-        ...r.user,
-        branch: r.branch,
-        permissions: Array.from(combined).sort(),
-      };
-    });
+    return results.map((r) => ({
+      ...r.user,
+      branch: r.branch,
+      permissions: mergePermissions(
+        r.user.role,
+        Array.from(roleMap.get(r.user.role) ?? []),
+        userMap.get(r.user.id) ?? { grants: [], denies: [] },
+      ),
+    }));
   }
 
   // Category methods
@@ -4142,7 +4955,10 @@ export class DatabaseStorage {
     });
   }
 
-  async createOrder(orderData: InsertOrder & { branchId: string }): Promise<Order> {
+  async createOrder(
+    orderData: InsertOrder & OfflineOrderFields & { branchId: string },
+    options: CreateOrderOptions = {},
+  ): Promise<Order> {
     return await db.transaction(async (tx) => {
       // Use set_config instead of SET LOCAL with a parameter
       await tx.execute(sql`SELECT set_config('app.branch_id', ${orderData.branchId}, true)`);
@@ -4154,12 +4970,37 @@ export class DatabaseStorage {
 
       if (!branch) throw new Error("Branch not found");
 
-      const orderNumber = `${branch.code}-${String(branch.next).padStart(4, "0")}`;
+      let orderNumber: string | null = null;
+      let claimedNumberId: string | null = null;
+      const reserved = options.reservedOrderNumber;
+      const sequence = reserved ? orderNumberSequence(branch.code, reserved.orderNumber) : null;
+      if (reserved && sequence !== null) {
+        // Only one sync can flip a reserved number to used; a second one falls back to the counter
+        const [claimed] = await tx
+          .update(reservedOrderNumbers)
+          .set({ status: "used", usedAt: new Date() })
+          .where(
+            and(
+              eq(reservedOrderNumbers.reservationId, reserved.reservationId),
+              eq(reservedOrderNumbers.branchId, orderData.branchId),
+              eq(reservedOrderNumbers.sequence, sequence),
+              eq(reservedOrderNumbers.status, "reserved"),
+            ),
+          )
+          .returning({ id: reservedOrderNumbers.id });
+        if (claimed) {
+          orderNumber = formatOrderNumber(branch.code, sequence);
+          claimedNumberId = claimed.id;
+        }
+      }
 
-      await tx
-        .update(branches)
-        .set({ nextOrderNumber: branch.next + 1 })
-        .where(eq(branches.id, orderData.branchId));
+      if (!orderNumber) {
+        orderNumber = formatOrderNumber(branch.code, branch.next);
+        await tx
+          .update(branches)
+          .set({ nextOrderNumber: branch.next + 1 })
+          .where(eq(branches.id, orderData.branchId));
+      }
 
       const [order] = await tx
         .insert(orders)
@@ -4169,6 +5010,12 @@ export class DatabaseStorage {
           isDeliveryRequest: orderData.isDeliveryRequest ?? false,
         })
         .returning();
+      if (order && claimedNumberId) {
+        await tx
+          .update(reservedOrderNumbers)
+          .set({ orderId: order.id })
+          .where(eq(reservedOrderNumbers.id, claimedNumberId));
+      }
       if (order) {
         await this.recordStatusEvent(
           tx,
@@ -4177,28 +5024,78 @@ export class DatabaseStorage {
           orderData.sellerName || SYSTEM_ACTOR,
           order.createdAt ?? null,
         );
+        // Delivery requests are booked (and tagged) once the branch accepts them
+        if (!order.isDeliveryRequest) {
+          await this.postOrderSale(tx, order);
+          await this.insertOrderPieces(tx, order);
+        }
       }
       return order;
     });
   }
 
-  async updateOrder(id: string, orderData: Partial<Omit<Order, 'id' | 'orderNumber' | 'createdAt'>>): Promise<Order | undefined> {
-    const [updated] = await db
-      .update(orders)
-      .set({ ...orderData, updatedAt: new Date() })
-      .where(eq(orders.id, id))
-      .returning();
-    return updated || undefined;
+  async getOrderByOfflineId(offlineId: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.offlineId, offlineId));
+    return order || undefined;
   }
 
+  // Moves the branch counter past the whole range so online orders never take a reserved number
+  async reserveOrderNumbers(
+    branchId: string,
+    deviceId: string,
+    size: number,
+    reservedBy: string | null,
+  ): Promise<OrderNumberReservationWithCode | undefined> {
+    return await db.transaction(async (tx) => {
+      const [branch] = await tx
+        .select({ code: branches.code, next: branches.nextOrderNumber })
+        .from(branches)
+        .where(eq(branches.id, branchId))
+        .for("update");
+      if (!branch) return undefined;
 
-
-
-
-
-
-  async recordOrderPrint(orderId: string, printedBy: string): Promise<OrderPrint> {
-    const [last] = await db
+      await tx
+        .update(branches)
+        .set({ nextOrderNumber: branch.next + size })
+        .where(eq(branches.id, branchId));
+      const [reservation] = await tx
+        .insert(orderNumberReservations)
+        .values({
+          branchId,
+          deviceId,
+          startNumber: branch.next,
+          endNumber: branch.next + size - 1,
+          reservedBy,
+        })
+        .returning();
+      await tx.insert(reservedOrderNumbers).values(
+        Array.from({ length: size }, (_, offset) => ({
+          reservationId: reservation.id,
+          branchId,
+          sequence: reservation.startNumber + offset,
+        })),
+      );
+      return { ...reservation, branchCode: branch.code };
+    });
+  }
+
+  async updateOrder(id: string, orderData: Partial<Omit<Order, 'id' | 'orderNumber' | 'createdAt'>>): Promise<Order | undefined> {
+    const [updated] = await db
+      .update(orders)
+      .set({ ...orderData, updatedAt: new Date() })
+      .where(eq(orders.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+
+
+
+
+
+
+  async recordOrderPrint(orderId: string, printedBy: string): Promise<OrderPrint> {
+    const [last] = await db
       .select({ printNumber: orderPrints.printNumber })
       .from(orderPrints)
       .where(eq(orderPrints.orderId, orderId))
@@ -4220,6 +5117,179 @@ export class DatabaseStorage {
       .orderBy(orderPrints.printNumber);
   }
 
+  private async insertOrderPieces(tx: any, order: Order): Promise<void> {
+    const pieces = expandOrderPieces(order.items);
+    if (!pieces.length) return;
+    await tx
+      .insert(orderPieces)
+      .values(
+        pieces.map((piece) => ({
+          orderId: order.id,
+          branchId: order.branchId,
+          lineIndex: piece.lineIndex,
+          pieceNumber: piece.pieceNumber,
+          sequence: piece.sequence,
+          tagCode: formatTagCode(order.orderNumber, piece.sequence),
+          description: piece.description,
+        })),
+      )
+      .onConflictDoNothing();
+  }
+
+  // Orders taken before tagging existed get their tags on demand
+  async ensureOrderPieces(orderId: string): Promise<OrderPiece[]> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    if (!order) return [];
+    await this.insertOrderPieces(db, order);
+    return this.getOrderPieces(orderId);
+  }
+
+  async getOrderPieces(orderId: string): Promise<OrderPiece[]> {
+    return await db
+      .select()
+      .from(orderPieces)
+      .where(eq(orderPieces.orderId, orderId))
+      .orderBy(asc(orderPieces.sequence));
+  }
+
+  async getOrderPieceByTag(tagCode: string, branchId?: string): Promise<OrderPiece | undefined> {
+    const conditions = [eq(orderPieces.tagCode, tagCode)];
+    if (branchId) conditions.push(eq(orderPieces.branchId, branchId));
+    const [piece] = await db
+      .select()
+      .from(orderPieces)
+      .where(and(...conditions))
+      .limit(1);
+    return piece;
+  }
+
+  async recordOrderPieceScan(
+    pieceId: string,
+    from: GarmentPieceStatus,
+    to: GarmentPieceStatus,
+    actor?: string | null,
+  ): Promise<OrderPiece | undefined> {
+    return await db.transaction(async (tx) => {
+      const [piece] = await tx
+        .update(orderPieces)
+        .set({ status: to, updatedAt: new Date() })
+        .where(and(eq(orderPieces.id, pieceId), eq(orderPieces.status, from)))
+        .returning();
+      if (!piece) return undefined;
+      await tx.insert(orderPieceScans).values({
+        pieceId,
+        orderId: piece.orderId,
+        status: to,
+        actor: actor ?? null,
+        occurredAt: new Date(),
+      });
+      return piece;
+    });
+  }
+
+  async getOrderPieceScans(orderId: string): Promise<OrderPieceScan[]> {
+    return await db
+      .select()
+      .from(orderPieceScans)
+      .where(eq(orderPieceScans.orderId, orderId))
+      .orderBy(asc(orderPieceScans.occurredAt));
+  }
+
+  // Orders that claim to be done, or are past their promised date, with tags that never reached a bag
+  async getMissingPieceOrders(branchId?: string): Promise<MissingPiecesOrder[]> {
+    const rows = await db
+      .select({ order: orders, piece: orderPieces })
+      .from(orderPieces)
+      .innerJoin(orders, eq(orderPieces.orderId, orders.id))
+      .where(
+        and(
+          branchId ? eq(orders.branchId, branchId) : undefined,
+          ne(orders.status, "cancelled"),
+          or(
+            inArray(orders.status, ["ready", "handed_over", "completed"]),
+            lt(orders.promisedReadyDate, sql`CURRENT_DATE`),
+          ),
+          sql`EXISTS (
+            SELECT 1 FROM ${orderPieces} p
+            WHERE p.order_id = ${orders.id}
+              AND p.status NOT IN (${sql.join(
+                GARMENT_PIECE_DONE_STATUSES.map((status) => sql`${status}`),
+                sql`, `,
+              )})
+          )`,
+        ),
+      )
+      .orderBy(asc(orders.promisedReadyDate), asc(orders.orderNumber), asc(orderPieces.sequence))
+      .limit(5000);
+
+    const byOrder = new Map<string, MissingPiecesOrder>();
+    for (const { order, piece } of rows) {
+      let entry = byOrder.get(order.id);
+      if (!entry) {
+        entry = {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          branchId: order.branchId,
+          customerName: order.customerName,
+          status: order.status,
+          promisedReadyDate: order.promisedReadyDate,
+          totalPieces: 0,
+          missingPieces: [],
+        };
+        byOrder.set(order.id, entry);
+      }
+      entry.totalPieces += 1;
+      if (!GARMENT_PIECE_DONE_STATUSES.includes(piece.status)) {
+        entry.missingPieces.push({ tagCode: piece.tagCode, description: piece.description, status: piece.status });
+      }
+    }
+    return Array.from(byOrder.values());
+  }
+
+  async getOrderByNumber(orderNumber: string, branchId?: string): Promise<Order | undefined> {
+    const conditions = [eq(orders.orderNumber, orderNumber)];
+    if (branchId) conditions.push(eq(orders.branchId, branchId));
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(and(...conditions))
+      .limit(1);
+    return order;
+  }
+
+  async getProductionPieces(branchId?: string): Promise<ProductionPiece[]> {
+    const rows = await db
+      .select({
+        piece: orderPieces,
+        orderNumber: orders.orderNumber,
+        customerName: orders.customerName,
+        orderStatus: orders.status,
+        promisedReadyDate: orders.promisedReadyDate,
+      })
+      .from(orderPieces)
+      .innerJoin(orders, eq(orderPieces.orderId, orders.id))
+      .where(
+        and(
+          branchId ? eq(orderPieces.branchId, branchId) : undefined,
+          inArray(orders.status, ["received", "start_processing", "processing"]),
+          notInArray(orderPieces.status, [...GARMENT_PIECE_DONE_STATUSES]),
+        ),
+      )
+      .orderBy(asc(orders.promisedReadyDate), asc(orders.orderNumber), asc(orderPieces.sequence))
+      .limit(5000);
+    return rows.map(({ piece, ...order }) => ({ ...piece, ...order }));
+  }
+
+  async countOrderPieceScans(since: Date, branchId?: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: orderPieceScans.status, count: sql<number>`count(*)::int` })
+      .from(orderPieceScans)
+      .innerJoin(orderPieces, eq(orderPieceScans.pieceId, orderPieces.id))
+      .where(and(gte(orderPieceScans.occurredAt, since), branchId ? eq(orderPieces.branchId, branchId) : undefined))
+      .groupBy(orderPieceScans.status);
+    return Object.fromEntries(rows.map((row) => [row.status, Number(row.count)]));
+  }
+
   // Payment methods
   async getPayments(branchId?: string): Promise<Payment[]> {
     if (branchId) {
@@ -4269,7 +5339,7 @@ export class DatabaseStorage {
     return await db.select().from(payments).where(eq(payments.customerId, customerId));
   }
 
-  async createPayment(paymentData: InsertPayment): Promise<Payment> {
+  async createPayment(paymentData: InsertPayment, options: { purpose?: PaymentPurpose } = {}): Promise<Payment> {
     let branchId: string | undefined = (paymentData as any).branchId;
     if (!branchId) {
       if (paymentData.orderId) {
@@ -4286,6 +5356,18 @@ export class DatabaseStorage {
         .insert(payments)
         .values({ ...paymentData, branchId: branchId! })
         .returning();
+      if (branchId) {
+        await this.postJournalEntry(
+          tx,
+          branchId,
+          paymentPosting({
+            paymentId: payment.id,
+            amount: Number.parseFloat(String(payment.amount)),
+            paymentMethod: payment.paymentMethod,
+            purpose: options.purpose,
+          }),
+        );
+      }
       return payment;
     });
   }
@@ -4306,6 +5388,7 @@ export class DatabaseStorage {
         status: orders.status,
         createdAt: orders.createdAt,
         promisedReadyDate: orders.promisedReadyDate,
+        branchId: orders.branchId,
         notes: orders.notes,
         packageName: sql<string>`max(${packages.nameEn})`,
       })
@@ -4405,6 +5488,7 @@ export class DatabaseStorage {
       cancelReason,
       createdAt: r.createdAt ? r.createdAt.toISOString() : null,
       promisedReadyDate: r.promisedReadyDate ? r.promisedReadyDate.toISOString() : null,
+      branchId: r.branchId,
       events: (historyMap.get(r.id) ?? []).sort((a, b) =>
         new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
       ),
@@ -4412,54 +5496,1132 @@ export class DatabaseStorage {
     });
   }
 
-  async createNotification(notificationData: InsertNotification): Promise<Notification> {
-    let branchId: string | undefined = (notificationData as any).branchId;
-    if (!branchId) {
-      const [o] = await db.select({ branchId: orders.branchId }).from(orders).where(eq(orders.id, notificationData.orderId));
-      branchId = o?.branchId;
-    }
-    const [record] = await db
-      .insert(notifications)
-      .values({ ...notificationData, branchId: branchId! })
-      .returning();
-    return record;
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    let branchId: string | undefined = (notificationData as any).branchId;
+    if (!branchId) {
+      const [o] = await db.select({ branchId: orders.branchId }).from(orders).where(eq(orders.id, notificationData.orderId));
+      branchId = o?.branchId;
+    }
+    const [record] = await db
+      .insert(notifications)
+      .values({ ...notificationData, branchId: branchId! })
+      .returning();
+    return record;
+  }
+
+  async getSecuritySettings(): Promise<SecuritySettings | undefined> {
+    const [settings] = await db.select().from(securitySettings).limit(1);
+    return settings || undefined;
+  }
+
+  async updateSecuritySettings(settingsData: InsertSecuritySettings): Promise<SecuritySettings> {
+    const existing = await this.getSecuritySettings();
+    if (existing) {
+      const [updated] = await db
+        .update(securitySettings)
+        .set({ ...settingsData, updatedAt: new Date() })
+        .where(eq(securitySettings.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db
+      .insert(securitySettings)
+      .values(settingsData)
+      .returning();
+    return created;
+  }
+
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return record || undefined;
+  }
+
+  async saveUserTwoFactor(
+    userId: string,
+    data: Partial<Omit<InsertUserTwoFactor, "userId">>,
+  ): Promise<UserTwoFactor> {
+    const [record] = await db
+      .insert(userTwoFactor)
+      .values({ ...data, userId })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { ...data, updatedAt: new Date() },
+      })
+      .returning();
+    return record;
+  }
+
+  async deleteUserTwoFactor(userId: string): Promise<boolean> {
+    const result = await db
+      .delete(userTwoFactor)
+      .where(eq(userTwoFactor.userId, userId))
+      .returning({ userId: userTwoFactor.userId });
+    return result.length > 0;
+  }
+
+  async getLoyaltyHistory(customerId: string): Promise<LoyaltyHistory[]> {
+    return await db
+      .select()
+      .from(loyaltyHistory)
+      .where(eq(loyaltyHistory.customerId, customerId));
+  }
+
+  async createLoyaltyHistory(entry: InsertLoyaltyHistory): Promise<LoyaltyHistory> {
+    const [record] = await db
+      .insert(loyaltyHistory)
+      .values(entry)
+      .returning();
+    return record;
+  }
+
+  async getLoyaltyProgram(branchId: string): Promise<LoyaltyProgram | undefined> {
+    const [program] = await db.select().from(loyaltyPrograms).where(eq(loyaltyPrograms.branchId, branchId));
+    return program;
+  }
+
+  async saveLoyaltyProgram(branchId: string, program: LoyaltyProgramInput): Promise<LoyaltyProgram> {
+    const [saved] = await db
+      .insert(loyaltyPrograms)
+      .values({ ...program, branchId })
+      .onConflictDoUpdate({ target: loyaltyPrograms.branchId, set: { ...program, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async postOrderLoyalty(posting: OrderLoyaltyPosting): Promise<OrderLoyaltyResult> {
+    const { customerId, branchId, orderId, earned, redeemed, redeemedValue, expiresAt } = posting;
+    return await db.transaction(async (tx) => {
+      const [customer] = await tx
+        .select({ loyaltyPoints: customers.loyaltyPoints })
+        .from(customers)
+        .where(eq(customers.id, customerId))
+        .for("update");
+      if (!customer) return { ok: false as const, reason: "customer_not_found" as const };
+      if (redeemed > customer.loyaltyPoints) return { ok: false as const, reason: "insufficient_points" as const };
+
+      const balance = customer.loyaltyPoints + earned - redeemed;
+      if (earned === 0 && redeemed === 0) return { ok: true as const, balance };
+      await tx.update(customers).set({ loyaltyPoints: balance, updatedAt: new Date() }).where(eq(customers.id, customerId));
+      // Refunds find these entries by description, so keep the wording stable
+      if (redeemed > 0) {
+        await tx.insert(loyaltyHistory).values({
+          customerId,
+          branchId,
+          orderId,
+          kind: "redeem",
+          change: -redeemed,
+          description: `Redeemed in order ${orderId}`,
+        });
+        const [order] = await tx.select({ orderNumber: orders.orderNumber }).from(orders).where(eq(orders.id, orderId));
+        await this.postJournalEntry(
+          tx,
+          branchId,
+          loyaltyRedemptionPosting({ orderId, orderNumber: order?.orderNumber, value: redeemedValue }),
+        );
+      }
+      if (earned > 0) {
+        await tx.insert(loyaltyHistory).values({
+          customerId,
+          branchId,
+          orderId,
+          kind: "earn",
+          change: earned,
+          expiresAt,
+          description: `Earned from order ${orderId}`,
+        });
+      }
+      return { ok: true as const, balance };
+    });
+  }
+
+  async getOrderLoyaltyRedemptionValue(orderId: string): Promise<number> {
+    const [row] = await db
+      .select({ value: sql<string>`COALESCE(SUM(${journalLines.credit}), 0)` })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalEntries.id, journalLines.entryId))
+      .where(
+        and(
+          eq(journalEntries.sourceType, "loyalty_redemption"),
+          eq(journalEntries.sourceId, orderId),
+          eq(journalLines.accountKey, "accounts_receivable"),
+        ),
+      );
+    return Number(row?.value ?? 0);
+  }
+
+  async getCustomersWithExpiredLoyalty(now: Date): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ customerId: loyaltyHistory.customerId })
+      .from(loyaltyHistory)
+      .innerJoin(customers, eq(customers.id, loyaltyHistory.customerId))
+      .where(and(lte(loyaltyHistory.expiresAt, now), gt(customers.loyaltyPoints, 0)));
+    return rows.map((row) => row.customerId);
+  }
+
+  async expireLoyaltyPoints(customerId: string, now: Date): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [customer] = await tx
+        .select({ loyaltyPoints: customers.loyaltyPoints, branchId: customers.branchId })
+        .from(customers)
+        .where(eq(customers.id, customerId))
+        .for("update");
+      if (!customer) return 0;
+      const history = await tx.select().from(loyaltyHistory).where(eq(loyaltyHistory.customerId, customerId));
+      const points = Math.min(expiringPoints(history, now), customer.loyaltyPoints);
+      if (points <= 0) return 0;
+      await tx
+        .update(customers)
+        .set({ loyaltyPoints: customer.loyaltyPoints - points, updatedAt: new Date() })
+        .where(eq(customers.id, customerId));
+      await tx.insert(loyaltyHistory).values({
+        customerId,
+        branchId: customer.branchId,
+        kind: "expire",
+        change: -points,
+        description: `Expired ${points} points`,
+      });
+      return points;
+    });
+  }
+
+  async getSubscriptionPlans(branchId: string): Promise<SubscriptionPlan[]> {
+    return await db
+      .select()
+      .from(subscriptionPlans)
+      .where(eq(subscriptionPlans.branchId, branchId))
+      .orderBy(asc(subscriptionPlans.nameEn));
+  }
+
+  async getSubscriptionPlan(id: string, branchId: string): Promise<SubscriptionPlan | undefined> {
+    const [plan] = await db
+      .select()
+      .from(subscriptionPlans)
+      .where(and(eq(subscriptionPlans.id, id), eq(subscriptionPlans.branchId, branchId)));
+    return plan;
+  }
+
+  async createSubscriptionPlan(branchId: string, plan: SubscriptionPlanInput): Promise<SubscriptionPlan> {
+    const [created] = await db.insert(subscriptionPlans).values({ ...plan, branchId }).returning();
+    return created;
+  }
+
+  async updateSubscriptionPlan(
+    id: string,
+    branchId: string,
+    updates: Partial<SubscriptionPlanInput>,
+  ): Promise<SubscriptionPlan | undefined> {
+    const [updated] = await db
+      .update(subscriptionPlans)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(subscriptionPlans.id, id), eq(subscriptionPlans.branchId, branchId)))
+      .returning();
+    return updated;
+  }
+
+  async getCustomerSubscriptions(customerId: string): Promise<CustomerSubscriptionWithPlan[]> {
+    const rows = await db
+      .select({ subscription: customerSubscriptions, plan: subscriptionPlans })
+      .from(customerSubscriptions)
+      .innerJoin(subscriptionPlans, eq(subscriptionPlans.id, customerSubscriptions.planId))
+      .where(eq(customerSubscriptions.customerId, customerId))
+      .orderBy(desc(customerSubscriptions.createdAt));
+    if (!rows.length) return [];
+    const cycles = await db
+      .select()
+      .from(subscriptionCycles)
+      .where(inArray(subscriptionCycles.subscriptionId, rows.map((row) => row.subscription.id)))
+      .orderBy(desc(subscriptionCycles.periodStart));
+    return rows.map(({ subscription, plan }) => ({
+      ...subscription,
+      plan,
+      cycles: cycles.filter((cycle) => cycle.subscriptionId === subscription.id),
+    }));
+  }
+
+  async getCustomerSubscription(id: string): Promise<CustomerSubscription | undefined> {
+    const [subscription] = await db.select().from(customerSubscriptions).where(eq(customerSubscriptions.id, id));
+    return subscription;
+  }
+
+  // Issues the plan's package for one cycle with any rolled-over credits, and records what the cycle is billed:
+  // a card payment against the card on file, or a pay-later charge added to the customer's balance.
+  private async issueSubscriptionCycle(
+    tx: any,
+    cycle: {
+      subscriptionId: string;
+      customerId: string;
+      branchId: string;
+      plan: SubscriptionPlan;
+      billingMethod: SubscriptionBillingMethod;
+      cardReference: string | null;
+      period: SubscriptionPeriod;
+      rollover: SubscriptionCredit[];
+      receivedBy: string;
+      now: Date;
+    },
+  ): Promise<SubscriptionCycle> {
+    const { plan, period } = cycle;
+    const items = await tx.select().from(packageItems).where(eq(packageItems.packageId, plan.packageId));
+    const credits = new Map<string, { serviceId: string; clothingItemId: string; balance: number }>();
+    for (const item of [...items.map((i: PackageItem) => ({ ...i, balance: i.credits })), ...cycle.rollover]) {
+      const key = `${item.serviceId}:${item.clothingItemId}`;
+      const entry = credits.get(key) ?? { serviceId: item.serviceId, clothingItemId: item.clothingItemId, balance: 0 };
+      entry.balance += item.balance;
+      credits.set(key, entry);
+    }
+    const issued = Array.from(credits.values());
+    const [record] = await tx
+      .insert(customerPackages)
+      .values({
+        packageId: plan.packageId,
+        customerId: cycle.customerId,
+        balance: issued.reduce((sum, item) => sum + item.balance, 0),
+        startsAt: period.start,
+        expiresAt: period.end,
+      })
+      .returning();
+    if (issued.length) {
+      await tx.insert(customerPackageItems).values(
+        issued.map((item) => ({
+          customerPackageId: record.id,
+          serviceId: item.serviceId,
+          clothingItemId: item.clothingItemId,
+          balance: item.balance,
+          totalCredits: item.balance,
+        })),
+      );
+    }
+
+    const amount = Number(plan.price);
+    let paymentId: string | null = null;
+    // Card renewals are collected now; pay-later ones become a receivable once the cycle exists
+    if (amount > 0 && cycle.billingMethod === "card_on_file") {
+      const [payment] = await tx
+        .insert(payments)
+        .values({
+          customerId: cycle.customerId,
+          branchId: cycle.branchId,
+          amount: amount.toFixed(2),
+          paymentMethod: "card",
+          notes:
+            `Subscription ${plan.nameEn}: ${period.start.toISOString().slice(0, 10)} to ${period.end.toISOString().slice(0, 10)}` +
+            (cycle.cardReference ? ` (card ${cycle.cardReference})` : ""),
+          receivedBy: cycle.receivedBy,
+        })
+        .returning();
+      paymentId = payment.id;
+      await this.postJournalEntry(
+        tx,
+        cycle.branchId,
+        paymentPosting({ paymentId: payment.id, amount, paymentMethod: "card", purpose: "package" }),
+        cycle.now,
+      );
+    }
+
+    const [created] = await tx
+      .insert(subscriptionCycles)
+      .values({
+        subscriptionId: cycle.subscriptionId,
+        customerPackageId: record.id,
+        paymentId,
+        periodStart: period.start,
+        periodEnd: period.end,
+        amount: amount.toFixed(2),
+        billingMethod: cycle.billingMethod,
+        rolledOverCredits: cycle.rollover.reduce((sum, item) => sum + item.balance, 0),
+      })
+      .returning();
+
+    if (amount > 0 && cycle.billingMethod === "pay_later") {
+      await this.postJournalEntry(
+        tx,
+        cycle.branchId,
+        subscriptionChargePosting({ cycleId: created.id, planName: plan.nameEn, amount }),
+        cycle.now,
+      );
+      await tx
+        .update(customers)
+        .set({ balanceDue: sql`${customers.balanceDue} + ${amount.toFixed(2)}`, updatedAt: new Date() })
+        .where(eq(customers.id, cycle.customerId));
+    }
+    return created;
+  }
+
+  async startCustomerSubscription(request: SubscriptionStartRequest): Promise<SubscriptionCycleResult> {
+    const { plan, now } = request;
+    const period = { start: now, end: subscriptionPeriodEnd(now, plan.intervalMonths) };
+    return await this.withTenant(request.branchId, async (tx) => {
+      const [subscription] = await tx
+        .insert(customerSubscriptions)
+        .values({
+          customerId: request.customerId,
+          branchId: request.branchId,
+          planId: plan.id,
+          billingMethod: request.billingMethod,
+          cardReference: request.cardReference,
+          currentPeriodStart: period.start,
+          currentPeriodEnd: period.end,
+        })
+        .returning();
+      const cycle = await this.issueSubscriptionCycle(tx, {
+        ...request,
+        subscriptionId: subscription.id,
+        period,
+        rollover: [],
+      });
+      const [updated] = await tx
+        .update(customerSubscriptions)
+        .set({ currentPackageId: cycle.customerPackageId })
+        .where(eq(customerSubscriptions.id, subscription.id))
+        .returning();
+      return { subscription: updated, cycle };
+    });
+  }
+
+  async renewCustomerSubscription(
+    id: string,
+    request: { receivedBy: string; now: Date },
+  ): Promise<SubscriptionCycleResult | undefined> {
+    const existing = await this.getCustomerSubscription(id);
+    if (!existing) return undefined;
+    return await this.withTenant(existing.branchId, async (tx) => {
+      const [subscription] = await tx
+        .select()
+        .from(customerSubscriptions)
+        .where(eq(customerSubscriptions.id, id))
+        .for("update");
+      // Another run may have renewed, paused or cancelled it since it was listed
+      if (!subscription || subscription.status !== "active" || subscription.currentPeriodEnd > request.now) {
+        return undefined;
+      }
+      const [plan] = await tx.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, subscription.planId));
+      if (!plan) return undefined;
+
+      let remaining: SubscriptionCredit[] = [];
+      if (subscription.currentPackageId) {
+        remaining = await tx
+          .select({
+            serviceId: customerPackageItems.serviceId,
+            clothingItemId: customerPackageItems.clothingItemId,
+            balance: customerPackageItems.balance,
+          })
+          .from(customerPackageItems)
+          .where(eq(customerPackageItems.customerPackageId, subscription.currentPackageId));
+        // The old cycle closes; whatever rolls over moves to the new package
+        await tx
+          .update(customerPackageItems)
+          .set({ balance: 0 })
+          .where(eq(customerPackageItems.customerPackageId, subscription.currentPackageId));
+        await tx
+          .update(customerPackages)
+          .set({ balance: 0 })
+          .where(eq(customerPackages.id, subscription.currentPackageId));
+      }
+
+      const period = nextSubscriptionPeriod(subscription.currentPeriodEnd, plan.intervalMonths, request.now);
+      const cycle = await this.issueSubscriptionCycle(tx, {
+        subscriptionId: subscription.id,
+        customerId: subscription.customerId,
+        branchId: subscription.branchId,
+        plan,
+        billingMethod: subscription.billingMethod,
+        cardReference: subscription.cardReference,
+        period,
+        rollover: rolloverCredits(plan, remaining),
+        receivedBy: request.receivedBy,
+        now: request.now,
+      });
+      const [updated] = await tx
+        .update(customerSubscriptions)
+        .set({
+          currentPackageId: cycle.customerPackageId,
+          currentPeriodStart: period.start,
+          currentPeriodEnd: period.end,
+          updatedAt: new Date(),
+        })
+        .where(eq(customerSubscriptions.id, subscription.id))
+        .returning();
+      return { subscription: updated, cycle };
+    });
+  }
+
+  async setCustomerSubscriptionStatus(
+    id: string,
+    status: SubscriptionStatus,
+    now: Date,
+  ): Promise<CustomerSubscription | undefined> {
+    const [updated] = await db
+      .update(customerSubscriptions)
+      .set({
+        status,
+        pausedAt: status === "paused" ? now : null,
+        ...(status === "cancelled" ? { cancelledAt: now } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(customerSubscriptions.id, id), ne(customerSubscriptions.status, "cancelled")))
+      .returning();
+    return updated;
+  }
+
+  async getSubscriptionsDueForRenewal(now: Date): Promise<string[]> {
+    const rows = await db
+      .select({ id: customerSubscriptions.id })
+      .from(customerSubscriptions)
+      .where(and(eq(customerSubscriptions.status, "active"), lte(customerSubscriptions.currentPeriodEnd, now)));
+    return rows.map((row) => row.id);
+  }
+
+  async getSubscriptionReminderCandidates(now: Date): Promise<SubscriptionReminderCandidate[]> {
+    const rows = await db
+      .select({
+        subscription: customerSubscriptions,
+        plan: subscriptionPlans,
+        customer: { name: customers.name, phoneNumber: customers.phoneNumber, email: customers.email },
+      })
+      .from(customerSubscriptions)
+      .innerJoin(subscriptionPlans, eq(subscriptionPlans.id, customerSubscriptions.planId))
+      .innerJoin(customers, eq(customers.id, customerSubscriptions.customerId))
+      .where(
+        and(
+          eq(customerSubscriptions.status, "active"),
+          gt(customerSubscriptions.currentPeriodEnd, now),
+          sql`${customerSubscriptions.currentPeriodEnd} <= ${now}::timestamptz + ${subscriptionPlans.reminderDays} * interval '1 day'`,
+          or(
+            isNull(customerSubscriptions.reminderSentFor),
+            ne(customerSubscriptions.reminderSentFor, customerSubscriptions.currentPeriodEnd),
+          ),
+        ),
+      );
+    return rows;
+  }
+
+  async markSubscriptionReminderSent(id: string, periodEnd: Date): Promise<void> {
+    await db
+      .update(customerSubscriptions)
+      .set({ reminderSentFor: periodEnd })
+      .where(eq(customerSubscriptions.id, id));
+  }
+
+  private async withHouseholdMembers(household: Household): Promise<HouseholdWithMembers> {
+    const rows = await db
+      .select({ member: householdMembers, name: customers.name, phoneNumber: customers.phoneNumber })
+      .from(householdMembers)
+      .innerJoin(customers, eq(customers.id, householdMembers.customerId))
+      .where(eq(householdMembers.householdId, household.id))
+      .orderBy(asc(householdMembers.createdAt));
+    return {
+      ...household,
+      members: rows.map(({ member, name, phoneNumber }) => ({ ...member, name, phoneNumber })),
+    };
+  }
+
+  async getHousehold(id: string): Promise<HouseholdWithMembers | undefined> {
+    const [household] = await db.select().from(households).where(eq(households.id, id));
+    return household ? await this.withHouseholdMembers(household) : undefined;
+  }
+
+  async getCustomerHousehold(customerId: string): Promise<HouseholdWithMembers | undefined> {
+    const [row] = await db
+      .select({ household: households })
+      .from(householdMembers)
+      .innerJoin(households, eq(households.id, householdMembers.householdId))
+      .where(eq(householdMembers.customerId, customerId));
+    return row ? await this.withHouseholdMembers(row.household) : undefined;
+  }
+
+  async createHousehold(
+    branchId: string,
+    name: string,
+    ownerCustomerId: string,
+    memberCustomerIds: string[],
+  ): Promise<HouseholdWithMembers> {
+    const household = await this.withTenant(branchId, async (tx) => {
+      const [created] = await tx.insert(households).values({ branchId, name }).returning();
+      await tx.insert(householdMembers).values([
+        { householdId: created.id, customerId: ownerCustomerId, role: "owner" as const },
+        ...memberCustomerIds
+          .filter((customerId) => customerId !== ownerCustomerId)
+          .map((customerId) => ({ householdId: created.id, customerId, role: "member" as const })),
+      ]);
+      return created;
+    });
+    return await this.withHouseholdMembers(household);
+  }
+
+  async addHouseholdMember(householdId: string, customerId: string): Promise<HouseholdWithMembers> {
+    await db.insert(householdMembers).values({ householdId, customerId, role: "member" });
+    await db.update(households).set({ updatedAt: new Date() }).where(eq(households.id, householdId));
+    return (await this.getHousehold(householdId))!;
+  }
+
+  async removeHouseholdMember(householdId: string, customerId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(householdMembers)
+        .where(and(eq(householdMembers.householdId, householdId), eq(householdMembers.customerId, customerId)))
+        .returning();
+      if (!removed) return false;
+      // A customer belongs to one household, so every share they give or receive is inside this one
+      await tx.execute(sql`
+        DELETE FROM customer_package_shares s
+        USING customer_packages cp
+        WHERE cp.id = s.customer_package_id
+          AND (s.customer_id = ${customerId} OR cp.customer_id = ${customerId})
+      `);
+      await tx.update(households).set({ updatedAt: new Date() }).where(eq(households.id, householdId));
+      return true;
+    });
+  }
+
+  async getCustomerPackage(id: string): Promise<CustomerPackage | undefined> {
+    const [record] = await db.select().from(customerPackages).where(eq(customerPackages.id, id));
+    return record;
+  }
+
+  async getCustomerPackageShares(customerPackageId: string): Promise<CustomerPackageShareWithCustomer[]> {
+    const rows = await db
+      .select({ share: customerPackageShares, customerName: customers.name })
+      .from(customerPackageShares)
+      .innerJoin(customers, eq(customers.id, customerPackageShares.customerId))
+      .where(eq(customerPackageShares.customerPackageId, customerPackageId))
+      .orderBy(asc(customerPackageShares.createdAt));
+    return rows.map(({ share, customerName }) => ({ ...share, customerName }));
+  }
+
+  async setCustomerPackageShares(
+    customerPackageId: string,
+    shares: { customerId: string; creditLimit: number | null }[],
+  ): Promise<CustomerPackageShareWithCustomer[]> {
+    await db.transaction(async (tx) => {
+      const kept = shares.map((share) => share.customerId);
+      await tx
+        .delete(customerPackageShares)
+        .where(
+          and(
+            eq(customerPackageShares.customerPackageId, customerPackageId),
+            kept.length ? notInArray(customerPackageShares.customerId, kept) : undefined,
+          ),
+        );
+      for (const share of shares) {
+        await tx
+          .insert(customerPackageShares)
+          .values({ customerPackageId, customerId: share.customerId, creditLimit: share.creditLimit })
+          .onConflictDoUpdate({
+            target: [customerPackageShares.customerPackageId, customerPackageShares.customerId],
+            set: { creditLimit: share.creditLimit, updatedAt: new Date() },
+          });
+      }
+    });
+    return await this.getCustomerPackageShares(customerPackageId);
+  }
+
+  async getSharedPackagesForCustomer(customerId: string): Promise<SharedCustomerPackage[]> {
+    const shares = await db
+      .select({
+        share: customerPackageShares,
+        ownerCustomerId: customerPackages.customerId,
+        ownerName: customers.name,
+      })
+      .from(customerPackageShares)
+      .innerJoin(customerPackages, eq(customerPackages.id, customerPackageShares.customerPackageId))
+      .innerJoin(customers, eq(customers.id, customerPackages.customerId))
+      .where(eq(customerPackageShares.customerId, customerId));
+    if (!shares.length) return [];
+
+    const result: SharedCustomerPackage[] = [];
+    const ownerPackages = new Map<string, CustomerPackageWithUsage[]>();
+    for (const { share, ownerCustomerId, ownerName } of shares) {
+      if (!ownerPackages.has(ownerCustomerId)) {
+        ownerPackages.set(ownerCustomerId, await this.getCustomerPackagesWithUsage(ownerCustomerId));
+      }
+      const pkg = ownerPackages.get(ownerCustomerId)!.find((entry) => entry.id === share.customerPackageId);
+      if (!pkg) continue;
+      result.push({
+        ...pkg,
+        ownerCustomerId,
+        ownerName,
+        shareId: share.id,
+        creditLimit: share.creditLimit,
+        creditsUsed: share.creditsUsed,
+      });
+    }
+    return result;
+  }
+
+  async consumePackageCredits(entry: {
+    orderId: string | null;
+    customerId: string;
+    credits: PackageCreditConsumption[];
+  }): Promise<void> {
+    if (!entry.credits.length) return;
+    await db.transaction(async (tx) => {
+      for (const credit of entry.credits) {
+        const [pkg] = await tx
+          .update(customerPackages)
+          .set({ balance: sql`${customerPackages.balance} - ${credit.quantity}` })
+          .where(eq(customerPackages.id, credit.customerPackageId))
+          .returning({ customerId: customerPackages.customerId });
+        if (!pkg) continue;
+        await tx
+          .update(customerPackageItems)
+          .set({ balance: sql`${customerPackageItems.balance} - ${credit.quantity}` })
+          .where(
+            and(
+              eq(customerPackageItems.customerPackageId, credit.customerPackageId),
+              eq(customerPackageItems.serviceId, credit.serviceId),
+              eq(customerPackageItems.clothingItemId, credit.clothingItemId),
+            ),
+          );
+        if (pkg.customerId !== entry.customerId) {
+          await tx
+            .update(customerPackageShares)
+            .set({ creditsUsed: sql`${customerPackageShares.creditsUsed} + ${credit.quantity}`, updatedAt: new Date() })
+            .where(
+              and(
+                eq(customerPackageShares.customerPackageId, credit.customerPackageId),
+                eq(customerPackageShares.customerId, entry.customerId),
+              ),
+            );
+        }
+        await tx.insert(customerPackageUsages).values({
+          customerPackageId: credit.customerPackageId,
+          orderId: entry.orderId,
+          customerId: entry.customerId,
+          serviceId: credit.serviceId,
+          clothingItemId: credit.clothingItemId,
+          quantity: credit.quantity,
+        });
+      }
+    });
+  }
+
+  async getCustomerPackageUsages(customerPackageId: string): Promise<CustomerPackageUsageEntry[]> {
+    const rows = await db
+      .select({ usage: customerPackageUsages, customerName: customers.name, orderNumber: orders.orderNumber })
+      .from(customerPackageUsages)
+      .innerJoin(customers, eq(customers.id, customerPackageUsages.customerId))
+      .leftJoin(orders, eq(orders.id, customerPackageUsages.orderId))
+      .where(eq(customerPackageUsages.customerPackageId, customerPackageId))
+      .orderBy(desc(customerPackageUsages.createdAt));
+    return rows.map(({ usage, customerName, orderNumber }) => ({ ...usage, customerName, orderNumber }));
+  }
+
+  async getCustomerPackageTransfers(customerId: string): Promise<CustomerPackageTransfer[]> {
+    return await db
+      .select()
+      .from(customerPackageTransfers)
+      .where(
+        or(eq(customerPackageTransfers.fromCustomerId, customerId), eq(customerPackageTransfers.toCustomerId, customerId)),
+      )
+      .orderBy(desc(customerPackageTransfers.createdAt));
+  }
+
+  async transferCustomerPackage(request: PackageTransferRequest): Promise<PackageTransferResult | undefined> {
+    return await this.withTenant(request.branchId, async (tx) => {
+      const [source] = await tx
+        .select()
+        .from(customerPackages)
+        .where(eq(customerPackages.id, request.customerPackageId))
+        .for("update");
+      if (!source) return undefined;
+      const credits = transferableCredits(
+        await tx
+          .select({
+            serviceId: customerPackageItems.serviceId,
+            clothingItemId: customerPackageItems.clothingItemId,
+            balance: customerPackageItems.balance,
+          })
+          .from(customerPackageItems)
+          .where(eq(customerPackageItems.customerPackageId, source.id)),
+      );
+      const total = credits.reduce((sum, credit) => sum + credit.balance, 0);
+      if (total <= 0) return undefined;
+
+      const [customerPackage] = await tx
+        .insert(customerPackages)
+        .values({
+          customerId: request.toCustomerId,
+          packageId: source.packageId,
+          balance: total,
+          startsAt: new Date(),
+          expiresAt: source.expiresAt,
+        })
+        .returning();
+      await tx.insert(customerPackageItems).values(
+        credits.map((credit) => ({
+          customerPackageId: customerPackage.id,
+          serviceId: credit.serviceId,
+          clothingItemId: credit.clothingItemId,
+          balance: credit.balance,
+          totalCredits: credit.balance,
+        })),
+      );
+      await tx
+        .update(customerPackageItems)
+        .set({ balance: 0 })
+        .where(eq(customerPackageItems.customerPackageId, source.id));
+      await tx.update(customerPackages).set({ balance: 0 }).where(eq(customerPackages.id, source.id));
+      // Shares were granted by the previous holder and do not follow the credits
+      await tx.delete(customerPackageShares).where(eq(customerPackageShares.customerPackageId, source.id));
+
+      const [transfer] = await tx
+        .insert(customerPackageTransfers)
+        .values({
+          branchId: request.branchId,
+          fromCustomerPackageId: source.id,
+          toCustomerPackageId: customerPackage.id,
+          fromCustomerId: source.customerId,
+          toCustomerId: request.toCustomerId,
+          credits: total,
+          reason: request.reason,
+          transferredBy: request.transferredBy,
+        })
+        .returning();
+      return { transfer, customerPackage };
+    });
+  }
+
+  async getCustomerWalletTransactions(customerId: string, limit = 50): Promise<CustomerWalletTransaction[]> {
+    return await db
+      .select()
+      .from(customerWalletTransactions)
+      .where(eq(customerWalletTransactions.customerId, customerId))
+      .orderBy(desc(customerWalletTransactions.createdAt), desc(customerWalletTransactions.id))
+      .limit(limit);
   }
 
-  async getSecuritySettings(): Promise<SecuritySettings | undefined> {
-    const [settings] = await db.select().from(securitySettings).limit(1);
-    return settings || undefined;
+  async creditCustomerWallet(entry: {
+    customerId: string;
+    branchId: string;
+    type: Exclude<CustomerWalletTransactionType, "spend">;
+    amount: number;
+    fundingMethod?: string | null;
+    orderId?: string | null;
+    notes?: string | null;
+    createdBy?: string | null;
+  }): Promise<CustomerWalletTransaction | undefined> {
+    const amount = entry.amount.toFixed(2);
+    return await this.withTenant(entry.branchId, async (tx) => {
+      const [customer] = await tx
+        .update(customers)
+        .set({ walletBalance: sql`${customers.walletBalance} + ${amount}`, updatedAt: sql`CURRENT_TIMESTAMP` })
+        .where(eq(customers.id, entry.customerId))
+        .returning({ walletBalance: customers.walletBalance });
+      if (!customer) return undefined;
+      const [record] = await tx
+        .insert(customerWalletTransactions)
+        .values({
+          customerId: entry.customerId,
+          branchId: entry.branchId,
+          type: entry.type,
+          amount,
+          balanceAfter: customer.walletBalance,
+          fundingMethod: entry.fundingMethod ?? null,
+          orderId: entry.orderId ?? null,
+          notes: entry.notes ?? null,
+          createdBy: entry.createdBy ?? null,
+        })
+        .returning();
+      await this.postJournalEntry(
+        tx,
+        entry.branchId,
+        walletPosting({
+          transactionId: record.id,
+          type: entry.type,
+          amount: entry.amount,
+          fundingMethod: entry.fundingMethod,
+        }),
+      );
+      return record;
+    });
   }
 
-  async updateSecuritySettings(settingsData: InsertSecuritySettings): Promise<SecuritySettings> {
-    const existing = await this.getSecuritySettings();
-    if (existing) {
-      const [updated] = await db
-        .update(securitySettings)
-        .set({ ...settingsData, updatedAt: new Date() })
-        .where(eq(securitySettings.id, existing.id))
+  async payWithCustomerWallet(
+    paymentData: InsertPayment & { branchId: string },
+    createdBy?: string | null,
+  ): Promise<{ payment: Payment; transaction: CustomerWalletTransaction } | undefined> {
+    const amount = Number.parseFloat(String(paymentData.amount)).toFixed(2);
+    return await this.withTenant(paymentData.branchId, async (tx) => {
+      // Conditional decrement keeps concurrent spends from overdrawing the wallet
+      const [customer] = await tx
+        .update(customers)
+        .set({ walletBalance: sql`${customers.walletBalance} - ${amount}`, updatedAt: sql`CURRENT_TIMESTAMP` })
+        .where(and(eq(customers.id, paymentData.customerId), gte(customers.walletBalance, amount)))
+        .returning({ walletBalance: customers.walletBalance });
+      if (!customer) return undefined;
+      const [payment] = await tx
+        .insert(payments)
+        .values({ ...paymentData, amount, paymentMethod: "wallet" })
         .returning();
-      return updated;
-    }
-    const [created] = await db
-      .insert(securitySettings)
-      .values(settingsData)
-      .returning();
+      const [transaction] = await tx
+        .insert(customerWalletTransactions)
+        .values({
+          customerId: paymentData.customerId,
+          branchId: paymentData.branchId,
+          type: "spend",
+          amount: `-${amount}`,
+          balanceAfter: customer.walletBalance,
+          orderId: paymentData.orderId ?? null,
+          paymentId: payment.id,
+          notes: paymentData.notes ?? null,
+          createdBy: createdBy ?? null,
+        })
+        .returning();
+      // Spending the wallet settles the receivable against the wallet liability, not cash
+      await this.postJournalEntry(
+        tx,
+        paymentData.branchId,
+        walletPosting({ transactionId: transaction.id, type: "spend", amount: Number.parseFloat(amount) }),
+      );
+      return { payment, transaction };
+    });
+  }
+
+  async createOrderRefund(refund: InsertOrderRefund): Promise<OrderRefund> {
+    const [created] = await db.insert(orderRefunds).values(refund).returning();
     return created;
   }
 
-  async getLoyaltyHistory(customerId: string): Promise<LoyaltyHistory[]> {
+  async getOrderRefund(id: string): Promise<OrderRefund | undefined> {
+    const [record] = await db.select().from(orderRefunds).where(eq(orderRefunds.id, id));
+    return record;
+  }
+
+  async getOrderRefunds(filter: {
+    orderId?: string;
+    branchId?: string;
+    status?: OrderRefundStatus;
+  }): Promise<OrderRefund[]> {
+    const conditions = [];
+    if (filter.orderId) conditions.push(eq(orderRefunds.orderId, filter.orderId));
+    if (filter.branchId) conditions.push(eq(orderRefunds.branchId, filter.branchId));
+    if (filter.status) conditions.push(eq(orderRefunds.status, filter.status));
     return await db
       .select()
-      .from(loyaltyHistory)
-      .where(eq(loyaltyHistory.customerId, customerId));
+      .from(orderRefunds)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(orderRefunds.createdAt));
+  }
+
+  async applyOrderRefund(id: string, decidedBy: string): Promise<OrderRefund | undefined> {
+    const [pending] = await db
+      .select({ branchId: orderRefunds.branchId, orderId: orderRefunds.orderId })
+      .from(orderRefunds)
+      .where(eq(orderRefunds.id, id));
+    if (!pending) return undefined;
+    return await this.withTenant(pending.branchId, async (tx) => {
+      // The order row lock serialises refunds on the same order, so each one sees the others' totals
+      const [order] = await tx
+        .select({ total: orders.total, tax: orders.tax, orderNumber: orders.orderNumber })
+        .from(orders)
+        .where(eq(orders.id, pending.orderId))
+        .for("update");
+      const [claimed] = await tx
+        .update(orderRefunds)
+        .set({ status: "completed", decidedBy, decidedAt: new Date() })
+        .where(and(eq(orderRefunds.id, id), eq(orderRefunds.status, "pending_approval")))
+        .returning();
+      if (!claimed) return undefined;
+
+      const [committed] = await tx
+        .select({ amount: sql<string>`COALESCE(SUM(${orderRefunds.amount}), 0)` })
+        .from(orderRefunds)
+        .where(
+          and(
+            eq(orderRefunds.orderId, claimed.orderId),
+            eq(orderRefunds.status, "completed"),
+            ne(orderRefunds.id, claimed.id),
+          ),
+        );
+      const refundable = Math.max(
+        Number.parseFloat(order?.total ?? "0") - Number.parseFloat(String(committed?.amount ?? 0)),
+        0,
+      );
+      if (Number.parseFloat(claimed.amount) > refundable + 0.005) {
+        throw new OrderRefundExceedsTotalError(refundable);
+      }
+
+      const customerId = claimed.customerId;
+      const [decider] = await tx.select({ username: users.username }).from(users).where(eq(users.id, decidedBy));
+      const notes = `${claimed.kind === "void" ? "Void" : "Refund"}: ${claimed.reason}`;
+      let refundedMoney = 0;
+
+      for (const allocation of claimed.allocations) {
+        if (!customerId || !(allocation.amount > 0)) continue;
+        const amount = allocation.amount.toFixed(2);
+        refundedMoney += allocation.amount;
+        const [payment] = await tx
+          .insert(payments)
+          .values({
+            customerId,
+            orderId: claimed.orderId,
+            branchId: claimed.branchId,
+            amount: `-${amount}`,
+            paymentMethod: allocation.paymentMethod,
+            channel: "refund",
+            notes,
+            receivedBy: decider?.username ?? "system",
+            refundId: claimed.id,
+          })
+          .returning();
+        if (allocation.paymentMethod === "wallet") {
+          const [customer] = await tx
+            .update(customers)
+            .set({ walletBalance: sql`${customers.walletBalance} + ${amount}`, updatedAt: sql`CURRENT_TIMESTAMP` })
+            .where(eq(customers.id, customerId))
+            .returning({ walletBalance: customers.walletBalance });
+          await tx.insert(customerWalletTransactions).values({
+            customerId,
+            branchId: claimed.branchId,
+            type: "refund",
+            amount,
+            balanceAfter: customer.walletBalance,
+            orderId: claimed.orderId,
+            paymentId: payment.id,
+            notes,
+            createdBy: decidedBy,
+          });
+        }
+      }
+
+      for (const credit of claimed.packageCredits) {
+        if (!customerId || !(credit.quantity > 0)) continue;
+        // Credits go back to the package the order drew them from, which may be a household member's
+        const [consumed] = await tx
+          .select({
+            customerPackageId: customerPackageUsages.customerPackageId,
+            ownerCustomerId: customerPackages.customerId,
+          })
+          .from(customerPackageUsages)
+          .innerJoin(customerPackages, eq(customerPackages.id, customerPackageUsages.customerPackageId))
+          .innerJoin(
+            customerPackageItems,
+            and(
+              eq(customerPackageItems.customerPackageId, customerPackageUsages.customerPackageId),
+              eq(customerPackageItems.serviceId, customerPackageUsages.serviceId),
+              eq(customerPackageItems.clothingItemId, customerPackageUsages.clothingItemId),
+            ),
+          )
+          .where(
+            and(
+              eq(customerPackageUsages.orderId, claimed.orderId),
+              eq(customerPackages.packageId, credit.packageId),
+              eq(customerPackageUsages.serviceId, credit.serviceId),
+              eq(customerPackageUsages.clothingItemId, credit.clothingItemId),
+              lt(customerPackageItems.balance, customerPackageItems.totalCredits),
+            ),
+          )
+          .limit(1);
+        // Otherwise return them to the customer's package of that type that still has room for them
+        const [target] = consumed
+          ? [consumed]
+          : await tx
+              .select({ customerPackageId: customerPackageItems.customerPackageId })
+              .from(customerPackageItems)
+              .innerJoin(customerPackages, eq(customerPackages.id, customerPackageItems.customerPackageId))
+              .where(
+                and(
+                  eq(customerPackages.customerId, customerId),
+                  eq(customerPackages.packageId, credit.packageId),
+                  eq(customerPackageItems.serviceId, credit.serviceId),
+                  eq(customerPackageItems.clothingItemId, credit.clothingItemId),
+                  lt(customerPackageItems.balance, customerPackageItems.totalCredits),
+                ),
+              )
+              .orderBy(desc(customerPackages.createdAt))
+              .limit(1);
+        if (!target) continue;
+        if (consumed && consumed.ownerCustomerId !== customerId) {
+          await tx
+            .update(customerPackageShares)
+            .set({ creditsUsed: sql`GREATEST(${customerPackageShares.creditsUsed} - ${credit.quantity}, 0)`, updatedAt: new Date() })
+            .where(
+              and(
+                eq(customerPackageShares.customerPackageId, consumed.customerPackageId),
+                eq(customerPackageShares.customerId, customerId),
+              ),
+            );
+        }
+        await tx
+          .update(customerPackages)
+          .set({ balance: sql`${customerPackages.balance} + ${credit.quantity}` })
+          .where(eq(customerPackages.id, target.customerPackageId));
+        await tx
+          .update(customerPackageItems)
+          .set({ balance: sql`${customerPackageItems.balance} + ${credit.quantity}` })
+          .where(
+            and(
+              eq(customerPackageItems.customerPackageId, target.customerPackageId),
+              eq(customerPackageItems.serviceId, credit.serviceId),
+              eq(customerPackageItems.clothingItemId, credit.clothingItemId),
+            ),
+          );
+      }
+
+      if (customerId) {
+        const loyaltyChange = claimed.loyaltyPointsRestored - claimed.loyaltyPointsReversed;
+        await tx
+          .update(customers)
+          .set({
+            balanceDue: sql`${customers.balanceDue} - ${claimed.balanceCredit}`,
+            totalSpent: sql`GREATEST(${customers.totalSpent} - ${refundedMoney.toFixed(2)}, 0)`,
+            loyaltyPoints: sql`GREATEST(${customers.loyaltyPoints} + ${loyaltyChange}, 0)`,
+            updatedAt: sql`CURRENT_TIMESTAMP`,
+          })
+          .where(eq(customers.id, customerId));
+        if (claimed.loyaltyPointsReversed > 0) {
+          await tx.insert(loyaltyHistory).values({
+            customerId,
+            change: -claimed.loyaltyPointsReversed,
+            description: `Reversed for ${claimed.kind} of order ${claimed.orderId}`,
+          });
+        }
+        if (claimed.loyaltyPointsRestored > 0) {
+          await tx.insert(loyaltyHistory).values({
+            customerId,
+            change: claimed.loyaltyPointsRestored,
+            description: `Restored redemption for ${claimed.kind} of order ${claimed.orderId}`,
+          });
+        }
+      }
+
+      await this.postJournalEntry(
+        tx,
+        claimed.branchId,
+        orderRefundPosting({
+          refundId: claimed.id,
+          kind: claimed.kind,
+          amount: Number.parseFloat(claimed.amount),
+          balanceCredit: Number.parseFloat(claimed.balanceCredit),
+          allocations: customerId ? claimed.allocations.filter((allocation: OrderRefundAllocation) => allocation.amount > 0) : [],
+          orderTotal: Number.parseFloat(order?.total ?? "0"),
+          orderTax: Number.parseFloat(order?.tax ?? "0"),
+          packageCreditValue: await this.packageCreditValue(tx, claimed.packageCredits),
+          loyaltyValue: Number.parseFloat(claimed.loyaltyValueRestored),
+        }),
+      );
+      if (Number.parseFloat(claimed.loyaltyValueRestored) > 0) {
+        await this.postJournalEntry(
+          tx,
+          claimed.branchId,
+          loyaltyRedemptionReversalPosting({
+            refundId: claimed.id,
+            orderNumber: order?.orderNumber,
+            value: Number.parseFloat(claimed.loyaltyValueRestored),
+          }),
+        );
+      }
+      return claimed;
+    });
   }
 
-  async createLoyaltyHistory(entry: InsertLoyaltyHistory): Promise<LoyaltyHistory> {
-    const [record] = await db
-      .insert(loyaltyHistory)
-      .values(entry)
+  async rejectOrderRefund(id: string, decidedBy: string, note?: string | null): Promise<OrderRefund | undefined> {
+    const [rejected] = await db
+      .update(orderRefunds)
+      .set({ status: "rejected", decidedBy, decisionNote: note ?? null, decidedAt: new Date() })
+      .where(and(eq(orderRefunds.id, id), eq(orderRefunds.status, "pending_approval")))
       .returning();
-    return record;
+    return rejected;
   }
 
   async getCustomerEngagementPlan(customerId: string): Promise<CustomerEngagementPlan | undefined> {
@@ -5777,7 +7939,7 @@ export class DatabaseStorage {
   }
 
   async getFinancialReport(filter: ReportDateRangeFilter = {}): Promise<{
-    totals: { cashSales: number; cashOutstanding: number; cashReceived: number; cardReceived: number; expensesTotal: number; netCash: number };
+    totals: { cashSales: number; cashOutstanding: number; cashReceived: number; cardReceived: number; expensesTotal: number; netCash: number; netSales: number; taxCollected: number; grossSales: number };
     cashSales: { orderId: string; orderNumber: string; customerName: string | null; date: string; total: number }[];
     cashReceipts: { paymentId: string; amount: number; date: string; source: 'regular_order' | 'pay_later_receipt' | 'package_or_other'; orderId: string | null; orderNumber: string | null; customerName: string | null; customerId?: string | null; cashier?: string | null; channel?: string | null }[];
     cardReceipts: { paymentId: string; amount: number; date: string; source: 'regular_order' | 'pay_later_receipt' | 'package_or_other'; orderId: string | null; orderNumber: string | null; customerName: string | null; customerId?: string | null; cashier?: string | null; channel?: string | null }[];
@@ -5918,6 +8080,23 @@ export class DatabaseStorage {
     `));
     const expensesTotal = Number(expRows[0]?.total ?? 0);
 
+    // Sales and tax from the server-computed order totals
+    const salesWhere: string[] = ["o.status <> 'cancelled'"];
+    if (start) salesWhere.push(`o.created_at >= ${start}`);
+    if (end) salesWhere.push(`o.created_at <= ${end}`);
+    if (branchFilterOrders) salesWhere.push(branchFilterOrders.slice(4));
+    const { rows: salesRows } = await db.execute<any>(sql.raw(`
+      SELECT
+        COALESCE(SUM(o.subtotal::numeric), 0) AS net_sales,
+        COALESCE(SUM(o.tax::numeric), 0) AS tax_collected,
+        COALESCE(SUM(o.total::numeric), 0) AS gross_sales
+      FROM orders o
+      WHERE ${salesWhere.join(' AND ')}
+    `));
+    const netSales = Number(salesRows[0]?.net_sales ?? 0);
+    const taxCollected = Number(salesRows[0]?.tax_collected ?? 0);
+    const grossSales = Number(salesRows[0]?.gross_sales ?? 0);
+
     return {
       totals: {
         cashSales: cashSalesTotal,
@@ -5926,6 +8105,9 @@ export class DatabaseStorage {
         cardReceived: cardReceivedTotal,
         expensesTotal,
         netCash: cashReceivedTotal - expensesTotal,
+        netSales,
+        taxCollected,
+        grossSales,
       },
       cashSales,
       cashReceipts,
@@ -6609,14 +8791,352 @@ export class DatabaseStorage {
         ...customization,
       } as BranchCustomizationInsert);
     }
-  }
-
-  async createBranchCustomization(customization: BranchCustomizationInsert): Promise<BranchCustomization> {
-    const [created] = await db
-      .insert(branchCustomizationTable)
-      .values(customization as any)
-      .returning();
-    return created;
+  }
+
+  async createBranchCustomization(customization: BranchCustomizationInsert): Promise<BranchCustomization> {
+    const [created] = await db
+      .insert(branchCustomizationTable)
+      .values(customization as any)
+      .returning();
+    return created;
+  }
+
+  // Branch tax profile methods
+  private async attachTaxOverrides(profiles: (typeof branchTaxProfiles.$inferSelect)[]): Promise<BranchTaxProfileWithOverrides[]> {
+    if (profiles.length === 0) return [];
+    const overrides = await db
+      .select()
+      .from(branchTaxOverrides)
+      .where(inArray(branchTaxOverrides.profileId, profiles.map((p) => p.id)));
+    return profiles.map((profile) => ({
+      ...profile,
+      overrides: overrides.filter((o) => o.profileId === profile.id),
+    }));
+  }
+
+  async getBranchTaxProfiles(branchId: string): Promise<BranchTaxProfileWithOverrides[]> {
+    const profiles = await db
+      .select()
+      .from(branchTaxProfiles)
+      .where(eq(branchTaxProfiles.branchId, branchId))
+      .orderBy(desc(branchTaxProfiles.effectiveFrom), desc(branchTaxProfiles.createdAt));
+    return this.attachTaxOverrides(profiles);
+  }
+
+  async getActiveBranchTaxProfile(branchId: string, at: Date = new Date()): Promise<BranchTaxProfileWithOverrides | null> {
+    const day = at.toISOString().slice(0, 10);
+    const [profile] = await db
+      .select()
+      .from(branchTaxProfiles)
+      .where(
+        and(
+          eq(branchTaxProfiles.branchId, branchId),
+          eq(branchTaxProfiles.isActive, true),
+          lte(branchTaxProfiles.effectiveFrom, day),
+          or(isNull(branchTaxProfiles.effectiveTo), gte(branchTaxProfiles.effectiveTo, day)),
+        ),
+      )
+      .orderBy(desc(branchTaxProfiles.effectiveFrom), desc(branchTaxProfiles.createdAt))
+      .limit(1);
+    if (!profile) return null;
+    const [withOverrides] = await this.attachTaxOverrides([profile]);
+    return withOverrides;
+  }
+
+  async createBranchTaxProfile(branchId: string, profile: InsertBranchTaxProfile): Promise<BranchTaxProfileWithOverrides> {
+    const { overrides = [], ...values } = profile;
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(branchTaxProfiles)
+        .values({ ...values, branchId })
+        .returning();
+      const createdOverrides = overrides.length
+        ? await tx
+            .insert(branchTaxOverrides)
+            .values(overrides.map((o) => ({ ...o, profileId: created.id })))
+            .returning()
+        : [];
+      return { ...created, overrides: createdOverrides };
+    });
+  }
+
+  async updateBranchTaxProfile(
+    id: string,
+    branchId: string,
+    profile: InsertBranchTaxProfile,
+  ): Promise<BranchTaxProfileWithOverrides | undefined> {
+    const { overrides, ...values } = profile;
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(branchTaxProfiles)
+        .set({ ...values, updatedAt: new Date() })
+        .where(and(eq(branchTaxProfiles.id, id), eq(branchTaxProfiles.branchId, branchId)))
+        .returning();
+      if (!updated) return undefined;
+      if (overrides) {
+        await tx.delete(branchTaxOverrides).where(eq(branchTaxOverrides.profileId, id));
+        if (overrides.length) {
+          await tx
+            .insert(branchTaxOverrides)
+            .values(overrides.map((o) => ({ ...o, profileId: id })));
+        }
+      }
+      const current = await tx
+        .select()
+        .from(branchTaxOverrides)
+        .where(eq(branchTaxOverrides.profileId, id));
+      return { ...updated, overrides: current };
+    });
+  }
+
+  async deleteBranchTaxProfile(id: string, branchId: string): Promise<boolean> {
+    const result = await db
+      .delete(branchTaxProfiles)
+      .where(and(eq(branchTaxProfiles.id, id), eq(branchTaxProfiles.branchId, branchId)))
+      .returning({ id: branchTaxProfiles.id });
+    return result.length > 0;
+  }
+
+  private async attachCatalogExperimentDetails(
+    experiments: CatalogExperimentRecord[],
+  ): Promise<CatalogExperimentWithDetails[]> {
+    if (experiments.length === 0) return [];
+    const ids = experiments.map((e) => e.id);
+    const [changes, approvals] = await Promise.all([
+      db.select().from(catalogExperimentChanges).where(inArray(catalogExperimentChanges.experimentId, ids)),
+      db
+        .select()
+        .from(catalogExperimentApprovals)
+        .where(inArray(catalogExperimentApprovals.experimentId, ids))
+        .orderBy(asc(catalogExperimentApprovals.createdAt)),
+    ]);
+    return experiments.map((experiment) => ({
+      ...experiment,
+      changes: changes.filter((c) => c.experimentId === experiment.id),
+      approvals: approvals.filter((a) => a.experimentId === experiment.id),
+    }));
+  }
+
+  async getCatalogExperiments(branchId?: string): Promise<CatalogExperimentWithDetails[]> {
+    const rows = await db
+      .select()
+      .from(catalogExperiments)
+      .where(branchId ? eq(catalogExperiments.branchId, branchId) : undefined)
+      .orderBy(desc(catalogExperiments.updatedAt));
+    return this.attachCatalogExperimentDetails(rows);
+  }
+
+  async getCatalogExperiment(id: string): Promise<CatalogExperimentWithDetails | undefined> {
+    const [row] = await db.select().from(catalogExperiments).where(eq(catalogExperiments.id, id));
+    if (!row) return undefined;
+    const [withDetails] = await this.attachCatalogExperimentDetails([row]);
+    return withDetails;
+  }
+
+  async createCatalogExperiment(
+    experiment: InsertCatalogExperimentRecord,
+    changes: Omit<InsertCatalogExperimentChangeRecord, "experimentId">[],
+  ): Promise<CatalogExperimentWithDetails> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(catalogExperiments).values(experiment).returning();
+      const createdChanges = changes.length
+        ? await tx
+            .insert(catalogExperimentChanges)
+            .values(changes.map((change) => ({ ...change, experimentId: created.id })))
+            .returning()
+        : [];
+      return { ...created, changes: createdChanges, approvals: [] };
+    });
+  }
+
+  async updateCatalogExperiment(
+    id: string,
+    patch: Partial<Omit<InsertCatalogExperimentRecord, "id" | "branchId" | "createdAt">>,
+  ): Promise<CatalogExperimentWithDetails | undefined> {
+    const [updated] = await db
+      .update(catalogExperiments)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(eq(catalogExperiments.id, id))
+      .returning();
+    if (!updated) return undefined;
+    const [withDetails] = await this.attachCatalogExperimentDetails([updated]);
+    return withDetails;
+  }
+
+  /**
+   * Writes each change's proposed price to item_service_prices for the experiment branch and
+   * records the previous prices so the experiment can be rolled back. A change without a
+   * clothing item applies to every priced item of that service in the branch. Every price is
+   * read before any change is applied, so overlapping changes all point back to the original.
+   * Returns undefined when the experiment is not in the forecasted state.
+   */
+  async publishCatalogExperiment(
+    id: string,
+    approval: CatalogExperimentApprovalInput,
+  ): Promise<CatalogExperimentWithDetails | undefined> {
+    const applied = await db.transaction(async (tx) => {
+      const now = new Date();
+      const [experiment] = await tx
+        .update(catalogExperiments)
+        .set({ status: "published", publishedAt: now, rolledBackAt: null, outcome: null, updatedAt: now })
+        .where(and(eq(catalogExperiments.id, id), eq(catalogExperiments.status, "forecasted")))
+        .returning();
+      if (!experiment) return false;
+
+      const changes = await tx
+        .select()
+        .from(catalogExperimentChanges)
+        .where(eq(catalogExperimentChanges.experimentId, id));
+      const priceKey = (serviceId: string, clothingItemId: string) => `${serviceId}:${clothingItemId}`;
+      const serviceIds = Array.from(new Set(changes.map((change) => change.serviceId)));
+      const existing = serviceIds.length
+        ? await tx
+            .select({
+              serviceId: itemServicePrices.serviceId,
+              clothingItemId: itemServicePrices.clothingItemId,
+              price: itemServicePrices.price,
+            })
+            .from(itemServicePrices)
+            .where(and(eq(itemServicePrices.branchId, experiment.branchId), inArray(itemServicePrices.serviceId, serviceIds)))
+            .for("update")
+        : [];
+      const original = new Map(existing.map((row) => [priceKey(row.serviceId, row.clothingItemId), row]));
+
+      // Later changes win where they overlap, as if each had been applied in turn
+      const published = new Map<string, { serviceId: string; clothingItemId: string; price: string }>();
+      const touched = changes.map((change) => {
+        const targets = change.clothingItemId
+          ? [change.clothingItemId]
+          : Array.from(
+              new Set(
+                [...Array.from(original.values()), ...Array.from(published.values())]
+                  .filter((row) => row.serviceId === change.serviceId)
+                  .map((row) => row.clothingItemId),
+              ),
+            );
+        for (const clothingItemId of targets) {
+          published.set(priceKey(change.serviceId, clothingItemId), {
+            serviceId: change.serviceId,
+            clothingItemId,
+            price: change.proposedPrice,
+          });
+        }
+        return targets;
+      });
+
+      for (const [key, row] of Array.from(published)) {
+        if (!original.has(key)) {
+          await tx.insert(itemServicePrices).values({ ...row, branchId: experiment.branchId });
+        } else {
+          await tx
+            .update(itemServicePrices)
+            .set({ price: row.price })
+            .where(
+              and(
+                eq(itemServicePrices.serviceId, row.serviceId),
+                eq(itemServicePrices.clothingItemId, row.clothingItemId),
+                eq(itemServicePrices.branchId, experiment.branchId),
+              ),
+            );
+        }
+      }
+
+      for (const [index, change] of changes.entries()) {
+        const snapshot: CatalogExperimentPriceSnapshot = touched[index].map((clothingItemId) => {
+          const key = priceKey(change.serviceId, clothingItemId);
+          return {
+            clothingItemId,
+            previousPrice: original.get(key)?.price ?? null,
+            publishedPrice: published.get(key)!.price,
+          };
+        });
+        await tx
+          .update(catalogExperimentChanges)
+          .set({ priceSnapshot: snapshot })
+          .where(eq(catalogExperimentChanges.id, change.id));
+      }
+
+      await tx.insert(catalogExperimentApprovals).values({ ...approval, experimentId: id, action: "publish" });
+      return true;
+    });
+    return applied ? this.getCatalogExperiment(id) : undefined;
+  }
+
+  // Prices edited after publishing are left alone; only rows still at the published price are restored
+  async rollbackCatalogExperiment(
+    id: string,
+    approval: CatalogExperimentApprovalInput,
+  ): Promise<CatalogExperimentWithDetails | undefined> {
+    const applied = await db.transaction(async (tx) => {
+      const now = new Date();
+      const [experiment] = await tx
+        .update(catalogExperiments)
+        .set({ status: "rolled_back", rolledBackAt: now, updatedAt: now })
+        .where(and(eq(catalogExperiments.id, id), eq(catalogExperiments.status, "published")))
+        .returning();
+      if (!experiment) return false;
+
+      const changes = await tx
+        .select()
+        .from(catalogExperimentChanges)
+        .where(eq(catalogExperimentChanges.experimentId, id));
+      for (const change of changes) {
+        for (const entry of change.priceSnapshot ?? []) {
+          const target = and(
+            eq(itemServicePrices.clothingItemId, entry.clothingItemId),
+            eq(itemServicePrices.serviceId, change.serviceId),
+            eq(itemServicePrices.branchId, experiment.branchId),
+            eq(itemServicePrices.price, entry.publishedPrice ?? change.proposedPrice),
+          );
+          if (entry.previousPrice === null) {
+            await tx.delete(itemServicePrices).where(target);
+          } else {
+            await tx.update(itemServicePrices).set({ price: entry.previousPrice }).where(target);
+          }
+        }
+      }
+
+      await tx.insert(catalogExperimentApprovals).values({ ...approval, experimentId: id, action: "rollback" });
+      return true;
+    });
+    return applied ? this.getCatalogExperiment(id) : undefined;
+  }
+
+  async getCatalogExperimentSales(
+    branchId: string,
+    serviceIds: string[],
+    from: Date,
+    to: Date,
+  ): Promise<{ orderCount: number; lines: CatalogExperimentSalesLine[] }> {
+    const rows = await db
+      .select({ id: orders.id, items: orders.items })
+      .from(orders)
+      .where(
+        and(
+          eq(orders.branchId, branchId),
+          ne(orders.status, "cancelled" as any),
+          gte(orders.createdAt, from),
+          lt(orders.createdAt, to),
+        ),
+      );
+    const wanted = new Set(serviceIds);
+    const lines: CatalogExperimentSalesLine[] = [];
+    const matchedOrders = new Set<string>();
+    for (const row of rows) {
+      const items = Array.isArray(row.items) ? (row.items as any[]) : [];
+      for (const item of items) {
+        if (!item?.serviceId || !wanted.has(item.serviceId)) continue;
+        matchedOrders.add(row.id);
+        lines.push({
+          orderId: row.id,
+          serviceId: item.serviceId,
+          clothingItemId: item.clothingItemId ?? null,
+          quantity: Number(item.quantity) || 0,
+          total: Number(item.total) || 0,
+        });
+      }
+    }
+    return { orderCount: matchedOrders.size, lines };
   }
 
   // Branch Delivery Settings
@@ -6668,6 +9188,269 @@ export class DatabaseStorage {
       return created as any;
     }
   }
+  async getBranchCapacity(branchId: string): Promise<BranchCapacity> {
+    const [settings] = await db
+      .select()
+      .from(branchCapacitySettings)
+      .where(eq(branchCapacitySettings.branchId, branchId));
+    const services = await db
+      .select({ serviceId: branchServiceCapacities.serviceId, dailyPieces: branchServiceCapacities.dailyPieces })
+      .from(branchServiceCapacities)
+      .where(eq(branchServiceCapacities.branchId, branchId));
+    return { settings: settings ?? null, services };
+  }
+
+  async saveBranchCapacity(
+    branchId: string,
+    settings: Omit<BranchCapacitySettings, "branchId" | "updatedAt">,
+    services: ServiceDailyCapacity[],
+  ): Promise<BranchCapacity> {
+    return await db.transaction(async (tx) => {
+      const values = { ...settings, updatedAt: new Date() };
+      const [saved] = await tx
+        .insert(branchCapacitySettings)
+        .values({ branchId, ...values })
+        .onConflictDoUpdate({ target: branchCapacitySettings.branchId, set: values })
+        .returning();
+      await tx.delete(branchServiceCapacities).where(eq(branchServiceCapacities.branchId, branchId));
+      if (services.length) {
+        await tx
+          .insert(branchServiceCapacities)
+          .values(services.map((service) => ({ branchId, ...service })));
+      }
+      return { settings: saved, services };
+    });
+  }
+
+  async getCapacityLoad(branchId: string, from: string, to: string): Promise<CapacityLoad> {
+    const { rows } = await db.execute<{ date: string; service_id: string; pieces: number }>(sql`
+      SELECT o.promised_ready_date::text AS date,
+             line->>'serviceId' AS service_id,
+             SUM(CASE WHEN line->>'quantity' ~ '^[0-9]+$' THEN (line->>'quantity')::int ELSE 0 END)::int AS pieces
+      FROM orders o
+      CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(o.items) = 'array' THEN o.items ELSE '[]'::jsonb END
+      ) AS line
+      WHERE o.branch_id = ${branchId}
+        AND o.promised_ready_date BETWEEN ${from}::date AND ${to}::date
+        AND o.status <> 'cancelled'
+        AND line ? 'serviceId'
+      GROUP BY 1, 2
+    `);
+    const load: CapacityLoad = {};
+    for (const row of rows) {
+      (load[row.date] ??= {})[row.service_id] = Number(row.pieces);
+    }
+    return load;
+  }
+
+  async getBranchCalendar(branchId: string, from?: string): Promise<BranchCalendar> {
+    const weekly = await db
+      .select({
+        weekday: branchOpeningHours.weekday,
+        opensAt: branchOpeningHours.opensAt,
+        closesAt: branchOpeningHours.closesAt,
+      })
+      .from(branchOpeningHours)
+      .where(eq(branchOpeningHours.branchId, branchId))
+      .orderBy(asc(branchOpeningHours.weekday));
+    const entries = await db
+      .select()
+      .from(branchCalendarEntries)
+      .where(
+        from
+          ? and(eq(branchCalendarEntries.branchId, branchId), gte(branchCalendarEntries.endDate, from))
+          : eq(branchCalendarEntries.branchId, branchId),
+      )
+      .orderBy(asc(branchCalendarEntries.startDate));
+    return { weekly, entries: entries.map(toCalendarEntry) };
+  }
+
+  async saveBranchOpeningHours(branchId: string, weekly: WeeklyHours[]): Promise<WeeklyHours[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(branchOpeningHours).where(eq(branchOpeningHours.branchId, branchId));
+      if (weekly.length) {
+        await tx.insert(branchOpeningHours).values(weekly.map((day) => ({ branchId, ...day })));
+      }
+      return [...weekly].sort((a, b) => a.weekday - b.weekday);
+    });
+  }
+
+  async createBranchCalendarEntry(
+    branchId: string,
+    entry: Omit<BranchCalendarEntry, "id">,
+  ): Promise<BranchCalendarEntry> {
+    const [created] = await db
+      .insert(branchCalendarEntries)
+      .values({ branchId, ...entry })
+      .returning();
+    return toCalendarEntry(created);
+  }
+
+  async deleteBranchCalendarEntry(branchId: string, entryId: string): Promise<BranchCalendarEntry | undefined> {
+    const [deleted] = await db
+      .delete(branchCalendarEntries)
+      .where(and(eq(branchCalendarEntries.id, entryId), eq(branchCalendarEntries.branchId, branchId)))
+      .returning();
+    return deleted ? toCalendarEntry(deleted) : undefined;
+  }
+
+  async getDeliverySlots(branchId: string): Promise<DeliverySlot[]> {
+    return await db
+      .select()
+      .from(deliverySlots)
+      .where(eq(deliverySlots.branchId, branchId))
+      .orderBy(asc(deliverySlots.kind), asc(deliverySlots.startTime));
+  }
+
+  async createDeliverySlot(branchId: string, slot: DeliverySlotInput): Promise<DeliverySlot> {
+    const [created] = await db
+      .insert(deliverySlots)
+      .values({ branchId, ...slot })
+      .returning();
+    return created;
+  }
+
+  async updateDeliverySlot(
+    branchId: string,
+    slotId: string,
+    updates: Partial<DeliverySlotInput>,
+  ): Promise<DeliverySlot | undefined> {
+    const [updated] = await db
+      .update(deliverySlots)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(deliverySlots.id, slotId), eq(deliverySlots.branchId, branchId)))
+      .returning();
+    return updated;
+  }
+
+  async getDeliverySlotLoad(branchId: string, from: string, to: string): Promise<DeliverySlotLoad> {
+    const rows = await db
+      .select({
+        slotId: deliverySlotBookings.slotId,
+        slotDate: deliverySlotBookings.slotDate,
+        cityId: deliverySlotBookings.cityId,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(deliverySlotBookings)
+      .where(
+        and(
+          eq(deliverySlotBookings.branchId, branchId),
+          eq(deliverySlotBookings.status, "reserved"),
+          gte(deliverySlotBookings.slotDate, from),
+          lte(deliverySlotBookings.slotDate, to),
+        ),
+      )
+      .groupBy(deliverySlotBookings.slotId, deliverySlotBookings.slotDate, deliverySlotBookings.cityId);
+    const load: DeliverySlotLoad = {};
+    for (const row of rows) {
+      const entry = (load[slotKey(row.slotId, row.slotDate)] ??= { total: 0, zones: {} });
+      entry.total += Number(row.count);
+      if (row.cityId) entry.zones[row.cityId] = (entry.zones[row.cityId] ?? 0) + Number(row.count);
+    }
+    return load;
+  }
+
+  async reserveDeliverySlot(request: DeliverySlotReservationRequest): Promise<DeliverySlotReservation> {
+    return await db.transaction(async (tx) => {
+      // Locking the slot row serialises concurrent bookings, so the count below cannot go stale
+      const [slot] = await tx
+        .select()
+        .from(deliverySlots)
+        .where(eq(deliverySlots.id, request.slotId))
+        .for("update");
+      if (!slot || !slot.isActive) return { ok: false, reason: "unavailable" } as const;
+
+      const previousIds = request.deliveryId
+        ? (
+            await tx
+              .select({ id: deliverySlotBookings.id })
+              .from(deliverySlotBookings)
+              .where(
+                and(
+                  eq(deliverySlotBookings.deliveryId, request.deliveryId),
+                  eq(deliverySlotBookings.kind, slot.kind),
+                  eq(deliverySlotBookings.status, "reserved"),
+                ),
+              )
+          ).map((row) => row.id)
+        : [];
+      const held = await tx
+        .select({ cityId: deliverySlotBookings.cityId })
+        .from(deliverySlotBookings)
+        .where(
+          and(
+            eq(deliverySlotBookings.slotId, slot.id),
+            eq(deliverySlotBookings.slotDate, request.slotDate),
+            eq(deliverySlotBookings.status, "reserved"),
+            previousIds.length ? notInArray(deliverySlotBookings.id, previousIds) : undefined,
+          ),
+        );
+      if (held.length >= slot.capacity) return { ok: false, reason: "full" } as const;
+      const zoneCapacity = request.cityId ? slot.zoneCapacities?.[request.cityId] : undefined;
+      if (zoneCapacity !== undefined && held.filter((row) => row.cityId === request.cityId).length >= zoneCapacity) {
+        return { ok: false, reason: "zone_full" } as const;
+      }
+
+      if (previousIds.length) {
+        await tx
+          .update(deliverySlotBookings)
+          .set({ status: "released", releasedAt: new Date() })
+          .where(inArray(deliverySlotBookings.id, previousIds));
+      }
+      const [booking] = await tx
+        .insert(deliverySlotBookings)
+        .values({
+          slotId: slot.id,
+          branchId: slot.branchId,
+          kind: slot.kind,
+          slotDate: request.slotDate,
+          cityId: request.cityId,
+          orderId: request.orderId ?? null,
+          deliveryId: request.deliveryId ?? null,
+        })
+        .returning();
+      return { ok: true, booking } as const;
+    });
+  }
+
+  async attachDeliverySlotBookings(
+    bookingIds: string[],
+    link: { orderId: string; deliveryId: string | null },
+  ): Promise<void> {
+    if (!bookingIds.length) return;
+    await db
+      .update(deliverySlotBookings)
+      .set({ orderId: link.orderId, deliveryId: link.deliveryId })
+      .where(inArray(deliverySlotBookings.id, bookingIds));
+  }
+
+  async releaseDeliverySlotBookings(bookingIds: string[]): Promise<number> {
+    if (!bookingIds.length) return 0;
+    const released = await db
+      .update(deliverySlotBookings)
+      .set({ status: "released", releasedAt: new Date() })
+      .where(and(inArray(deliverySlotBookings.id, bookingIds), eq(deliverySlotBookings.status, "reserved")))
+      .returning({ id: deliverySlotBookings.id });
+    return released.length;
+  }
+
+  async getDeliverySlotBookings(deliveryIds: string[]): Promise<DeliverySlotBooking[]> {
+    if (!deliveryIds.length) return [];
+    return await db
+      .select()
+      .from(deliverySlotBookings)
+      .where(and(inArray(deliverySlotBookings.deliveryId, deliveryIds), eq(deliverySlotBookings.status, "reserved")));
+  }
+
+  // Cancelled orders give their pickup and drop-off slots back to other customers
+  private async releaseOrderSlotBookings(tx: any, orderId: string): Promise<void> {
+    await tx
+      .update(deliverySlotBookings)
+      .set({ status: "released", releasedAt: new Date() })
+      .where(and(eq(deliverySlotBookings.orderId, orderId), eq(deliverySlotBookings.status, "reserved")));
+  }
+
 
   // Order status management
   async updateOrderStatus(
@@ -6709,6 +9492,9 @@ export class DatabaseStorage {
           `order:${status}`,
           options.actor || null,
         );
+        if (status === "cancelled") {
+          await this.releaseOrderSlotBookings(tx, orderId);
+        }
       }
 
       return updated || undefined;
@@ -6751,6 +9537,8 @@ export class DatabaseStorage {
         .returning();
 
       if (!updated) return undefined;
+      await this.postOrderSale(tx, updated);
+      await this.insertOrderPieces(tx, updated);
 
       await tx
         .update(deliveryOrders)
@@ -6912,6 +9700,9 @@ export class DatabaseStorage {
           `delivery:${status}`,
           actor || null,
         );
+        if (status === "cancelled") {
+          await this.releaseOrderSlotBookings(tx, orderId);
+        }
       }
 
       return { ...updated, order: existing.order };
@@ -6949,6 +9740,194 @@ export class DatabaseStorage {
     });
   }
 
+  async getDeliveryMessages(
+    deliveryId: string,
+    options: { limit: number; beforeId?: string },
+  ): Promise<DeliveryMessage[]> {
+    const conditions = [eq(deliveryMessages.deliveryId, deliveryId)];
+    if (options.beforeId) {
+      conditions.push(
+        sql`(${deliveryMessages.createdAt}, ${deliveryMessages.id}) < (
+          SELECT created_at, id FROM delivery_messages WHERE id = ${options.beforeId}
+        )`,
+      );
+    }
+    return await db
+      .select()
+      .from(deliveryMessages)
+      .where(and(...conditions))
+      .orderBy(desc(deliveryMessages.createdAt), desc(deliveryMessages.id))
+      .limit(options.limit);
+  }
+
+  async createDeliveryMessage(message: InsertDeliveryMessage): Promise<DeliveryMessage> {
+    const [created] = await db.insert(deliveryMessages).values(message).returning();
+    return created;
+  }
+
+  async saveDeliveryPortalOtp(deliveryId: string, contact: string, codeHash: string, expiresAt: Date): Promise<void> {
+    await db
+      .insert(deliveryPortalOtps)
+      .values({ deliveryId, contact, codeHash, expiresAt })
+      .onConflictDoUpdate({
+        target: [deliveryPortalOtps.deliveryId, deliveryPortalOtps.contact],
+        set: { codeHash, expiresAt, attempts: 0, createdAt: new Date() },
+      });
+  }
+
+  async recordDeliveryPortalOtpAttempt(
+    deliveryId: string,
+    contact: string,
+    maxAttempts: number,
+  ): Promise<DeliveryPortalOtp | undefined> {
+    const [record] = await db
+      .update(deliveryPortalOtps)
+      .set({ attempts: sql`${deliveryPortalOtps.attempts} + 1` })
+      .where(
+        and(
+          eq(deliveryPortalOtps.deliveryId, deliveryId),
+          eq(deliveryPortalOtps.contact, contact),
+          lt(deliveryPortalOtps.attempts, maxAttempts),
+        ),
+      )
+      .returning();
+    return record;
+  }
+
+  async deleteDeliveryPortalOtp(id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(deliveryPortalOtps)
+      .where(eq(deliveryPortalOtps.id, id))
+      .returning({ id: deliveryPortalOtps.id });
+    return deleted.length > 0;
+  }
+
+  async countDeliveryReschedules(deliveryId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(deliveryReschedules)
+      .where(eq(deliveryReschedules.deliveryId, deliveryId));
+    return Number(row?.count ?? 0);
+  }
+
+  async recordDeliveryReschedule(reschedule: InsertDeliveryReschedule): Promise<DeliveryReschedule> {
+    const [created] = await db.insert(deliveryReschedules).values(reschedule).returning();
+    return created;
+  }
+
+  async getDeliveryCompensationTotal(deliveryId: string): Promise<number> {
+    const [row] = await db
+      .select({ total: sql<string>`COALESCE(SUM(${deliveryCompensations.amount}), 0)` })
+      .from(deliveryCompensations)
+      .where(
+        and(
+          eq(deliveryCompensations.deliveryId, deliveryId),
+          ne(deliveryCompensations.status, "rejected"),
+        ),
+      );
+    return Number(row?.total ?? 0);
+  }
+
+  async createDeliveryCompensation(compensation: InsertDeliveryCompensation): Promise<DeliveryCompensation> {
+    const [created] = await db.insert(deliveryCompensations).values(compensation).returning();
+    return created;
+  }
+
+  async getDeliveryCompensation(id: string): Promise<DeliveryCompensation | undefined> {
+    const [record] = await db.select().from(deliveryCompensations).where(eq(deliveryCompensations.id, id));
+    return record;
+  }
+
+  async getDeliveryCompensations(filter: {
+    branchId?: string;
+    customerId?: string;
+    status?: DeliveryCompensationStatus;
+  }): Promise<DeliveryCompensation[]> {
+    const conditions = [];
+    if (filter.branchId) conditions.push(eq(deliveryCompensations.branchId, filter.branchId));
+    if (filter.customerId) conditions.push(eq(deliveryCompensations.customerId, filter.customerId));
+    if (filter.status) conditions.push(eq(deliveryCompensations.status, filter.status));
+    return await db
+      .select()
+      .from(deliveryCompensations)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(deliveryCompensations.createdAt));
+  }
+
+  async applyDeliveryCompensation(
+    id: string,
+    decidedBy: string | null,
+  ): Promise<DeliveryCompensation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(deliveryCompensations)
+        .set({ status: "applied", decidedBy, decidedAt: new Date() })
+        .where(and(eq(deliveryCompensations.id, id), eq(deliveryCompensations.status, "pending_approval")))
+        .returning();
+      if (!claimed) return undefined;
+
+      if (claimed.method === "coupon") {
+        const createdBy = decidedBy ?? claimed.requestedBy;
+        if (!createdBy) {
+          throw new Error("Coupon compensation requires a staff user");
+        }
+        await tx.execute(sql`SELECT set_config('app.branch_id', ${claimed.branchId}, true)`);
+        const [coupon] = await tx
+          .insert(coupons)
+          .values({
+            code: `COMP-${randomUUID().slice(0, 8).toUpperCase()}`,
+            nameEn: "Delivery compensation",
+            discountType: "fixed",
+            discountValue: claimed.amount,
+            usageLimit: 1,
+            branchId: claimed.branchId,
+            createdBy,
+          })
+          .returning();
+        const [withCoupon] = await tx
+          .update(deliveryCompensations)
+          .set({ couponId: coupon.id })
+          .where(eq(deliveryCompensations.id, id))
+          .returning();
+        await this.postJournalEntry(
+          tx,
+          claimed.branchId,
+          deliveryCompensationPosting({ compensationId: claimed.id, amount: Number.parseFloat(claimed.amount), method: "coupon" }),
+        );
+        return withCoupon;
+      }
+
+      if (claimed.customerId) {
+        await tx
+          .update(customers)
+          .set({
+            balanceDue: sql`${customers.balanceDue} - ${claimed.amount}`,
+            updatedAt: sql`CURRENT_TIMESTAMP`,
+          })
+          .where(eq(customers.id, claimed.customerId));
+        await this.postJournalEntry(
+          tx,
+          claimed.branchId,
+          deliveryCompensationPosting({ compensationId: claimed.id, amount: Number.parseFloat(claimed.amount), method: claimed.method }),
+        );
+      }
+      return claimed;
+    });
+  }
+
+  async rejectDeliveryCompensation(
+    id: string,
+    decidedBy: string,
+    note?: string | null,
+  ): Promise<DeliveryCompensation | undefined> {
+    const [rejected] = await db
+      .update(deliveryCompensations)
+      .set({ status: "rejected", decidedBy, decisionNote: note ?? null, decidedAt: new Date() })
+      .where(and(eq(deliveryCompensations.id, id), eq(deliveryCompensations.status, "pending_approval")))
+      .returning();
+    return rejected;
+  }
+
   async updateDriverLocation(update: DriverLocationUpdateInput): Promise<DriverLocationSnapshot> {
     const recordedAt = update.recordedAt ?? new Date();
     const { driverId, lat, lng } = update;
@@ -7445,6 +10424,7 @@ export class DatabaseStorage {
     } as any;
     const [created] = await (await this.withTenant(branchId, async (tx) => {
       const [rec] = await tx.insert(expenses).values(payload as any).returning();
+      await this.postJournalEntry(tx, rec.branchId, this.expensePostingFor(rec), rec.incurredAt);
       return [rec] as any;
     })) as any;
     return created as any;
@@ -7494,6 +10474,10 @@ export class DatabaseStorage {
     if (!existing) return undefined;
     const [updated] = await (await this.withTenant(branchId, async (tx) => {
       const rows = await tx.update(expenses).set({ ...(updates as any) }).where(eq(expenses.id, id)).returning();
+      await this.removeJournalEntry(tx, "expense", id);
+      if (rows[0]) {
+        await this.postJournalEntry(tx, rows[0].branchId, this.expensePostingFor(rows[0]), rows[0].incurredAt);
+      }
       return rows as any;
     })) as any;
     return updated as any;
@@ -7502,9 +10486,218 @@ export class DatabaseStorage {
   async deleteExpense(id: string, branchId?: string): Promise<boolean> {
     const conditions: any[] = [eq(expenses.id, id)];
     if (branchId) conditions.push(eq(expenses.branchId, branchId));
-    const result = await this.withTenant(branchId, async (tx) => await tx.delete(expenses).where(and(...conditions)));
+    const result = await this.withTenant(branchId, async (tx) => {
+      const [existing] = await tx.select({ id: expenses.id }).from(expenses).where(and(...conditions));
+      if (existing) await this.removeJournalEntry(tx, "expense", existing.id);
+      return await tx.delete(expenses).where(and(...conditions));
+    });
     return (result as any).rowCount ? (result as any).rowCount > 0 : true;
   }
+
+  private expensePostingFor(expense: Expense): LedgerPosting {
+    return expensePosting({
+      expenseId: expense.id,
+      category: expense.category,
+      amount: Number.parseFloat(expense.amount),
+      paymentMethod: expense.paymentMethod,
+    });
+  }
+
+  // Cash sessions
+  async getOpenCashSessionByUser(branchId: string | null, cashierId: string): Promise<CashSession | undefined> {
+    const conditions: any[] = [eq(cashSessions.cashierId, cashierId), isNull(cashSessions.closedAt)];
+    if (branchId) conditions.push(eq(cashSessions.branchId, branchId));
+    const rows = await db.select().from(cashSessions).where(and(...conditions)).orderBy(desc(cashSessions.openedAt)).limit(1);
+    return rows[0] || undefined;
+  }
+
+  async createCashSession(data: InsertCashSession): Promise<CashSession> {
+    const [row] = await db.insert(cashSessions).values(data as any).returning();
+    return row;
+  }
+
+  async closeCashSession(
+    id: string,
+    updates: { countedCash?: number; expectedCash?: number; variance?: number; notes?: string; counts?: any },
+  ): Promise<CashSession | undefined> {
+    const [session] = await db.select({ branchId: cashSessions.branchId }).from(cashSessions).where(eq(cashSessions.id, id));
+    if (!session) return undefined;
+    return await this.withTenant(session.branchId, async (tx) => {
+      const [row] = await tx.update(cashSessions).set({
+        countedCash: (updates.countedCash as any) ?? undefined,
+        expectedCash: (updates.expectedCash as any) ?? undefined,
+        variance: (updates.variance as any) ?? undefined,
+        notes: (updates.notes as any) ?? undefined,
+        counts: updates.counts ? (updates.counts as any) : undefined,
+        closedAt: new Date(),
+      }).where(and(eq(cashSessions.id, id), isNull(cashSessions.closedAt))).returning();
+      if (!row) return undefined;
+      // Receipts and payouts are already on the books; only the counted difference is new
+      await this.postJournalEntry(
+        tx,
+        row.branchId,
+        cashSessionPosting({ sessionId: row.id, variance: Number(updates.variance ?? 0) }),
+      );
+      return row;
+    });
+  }
+
+  async getCashSessions(branchId?: string, limit = 20): Promise<CashSession[]> {
+    const conditions: any[] = [];
+    if (branchId) conditions.push(eq(cashSessions.branchId, branchId));
+    const q = conditions.length ? and(...conditions) : undefined as any;
+    const rows = await db.select().from(cashSessions).where(q).orderBy(desc(cashSessions.openedAt)).limit(limit);
+    return rows;
+  }
+
+  async getCashSession(id: string, branchId?: string): Promise<CashSession | undefined> {
+    const conditions: any[] = [eq(cashSessions.id, id)];
+    if (branchId) conditions.push(eq(cashSessions.branchId, branchId));
+    const rows = await db.select().from(cashSessions).where(and(...conditions)).limit(1);
+    return rows[0] || undefined;
+  }
+
+  // General ledger
+  async getGlMappings(branchId: string): Promise<GlMapping[]> {
+    return await db.select().from(glMappings).where(eq(glMappings.branchId, branchId)).orderBy(asc(glMappings.key));
+  }
+
+  async getJournalEntries(filter: { branchId: string; start: Date; end: Date }): Promise<JournalEntryWithLines[]> {
+    const entries = await db
+      .select()
+      .from(journalEntries)
+      .where(
+        and(
+          eq(journalEntries.branchId, filter.branchId),
+          gte(journalEntries.postedAt, filter.start),
+          lt(journalEntries.postedAt, filter.end),
+        ),
+      )
+      .orderBy(asc(journalEntries.postedAt), asc(journalEntries.createdAt));
+    if (entries.length === 0) return [];
+    const lines = await db
+      .select()
+      .from(journalLines)
+      .where(inArray(journalLines.entryId, entries.map((entry) => entry.id)));
+    return entries.map((entry) => ({ ...entry, lines: lines.filter((line) => line.entryId === entry.id) }));
+  }
+
+  async getLedgerActivity(branchId: string, range: { start?: Date; end: Date }): Promise<LedgerActivity[]> {
+    const conditions = [eq(journalEntries.branchId, branchId), lt(journalEntries.postedAt, range.end)];
+    if (range.start) conditions.push(gte(journalEntries.postedAt, range.start));
+    const rows = await db
+      .select({
+        account: journalLines.account,
+        debit: sql<string>`COALESCE(SUM(${journalLines.debit}), 0)`,
+        credit: sql<string>`COALESCE(SUM(${journalLines.credit}), 0)`,
+      })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalEntries.id, journalLines.entryId))
+      .where(and(...conditions))
+      .groupBy(journalLines.account);
+    return rows.map((row) => ({ account: row.account, debit: Number(row.debit), credit: Number(row.credit) }));
+  }
+
+  async getAccountingPeriods(branchId: string): Promise<AccountingPeriod[]> {
+    return await db
+      .select()
+      .from(accountingPeriods)
+      .where(eq(accountingPeriods.branchId, branchId))
+      .orderBy(desc(accountingPeriods.periodEnd));
+  }
+
+  async closeAccountingPeriod(period: {
+    branchId: string;
+    periodStart: string;
+    periodEnd: string;
+    trialBalance: TrialBalanceRow[];
+    closedBy: string;
+  }): Promise<AccountingPeriod | undefined> {
+    return await this.withTenant(period.branchId, async (tx) => {
+      // Serialize closes per branch so two overlapping periods cannot both be recorded
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`accounting_periods:${period.branchId}`}))`);
+      const [overlap] = await tx
+        .select({ id: accountingPeriods.id })
+        .from(accountingPeriods)
+        .where(
+          and(
+            eq(accountingPeriods.branchId, period.branchId),
+            lte(accountingPeriods.periodStart, period.periodEnd),
+            gte(accountingPeriods.periodEnd, period.periodStart),
+          ),
+        )
+        .limit(1);
+      if (overlap) return undefined;
+      const [created] = await tx.insert(accountingPeriods).values(period).returning();
+      return created;
+    });
+  }
+
+  // Newest first; ties are broken by id so keyset pages never skip rows. Cursors carry JS
+  // (millisecond) timestamps, so ordering and comparison use the millisecond-truncated value.
+  async getAuditEvents(filter: AuditEventFilter): Promise<AuditEventWithActor[]> {
+    const createdAtMs = sql`date_trunc('milliseconds', ${auditEvents.createdAt})`;
+    const conditions = [];
+    if (filter.branchId) conditions.push(eq(auditEvents.branchId, filter.branchId));
+    if (filter.entityType) conditions.push(eq(auditEvents.entityType, filter.entityType));
+    if (filter.entityId) conditions.push(eq(auditEvents.entityId, filter.entityId));
+    if (filter.actorId) conditions.push(eq(auditEvents.actorId, filter.actorId));
+    if (filter.severity) conditions.push(eq(auditEvents.severity, filter.severity));
+    if (filter.eventType) {
+      conditions.push(
+        filter.eventType.endsWith("*")
+          ? sql`${auditEvents.eventType} LIKE ${filter.eventType.slice(0, -1).replace(/[\\%_]/g, "\\$&") + "%"}`
+          : eq(auditEvents.eventType, filter.eventType),
+      );
+    }
+    if (filter.start) conditions.push(gte(auditEvents.createdAt, filter.start));
+    if (filter.end) conditions.push(lt(auditEvents.createdAt, filter.end));
+    if (filter.before) {
+      conditions.push(
+        sql`(${createdAtMs}, ${auditEvents.id}) < (${filter.before.createdAt}, ${filter.before.id}::uuid)`,
+      );
+    }
+    const rows = await db
+      .select({ event: auditEvents, actorName: users.username })
+      .from(auditEvents)
+      .leftJoin(users, eq(users.id, auditEvents.actorId))
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(createdAtMs), desc(auditEvents.id))
+      .limit(filter.limit);
+    return rows.map((row) => ({ ...row.event, actorName: row.actorName ?? null }));
+  }
+
+  // Idempotency key methods
+  // An expired row for the same key is dropped first so the key can be used again after the retention window
+  async claimIdempotencyKey(claim: IdempotencyKeyClaim, now: Date = new Date()): Promise<IdempotencyKeyClaimResult> {
+    return await db.transaction(async (tx) => {
+      const sameKey = and(eq(idempotencyKeys.scope, claim.scope), eq(idempotencyKeys.key, claim.key));
+      await tx.delete(idempotencyKeys).where(and(sameKey, lte(idempotencyKeys.expiresAt, now)));
+      const [inserted] = await tx.insert(idempotencyKeys).values(claim).onConflictDoNothing().returning();
+      if (inserted) return { claimed: true, record: inserted };
+      const [existing] = await tx.select().from(idempotencyKeys).where(sameKey);
+      return { claimed: false, record: existing };
+    });
+  }
+
+  async completeIdempotencyKey(id: string, response: { statusCode: number; responseBody: unknown }): Promise<void> {
+    await db
+      .update(idempotencyKeys)
+      .set({ statusCode: response.statusCode, responseBody: response.responseBody ?? null })
+      .where(eq(idempotencyKeys.id, id));
+  }
+
+  async releaseIdempotencyKey(id: string): Promise<void> {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, id));
+  }
+
+  async purgeExpiredIdempotencyKeys(now: Date = new Date()): Promise<number> {
+    const removed = await db
+      .delete(idempotencyKeys)
+      .where(lte(idempotencyKeys.expiresAt, now))
+      .returning({ id: idempotencyKeys.id });
+    return removed.length;
+  }
 }
 
 export const storage: IStorage = new DatabaseStorage() as unknown as IStorage;
@@ -3,6 +3,7 @@ export type DeliveryMessagePayload = {
   deliveryId: string;
   orderId: string;
   senderType: "customer" | "agent" | "system";
+  senderName?: string | null;
   body: string;
   createdAt: string;
   attachments?: Array<{ id: string; name: string; url?: string }>;
@@ -6,6 +6,12 @@ declare module "express-session" {
     passport?: {
       user: string;
     };
+    pendingTwoFactor?: {
+      userId: string;
+      expiresAt: number;
+      attempts: number;
+      enrolled: boolean;
+    };
   }
 }
 
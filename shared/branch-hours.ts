@@ -0,0 +1,190 @@
+import { addDays, localDateString } from "./capacity";
+
+// Holidays and closures shut the branch; Ramadan and special hours replace the weekly hours for their dates
+export const branchCalendarKindEnum = ["holiday", "closure", "ramadan", "special_hours"] as const;
+export type BranchCalendarKind = (typeof branchCalendarKindEnum)[number];
+
+export const CLOSING_CALENDAR_KINDS: readonly BranchCalendarKind[] = ["holiday", "closure"];
+
+// Sunday first, matching Date#getDay
+export const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"] as const;
+
+export interface DailyHours {
+  // Local "HH:MM"; closesAt may be "24:00" for a branch open until midnight
+  opensAt: string;
+  closesAt: string;
+}
+
+export interface WeeklyHours extends DailyHours {
+  weekday: number;
+}
+
+export interface BranchCalendarEntry {
+  id?: string;
+  kind: BranchCalendarKind;
+  label: string;
+  startDate: string;
+  endDate: string;
+  opensAt: string | null;
+  closesAt: string | null;
+}
+
+// Weekdays missing from `weekly` are closed; an empty `weekly` means the branch has not set hours yet
+export interface BranchCalendar {
+  weekly: WeeklyHours[];
+  entries: BranchCalendarEntry[];
+}
+
+export interface BranchDay {
+  date: string;
+  hours: DailyHours | null;
+  // The holiday, closure or seasonal hours that decided the day, if any
+  entry: BranchCalendarEntry | null;
+}
+
+export interface BranchOpenStatus {
+  openNow: boolean;
+  today: DailyHours | null;
+  // Label of the calendar entry in effect today, e.g. "Eid al-Fitr" or "Ramadan"
+  note: string | null;
+  nextOpening: { date: string; opensAt: string } | null;
+}
+
+export type SlaOutcome = "met" | "late" | "due" | "overdue";
+
+export interface OrderSla {
+  // The promised date, moved to the next open day when the branch is closed on it
+  dueDate: string;
+  outcome: SlaOutcome;
+  // Open days between the due date and the ready date (or today); closed days are not counted
+  lateOpenDays: number;
+}
+
+const ALL_DAY: DailyHours = { opensAt: "00:00", closesAt: "24:00" };
+const SEARCH_DAYS = 60;
+const SEASONAL_PRIORITY: Partial<Record<BranchCalendarKind, number>> = { special_hours: 2, ramadan: 1 };
+
+export function hasOpeningHours(calendar: BranchCalendar | null | undefined): calendar is BranchCalendar {
+  return !!calendar && calendar.weekly.length > 0;
+}
+
+export function weekdayOf(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+export function clockTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function atLocalTime(date: string, minutes: number): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+}
+
+export function branchDay(calendar: BranchCalendar | null | undefined, date: string): BranchDay {
+  if (!calendar) return { date, hours: ALL_DAY, entry: null };
+  const covering = calendar.entries.filter((entry) => entry.startDate <= date && entry.endDate >= date);
+  const closing = covering.find((entry) => CLOSING_CALENDAR_KINDS.includes(entry.kind));
+  if (closing) return { date, hours: null, entry: closing };
+  const seasonal = covering
+    .filter((entry) => entry.opensAt && entry.closesAt)
+    .sort((a, b) => (SEASONAL_PRIORITY[b.kind] ?? 0) - (SEASONAL_PRIORITY[a.kind] ?? 0))[0];
+  if (seasonal) {
+    return { date, hours: { opensAt: seasonal.opensAt!, closesAt: seasonal.closesAt! }, entry: seasonal };
+  }
+  if (!hasOpeningHours(calendar)) return { date, hours: ALL_DAY, entry: null };
+  const weekly = calendar.weekly.find((entry) => entry.weekday === weekdayOf(date));
+  return { date, hours: weekly ? { opensAt: weekly.opensAt, closesAt: weekly.closesAt } : null, entry: null };
+}
+
+export function isOpenDate(calendar: BranchCalendar | null | undefined, date: string): boolean {
+  return branchDay(calendar, date).hours !== null;
+}
+
+export function closedDatesBetween(calendar: BranchCalendar | null | undefined, from: string, to: string): string[] {
+  const closed: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    if (!isOpenDate(calendar, date)) closed.push(date);
+  }
+  return closed;
+}
+
+// First open day on or after `from`; null when the branch stays closed for the whole search window
+export function nextOpenDate(calendar: BranchCalendar | null | undefined, from: string): string | null {
+  for (let offset = 0; offset < SEARCH_DAYS; offset++) {
+    const date = addDays(from, offset);
+    if (isOpenDate(calendar, date)) return date;
+  }
+  return null;
+}
+
+// Counts open days after `from` up to and including `to`
+export function openDaysBetween(calendar: BranchCalendar | null | undefined, from: string, to: string): number {
+  let count = 0;
+  for (let date = addDays(from, 1); date <= to; date = addDays(date, 1)) {
+    if (isOpenDate(calendar, date)) count += 1;
+  }
+  return count;
+}
+
+export function branchOpenStatus(calendar: BranchCalendar, now: Date): BranchOpenStatus {
+  const todayDate = localDateString(now);
+  const today = branchDay(calendar, todayDate);
+  const clock = clockTime(now);
+  const openNow = !!today.hours && clock >= today.hours.opensAt && clock < today.hours.closesAt;
+
+  let nextOpening: BranchOpenStatus["nextOpening"] = null;
+  if (!openNow) {
+    if (today.hours && clock < today.hours.opensAt) {
+      nextOpening = { date: todayDate, opensAt: today.hours.opensAt };
+    } else {
+      const date = nextOpenDate(calendar, addDays(todayDate, 1));
+      if (date) nextOpening = { date, opensAt: branchDay(calendar, date).hours!.opensAt };
+    }
+  }
+  return { openNow, today: today.hours, note: today.entry?.label ?? null, nextOpening };
+}
+
+// Fixed-length windows inside opening hours, starting no earlier than `from` and never on closed days
+export function windowsWithinHours(
+  calendar: BranchCalendar | null | undefined,
+  from: Date,
+  { count, lengthMinutes, stepMinutes }: { count: number; lengthMinutes: number; stepMinutes: number },
+): { start: Date; end: Date }[] {
+  const windows: { start: Date; end: Date }[] = [];
+  const firstDate = localDateString(from);
+  for (let offset = 0; offset < SEARCH_DAYS && windows.length < count; offset++) {
+    const date = addDays(firstDate, offset);
+    const { hours } = branchDay(calendar, date);
+    if (!hours) continue;
+    const close = minutesOf(hours.closesAt);
+    let start = minutesOf(hours.opensAt);
+    if (offset === 0) {
+      const earliest = minutesOf(clockTime(from)) + (from.getSeconds() || from.getMilliseconds() ? 1 : 0);
+      while (start < earliest) start += stepMinutes;
+    }
+    for (; start + lengthMinutes <= close && windows.length < count; start += stepMinutes) {
+      windows.push({ start: atLocalTime(date, start), end: atLocalTime(date, start + lengthMinutes) });
+    }
+  }
+  return windows;
+}
+
+export function orderSla(
+  calendar: BranchCalendar | null | undefined,
+  promisedDate: string,
+  readyAt: Date | null,
+  now: Date,
+): OrderSla {
+  const dueDate = nextOpenDate(calendar, promisedDate) ?? promisedDate;
+  const endDate = localDateString(readyAt ?? now);
+  const lateOpenDays = endDate > dueDate ? openDaysBetween(calendar, dueDate, endDate) : 0;
+  const outcome: SlaOutcome = readyAt ? (lateOpenDays > 0 ? "late" : "met") : lateOpenDays > 0 ? "overdue" : "due";
+  return { dueDate, outcome, lateOpenDays };
+}
@@ -0,0 +1,169 @@
+import type { TaxLineInput } from "./tax";
+
+// What happens when a cashier picks a day that is already fully booked
+export const overbookPolicyEnum = ["warn", "block"] as const;
+export type OverbookPolicy = (typeof overbookPolicyEnum)[number];
+
+export interface BranchCapacityConfig {
+  // Local "HH:MM"; orders taken at or after the cut-off count as the next day's intake
+  cutoffTime: string;
+  // Days between intake and the earliest standard ready date
+  standardLeadDays: number;
+  expressEnabled: boolean;
+  // Percentage of the (credited) line total charged for finishing sooner than the standard lead time
+  expressSurchargePercent: number;
+  overbookPolicy: OverbookPolicy;
+  closedDates: string[];
+}
+
+export interface ServiceDailyCapacity {
+  serviceId: string;
+  dailyPieces: number;
+}
+
+// Pieces already promised, keyed by ready date (YYYY-MM-DD) and then service id
+export type CapacityLoad = Record<string, Record<string, number>>;
+
+export interface CapacityRequestLine {
+  serviceId: string;
+  quantity: number;
+}
+
+export interface CapacityDay {
+  date: string;
+  closed: boolean;
+  fits: boolean;
+  services: { serviceId: string; booked: number; capacity: number; remaining: number }[];
+}
+
+export interface ReadyDatePlan {
+  today: string;
+  intakeDate: string;
+  // First day the standard lead time allows; anything sooner is express
+  leadDate: string;
+  // Earliest open day at or after the standard lead time with room for the request; null when none in the horizon
+  standardDate: string | null;
+  express: { date: string; surchargePercent: number } | null;
+  overbookPolicy: OverbookPolicy;
+  days: CapacityDay[];
+}
+
+export type ReadyDateCheck = "ok" | "too_early" | "closed" | "overbooked";
+
+export const READY_DATE_HORIZON_DAYS = 21;
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export function localDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Calendar arithmetic on YYYY-MM-DD strings, independent of the host timezone
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+export function promisedReadyOptionFor(
+  date: string,
+  today: string,
+): "today" | "tomorrow" | "day_after_tomorrow" | "later" {
+  const offset = daysBetween(today, date);
+  if (offset <= 0) return "today";
+  if (offset === 1) return "tomorrow";
+  if (offset === 2) return "day_after_tomorrow";
+  return "later";
+}
+
+function totalsByService(lines: CapacityRequestLine[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    const quantity = Math.max(Math.trunc(Number(line.quantity) || 0), 0);
+    if (!line.serviceId || quantity === 0) continue;
+    totals.set(line.serviceId, (totals.get(line.serviceId) ?? 0) + quantity);
+  }
+  return totals;
+}
+
+export function planReadyDates({
+  config,
+  capacities,
+  load,
+  lines,
+  now,
+  horizonDays = READY_DATE_HORIZON_DAYS,
+}: {
+  config: BranchCapacityConfig;
+  capacities: ServiceDailyCapacity[];
+  load: CapacityLoad;
+  lines: CapacityRequestLine[];
+  now: Date;
+  horizonDays?: number;
+}): ReadyDatePlan {
+  const today = localDateString(now);
+  const clock = `${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}`;
+  const intakeDate = clock >= config.cutoffTime ? addDays(today, 1) : today;
+  const requested = totalsByService(lines);
+  const closed = new Set(config.closedDates);
+  const limits = new Map(capacities.map((entry) => [entry.serviceId, entry.dailyPieces]));
+
+  const days: CapacityDay[] = [];
+  for (let offset = 0; offset <= horizonDays; offset++) {
+    const date = addDays(intakeDate, offset);
+    const booked = load[date] ?? {};
+    // Services without a configured limit never block a day
+    const services = Array.from(requested.keys())
+      .filter((serviceId) => limits.has(serviceId))
+      .map((serviceId) => {
+        const capacity = limits.get(serviceId)!;
+        const already = booked[serviceId] ?? 0;
+        return { serviceId, booked: already, capacity, remaining: capacity - already };
+      });
+    const fits = services.every((service) => service.remaining >= requested.get(service.serviceId)!);
+    days.push({ date, closed: closed.has(date), fits, services });
+  }
+
+  const leadDate = addDays(intakeDate, Math.max(config.standardLeadDays, 0));
+  const standard = days.find((day) => day.date >= leadDate && !day.closed && day.fits);
+  const express = config.expressEnabled
+    ? days.find((day) => day.date < leadDate && !day.closed && day.fits)
+    : undefined;
+
+  return {
+    today,
+    intakeDate,
+    leadDate,
+    standardDate: standard?.date ?? null,
+    express: express ? { date: express.date, surchargePercent: config.expressSurchargePercent } : null,
+    overbookPolicy: config.overbookPolicy,
+    days,
+  };
+}
+
+// Judges a ready date picked by hand against the plan. Dates past the horizon are taken on trust.
+export function checkReadyDate(plan: ReadyDatePlan, date: string): ReadyDateCheck {
+  if (date < plan.leadDate) return "too_early";
+  const day = plan.days.find((candidate) => candidate.date === date);
+  if (!day) return "ok";
+  if (day.closed) return "closed";
+  if (!day.fits) return "overbooked";
+  return "ok";
+}
+
+// Express is priced as an extra line taxed at the profile's base rate, so client and server totals agree
+export function withExpressSurcharge(
+  lines: TaxLineInput[],
+  surchargePercent: number | null | undefined,
+): { lines: TaxLineInput[]; surcharge: number } {
+  const percent = Number(surchargePercent) || 0;
+  if (percent <= 0) return { lines, surcharge: 0 };
+  const base = lines.reduce((sum, line) => sum + (Number.isFinite(line.amount) ? Math.max(line.amount, 0) : 0), 0);
+  const surcharge = round2((base * percent) / 100);
+  return { lines: surcharge > 0 ? [...lines, { amount: surcharge }] : lines, surcharge };
+}
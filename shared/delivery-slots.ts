@@ -0,0 +1,120 @@
+import { addDays, localDateString } from "./capacity";
+import { branchDay, weekdayOf, type BranchCalendar } from "./branch-hours";
+
+export const deliverySlotKindEnum = ["pickup", "delivery"] as const;
+export type DeliverySlotKind = (typeof deliverySlotKindEnum)[number];
+
+export interface DeliverySlotTemplate {
+  id: string;
+  kind: DeliverySlotKind;
+  // Null repeats the slot on every open day
+  weekday: number | null;
+  startTime: string;
+  endTime: string;
+  capacity: number;
+  // Optional per-zone limits inside the slot, keyed by service city id
+  zoneCapacities: Record<string, number>;
+  isActive: boolean;
+}
+
+export interface SlotLoadEntry {
+  total: number;
+  zones: Record<string, number>;
+}
+
+// Reserved bookings keyed by slotKey(slotId, date)
+export type DeliverySlotLoad = Record<string, SlotLoadEntry>;
+
+export interface DeliverySlotAvailability {
+  slotId: string;
+  kind: DeliverySlotKind;
+  date: string;
+  start: string;
+  end: string;
+  label: string;
+  capacity: number;
+  booked: number;
+  // Zone limit and bookings for the requested zone; null when the slot has no limit for it
+  zoneCapacity: number | null;
+  zoneBooked: number;
+  remaining: number;
+  zones: Record<string, number>;
+}
+
+export interface SlotOccurrence {
+  slot: DeliverySlotTemplate;
+  date: string;
+  start: Date;
+  end: Date;
+}
+
+export interface DeliverySlotChoice {
+  slotId: string;
+  date: string;
+}
+
+export function slotKey(slotId: string, date: string): string {
+  return `${slotId}|${date}`;
+}
+
+function atTime(date: string, time: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+// Dated occurrences of the active templates that start after `from`, skipping closed days and times outside opening hours
+export function slotOccurrences(
+  slots: DeliverySlotTemplate[],
+  calendar: BranchCalendar | null | undefined,
+  from: Date,
+  days: number,
+): SlotOccurrence[] {
+  const occurrences: SlotOccurrence[] = [];
+  const firstDate = localDateString(from);
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDays(firstDate, offset);
+    const { hours } = branchDay(calendar, date);
+    if (!hours) continue;
+    const weekday = weekdayOf(date);
+    const daySlots = slots
+      .filter((slot) => slot.isActive && (slot.weekday === null || slot.weekday === weekday))
+      .filter((slot) => slot.startTime >= hours.opensAt && slot.endTime <= hours.closesAt)
+      .sort((a, b) => a.startTime.localeCompare(b.startTime));
+    for (const slot of daySlots) {
+      const start = atTime(date, slot.startTime);
+      if (start <= from) continue;
+      occurrences.push({ slot, date, start, end: atTime(date, slot.endTime) });
+    }
+  }
+  return occurrences;
+}
+
+export function slotAvailability(
+  occurrence: SlotOccurrence,
+  load: DeliverySlotLoad,
+  cityId?: string | null,
+): DeliverySlotAvailability {
+  const { slot, date, start, end } = occurrence;
+  const entry = load[slotKey(slot.id, date)] ?? { total: 0, zones: {} };
+  const zoneCapacity = cityId && slot.zoneCapacities[cityId] !== undefined ? slot.zoneCapacities[cityId] : null;
+  const zoneBooked = cityId ? entry.zones[cityId] ?? 0 : 0;
+  const remaining = Math.max(
+    0,
+    Math.min(slot.capacity - entry.total, zoneCapacity === null ? Infinity : zoneCapacity - zoneBooked),
+  );
+  return {
+    slotId: slot.id,
+    kind: slot.kind,
+    date,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    label: `${slot.startTime}–${slot.endTime}`,
+    capacity: slot.capacity,
+    booked: entry.total,
+    zoneCapacity,
+    zoneBooked,
+    remaining,
+    zones: { ...entry.zones },
+  };
+}
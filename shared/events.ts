@@ -67,6 +67,32 @@ const campaignInteractionPayloadSchema = z
   })
   .strict();
 
+const customerAccountPayloadSchema = z
+  .object({
+    customerId: z.string().min(1),
+    branchId: z.string().optional().nullable(),
+    orderId: z.string().optional().nullable(),
+    paymentId: z.string().optional().nullable(),
+    amount: z.number().optional(),
+    paymentMethod: z.string().optional().nullable(),
+    balanceDue: z.number().optional(),
+    customerPackageId: z.string().optional().nullable(),
+    packageId: z.string().optional().nullable(),
+    packageName: z.string().optional().nullable(),
+    remainingCredits: z.number().optional(),
+    totalCredits: z.number().optional(),
+    metadata: z.record(z.string(), z.unknown()).optional(),
+  })
+  .strict();
+
+const deliveryCommunicationPayloadSchema = z
+  .object({
+    orderId: z.string().min(1),
+    deliveryId: z.string().min(1),
+    senderType: z.enum(["customer", "agent", "system"]),
+  })
+  .strict();
+
 export const orderLifecycleEventSchema = baseEventSchema.extend({
   category: z.literal("order.lifecycle"),
   name: z.enum([
@@ -91,15 +117,30 @@ export const campaignInteractionEventSchema = baseEventSchema.extend({
   payload: campaignInteractionPayloadSchema,
 });
 
+export const customerAccountEventSchema = baseEventSchema.extend({
+  category: z.literal("customer.account"),
+  name: z.enum(["payment_received", "package_balance_low"]),
+  payload: customerAccountPayloadSchema,
+});
+
+export const deliveryCommunicationEventSchema = baseEventSchema.extend({
+  category: z.literal("delivery.communication"),
+  name: z.enum(["message_sent"]),
+  payload: deliveryCommunicationPayloadSchema,
+});
+
 export const analyticsEventSchema = z.union([
   orderLifecycleEventSchema,
   driverTelemetryEventSchema,
   campaignInteractionEventSchema,
+  customerAccountEventSchema,
+  deliveryCommunicationEventSchema,
 ]);
 
 export type AnalyticsEvent = z.infer<typeof analyticsEventSchema>;
 export type OrderLifecycleEvent = z.infer<typeof orderLifecycleEventSchema>;
 export type DriverTelemetryEvent = z.infer<typeof driverTelemetryEventSchema>;
 export type CampaignInteractionEvent = z.infer<typeof campaignInteractionEventSchema>;
+export type CustomerAccountEvent = z.infer<typeof customerAccountEventSchema>;
 
 export type AnalyticsEventCategory = AnalyticsEvent["category"];
@@ -0,0 +1,88 @@
+// Every piece in an order moves through these stages in order. Scans may skip ahead but never go back.
+// Washing and dry cleaning are alternative first stages and rank the same.
+export const garmentPieceStatusEnum = [
+  "received",
+  "washing",
+  "dry_cleaning",
+  "pressing",
+  "qc",
+  "bagged",
+  "handed_over",
+] as const;
+export type GarmentPieceStatus = (typeof garmentPieceStatusEnum)[number];
+
+const STAGE_RANK: Record<GarmentPieceStatus, number> = {
+  received: 0,
+  washing: 1,
+  dry_cleaning: 1,
+  pressing: 2,
+  qc: 3,
+  bagged: 4,
+  handed_over: 5,
+};
+
+// Pieces at these stages are physically accounted for at the counter
+export const GARMENT_PIECE_DONE_STATUSES: readonly GarmentPieceStatus[] = ["bagged", "handed_over"];
+
+export interface OrderLinePiece {
+  lineIndex: number;
+  pieceNumber: number;
+  sequence: number;
+  description: string;
+}
+
+export function isGarmentPieceStatus(value: string): value is GarmentPieceStatus {
+  return Object.prototype.hasOwnProperty.call(STAGE_RANK, value);
+}
+
+export function nextGarmentPieceStatus(status: GarmentPieceStatus): GarmentPieceStatus | null {
+  return garmentPieceStatusEnum.find((candidate) => STAGE_RANK[candidate] === STAGE_RANK[status] + 1) ?? null;
+}
+
+export function canMoveGarmentPiece(from: GarmentPieceStatus, to: GarmentPieceStatus): boolean {
+  return STAGE_RANK[to] > STAGE_RANK[from];
+}
+
+// Tag codes are the order number plus a two-digit piece sequence, e.g. "MAIN-0042-07"
+export function formatTagCode(orderNumber: string, sequence: number): string {
+  return `${orderNumber}-${String(sequence).padStart(2, "0")}`;
+}
+
+function lineName(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object" && typeof (value as { name?: unknown }).name === "string") {
+    return (value as { name: string }).name;
+  }
+  return "";
+}
+
+export function describeOrderLine(line: any): string {
+  const clothing = lineName(line?.clothingItem) || lineName(line?.name) || lineName(line?.productName);
+  const service = lineName(line?.service);
+  return [clothing, service].filter(Boolean).join(" - ") || "Item";
+}
+
+// Expands order lines into one entry per physical piece, numbered across the whole order
+export function expandOrderPieces(items: unknown): OrderLinePiece[] {
+  const lines = Array.isArray(items) ? items : [];
+  const pieces: OrderLinePiece[] = [];
+  lines.forEach((line, lineIndex) => {
+    const quantity = Math.max(Math.trunc(Number(line?.quantity ?? 0)), 0);
+    const description = describeOrderLine(line);
+    for (let pieceNumber = 1; pieceNumber <= quantity; pieceNumber++) {
+      pieces.push({ lineIndex, pieceNumber, sequence: pieces.length + 1, description });
+    }
+  });
+  return pieces;
+}
+
+// The order status the pieces imply, or null while nothing has moved past intake
+export function deriveOrderStatusFromPieces(
+  statuses: readonly string[],
+): "processing" | "ready" | "handed_over" | null {
+  if (!statuses.length) return null;
+  if (statuses.every((status) => status === "handed_over")) return "handed_over";
+  if (statuses.every((status) => GARMENT_PIECE_DONE_STATUSES.includes(status as GarmentPieceStatus))) return "ready";
+  if (statuses.some((status) => status !== "received")) return "processing";
+  return null;
+}
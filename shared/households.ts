@@ -0,0 +1,27 @@
+// Household accounts: customers grouped so one member's package credits can be drawn by the others.
+
+export const householdRoleEnum = ["owner", "member"] as const;
+export type HouseholdRole = (typeof householdRoleEnum)[number];
+
+export interface PackageShareLimit {
+  // Credits the member may draw from the package over its lifetime; null means up to the whole balance
+  creditLimit: number | null;
+  creditsUsed: number;
+}
+
+// Credits a member can still take from a package shared with them
+export function shareAllowance(share: PackageShareLimit): number {
+  if (share.creditLimit === null) return Infinity;
+  return Math.max(share.creditLimit - share.creditsUsed, 0);
+}
+
+export interface PackageCreditBalance {
+  serviceId: string;
+  clothingItemId: string;
+  balance: number;
+}
+
+// Credits left on a package that a transfer would move, skipping empty items
+export function transferableCredits(items: PackageCreditBalance[]): PackageCreditBalance[] {
+  return items.filter((item) => item.balance > 0).map((item) => ({ ...item }));
+}
@@ -2,3 +2,13 @@ export * from "./schema";
 export * from "./schemas";
 export * from "./events";
 export * from "./ml/features";
+export * from "./tax";
+export * from "./garment-tags";
+export * from "./production";
+export * from "./capacity";
+export * from "./branch-hours";
+export * from "./delivery-slots";
+export * from "./loyalty";
+export * from "./subscriptions";
+export * from "./households";
+export * from "./offline-pos";
@@ -0,0 +1,195 @@
+// Server-side loyalty rules: branches configure how points are earned, what they are worth and who qualifies for
+// which tier; clients only ever ask to redeem.
+
+export const loyaltyEntryKindEnum = ["earn", "redeem", "expire", "adjustment"] as const;
+export type LoyaltyEntryKind = (typeof loyaltyEntryKindEnum)[number];
+
+export interface LoyaltyTier {
+  name: string;
+  // Points earned inside the tier window needed to reach the tier
+  minPoints: number;
+  earnMultiplier: number;
+  freeDelivery: boolean;
+}
+
+export interface LoyaltyCampaign {
+  name: string;
+  startDate: string;
+  endDate: string;
+  multiplier: number;
+  // Empty applies the bonus to every service
+  serviceIds: string[];
+}
+
+export interface LoyaltyProgramConfig {
+  isEnabled: boolean;
+  // Points per currency unit spent
+  pointsPerUnit: number;
+  // Per-service points per currency unit, replacing pointsPerUnit for those services
+  serviceRates: Record<string, number>;
+  campaigns: LoyaltyCampaign[];
+  // Currency value of one redeemed point
+  pointValue: number;
+  minRedeemPoints: number;
+  // Share of the order total that points may cover
+  maxRedeemPercent: number;
+  // Null keeps points forever
+  expiryMonths: number | null;
+  tierWindowMonths: number;
+  tiers: LoyaltyTier[];
+}
+
+// What branches without their own program get; matches the original one point per unit, 0.1 per point
+export const DEFAULT_LOYALTY_PROGRAM: LoyaltyProgramConfig = {
+  isEnabled: true,
+  pointsPerUnit: 1,
+  serviceRates: {},
+  campaigns: [],
+  pointValue: 0.1,
+  minRedeemPoints: 0,
+  maxRedeemPercent: 100,
+  expiryMonths: null,
+  tierWindowMonths: 12,
+  tiers: [],
+};
+
+export interface LoyaltyEarnLine {
+  serviceId?: string | null;
+  amount: number;
+}
+
+export interface LoyaltyLedgerEntry {
+  change: number;
+  kind?: string | null;
+  expiresAt?: Date | string | null;
+  createdAt: Date | string;
+}
+
+export type RedemptionCheck =
+  | { ok: true; points: number; value: number }
+  | { ok: false; code: string; message: string };
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+const toTime = (value: Date | string) => (value instanceof Date ? value : new Date(value)).getTime();
+
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+// Highest tier the customer's recent earnings reach
+export function loyaltyTier(program: LoyaltyProgramConfig, earnedInWindow: number): LoyaltyTier | null {
+  return (
+    [...program.tiers]
+      .sort((a, b) => b.minPoints - a.minPoints)
+      .find((tier) => earnedInWindow >= tier.minPoints) ?? null
+  );
+}
+
+export function nextLoyaltyTier(
+  program: LoyaltyProgramConfig,
+  earnedInWindow: number,
+): { tier: LoyaltyTier; pointsNeeded: number } | null {
+  const tier = [...program.tiers]
+    .sort((a, b) => a.minPoints - b.minPoints)
+    .find((candidate) => candidate.minPoints > earnedInWindow);
+  return tier ? { tier, pointsNeeded: tier.minPoints - earnedInWindow } : null;
+}
+
+function campaignMultiplier(program: LoyaltyProgramConfig, date: string, serviceId?: string | null): number {
+  // Overlapping campaigns do not stack; the best one wins
+  return program.campaigns
+    .filter((campaign) => campaign.startDate <= date && date <= campaign.endDate)
+    .filter((campaign) => !campaign.serviceIds.length || (!!serviceId && campaign.serviceIds.includes(serviceId)))
+    .reduce((best, campaign) => Math.max(best, campaign.multiplier), 1);
+}
+
+// Points for an order; `spend` is what the customer actually pays and is spread over the lines by amount
+export function loyaltyPointsEarned(
+  program: LoyaltyProgramConfig,
+  { lines, spend, date, tier = null }: { lines: LoyaltyEarnLine[]; spend: number; date: string; tier?: LoyaltyTier | null },
+): number {
+  if (!program.isEnabled || spend <= 0) return 0;
+  const base = lines.reduce((sum, line) => sum + Math.max(line.amount, 0), 0);
+  const weighted = base > 0 ? lines : [{ amount: 1 }];
+  const weightTotal = base > 0 ? base : 1;
+  const points = weighted.reduce((sum, line) => {
+    const share = (Math.max(line.amount, 0) / weightTotal) * spend;
+    const rate =
+      line.serviceId && program.serviceRates[line.serviceId] !== undefined
+        ? program.serviceRates[line.serviceId]
+        : program.pointsPerUnit;
+    return sum + share * rate * campaignMultiplier(program, date, line.serviceId);
+  }, 0);
+  return Math.max(Math.floor(points * (tier?.earnMultiplier ?? 1) + 1e-9), 0);
+}
+
+export function redemptionValue(program: LoyaltyProgramConfig, points: number): number {
+  return round2(points * program.pointValue);
+}
+
+export function maxRedeemablePoints(program: LoyaltyProgramConfig, balance: number, orderTotal: number): number {
+  if (!program.isEnabled || program.pointValue <= 0) return 0;
+  const cap = Math.floor((orderTotal * program.maxRedeemPercent) / 100 / program.pointValue + 1e-9);
+  const max = Math.max(Math.min(balance, cap), 0);
+  return max >= program.minRedeemPoints ? max : 0;
+}
+
+export function checkRedemption(
+  program: LoyaltyProgramConfig,
+  { points, balance, orderTotal }: { points: number; balance: number; orderTotal: number },
+): RedemptionCheck {
+  if (!Number.isInteger(points) || points < 0) {
+    return { ok: false, code: "LOYALTY_INVALID_POINTS", message: "Points to redeem must be a whole number" };
+  }
+  if (points === 0) return { ok: true, points: 0, value: 0 };
+  if (!program.isEnabled) {
+    return { ok: false, code: "LOYALTY_DISABLED", message: "This branch does not accept loyalty points" };
+  }
+  if (points < program.minRedeemPoints) {
+    return {
+      ok: false,
+      code: "LOYALTY_MIN_REDEEM",
+      message: `At least ${program.minRedeemPoints} points must be redeemed at once`,
+    };
+  }
+  if (points > balance) {
+    return { ok: false, code: "LOYALTY_INSUFFICIENT_POINTS", message: "The customer does not have enough points" };
+  }
+  const max = maxRedeemablePoints(program, balance, orderTotal);
+  if (points > max) {
+    return {
+      ok: false,
+      code: "LOYALTY_REDEEM_LIMIT",
+      message: `Points can cover at most ${program.maxRedeemPercent}% of the order (${max} points)`,
+    };
+  }
+  return { ok: true, points, value: redemptionValue(program, points) };
+}
+
+export function loyaltyExpiresAt(program: LoyaltyProgramConfig, earnedAt: Date): Date | null {
+  return program.expiryMonths ? addMonths(earnedAt, program.expiryMonths) : null;
+}
+
+export function pointsEarnedSince(history: LoyaltyLedgerEntry[], since: Date): number {
+  return history
+    .filter((entry) => entry.kind === "earn" && entry.change > 0 && toTime(entry.createdAt) >= since.getTime())
+    .reduce((sum, entry) => sum + entry.change, 0);
+}
+
+// Points whose expiry has passed and that were not already spent; spending always uses the soonest-expiring points first
+export function expiringPoints(history: LoyaltyLedgerEntry[], now: Date): number {
+  let debits = history.filter((entry) => entry.change < 0).reduce((sum, entry) => sum - entry.change, 0);
+  const credits = history
+    .filter((entry) => entry.change > 0)
+    .map((entry) => ({ change: entry.change, expiresAt: entry.expiresAt ? toTime(entry.expiresAt) : Infinity }))
+    .sort((a, b) => a.expiresAt - b.expiresAt);
+  let expired = 0;
+  for (const credit of credits) {
+    const spent = Math.min(credit.change, debits);
+    debits -= spent;
+    if (credit.expiresAt <= now.getTime()) expired += credit.change - spent;
+  }
+  return expired;
+}
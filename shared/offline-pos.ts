@@ -0,0 +1,78 @@
+import { z } from "zod";
+
+// Offline POS: orders rung up while the counter has no connection and synced to the server later.
+
+// Numbers a device may hold for offline use in one reservation
+export const OFFLINE_RESERVATION_DEFAULT_SIZE = 50;
+export const OFFLINE_RESERVATION_MAX_SIZE = 500;
+
+export function formatOrderNumber(branchCode: string, sequence: number): string {
+  return `${branchCode}-${String(sequence).padStart(4, "0")}`;
+}
+
+// Reads the sequence back out of a number issued by formatOrderNumber, or null for any other shape
+export function orderNumberSequence(branchCode: string, orderNumber: string): number | null {
+  const prefix = `${branchCode}-`;
+  if (!orderNumber.startsWith(prefix)) return null;
+  const digits = orderNumber.slice(prefix.length);
+  return /^\d+$/.test(digits) ? Number(digits) : null;
+}
+
+// Sent with POST /api/orders when a queued order syncs; the id doubles as its idempotency key
+export const offlineOrderSchema = z.object({
+  id: z.string().uuid(),
+  createdAt: z.coerce.date(),
+  reservationId: z.string().uuid().optional(),
+  orderNumber: z.string().min(1).max(20).optional(),
+  // Package credits the device applied from its cached balances
+  packageCredits: z.number().int().min(0).default(0),
+});
+
+export type OfflineOrder = z.infer<typeof offlineOrderSchema>;
+export type OfflineOrderInput = z.input<typeof offlineOrderSchema>;
+
+export const offlineConflictTypeEnum = ["order_number", "package_credits", "totals", "ready_date"] as const;
+export type OfflineConflictType = (typeof offlineConflictTypeEnum)[number];
+
+// Something the server could not honour as the device recorded it; the order is still created
+export interface OfflineConflict {
+  type: OfflineConflictType;
+  message: string;
+  expected?: string | number | null;
+  actual?: string | number | null;
+}
+
+export interface OfflineSyncOutcome {
+  // What the device showed the customer
+  claimedTotal: number | null;
+  packageCredits: number;
+  // What the server charged when the order synced
+  total: number;
+  appliedPackageCredits: number;
+}
+
+// Differences between the device's copy of an order and the one the server created from it
+export function offlineSyncConflicts(outcome: OfflineSyncOutcome, tolerance = 0.01): OfflineConflict[] {
+  const conflicts: OfflineConflict[] = [];
+  if (outcome.appliedPackageCredits < outcome.packageCredits) {
+    const missing = outcome.packageCredits - outcome.appliedPackageCredits;
+    conflicts.push({
+      type: "package_credits",
+      message: `${missing} package ${missing === 1 ? "credit was" : "credits were"} used up before this order synced`,
+      expected: outcome.packageCredits,
+      actual: outcome.appliedPackageCredits,
+    });
+  }
+  if (outcome.claimedTotal !== null && Math.abs(outcome.claimedTotal - outcome.total) > tolerance) {
+    conflicts.push({
+      type: "totals",
+      message:
+        outcome.total > outcome.claimedTotal
+          ? `The order costs ${(outcome.total - outcome.claimedTotal).toFixed(2)} more than the receipt the customer was given`
+          : `The order costs ${(outcome.claimedTotal - outcome.total).toFixed(2)} less than the receipt the customer was given`,
+      expected: outcome.claimedTotal.toFixed(2),
+      actual: outcome.total.toFixed(2),
+    });
+  }
+  return conflicts;
+}
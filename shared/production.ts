@@ -0,0 +1,54 @@
+import type { GarmentPieceStatus } from "./garment-tags";
+
+// Stations on the production floor, in the order a piece usually visits them
+export const productionStationEnum = ["washing", "dry_cleaning", "pressing", "qc", "packing"] as const;
+export type ProductionStation = (typeof productionStationEnum)[number];
+
+export interface ProductionStationDefinition {
+  id: ProductionStation;
+  label: string;
+  // Stage a piece reaches when it is scanned at this station
+  pieceStatus: GarmentPieceStatus;
+}
+
+export const PRODUCTION_STATIONS: Record<ProductionStation, ProductionStationDefinition> = {
+  washing: { id: "washing", label: "Washing", pieceStatus: "washing" },
+  dry_cleaning: { id: "dry_cleaning", label: "Dry cleaning", pieceStatus: "dry_cleaning" },
+  pressing: { id: "pressing", label: "Pressing", pieceStatus: "pressing" },
+  qc: { id: "qc", label: "Quality check", pieceStatus: "qc" },
+  packing: { id: "packing", label: "Packing", pieceStatus: "bagged" },
+};
+
+export type PromiseRisk = "breached" | "at_risk";
+
+const DRY_CLEAN_PATTERN = /dry/i;
+const PRESS_ONLY_PATTERN = /\b(press|iron)/i;
+const WET_PATTERN = /wash|dry/i;
+
+// The station that should pick the piece up next. New pieces are routed by the service in their description.
+export function stationForPiece(piece: { status: GarmentPieceStatus; description: string }): ProductionStation | null {
+  switch (piece.status) {
+    case "received":
+      if (DRY_CLEAN_PATTERN.test(piece.description)) return "dry_cleaning";
+      if (PRESS_ONLY_PATTERN.test(piece.description) && !WET_PATTERN.test(piece.description)) return "pressing";
+      return "washing";
+    case "washing":
+    case "dry_cleaning":
+      return "pressing";
+    case "pressing":
+      return "qc";
+    case "qc":
+      return "packing";
+    default:
+      return null;
+  }
+}
+
+// Both dates are calendar days (YYYY-MM-DD). Work due today is at risk; anything older has missed the promise.
+export function promiseRisk(promisedReadyDate: string | null | undefined, today: string): PromiseRisk | null {
+  if (!promisedReadyDate) return null;
+  const due = promisedReadyDate.slice(0, 10);
+  if (due < today) return "breached";
+  if (due === today) return "at_risk";
+  return null;
+}
@@ -15,9 +15,18 @@ import {
   date,
   uuid,
   serial,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { GarmentPieceStatus } from "./garment-tags";
+import type { OverbookPolicy } from "./capacity";
+import type { BranchCalendarKind, OrderSla } from "./branch-hours";
+import type { DeliverySlotKind } from "./delivery-slots";
+import { loyaltyEntryKindEnum, type LoyaltyCampaign, type LoyaltyEntryKind, type LoyaltyTier } from "./loyalty";
+import type { SubscriptionBillingMethod, SubscriptionRolloverPolicy, SubscriptionStatus } from "./subscriptions";
+import type { HouseholdRole } from "./households";
+import type { OfflineConflict } from "./offline-pos";
 
 const enumType = pgEnum;
 const timestamptz = (name: string) => timestamp(name, { withTimezone: true });
@@ -37,6 +46,7 @@ export const promisedReadyOptionEnum = [
   "today",
   "tomorrow",
   "day_after_tomorrow",
+  "later",
 ] as const;
 
 export const itemTypeEnum = ["everyday", "premium"] as const;
@@ -73,8 +83,10 @@ export const workflowExecutionStatusEnum = [
   "running",
   "completed",
   "failed",
+  "paused",
+  "cancelled",
 ] as const;
-export const workflowNodeKindEnum = ["trigger", "action", "condition"] as const;
+export const workflowNodeKindEnum = ["trigger", "action", "condition", "delay"] as const;
 
 export const workflowStatus = enumType("workflow_status", workflowStatusEnum);
 export const workflowExecutionStatus = enumType(
@@ -185,6 +197,23 @@ export const users = pgTable("users", {
   updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+// Staff TOTP enrollment; secrets are stored encrypted and recovery codes hashed
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: uuid("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret"),
+  pendingSecret: text("pending_secret"),
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  lastUsedStep: integer("last_used_step"),
+  enabledAt: timestamptz("enabled_at"),
+  createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type InsertUserTwoFactor = typeof userTwoFactor.$inferInsert;
+
 export const permissions = pgTable(
   "permissions",
   {
@@ -212,6 +241,9 @@ export const rolePermissions = pgTable(
   }),
 );
 
+export type UserPermissionEffect = "grant" | "deny";
+
+// Per-user overrides on top of the role: grants add a permission, denies take one away
 export const userPermissions = pgTable(
   "user_permissions",
   {
@@ -221,6 +253,7 @@ export const userPermissions = pgTable(
     permissionId: uuid("permission_id")
       .references(() => permissions.id, { onDelete: "cascade" })
       .notNull(),
+    effect: text("effect").$type<UserPermissionEffect>().notNull().default("grant"),
     grantedAt: timestamptz("granted_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   },
   (table) => ({
@@ -313,6 +346,8 @@ export const customers = pgTable(
     address: text("address"),
     branchId: uuid("branch_id").references(() => branches.id).notNull(),
     balanceDue: numeric("balance_due", { precision: 10, scale: 2 }).default("0.00").notNull(),
+    // Prepaid store credit; only changed through customer_wallet_transactions
+    walletBalance: numeric("wallet_balance", { precision: 10, scale: 2 }).default("0.00").notNull(),
     totalSpent: numeric("total_spent", { precision: 10, scale: 2 }).default("0.00").notNull(),
     loyaltyPoints: integer("loyalty_points").default(0).notNull(),
     isActive: boolean("is_active").default(true).notNull(),
@@ -425,6 +460,210 @@ export const customerPackageItems = pgTable("customer_package_items", {
   totalCredits: integer("total_credits").notNull(),
 });
 
+// Recurring plans: each cycle issues the package again to the subscriber and bills the plan price
+export const subscriptionPlans = pgTable(
+  "subscription_plans",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    packageId: uuid("package_id").references(() => packages.id).notNull(),
+    nameEn: text("name_en").notNull(),
+    nameAr: text("name_ar"),
+    price: numeric("price", { precision: 10, scale: 2 }).notNull(),
+    intervalMonths: integer("interval_months").notNull().default(1),
+    rolloverPolicy: text("rollover_policy").$type<SubscriptionRolloverPolicy>().notNull().default("none"),
+    rolloverCap: integer("rollover_cap"),
+    reminderDays: integer("reminder_days").notNull().default(3),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [index("subscription_plans_branch_idx").on(table.branchId)],
+);
+
+export const customerSubscriptions = pgTable(
+  "customer_subscriptions",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    customerId: uuid("customer_id").references(() => customers.id).notNull(),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    planId: uuid("plan_id").references(() => subscriptionPlans.id).notNull(),
+    status: text("status").$type<SubscriptionStatus>().notNull().default("active"),
+    billingMethod: text("billing_method").$type<SubscriptionBillingMethod>().notNull(),
+    // Card-on-file token or masked number from the payment terminal; never a full card number
+    cardReference: text("card_reference"),
+    currentPackageId: uuid("current_package_id").references(() => customerPackages.id),
+    currentPeriodStart: timestamptz("current_period_start").notNull(),
+    currentPeriodEnd: timestamptz("current_period_end").notNull(),
+    // Period end the last renewal reminder was sent for
+    reminderSentFor: timestamptz("reminder_sent_for"),
+    pausedAt: timestamptz("paused_at"),
+    cancelledAt: timestamptz("cancelled_at"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    index("customer_subscriptions_customer_idx").on(table.customerId),
+    index("customer_subscriptions_renewal_idx").on(table.status, table.currentPeriodEnd),
+  ],
+);
+
+// One row per billed cycle, linking the issued package and the payment record
+export const subscriptionCycles = pgTable(
+  "subscription_cycles",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    subscriptionId: uuid("subscription_id").references(() => customerSubscriptions.id).notNull(),
+    customerPackageId: uuid("customer_package_id").references(() => customerPackages.id).notNull(),
+    paymentId: uuid("payment_id").references((): AnyPgColumn => payments.id),
+    periodStart: timestamptz("period_start").notNull(),
+    periodEnd: timestamptz("period_end").notNull(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    billingMethod: text("billing_method").$type<SubscriptionBillingMethod>().notNull(),
+    rolledOverCredits: integer("rolled_over_credits").notNull().default(0),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [index("subscription_cycles_subscription_idx").on(table.subscriptionId, table.periodStart)],
+);
+
+// Households group customers (typically a family) so package credits can be shared at the counter
+export const households = pgTable(
+  "households",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    name: text("name").notNull(),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [index("households_branch_idx").on(table.branchId)],
+);
+
+// A customer belongs to at most one household
+export const householdMembers = pgTable(
+  "household_members",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    householdId: uuid("household_id").references(() => households.id).notNull(),
+    customerId: uuid("customer_id").references(() => customers.id).notNull(),
+    role: text("role").$type<HouseholdRole>().notNull().default("member"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    uniqueIndex("household_members_customer_unique").on(table.customerId),
+    index("household_members_household_idx").on(table.householdId),
+  ],
+);
+
+// Household members allowed to draw from another member's package, each with an optional credit limit
+export const customerPackageShares = pgTable(
+  "customer_package_shares",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    customerPackageId: uuid("customer_package_id").references(() => customerPackages.id).notNull(),
+    customerId: uuid("customer_id").references(() => customers.id).notNull(),
+    creditLimit: integer("credit_limit"),
+    creditsUsed: integer("credits_used").notNull().default(0),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    uniqueIndex("customer_package_shares_package_customer_unique").on(table.customerPackageId, table.customerId),
+    index("customer_package_shares_customer_idx").on(table.customerId),
+  ],
+);
+
+// Who consumed which package credit, and on which order
+export const customerPackageUsages = pgTable(
+  "customer_package_usages",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    customerPackageId: uuid("customer_package_id").references(() => customerPackages.id).notNull(),
+    orderId: uuid("order_id").references((): AnyPgColumn => orders.id),
+    customerId: uuid("customer_id").references(() => customers.id).notNull(),
+    serviceId: uuid("service_id").references(() => laundryServices.id).notNull(),
+    clothingItemId: uuid("clothing_item_id").references(() => clothingItems.id).notNull(),
+    quantity: integer("quantity").notNull(),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    index("customer_package_usages_package_idx").on(table.customerPackageId),
+    index("customer_package_usages_order_idx").on(table.orderId),
+  ],
+);
+
+// Remaining credits moved from one customer's package into a new package for another customer
+export const customerPackageTransfers = pgTable(
+  "customer_package_transfers",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    fromCustomerPackageId: uuid("from_customer_package_id").references(() => customerPackages.id).notNull(),
+    toCustomerPackageId: uuid("to_customer_package_id").references(() => customerPackages.id).notNull(),
+    fromCustomerId: uuid("from_customer_id").references(() => customers.id).notNull(),
+    toCustomerId: uuid("to_customer_id").references(() => customers.id).notNull(),
+    credits: integer("credits").notNull(),
+    reason: text("reason"),
+    transferredBy: uuid("transferred_by").references(() => users.id),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [
+    index("customer_package_transfers_from_idx").on(table.fromCustomerId),
+    index("customer_package_transfers_to_idx").on(table.toCustomerId),
+  ],
+);
+
+// Responses kept so a POST repeated with the same Idempotency-Key header replays instead of running twice
+export const idempotencyKeys = pgTable(
+  "idempotency_keys",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    // Method, path and caller the key was sent by; the same key from someone else is unrelated
+    scope: text("scope").notNull(),
+    key: text("key").notNull(),
+    requestHash: text("request_hash").notNull(),
+    // Null while the first request is still running
+    statusCode: integer("status_code"),
+    responseBody: jsonb("response_body"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    expiresAt: timestamptz("expires_at").notNull(),
+  },
+  (table) => [
+    uniqueIndex("idempotency_keys_scope_key_unique").on(table.scope, table.key),
+    index("idempotency_keys_expires_idx").on(table.expiresAt),
+  ],
+);
+
+// Order numbers handed to a POS device ahead of time so it can number orders while offline
+export const orderNumberReservations = pgTable(
+  "order_number_reservations",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    deviceId: text("device_id").notNull(),
+    startNumber: integer("start_number").notNull(),
+    endNumber: integer("end_number").notNull(),
+    reservedBy: uuid("reserved_by").references(() => users.id),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [index("order_number_reservations_branch_idx").on(table.branchId)],
+);
+
+// One row per reserved number; a sync claims its number by flipping status to "used"
+export const reservedOrderNumbers = pgTable(
+  "reserved_order_numbers",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    reservationId: uuid("reservation_id").references(() => orderNumberReservations.id).notNull(),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    sequence: integer("sequence").notNull(),
+    status: text("status").$type<"reserved" | "used">().default("reserved").notNull(),
+    orderId: uuid("order_id"),
+    usedAt: timestamptz("used_at"),
+  },
+  (table) => [uniqueIndex("reserved_order_numbers_reservation_sequence_unique").on(table.reservationId, table.sequence)],
+);
+
 // Orders table for order tracking
 export const orders = pgTable(
   "orders",
@@ -451,6 +690,13 @@ export const orders = pgTable(
     branchId: uuid("branch_id").references(() => branches.id).notNull(),
     isDeliveryRequest: boolean("is_delivery_request").default(false).notNull(),
     packageUsages: jsonb("package_usages"), // Store per-transaction multi-package usage for accurate receipt display
+    taxBreakdown: jsonb("tax_breakdown"), // Server-computed breakdown (see shared/tax.ts) used by receipts and reports
+    // Charged for finishing sooner than the branch's standard lead time; already included in subtotal and total
+    expressSurcharge: numeric("express_surcharge", { precision: 10, scale: 2 }).default("0").notNull(),
+    // Set for orders rung up on an offline POS; identifies the device's copy so syncing twice is harmless
+    offlineId: uuid("offline_id").unique(),
+    offlineCreatedAt: timestamptz("offline_created_at"),
+    offlineConflicts: jsonb("offline_conflicts").$type<OfflineConflict[]>(),
     createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
     updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   },
@@ -459,6 +705,7 @@ export const orders = pgTable(
       table.branchId,
       table.orderNumber,
     ),
+    branchPromisedReadyIdx: index("orders_branch_promised_ready_date_idx").on(table.branchId, table.promisedReadyDate),
   }),
 );
 
@@ -481,6 +728,57 @@ export const orderStatusHistory = pgTable(
   }),
 );
 
+// One row per physical piece in an order, created from the order's item quantities
+export const orderPieces = pgTable(
+  "order_pieces",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    orderId: uuid("order_id")
+      .references(() => orders.id, { onDelete: "cascade" })
+      .notNull(),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    lineIndex: integer("line_index").notNull(),
+    pieceNumber: integer("piece_number").notNull(),
+    sequence: integer("sequence").notNull(),
+    tagCode: varchar("tag_code", { length: 40 }).notNull(),
+    description: text("description").notNull(),
+    status: text("status").$type<GarmentPieceStatus>().notNull().default("received"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    orderLineUnique: uniqueIndex("order_pieces_order_line_piece_unique").on(
+      table.orderId,
+      table.lineIndex,
+      table.pieceNumber,
+    ),
+    branchTagUnique: uniqueIndex("order_pieces_branch_tag_unique").on(table.branchId, table.tagCode),
+    statusIdx: index("order_pieces_status_idx").on(table.branchId, table.status),
+  }),
+);
+
+export const orderPieceScans = pgTable(
+  "order_piece_scans",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    pieceId: uuid("piece_id")
+      .references(() => orderPieces.id, { onDelete: "cascade" })
+      .notNull(),
+    orderId: uuid("order_id")
+      .references(() => orders.id, { onDelete: "cascade" })
+      .notNull(),
+    status: text("status").$type<GarmentPieceStatus>().notNull(),
+    actor: text("actor"),
+    occurredAt: timestamptz("occurred_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => ({
+    pieceIdx: index("order_piece_scans_piece_id_idx").on(table.pieceId),
+    orderIdx: index("order_piece_scans_order_id_idx").on(table.orderId),
+    occurredAtIdx: index("order_piece_scans_occurred_at_idx").on(table.occurredAt),
+  }),
+);
 
 export const orderPrints = pgTable(
   "order_prints",
@@ -510,9 +808,67 @@ export const payments = pgTable("payments", {
   receivedBy: varchar("received_by", { length: 255 }).notNull(),
   isOverpayOverride: boolean("is_overpay_override").notNull().default(false),
   overrideReason: text("override_reason"),
+  refundId: uuid("refund_id").references((): AnyPgColumn => orderRefunds.id), // set on negative refund/void payments
   createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+export type OrderRefundKind = "refund" | "void";
+export type OrderRefundStatus = "pending_approval" | "completed" | "rejected";
+
+// A refunded order line: quantity returned, how much of it came back as package credits
+// and the money owed for the rest (tax and discounts prorated).
+export interface OrderRefundItem {
+  lineIndex: number;
+  quantity: number;
+  creditsRestored: number;
+  amount: number;
+}
+
+export interface OrderRefundAllocation {
+  paymentMethod: string;
+  amount: number;
+}
+
+export interface OrderRefundPackageCredit {
+  packageId: string;
+  serviceId: string;
+  clothingItemId: string;
+  quantity: number;
+}
+
+// Refunds and voids against an order. The reversal plan (money per payment method, pay-later
+// balance reduction, package credits and loyalty) is fixed when requested and applied on approval.
+export const orderRefunds = pgTable(
+  "order_refunds",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    orderId: uuid("order_id").references(() => orders.id).notNull(),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    customerId: uuid("customer_id").references(() => customers.id),
+    kind: text("kind").$type<OrderRefundKind>().notNull().default("refund"),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    balanceCredit: numeric("balance_credit", { precision: 10, scale: 2 }).notNull().default("0.00"),
+    items: jsonb("items").$type<OrderRefundItem[]>().notNull().default(sql`'[]'::jsonb`),
+    allocations: jsonb("allocations").$type<OrderRefundAllocation[]>().notNull().default(sql`'[]'::jsonb`),
+    packageCredits: jsonb("package_credits").$type<OrderRefundPackageCredit[]>().notNull().default(sql`'[]'::jsonb`),
+    loyaltyPointsReversed: integer("loyalty_points_reversed").notNull().default(0),
+    loyaltyPointsRestored: integer("loyalty_points_restored").notNull().default(0),
+    // Part of the refund that goes back as the redeemed points instead of money
+    loyaltyValueRestored: numeric("loyalty_value_restored", { precision: 10, scale: 2 }).notNull().default("0.00"),
+    reason: text("reason").notNull(),
+    status: text("status").$type<OrderRefundStatus>().notNull().default("pending_approval"),
+    requestedBy: uuid("requested_by").references(() => users.id).notNull(),
+    decidedBy: uuid("decided_by").references(() => users.id),
+    decisionNote: text("decision_note"),
+    decidedAt: timestamptz("decided_at"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    orderIdx: index("order_refunds_order_idx").on(table.orderId),
+    branchStatusIdx: index("order_refunds_branch_status_idx").on(table.branchId, table.status),
+  }),
+);
+
 // Business expenses for profit/loss reporting
 export const expenses = pgTable("expenses", {
   id: uuid("id").primaryKey().default(uuidFn),
@@ -558,12 +914,17 @@ export const auditEvents = pgTable(
     entityId: text("entity_id"),
     severity: text("severity").notNull().default("info"),
     requestId: text("request_id"),
+    // Branch the change belongs to; null for platform-wide events
+    branchId: uuid("branch_id"),
+    // Changes carry `before` and `after` snapshots of the changed fields
     metadata: jsonb("metadata").notNull().default(sql`'{}'::jsonb`),
     createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
   },
   (table) => ({
     entityIdx: index("audit_events_entity_idx").on(table.entityType, table.entityId),
     eventTypeIdx: index("audit_events_event_type_idx").on(table.eventType),
+    createdAtIdx: index("audit_events_created_at_idx").on(table.createdAt, table.id),
+    branchCreatedAtIdx: index("audit_events_branch_created_at_idx").on(table.branchId, table.createdAt),
   }),
 );
 
@@ -573,8 +934,12 @@ export const dataQualityRuns = pgTable("data_quality_runs", {
   completedAt: timestamptz("completed_at"),
   status: text("status").notNull().default("running"),
   checkTypes: jsonb("check_types").notNull().default(sql`'[]'::jsonb`),
+  triggeredBy: uuid("triggered_by").references(() => users.id), // null for scheduled runs
 });
 
+export const dataQualityExceptionStatusEnum = ["open", "acknowledged", "resolved", "ignored"] as const;
+export type DataQualityExceptionStatus = (typeof dataQualityExceptionStatusEnum)[number];
+
 export const dataQualityExceptions = pgTable(
   "data_quality_exceptions",
   {
@@ -588,10 +953,18 @@ export const dataQualityExceptions = pgTable(
     entityId: text("entity_id"),
     detectedAt: timestamptz("detected_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
     details: jsonb("details").notNull().default(sql`'{}'::jsonb`),
+    branchId: uuid("branch_id").references(() => branches.id),
+    // open -> acknowledged -> resolved | ignored. Open, acknowledged and ignored rows suppress
+    // duplicates in later runs; a resolved issue that comes back is raised again.
+    status: text("status").$type<DataQualityExceptionStatus>().notNull().default("open"),
+    resolutionNote: text("resolution_note"),
+    resolvedBy: uuid("resolved_by").references(() => users.id),
+    resolvedAt: timestamptz("resolved_at"),
   },
   (table) => ({
     runIdx: index("data_quality_exceptions_run_idx").on(table.runId),
     checkIdx: index("data_quality_exceptions_check_idx").on(table.checkName),
+    statusIdx: index("data_quality_exceptions_status_idx").on(table.status, table.checkName),
   }),
 );
 
@@ -615,6 +988,77 @@ export const glMappings = pgTable(
 export const insertGlMappingSchema = createInsertSchema(glMappings).omit({ id: true, createdAt: true, updatedAt: true });
 export type GlMapping = typeof glMappings.$inferSelect;
 
+// General ledger: one balanced entry per business event (order, payment, refund, expense, ...).
+// Account codes are resolved through gl_mappings when the entry is posted, so later mapping
+// changes never rewrite history.
+export const journalEntries = pgTable(
+  "journal_entries",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    sourceType: text("source_type").notNull(), // 'order' | 'payment' | 'order_refund' | 'expense' | ...
+    sourceId: text("source_id").notNull(),
+    memo: text("memo"),
+    postedAt: timestamptz("posted_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    sourceUnique: uniqueIndex("journal_entries_source_unique").on(table.sourceType, table.sourceId),
+    branchPostedIdx: index("journal_entries_branch_posted_idx").on(table.branchId, table.postedAt),
+  }),
+);
+
+export const journalLines = pgTable(
+  "journal_lines",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    entryId: uuid("entry_id")
+      .references(() => journalEntries.id, { onDelete: "cascade" })
+      .notNull(),
+    accountKey: text("account_key").notNull(), // chart role, e.g. 'revenue' or 'expense:Rent'
+    account: text("account").notNull(), // account code at posting time
+    debit: numeric("debit", { precision: 12, scale: 2 }).notNull().default("0.00"),
+    credit: numeric("credit", { precision: 12, scale: 2 }).notNull().default("0.00"),
+    memo: text("memo"),
+  },
+  (table) => ({
+    entryIdx: index("journal_lines_entry_idx").on(table.entryId),
+  }),
+);
+
+export interface TrialBalanceRow {
+  account: string;
+  name: string;
+  type: string;
+  openingBalance: number;
+  debit: number;
+  credit: number;
+  closingBalance: number;
+}
+
+// Closed accounting periods. Nothing can be posted into a closed period; the trial balance
+// at close is kept so the next period's opening balances can be tied out.
+export const accountingPeriods = pgTable(
+  "accounting_periods",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    periodStart: date("period_start").notNull(),
+    periodEnd: date("period_end").notNull(),
+    trialBalance: jsonb("trial_balance").$type<TrialBalanceRow[]>().notNull().default(sql`'[]'::jsonb`),
+    closedBy: uuid("closed_by").references(() => users.id).notNull(),
+    closedAt: timestamptz("closed_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    branchPeriodIdx: index("accounting_periods_branch_period_idx").on(table.branchId, table.periodEnd),
+  }),
+);
+
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type JournalLine = typeof journalLines.$inferSelect;
+export type JournalEntryWithLines = JournalEntry & { lines: JournalLine[] };
+export type AccountingPeriod = typeof accountingPeriods.$inferSelect;
+
 export const transactions = pgTable("transactions", {
   id: uuid("id").primaryKey().default(uuidFn),
   items: jsonb("items").notNull(),
@@ -647,12 +1091,68 @@ export const securitySettings = pgTable("security_settings", {
 });
 
 // Loyalty points history for tracking accrual and redemption
-export const loyaltyHistory = pgTable("loyalty_history", {
-  id: uuid("id").primaryKey().default(uuidFn),
-  customerId: uuid("customer_id").references(() => customers.id).notNull(),
-  change: integer("change").notNull(), // positive for accrual, negative for redemption
-  description: text("description"),
-  createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+export type CustomerWalletTransactionType = "top_up" | "spend" | "refund";
+
+// Store credit ledger; amount is positive for credits (top-ups, refunds) and negative for spend
+export const customerWalletTransactions = pgTable(
+  "customer_wallet_transactions",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    customerId: uuid("customer_id").references(() => customers.id).notNull(),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    type: text("type").$type<CustomerWalletTransactionType>().notNull(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    balanceAfter: numeric("balance_after", { precision: 10, scale: 2 }).notNull(),
+    fundingMethod: text("funding_method"), // top-ups: 'cash' | 'card' | 'bank_transfer'
+    orderId: uuid("order_id").references(() => orders.id),
+    paymentId: uuid("payment_id").references(() => payments.id),
+    notes: text("notes"),
+    createdBy: uuid("created_by").references(() => users.id),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    customerCreatedIdx: index("customer_wallet_transactions_customer_created_idx").on(
+      table.customerId,
+      table.createdAt,
+    ),
+    branchCreatedIdx: index("customer_wallet_transactions_branch_created_idx").on(table.branchId, table.createdAt),
+  }),
+);
+
+export const loyaltyHistory = pgTable(
+  "loyalty_history",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    customerId: uuid("customer_id").references(() => customers.id).notNull(),
+    change: integer("change").notNull(), // positive for accrual, negative for redemption
+    description: text("description"),
+    kind: text("kind").$type<LoyaltyEntryKind>().default("adjustment").notNull(),
+    branchId: uuid("branch_id").references(() => branches.id),
+    orderId: uuid("order_id").references(() => orders.id),
+    // Earned points stop counting after this; see expiringPoints in shared/loyalty.ts
+    expiresAt: timestamptz("expires_at"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    customerIdx: index("loyalty_history_customer_idx").on(table.customerId, table.createdAt),
+    expiresIdx: index("loyalty_history_expires_idx").on(table.expiresAt),
+  }),
+);
+
+// Per-branch earn, redemption, tier and expiry rules; branches without a row use DEFAULT_LOYALTY_PROGRAM
+export const loyaltyPrograms = pgTable("loyalty_programs", {
+  branchId: uuid("branch_id").primaryKey().references(() => branches.id),
+  isEnabled: boolean("is_enabled").default(true).notNull(),
+  pointsPerUnit: numeric("points_per_unit", { precision: 10, scale: 3 }).default("1").notNull(),
+  serviceRates: jsonb("service_rates").$type<Record<string, number>>().default(sql`'{}'::jsonb`).notNull(),
+  campaigns: jsonb("campaigns").$type<LoyaltyCampaign[]>().default(sql`'[]'::jsonb`).notNull(),
+  pointValue: numeric("point_value", { precision: 10, scale: 3 }).default("0.1").notNull(),
+  minRedeemPoints: integer("min_redeem_points").default(0).notNull(),
+  maxRedeemPercent: numeric("max_redeem_percent", { precision: 5, scale: 2 }).default("100").notNull(),
+  expiryMonths: integer("expiry_months"),
+  tierWindowMonths: integer("tier_window_months").default(12).notNull(),
+  tiers: jsonb("tiers").$type<LoyaltyTier[]>().default(sql`'[]'::jsonb`).notNull(),
+  updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
 // Coupons for discounts and promotions
@@ -734,11 +1234,110 @@ export const branchDeliverySettings = pgTable("branch_delivery_settings", {
   freeDeliveryThreshold: numeric("free_delivery_threshold", { precision: 10, scale: 2 }),
   maxDeliveryDistance: numeric("max_delivery_distance", { precision: 5, scale: 2 }), // in kilometers
   estimatedDeliveryTime: integer("estimated_delivery_time"), // in minutes
-  operatingHours: jsonb("operating_hours"), // Store operating hours JSON
+  operatingHours: jsonb("operating_hours"), // Legacy free-form hours; branch_opening_hours is the source of truth
   specialInstructions: text("special_instructions"),
+  // Delivery compensation above this amount needs branch admin approval
+  compensationApprovalThreshold: numeric("compensation_approval_threshold", { precision: 10, scale: 2 }),
   updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+// How much each branch can finish per day; drives the promised-ready date offered at order entry
+export const branchCapacitySettings = pgTable("branch_capacity_settings", {
+  branchId: uuid("branch_id").primaryKey().references(() => branches.id),
+  cutoffTime: varchar("cutoff_time", { length: 5 }).default("18:00").notNull(),
+  standardLeadDays: integer("standard_lead_days").default(1).notNull(),
+  expressEnabled: boolean("express_enabled").default(true).notNull(),
+  expressSurchargePercent: numeric("express_surcharge_percent", { precision: 5, scale: 2 }).default("50").notNull(),
+  overbookPolicy: text("overbook_policy").$type<OverbookPolicy>().default("warn").notNull(),
+  closedDates: jsonb("closed_dates").$type<string[]>().default(sql`'[]'::jsonb`).notNull(),
+  updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+});
+
+export const branchServiceCapacities = pgTable(
+  "branch_service_capacities",
+  {
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    serviceId: uuid("service_id").references(() => laundryServices.id).notNull(),
+    dailyPieces: integer("daily_pieces").notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.branchId, table.serviceId] }),
+  }),
+);
+
+// Regular weekly opening hours; a weekday without a row is a closed day
+export const branchOpeningHours = pgTable(
+  "branch_opening_hours",
+  {
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    weekday: integer("weekday").notNull(),
+    opensAt: varchar("opens_at", { length: 5 }).notNull(),
+    closesAt: varchar("closes_at", { length: 5 }).notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.branchId, table.weekday] }),
+  }),
+);
+
+// Holidays, closures and seasonal hours (e.g. Ramadan) that override the weekly hours for a date range
+export const branchCalendarEntries = pgTable(
+  "branch_calendar_entries",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    kind: text("kind").$type<BranchCalendarKind>().notNull(),
+    label: text("label").notNull(),
+    startDate: date("start_date", { mode: "string" }).notNull(),
+    endDate: date("end_date", { mode: "string" }).notNull(),
+    opensAt: varchar("opens_at", { length: 5 }),
+    closesAt: varchar("closes_at", { length: 5 }),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [index("branch_calendar_entries_branch_end_date_idx").on(table.branchId, table.endDate)],
+);
+
+// Pickup and drop-off windows a branch offers, with a booking limit per occurrence and optional per-zone limits
+export const deliverySlots = pgTable(
+  "delivery_slots",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    kind: text("kind").$type<DeliverySlotKind>().notNull(),
+    weekday: integer("weekday"),
+    startTime: varchar("start_time", { length: 5 }).notNull(),
+    endTime: varchar("end_time", { length: 5 }).notNull(),
+    capacity: integer("capacity").notNull(),
+    zoneCapacities: jsonb("zone_capacities").$type<Record<string, number>>().notNull().default(sql`'{}'::jsonb`),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => [index("delivery_slots_branch_idx").on(table.branchId)],
+);
+
+// One row per held slot; released rows are kept so the booking history survives cancellations
+export const deliverySlotBookings = pgTable(
+  "delivery_slot_bookings",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    slotId: uuid("slot_id").references(() => deliverySlots.id).notNull(),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    kind: text("kind").$type<DeliverySlotKind>().notNull(),
+    slotDate: date("slot_date", { mode: "string" }).notNull(),
+    cityId: uuid("city_id").references(() => cities.id),
+    orderId: uuid("order_id").references(() => orders.id),
+    deliveryId: uuid("delivery_id").references(() => deliveryOrders.id),
+    status: text("status").$type<"reserved" | "released">().notNull().default("reserved"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    releasedAt: timestamptz("released_at"),
+  },
+  (table) => [
+    index("delivery_slot_bookings_slot_date_idx").on(table.slotId, table.slotDate),
+    index("delivery_slot_bookings_delivery_idx").on(table.deliveryId),
+    index("delivery_slot_bookings_order_idx").on(table.orderId),
+  ],
+);
+
 // Branch delivery items - which clothing items each branch offers for delivery
 export const branchDeliveryItems = pgTable(
   "branch_delivery_items",
@@ -835,6 +1434,111 @@ export const deliveryOrders = pgTable("delivery_orders", {
   updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
 });
 
+export interface DeliveryMessageAttachment {
+  id: string;
+  name: string;
+  url?: string;
+}
+
+export const deliveryMessages = pgTable(
+  "delivery_messages",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    deliveryId: uuid("delivery_id")
+      .references(() => deliveryOrders.id, { onDelete: "cascade" })
+      .notNull(),
+    orderId: uuid("order_id").references(() => orders.id).notNull(),
+    senderType: text("sender_type").$type<"customer" | "agent" | "system">().notNull(),
+    senderId: text("sender_id"),
+    senderName: text("sender_name"),
+    body: text("body").notNull(),
+    attachments: jsonb("attachments").$type<DeliveryMessageAttachment[]>().notNull().default(sql`'[]'::jsonb`),
+    metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    deliveryCreatedIdx: index("delivery_messages_delivery_created_idx").on(table.deliveryId, table.createdAt),
+  }),
+);
+
+// One outstanding portal verification code per delivery and contact; only its hash is stored.
+export const deliveryPortalOtps = pgTable(
+  "delivery_portal_otps",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    deliveryId: uuid("delivery_id")
+      .references(() => deliveryOrders.id, { onDelete: "cascade" })
+      .notNull(),
+    contact: text("contact").notNull(),
+    codeHash: text("code_hash").notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    expiresAt: timestamptz("expires_at").notNull(),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    deliveryContactUnique: uniqueIndex("delivery_portal_otps_delivery_contact_unique").on(
+      table.deliveryId,
+      table.contact,
+    ),
+  }),
+);
+
+export const deliveryReschedules = pgTable(
+  "delivery_reschedules",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    deliveryId: uuid("delivery_id")
+      .references(() => deliveryOrders.id, { onDelete: "cascade" })
+      .notNull(),
+    orderId: uuid("order_id").references(() => orders.id).notNull(),
+    previousScheduledTime: timestamptz("previous_scheduled_time"),
+    scheduledTime: timestamptz("scheduled_time").notNull(),
+    windowEnd: timestamptz("window_end"),
+    reason: text("reason"),
+    actor: text("actor"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    deliveryIdx: index("delivery_reschedules_delivery_idx").on(table.deliveryId),
+  }),
+);
+
+export type DeliveryCompensationStatus = "pending_approval" | "applied" | "rejected";
+export type DeliveryCompensationMethod = "balance_credit" | "coupon";
+
+// Compensation offered on a delivery. Amounts above the branch approval threshold stay
+// pending until a branch admin approves them; applying credits the customer's balance
+// or issues a single-use coupon.
+export const deliveryCompensations = pgTable(
+  "delivery_compensations",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    deliveryId: uuid("delivery_id")
+      .references(() => deliveryOrders.id, { onDelete: "cascade" })
+      .notNull(),
+    orderId: uuid("order_id").references(() => orders.id).notNull(),
+    customerId: uuid("customer_id").references(() => customers.id),
+    branchId: uuid("branch_id").references(() => branches.id).notNull(),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    currency: text("currency").notNull(),
+    reason: text("reason"),
+    method: text("method").$type<DeliveryCompensationMethod>().notNull().default("balance_credit"),
+    status: text("status").$type<DeliveryCompensationStatus>().notNull().default("pending_approval"),
+    couponId: uuid("coupon_id").references(() => coupons.id),
+    requestedBy: uuid("requested_by").references(() => users.id),
+    requestedByContact: text("requested_by_contact"),
+    decidedBy: uuid("decided_by").references(() => users.id),
+    decisionNote: text("decision_note"),
+    decidedAt: timestamptz("decided_at"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    deliveryIdx: index("delivery_compensations_delivery_idx").on(table.deliveryId),
+    branchStatusIdx: index("delivery_compensations_branch_status_idx").on(table.branchId, table.status),
+    customerIdx: index("delivery_compensations_customer_idx").on(table.customerId),
+  }),
+);
+
 export const driverLocations = pgTable(
   "driver_locations",
   {
@@ -989,11 +1693,37 @@ export const workflowExecutions = pgTable(
     startedAt: timestamptz("started_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
     completedAt: timestamptz("completed_at"),
     errorMessage: text("error_message"),
+    resumeAt: timestamptz("resume_at"),
+    pendingSteps: jsonb("pending_steps")
+      .$type<WorkflowPendingStep[]>()
+      .default(sql`'[]'::jsonb`)
+      .notNull(),
   },
   (table) => ({
     workflowIdx: index("workflow_executions_workflow_idx").on(table.workflowId),
     statusIdx: index("workflow_executions_status_idx").on(table.status),
     startedIdx: index("workflow_executions_started_idx").on(table.startedAt),
+    resumeIdx: index("workflow_executions_resume_idx").on(table.status, table.resumeAt),
+  }),
+);
+
+export const workflowScheduleRuns = pgTable(
+  "workflow_schedule_runs",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    workflowId: uuid("workflow_id")
+      .references(() => workflowDefinitions.id, { onDelete: "cascade" })
+      .notNull(),
+    nodeKey: text("node_key").notNull(),
+    scheduledFor: timestamptz("scheduled_for").notNull(),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    slotUnique: uniqueIndex("workflow_schedule_runs_slot_unique").on(
+      table.workflowId,
+      table.nodeKey,
+      table.scheduledFor,
+    ),
   }),
 );
 
@@ -1021,6 +1751,28 @@ export const workflowExecutionEvents = pgTable(
   }),
 );
 
+export const workflowNotificationChannelEnum = ["email", "sms"] as const;
+
+export const workflowNotificationTemplates = pgTable(
+  "workflow_notification_templates",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    key: text("key").notNull(),
+    branchId: uuid("branch_id").references(() => branches.id, { onDelete: "cascade" }),
+    channel: text("channel").notNull(), // 'email', 'sms'
+    subject: text("subject"),
+    body: text("body").notNull(),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    keyBranchUnique: uniqueIndex("workflow_notification_templates_key_branch_unique").on(
+      table.key,
+      table.branchId,
+    ),
+  }),
+);
+
 export const insertClothingItemSchema = createInsertSchema(clothingItems)
   .omit({
     id: true,
@@ -1061,6 +1813,12 @@ export type WorkflowNode = typeof workflowNodes.$inferSelect;
 export type WorkflowEdge = typeof workflowEdges.$inferSelect;
 export type WorkflowExecution = typeof workflowExecutions.$inferSelect;
 export type WorkflowExecutionEvent = typeof workflowExecutionEvents.$inferSelect;
+/** A branch of a paused execution that continues at `nodeKey` once `resumeAt` has passed. */
+export interface WorkflowPendingStep {
+  nodeKey: string;
+  resumeAt: string;
+}
+export type WorkflowNotificationTemplate = typeof workflowNotificationTemplates.$inferSelect;
 
 export const insertWorkflowDefinitionSchema = createInsertSchema(workflowDefinitions)
   .omit({
@@ -1105,6 +1863,26 @@ export const insertWorkflowEdgeSchema = createInsertSchema(workflowEdges)
     condition: z.record(z.any()).optional(),
   });
 
+export const insertWorkflowNotificationTemplateSchema = createInsertSchema(workflowNotificationTemplates)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    key: z.string().min(1).max(100),
+    branchId: z.string().uuid().nullable().optional(),
+    channel: z.enum(workflowNotificationChannelEnum),
+    subject: z.string().max(200).nullable().optional(),
+    body: z.string().min(1),
+  })
+  .refine((template) => template.channel !== "email" || !!template.subject, {
+    message: "Email templates require a subject",
+    path: ["subject"],
+  });
+
+export type InsertWorkflowNotificationTemplate = z.infer<typeof insertWorkflowNotificationTemplateSchema>;
+
 export const insertWorkflowExecutionSchema = createInsertSchema(workflowExecutions)
   .omit({
     id: true,
@@ -1150,6 +1928,7 @@ export const insertCustomerSchema = createInsertSchema(customers).omit({
   createdAt: true,
   updatedAt: true,
   branchId: true,
+  walletBalance: true,
 });
 
 export const insertCustomerAddressSchema = createInsertSchema(customerAddresses)
@@ -1212,6 +1991,9 @@ export const insertCustomerPackageSchema = createInsertSchema(customerPackages).
 
 export const packageUsageSchema = z.object({
   packageId: z.string(),
+  // Set when the credits came from a household member's package rather than the order customer's own
+  customerPackageId: z.string().optional(),
+  ownerCustomerId: z.string().optional(),
   items: z.array(
     z.object({
       serviceId: z.string(),
@@ -1230,6 +2012,9 @@ export const insertOrderSchema = createInsertSchema(orders)
     createdAt: true,
     updatedAt: true,
     branchId: true,
+    offlineId: true,
+    offlineCreatedAt: true,
+    offlineConflicts: true,
   })
   .extend({
     readyBy: z.coerce.date().optional().transform((d) => d ? d.toISOString() : undefined),
@@ -1243,9 +2028,7 @@ export const insertOrderSchema = createInsertSchema(orders)
         return d;
       })
       .transform((d) => d.toISOString()),
-    promisedReadyOption: z
-      .enum(["today", "tomorrow", "day_after_tomorrow"])
-      .default("tomorrow"),
+    promisedReadyOption: z.enum(promisedReadyOptionEnum).default("tomorrow"),
     isDeliveryRequest: z.boolean().optional().default(false),
   });
 
@@ -1288,6 +2071,7 @@ export const insertOrderStatusHistorySchema = createInsertSchema(orderStatusHist
 
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
+  refundId: true,
   createdAt: true,
 });
 
@@ -1320,10 +2104,12 @@ export const insertTransactionSchema = createInsertSchema(transactions).omit({
   branchId: true,
 });
 
-export const insertLoyaltyHistorySchema = createInsertSchema(loyaltyHistory).omit({
-  id: true,
-  createdAt: true,
-});
+export const insertLoyaltyHistorySchema = createInsertSchema(loyaltyHistory)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({ kind: z.enum(loyaltyEntryKindEnum).optional() });
 
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -1483,7 +2269,20 @@ export type InsertExpense = z.infer<typeof insertExpenseSchema>;
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type LoyaltyHistory = typeof loyaltyHistory.$inferSelect;
+export type CustomerWalletTransaction = typeof customerWalletTransactions.$inferSelect;
+export type InsertCustomerWalletTransaction = typeof customerWalletTransactions.$inferInsert;
 export type InsertLoyaltyHistory = z.infer<typeof insertLoyaltyHistorySchema>;
+export type LoyaltyProgram = typeof loyaltyPrograms.$inferSelect;
+export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
+export type CustomerSubscription = typeof customerSubscriptions.$inferSelect;
+export type SubscriptionCycle = typeof subscriptionCycles.$inferSelect;
+export type Household = typeof households.$inferSelect;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type CustomerPackageShare = typeof customerPackageShares.$inferSelect;
+export type CustomerPackageUsage = typeof customerPackageUsages.$inferSelect;
+export type CustomerPackageTransfer = typeof customerPackageTransfers.$inferSelect;
+export type OrderNumberReservation = typeof orderNumberReservations.$inferSelect;
+export type IdempotencyKey = typeof idempotencyKeys.$inferSelect;
 export type Coupon = typeof coupons.$inferSelect;
 export type InsertCoupon = z.infer<typeof insertCouponSchema>;
 export type CouponUsage = typeof couponUsage.$inferSelect;
@@ -1513,6 +2312,9 @@ export interface OrderLog {
   cancelReason?: string | null;
   createdAt?: string | null;
   promisedReadyDate?: string | null;
+  branchId?: string | null;
+  // Set by the order-logs endpoint; closed branch days do not count against the promise
+  sla?: OrderSla | null;
   events: OrderTimelineEvent[];
 }
 
@@ -1613,6 +2415,198 @@ export const branchCustomizationInsertSchema = createInsertSchema(branchCustomiz
 export type BranchCustomization = typeof branchCustomizationTable.$inferSelect;
 export type BranchCustomizationInsert = z.infer<typeof branchCustomizationInsertSchema>;
 
+// Branch tax profiles: the server-side source of truth for order tax
+export const branchTaxProfiles = pgTable(
+  "branch_tax_profiles",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id")
+      .references(() => branches.id, { onDelete: "cascade" })
+      .notNull(),
+    name: text("name").notNull().default("Standard"),
+    rate: numeric("rate", { precision: 5, scale: 2 }).notNull().default("0"), // percent
+    pricesIncludeTax: boolean("prices_include_tax").notNull().default(false),
+    effectiveFrom: date("effective_from").default(sql`CURRENT_DATE`).notNull(),
+    effectiveTo: date("effective_to"),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    branchEffectiveIdx: index("branch_tax_profiles_branch_effective_idx").on(
+      table.branchId,
+      table.effectiveFrom,
+    ),
+  }),
+);
+
+export const branchTaxOverrides = pgTable(
+  "branch_tax_overrides",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    profileId: uuid("profile_id")
+      .references(() => branchTaxProfiles.id, { onDelete: "cascade" })
+      .notNull(),
+    serviceId: uuid("service_id").references(() => laundryServices.id, { onDelete: "cascade" }),
+    categoryId: uuid("category_id").references(() => categories.id, { onDelete: "cascade" }),
+    rate: numeric("rate", { precision: 5, scale: 2 }).notNull(),
+  },
+  (table) => ({
+    profileIdx: index("branch_tax_overrides_profile_idx").on(table.profileId),
+  }),
+);
+
+export const insertBranchTaxOverrideSchema = createInsertSchema(branchTaxOverrides)
+  .omit({ id: true, profileId: true })
+  .extend({
+    serviceId: z.string().uuid().nullable().optional(),
+    categoryId: z.string().uuid().nullable().optional(),
+    rate: z.coerce.number().min(0).max(100).transform((v) => v.toFixed(2)),
+  })
+  .refine((o) => !!o.serviceId !== !!o.categoryId, {
+    message: "Override must target exactly one of serviceId or categoryId",
+  });
+
+export const insertBranchTaxProfileSchema = createInsertSchema(branchTaxProfiles)
+  .omit({ id: true, branchId: true, createdAt: true, updatedAt: true })
+  .extend({
+    rate: z.coerce.number().min(0).max(100).transform((v) => v.toFixed(2)),
+    effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    effectiveTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+    overrides: z.array(insertBranchTaxOverrideSchema).optional(),
+  })
+  .refine((p) => !p.effectiveTo || !p.effectiveFrom || p.effectiveTo >= p.effectiveFrom, {
+    message: "effectiveTo must be on or after effectiveFrom",
+    path: ["effectiveTo"],
+  });
+
+export interface CatalogExperimentForecast {
+  baselineRevenue: number;
+  projectedRevenue: number;
+  revenueLift: number;
+  demandMultiplier: number;
+  confidence: number;
+  riskLevel: "low" | "medium" | "high";
+  assumptions: {
+    demandShift: number;
+    seasonality: number;
+  };
+}
+
+export interface CatalogExperimentOutcome {
+  windowStart: string;
+  windowEnd: string;
+  elapsedDays: number;
+  orderCount: number;
+  realizedRevenue: number;
+  realizedVolume: number;
+  forecastRevenue: number;
+  forecastVolume: number;
+  revenueVariance: number;
+  volumeVariance: number;
+  changes: Array<{
+    changeId: string;
+    serviceId: string;
+    realizedRevenue: number;
+    realizedVolume: number;
+    forecastVolume: number;
+  }>;
+  measuredAt: string;
+}
+
+/**
+ * Price rows overwritten when an experiment was published; a null price means the row did not exist.
+ * publishedPrice is what the experiment left in place, so rollback skips rows edited since.
+ */
+export type CatalogExperimentPriceSnapshot = Array<{
+  clothingItemId: string;
+  previousPrice: string | null;
+  publishedPrice?: string;
+}>;
+
+export const catalogExperiments = pgTable(
+  "catalog_experiments",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    branchId: uuid("branch_id")
+      .references(() => branches.id, { onDelete: "cascade" })
+      .notNull(),
+    name: text("name").notNull(),
+    hypothesis: text("hypothesis").notNull(),
+    status: text("status").notNull().default("draft"), // 'draft', 'forecasted', 'published', 'rolled_back', 'archived'
+    testWindowDays: integer("test_window_days").notNull().default(14),
+    forecast: jsonb("forecast").$type<CatalogExperimentForecast>(),
+    outcome: jsonb("outcome").$type<CatalogExperimentOutcome>(),
+    notes: text("notes"),
+    createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+    publishedAt: timestamptz("published_at"),
+    rolledBackAt: timestamptz("rolled_back_at"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+    updatedAt: timestamptz("updated_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    branchStatusIdx: index("catalog_experiments_branch_status_idx").on(table.branchId, table.status),
+  }),
+);
+
+export const catalogExperimentChanges = pgTable(
+  "catalog_experiment_changes",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    experimentId: uuid("experiment_id")
+      .references(() => catalogExperiments.id, { onDelete: "cascade" })
+      .notNull(),
+    serviceId: uuid("service_id")
+      .references(() => laundryServices.id, { onDelete: "cascade" })
+      .notNull(),
+    clothingItemId: uuid("clothing_item_id").references(() => clothingItems.id, { onDelete: "cascade" }),
+    serviceName: text("service_name").notNull(),
+    baselinePrice: numeric("baseline_price", { precision: 10, scale: 2 }).notNull(),
+    proposedPrice: numeric("proposed_price", { precision: 10, scale: 2 }).notNull(),
+    expectedVolume: integer("expected_volume").notNull().default(100), // per week
+    priceSnapshot: jsonb("price_snapshot").$type<CatalogExperimentPriceSnapshot>(),
+  },
+  (table) => ({
+    experimentIdx: index("catalog_experiment_changes_experiment_idx").on(table.experimentId),
+  }),
+);
+
+export const catalogExperimentApprovals = pgTable(
+  "catalog_experiment_approvals",
+  {
+    id: uuid("id").primaryKey().default(uuidFn),
+    experimentId: uuid("experiment_id")
+      .references(() => catalogExperiments.id, { onDelete: "cascade" })
+      .notNull(),
+    action: text("action").notNull(), // 'publish', 'rollback'
+    actorId: uuid("actor_id").references(() => users.id, { onDelete: "set null" }),
+    actorName: text("actor_name").notNull(),
+    role: text("role").notNull(),
+    notes: text("notes"),
+    createdAt: timestamptz("created_at").default(sql`CURRENT_TIMESTAMP`).notNull(),
+  },
+  (table) => ({
+    experimentIdx: index("catalog_experiment_approvals_experiment_idx").on(table.experimentId),
+  }),
+);
+
+export type BranchTaxProfile = typeof branchTaxProfiles.$inferSelect;
+export type BranchTaxOverride = typeof branchTaxOverrides.$inferSelect;
+export type InsertBranchTaxProfile = z.infer<typeof insertBranchTaxProfileSchema>;
+export type InsertBranchTaxOverride = z.infer<typeof insertBranchTaxOverrideSchema>;
+export type BranchTaxProfileWithOverrides = BranchTaxProfile & { overrides: BranchTaxOverride[] };
+
+export type CatalogExperimentRecord = typeof catalogExperiments.$inferSelect;
+export type InsertCatalogExperimentRecord = typeof catalogExperiments.$inferInsert;
+export type CatalogExperimentChangeRecord = typeof catalogExperimentChanges.$inferSelect;
+export type InsertCatalogExperimentChangeRecord = typeof catalogExperimentChanges.$inferInsert;
+export type CatalogExperimentApprovalRecord = typeof catalogExperimentApprovals.$inferSelect;
+export type CatalogExperimentWithDetails = CatalogExperimentRecord & {
+  changes: CatalogExperimentChangeRecord[];
+  approvals: CatalogExperimentApprovalRecord[];
+};
+
+
 // New table types for customer ordering system
 export type CustomerSession = typeof customerSessions.$inferSelect;
 export type InsertCustomerSession = z.infer<typeof insertCustomerSessionSchema>;
@@ -1620,6 +2614,13 @@ export type InsertCustomerSession = z.infer<typeof insertCustomerSessionSchema>;
 export type BranchDeliverySettings = typeof branchDeliverySettings.$inferSelect;
 export type InsertBranchDeliverySettings = z.infer<typeof insertBranchDeliverySettingsSchema>;
 
+export type BranchCapacitySettings = typeof branchCapacitySettings.$inferSelect;
+export type BranchServiceCapacity = typeof branchServiceCapacities.$inferSelect;
+export type BranchOpeningHours = typeof branchOpeningHours.$inferSelect;
+export type DeliverySlot = typeof deliverySlots.$inferSelect;
+export type DeliverySlotBooking = typeof deliverySlotBookings.$inferSelect;
+export type BranchCalendarEntryRow = typeof branchCalendarEntries.$inferSelect;
+
 export type BranchDeliveryItem = typeof branchDeliveryItems.$inferSelect;
 export type InsertBranchDeliveryItem = z.infer<typeof insertBranchDeliveryItemSchema>;
 
@@ -1634,6 +2635,15 @@ export type InsertBranchQRCode = z.infer<typeof insertBranchQRCodeSchema>;
 
 export type DeliveryOrder = typeof deliveryOrders.$inferSelect;
 export type InsertDeliveryOrder = z.infer<typeof insertDeliveryOrderSchema>;
+export type DeliveryMessage = typeof deliveryMessages.$inferSelect;
+export type InsertDeliveryMessage = typeof deliveryMessages.$inferInsert;
+export type DeliveryPortalOtp = typeof deliveryPortalOtps.$inferSelect;
+export type DeliveryReschedule = typeof deliveryReschedules.$inferSelect;
+export type InsertDeliveryReschedule = typeof deliveryReschedules.$inferInsert;
+export type OrderRefund = typeof orderRefunds.$inferSelect;
+export type InsertOrderRefund = typeof orderRefunds.$inferInsert;
+export type DeliveryCompensation = typeof deliveryCompensations.$inferSelect;
+export type InsertDeliveryCompensation = typeof deliveryCompensations.$inferInsert;
 export type DriverLocation = typeof driverLocations.$inferSelect;
 export type InsertDriverLocation = typeof driverLocations.$inferInsert;
 
@@ -1643,6 +2653,8 @@ export type UserPermission = typeof userPermissions.$inferSelect;
 export type AuditEvent = typeof auditEvents.$inferSelect;
 export type DataQualityRun = typeof dataQualityRuns.$inferSelect;
 export type DataQualityException = typeof dataQualityExceptions.$inferSelect;
+export type OrderPiece = typeof orderPieces.$inferSelect;
+export type OrderPieceScan = typeof orderPieceScans.$inferSelect;
 
 // Enhanced types for existing tables with new enums
 export type OrderStatus = typeof orderStatusEnum[number];
@@ -0,0 +1,81 @@
+// Recurring plans on top of prepaid packages: every cycle issues a fresh customer package and bills the plan price.
+
+import { addMonths } from "./loyalty";
+
+export const subscriptionStatusEnum = ["active", "paused", "cancelled"] as const;
+export type SubscriptionStatus = (typeof subscriptionStatusEnum)[number];
+
+export const subscriptionBillingMethodEnum = ["pay_later", "card_on_file"] as const;
+export type SubscriptionBillingMethod = (typeof subscriptionBillingMethodEnum)[number];
+
+// What happens to credits left at the end of a cycle: dropped, carried over in full, or carried up to a cap
+export const subscriptionRolloverEnum = ["none", "all", "capped"] as const;
+export type SubscriptionRolloverPolicy = (typeof subscriptionRolloverEnum)[number];
+
+export interface SubscriptionCredit {
+  serviceId: string;
+  clothingItemId: string;
+  balance: number;
+}
+
+export interface SubscriptionPeriod {
+  start: Date;
+  end: Date;
+}
+
+export function subscriptionPeriodEnd(start: Date, intervalMonths: number): Date {
+  return addMonths(start, intervalMonths);
+}
+
+// The cycle after the current one. A subscription that sat paused past a whole cycle restarts today
+// instead of billing the cycles it missed.
+export function nextSubscriptionPeriod(currentPeriodEnd: Date, intervalMonths: number, now: Date): SubscriptionPeriod {
+  const start = subscriptionPeriodEnd(currentPeriodEnd, intervalMonths) > now ? currentPeriodEnd : now;
+  return { start, end: subscriptionPeriodEnd(start, intervalMonths) };
+}
+
+// Credits carried into the next cycle; a cap is filled in the order the package lists its items
+export function rolloverCredits(
+  policy: { rolloverPolicy: SubscriptionRolloverPolicy; rolloverCap: number | null },
+  remaining: SubscriptionCredit[],
+): SubscriptionCredit[] {
+  if (policy.rolloverPolicy === "none") return [];
+  let allowance = policy.rolloverPolicy === "capped" ? Math.max(policy.rolloverCap ?? 0, 0) : Infinity;
+  const carried: SubscriptionCredit[] = [];
+  for (const credit of remaining) {
+    const balance = Math.min(Math.max(credit.balance, 0), allowance);
+    if (balance <= 0) continue;
+    carried.push({ ...credit, balance });
+    allowance -= balance;
+  }
+  return carried;
+}
+
+export function renewalDue(
+  subscription: { status: SubscriptionStatus; currentPeriodEnd: Date | string },
+  now: Date,
+): boolean {
+  return subscription.status === "active" && new Date(subscription.currentPeriodEnd).getTime() <= now.getTime();
+}
+
+// Reminders go out once per cycle, `reminderDays` before it renews
+export function renewalReminderDue(
+  subscription: {
+    status: SubscriptionStatus;
+    currentPeriodEnd: Date | string;
+    reminderSentFor: Date | string | null;
+  },
+  reminderDays: number,
+  now: Date,
+): boolean {
+  if (subscription.status !== "active" || reminderDays <= 0) return false;
+  const end = new Date(subscription.currentPeriodEnd).getTime();
+  if (end <= now.getTime()) return false;
+  if (subscription.reminderSentFor && new Date(subscription.reminderSentFor).getTime() === end) return false;
+  return end - now.getTime() <= reminderDays * 24 * 60 * 60 * 1000;
+}
+
+export function canChangeSubscriptionStatus(from: SubscriptionStatus, to: SubscriptionStatus): boolean {
+  if (from === "cancelled") return false;
+  return from !== to;
+}
@@ -0,0 +1,115 @@
+export interface TaxOverrideRule {
+  serviceId?: string | null;
+  categoryId?: string | null;
+  rate: number | string;
+}
+
+// Minimal view of a branch tax profile needed to price a cart. Rates are percentages (5 = 5%).
+export interface TaxProfileConfig {
+  id?: string | null;
+  rate: number | string;
+  pricesIncludeTax: boolean;
+  overrides?: TaxOverrideRule[];
+}
+
+export interface TaxLineInput {
+  amount: number;
+  serviceId?: string | null;
+  categoryIds?: (string | null | undefined)[];
+}
+
+export interface TaxRateBucket {
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+export interface TaxBreakdown {
+  profileId: string | null;
+  pricesIncludeTax: boolean;
+  grossAmount: number;
+  discount: number;
+  subtotal: number;
+  tax: number;
+  total: number;
+  rates: TaxRateBucket[];
+}
+
+export const TAX_TOTALS_TOLERANCE = 0.01;
+
+const round2 = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const toRate = (value: number | string | null | undefined) => {
+  const n = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+};
+
+// Service overrides win over category overrides, which win over the profile's base rate.
+export function resolveTaxRate(profile: TaxProfileConfig | null | undefined, line: TaxLineInput): number {
+  if (!profile) return 0;
+  const overrides = profile.overrides ?? [];
+  if (line.serviceId) {
+    const byService = overrides.find((o) => o.serviceId && o.serviceId === line.serviceId);
+    if (byService) return toRate(byService.rate);
+  }
+  const categoryIds = (line.categoryIds ?? []).filter(Boolean);
+  if (categoryIds.length > 0) {
+    const byCategory = overrides.find(
+      (o) => !o.serviceId && o.categoryId && categoryIds.includes(o.categoryId),
+    );
+    if (byCategory) return toRate(byCategory.rate);
+  }
+  return toRate(profile.rate);
+}
+
+/**
+ * Computes subtotal/tax/total for already-credited line amounts. Any discount is spread across
+ * rate buckets in proportion to their amount before tax is applied, so the client and the server
+ * arrive at the same figures when fed the same lines.
+ */
+export function calculateTaxBreakdown(
+  lines: TaxLineInput[],
+  profile: TaxProfileConfig | null | undefined,
+  discount = 0,
+): TaxBreakdown {
+  const buckets = new Map<number, number>();
+  for (const line of lines) {
+    const amount = Number.isFinite(line.amount) ? Math.max(line.amount, 0) : 0;
+    if (amount === 0) continue;
+    const rate = resolveTaxRate(profile, line);
+    buckets.set(rate, (buckets.get(rate) || 0) + amount);
+  }
+
+  const grossAmount = round2(Array.from(buckets.values()).reduce((sum, v) => sum + v, 0));
+  const appliedDiscount = round2(Math.min(Math.max(discount, 0), grossAmount));
+  const pricesIncludeTax = !!profile?.pricesIncludeTax;
+
+  const rates: TaxRateBucket[] = [];
+  let remainingDiscount = appliedDiscount;
+  const entries = Array.from(buckets.entries()).sort((a, b) => a[0] - b[0]);
+  entries.forEach(([rate, amount], index) => {
+    const share =
+      index === entries.length - 1
+        ? remainingDiscount
+        : round2(grossAmount > 0 ? (appliedDiscount * amount) / grossAmount : 0);
+    remainingDiscount = round2(remainingDiscount - share);
+    const net = round2(Math.max(amount - share, 0));
+    const tax = pricesIncludeTax
+      ? round2(net - net / (1 + rate / 100))
+      : round2((net * rate) / 100);
+    rates.push({ rate, taxableAmount: pricesIncludeTax ? round2(net - tax) : net, tax });
+  });
+
+  const subtotal = round2(rates.reduce((sum, r) => sum + r.taxableAmount, 0));
+  const tax = round2(rates.reduce((sum, r) => sum + r.tax, 0));
+  return {
+    profileId: profile?.id ?? null,
+    pricesIncludeTax,
+    grossAmount,
+    discount: appliedDiscount,
+    subtotal,
+    tax,
+    total: round2(subtotal + tax),
+    rates: rates.filter((r) => r.taxableAmount > 0 || r.tax > 0),
+  };
+}